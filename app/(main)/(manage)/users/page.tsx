@@ -30,10 +30,14 @@ type UserRow = {
   status: UserStatus;
   locationId: string | null;
   location: { id: string; code: string; name: string } | null;
+  supplierId: string | null;
+  supplier: { id: string; company: string } | null;
 };
 
 type LocationOption = { id: string; code: string; name: string };
 
+type SupplierOption = { id: string; company: string };
+
 const ROLE_OPTIONS: { value: UserRole; label: string }[] = USER_ROLES.map(
   (r) => ({
     value: r,
@@ -50,6 +54,9 @@ const STATUS_OPTIONS: { value: UserStatus; label: string }[] =
 /** Sentinel for "no location" so we never use empty string as SelectItem value. */
 const NO_LOCATION_VALUE = '__none__';
 
+/** Sentinel for "no supplier" (supplier-portal link). */
+const NO_SUPPLIER_VALUE = '__none__';
+
 async function patchUser(id: string, body: Record<string, unknown>) {
   const res = await fetch(`/api/user/${id}`, {
     method: 'PATCH',
@@ -65,6 +72,7 @@ async function patchUser(id: string, body: Record<string, unknown>) {
 export default function UsersPage() {
   const [users, setUsers] = useState<UserRow[]>([]);
   const [locations, setLocations] = useState<LocationOption[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchUsers = useCallback(async () => {
@@ -81,11 +89,18 @@ export default function UsersPage() {
     setLocations(data);
   }, []);
 
+  const fetchSuppliers = useCallback(async () => {
+    const res = await fetch('/api/order/suppliers');
+    if (!res.ok) return;
+    const data = (await res.json()) as { suppliers?: SupplierOption[] };
+    setSuppliers(data.suppliers ?? []);
+  }, []);
+
   useEffect(() => {
-    Promise.all([fetchUsers(), fetchLocations()])
+    Promise.all([fetchUsers(), fetchLocations(), fetchSuppliers()])
       .catch(() => toast.error('Failed to load data'))
       .finally(() => setLoading(false));
-  }, [fetchUsers, fetchLocations]);
+  }, [fetchUsers, fetchLocations, fetchSuppliers]);
 
   const updateUser = useCallback(
     async (row: UserRow, field: string, value: unknown) => {
@@ -99,6 +114,8 @@ export default function UsersPage() {
           next.role = value as UserRole;
           next.locationId = null;
           next.location = null;
+          next.supplierId = null;
+          next.supplier = null;
         } else if (field === 'status') next.status = value as UserStatus;
         else if (field === 'locationId') {
           next.locationId = value as string | null;
@@ -106,6 +123,12 @@ export default function UsersPage() {
             value != null
               ? (locations.find((l) => l.id === value) ?? null)
               : null;
+        } else if (field === 'supplierId') {
+          next.supplierId = value as string | null;
+          next.supplier =
+            value != null
+              ? (suppliers.find((s) => s.id === value) ?? null)
+              : null;
         }
         return next;
       })();
@@ -118,6 +141,7 @@ export default function UsersPage() {
         const body: Record<string, unknown> = { [field]: value };
         if (field === 'role') {
           body.locationId = null;
+          body.supplierId = null;
         }
         await patchUser(row.id, body);
         toast.success('Updated');
@@ -126,7 +150,7 @@ export default function UsersPage() {
         toast.error(e instanceof Error ? e.message : 'Update failed');
       }
     },
-    [users, locations],
+    [users, locations, suppliers],
   );
 
   const columns: ColumnDef<UserRow>[] = [
@@ -243,6 +267,46 @@ export default function UsersPage() {
         );
       },
     },
+    {
+      id: 'supplier',
+      header: 'Supplier',
+      cell: ({ row }: { row: Row<UserRow> }) => {
+        // Supplier portal users answer for exactly one supplier; other roles have none.
+        const isSupplier = row.original.role === 'supplier';
+        const shouldSetSupplier = isSupplier && !row.original.supplierId;
+        return (
+          <Select
+            value={row.original.supplierId ?? NO_SUPPLIER_VALUE}
+            onValueChange={(v) =>
+              updateUser(
+                row.original,
+                'supplierId',
+                v === NO_SUPPLIER_VALUE ? null : v,
+              )
+            }
+            disabled={!isSupplier}
+          >
+            <SelectTrigger
+              className={cn(
+                'h-8 w-[160px] border-0 bg-transparent shadow-none',
+                shouldSetSupplier &&
+                  'border-1 border-yellow-500 ring-3 ring-yellow-500/20',
+              )}
+            >
+              <SelectValue placeholder="Supplier" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SUPPLIER_VALUE}>—</SelectItem>
+              {suppliers.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.company}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      },
+    },
   ];
 
   return (
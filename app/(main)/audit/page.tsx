@@ -1,5 +1,33 @@
-const AuditPage = () => {
-  return <div>AuditPage</div>;
+import { AuditLogClient } from '@/features/audit/components/AuditLogClient';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { redirect } from 'next/navigation';
+
+export const dynamic = 'force-dynamic';
+
+const AuditPage = async () => {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!getOfficeOrAdmin(session.user.role)) redirect('/');
+
+  const actors = await prisma.user.findMany({
+    where: { auditLogs: { some: {} } },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true, email: true },
+  });
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Audit</h1>
+        <p className="text-sm text-muted-foreground">
+          Who changed budgets, suppliers, purchase orders, delivery schedules
+          and user approvals.
+        </p>
+      </div>
+      <AuditLogClient actors={actors} />
+    </div>
+  );
 };
 
 export default AuditPage;
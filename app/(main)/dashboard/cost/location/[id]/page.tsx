@@ -15,6 +15,8 @@ import { headers } from 'next/headers';
 import { notFound, redirect } from 'next/navigation';
 import CategoryBudgetBarChart from '@/features/dashboard/budget/components/chart/CategoryBudgetBarChart';
 import BackButton from '@/components/control/BackButton';
+import PnlDataAsOf from '@/features/dashboard/location/components/PnlDataAsOf';
+import { getPnlDataAsOf } from '@/lib/quickbooks/snapshots';
 
 const LocationPage = async ({
   params,
@@ -119,9 +121,12 @@ const LocationPage = async ({
     );
   }
 
+  const pnlAsOf = await getPnlDataAsOf(id, yearMonth);
+
   return (
     <>
       {isOfficeOrAdmin && <BackButton />}
+      <PnlDataAsOf asOf={pnlAsOf} locationId={id} showReconnect={isOfficeOrAdmin} />
       <div className="flex flex-col md:flex-row gap-4">
         <div className="w-full md:w-2/3">
           <TotalBudgetChart
@@ -0,0 +1,55 @@
+import { headers } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import type { QuickBooksApiContext } from '@/features/dashboard/budget';
+import { getLaborMappingData } from '@/features/dashboard/labor';
+import { LaborMappingContent } from '@/features/dashboard/labor/components/mapping/LaborMappingContent';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { getCurrentYearMonth, getInternalAppBaseUrl, isValidYearMonth } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const LaborMappingPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ locationId?: string; yearMonth?: string }>;
+}) => {
+  const session = await auth();
+  if (!session?.user) redirect('/auth');
+  if (!getOfficeOrAdmin(session.user.role)) redirect('/dashboard');
+
+  const sp = await searchParams;
+  const yearMonth =
+    sp.yearMonth && isValidYearMonth(sp.yearMonth) ? sp.yearMonth : getCurrentYearMonth();
+
+  const locations = await prisma.location.findMany({
+    where: { showBudget: true },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, code: true, name: true },
+  });
+  if (locations.length === 0) return notFound();
+  const locationId = locations.some((l) => l.id === sp.locationId)
+    ? sp.locationId!
+    : locations[0].id;
+
+  const headersList = await headers();
+  const context: QuickBooksApiContext = {
+    baseUrl: getInternalAppBaseUrl(headersList),
+    cookie: headersList.get('cookie'),
+  };
+  const data = await getLaborMappingData(locationId, yearMonth, context);
+  if (!data) return notFound();
+
+  return (
+    <LaborMappingContent
+      key={`${locationId}:${yearMonth}:${JSON.stringify(data.mappings)}`}
+      data={data}
+      locations={locations.map((l) => ({
+        id: l.id,
+        label: l.name ? `${l.code} — ${l.name}` : l.code,
+      }))}
+    />
+  );
+};
+
+export default LaborMappingPage;
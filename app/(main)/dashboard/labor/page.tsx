@@ -1,45 +1,67 @@
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
-import Link from 'next/link';
 import { redirect } from 'next/navigation';
+import {
+  DEFAULT_STAFFING_WEEKS,
+  STAFFING_WEEK_OPTIONS,
+} from '@/features/dashboard/labor/utils/compute-staffing';
+import { getLaborStaffingData } from '@/features/dashboard/labor/utils/get-labor-staffing';
+import { LaborStaffingContent } from '@/features/dashboard/labor/components/staffing/LaborStaffingContent';
 
-const LaborPage = async () => {
+export const dynamic = 'force-dynamic';
+
+const LaborPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ locationId?: string; weeks?: string }>;
+}) => {
   const session = await auth();
   if (!session?.user) {
     redirect('/auth');
   }
 
-  const managerLocationId = session.user.locationId ?? undefined;
-  if (!getOfficeOrAdmin(session.user.role) && managerLocationId) {
-    redirect(`/dashboard/location/${managerLocationId}`);
+  const sp = await searchParams;
+  const weeksParam = Number(sp.weeks);
+  const weeks = (STAFFING_WEEK_OPTIONS as readonly number[]).includes(weeksParam)
+    ? weeksParam
+    : DEFAULT_STAFFING_WEEKS;
+
+  // Managers only see their own location.
+  if (!getOfficeOrAdmin(session.user.role)) {
+    const managerLocationId = session.user.locationId;
+    if (!managerLocationId) redirect('/auth');
+    const data = await getLaborStaffingData(managerLocationId, weeks);
+    return <LaborStaffingContent key={managerLocationId} data={data} />;
   }
 
   const locations = await prisma.location.findMany({
     where: { showBudget: true },
     orderBy: { createdAt: 'asc' },
+    select: { id: true, code: true, name: true },
   });
+  if (locations.length === 0) {
+    return (
+      <div className="space-y-4">
+        <h1 className="text-xl font-semibold">Labor staffing</h1>
+        <p className="text-muted-foreground text-sm">No locations to show.</p>
+      </div>
+    );
+  }
+
+  const locationId = locations.some((l) => l.id === sp.locationId)
+    ? sp.locationId!
+    : locations[0].id;
+  const data = await getLaborStaffingData(locationId, weeks);
 
   return (
-    <div className="space-y-4">
-      <h1 className="text-xl font-semibold">Labor</h1>
-      <p className="text-muted-foreground text-sm max-w-lg">
-        Labor-related Cost of Sales lines (payroll, wages, etc.) are summed on
-        each location&apos;s dashboard.
-      </p>
-      <ul className="flex flex-col gap-2 pt-2">
-        {locations.map((loc) => (
-          <li key={loc.id}>
-            <Link
-              href={`/dashboard/location/${loc.id}`}
-              className="text-primary underline-offset-4 hover:underline"
-            >
-              {loc.code}
-              {loc.name ? ` — ${loc.name}` : ''}
-            </Link>
-          </li>
-        ))}
-      </ul>
-    </div>
+    <LaborStaffingContent
+      key={locationId}
+      data={data}
+      locations={locations.map((l) => ({
+        id: l.id,
+        label: l.name ? `${l.code} — ${l.name}` : l.code,
+      }))}
+    />
   );
 };
 
@@ -37,6 +37,12 @@ const BudgetLayout = async ({ children }: { children: React.ReactNode }) => {
                   initialReferencePeriodMonths={
                     budgetSettings.referencePeriodMonths
                   }
+                  initialAlerts={{
+                    enabled: budgetSettings.alertsEnabled,
+                    cosThresholds: budgetSettings.alertCosThresholds,
+                    laborThresholds: budgetSettings.alertLaborThresholds,
+                    recipients: budgetSettings.alertRecipients,
+                  }}
                 />
               </>
             )}
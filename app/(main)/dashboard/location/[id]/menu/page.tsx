@@ -0,0 +1,59 @@
+import { notFound, redirect } from 'next/navigation';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd } from '@/lib/utils';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import { getMenuEngineeringData } from '@/features/dashboard/menu';
+import { MenuEngineeringContent } from '@/features/dashboard/menu/components/MenuEngineeringContent';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_DAYS = 28;
+const MAX_RANGE_DAYS = 366;
+const YMD_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function MenuEngineeringPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  const isOfficeOrAdmin = getOfficeOrAdmin(session.user.role);
+
+  const { id } = await params;
+  if (!isOfficeOrAdmin) {
+    const managerLocationId = session.user.locationId;
+    if (!managerLocationId) redirect('/dashboard');
+    if (managerLocationId !== id) redirect(`/dashboard/location/${managerLocationId}/menu`);
+  }
+
+  const location = await prisma.location.findUnique({
+    where: { id },
+    select: { id: true, code: true, name: true },
+  });
+  if (!location) return notFound();
+
+  const sp = await searchParams;
+  // Default: the last four full weeks of days, ending yesterday.
+  const to =
+    sp.to && YMD_RE.test(sp.to) ? sp.to : addDaysYmd(toVancouverYmd(new Date()), -1);
+  let from =
+    sp.from && YMD_RE.test(sp.from) && sp.from <= to
+      ? sp.from
+      : addDaysYmd(to, -(DEFAULT_RANGE_DAYS - 1));
+  const earliest = addDaysYmd(to, -(MAX_RANGE_DAYS - 1));
+  if (from < earliest) from = earliest;
+
+  const data = await getMenuEngineeringData(id, from, to);
+
+  return (
+    <MenuEngineeringContent
+      data={data}
+      locationLabel={location.name ? `${location.code} — ${location.name}` : location.code}
+      canEditRecipes={isOfficeOrAdmin}
+    />
+  );
+}
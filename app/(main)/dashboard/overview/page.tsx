@@ -0,0 +1,73 @@
+import { ensureBudgetsForMonth, QuickBooksApiContext } from '@/features/dashboard/budget';
+import DashboardCardsSkeleton from '@/features/dashboard/location/components/DashboardCardsSkeleton';
+import OverviewContent from '@/features/dashboard/overview/components/OverviewContent';
+import OverviewGroupPicker from '@/features/dashboard/overview/components/OverviewGroupPicker';
+import { getOverviewLocationOptions } from '@/features/dashboard/overview';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { AppError, GENERIC_ERROR_MESSAGE } from '@/lib/core/errors';
+import { getCurrentYearMonth, getInternalAppBaseUrl, isValidYearMonth } from '@/lib/utils';
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { Suspense } from 'react';
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  searchParams: Promise<{ yearMonth?: string; locations?: string }>;
+};
+
+export default async function OverviewPage({ searchParams }: Props) {
+  const { yearMonth: searchYearMonth, locations: locationsParam } = await searchParams;
+  const yearMonth = searchYearMonth ?? getCurrentYearMonth();
+
+  const session = await auth();
+  if (!session) redirect('/auth');
+
+  // Managers only see their own location — send them to its dashboard.
+  if (!getOfficeOrAdmin(session.user.role)) {
+    const managerLocationId = session.user.locationId;
+    if (!managerLocationId) redirect('/dashboard');
+    redirect(`/dashboard/location/${managerLocationId}?yearMonth=${yearMonth}`);
+  }
+
+  if (!isValidYearMonth(yearMonth)) {
+    redirect(`/dashboard/overview?yearMonth=${getCurrentYearMonth()}`);
+  }
+
+  const options = await getOverviewLocationOptions();
+  const requested = new Set((locationsParam ?? '').split(',').filter(Boolean));
+  const picked = options.filter((o) => requested.has(o.id));
+  const selected = picked.length > 0 ? picked : options;
+
+  const headersList = await headers();
+  const context: QuickBooksApiContext = {
+    baseUrl: getInternalAppBaseUrl(headersList),
+    cookie: headersList.get('cookie'),
+  };
+
+  let budgetError: string | null = null;
+  try {
+    await ensureBudgetsForMonth(yearMonth, session.user.id, context);
+  } catch (e) {
+    console.error(e);
+    budgetError = e instanceof AppError ? e.message : GENERIC_ERROR_MESSAGE;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <OverviewGroupPicker options={options} selectedIds={selected.map((o) => o.id)} />
+      {budgetError && <p className="text-sm text-destructive">{budgetError}</p>}
+      <Suspense
+        key={`${yearMonth}:${selected.map((o) => o.id).join(',')}`}
+        fallback={<DashboardCardsSkeleton />}
+      >
+        <OverviewContent
+          locations={selected}
+          yearMonth={yearMonth}
+          userId={session.user.id}
+          context={context}
+        />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { redirect } from 'next/navigation';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { getDeliveryAnalytics } from '@/lib/delivery/delivery-analytics';
+import { addDaysYmd } from '@/lib/utils';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import { DeliveryAnalyticsContent } from '@/features/delivery/components/DeliveryAnalyticsContent';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_DAYS = 12 * 7;
+const MAX_RANGE_DAYS = 366;
+const YMD_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function DeliveryAnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!getOfficeOrAdmin(session.user.role)) redirect('/auth');
+
+  const sp = await searchParams;
+  const to = sp.to && YMD_RE.test(sp.to) ? sp.to : toVancouverYmd(new Date());
+  let from =
+    sp.from && YMD_RE.test(sp.from) && sp.from <= to
+      ? sp.from
+      : addDaysYmd(to, -(DEFAULT_RANGE_DAYS - 1));
+  // Keep the stop/GPS scan bounded.
+  const earliest = addDaysYmd(to, -(MAX_RANGE_DAYS - 1));
+  if (from < earliest) from = earliest;
+
+  const analytics = await getDeliveryAnalytics(from, to);
+
+  return <DeliveryAnalyticsContent analytics={analytics} />;
+}
@@ -13,13 +13,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Trash2, GripVertical } from 'lucide-react';
+import { Plus, Trash2, GripVertical, Route } from 'lucide-react';
 import { toast } from 'sonner';
 import { markHubLocalMutationCommitted } from '@/lib/delivery/hub-local-mutation';
 import { Droppable } from '@/components/ui/drag-and-drop';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Spinner } from '@/components/ui/spinner';
+import { OptimizeRouteDialog } from '@/features/delivery/components/OptimizeRouteDialog';
 
 type TaskForm = { id?: string; title: string };
 type StopForm = {
@@ -220,6 +221,7 @@ export default function EditDailySchedulePage() {
   const [locations, setLocations] = useState<DeliveryLocationOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [optimizeOpen, setOptimizeOpen] = useState(false);
   const [pendingFocusStopIndex, setPendingFocusStopIndex] = useState<
     number | null
   >(null);
@@ -434,8 +436,29 @@ export default function EditDailySchedulePage() {
           <Plus className="h-4 w-4 mr-1" />
           Add stop
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setOptimizeOpen(true)}
+          disabled={stops.length < 3}
+        >
+          <Route className="h-4 w-4 mr-1" />
+          Optimize route
+        </Button>
       </div>
 
+      {optimizeOpen && (
+        <OptimizeRouteDialog
+          stops={stops.map((s) => ({ ...s, locked: s.arrivedAt != null }))}
+          onOpenChange={setOptimizeOpen}
+          onApply={(ordered) =>
+            setStops((prev) =>
+              ordered.flatMap((o) => prev.filter((s) => s.id === o.id)),
+            )
+          }
+        />
+      )}
+
       <div className="flex gap-2">
         <Button onClick={handleSubmit} disabled={submitting}>
           {submitting ? (
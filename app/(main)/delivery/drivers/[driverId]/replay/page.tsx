@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import { DriverRouteReplay } from '@/features/delivery/components/DriverRouteReplay';
+
+type PageProps = {
+  params: Promise<{ driverId: string }>;
+  searchParams: Promise<{ date?: string }>;
+};
+
+export default async function DriverRouteReplayPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!getOfficeOrAdmin(session.user.role)) redirect('/auth');
+
+  const { driverId } = await params;
+  const { date } = await searchParams;
+  const dateStr =
+    date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toVancouverYmd(new Date());
+
+  return <DriverRouteReplay driverId={driverId} dateStr={dateStr} />;
+}
@@ -22,6 +22,7 @@ import {
   useDeliveryHubRealtime,
   useDeliveryOverviewTracking,
   useDeliverySchedules,
+  useDeliveryStopEtas,
   useStopDialog,
   useConfirmDialog,
 } from '@/features/delivery/hooks';
@@ -84,10 +85,16 @@ export default function DeliveryOverviewPage() {
     requestFreshDriverLocation,
   } = useDeliveryOverviewTracking(selectedDriverId, dateStr);
 
+  const { etaByStopId, lateCount, fetchEtas } = useDeliveryStopEtas(
+    selectedDriverId,
+    dateStr,
+  );
+
   const refreshHubFromRealtime = useCallback(() => {
     void fetchData();
     void fetchTracking(true);
-  }, [fetchData, fetchTracking]);
+    void fetchEtas();
+  }, [fetchData, fetchTracking, fetchEtas]);
 
   useDeliveryHubRealtime(selectedDriverId, dateStr, refreshHubFromRealtime);
 
@@ -194,6 +201,7 @@ export default function DeliveryOverviewPage() {
           selectedDriver={selectedDriver}
           isToday={isToday}
           selectedDate={selectedDate}
+          lateCount={lateCount}
         >
           {loading ? (
             <p className="text-muted-foreground text-sm py-4">Loading…</p>
@@ -220,6 +228,7 @@ export default function DeliveryOverviewPage() {
               onAddStop={stopDialog.openAdd}
               onReorderStops={handleReorderStops}
               onDeleteStop={onDeleteStop}
+              etaByStopId={etaByStopId}
             />
           ) : (
             <DriverNoScheduleCard
@@ -5,10 +5,11 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Droppable } from '@/components/ui/drag-and-drop';
-import { Plus } from 'lucide-react';
+import { Plus, Route } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   FixedScheduleStopDialog,
+  fixedTemplateStopPayload,
   type FixedTemplateStop,
 } from '@/features/delivery/components/FixedScheduleStopDialog';
 import { FixedScheduleStopRow } from '@/features/delivery/components/FixedScheduleStopRow';
@@ -16,6 +17,7 @@ import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { DELETE_STOP_CONFIRM_MESSAGE } from '@/features/delivery/lib/constants';
 import { useConfirmDialog } from '@/features/delivery/hooks/useConfirmDialog';
 import { useFixedScheduleStopDialog } from '@/features/delivery/hooks/useFixedScheduleStopDialog';
+import { OptimizeRouteDialog } from '@/features/delivery/components/OptimizeRouteDialog';
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
@@ -27,6 +29,7 @@ export default function RecurringScheduleEditPage() {
   const [driverName, setDriverName] = useState('');
   const [stops, setStops] = useState<FixedTemplateStop[]>([]);
   const [loading, setLoading] = useState(true);
+  const [optimizeOpen, setOptimizeOpen] = useState(false);
 
   const stopDialog = useFixedScheduleStopDialog();
   const confirmDialog = useConfirmDialog();
@@ -64,6 +67,8 @@ export default function RecurringScheduleEditPage() {
             deliveryLocationId?: string | null;
             lat?: number | null;
             lng?: number | null;
+            plannedStart?: string | null;
+            plannedEnd?: string | null;
             tasks?: { id?: string; title: string }[];
           }) => ({
             id: s.id ?? `stop-${Date.now()}-${Math.random().toString(36).slice(2)}`,
@@ -72,6 +77,8 @@ export default function RecurringScheduleEditPage() {
             address: s.address ?? null,
             lat: s.lat ?? null,
             lng: s.lng ?? null,
+            plannedStart: s.plannedStart ?? null,
+            plannedEnd: s.plannedEnd ?? null,
             tasks: (s.tasks ?? []).map((t: { id?: string; title: string }) => ({
               id: t.id,
               title: t.title ?? '',
@@ -96,14 +103,7 @@ export default function RecurringScheduleEditPage() {
 
   const persistStops = useCallback(
     async (newStops: FixedTemplateStop[]) => {
-      const payload = newStops.map((s) => ({
-        deliveryLocationId: s.deliveryLocationId || null,
-        name: s.name,
-        address: s.address ?? undefined,
-        lat: s.lat ?? undefined,
-        lng: s.lng ?? undefined,
-        tasks: (s.tasks ?? []).map((t) => ({ title: t.title })),
-      }));
+      const payload = newStops.map(fixedTemplateStopPayload);
       const res = await fetch('/api/delivery/fixed-schedule/template', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
@@ -188,11 +188,23 @@ export default function RecurringScheduleEditPage() {
       </p>
 
       <div className="border rounded-lg flex flex-col min-h-[200px]">
-        <div className="p-4 border-b">
-          <h2 className="font-medium">Stops</h2>
-          <p className="text-muted-foreground text-sm mt-1">
-            Drag to reorder. Use + to add a stop between or at the end.
-          </p>
+        <div className="p-4 border-b flex items-start justify-between gap-2">
+          <div>
+            <h2 className="font-medium">Stops</h2>
+            <p className="text-muted-foreground text-sm mt-1">
+              Drag to reorder. Use + to add a stop between or at the end.
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setOptimizeOpen(true)}
+            disabled={stops.length < 3}
+          >
+            <Route className="h-4 w-4 mr-1" />
+            Optimize route
+          </Button>
         </div>
         <div className="flex-1 overflow-y-auto p-4 space-y-1">
           <Droppable items={stops} setItems={handleSetItems}>
@@ -245,6 +257,14 @@ export default function RecurringScheduleEditPage() {
         }}
       />
 
+      {optimizeOpen && (
+        <OptimizeRouteDialog
+          stops={stops}
+          onOpenChange={setOptimizeOpen}
+          onApply={handleSetItems}
+        />
+      )}
+
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </div>
   );
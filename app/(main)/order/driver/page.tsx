@@ -1,5 +1,29 @@
-const DriverOrderPage = () => {
-  return <div>DriverOrderPage</div>;
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { redirect } from 'next/navigation';
+import { DriverOrderClient } from '@/features/order/driver/components/DriverOrderClient';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * /order/driver — Mobile view for drivers: today's stops with the orders to pick up,
+ * in-transit / delivered actions and proof of delivery (quantities, recipient, signature).
+ */
+const DriverOrderPage = async () => {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+
+  const driver = await prisma.driver.findUnique({
+    where: { userId: session.user.id },
+    select: { id: true },
+  });
+  if (!driver) redirect('/order');
+
+  return (
+    <DriverOrderClient
+      driverName={session.user.name?.trim() || session.user.email || 'Driver'}
+    />
+  );
 };
 
 export default DriverOrderPage;
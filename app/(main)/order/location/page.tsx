@@ -1,5 +1,43 @@
-const LocationOrderPage = () => {
-  return <div>LocationOrderPage</div>;
+import { auth, getIsManager } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { LocationOrderClient } from '@/features/order/location/components/LocationOrderClient';
+import { resolveLocationOrderContext } from '@/lib/order/location-order-context';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * /order/location — Store managers build replenishment orders from the Shopify catalog,
+ * placed as the Shopify customer linked to their location's delivery preset.
+ */
+const LocationOrderPage = async () => {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!getIsManager(session.user.role)) redirect('/order');
+
+  if (!session.user.locationId) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-muted-foreground">
+        Your account is not assigned to a location yet. Please contact the office.
+      </div>
+    );
+  }
+
+  const ctx = await resolveLocationOrderContext(session.user.locationId);
+  if (!ctx.ok) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-muted-foreground">
+        {ctx.error} Please ask the office to finish setting up store ordering.
+      </div>
+    );
+  }
+
+  return (
+    <LocationOrderClient
+      locationLabel={`${ctx.location.code} – ${ctx.location.name}`}
+      customerLabel={ctx.customer.label}
+      addressLine={ctx.preset.addressLine}
+    />
+  );
 };
 
 export default LocationOrderPage;
@@ -2,6 +2,7 @@ import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
 import { redirect } from 'next/navigation';
 import { DeliveryLocationPresetsClient } from '@/features/order/office/components/DeliveryLocationPresetsClient';
+import { resolveCustomerDisplayName } from '@/lib/order/resolve-customer-display-name';
 
 export const dynamic = 'force-dynamic';
 
@@ -10,7 +11,7 @@ export default async function DeliveryLocationPresetsPage() {
   if (!session?.user?.id) redirect('/auth');
   if (!getOfficeOrAdmin(session.user.role)) redirect('/order/office');
 
-  const [locations, presets] = await Promise.all([
+  const [locations, presets, customers] = await Promise.all([
     prisma.location.findMany({
       select: { id: true, code: true, name: true },
       orderBy: { code: 'asc' },
@@ -24,6 +25,16 @@ export default async function DeliveryLocationPresetsPage() {
         },
       },
     }),
+    prisma.shopifyCustomer.findMany({
+      select: {
+        id: true,
+        displayName: true,
+        displayNameOverride: true,
+        company: true,
+        email: true,
+      },
+      orderBy: [{ displayNameOverride: 'asc' }, { displayName: 'asc' }],
+    }),
   ]);
 
   return (
@@ -38,6 +49,9 @@ export default async function DeliveryLocationPresetsPage() {
       </div>
       <DeliveryLocationPresetsClient
         locations={locations}
+        customers={customers
+          .map((c) => ({ id: c.id, label: resolveCustomerDisplayName(c) }))
+          .sort((a, b) => a.label.localeCompare(b.label))}
         initialPresets={presets}
       />
     </div>
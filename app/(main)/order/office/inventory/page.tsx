@@ -0,0 +1,38 @@
+import { auth, canManageOrders } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { redirect } from 'next/navigation';
+import { InventoryClient } from '@/features/order/inventory/components/InventoryClient';
+
+export const dynamic = 'force-dynamic';
+
+export default async function OfficeInventoryPage() {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!canManageOrders(session.user.role)) redirect('/order');
+
+  const [locations, suppliers] = await Promise.all([
+    prisma.location.findMany({
+      select: { id: true, code: true, name: true },
+      orderBy: { code: 'asc' },
+    }),
+    prisma.supplier.findMany({
+      select: { id: true, company: true },
+      orderBy: { company: 'asc' },
+    }),
+  ]);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-lg font-semibold">Office — Inventory</h1>
+        <p className="text-sm text-muted-foreground">
+          Stock on hand per location. Receiving a PO adds stock at its ship-to location, driver
+          deliveries draw it down, and counts correct it. Shortfall = open order demand not
+          covered by stock on hand or open POs. Items with a par level are drafted into pending
+          auto POs each morning once on hand plus on order reaches the reorder point.
+        </p>
+      </div>
+      <InventoryClient locations={locations} suppliers={suppliers} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { auth, canManageOrders } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { redirect } from 'next/navigation';
+import { SupplierInvoicesClient } from '@/features/order/invoices/components/SupplierInvoicesClient';
+
+export const dynamic = 'force-dynamic';
+
+type PageProps = {
+  searchParams: Promise<{ invoice?: string }>;
+};
+
+export default async function OfficeInvoicesPage({ searchParams }: PageProps) {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!canManageOrders(session.user.role)) redirect('/order');
+
+  const { invoice } = await searchParams;
+  const suppliers = await prisma.supplier.findMany({
+    select: { id: true, company: true },
+    orderBy: { company: 'asc' },
+  });
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-lg font-semibold">Office — Invoices</h1>
+        <p className="text-sm text-muted-foreground">
+          Supplier invoices matched against their purchase orders: what was ordered, what was
+          received and what was billed. Lines billed above the PO price or above the received
+          quantity are flagged. Approve clean invoices for payment, or dispute them with a note
+          until the supplier sends a credit.
+        </p>
+      </div>
+      <SupplierInvoicesClient suppliers={suppliers} initialInvoiceId={invoice ?? null} />
+    </div>
+  );
+}
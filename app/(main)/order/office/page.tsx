@@ -26,6 +26,7 @@ import { derivePurchaseOrderStatusFromShopify } from '@/lib/order/purchase-order
 import { executeShopifySync } from '@/lib/shopify/sync/run-shopify-sync';
 import { loadVariantOfficeNotesMap } from '@/lib/order/shopify-variant-office-note';
 import { fetchLegacyOrphanPoLinesForInbox } from '@/lib/order/fetch-legacy-orphan-po-lines-for-inbox';
+import { listOpenPurchasePriceAlerts } from '@/lib/order/purchase-price-alerts';
 import OfficeOrderLoading from './loading';
 
 export const dynamic = 'force-dynamic';
@@ -78,6 +79,7 @@ async function OfficeInboxContent() {
     tableViewPoRows,
     rawReplacementOrders,
     replacementOrderCountRows,
+    purchasePriceAlerts,
   ] = await Promise.all([
     // Active POs — skip lineItems entirely; use _count for total, separate query for done counts
     prisma.purchaseOrder.findMany({
@@ -211,6 +213,7 @@ async function OfficeInboxContent() {
       where: { isReplacementOrder: true, archivedAt: null, sourcePurchaseOrderId: { not: null } },
       _count: { id: true },
     }),
+    listOpenPurchasePriceAlerts(),
   ]);
 
   // Merge regular Shopify orders with custom orders for the inbox
@@ -322,6 +325,7 @@ async function OfficeInboxContent() {
       tableViewPoRows={tableViewPoRows}
       tableViewShopifyTotal={tableViewShopifyTotal}
       tableViewPoTotal={tableViewPoTotal}
+      purchasePriceAlerts={purchasePriceAlerts}
     />
   );
 }
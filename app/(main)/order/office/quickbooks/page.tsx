@@ -0,0 +1,42 @@
+import { auth, canManageOrders } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { redirect } from 'next/navigation';
+import { QuickBooksBillMappingClient } from '@/features/order/quickbooks/components/QuickBooksBillMappingClient';
+
+export const dynamic = 'force-dynamic';
+
+export default async function OfficeQuickBooksPage() {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!canManageOrders(session.user.role)) redirect('/order');
+
+  const realms = await prisma.realm.findMany({
+    select: {
+      id: true,
+      name: true,
+      locations: { select: { code: true }, orderBy: { code: 'asc' } },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-lg font-semibold">Office — QuickBooks bills</h1>
+        <p className="text-sm text-muted-foreground">
+          Once a PO is fully received, push it from the PO panel as a QuickBooks bill in the
+          company of the location it ships to. Map each supplier to a QuickBooks vendor per
+          company. Received lines post to the item or account mapped to their SKU, or else to the
+          vendor&apos;s default expense account.
+        </p>
+      </div>
+      <QuickBooksBillMappingClient
+        realms={realms.map((r) => ({
+          id: r.id,
+          name: r.name,
+          locationCodes: r.locations.map((l) => l.code),
+        }))}
+      />
+    </div>
+  );
+}
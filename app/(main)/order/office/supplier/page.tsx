@@ -1,9 +1,11 @@
+import Link from 'next/link';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
 import { isShopifyAdminEnvConfigured } from '@/lib/shopify/env';
 import { fetchShopifyVendorsFromEnv } from '@/lib/shopify/fetchVendors';
 import { SuppliersClient } from '@/features/order/office/components/SuppliersClient';
 import { redirect } from 'next/navigation';
+import { buttonVariants } from '@/components/ui/button';
 
 export const dynamic = 'force-dynamic';
 
@@ -66,11 +68,19 @@ export default async function OfficeSuppliersPage() {
 
   return (
     <div className="max-w-6xl mx-auto space-y-4">
-      <div>
-        <h1 className="text-lg font-semibold">Office — Suppliers</h1>
-        <p className="text-sm text-muted-foreground">
-          Manage suppliers and link Shopify vendors.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-lg font-semibold">Office — Suppliers</h1>
+          <p className="text-sm text-muted-foreground">
+            Manage suppliers and link Shopify vendors.
+          </p>
+        </div>
+        <Link
+          href="/order/office/supplier/scorecards"
+          className={buttonVariants({ variant: 'outline', size: 'sm' })}
+        >
+          Scorecards
+        </Link>
       </div>
 
       <SuppliersClient
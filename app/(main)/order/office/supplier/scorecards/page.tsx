@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation';
+import { auth, canManageOrders } from '@/lib/auth';
+import { getSupplierScorecards } from '@/lib/order/supplier-scorecards';
+import { addDaysYmd } from '@/lib/utils';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import { SupplierScorecardsClient } from '@/features/order/office/components/SupplierScorecardsClient';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_DAYS = 365;
+const YMD_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type PageProps = {
+  searchParams: Promise<{ from?: string; to?: string; supplier?: string }>;
+};
+
+export default async function OfficeSupplierScorecardsPage({ searchParams }: PageProps) {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!canManageOrders(session.user.role)) redirect('/order');
+
+  const sp = await searchParams;
+  const to = sp.to && YMD_RE.test(sp.to) ? sp.to : toVancouverYmd(new Date());
+  const from =
+    sp.from && YMD_RE.test(sp.from) && sp.from <= to
+      ? sp.from
+      : addDaysYmd(to, -(DEFAULT_RANGE_DAYS - 1));
+
+  const scorecards = await getSupplierScorecards(from, to, sp.supplier ?? null);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-lg font-semibold">Office — Supplier scorecards</h1>
+        <p className="text-sm text-muted-foreground">
+          How each supplier performed on the POs ordered in the range: deliveries on time against
+          the expected date, units received against units ordered, how fast PO emails were
+          answered, refunds and replacements by reason, and how unit prices moved per SKU.
+        </p>
+      </div>
+      <SupplierScorecardsClient scorecards={scorecards} />
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
 import { redirect } from 'next/navigation';
 
 /**
  * /order — Routes by role: admin, office, or supply → /order/office; supplier → /order/supplier;
- * manager → /order/location. Employees see no-access messaging.
+ * manager → /order/location. Other users with a `Driver` row → /order/driver; everyone
+ * else sees no-access messaging.
  */
 export default async function OrderRedirectPage() {
   const session = await auth();
@@ -19,11 +21,19 @@ export default async function OrderRedirectPage() {
     case 'manager':
       redirect('/order/location');
     case 'employee':
-    default:
+    default: {
+      const driver = session?.user?.id
+        ? await prisma.driver.findUnique({
+            where: { userId: session.user.id },
+            select: { id: true },
+          })
+        : null;
+      if (driver) redirect('/order/driver');
       return (
         <div className="rounded-lg border border-dashed p-8 text-center text-muted-foreground">
           You do not have access to this section.
         </div>
       );
+    }
   }
 }
@@ -1,5 +1,31 @@
-const SupplierOrderPage = () => {
-  return <div>SupplierOrderPage</div>;
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { redirect } from 'next/navigation';
+import { SupplierPortalClient } from '@/features/order/supplier/components/SupplierPortalClient';
+
+/**
+ * /order/supplier — Supplier portal: POs for the signed-in supplier's `Supplier`,
+ * with acknowledge / propose-changes replies that the office reviews.
+ */
+const SupplierOrderPage = async () => {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (session.user.role !== 'supplier') redirect('/order');
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { supplier: { select: { company: true } } },
+  });
+
+  if (!user?.supplier) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-muted-foreground">
+        Your account is not linked to a supplier yet. Please contact the office.
+      </div>
+    );
+  }
+
+  return <SupplierPortalClient supplierName={user.supplier.company} />;
 };
 
 export default SupplierOrderPage;
@@ -1,6 +1,6 @@
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { getConnections } from '@/lib/quickbooks/connections';
-import { getReportsFromNotion } from '@/features/report/notion/reports';
+import { getPnlReports } from '@/features/report/utils/report-store';
 import { ReportFormSection } from '@/features/report/components/ReportFormSection';
 import { ReportTable } from '@/features/report/components/ReportTable';
 import { redirect } from 'next/navigation';
@@ -55,7 +55,7 @@ export default async function ReportLocationPage({
   }
 
   const reports = session?.user?.id
-    ? await getReportsFromNotion(session.user.id, connection.locationCode)
+    ? await getPnlReports({ locationCode: connection.locationCode })
     : [];
 
   return (
@@ -66,8 +66,8 @@ export default async function ReportLocationPage({
           {connection.locationCode ??
             connection.locationName ??
             connection.realmName}{' '}
-          — Generate and view Profit & Loss reports. Reports are stored in
-          Notion.
+          — Generate and view Profit & Loss reports. Reports are saved with
+          their QuickBooks data, so PDFs re-render without QuickBooks.
         </p>
       </div>
 
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { getConnections } from '@/lib/quickbooks/connections';
+import { ReportSchedulesContent } from '@/features/report/components/schedules/ReportSchedulesContent';
+import { getReportSchedulesData } from '@/features/report/utils/scheduled-reports';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * /report/schedules — Office/Admin: recurring P&L report emails and their send history.
+ */
+export default async function ReportSchedulesPage() {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/auth');
+  if (!getOfficeOrAdmin(session.user.role)) redirect('/report');
+
+  const [connections, data] = await Promise.all([
+    getConnections(session),
+    getReportSchedulesData(),
+  ]);
+  const locations = connections
+    .filter((c) => c.hasTokens)
+    .map((c) => ({ id: c.locationId, code: c.locationCode, name: c.locationName }));
+
+  return <ReportSchedulesContent schedules={data.schedules} runs={data.runs} locations={locations} />;
+}
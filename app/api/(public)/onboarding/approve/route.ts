@@ -1,6 +1,8 @@
 import { parseBody, onboardingApprovePostSchema } from '@/lib/api/schemas';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findUserAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import { UserRole } from '@prisma/client';
 import { NextResponse } from 'next/server';
 
@@ -21,10 +23,7 @@ export async function POST(request: Request) {
   if ('error' in parsed) return parsed.error;
   const { userId } = parsed.data;
 
-  const target = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { id: true, status: true, role: true },
-  });
+  const target = await findUserAuditSnapshot(userId);
 
   if (!target) {
     return NextResponse.json({ error: 'User not found' }, { status: 404 });
@@ -53,5 +52,16 @@ export async function POST(request: Request) {
     },
   });
 
+  await logAudit({
+    entityType: 'user',
+    entityId: userId,
+    entityLabel: target.name ?? target.email,
+    action: 'approved',
+    before: target,
+    after: await findUserAuditSnapshot(userId),
+    actorId: session.user.id,
+    route: auditRouteFromRequest(request),
+  });
+
   return NextResponse.json({ ok: true });
 }
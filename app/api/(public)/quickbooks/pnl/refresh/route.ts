@@ -0,0 +1,30 @@
+/**
+ * GET /api/quickbooks/pnl/refresh — Cron-triggered P&L snapshot reconcile (Bearer CRON_SECRET).
+ * Re-fetches recent months from QuickBooks into the stored snapshots dashboards read from.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshRecentPnlSnapshots } from '@/lib/quickbooks/snapshots';
+
+/** The refresh stops starting QuickBooks calls after 30s; one in-flight call may take 25s more. */
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get('authorization') ?? '';
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshRecentPnlSnapshots();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('[quickbooks pnl refresh] Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { error: 'P&L snapshot refresh failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
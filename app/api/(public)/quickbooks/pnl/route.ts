@@ -2,44 +2,19 @@
 // Query: locationId (required), startDate (YYYY-MM-DD), endDate (YYYY-MM-DD), accountingMethod (optional: Accrual | Cash).
 // Response.report is parsable for P&L PDF (same structure as bhpnl ReportData: Header, Rows, Columns).
 // Use getIncomeFromPnlReport / getIncomeWithCategoriesFromPnlReport / getCosFromPnlReport / getBudgetDataFromPnlReport in lib for income/cos.
+// Served from the stored snapshot (lib/quickbooks/snapshots.ts): stale snapshots are returned as-is and
+// refreshed after the response; QuickBooks is only called inline when the period has never been fetched.
 
-import { NextRequest, NextResponse } from 'next/server';
-import { unstable_cache } from 'next/cache';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { toApiErrorResponse } from '@/lib/core/errors';
-import type { PnlReportData } from '@/lib/quickbooks';
-import { withValidTokenForLocation } from '@/lib/quickbooks';
-import { fetchProfitAndLossReportFromQb } from '@/lib/quickbooks';
+import {
+  isPnlSnapshotFresh,
+  readPnlSnapshot,
+  refreshPnlSnapshot,
+} from '@/lib/quickbooks/snapshots';
 import { prisma } from '@/lib/core/prisma';
 
-/**
- * Cache QB P&L API responses by (locationId, startDate, endDate, accountingMethod).
- * TTL: 5 min for current-month data; callers can invalidate via revalidateTag('qb-pnl').
- * Errors are not cached — a failing QB call will always be retried.
- */
-const fetchCachedQbPnl = unstable_cache(
-  async (
-    locationId: string,
-    startDate: string,
-    endDate: string,
-    accountingMethod: 'Accrual' | 'Cash',
-  ) =>
-    withValidTokenForLocation(
-      locationId,
-      (accessToken, realmId, classId) =>
-        fetchProfitAndLossReportFromQb(
-          realmId,
-          startDate,
-          endDate,
-          accountingMethod,
-          accessToken,
-          classId,
-        ),
-    ),
-  ['qb-pnl'],
-  { revalidate: 300, tags: ['qb-pnl'] },
-);
-
 function parseDate(s: string): string | null {
   const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
   if (!match) return null;
@@ -109,7 +84,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const report = await fetchCachedQbPnl(locationId, start, end, accountingMethod);
+    let snapshot = await readPnlSnapshot(locationId, start, end, accountingMethod);
+    if (!snapshot) {
+      snapshot = await refreshPnlSnapshot(locationId, start, end, accountingMethod);
+    } else if (!isPnlSnapshotFresh(snapshot)) {
+      after(() =>
+        refreshPnlSnapshot(locationId, start, end, accountingMethod).catch((err) =>
+          console.error('GET /api/quickbooks/pnl background refresh failed:', err),
+        ),
+      );
+    }
 
     const body = {
       ok: true,
@@ -118,7 +102,9 @@ export async function GET(request: NextRequest) {
       startDate: start,
       endDate: end,
       accountingMethod,
-      report: report as PnlReportData,
+      report: snapshot.report,
+      fetchedAt: snapshot.fetchedAt.toISOString(),
+      refreshError: snapshot.lastError,
     };
     return NextResponse.json(body);
   } catch (err: unknown) {
@@ -1,11 +1,13 @@
 import { parseBody, userPatchSchema } from '@/lib/api/schemas';
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findUserAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import type { UserRole } from '@prisma/client';
 import { NextResponse } from 'next/server';
 
 export async function PATCH(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
@@ -17,14 +19,11 @@ export async function PATCH(
   }
 
   const { id } = await params;
-  const parsed = await parseBody(_request, userPatchSchema);
+  const parsed = await parseBody(request, userPatchSchema);
   if ('error' in parsed) return parsed.error;
   const body = parsed.data;
 
-  const existing = await prisma.user.findUnique({
-    where: { id },
-    select: { id: true },
-  });
+  const existing = await findUserAuditSnapshot(id);
   if (!existing) {
     return NextResponse.json({ error: 'User not found' }, { status: 404 });
   }
@@ -34,6 +33,7 @@ export async function PATCH(
     role?: UserRole;
     status?: 'pending_onboarding' | 'pending_approval' | 'active' | 'rejected';
     locationId?: string | null;
+    supplierId?: string | null;
   } = {};
   if (body.name !== undefined) updateData.name = body.name || null;
   if (body.role !== undefined) {
@@ -41,11 +41,23 @@ export async function PATCH(
   }
   if (body.status !== undefined) updateData.status = body.status;
   if (body.locationId !== undefined) updateData.locationId = body.locationId ?? null;
+  if (body.supplierId !== undefined) updateData.supplierId = body.supplierId ?? null;
 
   await prisma.user.update({
     where: { id },
     data: updateData,
   });
 
+  await logAudit({
+    entityType: 'user',
+    entityId: id,
+    entityLabel: existing.name ?? existing.email,
+    action: 'updated',
+    before: existing,
+    after: await findUserAuditSnapshot(id),
+    actorId: session.user.id,
+    route: auditRouteFromRequest(request),
+  });
+
   return NextResponse.json({ ok: true });
 }
@@ -20,6 +20,8 @@ export async function GET() {
       status: true,
       locationId: true,
       location: { select: { id: true, code: true, name: true } },
+      supplierId: true,
+      supplier: { select: { id: true, company: true } },
     },
     orderBy: [{ name: 'asc' }, { email: 'asc' }],
   });
@@ -35,6 +37,10 @@ export async function GET() {
       location: u.location
         ? { id: u.location.id, code: u.location.code, name: u.location.name }
         : null,
+      supplierId: u.supplierId,
+      supplier: u.supplier
+        ? { id: u.supplier.id, company: u.supplier.company }
+        : null,
     }))
   );
 }
@@ -0,0 +1,74 @@
+// GET /api/audit?entityType=&entityId=&actorId=&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=&offset= — audit trail (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, getOfficeOrAdmin, requireActiveSession } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { AUDIT_ENTITY_TYPES } from '@/lib/audit/audit-log';
+import { addDaysYmd } from '@/lib/utils';
+import { vancouverWallTimeToDate } from '@/features/order/office/utils/vancouver-datetime';
+import type { Prisma } from '@prisma/client';
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!requireActiveSession(session) || !getOfficeOrAdmin(session?.user?.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    const entityType = sp.get('entityType');
+    const entityId = sp.get('entityId');
+    const actorId = sp.get('actorId');
+    const from = sp.get('from');
+    const to = sp.get('to');
+    const limit = Math.min(parseInt(sp.get('limit') ?? '50', 10) || 50, 200);
+    const offset = Math.max(parseInt(sp.get('offset') ?? '0', 10) || 0, 0);
+
+    if (
+      entityType &&
+      !(AUDIT_ENTITY_TYPES as readonly string[]).includes(entityType)
+    ) {
+      return NextResponse.json({ error: 'Invalid entityType' }, { status: 400 });
+    }
+    if ((from && !YMD.test(from)) || (to && !YMD.test(to))) {
+      return NextResponse.json(
+        { error: 'Invalid date; use YYYY-MM-DD' },
+        { status: 400 },
+      );
+    }
+
+    // Days are Vancouver calendar days; `to` is inclusive, so the bound is the next day's midnight.
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (from) createdAt.gte = vancouverWallTimeToDate(from, '00:00')!;
+    if (to) createdAt.lt = vancouverWallTimeToDate(addDaysYmd(to, 1), '00:00')!;
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+      ...(actorId && { actorId }),
+      ...((from || to) && { createdAt }),
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+        include: { actor: { select: { id: true, name: true, email: true } } },
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      entries,
+      total,
+      hasMore: offset + limit < total,
+    });
+  } catch (err) {
+    return toApiErrorResponse(err, 'GET /api/audit error:');
+  }
+}
@@ -10,6 +10,8 @@ import {
 } from '@/features/dashboard/budget';
 import type { QuickBooksApiContext } from '@/features/dashboard/budget';
 import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findBudgetAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import { getCurrentYearMonth, isValidYearMonth } from '@/lib/utils';
 
 export async function GET(
@@ -124,6 +126,8 @@ export async function PATCH(
     const hasCostPatch =
       budgetRate !== undefined || referencePeriodMonths !== undefined;
 
+    const before = await findBudgetAuditSnapshot(locationId, yearMonth);
+
     const context: QuickBooksApiContext = {
       baseUrl: new URL(request.url).origin,
       cookie: request.headers.get('cookie'),
@@ -156,6 +160,17 @@ export async function PATCH(
       );
     }
 
+    await logAudit({
+      entityType: 'budget',
+      entityId: budget.id,
+      entityLabel: `${budget.location?.code ?? locationId} ${yearMonth}`,
+      action: before ? 'updated' : 'created',
+      before,
+      after: await findBudgetAuditSnapshot(locationId, yearMonth),
+      actorId: session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     return NextResponse.json({ ok: true, yearMonth, budget });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'PATCH /api/dashboard/budget/[locationId] error:');
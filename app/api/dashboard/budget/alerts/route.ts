@@ -0,0 +1,28 @@
+/**
+ * GET /api/dashboard/budget/alerts — Cron-triggered budget variance digest (Bearer CRON_SECRET).
+ * Checks month-to-date COS and labor against the thresholds in the budget settings and emails each
+ * location's managers when one is newly crossed. Runs after the P&L snapshot refresh.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runBudgetVarianceAlerts } from '@/features/dashboard/budget';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get('authorization') ?? '';
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runBudgetVarianceAlerts();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('[budget alerts] Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { error: 'Budget alerts failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
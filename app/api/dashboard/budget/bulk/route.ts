@@ -11,6 +11,8 @@ import {
 } from '@/features/dashboard/budget';
 import type { QuickBooksApiContext } from '@/features/dashboard/budget';
 import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { budgetAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import { listYearMonthsInRange } from '@/lib/utils';
 
 function streamLine(
@@ -60,6 +62,8 @@ export async function POST(request: NextRequest) {
       cookie: request.headers.get('cookie'),
     };
 
+    const route = auditRouteFromRequest(request);
+
     const stream = new ReadableStream<Uint8Array>({
       async start(controller) {
         let updated = 0;
@@ -76,7 +80,7 @@ export async function POST(request: NextRequest) {
                 body.referencePeriodMonths ??
                 budget.referencePeriodMonthsUsed ??
                 defaultPeriod;
-              await ensureBudgetForMonth({
+              const after = await ensureBudgetForMonth({
                 locationId: budget.locationId,
                 yearMonth,
                 userId: session.user.id,
@@ -84,6 +88,16 @@ export async function POST(request: NextRequest) {
                 referencePeriodMonths: period,
                 context,
               });
+              await logAudit({
+                entityType: 'budget',
+                entityId: budget.id,
+                entityLabel: `${budget.location?.code ?? budget.locationId} ${yearMonth}`,
+                action: 'updated',
+                before: budgetAuditSnapshot(budget),
+                after: budgetAuditSnapshot(after),
+                actorId: session.user.id,
+                route,
+              });
               updated += 1;
               streamLine(controller, {
                 type: 'progress',
@@ -12,6 +12,11 @@ import {
 } from '@/features/dashboard/budget';
 import type { QuickBooksApiContext } from '@/features/dashboard/budget';
 import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import {
+  budgetAuditSnapshot,
+  findBudgetAuditSnapshot,
+} from '@/lib/audit/audit-snapshots';
 import { prisma } from '@/lib/core/prisma';
 import { getCurrentYearMonth, isValidYearMonth } from '@/lib/utils';
 
@@ -114,9 +119,11 @@ export async function POST(request: NextRequest) {
       baseUrl: new URL(request.url).origin,
       cookie: request.headers.get('cookie'),
     };
+    const route = auditRouteFromRequest(request);
     const results = await Promise.all(
-      ids.map((locationId) =>
-        ensureBudgetForMonth({
+      ids.map(async (locationId) => {
+        const before = await findBudgetAuditSnapshot(locationId, yearMonth);
+        const budget = await ensureBudgetForMonth({
           locationId,
           yearMonth,
           userId: session.user.id,
@@ -124,8 +131,21 @@ export async function POST(request: NextRequest) {
           referencePeriodMonths,
           referenceData,
           context,
-        }),
-      ),
+        });
+        if (budget) {
+          await logAudit({
+            entityType: 'budget',
+            entityId: budget.id,
+            entityLabel: `${budget.location.code} ${yearMonth}`,
+            action: before ? 'updated' : 'created',
+            before,
+            after: budgetAuditSnapshot(budget),
+            actorId: session.user.id,
+            route,
+          });
+        }
+        return budget;
+      }),
     );
 
     const created = results
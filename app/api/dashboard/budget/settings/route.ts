@@ -1,12 +1,31 @@
 // GET /api/dashboard/budget/settings — get default budget rate and reference period (office/admin can view; manager can view).
-// PATCH /api/dashboard/budget/settings — update default budget rate and reference period (office/admin only).
+// PATCH /api/dashboard/budget/settings — update default budget rate and reference period, and the
+// variance alert thresholds / recipients (office/admin only).
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { parseBody, budgetSettingsPatchSchema } from '@/lib/api/schemas';
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { getOrCreateBudgetSettings } from '@/features/dashboard/budget';
 import { toApiErrorResponse } from '@/lib/core/errors';
 import { prisma } from '@/lib/core/prisma';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+
+type BudgetSettingsRow = Awaited<ReturnType<typeof getOrCreateBudgetSettings>>;
+
+function serializeSettings(settings: BudgetSettingsRow) {
+  return {
+    id: settings.id,
+    budgetRate: Number(settings.budgetRate),
+    referencePeriodMonths: settings.referencePeriodMonths,
+    alertsEnabled: settings.alertsEnabled,
+    alertCosThresholds: settings.alertCosThresholds,
+    alertLaborThresholds: settings.alertLaborThresholds,
+    alertRecipients: settings.alertRecipients,
+    updatedAt: settings.updatedAt.toISOString(),
+    updatedById: settings.updatedById ?? null,
+  };
+}
 
 export async function GET() {
   try {
@@ -19,16 +38,7 @@ export async function GET() {
     }
 
     const settings = await getOrCreateBudgetSettings();
-    return NextResponse.json({
-      ok: true,
-      settings: {
-        id: settings.id,
-        budgetRate: Number(settings.budgetRate),
-        referencePeriodMonths: settings.referencePeriodMonths,
-        updatedAt: settings.updatedAt.toISOString(),
-        updatedById: settings.updatedById ?? null,
-      },
-    });
+    return NextResponse.json({ ok: true, settings: serializeSettings(settings) });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'GET /api/dashboard/budget/settings error:');
   }
@@ -52,33 +62,60 @@ export async function PATCH(request: NextRequest) {
 
     const parsed = await parseBody(request, budgetSettingsPatchSchema);
     if ('error' in parsed) return parsed.error;
-    const { budgetRate, referencePeriodMonths } = parsed.data;
+    const {
+      budgetRate,
+      referencePeriodMonths,
+      alertsEnabled,
+      alertCosThresholds,
+      alertLaborThresholds,
+      alertRecipients,
+    } = parsed.data;
 
     const existing = await getOrCreateBudgetSettings();
-    const data: {
-      budgetRate?: number;
-      referencePeriodMonths?: number;
-      updatedById?: string;
-    } = { updatedById: session.user.id };
+    const data: Prisma.BudgetSettingsUncheckedUpdateInput = {
+      updatedById: session.user.id,
+    };
     if (budgetRate !== undefined) data.budgetRate = budgetRate;
     if (referencePeriodMonths !== undefined)
       data.referencePeriodMonths = referencePeriodMonths;
+    if (alertsEnabled !== undefined) data.alertsEnabled = alertsEnabled;
+    if (alertCosThresholds !== undefined)
+      data.alertCosThresholds = alertCosThresholds;
+    if (alertLaborThresholds !== undefined)
+      data.alertLaborThresholds = alertLaborThresholds;
+    if (alertRecipients !== undefined) data.alertRecipients = alertRecipients;
 
     const updated = await prisma.budgetSettings.update({
       where: { id: existing.id },
       data,
     });
 
-    return NextResponse.json({
-      ok: true,
-      settings: {
-        id: updated.id,
+    await logAudit({
+      entityType: 'budget_settings',
+      entityId: updated.id,
+      entityLabel: 'Default budget settings',
+      action: 'updated',
+      before: {
+        budgetRate: Number(existing.budgetRate),
+        referencePeriodMonths: existing.referencePeriodMonths,
+        alertsEnabled: existing.alertsEnabled,
+        alertCosThresholds: existing.alertCosThresholds,
+        alertLaborThresholds: existing.alertLaborThresholds,
+        alertRecipients: existing.alertRecipients,
+      },
+      after: {
         budgetRate: Number(updated.budgetRate),
         referencePeriodMonths: updated.referencePeriodMonths,
-        updatedAt: updated.updatedAt.toISOString(),
-        updatedById: updated.updatedById ?? null,
+        alertsEnabled: updated.alertsEnabled,
+        alertCosThresholds: updated.alertCosThresholds,
+        alertLaborThresholds: updated.alertLaborThresholds,
+        alertRecipients: updated.alertRecipients,
       },
+      actorId: session.user.id,
+      route: auditRouteFromRequest(request),
     });
+
+    return NextResponse.json({ ok: true, settings: serializeSettings(updated) });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'PATCH /api/dashboard/budget/settings error:');
   }
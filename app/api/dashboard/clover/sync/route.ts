@@ -0,0 +1,32 @@
+/**
+ * GET /api/dashboard/clover/sync — Cron-triggered Clover sales ingestion (Bearer CRON_SECRET).
+ * Pulls new payments / order line items for every Clover location into the local warehouse;
+ * the initial backfill, and any location a run's time budget left behind (`hasMore`), continues
+ * over successive runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { syncAllCloverSales } from '@/lib/clover/sales-sync';
+
+/** The sync stops starting Clover windows after 2 minutes; the window under way finishes after that. */
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get('authorization') ?? '';
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await syncAllCloverSales();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('[clover sales sync] Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { error: 'Clover sales sync failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,80 @@
+// PATCH — rename a labor category. DELETE — remove a custom category; its account mappings go with
+// it, so those accounts fall back to the regex suggestion (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { laborCategoryPatchSchema, parseBody } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can edit labor categories' },
+        { status: 403 },
+      );
+    }
+
+    const { id } = await params;
+    const parsed = await parseBody(request, laborCategoryPatchSchema);
+    if ('error' in parsed) return parsed.error;
+
+    const existing = await prisma.laborCategory.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Labor category not found' }, { status: 404 });
+    }
+    const category = await prisma.laborCategory.update({
+      where: { id },
+      data: { name: parsed.data.name },
+      select: { id: true, name: true, sortOrder: true, isBuiltIn: true },
+    });
+    return NextResponse.json({ ok: true, category });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PATCH /api/dashboard/labor/categories/[id] error:');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can edit labor categories' },
+        { status: 403 },
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.laborCategory.findUnique({
+      where: { id },
+      select: { isBuiltIn: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Labor category not found' }, { status: 404 });
+    }
+    if (existing.isBuiltIn) {
+      return NextResponse.json(
+        { error: 'Built-in labor categories cannot be deleted' },
+        { status: 400 },
+      );
+    }
+    await prisma.laborCategory.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'DELETE /api/dashboard/labor/categories/[id] error:');
+  }
+}
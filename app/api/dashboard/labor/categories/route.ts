@@ -0,0 +1,37 @@
+// POST — add a custom labor category, placed after the existing ones (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { laborCategoryPostSchema, parseBody } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can edit labor categories' },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(request, laborCategoryPostSchema);
+    if ('error' in parsed) return parsed.error;
+
+    const last = await prisma.laborCategory.findFirst({
+      orderBy: { sortOrder: 'desc' },
+      select: { sortOrder: true },
+    });
+    const category = await prisma.laborCategory.create({
+      data: { name: parsed.data.name, sortOrder: (last?.sortOrder ?? -1) + 1 },
+      select: { id: true, name: true, sortOrder: true, isBuiltIn: true },
+    });
+    return NextResponse.json({ ok: true, category }, { status: 201 });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/dashboard/labor/categories error:');
+  }
+}
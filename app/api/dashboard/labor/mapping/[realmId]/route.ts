@@ -0,0 +1,67 @@
+// PUT — save QuickBooks Expense D account → labor category mappings for one realm; a null
+// categoryId removes the mapping so the account falls back to the regex suggestion (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { laborAccountMappingPutSchema, parseBody } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ realmId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can edit labor mappings' },
+        { status: 403 },
+      );
+    }
+
+    const { realmId } = await params;
+    const parsed = await parseBody(request, laborAccountMappingPutSchema);
+    if ('error' in parsed) return parsed.error;
+    const { mappings } = parsed.data;
+
+    const realm = await prisma.realm.findUnique({ where: { id: realmId }, select: { id: true } });
+    if (!realm) {
+      return NextResponse.json({ error: 'QuickBooks company not found' }, { status: 404 });
+    }
+    const categoryIds = [
+      ...new Set(mappings.map((m) => m.categoryId).filter((id): id is string => id != null)),
+    ];
+    const found = await prisma.laborCategory.count({ where: { id: { in: categoryIds } } });
+    if (found !== categoryIds.length) {
+      return NextResponse.json({ error: 'Unknown labor category' }, { status: 400 });
+    }
+
+    const cleared = mappings.filter((m) => m.categoryId == null).map((m) => m.accountName);
+    await prisma.$transaction([
+      prisma.laborAccountMapping.deleteMany({
+        where: { realmId, accountName: { in: cleared } },
+      }),
+      ...mappings
+        .filter((m) => m.categoryId != null)
+        .map((m) =>
+          prisma.laborAccountMapping.upsert({
+            where: { realmId_accountName: { realmId, accountName: m.accountName } },
+            create: { realmId, accountName: m.accountName, categoryId: m.categoryId! },
+            update: { categoryId: m.categoryId! },
+          }),
+        ),
+    ]);
+
+    const saved = await prisma.laborAccountMapping.findMany({
+      where: { realmId },
+      select: { accountName: true, categoryId: true },
+    });
+    return NextResponse.json({ ok: true, mappings: saved });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PUT /api/dashboard/labor/mapping/[realmId] error:');
+  }
+}
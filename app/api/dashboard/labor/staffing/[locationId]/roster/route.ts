@@ -0,0 +1,52 @@
+// PUT — replace the location's weekly shift roster (office/admin, or the location's manager).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { laborRosterPutSchema, parseBody } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { getLaborShifts } from '@/features/dashboard/labor/utils/get-labor-staffing';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { locationId } = await params;
+    if (
+      !getOfficeOrAdmin(session.user.role) &&
+      session.user.locationId !== locationId
+    ) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const parsed = await parseBody(request, laborRosterPutSchema);
+    if ('error' in parsed) return parsed.error;
+
+    await prisma.$transaction([
+      prisma.laborShift.deleteMany({ where: { locationId } }),
+      prisma.laborShift.createMany({
+        data: parsed.data.shifts.map((s) => ({
+          locationId,
+          dayOfWeek: s.dayOfWeek,
+          startTime: s.startTime,
+          endTime: s.endTime,
+          headcount: s.headcount,
+          label: s.label ?? null,
+        })),
+      }),
+    ]);
+
+    return NextResponse.json({ ok: true, shifts: await getLaborShifts(locationId) });
+  } catch (err: unknown) {
+    return toApiErrorResponse(
+      err,
+      'PUT /api/dashboard/labor/staffing/[locationId]/roster error:',
+    );
+  }
+}
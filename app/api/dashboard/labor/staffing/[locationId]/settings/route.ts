@@ -0,0 +1,44 @@
+// PUT — save the hourly wage used for staffing recommendations (office/admin, or the location's manager).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { laborStaffingSettingsPutSchema, parseBody } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { locationId } = await params;
+    if (
+      !getOfficeOrAdmin(session.user.role) &&
+      session.user.locationId !== locationId
+    ) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const parsed = await parseBody(request, laborStaffingSettingsPutSchema);
+    if ('error' in parsed) return parsed.error;
+    const { hourlyWage } = parsed.data;
+
+    await prisma.laborStaffingSettings.upsert({
+      where: { locationId },
+      create: { locationId, hourlyWage },
+      update: { hourlyWage },
+    });
+
+    return NextResponse.json({ ok: true, hourlyWage });
+  } catch (err: unknown) {
+    return toApiErrorResponse(
+      err,
+      'PUT /api/dashboard/labor/staffing/[locationId]/settings error:',
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// PUT — map a Clover menu item to a Cost recipe for menu engineering, or unmap it (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cloverItemRecipePutSchema, parseBody } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can map menu items to recipes' },
+        { status: 403 },
+      );
+    }
+
+    const { locationId } = await params;
+    const parsed = await parseBody(request, cloverItemRecipePutSchema);
+    if ('error' in parsed) return parsed.error;
+    const { itemKey, itemName, costId, portions } = parsed.data;
+
+    if (!costId) {
+      await prisma.cloverItemRecipe.deleteMany({ where: { locationId, itemKey } });
+      return NextResponse.json({ ok: true, mapping: null });
+    }
+
+    const cost = await prisma.cost.findUnique({ where: { id: costId }, select: { id: true } });
+    if (!cost) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const mapping = await prisma.cloverItemRecipe.upsert({
+      where: { locationId_itemKey: { locationId, itemKey } },
+      create: { locationId, itemKey, itemName, costId, portions },
+      update: { itemName, costId, portions },
+      select: { itemKey: true, costId: true, portions: true },
+    });
+    return NextResponse.json({ ok: true, mapping });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PUT /api/dashboard/menu/[locationId]/recipes error:');
+  }
+}
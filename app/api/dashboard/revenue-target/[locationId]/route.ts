@@ -125,6 +125,9 @@ export async function PATCH(
     if (msg.includes('Clover is not configured')) {
       return NextResponse.json({ error: msg }, { status: 400 });
     }
+    if (msg.includes('have not been synced yet')) {
+      return NextResponse.json({ error: msg }, { status: 409 });
+    }
     return toApiErrorResponse(err, 'PATCH revenue-target');
   }
 }
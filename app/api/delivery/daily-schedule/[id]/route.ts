@@ -2,6 +2,11 @@ import { deliveryDailySchedulePatchSchema, parseBody } from '@/lib/api/schemas';
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
 import { emitDeliveryRealtimeEvent } from '@/lib/delivery/emit-delivery-realtime';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import {
+  findDailyScheduleAuditLabel,
+  findDailyScheduleAuditSnapshot,
+} from '@/lib/audit/audit-snapshots';
 import type { Prisma } from '@prisma/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { parseScheduleId } from '../route';
@@ -91,6 +96,8 @@ export async function GET(
       lng: true,
       arrivedAt: true,
       departedAt: true,
+      plannedStart: true,
+      plannedEnd: true,
       createdAt: true,
       driver: {
         select: {
@@ -202,6 +209,8 @@ export async function PATCH(
   if ('error' in body) return body.error;
   const { stops } = body.data;
 
+  const before = await findDailyScheduleAuditSnapshot(dateOnly, driverId);
+
   if (stops && stops.length > 0) {
     const officeUserId = session.user?.id ?? null;
     await prisma.$transaction(async (tx) => {
@@ -236,6 +245,10 @@ export async function PATCH(
             : null;
 
         if (existing) {
+          // A moved deadline may make the stop late again; allow a fresh warning.
+          const plannedEndChanged =
+            s.plannedEnd !== undefined &&
+            (s.plannedEnd ?? null) !== existing.plannedEnd;
           await tx.dailyScheduleStop.update({
             where: { id: s.id! },
             data: {
@@ -247,6 +260,12 @@ export async function PATCH(
                 : {}),
               ...(s.lat !== undefined ? { lat: s.lat ?? null } : {}),
               ...(s.lng !== undefined ? { lng: s.lng ?? null } : {}),
+              ...(s.plannedStart !== undefined
+                ? { plannedStart: s.plannedStart ?? null }
+                : {}),
+              ...(plannedEndChanged
+                ? { plannedEnd: s.plannedEnd ?? null, lateNotifiedAt: null }
+                : {}),
             },
           });
           await syncDailyStopTasks(tx, s.id!, s.tasks ?? [], officeUserId);
@@ -261,6 +280,8 @@ export async function PATCH(
               address: s.address ?? null,
               lat: s.lat ?? null,
               lng: s.lng ?? null,
+              plannedStart: s.plannedStart ?? null,
+              plannedEnd: s.plannedEnd ?? null,
             },
           });
           await syncDailyStopTasks(tx, created.id, s.tasks ?? [], officeUserId);
@@ -276,6 +297,18 @@ export async function PATCH(
     });
   }
 
+  const after = await findDailyScheduleAuditSnapshot(dateOnly, driverId);
+  await logAudit({
+    entityType: 'delivery_schedule',
+    entityId: id,
+    entityLabel: await findDailyScheduleAuditLabel(dateStr, driverId),
+    action: before ? (after ? 'updated' : 'deleted') : 'created',
+    before,
+    after,
+    actorId: session.user.id,
+    route: auditRouteFromRequest(request),
+  });
+
   emitDeliveryRealtimeEvent({
     type: 'schedule',
     driverId,
@@ -286,7 +319,7 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const session = await auth();
@@ -311,12 +344,24 @@ export async function DELETE(
     );
   }
 
+  const before = await findDailyScheduleAuditSnapshot(dateOnly, driverId);
   await prisma.dailyScheduleTask.deleteMany({
     where: { dailyScheduleStop: { date: dateOnly, driverId } },
   });
   await prisma.dailyScheduleStop.deleteMany({
     where: { date: dateOnly, driverId },
   });
+  if (before) {
+    await logAudit({
+      entityType: 'delivery_schedule',
+      entityId: id,
+      entityLabel: await findDailyScheduleAuditLabel(dateStr, driverId),
+      action: 'deleted',
+      before,
+      actorId: session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+  }
   emitDeliveryRealtimeEvent({
     type: 'schedule',
     driverId,
@@ -5,6 +5,12 @@ import {
   deliveryDailyScheduleFromFixedPostSchema,
 } from '@/lib/api/schemas';
 import { prisma } from '@/lib/core/prisma';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import {
+  findDailyScheduleAuditLabel,
+  findDailyScheduleAuditSnapshot,
+} from '@/lib/audit/audit-snapshots';
+import { scheduleIdFrom } from '../route';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
@@ -42,6 +48,8 @@ export async function POST(request: NextRequest) {
           address: true,
           lat: true,
           lng: true,
+          plannedStart: true,
+          plannedEnd: true,
           tasks: {
             orderBy: { sequence: 'asc' },
             select: { title: true },
@@ -81,6 +89,8 @@ export async function POST(request: NextRequest) {
           address: s.address ?? null,
           lat: s.lat ?? null,
           lng: s.lng ?? null,
+          plannedStart: s.plannedStart,
+          plannedEnd: s.plannedEnd,
           tasks: {
             create: (s.tasks ?? [])
               .filter((t) => t.title.trim())
@@ -98,7 +108,17 @@ export async function POST(request: NextRequest) {
     existingDriverIds.add(fixed.driverId);
   }
 
+  const route = auditRouteFromRequest(request);
   for (const row of created) {
+    await logAudit({
+      entityType: 'delivery_schedule',
+      entityId: scheduleIdFrom(date, row.driverId),
+      entityLabel: await findDailyScheduleAuditLabel(date, row.driverId),
+      action: 'created',
+      after: await findDailyScheduleAuditSnapshot(dateOnly, row.driverId),
+      actorId: session.user.id,
+      route,
+    });
     emitDeliveryRealtimeEvent({
       type: 'schedule',
       driverId: row.driverId,
@@ -3,6 +3,11 @@ import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/core/prisma';
 import { emitDeliveryRealtimeEvent } from '@/lib/delivery/emit-delivery-realtime';
 import { toDriverScheduleApiShape } from '@/lib/delivery/resolve-driver-display-name';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import {
+  findDailyScheduleAuditLabel,
+  findDailyScheduleAuditSnapshot,
+} from '@/lib/audit/audit-snapshots';
 import { NextRequest, NextResponse } from 'next/server';
 
 /** Synthetic schedule id for API compatibility: date_driverId (e.g. 2025-03-04_cldriver123) */
@@ -60,6 +65,8 @@ export async function GET(request: NextRequest) {
       lng: true,
       arrivedAt: true,
       departedAt: true,
+      plannedStart: true,
+      plannedEnd: true,
       driver: {
         select: {
           id: true,
@@ -192,6 +199,8 @@ export async function POST(request: NextRequest) {
           address: s.address ?? null,
           lat: s.lat ?? null,
           lng: s.lng ?? null,
+          plannedStart: s.plannedStart ?? null,
+          plannedEnd: s.plannedEnd ?? null,
           tasks: {
             create: (s.tasks ?? []).map((t, tidx) => ({
               sequence: tidx,
@@ -226,6 +235,15 @@ export async function POST(request: NextRequest) {
     driver: { id: driver.id, name: driver.user?.name ?? null },
     stops: createdStops,
   };
+  await logAudit({
+    entityType: 'delivery_schedule',
+    entityId: schedule.id,
+    entityLabel: await findDailyScheduleAuditLabel(date, driverId),
+    action: 'created',
+    after: await findDailyScheduleAuditSnapshot(dateOnly, driverId),
+    actorId: session.user.id,
+    route: auditRouteFromRequest(request),
+  });
   emitDeliveryRealtimeEvent({
     type: 'schedule',
     driverId,
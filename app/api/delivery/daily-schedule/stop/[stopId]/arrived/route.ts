@@ -8,6 +8,7 @@ import {
   scheduleDateToUtcDayString,
 } from '@/lib/delivery/emit-delivery-realtime';
 import { verifyDriverToken } from '@/lib/delivery/driver-auth';
+import { pushNewlyLateStops } from '@/lib/delivery/stop-eta';
 import { prisma } from '@/lib/core/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 
@@ -35,11 +36,13 @@ export async function PATCH(
     data: { arrivedAt: new Date() },
     select: { id: true, arrivedAt: true },
   });
+  const date = scheduleDateToUtcDayString(stop.date);
   emitDeliveryRealtimeEvent({
     type: 'driver_status',
     driverId: stop.driverId,
-    date: scheduleDateToUtcDayString(stop.date),
+    date,
     origin: 'driver',
   });
+  void pushNewlyLateStops(stop.driverId, date);
   return NextResponse.json(updated);
 }
@@ -0,0 +1,37 @@
+/**
+ * GET /api/delivery/driver/[id]/eta?date=YYYY-MM-DD
+ * Auth: office/admin (session). Planned window, actual arrival or live ETA, and lateness per stop.
+ * Kept out of the daily-schedule / tracking payloads because live ETAs change on every request.
+ */
+
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { loadDriverStopEtas } from '@/lib/delivery/stop-eta';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!getOfficeOrAdmin(session.user.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id: driverId } = await params;
+  const dateStr = new URL(request.url).searchParams.get('date');
+  if (!dateStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    return NextResponse.json(
+      { error: 'Query param date is required (YYYY-MM-DD)' },
+      { status: 400 },
+    );
+  }
+
+  const rows = await loadDriverStopEtas(driverId, dateStr);
+  return NextResponse.json({
+    date: dateStr,
+    stops: rows.map((r) => r.eta),
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * GET /api/delivery/driver/[id]/replay?date=YYYY-MM-DD
+ * Auth: office/admin (session). Whole-day GPS track (raw pings, or the simplified archive once raw
+ * pings passed retention) plus the day's stops with arrival/departure times, for route replay.
+ */
+
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { loadDriverDayTrack } from '@/lib/delivery/driver-track-archive';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!getOfficeOrAdmin(session.user.role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id: driverId } = await params;
+  const { searchParams } = new URL(request.url);
+  const dateStr = searchParams.get('date');
+  if (!dateStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    return NextResponse.json(
+      { error: 'Query param date is required (YYYY-MM-DD)' },
+      { status: 400 },
+    );
+  }
+  const dateOnly = new Date(dateStr + 'Z');
+  if (Number.isNaN(dateOnly.getTime())) {
+    return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+  }
+
+  const driver = await prisma.driver.findUnique({
+    where: { id: driverId },
+    select: { id: true, user: { select: { name: true } } },
+  });
+  if (!driver) {
+    return NextResponse.json({ error: 'Driver not found' }, { status: 404 });
+  }
+
+  const [stops, track] = await Promise.all([
+    prisma.dailyScheduleStop.findMany({
+      where: { date: dateOnly, driverId },
+      orderBy: { sequence: 'asc' },
+      select: {
+        id: true,
+        sequence: true,
+        name: true,
+        address: true,
+        lat: true,
+        lng: true,
+        arrivedAt: true,
+        departedAt: true,
+        plannedStart: true,
+        plannedEnd: true,
+      },
+    }),
+    loadDriverDayTrack(driverId, dateStr),
+  ]);
+
+  return NextResponse.json({
+    driver: { id: driver.id, name: driver.user?.name ?? null },
+    date: dateStr,
+    archived: track.archived,
+    stops,
+    path: track.points.map((p) => ({
+      lat: p.lat,
+      lng: p.lng,
+      createdAt: p.createdAt.toISOString(),
+    })),
+  });
+}
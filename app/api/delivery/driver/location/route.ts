@@ -1,6 +1,7 @@
 /**
  * POST /api/delivery/driver/location
- * Auth: Bearer driver JWT. Body: { lat, lng }. Records GPS update for office tracking.
+ * Auth: Bearer driver JWT. Body: { lat, lng }. Records GPS update for office tracking, then
+ * re-projects stop ETAs and pushes `stop_late` for stops that just fell behind their window.
  */
 
 import {
@@ -8,6 +9,8 @@ import {
   scheduleDateToUtcDayString,
 } from '@/lib/delivery/emit-delivery-realtime';
 import { verifyDriverToken } from '@/lib/delivery/driver-auth';
+import { pushNewlyLateStops } from '@/lib/delivery/stop-eta';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
 import { parseBody, deliveryDriverLocationPostSchema } from '@/lib/api/schemas';
 import { prisma } from '@/lib/core/prisma';
 import { NextResponse } from 'next/server';
@@ -40,6 +43,10 @@ export async function POST(request: Request) {
     date: scheduleDateToUtcDayString(locationRow.createdAt),
     origin: 'driver',
   });
+  // Schedules are keyed by the Vancouver day; the UTC day rolls over in the late afternoon.
+  void pushNewlyLateStops(payload.driverId, toVancouverYmd(locationRow.createdAt), {
+    throttle: true,
+  });
 
   return NextResponse.json({ ok: true });
 }
@@ -1,6 +1,11 @@
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
 import { parseBody, deliveryFixedSchedulePostSchema } from '@/lib/api/schemas';
 import { prisma } from '@/lib/core/prisma';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import {
+  findDriverAuditLabel,
+  findDriverFixedScheduleAuditSnapshot,
+} from '@/lib/audit/audit-snapshots';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(request: NextRequest) {
@@ -64,6 +69,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Driver not found' }, { status: 400 });
   }
 
+  const before = await findDriverFixedScheduleAuditSnapshot(driverId);
   const created = await prisma.driverFixedSchedule.upsert({
     where: {
       driverId_dayOfWeek: { driverId, dayOfWeek },
@@ -77,6 +83,17 @@ export async function POST(request: NextRequest) {
       createdAt: true,
     },
   });
+  const after = await findDriverFixedScheduleAuditSnapshot(driverId);
+  await logAudit({
+    entityType: 'driver_fixed_schedule',
+    entityId: driverId,
+    entityLabel: await findDriverAuditLabel(driverId),
+    action: before ? 'updated' : 'created',
+    before,
+    after,
+    actorId: session.user.id,
+    route: auditRouteFromRequest(request),
+  });
   return NextResponse.json(created, { status: 201 });
 }
 
@@ -106,8 +123,22 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
-  await prisma.driverFixedSchedule.deleteMany({
+  const before = await findDriverFixedScheduleAuditSnapshot(driverId);
+  const { count } = await prisma.driverFixedSchedule.deleteMany({
     where: { driverId, dayOfWeek: dow },
   });
+  if (count > 0) {
+    const after = await findDriverFixedScheduleAuditSnapshot(driverId);
+    await logAudit({
+      entityType: 'driver_fixed_schedule',
+      entityId: driverId,
+      entityLabel: await findDriverAuditLabel(driverId),
+      action: after ? 'updated' : 'deleted',
+      before,
+      after,
+      actorId: session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+  }
   return NextResponse.json({ ok: true });
 }
@@ -46,6 +46,8 @@ export async function GET(request: NextRequest) {
           address: true,
           lat: true,
           lng: true,
+          plannedStart: true,
+          plannedEnd: true,
           deliveryLocation: {
             select: { id: true, name: true, address: true },
           },
@@ -73,6 +75,8 @@ export async function GET(request: NextRequest) {
     address: s.address,
     lat: s.lat,
     lng: s.lng,
+    plannedStart: s.plannedStart,
+    plannedEnd: s.plannedEnd,
     deliveryLocation: s.deliveryLocation,
     tasks: s.tasks.map((t) => ({ id: t.id, sequence: t.sequence, title: t.title })),
   }));
@@ -127,6 +131,8 @@ export async function PUT(request: NextRequest) {
             address: s.address?.trim() ?? null,
             lat: s.lat ?? null,
             lng: s.lng ?? null,
+            plannedStart: s.plannedStart ?? null,
+            plannedEnd: s.plannedEnd ?? null,
           },
           select: { id: true },
         });
@@ -34,12 +34,16 @@ export async function PATCH(
     lat?: number | null;
     lng?: number | null;
     locationId?: string | null;
+    windowStart?: string | null;
+    windowEnd?: string | null;
   } = {};
   if (body.name !== undefined) updateData.name = body.name;
   if (body.address !== undefined) updateData.address = body.address ?? null;
   if (body.lat !== undefined) updateData.lat = body.lat ?? null;
   if (body.lng !== undefined) updateData.lng = body.lng ?? null;
   if (body.locationId !== undefined) updateData.locationId = body.locationId ?? null;
+  if (body.windowStart !== undefined) updateData.windowStart = body.windowStart ?? null;
+  if (body.windowEnd !== undefined) updateData.windowEnd = body.windowEnd ?? null;
 
   await prisma.deliveryLocation.update({
     where: { id },
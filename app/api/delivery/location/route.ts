@@ -21,6 +21,8 @@ export async function GET() {
       lat: true,
       lng: true,
       locationId: true,
+      windowStart: true,
+      windowEnd: true,
       createdAt: true,
     },
   });
@@ -38,7 +40,8 @@ export async function POST(request: NextRequest) {
 
   const parsed = await parseBody(request, deliveryLocationPostSchema);
   if ('error' in parsed) return parsed.error;
-  const { name, address, lat, lng, locationId } = parsed.data;
+  const { name, address, lat, lng, locationId, windowStart, windowEnd } =
+    parsed.data;
 
   const created = await prisma.deliveryLocation.create({
     data: {
@@ -47,6 +50,8 @@ export async function POST(request: NextRequest) {
       lat: lat ?? null,
       lng: lng ?? null,
       locationId: locationId ?? null,
+      windowStart: windowStart ?? null,
+      windowEnd: windowEnd ?? null,
     },
     select: {
       id: true,
@@ -55,6 +60,8 @@ export async function POST(request: NextRequest) {
       lat: true,
       lng: true,
       locationId: true,
+      windowStart: true,
+      windowEnd: true,
       createdAt: true,
     },
   });
@@ -2,8 +2,9 @@
  * GET /api/delivery/realtime/stream
  * Server-Sent Events: office session + ?driverId=…, or driver JWT (Authorization: Bearer).
  *
- * Uses an in-memory bus (same Node process). For multiple app instances or strict serverless
- * timeouts, replace with Redis pub/sub or a hosted realtime provider.
+ * Each event carries an SSE `id`. On reconnect, `Last-Event-ID` (or `?lastEventId=` for clients
+ * that reconnect by hand) replays what was missed; if that is not possible the `connected`
+ * event has `resync: true` and the client should refetch. Bus backend: see realtime-bus.ts.
  */
 
 import { auth, getOfficeOrAdmin } from '@/lib/auth';
@@ -20,6 +21,8 @@ export async function GET(request: NextRequest) {
   const encoder = new TextEncoder();
   const { searchParams } = new URL(request.url);
   const driverIdParam = searchParams.get('driverId');
+  const lastEventId =
+    request.headers.get('last-event-id') || searchParams.get('lastEventId');
 
   let driverId: string | null = null;
 
@@ -49,16 +52,54 @@ export async function GET(request: NextRequest) {
   const bus = getDeliveryRealtimeBus();
 
   const stream = new ReadableStream({
-    start(controller) {
-      const send = (payload: DeliveryRealtimeEvent) => {
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(payload)}\n\n`),
-        );
+    async start(controller) {
+      let closed = false;
+      const sent = new Set<string>();
+      const send = (payload: DeliveryRealtimeEvent, eventId?: string) => {
+        if (closed) return;
+        if (eventId) {
+          if (sent.has(eventId)) return;
+          sent.add(eventId);
+        }
+        const idLine = eventId ? `id: ${eventId}\n` : '';
+        try {
+          controller.enqueue(
+            encoder.encode(`${idLine}data: ${JSON.stringify(payload)}\n\n`),
+          );
+        } catch {
+          closed = true;
+        }
       };
 
-      const unsubscribe = bus.subscribe(driverId!, send);
+      // Subscribe before replaying so nothing published in between is lost: live events are
+      // held until the replay is written, and ids dedupe the overlap.
+      let held: { payload: DeliveryRealtimeEvent; eventId?: string }[] | null =
+        lastEventId ? [] : null;
+      const unsubscribe = bus.subscribe(driverId!, (payload, eventId) => {
+        if (held) held.push({ payload, eventId });
+        else send(payload, eventId);
+      });
 
-      send({ type: 'connected', driverId: driverId! });
+      let resync = false;
+      if (lastEventId) {
+        try {
+          const replay = await bus.replaySince(driverId!, lastEventId);
+          resync = !replay.complete;
+          for (const e of replay.events) send(e.payload, e.id);
+        } catch (err) {
+          console.error('[delivery realtime] replay failed:', err);
+          resync = true;
+        }
+        const live = held ?? [];
+        held = null;
+        for (const e of live) send(e.payload, e.eventId);
+      }
+
+      send({
+        type: 'connected',
+        driverId: driverId!,
+        ...(resync ? { resync: true } : {}),
+      });
 
       const heartbeat = setInterval(() => {
         try {
@@ -69,6 +110,7 @@ export async function GET(request: NextRequest) {
       }, 25_000);
 
       request.signal.addEventListener('abort', () => {
+        closed = true;
         clearInterval(heartbeat);
         unsubscribe();
         try {
@@ -0,0 +1,27 @@
+/**
+ * GET /api/delivery/tracking/retention — Cron-triggered GPS track retention (Bearer CRON_SECRET).
+ * Simplifies raw driver pings older than the retention period into per-day archives and deletes them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { archiveOldDriverTracks } from '@/lib/delivery/driver-track-archive';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get('authorization') ?? '';
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await archiveOldDriverTracks();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('[delivery tracking retention] Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { error: 'Track retention failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
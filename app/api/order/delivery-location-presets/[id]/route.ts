@@ -67,6 +67,9 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
             : {}),
           ...(data.lat !== undefined ? { lat: data.lat } : {}),
           ...(data.lng !== undefined ? { lng: data.lng } : {}),
+          ...(data.shopifyCustomerId !== undefined
+            ? { shopifyCustomerId: data.shopifyCustomerId }
+            : {}),
         },
       });
       if (data.locationIds !== undefined) {
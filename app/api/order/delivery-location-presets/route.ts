@@ -96,6 +96,7 @@ export async function POST(request: NextRequest) {
           country: data.country?.trim() || 'CA',
           lat: data.lat ?? null,
           lng: data.lng ?? null,
+          shopifyCustomerId: data.shopifyCustomerId ?? null,
         },
       });
       await syncPresetLinkedLocations(tx, row.id, uniqueIds);
@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDriverUser } from '@/lib/api/require-driver-user';
+import { driverDeliverSchema, parseBody } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import {
+  emitDeliveryRealtimeEvent,
+  scheduleDateToUtcDayString,
+} from '@/lib/delivery/emit-delivery-realtime';
+import {
+  driverFulfillmentSelect,
+  mapDriverFulfillment,
+} from '@/lib/order/driver-stop-fulfillments';
+import { isHubOnlyShopifyOrderGid } from '@/lib/order/hub-only-shopify-order';
+import {
+  applyStockMovements,
+  findReceivedStockLocations,
+} from '@/lib/inventory/stock-movements';
+import { createShopifyFulfillment } from '@/lib/shopify/createFulfillment';
+import {
+  getShopifyAdminEnv,
+  isShopifyAdminEnvConfigured,
+} from '@/lib/shopify/env';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/order/driver/fulfillments/[id]/deliver
+ * Proof of delivery: records delivered quantities + recipient name / signature,
+ * closes the fulfillment, draws the delivered quantities out of the stock location
+ * the PO lines were received into, then pushes the delivered quantities to Shopify.
+ * Shopify failures are reported in `shopifyWarnings` without undoing the hub record.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireDriverUser();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+
+    const parsed = await parseBody(request, driverDeliverSchema);
+    if ('error' in parsed) return parsed.error;
+    const body = parsed.data;
+
+    const fulfillment = await prisma.fulfillment.findFirst({
+      where: { id, driverId: gate.driverId },
+      select: {
+        id: true,
+        status: true,
+        notes: true,
+        dailyScheduleStop: { select: { date: true } },
+        shopifyOrder: { select: { shopifyGid: true } },
+        lineItems: {
+          select: {
+            id: true,
+            quantity: true,
+            purchaseOrderLineItemId: true,
+            shopifyOrderLineItem: {
+              select: {
+                shopifyGid: true,
+                variantGid: true,
+                purchaseOrderLineItems: { select: { id: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!fulfillment) {
+      return NextResponse.json(
+        { error: 'Fulfillment not found' },
+        { status: 404 },
+      );
+    }
+    if (fulfillment.status !== 'OPEN' && fulfillment.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: 'This delivery is already closed.' },
+        { status: 409 },
+      );
+    }
+
+    const lineById = new Map(fulfillment.lineItems.map((li) => [li.id, li]));
+    const deliveredById = new Map<string, number>();
+    for (const item of body.lineItems) {
+      const line = lineById.get(item.id);
+      if (!line) {
+        return NextResponse.json(
+          { error: 'Line item does not belong to this delivery' },
+          { status: 400 },
+        );
+      }
+      if (item.deliveredQuantity > line.quantity) {
+        return NextResponse.json(
+          { error: 'Delivered quantity cannot exceed the quantity picked up' },
+          { status: 400 },
+        );
+      }
+      deliveredById.set(item.id, item.deliveredQuantity);
+    }
+
+    const totalDelivered = [...deliveredById.values()].reduce(
+      (sum, q) => sum + q,
+      0,
+    );
+    const now = new Date();
+    const notes = [fulfillment.notes?.trim(), body.notes?.trim()]
+      .filter(Boolean)
+      .join('\n');
+
+    // PO lines behind each fulfillment line → where their stock was received.
+    const poLineIdsByLine = new Map(
+      fulfillment.lineItems.map((li) => [
+        li.id,
+        [
+          li.purchaseOrderLineItemId,
+          ...(li.shopifyOrderLineItem?.purchaseOrderLineItems.map((p) => p.id) ??
+            []),
+        ].filter((v): v is string => Boolean(v)),
+      ]),
+    );
+
+    // Close only if still open, so a double tap or retry cannot draw stock or push to Shopify twice.
+    const closed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.fulfillment.updateMany({
+        where: { id, status: { in: ['OPEN', 'PENDING'] } },
+        data: {
+          status: totalDelivered > 0 ? 'SUCCESS' : 'FAILURE',
+          displayStatus: totalDelivered > 0 ? 'DELIVERED' : 'NOT_DELIVERED',
+          deliveredAt: now,
+          recipientName: body.recipientName?.trim() || null,
+          signatureImage: body.signatureImage ?? null,
+          notes: notes || null,
+        },
+      });
+      if (count === 0) return false;
+
+      for (const li of fulfillment.lineItems) {
+        await tx.fulfillmentLineItem.update({
+          where: { id: li.id },
+          data: { deliveredQuantity: deliveredById.get(li.id) ?? 0 },
+        });
+      }
+
+      const stockLocationByPoLine = await findReceivedStockLocations(
+        tx,
+        [...poLineIdsByLine.values()].flat(),
+      );
+      await applyStockMovements(
+        tx,
+        fulfillment.lineItems.flatMap((li) => {
+          const qty = deliveredById.get(li.id) ?? 0;
+          const variantGid = li.shopifyOrderLineItem?.variantGid;
+          const locationId = (poLineIdsByLine.get(li.id) ?? [])
+            .map((poLineId) => stockLocationByPoLine.get(poLineId))
+            .find(Boolean);
+          return qty > 0 && variantGid && locationId
+            ? [
+                {
+                  locationId,
+                  variantGid,
+                  quantityDelta: -qty,
+                  reason: 'fulfillment_delivered' as const,
+                  fulfillmentLineItemId: li.id,
+                  userId: gate.session.user.id,
+                },
+              ]
+            : [];
+        }),
+      );
+      return true;
+    });
+    if (!closed) {
+      return NextResponse.json(
+        { error: 'This delivery is already closed.' },
+        { status: 409 },
+      );
+    }
+
+    // ── Push delivered quantities to Shopify ───────────────────────────────
+    const shopifyErrors: string[] = [];
+    const orderGid = fulfillment.shopifyOrder?.shopifyGid;
+    if (
+      totalDelivered > 0 &&
+      orderGid &&
+      !isHubOnlyShopifyOrderGid(orderGid) &&
+      isShopifyAdminEnvConfigured()
+    ) {
+      const toFulfill = fulfillment.lineItems.flatMap((li) => {
+        const qty = deliveredById.get(li.id) ?? 0;
+        const gid = li.shopifyOrderLineItem?.shopifyGid;
+        return qty > 0 && gid ? [{ shopifyLineItemGid: gid, quantity: qty }] : [];
+      });
+      if (toFulfill.length > 0) {
+        const result = await createShopifyFulfillment(
+          getShopifyAdminEnv(),
+          orderGid,
+          toFulfill,
+        );
+        if (!result.ok) {
+          shopifyErrors.push(...result.errors);
+          console.error(
+            `[driver deliver] Shopify fulfillment failed for order ${orderGid}:`,
+            result.errors,
+          );
+        } else if (result.fulfillmentId) {
+          await prisma.fulfillment.update({
+            where: { id },
+            data: { shopifyGid: result.fulfillmentId },
+          });
+        }
+      }
+    }
+
+    const updated = await prisma.fulfillment.findUniqueOrThrow({
+      where: { id },
+      select: driverFulfillmentSelect,
+    });
+
+    if (fulfillment.dailyScheduleStop) {
+      emitDeliveryRealtimeEvent({
+        type: 'driver_status',
+        driverId: gate.driverId,
+        date: scheduleDateToUtcDayString(fulfillment.dailyScheduleStop.date),
+        origin: 'driver',
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      fulfillment: mapDriverFulfillment(updated),
+      ...(shopifyErrors.length > 0 ? { shopifyWarnings: shopifyErrors } : {}),
+    });
+  } catch (err: unknown) {
+    return toApiErrorResponse(
+      err,
+      'POST /api/order/driver/fulfillments/[id]/deliver',
+    );
+  }
+}
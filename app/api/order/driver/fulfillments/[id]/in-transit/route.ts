@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDriverUser } from '@/lib/api/require-driver-user';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import {
+  emitDeliveryRealtimeEvent,
+  scheduleDateToUtcDayString,
+} from '@/lib/delivery/emit-delivery-realtime';
+import {
+  driverFulfillmentSelect,
+  mapDriverFulfillment,
+} from '@/lib/order/driver-stop-fulfillments';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// PATCH /api/order/driver/fulfillments/[id]/in-transit — driver left with the goods
+export async function PATCH(_request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireDriverUser();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    const fulfillment = await prisma.fulfillment.findFirst({
+      where: { id, driverId: gate.driverId },
+      select: {
+        id: true,
+        status: true,
+        inTransitAt: true,
+        dailyScheduleStop: { select: { date: true } },
+      },
+    });
+    if (!fulfillment) {
+      return NextResponse.json(
+        { error: 'Fulfillment not found' },
+        { status: 404 },
+      );
+    }
+    if (fulfillment.status !== 'OPEN' && fulfillment.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: 'This delivery is already closed.' },
+        { status: 409 },
+      );
+    }
+
+    const updated = await prisma.fulfillment.update({
+      where: { id },
+      data: {
+        status: 'OPEN',
+        displayStatus: 'IN_TRANSIT',
+        inTransitAt: fulfillment.inTransitAt ?? new Date(),
+      },
+      select: driverFulfillmentSelect,
+    });
+
+    if (fulfillment.dailyScheduleStop) {
+      emitDeliveryRealtimeEvent({
+        type: 'driver_status',
+        driverId: gate.driverId,
+        date: scheduleDateToUtcDayString(fulfillment.dailyScheduleStop.date),
+        origin: 'driver',
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      fulfillment: mapDriverFulfillment(updated),
+    });
+  } catch (err: unknown) {
+    return toApiErrorResponse(
+      err,
+      'PATCH /api/order/driver/fulfillments/[id]/in-transit',
+    );
+  }
+}
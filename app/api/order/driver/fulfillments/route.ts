@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDriverUser } from '@/lib/api/require-driver-user';
+import { driverPickupSchema, parseBody } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import {
+  emitDeliveryRealtimeEvent,
+  scheduleDateToUtcDayString,
+} from '@/lib/delivery/emit-delivery-realtime';
+import {
+  driverFulfillmentSelect,
+  driverOpenOrderWhere,
+  mapDriverFulfillment,
+} from '@/lib/order/driver-stop-fulfillments';
+
+// POST /api/order/driver/fulfillments — driver picked up an order for one of their stops
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await requireDriverUser();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, driverPickupSchema);
+    if ('error' in parsed) return parsed.error;
+    const { stopId, shopifyOrderId } = parsed.data;
+
+    const stop = await prisma.dailyScheduleStop.findFirst({
+      where: { id: stopId, driverId: gate.driverId },
+      select: {
+        id: true,
+        date: true,
+        deliveryLocation: { select: { locationId: true } },
+      },
+    });
+    if (!stop) {
+      return NextResponse.json({ error: 'Stop not found' }, { status: 404 });
+    }
+
+    const locationId = stop.deliveryLocation?.locationId;
+    const location = locationId
+      ? await prisma.location.findUnique({
+          where: { id: locationId },
+          select: {
+            deliveryLocationPreset: { select: { shopifyCustomerId: true } },
+          },
+        })
+      : null;
+    const customerId = location?.deliveryLocationPreset?.shopifyCustomerId;
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'This stop is not linked to a store customer.' },
+        { status: 409 },
+      );
+    }
+
+    const order = await prisma.shopifyOrder.findFirst({
+      where: { id: shopifyOrderId, ...driverOpenOrderWhere([customerId]) },
+      select: {
+        id: true,
+        customerId: true,
+        lineItems: {
+          where: { quantity: { gt: 0 } },
+          select: {
+            id: true,
+            quantity: true,
+            price: true,
+            fulfillmentLineItems: {
+              where: { fulfillment: { status: 'SUCCESS' } },
+              select: { quantity: true, deliveredQuantity: true },
+            },
+          },
+        },
+      },
+    });
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order is not open for pickup at this stop.' },
+        { status: 409 },
+      );
+    }
+
+    // Load what is still owed: ordered minus what earlier drops delivered.
+    const lines = order.lineItems.flatMap((li) => {
+      const delivered = li.fulfillmentLineItems.reduce(
+        (sum, f) => sum + (f.deliveredQuantity ?? f.quantity),
+        0,
+      );
+      const remaining = li.quantity - delivered;
+      return remaining > 0
+        ? [{ shopifyOrderLineItemId: li.id, quantity: remaining, unitPrice: li.price }]
+        : [];
+    });
+    if (lines.length === 0) {
+      return NextResponse.json(
+        { error: 'Every item on this order has already been delivered.' },
+        { status: 409 },
+      );
+    }
+
+    const created = await prisma.fulfillment.create({
+      data: {
+        method: 'driver_delivery',
+        status: 'OPEN',
+        displayStatus: 'PICKED_UP',
+        customerId: order.customerId,
+        shopifyOrderId: order.id,
+        driverId: gate.driverId,
+        dailyScheduleStopId: stop.id,
+        pickedUpAt: new Date(),
+        lineItems: { create: lines },
+      },
+      select: driverFulfillmentSelect,
+    });
+
+    emitDeliveryRealtimeEvent({
+      type: 'driver_status',
+      driverId: gate.driverId,
+      date: scheduleDateToUtcDayString(stop.date),
+      origin: 'driver',
+    });
+
+    return NextResponse.json(
+      { ok: true, fulfillment: mapDriverFulfillment(created) },
+      { status: 201 },
+    );
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/driver/fulfillments');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDriverUser } from '@/lib/api/require-driver-user';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { loadDriverStops } from '@/lib/order/driver-stop-fulfillments';
+
+// GET /api/order/driver/stops?date=YYYY-MM-DD — the driver's stops with fulfillments + pickable orders
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireDriverUser();
+    if (!gate.ok) return gate.response;
+
+    const dateStr = request.nextUrl.searchParams.get('date');
+    if (!dateStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      return NextResponse.json(
+        { error: 'Query param date is required (YYYY-MM-DD)' },
+        { status: 400 },
+      );
+    }
+    const dateOnly = new Date(dateStr + 'Z');
+    if (Number.isNaN(dateOnly.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    const stops = await loadDriverStops(gate.driverId, dateOnly);
+    return NextResponse.json({ ok: true, date: dateStr, stops });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/driver/stops');
+  }
+}
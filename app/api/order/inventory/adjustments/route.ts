@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { inventoryAdjustmentSchema, parseBody } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import { applyStockMovements } from '@/lib/inventory/stock-movements';
+
+// POST /api/order/inventory/adjustments — manual count: set on hand to the counted quantity
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, inventoryAdjustmentSchema);
+    if ('error' in parsed) return parsed.error;
+    const body = parsed.data;
+
+    const location = await prisma.location.findUnique({
+      where: { id: body.locationId },
+      select: { id: true },
+    });
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const level = await prisma.$transaction(async (tx) => {
+      const current = await tx.inventoryLevel.findUnique({
+        where: {
+          locationId_variantGid: {
+            locationId: body.locationId,
+            variantGid: body.variantGid,
+          },
+        },
+        select: { onHand: true },
+      });
+      await applyStockMovements(tx, [
+        {
+          locationId: body.locationId,
+          variantGid: body.variantGid,
+          quantityDelta: body.countedQuantity - (current?.onHand ?? 0),
+          reason: body.reason,
+          note: body.note?.trim() || null,
+          userId: gate.session.user.id,
+          labels: {
+            productTitle: body.productTitle,
+            variantTitle: body.variantTitle,
+            sku: body.sku,
+          },
+        },
+      ]);
+      // A count with no difference still records that the shelf was checked.
+      return tx.inventoryLevel.upsert({
+        where: {
+          locationId_variantGid: {
+            locationId: body.locationId,
+            variantGid: body.variantGid,
+          },
+        },
+        create: {
+          locationId: body.locationId,
+          variantGid: body.variantGid,
+          productTitle: body.productTitle ?? null,
+          variantTitle: body.variantTitle ?? null,
+          sku: body.sku ?? null,
+          onHand: body.countedQuantity,
+          lastCountedAt: new Date(),
+        },
+        update: { lastCountedAt: new Date() },
+        select: { onHand: true, lastCountedAt: true },
+      });
+    });
+
+    return NextResponse.json({
+      ok: true,
+      onHand: level.onHand,
+      lastCountedAt: level.lastCountedAt?.toISOString() ?? null,
+    });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/inventory/adjustments');
+  }
+}
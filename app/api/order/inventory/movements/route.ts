@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import type {
+  InventoryMovementReason,
+  InventoryMovementRow,
+} from '@/features/order/inventory/types';
+
+const MOVEMENTS_LIMIT = 50;
+
+// GET /api/order/inventory/movements?locationId=&variantGid= — recent stock ledger for one variant
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const sp = request.nextUrl.searchParams;
+    const locationId = sp.get('locationId');
+    const variantGid = sp.get('variantGid');
+    if (!locationId || !variantGid) {
+      return NextResponse.json(
+        { error: 'Query params locationId and variantGid are required' },
+        { status: 400 },
+      );
+    }
+
+    const movements = await prisma.inventoryMovement.findMany({
+      where: { locationId, variantGid },
+      orderBy: { createdAt: 'desc' },
+      take: MOVEMENTS_LIMIT,
+      select: {
+        id: true,
+        quantityDelta: true,
+        reason: true,
+        note: true,
+        createdAt: true,
+        user: { select: { name: true, email: true } },
+        purchaseOrderLineItem: {
+          select: { purchaseOrder: { select: { poNumber: true } } },
+        },
+        fulfillmentLineItem: {
+          select: {
+            fulfillment: { select: { shopifyOrder: { select: { name: true } } } },
+          },
+        },
+      },
+    });
+
+    const rows: InventoryMovementRow[] = movements.map((m) => ({
+      id: m.id,
+      quantityDelta: m.quantityDelta,
+      reason: m.reason as InventoryMovementReason,
+      note: m.note,
+      userName: m.user?.name ?? m.user?.email ?? null,
+      poNumber: m.purchaseOrderLineItem?.purchaseOrder.poNumber ?? null,
+      orderName:
+        m.fulfillmentLineItem?.fulfillment.shopifyOrder?.name ?? null,
+      createdAt: m.createdAt.toISOString(),
+    }));
+
+    return NextResponse.json({ ok: true, movements: rows });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/inventory/movements');
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * GET /api/order/inventory/par-levels/cron — Cron-triggered auto POs (Bearer CRON_SECRET).
+ * Drafts one pending `isAuto` PO per supplier and location for par-level variants at or below their
+ * reorder point. Drafts wait in the office Inbox for approval; nothing is emailed to suppliers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateAutoPurchaseOrders } from '@/lib/order/auto-po-from-par-levels';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get('authorization') ?? '';
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await generateAutoPurchaseOrders({
+      route: '/api/order/inventory/par-levels/cron',
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('[auto po] Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { error: 'Auto PO generation failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest } from '@/lib/audit/audit-log';
+import { generateAutoPurchaseOrders } from '@/lib/order/auto-po-from-par-levels';
+
+// POST /api/order/inventory/par-levels/generate — draft auto POs now instead of waiting for the cron
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const result = await generateAutoPurchaseOrders({
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/inventory/par-levels/generate');
+  }
+}
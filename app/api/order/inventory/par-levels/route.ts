@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { inventoryParLevelSchema, parseBody } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+
+// PUT /api/order/inventory/par-levels — set a variant's supplier, par level and reorder point at a location
+export async function PUT(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, inventoryParLevelSchema);
+    if ('error' in parsed) return parsed.error;
+    const body = parsed.data;
+
+    const [location, supplier] = await Promise.all([
+      prisma.location.findUnique({
+        where: { id: body.locationId },
+        select: { id: true },
+      }),
+      prisma.supplier.findUnique({
+        where: { id: body.supplierId },
+        select: { id: true },
+      }),
+    ]);
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const fields = {
+      supplierId: body.supplierId,
+      parLevel: body.parLevel,
+      reorderPoint: body.reorderPoint,
+      productTitle: body.productTitle ?? null,
+      variantTitle: body.variantTitle ?? null,
+      sku: body.sku ?? null,
+    };
+    await prisma.inventoryParLevel.upsert({
+      where: {
+        locationId_variantGid: {
+          locationId: body.locationId,
+          variantGid: body.variantGid,
+        },
+      },
+      create: {
+        locationId: body.locationId,
+        variantGid: body.variantGid,
+        ...fields,
+      },
+      update: fields,
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PUT /api/order/inventory/par-levels');
+  }
+}
+
+// DELETE /api/order/inventory/par-levels?locationId=&variantGid= — stop auto-ordering a variant
+export async function DELETE(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const locationId = request.nextUrl.searchParams.get('locationId');
+    const variantGid = request.nextUrl.searchParams.get('variantGid');
+    if (!locationId || !variantGid) {
+      return NextResponse.json(
+        { error: 'Query params locationId and variantGid are required' },
+        { status: 400 },
+      );
+    }
+
+    await prisma.inventoryParLevel.deleteMany({
+      where: { locationId, variantGid },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'DELETE /api/order/inventory/par-levels');
+  }
+}
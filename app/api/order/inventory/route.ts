@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { loadLocationStock } from '@/lib/inventory/stock-on-hand';
+
+// GET /api/order/inventory?locationId= — stock on hand + open demand / on order for one location
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const locationId = request.nextUrl.searchParams.get('locationId');
+    if (!locationId) {
+      return NextResponse.json(
+        { error: 'Query param locationId is required' },
+        { status: 400 },
+      );
+    }
+
+    const rows = await loadLocationStock(locationId);
+    return NextResponse.json({ ok: true, rows });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/inventory');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireLocationManager } from '@/lib/api/require-location-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { getShopifyAdminEnv, isShopifyAdminEnvConfigured } from '@/lib/shopify/env';
+import { fetchProductsCatalogPage } from '@/lib/shopify/listProductsCatalog';
+import type { LocationCatalogVariant } from '@/features/order/location/types';
+
+// GET /api/order/location/catalog — active Shopify catalog for store managers
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireLocationManager();
+    if (!gate.ok) return gate.response;
+
+    if (!isShopifyAdminEnvConfigured()) {
+      return NextResponse.json(
+        { error: 'Shopify Admin API is not configured on the server.' },
+        { status: 503 },
+      );
+    }
+
+    const sp = request.nextUrl.searchParams;
+    const page = await fetchProductsCatalogPage(getShopifyAdminEnv(), {
+      first: 25,
+      after: sp.get('after')?.trim() || null,
+      titleSearch: sp.get('q')?.trim() || null,
+      statusScope: 'active_only',
+    });
+
+    const rows: LocationCatalogVariant[] = page.rows.map((r) => ({
+      variantId: r.variantId,
+      productTitle: r.productTitle,
+      variantTitle: r.variantTitle,
+      sku: r.sku,
+      vendor: r.vendor,
+      price: r.price,
+      imageUrl: r.imageUrl,
+    }));
+
+    return NextResponse.json({
+      ok: true,
+      rows,
+      endCursor: page.endCursor,
+      hasNextPage: page.hasNextPage,
+    });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/location/catalog');
+  }
+}
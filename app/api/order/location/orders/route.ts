@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireLocationManager } from '@/lib/api/require-location-manager';
+import { locationOrderCreateSchema, parseBody } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import { getShopifyAdminEnv, isShopifyAdminEnvConfigured } from '@/lib/shopify/env';
+import { createShopifyOrder } from '@/lib/shopify/createShopifyOrder';
+import { fetchShopifyOrderNodeByGid } from '@/lib/shopify/fetchOrders';
+import { syncOneOrder } from '@/lib/shopify/sync/upsert-order';
+import { resolveLocationOrderContext } from '@/lib/order/location-order-context';
+import type { LocationOrderRow } from '@/features/order/location/types';
+
+const RECENT_ORDERS_DAYS = 60;
+
+// GET /api/order/location/orders — recent Shopify orders for the manager's location customer
+export async function GET() {
+  try {
+    const gate = await requireLocationManager();
+    if (!gate.ok) return gate.response;
+
+    const ctx = await resolveLocationOrderContext(gate.locationId);
+    if (!ctx.ok) {
+      return NextResponse.json({ error: ctx.error }, { status: 409 });
+    }
+
+    const since = new Date(Date.now() - RECENT_ORDERS_DAYS * 24 * 60 * 60 * 1000);
+    const orders = await prisma.shopifyOrder.findMany({
+      where: {
+        customerId: ctx.customer.id,
+        archivedAt: null,
+        isReplacementOrder: false,
+        OR: [{ processedAt: { gte: since } }, { shopifyCreatedAt: { gte: since } }],
+      },
+      orderBy: [{ processedAt: 'desc' }, { orderNumber: 'desc' }],
+      take: 50,
+      select: {
+        id: true,
+        name: true,
+        processedAt: true,
+        shopifyCreatedAt: true,
+        displayFulfillmentStatus: true,
+        displayFinancialStatus: true,
+        totalPrice: true,
+        currencyCode: true,
+        lineItems: {
+          where: { quantity: { gt: 0 } },
+          select: { id: true, title: true, variantTitle: true, quantity: true },
+        },
+        purchaseOrders: {
+          where: { archivedAt: null },
+          select: {
+            id: true,
+            poNumber: true,
+            status: true,
+            expectedDate: true,
+            supplier: { select: { company: true } },
+          },
+        },
+      },
+    });
+
+    const rows: LocationOrderRow[] = orders.map((o) => ({
+      id: o.id,
+      name: o.name,
+      orderedAt: (o.processedAt ?? o.shopifyCreatedAt)?.toISOString() ?? null,
+      displayFulfillmentStatus: o.displayFulfillmentStatus,
+      displayFinancialStatus: o.displayFinancialStatus,
+      totalPrice: o.totalPrice != null ? Number(o.totalPrice) : null,
+      currencyCode: o.currencyCode,
+      lineItems: o.lineItems,
+      purchaseOrders: o.purchaseOrders.map((po) => ({
+        id: po.id,
+        poNumber: po.poNumber,
+        status: po.status,
+        expectedDate: po.expectedDate?.toISOString().slice(0, 10) ?? null,
+        supplierName: po.supplier?.company ?? null,
+      })),
+    }));
+
+    return NextResponse.json({ ok: true, orders: rows });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/location/orders');
+  }
+}
+
+// POST /api/order/location/orders — place a replenishment order in Shopify as the location customer
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await requireLocationManager();
+    if (!gate.ok) return gate.response;
+
+    if (!isShopifyAdminEnvConfigured()) {
+      return NextResponse.json(
+        { error: 'Shopify Admin API is not configured on the server.' },
+        { status: 503 },
+      );
+    }
+
+    const parsed = await parseBody(request, locationOrderCreateSchema);
+    if ('error' in parsed) return parsed.error;
+    const body = parsed.data;
+
+    const ctx = await resolveLocationOrderContext(gate.locationId);
+    if (!ctx.ok) {
+      return NextResponse.json({ error: ctx.error }, { status: 409 });
+    }
+
+    const placedBy =
+      gate.session.user.name?.trim() || gate.session.user.email?.trim() || 'manager';
+    const note = [
+      `Store order — ${ctx.location.code} (placed by ${placedBy})`,
+      body.note?.trim(),
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    const creds = getShopifyAdminEnv();
+    const { orderGid } = await createShopifyOrder(creds, {
+      customerShopifyGid: ctx.customer.shopifyGid,
+      shippingAddress: ctx.shippingAddress,
+      lineItems: body.lineItems.map((li) => ({
+        kind: 'variant' as const,
+        variantGid: li.variantGid,
+        quantity: li.quantity,
+      })),
+      deliveryMethod: 'shipping',
+      shippingFee: 0,
+      financialStatus: 'PENDING',
+      note,
+    });
+
+    const node = await fetchShopifyOrderNodeByGid(creds, orderGid, {
+      lineItems: 'sync',
+    });
+    if (!node) {
+      return NextResponse.json(
+        {
+          error:
+            'Order was created in Shopify but could not be loaded yet. It will appear after the next sync.',
+        },
+        { status: 502 },
+      );
+    }
+    const synced = await syncOneOrder(node);
+
+    return NextResponse.json(
+      { ok: true, shopifyOrderId: synced.id, name: node.name ?? null },
+      { status: 201 },
+    );
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/location/orders');
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { getPurchaseOrderInvoiceSummary } from '@/lib/order/supplier-invoices';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/order/purchase-orders/[id]/invoices — awaiting invoice / invoiced / disputed, for the PO panel
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    return NextResponse.json(await getPurchaseOrderInvoiceSummary(id));
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/purchase-orders/[id]/invoices');
+  }
+}
@@ -6,6 +6,8 @@ import {
   purchaseOrderLineItemsNotePatchSchema,
 } from '@/lib/api/schemas';
 import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import {
   mapPrismaPayloadToPoLineItemViews,
   mapPrismaPoToBlock,
@@ -116,11 +118,8 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     if ('error' in parsed) return parsed.error;
     const { data } = parsed;
 
-    const po = await prisma.purchaseOrder.findUnique({
-      where: { id: purchaseOrderId },
-      select: { id: true },
-    });
-    if (!po) {
+    const before = await findPurchaseOrderAuditSnapshot(purchaseOrderId);
+    if (!before) {
       return NextResponse.json(
         { error: 'Purchase order not found' },
         { status: 404 },
@@ -150,6 +149,18 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       ),
     );
 
+    const after = await findPurchaseOrderAuditSnapshot(purchaseOrderId);
+    await logAudit({
+      entityType: 'purchase_order',
+      entityId: purchaseOrderId,
+      entityLabel: before.poNumber,
+      action: 'updated',
+      before,
+      after,
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     const full = await prisma.purchaseOrder.findUniqueOrThrow({
       where: { id: purchaseOrderId },
       include: {
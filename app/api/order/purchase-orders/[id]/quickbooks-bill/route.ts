@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { parseBody, quickBooksBillPushSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
+import {
+  getPurchaseOrderBillStatus,
+  pushPurchaseOrderBill,
+} from '@/lib/order/quickbooks-bill-push';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/order/purchase-orders/[id]/quickbooks-bill — bill id if pushed, and where it can be pushed
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    return NextResponse.json(await getPurchaseOrderBillStatus(id));
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/purchase-orders/[id]/quickbooks-bill');
+  }
+}
+
+// POST /api/order/purchase-orders/[id]/quickbooks-bill — create the QuickBooks Bill for a received PO
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    const parsed = await parseBody(request, quickBooksBillPushSchema);
+    if ('error' in parsed) return parsed.error;
+
+    const before = await findPurchaseOrderAuditSnapshot(id);
+    const result = await pushPurchaseOrderBill({
+      purchaseOrderId: id,
+      locationId: parsed.data.locationId,
+    });
+
+    await logAudit({
+      entityType: 'purchase_order',
+      entityId: id,
+      entityLabel: before?.poNumber ?? null,
+      action: 'updated',
+      before,
+      after: await findPurchaseOrderAuditSnapshot(id),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/purchase-orders/[id]/quickbooks-bill');
+  }
+}
@@ -2,7 +2,10 @@
  * PATCH /api/order/purchase-orders/[id]/receive
  *
  * Records received quantities for PO line items, recomputes PO status,
- * and — when Shopify credentials are configured — creates a Shopify fulfillment
+ * moves the received delta into inventory at the receiving location (body
+ * `locationId`, which must belong to the PO's ship-to preset, else that
+ * preset's single location), and —
+ * when Shopify credentials are configured — creates a Shopify fulfillment
  * for each affected order.
  *
  * After saving, callers should re-sync (GET /api/order/sync/shopify) to pull the
@@ -14,6 +17,8 @@ import { requireOrderManager } from '@/lib/api/require-order-manager';
 import { prisma } from '@/lib/core/prisma';
 import { parseBody, receiveLineItemsSchema } from '@/lib/api/schemas';
 import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import {
   getShopifyAdminEnv,
   isShopifyAdminEnvConfigured,
@@ -24,6 +29,10 @@ import {
 } from '@/lib/shopify/createFulfillment';
 import { recomputePurchaseOrderStatusById } from '@/lib/order/purchase-order-status';
 import { isHubOnlyShopifyOrderGid } from '@/lib/order/hub-only-shopify-order';
+import {
+  applyStockMovements,
+  resolvePurchaseOrderStockLocationId,
+} from '@/lib/inventory/stock-movements';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -36,20 +45,35 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 
     const result = await parseBody(request, receiveLineItemsSchema);
     if ('error' in result) return result.error;
-    const { items } = result.data;
+    const { items, locationId } = result.data;
 
     // ── Verify PO exists ────────────────────────────────────────────────────
-    const po = await prisma.purchaseOrder.findUnique({
-      where: { id: purchaseOrderId },
-      select: { id: true, status: true },
-    });
-    if (!po) {
+    const before = await findPurchaseOrderAuditSnapshot(purchaseOrderId);
+    if (!before) {
       return NextResponse.json(
         { error: 'Purchase order not found' },
         { status: 404 },
       );
     }
 
+    // A named receiving location must be one the PO ships to.
+    if (locationId) {
+      const onPreset = await prisma.location.count({
+        where: {
+          id: locationId,
+          deliveryLocationPreset: {
+            purchaseOrders: { some: { id: purchaseOrderId } },
+          },
+        },
+      });
+      if (onPreset === 0) {
+        return NextResponse.json(
+          { error: "Location is not on this purchase order's delivery preset" },
+          { status: 400 },
+        );
+      }
+    }
+
     // ── Update quantityReceived for each specified line item ────────────────
     const itemIds = items.map((i) => i.id);
     const itemMap = new Map(items.map((i) => [i.id, i.quantityReceived]));
@@ -61,6 +85,10 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         id: true,
         quantity: true,
         quantityReceived: true,
+        productTitle: true,
+        variantTitle: true,
+        sku: true,
+        shopifyVariantGid: true,
         shopifyOrderLineItemId: true,
         shopifyOrderLineItem: {
           select: {
@@ -90,6 +118,37 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
             }),
           ),
         );
+
+        // Stock follows the received delta (negative when a receipt is corrected down).
+        const stockLocationId =
+          locationId ??
+          (await resolvePurchaseOrderStockLocationId(tx, purchaseOrderId));
+        if (stockLocationId) {
+          await applyStockMovements(
+            tx,
+            existingItems.flatMap((item) =>
+              item.shopifyVariantGid
+                ? [
+                    {
+                      locationId: stockLocationId,
+                      variantGid: item.shopifyVariantGid,
+                      quantityDelta:
+                        itemMap.get(item.id)! - item.quantityReceived,
+                      reason: 'po_received' as const,
+                      purchaseOrderLineItemId: item.id,
+                      userId: gate.session.user.id,
+                      labels: {
+                        productTitle: item.productTitle,
+                        variantTitle: item.variantTitle,
+                        sku: item.sku,
+                      },
+                    },
+                  ]
+                : [],
+            ),
+          );
+        }
+
         return recomputePurchaseOrderStatusById(purchaseOrderId, tx);
       },
       { maxWait: 5_000, timeout: 15_000 },
@@ -102,6 +161,17 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
+    await logAudit({
+      entityType: 'purchase_order',
+      entityId: purchaseOrderId,
+      entityLabel: before.poNumber,
+      action: 'updated',
+      before,
+      after: await findPurchaseOrderAuditSnapshot(purchaseOrderId),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     // ── Shopify outbound fulfillment ────────────────────────────────────────
     // Group items by Shopify order and push fulfillments to Shopify.
     // Errors are logged but do NOT fail the response — the local DB is
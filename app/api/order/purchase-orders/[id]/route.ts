@@ -13,6 +13,8 @@ import {
   expectedDateBeforeOrderMessage,
   minExpectedDateYmdFromShopifyOrders,
 } from '@/lib/order/min-expected-date-ymd-from-shopify-orders';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -95,11 +97,8 @@ export async function PUT(
     if ('error' in result) return result.error;
     const { data } = result;
 
-    const existing = await prisma.purchaseOrder.findUnique({
-      where: { id },
-      select: { id: true },
-    });
-    if (!existing) {
+    const before = await findPurchaseOrderAuditSnapshot(id);
+    if (!before) {
       return NextResponse.json(
         { error: 'Purchase order not found' },
         { status: 404 },
@@ -192,6 +191,18 @@ export async function PUT(
 
     await recomputePurchaseOrderStatusById(id);
 
+    const after = await findPurchaseOrderAuditSnapshot(id);
+    await logAudit({
+      entityType: 'purchase_order',
+      entityId: id,
+      entityLabel: after?.poNumber ?? before.poNumber,
+      action: 'updated',
+      before,
+      after,
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     const po = await prisma.purchaseOrder.findUniqueOrThrow({
       where: { id },
       include: {
@@ -217,7 +228,7 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   context: RouteContext,
 ) {
   try {
@@ -226,11 +237,8 @@ export async function DELETE(
 
     const { id } = await context.params;
 
-    const existing = await prisma.purchaseOrder.findUnique({
-      where: { id },
-      select: { id: true },
-    });
-    if (!existing) {
+    const before = await findPurchaseOrderAuditSnapshot(id);
+    if (!before) {
       return NextResponse.json(
         { error: 'Purchase order not found' },
         { status: 404 },
@@ -239,6 +247,16 @@ export async function DELETE(
 
     await prisma.purchaseOrder.delete({ where: { id } });
 
+    await logAudit({
+      entityType: 'purchase_order',
+      entityId: id,
+      entityLabel: before.poNumber,
+      action: 'deleted',
+      before,
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     return NextResponse.json({ ok: true });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'DELETE /api/order/purchase-orders/[id] error:');
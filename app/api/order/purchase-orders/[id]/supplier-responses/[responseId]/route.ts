@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { prisma } from '@/lib/core/prisma';
+import { parseBody, supplierResponseReviewSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { recomputePurchaseOrderStatusById } from '@/lib/order/purchase-order-status';
+import {
+  EXPECTED_DATE_BEFORE_ORDER_CODE,
+  expectedDateBeforeOrderMessage,
+  minExpectedDateYmdFromShopifyOrders,
+} from '@/lib/order/min-expected-date-ymd-from-shopify-orders';
+import {
+  mapSupplierResponse,
+  parseProposedLineQuantities,
+  supplierResponseSelect,
+} from '@/lib/order/supplier-portal-responses';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
+
+type RouteContext = { params: Promise<{ id: string; responseId: string }> };
+
+/**
+ * PATCH: accept or decline a pending supplier proposal.
+ * Accepting applies the proposed expected date and line quantities to the PO.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+    const { session } = gate;
+    const { id, responseId } = await context.params;
+
+    const result = await parseBody(request, supplierResponseReviewSchema);
+    if ('error' in result) return result.error;
+    const { status } = result.data;
+
+    const existing = await prisma.purchaseOrderSupplierResponse.findFirst({
+      where: { id: responseId, purchaseOrderId: id },
+      select: {
+        id: true,
+        status: true,
+        proposedExpectedDate: true,
+        proposedLineQuantities: true,
+      },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Supplier response not found' },
+        { status: 404 },
+      );
+    }
+    if (existing.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'This response was already reviewed' },
+        { status: 409 },
+      );
+    }
+
+    const proposedYmd =
+      existing.proposedExpectedDate?.toISOString().slice(0, 10) ?? null;
+    if (status === 'accepted' && proposedYmd) {
+      const linkedOrders = await prisma.shopifyOrder.findMany({
+        where: { purchaseOrders: { some: { id } } },
+        select: { processedAt: true, shopifyCreatedAt: true },
+      });
+      const minY = minExpectedDateYmdFromShopifyOrders(linkedOrders);
+      if (minY && proposedYmd < minY) {
+        return NextResponse.json(
+          {
+            error: expectedDateBeforeOrderMessage(),
+            code: EXPECTED_DATE_BEFORE_ORDER_CODE,
+          },
+          { status: 400 },
+        );
+      }
+    }
+
+    const before =
+      status === 'accepted' ? await findPurchaseOrderAuditSnapshot(id) : null;
+    const lineChanges = parseProposedLineQuantities(
+      existing.proposedLineQuantities,
+    );
+
+    const reviewed = await prisma.$transaction(async (tx) => {
+      // Claim the review first so two reviewers cannot both apply the proposal.
+      const claimed = await tx.purchaseOrderSupplierResponse.updateMany({
+        where: { id: responseId, purchaseOrderId: id, status: 'pending' },
+        data: {
+          status,
+          reviewedAt: new Date(),
+          reviewedById: session.user.id,
+        },
+      });
+      if (claimed.count === 0) return null;
+
+      if (status === 'accepted') {
+        if (existing.proposedExpectedDate) {
+          await tx.purchaseOrder.update({
+            where: { id },
+            data: { expectedDate: existing.proposedExpectedDate },
+          });
+        }
+        for (const change of lineChanges) {
+          // Lines removed since the proposal are skipped.
+          await tx.purchaseOrderLineItem.updateMany({
+            where: { id: change.lineItemId, purchaseOrderId: id },
+            data: { quantity: change.quantity },
+          });
+        }
+        if (lineChanges.length > 0) {
+          await recomputePurchaseOrderStatusById(id, tx);
+        }
+      }
+      return tx.purchaseOrderSupplierResponse.findUniqueOrThrow({
+        where: { id: responseId },
+        select: supplierResponseSelect,
+      });
+    });
+    if (!reviewed) {
+      return NextResponse.json(
+        { error: 'This response was already reviewed' },
+        { status: 409 },
+      );
+    }
+
+    if (before) {
+      await logAudit({
+        entityType: 'purchase_order',
+        entityId: id,
+        entityLabel: before.poNumber,
+        action: 'updated',
+        before,
+        after: await findPurchaseOrderAuditSnapshot(id),
+        actorId: session.user.id,
+        route: auditRouteFromRequest(request),
+      });
+    }
+
+    return NextResponse.json({ ok: true, response: mapSupplierResponse(reviewed) });
+  } catch (err) {
+    return toApiErrorResponse(
+      err,
+      'PATCH /api/order/purchase-orders/[id]/supplier-responses/[responseId] error:',
+    );
+  }
+}
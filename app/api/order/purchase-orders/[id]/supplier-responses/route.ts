@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import {
+  mapSupplierResponse,
+  supplierResponseSelect,
+} from '@/lib/order/supplier-portal-responses';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** GET: supplier portal replies for one PO (newest first) + current line quantities for labels. */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+    const { id } = await context.params;
+
+    const [rows, lineItems] = await Promise.all([
+      prisma.purchaseOrderSupplierResponse.findMany({
+        where: { purchaseOrderId: id },
+        orderBy: { createdAt: 'desc' },
+        select: supplierResponseSelect,
+      }),
+      prisma.purchaseOrderLineItem.findMany({
+        where: { purchaseOrderId: id },
+        orderBy: { sequence: 'asc' },
+        select: {
+          id: true,
+          sequence: true,
+          quantity: true,
+          sku: true,
+          productTitle: true,
+          variantTitle: true,
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      ok: true,
+      responses: rows.map(mapSupplierResponse),
+      lines: lineItems.map((li) => ({
+        id: li.id,
+        label:
+          [li.productTitle, li.variantTitle].filter(Boolean).join(' — ') ||
+          li.sku ||
+          `Line ${li.sequence}`,
+        quantity: li.quantity,
+      })),
+    });
+  } catch (err) {
+    return toApiErrorResponse(
+      err,
+      'GET /api/order/purchase-orders/[id]/supplier-responses error:',
+    );
+  }
+}
@@ -9,11 +9,15 @@ import {
 } from '@/features/order/office/mappers/map-purchase-order';
 import { resolvePoCreateLineShopifyLinks } from '@/lib/order/resolve-po-create-line-shopify-links';
 import { loadVariantOfficeNotesMap } from '@/lib/order/shopify-variant-office-note';
+import { nextPurchaseOrderNumber } from '@/lib/order/next-po-number';
 import {
   EXPECTED_DATE_BEFORE_ORDER_CODE,
   expectedDateBeforeOrderMessage,
   minExpectedDateYmdFromShopifyOrders,
 } from '@/lib/order/min-expected-date-ymd-from-shopify-orders';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
+import { syncPurchasePriceAlerts } from '@/lib/order/purchase-price-alerts';
 
 export async function GET() {
   try {
@@ -120,14 +124,7 @@ export async function POST(request: NextRequest) {
     const po = await prisma.$transaction(async (tx) => {
       let poNumber = data.poNumber;
       if (poNumber === 'AUTO') {
-        const latest = await tx.purchaseOrder.findFirst({
-          orderBy: { poNumber: 'desc' },
-          select: { poNumber: true },
-        });
-        const lastNum = latest?.poNumber
-          ? parseInt(latest.poNumber.replace(/\D/g, ''), 10) || 0
-          : 0;
-        poNumber = String(lastNum + 1);
+        poNumber = await nextPurchaseOrderNumber(tx);
       }
 
       const authorizedBy =
@@ -226,6 +223,19 @@ export async function POST(request: NextRequest) {
       });
     });
 
+    await logAudit({
+      entityType: 'purchase_order',
+      entityId: po.id,
+      entityLabel: po.poNumber,
+      action: 'created',
+      after: await findPurchaseOrderAuditSnapshot(po.id),
+      actorId: session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+    await syncPurchasePriceAlerts(po.id).catch((err) =>
+      console.error('POST /api/order/purchase-orders price alert check failed:', err),
+    );
+
     return NextResponse.json(
       {
         ok: true,
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { dismissPurchasePriceAlert } from '@/lib/order/purchase-price-alerts';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/order/purchase-price-alerts/[id]/dismiss — hide a price change alert from the Inbox
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    await dismissPurchasePriceAlert(id);
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/purchase-price-alerts/[id]/dismiss');
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { listOpenPurchasePriceAlerts } from '@/lib/order/purchase-price-alerts';
+
+// GET /api/order/purchase-price-alerts — undismissed PO price change alerts
+export async function GET() {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    return NextResponse.json({ alerts: await listOpenPurchasePriceAlerts() });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/purchase-price-alerts');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { parseBody, purchasePriceAlertSettingsSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import {
+  getPurchasePriceAlertThreshold,
+  savePurchasePriceAlertThreshold,
+} from '@/lib/order/purchase-price-alerts';
+
+// GET /api/order/purchase-price-alerts/settings — % price move that raises an alert
+export async function GET() {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    return NextResponse.json({ thresholdPercent: await getPurchasePriceAlertThreshold() });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/purchase-price-alerts/settings');
+  }
+}
+
+// PUT /api/order/purchase-price-alerts/settings — applies to POs checked from now on
+export async function PUT(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, purchasePriceAlertSettingsSchema);
+    if ('error' in parsed) return parsed.error;
+
+    const thresholdPercent = await savePurchasePriceAlertThreshold(parsed.data.thresholdPercent);
+    return NextResponse.json({ thresholdPercent });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PUT /api/order/purchase-price-alerts/settings');
+  }
+}
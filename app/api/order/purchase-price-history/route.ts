@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { getVariantPurchasePriceHistory } from '@/lib/order/purchase-price-history';
+
+// GET /api/order/purchase-price-history?variantGid= — PO prices, Shopify unit cost and recipes for a variant
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const variantGid = request.nextUrl.searchParams.get('variantGid')?.trim();
+    if (!variantGid) {
+      return NextResponse.json({ error: 'Query param variantGid is required' }, { status: 400 });
+    }
+    return NextResponse.json({ history: await getVariantPurchasePriceHistory(variantGid) });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/purchase-price-history');
+  }
+}
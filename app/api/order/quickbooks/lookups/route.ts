@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import {
+  listQuickBooksBillAccounts,
+  listQuickBooksItems,
+  listQuickBooksVendors,
+  withValidTokenForLocation,
+} from '@/lib/quickbooks';
+
+// GET /api/order/quickbooks/lookups?realmId= — active vendors, expense accounts and items in the company
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const realmId = request.nextUrl.searchParams.get('realmId');
+    if (!realmId) {
+      return NextResponse.json({ error: 'Query param realmId is required' }, { status: 400 });
+    }
+    // Tokens are per realm; any of its locations can make the call.
+    const location = await prisma.location.findFirst({
+      where: { realmId },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!location) {
+      return NextResponse.json({ error: 'QuickBooks company not found' }, { status: 404 });
+    }
+
+    const lookups = await withValidTokenForLocation(location.id, async (accessToken, qbRealmId) => {
+      const [vendors, accounts, items] = await Promise.all([
+        listQuickBooksVendors(qbRealmId, accessToken),
+        listQuickBooksBillAccounts(qbRealmId, accessToken),
+        listQuickBooksItems(qbRealmId, accessToken),
+      ]);
+      return { vendors, accounts, items };
+    });
+    return NextResponse.json(lookups);
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/quickbooks/lookups');
+  }
+}
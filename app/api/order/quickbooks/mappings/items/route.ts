@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { parseBody, quickBooksItemMappingSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+
+// PUT /api/order/quickbooks/mappings/items — post a SKU's bill lines to a QuickBooks item or account
+export async function PUT(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, quickBooksItemMappingSchema);
+    if ('error' in parsed) return parsed.error;
+    const body = parsed.data;
+
+    const fields = {
+      kind: body.kind,
+      qbRefId: body.qbRefId,
+      qbRefName: body.qbRefName ?? null,
+    };
+    await prisma.quickBooksItemMapping.upsert({
+      where: { realmId_sku: { realmId: body.realmId, sku: body.sku } },
+      create: { realmId: body.realmId, sku: body.sku, ...fields },
+      update: fields,
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PUT /api/order/quickbooks/mappings/items');
+  }
+}
+
+// DELETE /api/order/quickbooks/mappings/items?realmId=&sku= — fall back to the vendor's default account
+export async function DELETE(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const realmId = request.nextUrl.searchParams.get('realmId');
+    const sku = request.nextUrl.searchParams.get('sku');
+    if (!realmId || !sku) {
+      return NextResponse.json(
+        { error: 'Query params realmId and sku are required' },
+        { status: 400 },
+      );
+    }
+
+    await prisma.quickBooksItemMapping.deleteMany({ where: { realmId, sku } });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'DELETE /api/order/quickbooks/mappings/items');
+  }
+}
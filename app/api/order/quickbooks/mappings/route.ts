@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import type {
+  QuickBooksItemMappingKind,
+  QuickBooksMappingData,
+} from '@/features/order/quickbooks/types';
+
+// GET /api/order/quickbooks/mappings?realmId= — every supplier with its vendor mapping, plus SKU mappings
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const realmId = request.nextUrl.searchParams.get('realmId');
+    if (!realmId) {
+      return NextResponse.json({ error: 'Query param realmId is required' }, { status: 400 });
+    }
+
+    const [suppliers, items] = await Promise.all([
+      prisma.supplier.findMany({
+        select: {
+          id: true,
+          company: true,
+          qbVendorMappings: { where: { realmId } },
+        },
+        orderBy: { company: 'asc' },
+      }),
+      prisma.quickBooksItemMapping.findMany({
+        where: { realmId },
+        orderBy: { sku: 'asc' },
+      }),
+    ]);
+
+    const data: QuickBooksMappingData = {
+      vendors: suppliers.map((s) => {
+        const m = s.qbVendorMappings[0];
+        return {
+          supplierId: s.id,
+          supplierCompany: s.company,
+          qbVendorId: m?.qbVendorId ?? null,
+          qbVendorName: m?.qbVendorName ?? null,
+          defaultAccountId: m?.defaultAccountId ?? null,
+          defaultAccountName: m?.defaultAccountName ?? null,
+        };
+      }),
+      items: items.map((m) => ({
+        sku: m.sku,
+        kind: m.kind as QuickBooksItemMappingKind,
+        qbRefId: m.qbRefId,
+        qbRefName: m.qbRefName,
+      })),
+    };
+    return NextResponse.json(data);
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/quickbooks/mappings');
+  }
+}
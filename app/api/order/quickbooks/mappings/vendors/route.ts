@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { parseBody, quickBooksVendorMappingSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+
+// PUT /api/order/quickbooks/mappings/vendors — map a supplier to a QuickBooks vendor (and default account)
+export async function PUT(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, quickBooksVendorMappingSchema);
+    if ('error' in parsed) return parsed.error;
+    const body = parsed.data;
+
+    const fields = {
+      qbVendorId: body.qbVendorId,
+      qbVendorName: body.qbVendorName ?? null,
+      defaultAccountId: body.defaultAccountId ?? null,
+      defaultAccountName: body.defaultAccountId ? (body.defaultAccountName ?? null) : null,
+    };
+    await prisma.quickBooksVendorMapping.upsert({
+      where: {
+        realmId_supplierId: { realmId: body.realmId, supplierId: body.supplierId },
+      },
+      create: { realmId: body.realmId, supplierId: body.supplierId, ...fields },
+      update: fields,
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PUT /api/order/quickbooks/mappings/vendors');
+  }
+}
+
+// DELETE /api/order/quickbooks/mappings/vendors?realmId=&supplierId= — unmap a supplier
+export async function DELETE(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const realmId = request.nextUrl.searchParams.get('realmId');
+    const supplierId = request.nextUrl.searchParams.get('supplierId');
+    if (!realmId || !supplierId) {
+      return NextResponse.json(
+        { error: 'Query params realmId and supplierId are required' },
+        { status: 400 },
+      );
+    }
+
+    await prisma.quickBooksVendorMapping.deleteMany({ where: { realmId, supplierId } });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'DELETE /api/order/quickbooks/mappings/vendors');
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { parseBody, supplierInvoicePatchSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findSupplierInvoiceAuditSnapshot } from '@/lib/audit/audit-snapshots';
+import {
+  getSupplierInvoiceDetail,
+  setSupplierInvoiceStatus,
+} from '@/lib/order/supplier-invoices';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/order/supplier-invoices/[id] — invoice with its three-way match rows
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    return NextResponse.json({ invoice: await getSupplierInvoiceDetail(id) });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/supplier-invoices/[id]');
+  }
+}
+
+// PATCH /api/order/supplier-invoices/[id] — approve, dispute (with a note) or reopen
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    const parsed = await parseBody(request, supplierInvoicePatchSchema);
+    if ('error' in parsed) return parsed.error;
+
+    const before = await findSupplierInvoiceAuditSnapshot(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    await setSupplierInvoiceStatus(id, parsed.data.status, parsed.data.disputeNote);
+
+    await logAudit({
+      entityType: 'supplier_invoice',
+      entityId: id,
+      entityLabel: before.invoiceNumber,
+      action: parsed.data.status === 'approved' ? 'approved' : 'updated',
+      before,
+      after: await findSupplierInvoiceAuditSnapshot(id),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
+    return NextResponse.json({ invoice: await getSupplierInvoiceDetail(id) });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PATCH /api/order/supplier-invoices/[id]');
+  }
+}
+
+// DELETE /api/order/supplier-invoices/[id] — remove an invoice entered in error
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const { id } = await context.params;
+    const before = await findSupplierInvoiceAuditSnapshot(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    await prisma.supplierInvoice.delete({ where: { id } });
+
+    await logAudit({
+      entityType: 'supplier_invoice',
+      entityId: id,
+      entityLabel: before.invoiceNumber,
+      action: 'deleted',
+      before,
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'DELETE /api/order/supplier-invoices/[id]');
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * POST /api/order/supplier-invoices/import-csv
+ *
+ * Multipart `file` (supplier invoice CSV, one row per line) and `supplierId`. Rows are grouped by
+ * Invoice Number and linked to the supplier's POs by PO Number; existing invoices are skipped.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findSupplierInvoiceAuditSnapshot } from '@/lib/audit/audit-snapshots';
+import {
+  parseSupplierInvoiceCsvText,
+  runSupplierInvoiceCsvImport,
+} from '@/lib/order/supplier-invoice-csv-import';
+
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const supplierId = formData.get('supplierId');
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+    if (typeof supplierId !== 'string' || !supplierId) {
+      return NextResponse.json({ error: 'Supplier is required' }, { status: 400 });
+    }
+
+    const rows = parseSupplierInvoiceCsvText(await file.text());
+    const result = await runSupplierInvoiceCsvImport({
+      supplierId,
+      rows,
+      createdById: gate.session.user.id,
+    });
+
+    for (const inv of result.created) {
+      await logAudit({
+        entityType: 'supplier_invoice',
+        entityId: inv.id,
+        entityLabel: inv.invoiceNumber,
+        action: 'created',
+        after: await findSupplierInvoiceAuditSnapshot(inv.id),
+        actorId: gate.session.user.id,
+        route: auditRouteFromRequest(request),
+      });
+    }
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/supplier-invoices/import-csv');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { listInvoiceablePurchaseOrders } from '@/lib/order/supplier-invoices';
+
+// GET /api/order/supplier-invoices/purchase-orders?supplierId= — a supplier's POs to link an invoice to
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const supplierId = request.nextUrl.searchParams.get('supplierId');
+    if (!supplierId) {
+      return NextResponse.json(
+        { error: 'Query param supplierId is required' },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({
+      purchaseOrders: await listInvoiceablePurchaseOrders(supplierId),
+    });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/supplier-invoices/purchase-orders');
+  }
+}
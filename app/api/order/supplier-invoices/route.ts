@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOrderManager } from '@/lib/api/require-order-manager';
+import { parseBody, supplierInvoiceCreateSchema } from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findSupplierInvoiceAuditSnapshot } from '@/lib/audit/audit-snapshots';
+import {
+  createSupplierInvoice,
+  listAwaitingInvoicePurchaseOrders,
+  listSupplierInvoices,
+} from '@/lib/order/supplier-invoices';
+import {
+  SUPPLIER_INVOICE_STATUSES,
+  type SupplierInvoiceStatus,
+} from '@/features/order/invoices/types';
+
+// GET /api/order/supplier-invoices?status= — invoices (newest first) plus received POs awaiting one
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const status = SUPPLIER_INVOICE_STATUSES.includes(
+      statusParam as SupplierInvoiceStatus,
+    )
+      ? (statusParam as SupplierInvoiceStatus)
+      : undefined;
+
+    const [invoices, awaitingInvoice] = await Promise.all([
+      listSupplierInvoices({ status }),
+      listAwaitingInvoicePurchaseOrders(),
+    ]);
+    return NextResponse.json({ invoices, awaitingInvoice });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'GET /api/order/supplier-invoices');
+  }
+}
+
+// POST /api/order/supplier-invoices — enter a supplier invoice against one or more POs
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await requireOrderManager();
+    if (!gate.ok) return gate.response;
+
+    const parsed = await parseBody(request, supplierInvoiceCreateSchema);
+    if ('error' in parsed) return parsed.error;
+
+    const created = await createSupplierInvoice({
+      ...parsed.data,
+      source: 'manual',
+      createdById: gate.session.user.id,
+    });
+
+    await logAudit({
+      entityType: 'supplier_invoice',
+      entityId: created.id,
+      entityLabel: created.invoiceNumber,
+      action: 'created',
+      after: await findSupplierInvoiceAuditSnapshot(created.id),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
+    return NextResponse.json({ ok: true, id: created.id }, { status: 201 });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/order/supplier-invoices');
+  }
+}
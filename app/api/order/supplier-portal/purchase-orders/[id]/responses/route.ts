@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSupplierUser } from '@/lib/api/require-supplier-user';
+import { prisma } from '@/lib/core/prisma';
+import {
+  parseBody,
+  supplierPortalResponseCreateSchema,
+} from '@/lib/api/schemas';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import {
+  mapSupplierResponse,
+  supplierPortalPurchaseOrderWhere,
+  supplierResponseSelect,
+} from '@/lib/order/supplier-portal-responses';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST — supplier acknowledges the PO and/or proposes a new expected date or line quantities.
+ * Any reply sets `emailReplyReceivedAt` (same flag the office toggles by hand after email replies).
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const gate = await requireSupplierUser();
+    if (!gate.ok) return gate.response;
+    const { id } = await context.params;
+
+    const result = await parseBody(request, supplierPortalResponseCreateSchema);
+    if ('error' in result) return result.error;
+    const { data } = result;
+
+    const po = await prisma.purchaseOrder.findFirst({
+      where: { id, ...supplierPortalPurchaseOrderWhere(gate.supplierId) },
+      select: {
+        id: true,
+        expectedDate: true,
+        emailReplyReceivedAt: true,
+        supplierAcknowledgedAt: true,
+        lineItems: { select: { id: true, quantity: true } },
+      },
+    });
+    if (!po) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 },
+      );
+    }
+
+    const currentQtyByLine = new Map(
+      po.lineItems.map((li) => [li.id, li.quantity]),
+    );
+    for (const p of data.proposedLineQuantities) {
+      if (!currentQtyByLine.has(p.lineItemId)) {
+        return NextResponse.json(
+          { error: 'Line item does not belong to this PO' },
+          { status: 400 },
+        );
+      }
+    }
+    const lineChanges = data.proposedLineQuantities.filter(
+      (p) => currentQtyByLine.get(p.lineItemId) !== p.quantity,
+    );
+    const currentYmd = po.expectedDate?.toISOString().slice(0, 10) ?? null;
+    const proposedExpectedDate =
+      data.proposedExpectedDate && data.proposedExpectedDate !== currentYmd
+        ? data.proposedExpectedDate
+        : null;
+    const hasProposal = proposedExpectedDate != null || lineChanges.length > 0;
+
+    const now = new Date();
+    const response = await prisma.$transaction(async (tx) => {
+      const created = await tx.purchaseOrderSupplierResponse.create({
+        data: {
+          purchaseOrderId: po.id,
+          userId: gate.session.user.id,
+          acknowledged: data.acknowledged,
+          proposedExpectedDate: proposedExpectedDate
+            ? new Date(proposedExpectedDate)
+            : null,
+          proposedLineQuantities: lineChanges.length > 0 ? lineChanges : undefined,
+          note: data.note || null,
+          // Nothing for the office to decide on a plain acknowledgement / note.
+          status: hasProposal ? 'pending' : 'accepted',
+        },
+        select: supplierResponseSelect,
+      });
+      await tx.purchaseOrder.update({
+        where: { id: po.id },
+        data: {
+          emailReplyReceivedAt: po.emailReplyReceivedAt ?? now,
+          ...(data.acknowledged && !po.supplierAcknowledgedAt
+            ? { supplierAcknowledgedAt: now }
+            : {}),
+        },
+      });
+      return created;
+    });
+
+    return NextResponse.json(
+      { ok: true, response: mapSupplierResponse(response) },
+      { status: 201 },
+    );
+  } catch (err: unknown) {
+    return toApiErrorResponse(
+      err,
+      'POST /api/order/supplier-portal/purchase-orders/[id]/responses error:',
+    );
+  }
+}
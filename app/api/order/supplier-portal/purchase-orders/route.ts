@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { requireSupplierUser } from '@/lib/api/require-supplier-user';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import {
+  mapSupplierPortalPurchaseOrder,
+  supplierPortalPurchaseOrderSelect,
+  supplierPortalPurchaseOrderWhere,
+} from '@/lib/order/supplier-portal-responses';
+
+// GET /api/order/supplier-portal/purchase-orders — POs for the signed-in supplier
+export async function GET() {
+  try {
+    const gate = await requireSupplierUser();
+    if (!gate.ok) return gate.response;
+
+    const rows = await prisma.purchaseOrder.findMany({
+      where: supplierPortalPurchaseOrderWhere(gate.supplierId),
+      orderBy: [{ dateCreated: 'desc' }, { createdAt: 'desc' }],
+      take: 200,
+      select: supplierPortalPurchaseOrderSelect,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      purchaseOrders: rows.map(mapSupplierPortalPurchaseOrder),
+    });
+  } catch (err: unknown) {
+    return toApiErrorResponse(
+      err,
+      'GET /api/order/supplier-portal/purchase-orders error:',
+    );
+  }
+}
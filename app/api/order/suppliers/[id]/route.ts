@@ -10,6 +10,8 @@ import {
 } from '@/lib/order/supplier-order-channel';
 import { parseSupplierDeliverySchedule } from '@/lib/order/supplier-delivery-schedule';
 import { syncLocationVendorPairs, upsertVendorMapping } from '@/lib/order/vendor-mapping';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findSupplierAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import { Prisma } from '@prisma/client';
 
 type RouteCtx = { params: Promise<{ id: string }> };
@@ -24,6 +26,8 @@ export async function PUT(request: NextRequest, ctx: RouteCtx) {
     if ('error' in result) return result.error;
     const { data } = result;
 
+    const before = await findSupplierAuditSnapshot(id);
+
     const resolvedGroupId =
       data.groupId !== undefined
         ? await resolveSupplierGroupId(prisma, data.groupId)
@@ -143,40 +147,59 @@ export async function PUT(request: NextRequest, ctx: RouteCtx) {
       );
     }
 
+    await logAudit({
+      entityType: 'supplier',
+      entityId: id,
+      entityLabel: supplier.company,
+      action: 'updated',
+      before,
+      after: await findSupplierAuditSnapshot(id),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     return NextResponse.json({ ok: true, supplier });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'PUT /api/order/suppliers/[id] error:');
   }
 }
 
-export async function PATCH(_request: NextRequest, ctx: RouteCtx) {
+export async function PATCH(request: NextRequest, ctx: RouteCtx) {
   try {
     const gate = await requireOrderManager();
     if (!gate.ok) return gate.response;
 
     const { id } = await ctx.params;
 
-    const existing = await prisma.supplier.findUnique({
-      where: { id },
-      select: { isFavorite: true },
-    });
-    if (!existing) {
+    const before = await findSupplierAuditSnapshot(id);
+    if (!before) {
       return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
     }
 
     const supplier = await prisma.supplier.update({
       where: { id },
-      data: { isFavorite: !existing.isFavorite },
+      data: { isFavorite: !before.isFavorite },
       select: { id: true, isFavorite: true },
     });
 
+    await logAudit({
+      entityType: 'supplier',
+      entityId: id,
+      entityLabel: before.company,
+      action: 'updated',
+      before,
+      after: await findSupplierAuditSnapshot(id),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     return NextResponse.json({ ok: true, supplier });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'PATCH /api/order/suppliers/[id] error:');
   }
 }
 
-export async function DELETE(_request: NextRequest, ctx: RouteCtx) {
+export async function DELETE(request: NextRequest, ctx: RouteCtx) {
   try {
     const gate = await requireOrderManager();
     if (!gate.ok) return gate.response;
@@ -200,8 +223,19 @@ export async function DELETE(_request: NextRequest, ctx: RouteCtx) {
       );
     }
 
+    const before = await findSupplierAuditSnapshot(id);
     await prisma.supplier.delete({ where: { id } });
 
+    await logAudit({
+      entityType: 'supplier',
+      entityId: id,
+      entityLabel: before?.company ?? null,
+      action: 'deleted',
+      before,
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     return NextResponse.json({ ok: true });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'DELETE /api/order/suppliers/[id] error:');
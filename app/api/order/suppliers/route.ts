@@ -10,6 +10,8 @@ import {
 } from '@/lib/order/supplier-order-channel';
 import { parseSupplierDeliverySchedule } from '@/lib/order/supplier-delivery-schedule';
 import { upsertVendorMapping } from '@/lib/order/vendor-mapping';
+import { auditRouteFromRequest, logAudit } from '@/lib/audit/audit-log';
+import { findSupplierAuditSnapshot } from '@/lib/audit/audit-snapshots';
 import { Prisma } from '@prisma/client';
 
 export async function GET() {
@@ -129,6 +131,16 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await logAudit({
+      entityType: 'supplier',
+      entityId: supplier.id,
+      entityLabel: supplier.company,
+      action: 'created',
+      after: await findSupplierAuditSnapshot(supplier.id),
+      actorId: gate.session.user.id,
+      route: auditRouteFromRequest(request),
+    });
+
     return NextResponse.json({ ok: true, supplier }, { status: 201 });
   } catch (err: unknown) {
     return toApiErrorResponse(err, 'POST /api/order/suppliers error:');
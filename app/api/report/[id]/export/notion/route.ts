@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import {
-  getReportFromNotionById,
   normalizeNotionId,
   extractNotionDatabaseIdFromUrl,
 } from '@/features/report/notion/reports';
+import {
+  attachNotionPage,
+  getPnlReportById,
+} from '@/features/report/utils/report-store';
 import { Client } from '@notionhq/client';
 import { prisma } from '@/lib/core/prisma';
 
 /**
  * POST /api/report/[id]/export/notion
- * Export a report to a different Notion database (for backup or sharing)
+ * Export a stored report to a Notion database (for backup or sharing). The first export is
+ * remembered on the report as its "View in Notion" link.
  *
  * Body:
  * {
@@ -30,19 +34,8 @@ export async function POST(
       );
     }
 
-    const userId = session.user.id;
     const { id } = await params;
-
-    // Normalize Notion ID (remove hyphens if present)
-    const normalizedId = normalizeNotionId(id) || id;
-
-    // Get report from Notion - try normalized ID first, then original if different
-    let report = await getReportFromNotionById(normalizedId, userId);
-
-    // If normalized ID failed and it's different from original, try original format
-    if (!report && normalizedId !== id) {
-      report = await getReportFromNotionById(id, userId);
-    }
+    const report = await getPnlReportById(id);
 
     if (!report) {
       return NextResponse.json({ error: 'Report not found' }, { status: 404 });
@@ -140,6 +133,10 @@ export async function POST(
     const notionUrl =
       (response as any).url || `https://www.notion.so/${formattedId}`;
 
+    if (!report.notionUrl) {
+      await attachNotionPage(report.id, { notionPageId: response.id, notionUrl });
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Report exported to Notion successfully',
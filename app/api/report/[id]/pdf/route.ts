@@ -1,20 +1,11 @@
 import { auth } from '@/lib/auth';
-import {
-  getReportFromNotionById,
-  normalizeNotionId,
-} from '@/features/report/notion/reports';
 import { generatePDFFromReportData } from '@/features/report/pdf';
-import type { ReportData } from '@/features/report/pdf/types';
-import {
-  withValidTokenForLocation,
-  fetchProfitAndLossReportFromQb,
-} from '@/lib/quickbooks';
-import { prisma } from '@/lib/core/prisma';
+import { getPnlReportForRender } from '@/features/report/utils/report-store';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
  * GET /api/report/[id]/pdf
- * Generate and return P&L report PDF (report metadata from Notion, P&L data from QuickBooks).
+ * Render a stored P&L report as PDF from its saved QuickBooks payload (fetched once for Notion imports).
  * Query: ?inline=1 — open in browser (Content-Disposition: inline); otherwise attachment (download).
  */
 export async function GET(
@@ -30,69 +21,21 @@ export async function GET(
       );
     }
 
-    const userId = session.user.id;
     const { id } = await params;
-
-    // Normalize Notion ID (remove hyphens if present)
-    // Notion API accepts both formats, but we normalize for consistency
-    const normalizedId = normalizeNotionId(id) || id;
-
-    // Get report from Notion - try normalized ID first, then original if different
-    let report = await getReportFromNotionById(normalizedId, userId);
-
-    // If normalized ID failed and it's different from original, try original format
-    if (!report && normalizedId !== id) {
-      report = await getReportFromNotionById(id, userId);
-    }
-
-    if (!report) {
+    const stored = await getPnlReportForRender(id);
+    if (!stored) {
       return NextResponse.json(
         {
           error: 'Report not found',
-          details: `Report with ID ${id} not found. Please verify the report exists in Notion.`,
+          details: `Report with ID ${id} not found.`,
         },
         { status: 404 },
       );
     }
+    const { report, locationName, data } = stored;
 
-    // Fetch report from QuickBooks
-    // For monthly reports, use summarize_column_by=Month to get monthly columns
-    const isMonthly =
-      report.isMonthly || (report.months && report.months.length > 0);
-
-    const location = await prisma.location.findUnique({
-      where: { code: report.locationCode },
-      select: { id: true, name: true },
-    });
-    if (!location) {
-      return NextResponse.json(
-        {
-          error: 'Location not found',
-          details: `No location found for code "${report.locationCode}".`,
-        },
-        { status: 404 },
-      );
-    }
-
-    const reportData = await withValidTokenForLocation(
-      location.id,
-      (accessToken, realmId, classId) =>
-        fetchProfitAndLossReportFromQb(
-          realmId,
-          report.startDate,
-          report.endDate,
-          'Accrual',
-          accessToken,
-          classId,
-          isMonthly ? 'Month' : undefined,
-        ),
-    );
-
-    const locationName = location.name ?? null;
-
-    // Generate PDF (QuickBooks raw shape is compatible with ReportData)
     const pdfBytes = generatePDFFromReportData(
-      reportData as ReportData,
+      data,
       report.startDate,
       report.endDate,
       locationName,
@@ -1,13 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import {
-  getReportFromNotionById,
-  normalizeNotionId,
-} from '@/features/report/notion/reports';
+import { getPnlReportById } from '@/features/report/utils/report-store';
 
 /**
  * GET /api/report/[id]
- * Get a specific report by ID from Notion
+ * Get a stored report by id (or by its Notion page id, for reports imported from Notion)
  */
 export async function GET(
   request: NextRequest,
@@ -22,20 +19,8 @@ export async function GET(
       );
     }
 
-    const userId = session.user.id;
     const { id } = await params;
-
-    // Normalize Notion ID (remove hyphens if present)
-    // Notion API accepts both formats, but we normalize for consistency
-    const normalizedId = normalizeNotionId(id) || id;
-
-    // Get report from Notion - try normalized ID first, then original if different
-    let report = await getReportFromNotionById(normalizedId, userId);
-
-    // If normalized ID failed and it's different from original, try original format
-    if (!report && normalizedId !== id) {
-      report = await getReportFromNotionById(id, userId);
-    }
+    const report = await getPnlReportById(id);
 
     if (!report) {
       return NextResponse.json({ error: 'Report not found' }, { status: 404 });
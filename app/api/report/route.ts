@@ -6,10 +6,56 @@ import {
 } from '@/lib/quickbooks';
 import {
   createReportInNotion,
-  getReportsFromNotion,
+  isNotionConfigured,
 } from '@/features/report/notion/reports';
+import {
+  attachNotionPage,
+  getPnlReports,
+  savePnlReport,
+  type SavePnlReportInput,
+} from '@/features/report/utils/report-store';
+import type { Report } from '@/features/report/types';
 import { prisma } from '@/lib/core/prisma';
 
+/**
+ * Save the report, then copy it to Notion when Notion is configured. A failed Notion copy is logged and
+ * does not fail the request — the stored report is the source of truth.
+ */
+async function storeReport(
+  input: SavePnlReportInput,
+  notion: {
+    userId: string;
+    locationCode: string;
+    startDate: Date;
+    endDate: Date;
+    months?: Array<{ year: number; month: number }>;
+  },
+): Promise<Report> {
+  const report = await savePnlReport(input);
+  if (!isNotionConfigured()) return report;
+  try {
+    const page = await createReportInNotion(
+      notion.userId,
+      notion.locationCode,
+      notion.startDate,
+      notion.endDate,
+      input.report,
+      notion.months,
+      report.targetPercentages,
+      input.createdByName ?? undefined,
+      report.id,
+    );
+    await attachNotionPage(report.id, {
+      notionPageId: page.notionPageId ?? page.id,
+      notionUrl: page.notionUrl ?? null,
+    });
+    return { ...report, notionUrl: page.notionUrl };
+  } catch (err) {
+    console.warn('[report] Saved report but could not copy it to Notion:', err);
+    return report;
+  }
+}
+
 /**
  * POST /api/report
  * Create a new P&L report
@@ -166,16 +212,25 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Save report to Notion database
-      const report = await createReportInNotion(
-        userId,
-        locationCode,
-        reportStartDate,
-        reportEndDate,
-        reportData, // Use the report data directly from QuickBooks
-        months, // Pass months metadata
-        targetPercentages, // Pass target percentages
-        userName,
+      const report = await storeReport(
+        {
+          locationId: location.id,
+          startDate: startDateStr,
+          endDate: endDateStr,
+          isMonthly: true,
+          accountingMethod: accountingMethod as 'Accrual' | 'Cash',
+          report: reportData,
+          targetPercentages,
+          createdById: userId,
+          createdByName: userName,
+        },
+        {
+          userId,
+          locationCode,
+          startDate: reportStartDate,
+          endDate: reportEndDate,
+          months,
+        },
       );
 
       return NextResponse.json({
@@ -227,16 +282,24 @@ export async function POST(request: NextRequest) {
         ),
     );
 
-    // Save report to Notion database
-    const report = await createReportInNotion(
-      userId,
-      locationCode,
-      new Date(startDate),
-      new Date(endDate),
-      reportData,
-      undefined, // months
-      targetPercentages, // Pass target percentages
-      userName,
+    const report = await storeReport(
+      {
+        locationId: location.id,
+        startDate,
+        endDate,
+        isMonthly: false,
+        accountingMethod: accountingMethod as 'Accrual' | 'Cash',
+        report: reportData,
+        targetPercentages,
+        createdById: userId,
+        createdByName: userName,
+      },
+      {
+        userId,
+        locationCode,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+      },
     );
 
     return NextResponse.json({
@@ -257,10 +320,12 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/report
- * Get all reports for the authenticated user from Notion
+ * List stored reports, newest first
  *
  * Query parameters:
  * - locationCode (optional): Filter by location code
+ * - from, to (optional, YYYY-MM-DD): Reports whose period overlaps the range
+ * - mode (optional): "monthly" | "period"
  */
 export async function GET(request: NextRequest) {
   try {
@@ -272,11 +337,26 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const userId = session.user.id;
     const { searchParams } = new URL(request.url);
     const locationCode = searchParams.get('locationCode') || undefined;
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+    const mode = searchParams.get('mode');
+
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+    if ((from && !dateRegex.test(from)) || (to && !dateRegex.test(to))) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 },
+      );
+    }
 
-    const reports = await getReportsFromNotion(userId, locationCode);
+    const reports = await getPnlReports({
+      locationCode,
+      from,
+      to,
+      isMonthly: mode === 'monthly' ? true : mode === 'period' ? false : undefined,
+    });
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,92 @@
+// PATCH — edit a report schedule; locationIds replaces its locations. DELETE — remove the schedule
+// and its run history (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBody, reportSchedulePatchSchema } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can manage report schedules' },
+        { status: 403 },
+      );
+    }
+
+    const { id } = await params;
+    const parsed = await parseBody(request, reportSchedulePatchSchema);
+    if ('error' in parsed) return parsed.error;
+    const { locationIds, ...fields } = parsed.data;
+
+    const existing = await prisma.reportSchedule.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Report schedule not found' }, { status: 404 });
+    }
+    const uniqueLocationIds = locationIds ? [...new Set(locationIds)] : undefined;
+    if (uniqueLocationIds) {
+      const locationCount = await prisma.location.count({
+        where: { id: { in: uniqueLocationIds } },
+      });
+      if (locationCount !== uniqueLocationIds.length) {
+        return NextResponse.json(
+          { error: 'One or more locations were not found' },
+          { status: 400 },
+        );
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.reportSchedule.update({ where: { id }, data: fields });
+      if (uniqueLocationIds) {
+        await tx.reportScheduleLocation.deleteMany({
+          where: { scheduleId: id, locationId: { notIn: uniqueLocationIds } },
+        });
+        await tx.reportScheduleLocation.createMany({
+          data: uniqueLocationIds.map((locationId) => ({ scheduleId: id, locationId })),
+          skipDuplicates: true,
+        });
+      }
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'PATCH /api/report/schedules/[id] error:');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can manage report schedules' },
+        { status: 403 },
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.reportSchedule.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Report schedule not found' }, { status: 404 });
+    }
+    await prisma.reportSchedule.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'DELETE /api/report/schedules/[id] error:');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * GET /api/report/schedules/cron — Cron-triggered scheduled P&L reports (Bearer CRON_SECRET).
+ * Emails the monthly PDF for every active schedule whose day of month has come and that has not
+ * yet sent the period for a location. Failed runs are kept for a manual retry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueReportSchedules } from '@/features/report/utils/scheduled-reports';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get('authorization') ?? '';
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runDueReportSchedules();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('[report schedules] Error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { error: 'Scheduled reports failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// POST — create a scheduled monthly P&L report for one or more locations (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBody, reportSchedulePostSchema } from '@/lib/api/schemas';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { toApiErrorResponse } from '@/lib/core/errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can manage report schedules' },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(request, reportSchedulePostSchema);
+    if ('error' in parsed) return parsed.error;
+    const { locationIds, ...fields } = parsed.data;
+
+    const locationCount = await prisma.location.count({ where: { id: { in: locationIds } } });
+    if (locationCount !== new Set(locationIds).size) {
+      return NextResponse.json({ error: 'One or more locations were not found' }, { status: 400 });
+    }
+
+    const schedule = await prisma.reportSchedule.create({
+      data: {
+        ...fields,
+        locations: { create: [...new Set(locationIds)].map((locationId) => ({ locationId })) },
+      },
+      select: { id: true },
+    });
+    return NextResponse.json({ ok: true, id: schedule.id }, { status: 201 });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/report/schedules error:');
+  }
+}
@@ -0,0 +1,30 @@
+// POST — re-send a failed scheduled report run to the schedule's current recipients (office/admin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, getOfficeOrAdmin } from '@/lib/auth';
+import { toApiErrorResponse } from '@/lib/core/errors';
+import { retryReportScheduleRun } from '@/features/report/utils/scheduled-reports';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!getOfficeOrAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only office or admin can manage report schedules' },
+        { status: 403 },
+      );
+    }
+
+    const { runId } = await params;
+    const status = await retryReportScheduleRun(runId);
+    return NextResponse.json({ ok: true, status });
+  } catch (err: unknown) {
+    return toApiErrorResponse(err, 'POST /api/report/schedules/runs/[runId]/retry error:');
+  }
+}
@@ -46,6 +46,7 @@ const HeaderNav = ({
         <div className="flex items-center gap-2">
           <HeaderNavItem href="/users">Users</HeaderNavItem>
           <HeaderNavItem href="/locations">Locations</HeaderNavItem>
+          <HeaderNavItem href="/audit">Audit</HeaderNavItem>
         </div>
       )}
     </nav>
@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import {
+  AUDIT_ENTITY_LABELS,
+  type AuditActorOption,
+  type AuditEntityType,
+  type AuditLogEntry,
+} from '../types';
+import {
+  diffAuditSnapshots,
+  formatAuditValue,
+} from '../utils/diff-audit-snapshots';
+
+const PAGE_SIZE = 50;
+
+/** Sentinel for "any" so we never use empty string as SelectItem value. */
+const ALL_VALUE = '__all__';
+
+type Filters = {
+  entityType: string;
+  actorId: string;
+  from: string;
+  to: string;
+};
+
+const ACTION_VARIANT: Record<
+  AuditLogEntry['action'],
+  'green' | 'secondary' | 'destructive'
+> = {
+  created: 'green',
+  updated: 'secondary',
+  deleted: 'destructive',
+  approved: 'green',
+  rejected: 'destructive',
+};
+
+function actorLabel(actor: AuditLogEntry['actor']): string {
+  if (!actor) return 'Unknown user';
+  return actor.name ?? actor.email ?? actor.id;
+}
+
+function buildQuery(filters: Filters, offset: number): string {
+  const sp = new URLSearchParams();
+  if (filters.entityType !== ALL_VALUE) sp.set('entityType', filters.entityType);
+  if (filters.actorId !== ALL_VALUE) sp.set('actorId', filters.actorId);
+  if (filters.from) sp.set('from', filters.from);
+  if (filters.to) sp.set('to', filters.to);
+  sp.set('limit', String(PAGE_SIZE));
+  sp.set('offset', String(offset));
+  return sp.toString();
+}
+
+function ChangeValue({ value }: { value: unknown }) {
+  if (value != null && typeof value === 'object') {
+    return (
+      <details className="inline-block align-top">
+        <summary className="cursor-pointer">{formatAuditValue(value)}</summary>
+        <pre className="mt-1 max-h-60 max-w-xl overflow-auto rounded bg-muted p-2 text-[11px]">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      </details>
+    );
+  }
+  return <span>{formatAuditValue(value)}</span>;
+}
+
+function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const changes = diffAuditSnapshots(entry.before, entry.after);
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes</p>;
+  }
+  return (
+    <div className="space-y-1 border-l-2 border-muted pl-2">
+      {changes.map((c) => (
+        <div key={c.field} className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground/80">{c.field}:</span>{' '}
+          <span className="text-destructive/70">
+            <ChangeValue value={c.from} />
+          </span>
+          {' → '}
+          <span className="text-green-600">
+            <ChangeValue value={c.to} />
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AuditLogClient({ actors }: { actors: AuditActorOption[] }) {
+  const [filters, setFilters] = useState<Filters>({
+    entityType: ALL_VALUE,
+    actorId: ALL_VALUE,
+    from: '',
+    to: '',
+  });
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(
+    async (offset: number) => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/audit?${buildQuery(filters, offset)}`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(
+            (data as { error?: string }).error ?? 'Failed to load audit log',
+          );
+        }
+        const page = data as {
+          entries: AuditLogEntry[];
+          total: number;
+          hasMore: boolean;
+        };
+        setEntries((prev) =>
+          offset === 0 ? page.entries : [...prev, ...page.entries],
+        );
+        setTotal(page.total);
+        setHasMore(page.hasMore);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : 'Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters],
+  );
+
+  useEffect(() => {
+    void load(0);
+  }, [load]);
+
+  const setFilter = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Record</p>
+          <Select
+            value={filters.entityType}
+            onValueChange={(v) => setFilter('entityType', v)}
+          >
+            <SelectTrigger className="h-9 w-[180px]">
+              <SelectValue placeholder="All records" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_VALUE}>All records</SelectItem>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(
+                (t) => (
+                  <SelectItem key={t} value={t}>
+                    {AUDIT_ENTITY_LABELS[t]}
+                  </SelectItem>
+                ),
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">User</p>
+          <Select
+            value={filters.actorId}
+            onValueChange={(v) => setFilter('actorId', v)}
+          >
+            <SelectTrigger className="h-9 w-[200px]">
+              <SelectValue placeholder="All users" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_VALUE}>All users</SelectItem>
+              {actors.map((a) => (
+                <SelectItem key={a.id} value={a.id}>
+                  {a.name ?? a.email ?? a.id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">From</p>
+          <YmdDateInput
+            className="h-9 w-[180px]"
+            value={filters.from}
+            onChange={(e) => setFilter('from', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">To</p>
+          <YmdDateInput
+            className="h-9 w-[180px]"
+            value={filters.to}
+            onChange={(e) => setFilter('to', e.target.value)}
+          />
+        </div>
+        {(filters.from || filters.to) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setFilters((prev) => ({ ...prev, from: '', to: '' }))}
+          >
+            Clear dates
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {total} change{total === 1 ? '' : 's'}
+      </p>
+
+      {entries.length === 0 && !loading ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          No changes match these filters.
+        </div>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {entries.map((entry) => (
+            <li key={entry.id} className="space-y-2 p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant={ACTION_VARIANT[entry.action]}>
+                    {entry.action}
+                  </Badge>
+                  <span className="text-muted-foreground">
+                    {AUDIT_ENTITY_LABELS[entry.entityType] ?? entry.entityType}
+                  </span>
+                  <span className="font-medium">
+                    {entry.entityLabel ?? entry.entityId}
+                  </span>
+                  <span className="text-muted-foreground">
+                    by {actorLabel(entry.actor)}
+                  </span>
+                </div>
+                <span className="shrink-0 text-[11px] text-muted-foreground">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <AuditChanges entry={entry} />
+              {entry.route && (
+                <p className="font-mono text-[11px] text-muted-foreground">
+                  {entry.route}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(hasMore || loading) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-xs"
+          disabled={loading}
+          onClick={() => load(entries.length)}
+        >
+          {loading && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
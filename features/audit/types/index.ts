@@ -0,0 +1,52 @@
+/**
+ * Office-managed records that write to `audit.audit_logs`. Lives here (client-safe) so the Audit page
+ * and `lib/audit/audit-log` share one list.
+ */
+export const AUDIT_ENTITY_TYPES = [
+  'budget',
+  'budget_settings',
+  'supplier',
+  'purchase_order',
+  'supplier_invoice',
+  'delivery_schedule',
+  'driver_fixed_schedule',
+  'user',
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  budget: 'Budget',
+  budget_settings: 'Budget settings',
+  supplier: 'Supplier',
+  purchase_order: 'Purchase order',
+  supplier_invoice: 'Supplier invoice',
+  delivery_schedule: 'Delivery schedule',
+  driver_fixed_schedule: 'Driver fixed schedule',
+  user: 'User',
+};
+
+export type AuditLogEntry = {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string | null;
+  action: 'created' | 'updated' | 'deleted' | 'approved' | 'rejected';
+  before: unknown;
+  after: unknown;
+  route: string | null;
+  createdAt: string;
+  actor: { id: string; name: string | null; email: string | null } | null;
+};
+
+export type AuditActorOption = {
+  id: string;
+  name: string | null;
+  email: string | null;
+};
+
+export type AuditFieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
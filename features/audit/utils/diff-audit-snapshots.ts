@@ -0,0 +1,38 @@
+import type { AuditFieldChange } from '../types';
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return v != null && typeof v === 'object' && !Array.isArray(v);
+}
+
+/**
+ * Top-level field diff between two audit snapshots. Nested values (line items, stops,
+ * JSON payloads) are compared by their JSON form and reported as a single field change.
+ */
+export function diffAuditSnapshots(
+  before: unknown,
+  after: unknown,
+): AuditFieldChange[] {
+  const a = isPlainObject(before) ? before : {};
+  const b = isPlainObject(after) ? after : {};
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  const changes: AuditFieldChange[] = [];
+  for (const field of keys) {
+    const from = a[field] ?? null;
+    const to = b[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/** Short display form for a snapshot value in the Audit page. */
+export function formatAuditValue(value: unknown): string {
+  if (value == null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  return JSON.stringify(value);
+}
@@ -84,3 +84,15 @@ export function recalcPrices(
   }
   return updated;
 }
+
+/**
+ * Cost per product as of the recipe's last save, recovered from its first price built on the unit
+ * cost (`price = pricePerProduct × (1 + margin%)`). Null when no price is based on the unit cost.
+ */
+export function unitCostFromSavedPrices(
+  prices: Pick<PriceEditorItem, 'margin' | 'price' | 'base'>[],
+): number | null {
+  const p = prices.find((x) => !x.base || x.base === UNIT_PRICE_KEY);
+  if (!p || p.margin <= -100) return null;
+  return p.price / (1 + p.margin / 100);
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { BudgetAlertSettingsForm } from '@/features/dashboard/budget/components/form/BudgetAlertSettingsForm';
 import { BudgetSettingsForm } from '@/features/dashboard/budget/components/form/BudgetSettingsForm';
 import { Button } from '@/components/ui/button';
 import {
@@ -8,17 +9,25 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
 import { Settings } from 'lucide-react';
 import { usePathname } from 'next/navigation';
 
 type BudgetSettingsDialogProps = {
   initialBudgetRate: number;
   initialReferencePeriodMonths: number;
+  initialAlerts: {
+    enabled: boolean;
+    cosThresholds: number[];
+    laborThresholds: number[];
+    recipients: string | null;
+  };
 };
 
 export function BudgetSettingsDialog({
   initialBudgetRate,
   initialReferencePeriodMonths,
+  initialAlerts,
 }: BudgetSettingsDialogProps) {
   const pathname = usePathname();
   const isBudgetPage = pathname.startsWith('/dashboard/location/');
@@ -38,6 +47,13 @@ export function BudgetSettingsDialog({
           initialReferencePeriodMonths={initialReferencePeriodMonths}
           inline
         />
+        <Separator />
+        <BudgetAlertSettingsForm
+          initialEnabled={initialAlerts.enabled}
+          initialCosThresholds={initialAlerts.cosThresholds}
+          initialLaborThresholds={initialAlerts.laborThresholds}
+          initialRecipients={initialAlerts.recipients}
+        />
       </DialogContent>
     </Dialog>
   );
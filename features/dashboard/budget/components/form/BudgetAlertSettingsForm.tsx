@@ -0,0 +1,130 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+type BudgetAlertSettingsFormProps = {
+  initialEnabled: boolean;
+  initialCosThresholds: number[];
+  initialLaborThresholds: number[];
+  initialRecipients: string | null;
+};
+
+/** "80, 100" → [80, 100]; null when any piece is not a whole percent. */
+function parseThresholds(raw: string): number[] | null {
+  const pieces = raw
+    .split(/[,\s]+/)
+    .map((p) => p.replace('%', '').trim())
+    .filter(Boolean);
+  const values = pieces.map(Number);
+  if (values.some((v) => !Number.isInteger(v) || v < 1 || v > 500)) return null;
+  return values;
+}
+
+/** Thresholds and recipients for the daily budget variance email digest. */
+export function BudgetAlertSettingsForm({
+  initialEnabled,
+  initialCosThresholds,
+  initialLaborThresholds,
+  initialRecipients,
+}: BudgetAlertSettingsFormProps) {
+  const [enabled, setEnabled] = React.useState(initialEnabled);
+  const [cos, setCos] = React.useState(initialCosThresholds.join(', '));
+  const [labor, setLabor] = React.useState(initialLaborThresholds.join(', '));
+  const [recipients, setRecipients] = React.useState(initialRecipients ?? '');
+  const [loading, setLoading] = React.useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    toast.dismiss();
+    const alertCosThresholds = parseThresholds(cos);
+    const alertLaborThresholds = parseThresholds(labor);
+    if (!alertCosThresholds || !alertLaborThresholds) {
+      toast.error('Thresholds must be whole percents, e.g. 80, 100');
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await fetch('/api/dashboard/budget/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          alertsEnabled: enabled,
+          alertCosThresholds,
+          alertLaborThresholds,
+          alertRecipients: recipients,
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? 'Update failed');
+      toast.success('Alert settings updated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="budget-alerts-enabled">Variance alert emails</Label>
+          <p className="text-muted-foreground text-xs mt-0.5">
+            Daily digest to each location&apos;s managers when month-to-date spend passes a
+            threshold for the first time this month.
+          </p>
+        </div>
+        <Switch
+          id="budget-alerts-enabled"
+          checked={enabled}
+          onCheckedChange={setEnabled}
+          aria-label="Variance alert emails"
+        />
+      </div>
+      <div className="flex gap-4">
+        <Field>
+          <FieldLabel htmlFor="budget-alert-cos">COS category (% of budget)</FieldLabel>
+          <Input
+            id="budget-alert-cos"
+            placeholder="80, 100"
+            value={cos}
+            disabled={!enabled}
+            onChange={(e) => setCos(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="budget-alert-labor">Labor (% of target)</FieldLabel>
+          <Input
+            id="budget-alert-labor"
+            placeholder="100"
+            value={labor}
+            disabled={!enabled}
+            onChange={(e) => setLabor(e.target.value)}
+          />
+        </Field>
+      </div>
+      <Field>
+        <FieldLabel htmlFor="budget-alert-recipients">Office recipients (Cc)</FieldLabel>
+        <Textarea
+          id="budget-alert-recipients"
+          rows={2}
+          placeholder="office@example.com, owner@example.com"
+          value={recipients}
+          disabled={!enabled}
+          onChange={(e) => setRecipients(e.target.value)}
+        />
+      </Field>
+      <Button type="submit" disabled={loading} className="w-full">
+        {loading ? <Spinner /> : 'Update alert settings'}
+      </Button>
+    </form>
+  );
+}
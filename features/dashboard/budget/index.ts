@@ -17,6 +17,13 @@ export {
   distributeByCosPercent,
 } from './utils/calculations';
 export { getOrCreateBudgetSettings } from './utils/settings';
+export {
+  evaluateBudgetAlerts,
+  runBudgetVarianceAlerts,
+  type BudgetAlert,
+  type BudgetAlertThresholds,
+  type RunBudgetAlertsResult,
+} from './utils/variance-alerts';
 export {
   getRealmIdByLocation,
   getReferenceIncomeAndCos,
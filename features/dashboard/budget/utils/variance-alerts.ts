@@ -0,0 +1,242 @@
+/**
+ * Budget vs actual variance alerts: month-to-date COS per top-level category against its share of
+ * the budget, and labor (Expense D) against the labor target, checked against the thresholds in
+ * `BudgetSettings`. The daily cron emails each location a digest when a threshold is newly crossed.
+ */
+
+import { prisma } from '@/lib/core/prisma';
+import { isSmtpConfigured } from '@/lib/core/mailer';
+import { sendBudgetAlertEmail } from '@/lib/dashboard/send-budget-alert-email';
+import {
+  getBudgetDataFromPnlReport,
+  getCosFromPnlReport,
+  getIncomeFromPnlReport,
+} from '@/lib/quickbooks';
+import { parseExpenseDTotalFromReportRows } from '@/lib/quickbooks/parser';
+import { getOrFetchPnlSnapshot } from '@/lib/quickbooks/snapshots';
+import { looseContactEmailsFromRaw } from '@/lib/order/supplier-order-channel';
+import { getCurrentYearMonth, isBeforeYearMonth } from '@/lib/utils';
+import {
+  getTopLevelCategoriesForCharts,
+  getTopLevelCategoryRows,
+} from '@/features/report/utils/category';
+import { getLaborTargetByLocationAndMonth } from '@/features/dashboard/labor/utils/labor-target-repository';
+import { resolveLaborTarget } from '@/features/dashboard/labor/utils/compute-labor-target';
+import { referenceCurrentMonthRange, referencePreviousMonthRange } from './date-ranges';
+import { getOrCreateBudgetSettings } from './settings';
+
+const LABOR_ALERT_SUBJECT = 'labor';
+
+export type BudgetAlertThresholds = {
+  cos: number[];
+  labor: number[];
+};
+
+export type BudgetAlert = {
+  /** `cos:<top-level categoryId>` or `labor` */
+  subject: string;
+  label: string;
+  actual: number;
+  budget: number;
+  /** actual ÷ budget × 100 */
+  percent: number;
+  /** Every threshold at or below `percent`, ascending. */
+  crossed: number[];
+};
+
+function crossedThresholds(percent: number, thresholds: number[]): number[] {
+  return [...new Set(thresholds)].filter((t) => percent >= t).sort((a, b) => a - b);
+}
+
+function toAlert(
+  subject: string,
+  label: string,
+  actual: number,
+  budget: number,
+  thresholds: number[],
+): BudgetAlert | null {
+  if (!(budget > 0) || !(actual > 0)) return null;
+  const percent = (actual / budget) * 100;
+  const crossed = crossedThresholds(percent, thresholds);
+  return crossed.length > 0 ? { subject, label, actual, budget, percent, crossed } : null;
+}
+
+/**
+ * Alerts for one location and month from the stored QuickBooks P&L snapshots (fetched once when a
+ * period has never been stored). COS is skipped without a usable budget row for the month.
+ */
+export async function evaluateBudgetAlerts(
+  locationId: string,
+  yearMonth: string,
+  thresholds: BudgetAlertThresholds,
+): Promise<BudgetAlert[]> {
+  const current = referenceCurrentMonthRange(yearMonth);
+  const [budget, laborTargetRow, currentSnapshot] = await Promise.all([
+    prisma.budget.findUnique({
+      where: { locationId_yearMonth: { locationId, yearMonth } },
+      select: { totalAmount: true, referencePeriodMonthsUsed: true, error: true },
+    }),
+    getLaborTargetByLocationAndMonth(locationId, yearMonth),
+    getOrFetchPnlSnapshot(locationId, current.startDate, current.endDate),
+  ]);
+  const alerts: BudgetAlert[] = [];
+
+  const totalBudget = budget ? Number(budget.totalAmount) : 0;
+  const refMonths = budget?.referencePeriodMonthsUsed ?? 0;
+  if (budget && !budget.error && totalBudget > 0 && refMonths > 0 && thresholds.cos.length > 0) {
+    const ref = referencePreviousMonthRange(yearMonth, refMonths);
+    const refSnapshot = await getOrFetchPnlSnapshot(locationId, ref.startDate, ref.endDate);
+    const refData = getBudgetDataFromPnlReport(refSnapshot.report);
+    const refTop = getTopLevelCategoryRows(refData.cosByCategory);
+    const refTopTotal = refData.cosTotal || refTop.reduce((s, c) => s + c.amount, 0);
+    const currentTop = getTopLevelCategoriesForCharts(
+      getCosFromPnlReport(currentSnapshot.report).cosByCategory,
+      [],
+    );
+    // Same split as the budget card: each category's share of reference COS.
+    for (const row of currentTop) {
+      const refCos = refTop.find((r) => r.categoryId === row.categoryId)?.amount ?? 0;
+      const categoryBudget = refTopTotal > 0 ? (totalBudget * refCos) / refTopTotal : 0;
+      const alert = toAlert(
+        `cos:${row.categoryId}`,
+        row.name,
+        row.amount,
+        categoryBudget,
+        thresholds.cos,
+      );
+      if (alert) alerts.push(alert);
+    }
+  }
+
+  if (thresholds.labor.length > 0) {
+    const laborTarget = laborTargetRow
+      ? { rate: laborTargetRow.rate, referencePeriodMonths: laborTargetRow.referencePeriodMonths }
+      : null;
+    const laborMonths = resolveLaborTarget({ laborTarget }).displayPeriod;
+    if (laborMonths > 0) {
+      const ref = referencePreviousMonthRange(yearMonth, laborMonths);
+      const refSnapshot = await getOrFetchPnlSnapshot(locationId, ref.startDate, ref.endDate);
+      const { targetLabor } = resolveLaborTarget({
+        referenceIncomeTotal: getIncomeFromPnlReport(refSnapshot.report),
+        laborTarget,
+      });
+      const totalLabor = parseExpenseDTotalFromReportRows(currentSnapshot.report?.Rows);
+      const alert = toAlert(LABOR_ALERT_SUBJECT, 'Labor', totalLabor, targetLabor, thresholds.labor);
+      if (alert) alerts.push(alert);
+    }
+  }
+
+  return alerts;
+}
+
+export type RunBudgetAlertsResult = {
+  yearMonth: string;
+  /** Set when nothing was evaluated (alerts off, SMTP missing). */
+  skipped?: string;
+  locations: number;
+  alerts: number;
+  emailed: number;
+  errors: { locationId: string; error: string }[];
+};
+
+/**
+ * Evaluate every budget location for the current month and email a digest where at least one
+ * threshold was crossed for the first time this month. The digest lists all current crossings;
+ * only successfully emailed crossings are recorded, so a failed send is retried next run.
+ */
+export async function runBudgetVarianceAlerts(): Promise<RunBudgetAlertsResult> {
+  const yearMonth = getCurrentYearMonth();
+  const result: RunBudgetAlertsResult = {
+    yearMonth,
+    locations: 0,
+    alerts: 0,
+    emailed: 0,
+    errors: [],
+  };
+
+  const settings = await getOrCreateBudgetSettings();
+  if (!settings.alertsEnabled) return { ...result, skipped: 'Budget alerts are turned off' };
+  if (!isSmtpConfigured()) return { ...result, skipped: 'SMTP is not configured' };
+  const thresholds: BudgetAlertThresholds = {
+    cos: settings.alertCosThresholds,
+    labor: settings.alertLaborThresholds,
+  };
+  const officeRecipients = looseContactEmailsFromRaw(settings.alertRecipients);
+
+  const locations = await prisma.location.findMany({
+    where: { showBudget: true },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      startYearMonth: true,
+      users: {
+        where: { role: 'manager', status: 'active', email: { not: null } },
+        select: { email: true },
+      },
+    },
+  });
+
+  for (const loc of locations) {
+    if (loc.startYearMonth && isBeforeYearMonth(yearMonth, loc.startYearMonth)) continue;
+    result.locations++;
+    try {
+      const alerts = await evaluateBudgetAlerts(loc.id, yearMonth, thresholds);
+      result.alerts += alerts.length;
+      if (alerts.length === 0) continue;
+
+      const sent = await prisma.budgetAlertEvent.findMany({
+        where: { locationId: loc.id, yearMonth },
+        select: { subject: true, threshold: true },
+      });
+      const sentKeys = new Set(sent.map((e) => `${e.subject}:${e.threshold}`));
+      const fresh = alerts.flatMap((a) =>
+        a.crossed
+          .filter((t) => !sentKeys.has(`${a.subject}:${t}`))
+          .map((threshold) => ({ alert: a, threshold })),
+      );
+      if (fresh.length === 0) continue;
+
+      const managers = loc.users.map((u) => u.email!).filter(Boolean);
+      const to = managers.length > 0 ? managers : officeRecipients;
+      const cc = managers.length > 0 ? officeRecipients : [];
+      if (to.length === 0) continue;
+
+      const freshSubjects = new Set(fresh.map((f) => f.alert.subject));
+      await sendBudgetAlertEmail({
+        to,
+        cc,
+        locationId: loc.id,
+        locationLabel: loc.name ? `${loc.code} — ${loc.name}` : loc.code,
+        yearMonth,
+        lines: alerts.map((a) => ({
+          label: a.label,
+          actual: a.actual,
+          budget: a.budget,
+          percent: a.percent,
+          threshold: a.crossed[a.crossed.length - 1],
+          isNew: freshSubjects.has(a.subject),
+        })),
+      });
+      await prisma.budgetAlertEvent.createMany({
+        data: fresh.map(({ alert, threshold }) => ({
+          locationId: loc.id,
+          yearMonth,
+          subject: alert.subject,
+          threshold,
+          actual: alert.actual,
+          budget: alert.budget,
+        })),
+        skipDuplicates: true,
+      });
+      result.emailed++;
+    } catch (err) {
+      result.errors.push({
+        locationId: loc.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return result;
+}
@@ -1,6 +1,7 @@
 import { Separator } from '@/components/ui/separator';
 import DashboardLinkList from './DashboardLinkList';
 import LocationLinkList from './LocationLinkList';
+import OverviewLinkItem from './OverviewLinkItem';
 
 const DashboardSideNav = () => {
   return (
@@ -8,6 +9,7 @@ const DashboardSideNav = () => {
       {/* <DashboardLinkList />
       <Separator className="my-2 max-sm:hidden" /> */}
       {/* <Separator className="mx-2 max-sm:block hidden" orientation="vertical" /> */}
+      <OverviewLinkItem />
       <LocationLinkList />
     </nav>
   );
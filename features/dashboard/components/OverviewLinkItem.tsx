@@ -0,0 +1,23 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+
+/** "All" entry above the locations: the consolidated dashboard, keeping the selected month. */
+const OverviewLinkItem = () => {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const yearMonth = searchParams?.get('yearMonth');
+  const queryString = yearMonth ? `?yearMonth=${yearMonth}` : '';
+
+  return (
+    <Link
+      href={`/dashboard/overview${queryString}`}
+      className={pathname.startsWith('/dashboard/overview') ? '' : 'text-gray-300'}
+    >
+      All
+    </Link>
+  );
+};
+
+export default OverviewLinkItem;
@@ -1,5 +1,6 @@
 'use client';
 
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import UpdateBudgetButton from '@/features/dashboard/budget/components/card/UpdateBudgetButton';
 import {
@@ -10,6 +11,7 @@ import type { LaborDashboardData } from '../../types';
 import LaborChart from '../chart/LaborChart';
 import LaborCategoryList from '../list/LaborCategoryList';
 import LaborSummary from '../LaborSummary';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import React from 'react';
 import LaborTimeNeeded from '../LaborTimeNeeded';
@@ -80,26 +82,33 @@ export default function LaborCard({
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
         <CardTitle className="text-xl font-bold">Labor</CardTitle>
         {isOfficeOrAdmin && (
-          <UpdateBudgetButton
-            buttonLabel="Update Target"
-            modalTitle="Update target"
-            locationId={locationId}
-            yearMonth={yearMonth}
-            currentBudgetRate={displayRate}
-            currentReferencePeriodMonths={displayPeriod}
-            rateFieldLabel="Rate"
-            rateHint="(% of average monthly income)"
-            periodFieldLabel="Ref"
-            periodHint="(months)"
-            rateTooltip={LABOR_MODAL_RATE_TOOLTIP}
-            periodTooltip={LABOR_MODAL_REF_TOOLTIP}
-            idPrefix="labor-update-target"
-            ratePlaceholder={`e.g. ${Math.round(DEFAULT_LABOR_RATE * 100)}`}
-            patchTarget="labor"
-            onUpdateStart={onUpdateStart}
-            onUpdateSuccess={onUpdateSuccess}
-            onUpdateError={onUpdateError}
-          />
+          <div className="flex items-center gap-2">
+            <Button asChild size="sm" variant="ghost">
+              <Link href={`/dashboard/labor/mapping?locationId=${locationId}&yearMonth=${yearMonth}`}>
+                Categories
+              </Link>
+            </Button>
+            <UpdateBudgetButton
+              buttonLabel="Update Target"
+              modalTitle="Update target"
+              locationId={locationId}
+              yearMonth={yearMonth}
+              currentBudgetRate={displayRate}
+              currentReferencePeriodMonths={displayPeriod}
+              rateFieldLabel="Rate"
+              rateHint="(% of average monthly income)"
+              periodFieldLabel="Ref"
+              periodHint="(months)"
+              rateTooltip={LABOR_MODAL_RATE_TOOLTIP}
+              periodTooltip={LABOR_MODAL_REF_TOOLTIP}
+              idPrefix="labor-update-target"
+              ratePlaceholder={`e.g. ${Math.round(DEFAULT_LABOR_RATE * 100)}`}
+              patchTarget="labor"
+              onUpdateStart={onUpdateStart}
+              onUpdateSuccess={onUpdateSuccess}
+              onUpdateError={onUpdateError}
+            />
+          </div>
         )}
       </CardHeader>
       <CardContent className="space-y-5">
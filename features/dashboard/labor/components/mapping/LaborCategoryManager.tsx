@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { LaborCategoryRow } from '../../types';
+
+async function send(url: string, method: string, body?: unknown): Promise<void> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = (await res.json().catch(() => ({}))) as { error?: string };
+  if (!res.ok) throw new Error(data.error ?? 'Request failed');
+}
+
+/** Rename any category, add custom ones, delete custom ones (their accounts fall back to the regex). */
+export function LaborCategoryManager({ categories }: { categories: LaborCategoryRow[] }) {
+  const router = useRouter();
+  const [names, setNames] = useState<Record<string, string>>(() =>
+    Object.fromEntries(categories.map((c) => [c.id, c.name])),
+  );
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rename = (c: LaborCategoryRow) => {
+    const name = (names[c.id] ?? '').trim();
+    if (!name || name === c.name) {
+      setNames((n) => ({ ...n, [c.id]: c.name }));
+      return;
+    }
+    void run(
+      () => send(`/api/dashboard/labor/categories/${encodeURIComponent(c.id)}`, 'PATCH', { name }),
+      'Category renamed',
+    );
+  };
+
+  const remove = (c: LaborCategoryRow) => {
+    if (!window.confirm(`Delete "${c.name}"? Accounts mapped to it go back to the suggestion.`)) {
+      return;
+    }
+    void run(
+      () => send(`/api/dashboard/labor/categories/${encodeURIComponent(c.id)}`, 'DELETE'),
+      'Category deleted',
+    );
+  };
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name) return;
+    void run(async () => {
+      await send('/api/dashboard/labor/categories', 'POST', { name });
+      setNewName('');
+    }, 'Category added');
+  };
+
+  return (
+    <div className="space-y-2">
+      {categories.map((c) => (
+        <div key={c.id} className="flex items-center gap-2">
+          <Input
+            className="h-8"
+            value={names[c.id] ?? c.name}
+            disabled={busy}
+            onChange={(e) => setNames((n) => ({ ...n, [c.id]: e.target.value }))}
+            onBlur={() => rename(c)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+            aria-label={`Rename ${c.name}`}
+          />
+          {c.isBuiltIn ? (
+            <Badge variant="outline" className="shrink-0">
+              Built-in
+            </Badge>
+          ) : (
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              disabled={busy}
+              onClick={() => remove(c)}
+              aria-label={`Delete ${c.name}`}
+            >
+              <Trash2 />
+            </Button>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center gap-2 pt-2">
+        <Input
+          className="h-8"
+          placeholder="New category, e.g. Training"
+          value={newName}
+          disabled={busy}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') add();
+          }}
+        />
+        <Button type="button" size="sm" disabled={busy || !newName.trim()} onClick={add}>
+          <Plus /> Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { LaborMappingData } from '../../types';
+import { bucketLaborLines, suggestLaborCategoryId } from '../../utils/classify-labor-line';
+import { LaborCategoryManager } from './LaborCategoryManager';
+
+/** Select value for "no saved mapping — use the regex suggestion". */
+const SUGGESTED = '__suggested';
+
+type LocationOption = { id: string; label: string };
+
+/**
+ * Map each QuickBooks Expense D account to a labor category for the location's realm. Edits preview
+ * against the selected month's P&L (use the month nav for past months) and are saved explicitly.
+ */
+export function LaborMappingContent({
+  data,
+  locations,
+}: {
+  data: LaborMappingData;
+  locations: LocationOption[];
+}) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<Record<string, string>>(data.mappings);
+  const [saving, setSaving] = useState(false);
+
+  const categoryName = useMemo(
+    () => new Map(data.categories.map((c) => [c.id, c.name])),
+    [data.categories],
+  );
+
+  // Accounts in this month's P&L, then saved mappings for accounts not posted this month.
+  const accounts = useMemo(() => {
+    const inMonth = new Set(data.lines.map((l) => l.name));
+    const savedOnly = Object.keys(data.mappings)
+      .filter((name) => !inMonth.has(name))
+      .sort((a, b) => a.localeCompare(b))
+      .map((name) => ({ name, amount: 0, inMonth: false }));
+    return [...data.lines.map((l) => ({ ...l, inMonth: true })), ...savedOnly];
+  }, [data.lines, data.mappings]);
+
+  const changes = useMemo(() => {
+    const names = new Set([...Object.keys(data.mappings), ...Object.keys(draft)]);
+    return [...names]
+      .filter((name) => data.mappings[name] !== draft[name])
+      .map((name) => ({ accountName: name, categoryId: draft[name] ?? null }));
+  }, [data.mappings, draft]);
+
+  const preview = useMemo(() => {
+    const saved = bucketLaborLines(data.lines, data.categories, new Map(Object.entries(data.mappings)));
+    const next = bucketLaborLines(data.lines, data.categories, new Map(Object.entries(draft)));
+    return next.map((c, i) => ({ ...c, savedAmount: saved[i]?.amount ?? 0 }));
+  }, [data.lines, data.categories, data.mappings, draft]);
+
+  const setMapping = (accountName: string, value: string) => {
+    setDraft((d) => {
+      const next = { ...d };
+      if (value === SUGGESTED) delete next[accountName];
+      else next[accountName] = value;
+      return next;
+    });
+  };
+
+  const save = async () => {
+    if (changes.length === 0) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/dashboard/labor/mapping/${encodeURIComponent(data.realmId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mappings: changes }),
+      });
+      const body = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(body.error ?? 'Save failed');
+      toast.success(`Saved ${changes.length} mapping${changes.length === 1 ? '' : 's'}`);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const navigate = (locationId: string) => {
+    router.push(
+      `/dashboard/labor/mapping?locationId=${encodeURIComponent(locationId)}&yearMonth=${data.yearMonth}`,
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold">Labor categories</h1>
+          <p className="text-sm text-muted-foreground">
+            Mappings apply to every location in {data.realmName}. Unmapped accounts use the
+            suggested category.
+          </p>
+        </div>
+        <Select value={data.locationId} onValueChange={navigate}>
+          <SelectTrigger className="h-9 w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {locations.map((l) => (
+              <SelectItem key={l.id} value={l.id}>
+                {l.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,22rem)] lg:items-start">
+        <Card className="min-w-0">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-bold">QuickBooks accounts · {data.yearMonth}</CardTitle>
+            <CardAction>
+              <Button size="sm" disabled={saving || changes.length === 0} onClick={save}>
+                {changes.length > 0 ? `Save ${changes.length} change${changes.length === 1 ? '' : 's'}` : 'Saved'}
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent className="space-y-1 pt-0">
+            {data.error && <p className="text-sm text-destructive">{data.error}</p>}
+            {accounts.length === 0 && !data.error && (
+              <p className="text-sm text-muted-foreground">No labor lines this month.</p>
+            )}
+            {accounts.map((a) => {
+              const suggested = suggestLaborCategoryId(a.name);
+              const value = draft[a.name] ?? SUGGESTED;
+              return (
+                <div
+                  key={a.name}
+                  className={cn(
+                    'flex items-center gap-3 border-b border-border/60 py-1.5 last:border-b-0',
+                    !a.inMonth && 'text-muted-foreground',
+                  )}
+                >
+                  <span className="min-w-0 flex-1 truncate text-sm" title={a.name}>
+                    {a.name}
+                  </span>
+                  <span className="w-24 text-right text-sm tabular-nums">
+                    {a.inMonth ? formatCurrency(a.amount) : 'Not this month'}
+                  </span>
+                  <Select value={value} onValueChange={(v) => setMapping(a.name, v)}>
+                    <SelectTrigger className="h-8 w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SUGGESTED}>
+                        Suggested: {categoryName.get(suggested) ?? suggested}
+                      </SelectItem>
+                      {data.categories.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Badge variant={value === SUGGESTED ? 'gray' : 'blue'} className="w-16 justify-center">
+                    {value === SUGGESTED ? 'Regex' : 'Mapped'}
+                  </Badge>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <div className="flex min-w-0 flex-col gap-4">
+          <Card className="min-w-0">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-bold">Preview</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 text-sm">
+              <div className="flex items-center gap-3 pb-1 text-xs text-muted-foreground">
+                <span className="flex-1">Category</span>
+                <span className="w-24 text-right">Saved</span>
+                <span className="w-24 text-right">With edits</span>
+              </div>
+              {preview.map((c) => {
+                const changed = Math.abs(c.amount - c.savedAmount) >= 0.005;
+                return (
+                  <div key={c.id} className="flex items-center gap-3 border-t py-1.5">
+                    <span className="min-w-0 flex-1 truncate">{c.name}</span>
+                    <span className="w-24 text-right tabular-nums text-muted-foreground">
+                      {formatCurrency(c.savedAmount)}
+                    </span>
+                    <span className={cn('w-24 text-right tabular-nums', changed && 'font-semibold')}>
+                      {formatCurrency(c.amount)}
+                    </span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+          <Card className="min-w-0">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-bold">Categories</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <LaborCategoryManager
+                key={data.categories.map((c) => `${c.id}:${c.name}`).join('|')}
+                categories={data.categories}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { type ColumnDef } from '@tanstack/react-table';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DataTable } from '@/components/ui/data-table';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatCurrency } from '@/lib/utils';
+import type { LaborStaffingData, StaffingShiftReview } from '../../types';
+import {
+  STAFFING_WEEK_OPTIONS,
+  buildStaffingCells,
+  reviewShifts,
+} from '../../utils/compute-staffing';
+import { parseRosterCsv, type RosterCsvShift } from '../../utils/parse-roster-csv';
+import { StaffingHeatmap } from './StaffingHeatmap';
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+type DraftShift = RosterCsvShift & { key: string };
+
+type LocationOption = { id: string; label: string };
+
+function toDraft(shift: RosterCsvShift, key: string): DraftShift {
+  return { ...shift, key };
+}
+
+const STATUS_BADGE: Record<
+  StaffingShiftReview['status'],
+  { label: string; variant: 'red' | 'amber' | 'green' }
+> = {
+  over: { label: 'Overstaffed', variant: 'red' },
+  under: { label: 'Understaffed', variant: 'amber' },
+  ok: { label: 'On target', variant: 'green' },
+};
+
+const reviewColumns: ColumnDef<StaffingShiftReview>[] = [
+  {
+    accessorKey: 'dayOfWeek',
+    header: 'Day',
+    cell: ({ row }) => DAY_NAMES[row.original.dayOfWeek],
+  },
+  {
+    id: 'time',
+    header: 'Shift',
+    cell: ({ row }) => `${row.original.startTime}–${row.original.endTime}`,
+  },
+  { accessorKey: 'label', header: 'Label', cell: ({ row }) => row.original.label ?? '—' },
+  { accessorKey: 'headcount', header: 'Staff' },
+  {
+    accessorKey: 'staffHours',
+    header: 'Staff-hrs',
+    cell: ({ row }) => row.original.staffHours.toFixed(1),
+  },
+  {
+    accessorKey: 'recommendedHours',
+    header: 'Recommended',
+    cell: ({ row }) => row.original.recommendedHours.toFixed(1),
+  },
+  {
+    accessorKey: 'salesCovered',
+    header: 'Avg sales',
+    cell: ({ row }) => formatCurrency(row.original.salesCovered),
+  },
+  {
+    accessorKey: 'laborPercent',
+    header: 'Labor %',
+    cell: ({ row }) =>
+      row.original.laborPercent == null
+        ? '—'
+        : `${(row.original.laborPercent * 100).toFixed(1)}%`,
+  },
+  {
+    accessorKey: 'status',
+    header: 'Status',
+    cell: ({ row }) => {
+      const badge = STATUS_BADGE[row.original.status];
+      return <Badge variant={badge.variant}>{badge.label}</Badge>;
+    },
+  },
+];
+
+/**
+ * Labor dashboard staffing view. Location and history length live in the URL; roster and wage
+ * edits preview immediately and are saved explicitly.
+ */
+export function LaborStaffingContent({
+  data,
+  locations,
+}: {
+  data: LaborStaffingData;
+  /** Omitted for managers, who only see their own location. */
+  locations?: LocationOption[];
+}) {
+  const router = useRouter();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [wage, setWage] = useState(String(data.hourlyWage));
+  const [draft, setDraft] = useState<DraftShift[]>(() =>
+    data.shifts.map((s) => toDraft(s, s.id)),
+  );
+  const [dirty, setDirty] = useState(false);
+  const [savingWage, setSavingWage] = useState(false);
+  const [savingRoster, setSavingRoster] = useState(false);
+
+  const wageValue = Number(wage);
+  const previewWage = wageValue > 0 ? wageValue : data.hourlyWage;
+
+  const { cells, shifts } = useMemo(() => {
+    const roster = draft.map((s) => ({ ...s, id: s.key }));
+    const valid = roster.filter((s) => s.startTime && s.endTime && s.endTime > s.startTime);
+    const nextCells = buildStaffingCells(data.cells, valid, data.laborRate, previewWage);
+    return { cells: nextCells, shifts: reviewShifts(nextCells, valid, previewWage) };
+  }, [data.cells, data.laborRate, draft, previewWage]);
+
+  const overCount = shifts.filter((s) => s.status === 'over').length;
+
+  const navigate = (locationId: string, weeks: number) => {
+    router.push(`/dashboard/labor?locationId=${encodeURIComponent(locationId)}&weeks=${weeks}`);
+  };
+
+  const updateShift = (key: string, patch: Partial<RosterCsvShift>) => {
+    setDraft((rows) => rows.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+    setDirty(true);
+  };
+
+  const addShift = () => {
+    setDraft((rows) => [
+      ...rows,
+      toDraft(
+        { dayOfWeek: 0, startTime: '09:00', endTime: '17:00', headcount: 1, label: null },
+        crypto.randomUUID(),
+      ),
+    ]);
+    setDirty(true);
+  };
+
+  const removeShift = (key: string) => {
+    setDraft((rows) => rows.filter((r) => r.key !== key));
+    setDirty(true);
+  };
+
+  const handleCsv = async (file: File) => {
+    const { shifts: parsed, errors } = parseRosterCsv(await file.text());
+    if (fileRef.current) fileRef.current.value = '';
+    if (errors.length > 0) {
+      toast.error(errors.slice(0, 3).join('\n'));
+      return;
+    }
+    if (parsed.length === 0) {
+      toast.error('No shifts found in the CSV');
+      return;
+    }
+    setDraft(parsed.map((s) => toDraft(s, crypto.randomUUID())));
+    setDirty(true);
+    toast.success(`Loaded ${parsed.length} shift(s) — review and save`);
+  };
+
+  const saveWage = async () => {
+    if (!(wageValue > 0)) {
+      toast.error('Enter a positive hourly wage');
+      return;
+    }
+    setSavingWage(true);
+    try {
+      const res = await fetch(`/api/dashboard/labor/staffing/${data.locationId}/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hourlyWage: wageValue }),
+      });
+      const j = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        toast.error(j.error ?? 'Save failed');
+        return;
+      }
+      toast.success('Hourly wage saved');
+      router.refresh();
+    } finally {
+      setSavingWage(false);
+    }
+  };
+
+  const saveRoster = async () => {
+    setSavingRoster(true);
+    try {
+      const res = await fetch(`/api/dashboard/labor/staffing/${data.locationId}/roster`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          shifts: draft.map((s) => ({
+            dayOfWeek: s.dayOfWeek,
+            startTime: s.startTime,
+            endTime: s.endTime,
+            headcount: s.headcount,
+            label: s.label,
+          })),
+        }),
+      });
+      const j = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        toast.error(j.error ?? 'Save failed');
+        return;
+      }
+      toast.success('Roster saved');
+      setDirty(false);
+      router.refresh();
+    } finally {
+      setSavingRoster(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Labor staffing</h1>
+          <p className="text-sm text-muted-foreground">
+            Average hourly net sales {data.from} – {data.to} ({data.weeks} weeks)
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          {locations && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Location</p>
+              <Select
+                value={data.locationId}
+                onValueChange={(id) => navigate(id, data.weeks)}
+              >
+                <SelectTrigger className="h-9 w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((l) => (
+                    <SelectItem key={l.id} value={l.id}>
+                      {l.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">History</p>
+            <Select
+              value={String(data.weeks)}
+              onValueChange={(w) => navigate(data.locationId, Number(w))}
+            >
+              <SelectTrigger className="h-9 w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STAFFING_WEEK_OPTIONS.map((w) => (
+                  <SelectItem key={w} value={String(w)}>
+                    {w} weeks
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Hourly wage ($)</p>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                className="h-9 w-[100px]"
+                value={wage}
+                onChange={(e) => setWage(e.target.value)}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-9"
+                disabled={savingWage || wageValue === data.hourlyWage}
+                onClick={saveWage}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Recommended staff per hour = average net sales × labor target{' '}
+        {(data.laborRate * 100).toFixed(1)}%
+        {data.laborRateFromTarget ? '' : ' (default — no labor target this month)'} ÷{' '}
+        {formatCurrency(previewWage)}/hr
+        {data.hourlyWageIsDefault ? ' (default wage)' : ''}.
+      </p>
+
+      {data.cloverNotConfigured && (
+        <p className="text-sm text-amber-700">
+          Clover is not configured for this location, so there are no sales to staff against.
+        </p>
+      )}
+      {data.cloverError && <p className="text-sm text-destructive">{data.cloverError}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Sales &amp; staffing by hour</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <StaffingHeatmap cells={cells} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">Weekly roster</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleCsv(file);
+              }}
+            />
+            <Button size="sm" variant="outline" onClick={() => fileRef.current?.click()}>
+              <Upload className="size-4" />
+              Upload CSV
+            </Button>
+            <Button size="sm" variant="outline" onClick={addShift}>
+              <Plus className="size-4" />
+              Add shift
+            </Button>
+            <Button size="sm" disabled={!dirty || savingRoster} onClick={saveRoster}>
+              {savingRoster ? 'Saving…' : 'Save roster'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            CSV columns: day, start, end, headcount, label — e.g.{' '}
+            <code>Mon,07:00,15:00,2,Open</code>. Uploading replaces the rows below.
+          </p>
+          {draft.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shifts on the roster yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {draft.map((s) => (
+                <div key={s.key} className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={String(s.dayOfWeek)}
+                    onValueChange={(v) => updateShift(s.key, { dayOfWeek: Number(v) })}
+                  >
+                    <SelectTrigger className="h-8 w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAY_NAMES.map((d, i) => (
+                        <SelectItem key={d} value={String(i)}>
+                          {d}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="time"
+                    className="h-8 w-[120px]"
+                    value={s.startTime}
+                    onChange={(e) => updateShift(s.key, { startTime: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    className="h-8 w-[120px]"
+                    value={s.endTime}
+                    onChange={(e) => updateShift(s.key, { endTime: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-8 w-[70px]"
+                    value={s.headcount}
+                    onChange={(e) =>
+                      updateShift(s.key, { headcount: Math.max(1, Number(e.target.value) || 1) })
+                    }
+                  />
+                  <Input
+                    className="h-8 w-[160px]"
+                    placeholder="Label"
+                    value={s.label ?? ''}
+                    onChange={(e) => updateShift(s.key, { label: e.target.value || null })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="size-8"
+                    aria-label="Remove shift"
+                    onClick={() => removeShift(s.key)}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        <h2 className="font-medium">
+          Shifts vs recommendation
+          {overCount > 0 && (
+            <span className="ml-2 text-sm font-normal text-red-600">
+              {overCount} overstaffed
+            </span>
+          )}
+        </h2>
+        <DataTable<StaffingShiftReview>
+          columns={reviewColumns}
+          data={shifts}
+          isFetching={false}
+        />
+      </div>
+    </div>
+  );
+}
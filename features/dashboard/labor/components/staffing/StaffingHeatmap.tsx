@@ -0,0 +1,98 @@
+'use client';
+
+import { cn, formatCurrency } from '@/lib/utils';
+import type { StaffingHourCell } from '../../types';
+
+const DAY_LABELS = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'] as const;
+
+/** Shown even when a location has no sales or shifts outside it. */
+const DEFAULT_HOUR_START = 6;
+const DEFAULT_HOUR_END = 22;
+
+/** Staff difference (people) before a cell is outlined as over/under. */
+const CELL_SLACK = 0.5;
+
+/** Emerald-500 heat scale, matching the revenue hourly heatmap. */
+function heatFill(intensity: number): string {
+  if (intensity <= 0) return 'transparent';
+  const alpha = (0.08 + intensity * 0.7).toFixed(3);
+  return `rgba(16,185,129,${alpha})`;
+}
+
+function fmtHour(h: number): string {
+  return `${String(h).padStart(2, '0')}:00`;
+}
+
+function fmtStaff(n: number): string {
+  return n < 0.05 ? '0' : n.toFixed(1);
+}
+
+/**
+ * Weekday × hour grid: shading is average net sales; each cell shows recommended staff over
+ * rostered staff, outlined red where the roster runs over and amber where it runs short.
+ */
+export function StaffingHeatmap({ cells }: { cells: StaffingHourCell[] }) {
+  const hoursWithData = cells.map((c) => c.hour);
+  const hourStart = Math.min(DEFAULT_HOUR_START, ...hoursWithData);
+  const hourEnd = Math.max(DEFAULT_HOUR_END, ...hoursWithData);
+  const hours = Array.from({ length: hourEnd - hourStart + 1 }, (_, i) => i + hourStart);
+
+  const byKey = new Map(cells.map((c) => [`${c.dow}:${c.hour}`, c]));
+  const maxSales = Math.max(0, ...cells.map((c) => c.avgNetSales));
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-0.5 text-[11px] tabular-nums">
+          <thead>
+            <tr>
+              <th className="w-10" />
+              {hours.map((h) => (
+                <th key={h} className="px-0.5 font-normal text-muted-foreground">
+                  {String(h).padStart(2, '0')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {DAY_LABELS.map((label, dow) => (
+              <tr key={label}>
+                <th className="pr-1 text-left font-medium text-muted-foreground">{label}</th>
+                {hours.map((h) => {
+                  const cell = byKey.get(`${dow}:${h}`);
+                  if (!cell) {
+                    return <td key={h} className="h-10 min-w-11 rounded bg-muted/30" />;
+                  }
+                  const diff = cell.scheduledStaff - cell.recommendedStaff;
+                  return (
+                    <td
+                      key={h}
+                      title={`${label} ${fmtHour(h)}–${fmtHour(h + 1)}\nAvg net sales ${formatCurrency(cell.avgNetSales)}\nRecommended ${cell.recommendedStaff.toFixed(2)} · Rostered ${cell.scheduledStaff.toFixed(2)}`}
+                      className={cn(
+                        'h-10 min-w-11 rounded text-center leading-tight',
+                        diff > CELL_SLACK && 'ring-2 ring-inset ring-red-500',
+                        diff < -CELL_SLACK && 'ring-2 ring-inset ring-amber-500',
+                      )}
+                      style={{
+                        backgroundColor: heatFill(maxSales > 0 ? cell.avgNetSales / maxSales : 0),
+                      }}
+                    >
+                      <div className="font-medium">{fmtStaff(cell.recommendedStaff)}</div>
+                      <div className="text-muted-foreground">{fmtStaff(cell.scheduledStaff)}</div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each cell: recommended staff (top) / rostered staff (bottom). Shading = average net
+        sales.{' '}
+        <span className="text-red-600">Red outline</span> = more rostered than recommended;{' '}
+        <span className="text-amber-600">amber</span> = fewer.
+      </p>
+    </div>
+  );
+}
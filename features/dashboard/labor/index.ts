@@ -1,8 +1,18 @@
 export { getLaborDashboardData } from './utils/get-labor-data';
 export {
   LABOR_CATEGORY_DEF,
+  OTHERS_LABOR_CATEGORY_ID,
+  bucketLaborLines,
   classifyExpenseDLineToLaborIndex,
-} from './utils/get-labor-data';
+  resolveLaborCategoryId,
+  suggestLaborCategoryId,
+} from './utils/classify-labor-line';
+export {
+  getLaborAccountMappings,
+  getLaborCategories,
+  getLaborCategoryMappingForLocation,
+} from './utils/labor-category-repository';
+export { getLaborMappingData } from './utils/get-labor-mapping';
 export {
   getLaborTargetByLocationAndMonth,
   upsertLaborTarget,
@@ -15,8 +25,25 @@ export {
   type LaborTargetRateInput,
   type LaborTargetResolveInput,
 } from './utils/compute-labor-target';
+export {
+  getLaborShifts,
+  getLaborStaffingData,
+} from './utils/get-labor-staffing';
+export {
+  DEFAULT_STAFFING_HOURLY_WAGE,
+  DEFAULT_STAFFING_WEEKS,
+  STAFFING_WEEK_OPTIONS,
+  buildStaffingCells,
+  reviewShifts,
+} from './utils/compute-staffing';
 export type {
   LaborCategoryItem,
+  LaborCategoryRow,
   LaborDashboardData,
   LaborLineDetail,
+  LaborMappingData,
+  LaborShiftRow,
+  LaborStaffingData,
+  StaffingHourCell,
+  StaffingShiftReview,
 } from './types';
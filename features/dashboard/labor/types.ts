@@ -13,6 +13,29 @@ export type LaborCategoryItem = {
   lines?: LaborLineDetail[];
 };
 
+/** Row of `labor_categories`; built-ins cannot be deleted. */
+export type LaborCategoryRow = {
+  id: string;
+  name: string;
+  sortOrder: number;
+  isBuiltIn: boolean;
+};
+
+/** Mapping editor: one location's Expense D lines for a month, and its realm's saved mappings. */
+export type LaborMappingData = {
+  locationId: string;
+  realmId: string;
+  realmName: string;
+  yearMonth: string;
+  /** Leaf accounts for the month, merged by name, largest first. */
+  lines: LaborLineDetail[];
+  categories: LaborCategoryRow[];
+  /** Saved account name → category id for the realm. */
+  mappings: Record<string, string>;
+  /** Set when the month's P&L could not be read; mappings can still be edited. */
+  error?: string;
+};
+
 export type LaborDashboardData = {
   totalLabor: number;
   /** Target = rate × (reference income ÷ ref months); labor rate/ref when set, else cost budget. */
@@ -22,3 +45,57 @@ export type LaborDashboardData = {
   referenceIncomeTotal: number | null;
   categories: LaborCategoryItem[];
 };
+
+/** One recurring weekly shift on a location's roster. */
+export type LaborShiftRow = {
+  id: string;
+  /** Mon=0 … Sun=6 */
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  headcount: number;
+  label: string | null;
+};
+
+/** Weekday × hour cell of the staffing heatmap. */
+export type StaffingHourCell = {
+  /** Mon=0 … Sun=6 */
+  dow: number;
+  hour: number;
+  avgNetSales: number;
+  /** Staff the labor target pays for this hour: avg net sales × rate ÷ hourly wage. */
+  recommendedStaff: number;
+  /** Rostered headcount during this hour (partial hours pro-rated). */
+  scheduledStaff: number;
+};
+
+export type StaffingShiftStatus = 'over' | 'under' | 'ok';
+
+export type StaffingShiftReview = LaborShiftRow & {
+  staffHours: number;
+  /** Recommended staff-hours over the shift, split with overlapping shifts by headcount. */
+  recommendedHours: number;
+  /** Average net sales attributed to the shift (same split). */
+  salesCovered: number;
+  laborCost: number;
+  /** laborCost ÷ salesCovered; null when the shift covers no sales. */
+  laborPercent: number | null;
+  status: StaffingShiftStatus;
+};
+
+export type LaborStaffingData = {
+  locationId: string;
+  weeks: number;
+  /** Sales history used, `YYYY-MM-DD` inclusive. */
+  from: string;
+  to: string;
+  laborRate: number;
+  /** False when no labor target is set for the month and the default rate is used. */
+  laborRateFromTarget: boolean;
+  hourlyWage: number;
+  hourlyWageIsDefault: boolean;
+  cells: StaffingHourCell[];
+  shifts: StaffingShiftReview[];
+  cloverNotConfigured?: boolean;
+  cloverError?: string;
+};
@@ -0,0 +1,107 @@
+/**
+ * Expense D account → labor category. Saved per-realm mappings win; otherwise the account name
+ * regex below suggests one of the five built-in categories.
+ * No server imports: the mapping page previews with these on the client.
+ */
+
+import type { LaborCategoryItem, LaborLineDetail } from '../types';
+
+/** Built-in categories (seeded in `labor_categories`). Indices must match classifyExpenseDLineToLaborIndex. */
+export const LABOR_CATEGORY_DEF = [
+  { id: 'management-fee', name: 'Management Fee' },
+  { id: 'health-benefits', name: 'Health Benefits' },
+  { id: 'tax', name: 'Tax' },
+  { id: 'wage', name: 'Wage' },
+  { id: 'others', name: 'Others' },
+] as const;
+
+/**
+ * Map a P&L labor line (account name) into one of five categories (0–4).
+ * Order: management → tax → health → wage (explicit) → others (remainder).
+ */
+export function classifyExpenseDLineToLaborIndex(name: string): number {
+  const n = name.toLowerCase();
+  // 0 — Management Fee
+  if (
+    /management|mgmt\s*fee|^m\/e\b|admin\s*fee|\bmanagers?\b|wage\s*\d*-\s*manager|wages-\s*manager/i.test(
+      n,
+    )
+  )
+    return 0;
+  // 2 — Tax (before health: EI/CPP vs benefit insurance)
+  if (
+    /\btax\b|\btaxes\b|payroll\s*taxes?|fica|suta|futa|withhold|federal\s+with|state\s+with|\bwcb\b|\beht\b|cpp\b|\bei\b|employment\s+insurance|ei\s*contrib|e\s*&\s*e\b/i.test(
+      n,
+    )
+  )
+    return 2;
+  // 1 — Health (benefit / medical; no bare "insurance" so e.g. Group Insurance → remainder)
+  if (
+    /health|benefit|401|medical|dental|vision|hmo|welfare|pto\s*acc/i.test(n)
+  )
+    return 1;
+  // 3 — Wage (typical payroll / hourly; subcontract in path e.g. "D - Subcontractors / …")
+  if (
+    /\bwages?\b|barista|kitchen|staffs|subcontract|salary|hourly|payroll\s*expense|l\d+\s*-\s*|hq\s+barista|main\s+staffs|staff(?!\s+training)|labor|compensation|overtime|commission|tips\b|bonus(?!\s*pool)|\bpayroll\b(?!\s*tax)/i.test(
+      n,
+    )
+  )
+    return 3;
+  // 4 — Others: anything that did not match the four rules above
+  return 4;
+}
+
+/** Built-in category id the regex suggests for an account name. */
+export function suggestLaborCategoryId(name: string): string {
+  return LABOR_CATEGORY_DEF[classifyExpenseDLineToLaborIndex(name)].id;
+}
+
+export const OTHERS_LABOR_CATEGORY_ID = 'others';
+
+/** Saved mapping for the account when its category still exists, else the regex suggestion. */
+export function resolveLaborCategoryId(
+  name: string,
+  mappings: ReadonlyMap<string, string>,
+  categoryIds: ReadonlySet<string>,
+): string {
+  const mapped = mappings.get(name);
+  if (mapped && categoryIds.has(mapped)) return mapped;
+  const suggested = suggestLaborCategoryId(name);
+  return categoryIds.has(suggested) ? suggested : OTHERS_LABOR_CATEGORY_ID;
+}
+
+/** Merge duplicate QB names (same leaf label repeated) and sort by amount desc. */
+export function mergeLaborLines(
+  rows: LaborLineDetail[],
+): LaborLineDetail[] {
+  const m = new Map<string, number>();
+  for (const { name, amount } of rows) {
+    m.set(name, (m.get(name) ?? 0) + amount);
+  }
+  return Array.from(m.entries())
+    .map(([name, amount]) => ({ name, amount }))
+    .sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name));
+}
+
+/** Roll Expense D lines into `categories` (display order kept, empty ones included). */
+export function bucketLaborLines(
+  lines: LaborLineDetail[],
+  categories: { id: string; name: string }[],
+  mappings: ReadonlyMap<string, string>,
+): LaborCategoryItem[] {
+  const categoryIds = new Set(categories.map((c) => c.id));
+  const buckets = new Map<string, LaborLineDetail[]>(categories.map((c) => [c.id, []]));
+  for (const line of lines) {
+    const id = resolveLaborCategoryId(line.name, mappings, categoryIds);
+    buckets.get(id)?.push({ name: line.name, amount: line.amount });
+  }
+  return categories.map((c) => {
+    const rows = buckets.get(c.id) ?? [];
+    return {
+      id: c.id,
+      name: c.name,
+      amount: rows.reduce((s, r) => s + r.amount, 0),
+      lines: rows.length > 0 ? mergeLaborLines(rows) : undefined,
+    };
+  });
+}
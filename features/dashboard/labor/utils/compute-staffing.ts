@@ -0,0 +1,126 @@
+import type {
+  LaborShiftRow,
+  StaffingHourCell,
+  StaffingShiftReview,
+  StaffingShiftStatus,
+} from '../types';
+
+/** Used until a location saves its own wage (BC minimum wage, $/hr). */
+export const DEFAULT_STAFFING_HOURLY_WAGE = 18.3;
+export const STAFFING_WEEK_OPTIONS = [4, 8, 12] as const;
+export const DEFAULT_STAFFING_WEEKS = 8;
+
+/** Shifts within this share (or half a staff-hour) of the recommendation are not flagged. */
+const SHIFT_TOLERANCE = 0.15;
+const SHIFT_SLACK_HOURS = 0.5;
+
+export type HourlySalesAverage = {
+  /** Mon=0 … Sun=6 */
+  dow: number;
+  hour: number;
+  avgNetSales: number;
+};
+
+function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** Hours of the shift that fall inside clock hour `hour`. */
+function overlapHours(shift: Pick<LaborShiftRow, 'startTime' | 'endTime'>, hour: number): number {
+  const start = Math.max(minutesOf(shift.startTime), hour * 60);
+  const end = Math.min(minutesOf(shift.endTime), (hour + 1) * 60);
+  return end > start ? (end - start) / 60 : 0;
+}
+
+function emptyGrid(): number[][] {
+  return Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+}
+
+/** Rostered headcount per [dow][hour], partial hours pro-rated. */
+export function scheduledStaffGrid(shifts: LaborShiftRow[]): number[][] {
+  const grid = emptyGrid();
+  for (const s of shifts) {
+    for (let hour = 0; hour < 24; hour++) {
+      grid[s.dayOfWeek][hour] += overlapHours(s, hour) * s.headcount;
+    }
+  }
+  return grid;
+}
+
+/**
+ * Heatmap cells for every weekday × hour with sales or rostered staff. Recommended staff is the
+ * labor budget for the hour (avg net sales × rate) expressed in people at `hourlyWage`.
+ */
+export function buildStaffingCells(
+  hourlySales: HourlySalesAverage[],
+  shifts: LaborShiftRow[],
+  laborRate: number,
+  hourlyWage: number,
+): StaffingHourCell[] {
+  const sales = emptyGrid();
+  for (const h of hourlySales) sales[h.dow][h.hour] = h.avgNetSales;
+  const scheduled = scheduledStaffGrid(shifts);
+
+  const cells: StaffingHourCell[] = [];
+  for (let dow = 0; dow < 7; dow++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const avgNetSales = sales[dow][hour];
+      const scheduledStaff = scheduled[dow][hour];
+      if (avgNetSales <= 0 && scheduledStaff <= 0) continue;
+      cells.push({
+        dow,
+        hour,
+        avgNetSales,
+        recommendedStaff: hourlyWage > 0 ? (avgNetSales * laborRate) / hourlyWage : 0,
+        scheduledStaff,
+      });
+    }
+  }
+  return cells;
+}
+
+function shiftStatus(staffHours: number, recommendedHours: number): StaffingShiftStatus {
+  const slack = Math.max(recommendedHours * SHIFT_TOLERANCE, SHIFT_SLACK_HOURS);
+  if (staffHours > recommendedHours + slack) return 'over';
+  if (staffHours < recommendedHours - slack) return 'under';
+  return 'ok';
+}
+
+/**
+ * Per-shift comparison against the recommendation. Where shifts overlap, each hour's sales and
+ * recommended staff are split between them by rostered headcount.
+ */
+export function reviewShifts(
+  cells: StaffingHourCell[],
+  shifts: LaborShiftRow[],
+  hourlyWage: number,
+): StaffingShiftReview[] {
+  const byKey = new Map(cells.map((c) => [`${c.dow}:${c.hour}`, c]));
+
+  return shifts.map((shift) => {
+    let staffHours = 0;
+    let recommendedHours = 0;
+    let salesCovered = 0;
+    for (let hour = 0; hour < 24; hour++) {
+      const hours = overlapHours(shift, hour) * shift.headcount;
+      if (hours <= 0) continue;
+      staffHours += hours;
+      const cell = byKey.get(`${shift.dayOfWeek}:${hour}`);
+      if (!cell || cell.scheduledStaff <= 0) continue;
+      const share = hours / cell.scheduledStaff;
+      recommendedHours += cell.recommendedStaff * share;
+      salesCovered += cell.avgNetSales * share;
+    }
+    const laborCost = staffHours * hourlyWage;
+    return {
+      ...shift,
+      staffHours,
+      recommendedHours,
+      salesCovered,
+      laborCost,
+      laborPercent: salesCovered > 0 ? laborCost / salesCovered : null,
+      status: shiftStatus(staffHours, recommendedHours),
+    };
+  });
+}
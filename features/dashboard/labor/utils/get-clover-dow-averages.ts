@@ -1,14 +1,13 @@
 /**
  * Compute per-day-of-week average Clover net sales for the previous calendar month.
  * Used by LaborTimeNeeded to estimate available hourly labor budget per weekday.
+ * Reads the local Clover sales warehouse.
  */
 
-import { fetchCloverPaymentsInRange } from '@/lib/clover/fetch-payments';
-import { cloverPaymentNetSalesCents } from '@/lib/clover/payment-net-sales';
 import {
-  getCloverReportTimeZone,
-  zonedCalendarDay,
-} from '@/lib/clover/report-timezone';
+  getCloverSalesCoverage,
+  loadCloverDailyNetSalesCents,
+} from '@/lib/clover/sales-store';
 import { prisma } from '@/lib/core/prisma';
 import { endOfMonth, format, getDay, parseISO, startOfMonth, subMonths } from 'date-fns';
 
@@ -57,33 +56,25 @@ export async function getCloverDowAverages(
     return { dowAverages: [], refYearMonth, cloverNotConfigured: true };
   }
 
-  const startMs = prevMonthStart.getTime();
-  // Extend end by 24h to cover the full last day in Vancouver time (UTC-7/8).
-  const endMs = prevMonthEnd.getTime() + 24 * 3600 * 1000;
-
   const rangeStartStr = format(prevMonthStart, 'yyyy-MM-dd');
   const rangeEndStr = format(prevMonthEnd, 'yyyy-MM-dd');
 
   try {
-    const payments = await fetchCloverPaymentsInRange(
-      merchantId,
-      token,
-      startMs,
-      endMs,
-    );
-    const tz = getCloverReportTimeZone();
-
-    // Accumulate net sales per calendar date (local Vancouver time).
-    const dailyNetSales = new Map<string, number>();
-    for (const p of payments) {
-      if (p.createdTime == null) continue;
-      const dk = zonedCalendarDay(p.createdTime, tz);
-      if (dk < rangeStartStr || dk > rangeEndStr) continue;
-      dailyNetSales.set(
-        dk,
-        (dailyNetSales.get(dk) ?? 0) + cloverPaymentNetSalesCents(p) / 100,
-      );
+    if (!(await getCloverSalesCoverage(locationId))) {
+      return {
+        dowAverages: [],
+        refYearMonth,
+        cloverError: 'Clover sales have not been synced yet',
+      };
     }
+    const dailyCents = await loadCloverDailyNetSalesCents(
+      locationId,
+      rangeStartStr,
+      rangeEndStr,
+    );
+    const dailyNetSales = new Map(
+      [...dailyCents].map(([date, cents]) => [date, cents / 100] as const),
+    );
 
     // Group by Mon-based DOW.
     // JS getDay(): 0=Sun,1=Mon,...,6=Sat → Mon-based: Mon=0,...,Sun=6
@@ -108,7 +99,7 @@ export async function getCloverDowAverages(
     return {
       dowAverages: [],
       refYearMonth,
-      cloverError: err instanceof Error ? err.message : 'Clover API error',
+      cloverError: err instanceof Error ? err.message : 'Database error',
     };
   }
 }
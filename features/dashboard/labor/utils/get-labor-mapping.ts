@@ -0,0 +1,64 @@
+import type { QuickBooksApiContext } from '@/features/dashboard/budget';
+import { referenceCurrentMonthRange } from '@/features/dashboard/budget';
+import { AppError, GENERIC_ERROR_MESSAGE } from '@/lib/core/errors';
+import { prisma } from '@/lib/core/prisma';
+import { fetchPnlReport } from '@/lib/quickbooks/client';
+import { parseExpenseDLineItemsFromReportRows } from '@/lib/quickbooks/parser';
+import { mergeLaborLines } from './classify-labor-line';
+import { getLaborAccountMappings, getLaborCategories } from './labor-category-repository';
+import type { LaborLineDetail, LaborMappingData } from '../types';
+
+/**
+ * Data for the labor mapping editor. A QuickBooks failure only empties `lines` (with `error`), so
+ * categories and saved mappings stay editable.
+ */
+export async function getLaborMappingData(
+  locationId: string,
+  yearMonth: string,
+  context: QuickBooksApiContext,
+): Promise<LaborMappingData | null> {
+  const location = await prisma.location.findUnique({
+    where: { id: locationId },
+    select: { realmId: true, realm: { select: { name: true } } },
+  });
+  if (!location) return null;
+
+  const [categories, mappings] = await Promise.all([
+    getLaborCategories(),
+    getLaborAccountMappings(location.realmId),
+  ]);
+
+  let lines: LaborLineDetail[] = [];
+  let error: string | undefined;
+  try {
+    const { startDate, endDate } = referenceCurrentMonthRange(yearMonth);
+    const { report } = await fetchPnlReport(
+      context.baseUrl,
+      context.cookie,
+      locationId,
+      startDate,
+      endDate,
+      'Accrual',
+    );
+    lines = mergeLaborLines(
+      parseExpenseDLineItemsFromReportRows(report?.Rows).map((l) => ({
+        name: l.name,
+        amount: l.amount,
+      })),
+    );
+  } catch (e) {
+    console.error(e);
+    error = e instanceof AppError ? e.message : GENERIC_ERROR_MESSAGE;
+  }
+
+  return {
+    locationId,
+    realmId: location.realmId,
+    realmName: location.realm.name,
+    yearMonth,
+    lines,
+    categories,
+    mappings: Object.fromEntries(mappings),
+    ...(error ? { error } : {}),
+  };
+}
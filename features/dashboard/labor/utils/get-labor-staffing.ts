@@ -0,0 +1,103 @@
+/**
+ * Staffing view for the labor dashboard: average net sales per weekday × hour over the last few
+ * weeks (Clover sales warehouse), the staff that the labor target pays for in each hour, and how the
+ * location's weekly roster compares.
+ */
+
+import {
+  getCloverSalesCoverage,
+  loadCloverWeekdayHourNetSales,
+} from '@/lib/clover/sales-store';
+import { getCloverReportTimeZone, zonedCalendarDay } from '@/lib/clover/report-timezone';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd, getCurrentYearMonth } from '@/lib/utils';
+import type { LaborShiftRow, LaborStaffingData } from '../types';
+import { DEFAULT_LABOR_RATE } from './compute-labor-target';
+import {
+  DEFAULT_STAFFING_HOURLY_WAGE,
+  buildStaffingCells,
+  reviewShifts,
+  type HourlySalesAverage,
+} from './compute-staffing';
+import { getLaborTargetByLocationAndMonth } from './labor-target-repository';
+
+export async function getLaborShifts(locationId: string): Promise<LaborShiftRow[]> {
+  return prisma.laborShift.findMany({
+    where: { locationId },
+    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }, { createdAt: 'asc' }],
+    select: {
+      id: true,
+      dayOfWeek: true,
+      startTime: true,
+      endTime: true,
+      headcount: true,
+      label: true,
+    },
+  });
+}
+
+/** Sales history is the `weeks` full weeks of days ending yesterday (Clover report timezone). */
+export async function getLaborStaffingData(
+  locationId: string,
+  weeks: number,
+): Promise<LaborStaffingData> {
+  const today = zonedCalendarDay(Date.now(), getCloverReportTimeZone());
+  const to = addDaysYmd(today, -1);
+  const from = addDaysYmd(to, -(weeks * 7 - 1));
+
+  const [location, laborTarget, settings, shifts] = await Promise.all([
+    prisma.location.findUnique({
+      where: { id: locationId },
+      select: { cloverToken: true, cloverMerchantId: true },
+    }),
+    getLaborTargetByLocationAndMonth(locationId, getCurrentYearMonth()),
+    prisma.laborStaffingSettings.findUnique({
+      where: { locationId },
+      select: { hourlyWage: true },
+    }),
+    getLaborShifts(locationId),
+  ]);
+
+  const laborRate = laborTarget?.rate ?? DEFAULT_LABOR_RATE;
+  const hourlyWage = settings ? Number(settings.hourlyWage) : DEFAULT_STAFFING_HOURLY_WAGE;
+  const base = {
+    locationId,
+    weeks,
+    from,
+    to,
+    laborRate,
+    laborRateFromTarget: laborTarget != null,
+    hourlyWage,
+    hourlyWageIsDefault: settings == null,
+  };
+  const withoutSales = (extra: Pick<LaborStaffingData, 'cloverNotConfigured' | 'cloverError'>) => {
+    const cells = buildStaffingCells([], shifts, laborRate, hourlyWage);
+    return { ...base, ...extra, cells, shifts: reviewShifts(cells, shifts, hourlyWage) };
+  };
+
+  if (!location?.cloverToken?.trim() || !location.cloverMerchantId?.trim()) {
+    return withoutSales({ cloverNotConfigured: true });
+  }
+
+  try {
+    if (!(await getCloverSalesCoverage(locationId))) {
+      return withoutSales({ cloverError: 'Clover sales have not been synced yet' });
+    }
+    const { cells: totals, daysByDow } = await loadCloverWeekdayHourNetSales(
+      locationId,
+      from,
+      to,
+    );
+    const hourlySales: HourlySalesAverage[] = totals.map((t) => ({
+      dow: t.dow,
+      hour: t.hour,
+      avgNetSales: daysByDow[t.dow] > 0 ? t.cents / 100 / daysByDow[t.dow] : 0,
+    }));
+    const cells = buildStaffingCells(hourlySales, shifts, laborRate, hourlyWage);
+    return { ...base, cells, shifts: reviewShifts(cells, shifts, hourlyWage) };
+  } catch (err) {
+    return withoutSales({
+      cloverError: err instanceof Error ? err.message : 'Database error',
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { prisma } from '@/lib/core/prisma';
+import { LABOR_CATEGORY_DEF } from './classify-labor-line';
+import type { LaborCategoryRow } from '../types';
+
+/** All labor categories in display order; the built-ins when the table has not been seeded. */
+export async function getLaborCategories(): Promise<LaborCategoryRow[]> {
+  const rows = await prisma.laborCategory.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    select: { id: true, name: true, sortOrder: true, isBuiltIn: true },
+  });
+  if (rows.length > 0) return rows;
+  return LABOR_CATEGORY_DEF.map((def, i) => ({
+    id: def.id,
+    name: def.name,
+    sortOrder: i,
+    isBuiltIn: true,
+  }));
+}
+
+/** Saved account name → category id for one QuickBooks company. */
+export async function getLaborAccountMappings(realmId: string): Promise<Map<string, string>> {
+  const rows = await prisma.laborAccountMapping.findMany({
+    where: { realmId },
+    select: { accountName: true, categoryId: true },
+  });
+  return new Map(rows.map((r) => [r.accountName, r.categoryId]));
+}
+
+export async function getLaborCategoryMappingForLocation(locationId: string): Promise<{
+  categories: LaborCategoryRow[];
+  mappings: Map<string, string>;
+}> {
+  const location = await prisma.location.findUnique({
+    where: { id: locationId },
+    select: { realmId: true },
+  });
+  const [categories, mappings] = await Promise.all([
+    getLaborCategories(),
+    location ? getLaborAccountMappings(location.realmId) : Promise.resolve(new Map<string, string>()),
+  ]);
+  return { categories, mappings };
+}
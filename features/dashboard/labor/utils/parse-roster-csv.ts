@@ -0,0 +1,61 @@
+import { parse } from 'csv-parse/browser/esm/sync';
+import type { LaborShiftRow } from '../types';
+
+export type RosterCsvShift = Omit<LaborShiftRow, 'id'>;
+
+const DAY_PREFIXES = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+function parseDay(raw: string): number | null {
+  const prefix = raw.trim().toLowerCase().slice(0, 3);
+  const i = DAY_PREFIXES.indexOf(prefix);
+  return i >= 0 ? i : null;
+}
+
+/** "9:00" / "09:00" / "17:30" → "HH:MM"; null when not a wall time. */
+function parseTime(raw: string): string | null {
+  const m = /^(\d{1,2}):([0-5]\d)$/.exec(raw.trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  if (h > 24 || (h === 24 && m[2] !== '00')) return null;
+  return `${String(h).padStart(2, '0')}:${m[2]}`;
+}
+
+/**
+ * Weekly roster CSV: `day,start,end,headcount[,label]`, e.g. `Mon,07:00,15:00,2,Open`.
+ * A header row is skipped. Rows that don't parse are reported by line number.
+ */
+export function parseRosterCsv(text: string): {
+  shifts: RosterCsvShift[];
+  errors: string[];
+} {
+  const records = parse(text, {
+    relax_column_count: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as string[][];
+
+  const shifts: RosterCsvShift[] = [];
+  const errors: string[] = [];
+  records.forEach((cols, i) => {
+    const line = i + 1;
+    const [dayRaw = '', startRaw = '', endRaw = '', countRaw = '1', label = ''] = cols;
+    const dayOfWeek = parseDay(dayRaw);
+    if (dayOfWeek == null) {
+      if (i > 0) errors.push(`Line ${line}: unknown day "${dayRaw}"`);
+      return;
+    }
+    const startTime = parseTime(startRaw);
+    const endTime = parseTime(endRaw);
+    const headcount = Number(countRaw || '1');
+    if (!startTime || !endTime || endTime <= startTime) {
+      errors.push(`Line ${line}: times must be HH:MM with end after start`);
+      return;
+    }
+    if (!Number.isInteger(headcount) || headcount < 1) {
+      errors.push(`Line ${line}: headcount must be a whole number of at least 1`);
+      return;
+    }
+    shifts.push({ dayOfWeek, startTime, endTime, headcount, label: label || null });
+  });
+  return { shifts, errors };
+}
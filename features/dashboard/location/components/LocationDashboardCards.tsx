@@ -12,10 +12,12 @@ import {
 } from '@/features/dashboard/labor';
 import AnnualRevenueCard from '@/features/dashboard/revenue/components/card/AnnualRevenueCard';
 import MonthlyRevenueCard from '@/features/dashboard/revenue/components/card/MonthlyRevenueCard';
+import RevenueForecastCard from '@/features/dashboard/revenue/components/card/RevenueForecastCard';
 import WeeklyRevenueCard from '@/features/dashboard/revenue/components/card/WeeklyRevenueCard';
 import {
   getAnnualRevenuePeriodData,
   getCloverWeeklyRevenueData,
+  getRevenueForecast,
   getRevenuePeriodData,
 } from '@/features/dashboard/revenue';
 import { mergeDailyRevenueTargetsIntoWeeklyData } from '@/features/dashboard/revenue/utils/merge-daily-revenue-targets';
@@ -28,6 +30,8 @@ import {
   getWeekOffsetContainingToday,
 } from '@/features/dashboard/revenue/utils/week-range';
 import type { BudgetDataType } from '@/features/dashboard/budget';
+import { getPnlDataAsOf } from '@/lib/quickbooks/snapshots';
+import PnlDataAsOf from './PnlDataAsOf';
 
 type Props = {
   budget: BudgetDataType;
@@ -62,6 +66,7 @@ export default async function LocationDashboardCards({
   });
   const annualRevenuePromise = getAnnualRevenuePeriodData(locationId, yearMonth, context);
   const weeklyRevenuePromise = getCloverWeeklyRevenueData(locationId, yearMonth, initialWeekOffset);
+  const forecastPromise = getRevenueForecast(locationId);
 
   const [laborTargetRow, revenueSnapshot, savedRefMonths] = await Promise.all([
     getLaborTargetByLocationAndMonth(locationId, yearMonth),
@@ -69,17 +74,24 @@ export default async function LocationDashboardCards({
     getRevenueMonthTargetRefMonths(locationId, yearMonth),
   ]);
 
-  const [[budgetWithCos], monthlyRevenueBase, annualRevenueBase, weeklyRevenueRaw, laborData] =
-    await Promise.all([
-      currentCosPromise,
-      monthlyRevenuePromise,
-      annualRevenuePromise,
-      weeklyRevenuePromise,
-      getLaborDashboardData(locationId, yearMonth, context, {
-        referenceIncomeTotal: initialBudget.referenceIncomeTotal,
-        laborTarget: laborTargetRow,
-      }),
-    ]);
+  const [
+    [budgetWithCos],
+    monthlyRevenueBase,
+    annualRevenueBase,
+    weeklyRevenueRaw,
+    forecast,
+    laborData,
+  ] = await Promise.all([
+    currentCosPromise,
+    monthlyRevenuePromise,
+    annualRevenuePromise,
+    weeklyRevenuePromise,
+    forecastPromise,
+    getLaborDashboardData(locationId, yearMonth, context, {
+      referenceIncomeTotal: initialBudget.referenceIncomeTotal,
+      laborTarget: laborTargetRow,
+    }),
+  ]);
 
   let budget = budgetWithCos;
   if (refCosPromise) {
@@ -87,6 +99,9 @@ export default async function LocationDashboardCards({
     budget = { ...budget, ...withRef };
   }
 
+  // After the QB reads above, so first-time fetches are included.
+  const pnlAsOf = await getPnlDataAsOf(locationId, yearMonth);
+
   const monthlyRevenue = {
     ...monthlyRevenueBase,
     monthlyRevenueTarget: revenueSnapshot?.monthlyTarget,
@@ -97,53 +112,60 @@ export default async function LocationDashboardCards({
   );
 
   return (
-    <div className="grid gap-4 max-lg:grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,24rem)] lg:items-start">
-      <div className="flex min-w-0 flex-col gap-4 lg:min-h-0">
-        <div className="flex gap-4 [&>*]:flex-1">
-          <AnnualRevenueCard
-            data={annualRevenueBase}
-            annualGoal={revenueSnapshot?.annualGoal}
-            locationId={locationId}
-            appliesYearMonth={yearMonth}
-            showUpdateTarget={isOfficeOrAdmin}
-          />
-          <MonthlyRevenueCard
-            data={monthlyRevenue}
+    <div className="flex flex-col gap-2">
+      <PnlDataAsOf asOf={pnlAsOf} locationId={locationId} showReconnect={isOfficeOrAdmin} />
+      <div className="grid gap-4 max-lg:grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,24rem)] lg:items-start">
+        <div className="flex min-w-0 flex-col gap-4 lg:min-h-0">
+          <div className="flex gap-4 [&>*]:flex-1">
+            <AnnualRevenueCard
+              data={annualRevenueBase}
+              annualGoal={revenueSnapshot?.annualGoal}
+              projection={
+                forecast.goal?.year === Number(yearMonth.slice(0, 4)) ? forecast.goal : null
+              }
+              locationId={locationId}
+              appliesYearMonth={yearMonth}
+              showUpdateTarget={isOfficeOrAdmin}
+            />
+            <MonthlyRevenueCard
+              data={monthlyRevenue}
+              locationId={locationId}
+              appliesYearMonth={yearMonth}
+              showUpdateTarget={isOfficeOrAdmin}
+              savedRefMonths={savedRefMonths}
+            />
+          </div>
+          <WeeklyRevenueCard
+            key={yearMonth}
             locationId={locationId}
-            appliesYearMonth={yearMonth}
-            showUpdateTarget={isOfficeOrAdmin}
-            savedRefMonths={savedRefMonths}
+            yearMonth={yearMonth}
+            initialData={weeklyRevenue}
+            initialWeekOffset={initialWeekOffset}
           />
+          <RevenueForecastCard data={forecast} />
         </div>
-        <WeeklyRevenueCard
-          key={yearMonth}
-          locationId={locationId}
-          yearMonth={yearMonth}
-          initialData={weeklyRevenue}
-          initialWeekOffset={initialWeekOffset}
-        />
-      </div>
-      <div className="flex min-w-0 flex-col gap-4">
-        {budget ? (
-          <BudgetCard
-            budget={budget}
-            isOfficeOrAdmin={isOfficeOrAdmin}
+        <div className="flex min-w-0 flex-col gap-4">
+          {budget ? (
+            <BudgetCard
+              budget={budget}
+              isOfficeOrAdmin={isOfficeOrAdmin}
+              yearMonth={yearMonth}
+              needsReconnect={budget.error === QB_REFRESH_EXPIRED}
+            />
+          ) : (
+            <div className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+              No budget for this location this month.
+              <br />
+              Please contact the administrator.
+            </div>
+          )}
+          <LaborCard
+            data={laborData}
+            locationId={locationId}
             yearMonth={yearMonth}
-            needsReconnect={budget.error === QB_REFRESH_EXPIRED}
+            isOfficeOrAdmin={isOfficeOrAdmin}
           />
-        ) : (
-          <div className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
-            No budget for this location this month.
-            <br />
-            Please contact the administrator.
-          </div>
-        )}
-        <LaborCard
-          data={laborData}
-          locationId={locationId}
-          yearMonth={yearMonth}
-          isOfficeOrAdmin={isOfficeOrAdmin}
-        />
+        </div>
       </div>
     </div>
   );
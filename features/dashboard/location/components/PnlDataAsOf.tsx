@@ -0,0 +1,49 @@
+import { QB_REFRESH_EXPIRED } from '@/constants/error';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import type { PnlDataAsOf as PnlDataAsOfValue } from '@/lib/quickbooks/snapshots';
+import { cn } from '@/lib/utils';
+
+/** "QuickBooks data as of …" line for dashboards served from stored P&L snapshots. */
+export default function PnlDataAsOf({
+  asOf,
+  locationId,
+  showReconnect,
+}: {
+  asOf: PnlDataAsOfValue | null;
+  locationId: string;
+  showReconnect: boolean;
+}) {
+  if (!asOf) return null;
+  const expired = asOf.lastError === QB_REFRESH_EXPIRED;
+
+  return (
+    <p
+      className={cn(
+        'text-xs text-muted-foreground',
+        asOf.stale && 'text-amber-600 dark:text-amber-500',
+      )}
+    >
+      QuickBooks data as of {formatVancouverOrderedSidebar(asOf.fetchedAt.toISOString())}
+      {expired ? (
+        <>
+          {' '}
+          · connection expired, showing saved data
+          {showReconnect && (
+            <>
+              {' '}
+              ·{' '}
+              <a
+                className="underline"
+                href={`/api/quickbooks/auth?locationId=${encodeURIComponent(locationId)}`}
+              >
+                Reconnect
+              </a>
+            </>
+          )}
+        </>
+      ) : asOf.lastError ? (
+        ' · QuickBooks unavailable, showing saved data'
+      ) : null}
+    </p>
+  );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { type ColumnDef } from '@tanstack/react-table';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DataTable } from '@/components/ui/data-table';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { MenuEngineeringData, MenuEngineeringItem, MenuQuadrant } from '../types';
+import { MenuMatrixChart } from './MenuMatrixChart';
+import { QUADRANT_META, QUADRANT_ORDER } from './quadrant-meta';
+import { RecipeMappingCell } from './RecipeMappingCell';
+
+function formatQty(n: number): string {
+  return n % 1 === 0 ? n.toFixed(0) : n.toFixed(1);
+}
+
+function formatPct(share: number | null): string {
+  return share == null ? '—' : `${(share * 100).toFixed(1)}%`;
+}
+
+function formatMoney(n: number | null): string {
+  return n == null ? '—' : formatCurrency(n);
+}
+
+function QuadrantBadge({ quadrant }: { quadrant: MenuQuadrant | null }) {
+  if (!quadrant) return <Badge variant="gray">Unmapped</Badge>;
+  const meta = QUADRANT_META[quadrant];
+  return <Badge variant={meta.badge}>{meta.label}</Badge>;
+}
+
+/** Previous → current class, plus the change in units sold. */
+function Movement({ item }: { item: MenuEngineeringItem }) {
+  if (!item.previous) {
+    return <span className="text-xs text-muted-foreground">New</span>;
+  }
+  const prev = item.previous;
+  const change = prev.quantity > 0 ? (item.quantity - prev.quantity) / prev.quantity : null;
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      {prev.quadrant !== item.quadrant && prev.quadrant && (
+        <>
+          <span className="text-muted-foreground">{QUADRANT_META[prev.quadrant].label}</span>
+          <ArrowRight className="size-3 text-muted-foreground" />
+        </>
+      )}
+      {change != null && (
+        <span className={cn('tabular-nums', change >= 0 ? 'text-emerald-700' : 'text-red-600')}>
+          {change >= 0 ? '+' : ''}
+          {(change * 100).toFixed(0)}% units
+        </span>
+      )}
+    </div>
+  );
+}
+
+function StatCard({ title, value, note }: { title: string; value: string; note?: string }) {
+  return (
+    <Card className="gap-2 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm font-normal text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4">
+        <div className="text-2xl font-semibold tabular-nums">{value}</div>
+        {note && <p className="text-xs text-muted-foreground">{note}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Menu engineering for one location: every item's units, revenue and category share, recipe
+ * margins, and star/plowhorse/puzzle/dog classes vs the previous period. The range lives in the URL.
+ */
+export function MenuEngineeringContent({
+  data,
+  locationLabel,
+  canEditRecipes,
+}: {
+  data: MenuEngineeringData;
+  locationLabel: string;
+  canEditRecipes: boolean;
+}) {
+  const router = useRouter();
+  const [from, setFrom] = useState(data.from);
+  const [to, setTo] = useState(data.to);
+  const [filter, setFilter] = useState<MenuQuadrant | 'unmapped' | null>(null);
+
+  const recipeOptions = useMemo(
+    () =>
+      data.recipes.map((r) => ({
+        id: r.id,
+        label: r.unitCost != null ? `${r.title} (${formatCurrency(r.unitCost)})` : r.title,
+      })),
+    [data.recipes],
+  );
+
+  const columns = useMemo<ColumnDef<MenuEngineeringItem>[]>(
+    () => [
+      { accessorKey: 'name', header: 'Item' },
+      { accessorKey: 'category', header: 'Category' },
+      {
+        accessorKey: 'quantity',
+        header: 'Units',
+        cell: ({ row }) => formatQty(row.original.quantity),
+      },
+      {
+        accessorKey: 'revenue',
+        header: 'Revenue',
+        cell: ({ row }) => formatCurrency(row.original.revenue),
+      },
+      {
+        accessorKey: 'categoryShare',
+        header: 'Cat. share',
+        cell: ({ row }) => formatPct(row.original.categoryShare),
+      },
+      {
+        accessorKey: 'avgPrice',
+        header: 'Avg price',
+        cell: ({ row }) => formatCurrency(row.original.avgPrice),
+      },
+      {
+        accessorKey: 'itemCost',
+        header: 'Item cost',
+        cell: ({ row }) => formatMoney(row.original.itemCost),
+      },
+      {
+        accessorKey: 'contributionMargin',
+        header: 'Margin',
+        cell: ({ row }) => formatMoney(row.original.contributionMargin),
+      },
+      {
+        accessorKey: 'totalContribution',
+        header: 'Total margin',
+        cell: ({ row }) => formatMoney(row.original.totalContribution),
+      },
+      {
+        accessorKey: 'quadrant',
+        header: 'Class',
+        cell: ({ row }) =>
+          row.original.quadrant == null && row.original.recipe ? (
+            <Badge variant="gray" title="The recipe has no price based on its unit cost">
+              No cost
+            </Badge>
+          ) : (
+            <QuadrantBadge quadrant={row.original.quadrant} />
+          ),
+      },
+      {
+        id: 'movement',
+        header: 'vs previous',
+        cell: ({ row }) => <Movement item={row.original} />,
+      },
+      {
+        id: 'recipe',
+        header: 'Recipe',
+        cell: ({ row }) =>
+          canEditRecipes ? (
+            <RecipeMappingCell
+              key={`${row.original.id}:${row.original.recipe?.costId ?? ''}:${row.original.recipe?.portions ?? ''}`}
+              locationId={data.locationId}
+              item={row.original}
+              options={recipeOptions}
+            />
+          ) : (
+            (row.original.recipe?.title ?? '—')
+          ),
+      },
+    ],
+    [canEditRecipes, data.locationId, recipeOptions],
+  );
+
+  const costed = data.items.filter((i) => i.quadrant != null);
+  const costedRevenue = costed.reduce((sum, i) => sum + i.revenue, 0);
+  const totalContribution = costed.reduce((sum, i) => sum + (i.totalContribution ?? 0), 0);
+  const visibleItems =
+    filter == null
+      ? data.items
+      : filter === 'unmapped'
+        ? data.items.filter((i) => i.quadrant == null)
+        : data.items.filter((i) => i.quadrant === filter);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Menu engineering</h1>
+          <p className="text-sm text-muted-foreground">
+            {locationLabel} · compared with {data.prevFrom} – {data.prevTo}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">From</p>
+            <YmdDateInput
+              className="h-9 w-[180px]"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">To</p>
+            <YmdDateInput
+              className="h-9 w-[180px]"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button
+            size="sm"
+            disabled={!from || !to || from > to}
+            onClick={() =>
+              router.push(
+                `/dashboard/location/${data.locationId}/menu?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
+              )
+            }
+          >
+            Apply
+          </Button>
+          <Button size="sm" variant="outline" asChild>
+            <Link href={`/dashboard/location/${data.locationId}`}>Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+
+      {data.cloverNotConfigured && (
+        <p className="text-sm text-amber-700">Clover is not configured for this location.</p>
+      )}
+      {data.cloverError && <p className="text-sm text-destructive">{data.cloverError}</p>}
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <StatCard title="Item revenue" value={formatCurrency(data.totalRevenue)} />
+        <StatCard title="Units sold" value={formatQty(Math.round(data.totalQuantity))} />
+        <StatCard
+          title="Costed items"
+          value={`${costed.length} / ${data.items.length}`}
+          note={`${formatPct(data.totalRevenue > 0 ? costedRevenue / data.totalRevenue : null)} of revenue`}
+        />
+        <StatCard
+          title="Contribution margin"
+          value={formatCurrency(totalContribution)}
+          note={`Avg ${formatCurrency(data.marginThreshold)} per item`}
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_320px]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Menu matrix</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {costed.length > 0 ? (
+              <MenuMatrixChart
+                items={data.items}
+                popularityThreshold={data.popularityThreshold}
+                marginThreshold={data.marginThreshold}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Map menu items to recipes to classify them.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <div className="grid grid-cols-2 gap-3 lg:grid-cols-1">
+          {QUADRANT_ORDER.map((q) => {
+            const list = costed.filter((i) => i.quadrant === q);
+            return (
+              <button
+                key={q}
+                type="button"
+                onClick={() => setFilter(filter === q ? null : q)}
+                className={cn(
+                  'rounded-lg border p-3 text-left transition-colors hover:bg-muted/50',
+                  filter === q && 'border-foreground',
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <QuadrantBadge quadrant={q} />
+                  <span className="text-sm tabular-nums">
+                    {list.length} · {formatCurrency(list.reduce((s, i) => s + i.revenue, 0))}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">{QUADRANT_META[q].hint}</p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="font-medium">Categories</h2>
+        <div className="divide-y rounded-lg border text-sm">
+          {data.categories.map((c) => (
+            <div key={c.name} className="flex items-center gap-3 px-3 py-2">
+              <span className="flex-1">{c.name}</span>
+              <span className="w-20 text-right text-muted-foreground tabular-nums">
+                {c.items} items
+              </span>
+              <span className="w-20 text-right tabular-nums">{formatQty(Math.round(c.quantity))}</span>
+              <span className="w-28 text-right tabular-nums">{formatCurrency(c.revenue)}</span>
+              <span className="w-16 text-right text-muted-foreground tabular-nums">
+                {formatPct(c.revenueShare)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-medium">Items</h2>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={filter == null ? 'default' : 'outline'}
+              onClick={() => setFilter(null)}
+            >
+              All
+            </Button>
+            <Button
+              size="sm"
+              variant={filter === 'unmapped' ? 'default' : 'outline'}
+              onClick={() => setFilter('unmapped')}
+            >
+              Unmapped
+            </Button>
+          </div>
+        </div>
+        <DataTable<MenuEngineeringItem>
+          columns={columns}
+          data={visibleItems}
+          isFetching={false}
+        />
+        <p className="text-xs text-muted-foreground">
+          Item cost is the recipe&apos;s cost per unit as of its last save × portions. Classes
+          compare costed items only: popular at ≥ {formatPct(data.popularityThreshold)} of units,
+          profitable at ≥ {formatCurrency(data.marginThreshold)} margin.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import {
+  ChartContainer,
+  ChartTooltip,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { formatCurrency } from '@/lib/utils';
+import {
+  CartesianGrid,
+  ReferenceLine,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { MenuEngineeringItem, MenuQuadrant } from '../types';
+import { QUADRANT_META } from './quadrant-meta';
+
+const chartConfig = Object.fromEntries(
+  Object.entries(QUADRANT_META).map(([k, v]) => [k, { label: v.label, color: v.color }]),
+) satisfies ChartConfig;
+
+type MatrixPoint = {
+  name: string;
+  mix: number;
+  margin: number;
+  quantity: number;
+};
+
+/** Menu mix (x) vs contribution margin (y) with the quadrant cut-offs as reference lines. */
+export function MenuMatrixChart({
+  items,
+  popularityThreshold,
+  marginThreshold,
+}: {
+  items: MenuEngineeringItem[];
+  popularityThreshold: number;
+  marginThreshold: number;
+}) {
+  const byQuadrant = new Map<MenuQuadrant, MatrixPoint[]>();
+  for (const i of items) {
+    if (!i.quadrant || i.menuMix == null || i.contributionMargin == null) continue;
+    const list = byQuadrant.get(i.quadrant) ?? [];
+    list.push({
+      name: i.name,
+      mix: i.menuMix * 100,
+      margin: i.contributionMargin,
+      quantity: i.quantity,
+    });
+    byQuadrant.set(i.quadrant, list);
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-[16/9] min-h-[260px] w-full max-w-none">
+      <ScatterChart margin={{ top: 8, right: 16, bottom: 20, left: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" opacity={0.4} />
+        <XAxis
+          type="number"
+          dataKey="mix"
+          name="Menu mix"
+          unit="%"
+          tickFormatter={(v: number) => v.toFixed(1)}
+          label={{ value: 'Menu mix (% of units)', position: 'insideBottom', offset: -12, fontSize: 11 }}
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          type="number"
+          dataKey="margin"
+          name="Contribution margin"
+          width={56}
+          tickFormatter={(v: number) => `$${v.toFixed(0)}`}
+          tick={{ fontSize: 10 }}
+        />
+        <ReferenceLine x={popularityThreshold * 100} stroke="var(--muted-foreground)" strokeDasharray="4 4" />
+        <ReferenceLine y={marginThreshold} stroke="var(--muted-foreground)" strokeDasharray="4 4" />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const p = active ? (payload?.[0]?.payload as MatrixPoint | undefined) : undefined;
+            if (!p) return null;
+            return (
+              <div className="rounded-md border bg-background px-2.5 py-1.5 text-xs shadow-sm">
+                <div className="font-medium">{p.name}</div>
+                <div className="text-muted-foreground">
+                  {p.quantity.toFixed(0)} sold · {p.mix.toFixed(1)}% mix · {formatCurrency(p.margin)} margin
+                </div>
+              </div>
+            );
+          }}
+        />
+        {[...byQuadrant].map(([quadrant, points]) => (
+          <Scatter
+            key={quadrant}
+            name={QUADRANT_META[quadrant].label}
+            data={points}
+            fill={QUADRANT_META[quadrant].color}
+            isAnimationActive={false}
+          />
+        ))}
+      </ScatterChart>
+    </ChartContainer>
+  );
+}
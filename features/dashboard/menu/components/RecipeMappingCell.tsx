@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import {
+  SearchableSelect,
+  type SearchableSelectOption,
+} from '@/components/ui/searchable-select';
+import type { MenuEngineeringItem } from '../types';
+
+/** Recipe picker + portions for one menu item; saves on change and refreshes the page data. */
+export function RecipeMappingCell({
+  locationId,
+  item,
+  options,
+}: {
+  locationId: string;
+  item: MenuEngineeringItem;
+  options: SearchableSelectOption[];
+}) {
+  const router = useRouter();
+  const [costId, setCostId] = useState(item.recipe?.costId ?? '');
+  const [portions, setPortions] = useState(String(item.recipe?.portions ?? 1));
+  const [saving, setSaving] = useState(false);
+
+  const save = async (nextCostId: string, nextPortions: string) => {
+    const portionsValue = Number(nextPortions);
+    if (nextCostId && !(portionsValue > 0)) {
+      toast.error('Portions must be positive');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/dashboard/menu/${locationId}/recipes`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          itemKey: item.id,
+          itemName: item.name,
+          costId: nextCostId || null,
+          portions: portionsValue > 0 ? portionsValue : 1,
+        }),
+      });
+      const j = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        toast.error(j.error ?? 'Save failed');
+        return;
+      }
+      router.refresh();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <SearchableSelect
+        className="h-8 w-[200px]"
+        options={options}
+        value={costId}
+        allLabel="No recipe"
+        searchPlaceholder="Search recipes…"
+        disabled={saving}
+        onValueChange={(next) => {
+          setCostId(next);
+          void save(next, portions);
+        }}
+      />
+      <Input
+        type="number"
+        min={0}
+        step="0.25"
+        title="Recipe units per item sold"
+        className="h-8 w-[64px]"
+        value={portions}
+        disabled={saving || !costId}
+        onChange={(e) => setPortions(e.target.value)}
+        onBlur={() => {
+          if (costId && Number(portions) !== item.recipe?.portions) void save(costId, portions);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { MenuQuadrant } from '../types';
+
+export const QUADRANT_META: Record<
+  MenuQuadrant,
+  {
+    label: string;
+    hint: string;
+    color: string;
+    badge: 'green' | 'blue' | 'amber' | 'red';
+  }
+> = {
+  star: {
+    label: 'Star',
+    hint: 'Popular and profitable — keep visible, protect quality.',
+    color: 'var(--chart-2)',
+    badge: 'green',
+  },
+  plowhorse: {
+    label: 'Plowhorse',
+    hint: 'Popular, low margin — re-cost the recipe or nudge the price.',
+    color: 'var(--chart-1)',
+    badge: 'blue',
+  },
+  puzzle: {
+    label: 'Puzzle',
+    hint: 'Profitable, slow seller — promote or reposition.',
+    color: 'var(--chart-4)',
+    badge: 'amber',
+  },
+  dog: {
+    label: 'Dog',
+    hint: 'Slow and low margin — rework or retire.',
+    color: 'var(--destructive)',
+    badge: 'red',
+  },
+};
+
+export const QUADRANT_ORDER: MenuQuadrant[] = ['star', 'plowhorse', 'puzzle', 'dog'];
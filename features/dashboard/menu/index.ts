@@ -0,0 +1,8 @@
+export { getMenuEngineeringData } from './utils/get-menu-engineering';
+export { classifyMenuItems } from './utils/classify-menu-items';
+export type {
+  MenuCategorySummary,
+  MenuEngineeringData,
+  MenuEngineeringItem,
+  MenuQuadrant,
+} from './types';
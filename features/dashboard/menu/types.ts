@@ -0,0 +1,73 @@
+/** Kasavana–Smith menu-engineering classes. */
+export type MenuQuadrant = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export type MenuItemRecipe = {
+  costId: string;
+  title: string;
+  /** Recipe units per item sold. */
+  portions: number;
+  /** Recipe cost per unit as of its last save; null when the recipe has no unit-cost price. */
+  unitCost: number | null;
+};
+
+export type MenuEngineeringItem = {
+  /** Row key = mapping key: the Clover item id, or `name:<name>` for custom items. */
+  id: string;
+  itemId: string | null;
+  name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+  avgPrice: number;
+  /** Share of its category's revenue (0–1). */
+  categoryShare: number;
+  /** Share of units sold across costed items (0–1); null without a costed recipe. */
+  menuMix: number | null;
+  recipe: MenuItemRecipe | null;
+  /** Recipe cost per item sold; null without a costed recipe. */
+  itemCost: number | null;
+  /** Average price − item cost. */
+  contributionMargin: number | null;
+  totalContribution: number | null;
+  quadrant: MenuQuadrant | null;
+  /** Same item in the previous period of equal length; null when it didn't sell then. */
+  previous: {
+    quantity: number;
+    revenue: number;
+    quadrant: MenuQuadrant | null;
+  } | null;
+};
+
+export type MenuCategorySummary = {
+  name: string;
+  items: number;
+  quantity: number;
+  revenue: number;
+  /** Share of total revenue (0–1). */
+  revenueShare: number;
+};
+
+export type MenuRecipeOption = {
+  id: string;
+  title: string;
+  unitCost: number | null;
+};
+
+export type MenuEngineeringData = {
+  locationId: string;
+  /** Report-timezone days, `YYYY-MM-DD` inclusive. */
+  from: string;
+  to: string;
+  prevFrom: string;
+  prevTo: string;
+  totalRevenue: number;
+  totalQuantity: number;
+  /** Quadrant cut-offs: 70% of an equal menu-mix share, and the unit-weighted average margin. */
+  popularityThreshold: number;
+  marginThreshold: number;
+  items: MenuEngineeringItem[];
+  categories: MenuCategorySummary[];
+  recipes: MenuRecipeOption[];
+  cloverNotConfigured?: boolean;
+  cloverError?: string;
+};
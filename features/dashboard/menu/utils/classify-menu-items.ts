@@ -0,0 +1,56 @@
+import type { MenuQuadrant } from '../types';
+
+/** An item is popular when its menu-mix share reaches this fraction of an equal share (1 ÷ items). */
+const POPULARITY_FACTOR = 0.7;
+
+export type ClassifiableMenuItem = {
+  key: string;
+  quantity: number;
+  /** Per-unit contribution margin; items without one are left unclassified. */
+  contributionMargin: number | null;
+};
+
+export type MenuClassification = {
+  quadrants: Map<string, MenuQuadrant>;
+  /** Share of units each item needs to count as popular. */
+  popularityThreshold: number;
+  /** Unit-weighted average contribution margin. */
+  marginThreshold: number;
+  /** Units sold across the classified items. */
+  totalQuantity: number;
+};
+
+/**
+ * Kasavana–Smith classification over the items that have a margin: popularity against 70% of an
+ * equal menu-mix share, profitability against the unit-weighted average contribution margin.
+ */
+export function classifyMenuItems(items: ClassifiableMenuItem[]): MenuClassification {
+  const costed = items.filter(
+    (i): i is ClassifiableMenuItem & { contributionMargin: number } =>
+      i.contributionMargin != null && i.quantity > 0,
+  );
+  const totalQuantity = costed.reduce((sum, i) => sum + i.quantity, 0);
+  const totalContribution = costed.reduce(
+    (sum, i) => sum + i.contributionMargin * i.quantity,
+    0,
+  );
+  const popularityThreshold = costed.length > 0 ? POPULARITY_FACTOR / costed.length : 0;
+  const marginThreshold = totalQuantity > 0 ? totalContribution / totalQuantity : 0;
+
+  const quadrants = new Map<string, MenuQuadrant>();
+  for (const i of costed) {
+    const popular = i.quantity / totalQuantity >= popularityThreshold;
+    const profitable = i.contributionMargin >= marginThreshold;
+    quadrants.set(
+      i.key,
+      popular
+        ? profitable
+          ? 'star'
+          : 'plowhorse'
+        : profitable
+          ? 'puzzle'
+          : 'dog',
+    );
+  }
+  return { quadrants, popularityThreshold, marginThreshold, totalQuantity };
+}
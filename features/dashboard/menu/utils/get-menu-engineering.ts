@@ -0,0 +1,226 @@
+/**
+ * Menu engineering for one location over a date range: units and revenue per Clover menu item
+ * (sales warehouse), category share, and contribution margin from the item's mapped `Cost` recipe.
+ * Items are classified against the previous period of equal length to show movement.
+ */
+
+import { fetchCloverItemCategoryNames } from '@/lib/clover/fetch-categories';
+import {
+  getCloverSalesCoverage,
+  loadCloverItemSales,
+  type CloverItemSales,
+} from '@/lib/clover/sales-store';
+import { refreshCloverSalesIfStale } from '@/lib/clover/sales-sync';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd } from '@/lib/utils';
+import { unitCostFromSavedPrices } from '@/features/cost/utils/calculations';
+import type {
+  MenuCategorySummary,
+  MenuEngineeringData,
+  MenuEngineeringItem,
+  MenuItemRecipe,
+  MenuRecipeOption,
+} from '../types';
+import { classifyMenuItems } from './classify-menu-items';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNCATEGORIZED = 'Uncategorized';
+
+type ItemMargin = {
+  key: string;
+  quantity: number;
+  revenue: number;
+  itemCost: number | null;
+  contributionMargin: number | null;
+};
+
+function withMargins(
+  sales: CloverItemSales[],
+  recipes: Map<string, MenuItemRecipe>,
+): ItemMargin[] {
+  return sales
+    .filter((s) => s.quantity > 0)
+    .map((s) => {
+      const recipe = recipes.get(s.itemKey);
+      const revenue = s.revenueCents / 100;
+      const itemCost =
+        recipe?.unitCost != null ? recipe.unitCost * recipe.portions : null;
+      return {
+        key: s.itemKey,
+        quantity: s.quantity,
+        revenue,
+        itemCost,
+        contributionMargin: itemCost != null ? revenue / s.quantity - itemCost : null,
+      };
+    });
+}
+
+async function loadRecipeOptions(): Promise<MenuRecipeOption[]> {
+  const costs = await prisma.cost.findMany({
+    orderBy: { title: 'asc' },
+    select: {
+      id: true,
+      title: true,
+      prices: { orderBy: { rank: 'asc' }, select: { margin: true, price: true, base: true } },
+    },
+  });
+  return costs.map((c) => ({
+    id: c.id,
+    title: c.title,
+    unitCost: unitCostFromSavedPrices(c.prices),
+  }));
+}
+
+/** `from`..`to` are report-timezone days (`YYYY-MM-DD`, inclusive). */
+export async function getMenuEngineeringData(
+  locationId: string,
+  from: string,
+  to: string,
+): Promise<MenuEngineeringData> {
+  const days = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1;
+  const prevTo = addDaysYmd(from, -1);
+  const prevFrom = addDaysYmd(prevTo, -(days - 1));
+
+  const [location, recipes, mappings] = await Promise.all([
+    prisma.location.findUnique({
+      where: { id: locationId },
+      select: { cloverToken: true, cloverMerchantId: true },
+    }),
+    loadRecipeOptions(),
+    prisma.cloverItemRecipe.findMany({
+      where: { locationId },
+      select: { itemKey: true, costId: true, portions: true },
+    }),
+  ]);
+
+  const base: MenuEngineeringData = {
+    locationId,
+    from,
+    to,
+    prevFrom,
+    prevTo,
+    totalRevenue: 0,
+    totalQuantity: 0,
+    popularityThreshold: 0,
+    marginThreshold: 0,
+    items: [],
+    categories: [],
+    recipes,
+  };
+
+  const token = location?.cloverToken?.trim() || null;
+  const merchantId = location?.cloverMerchantId?.trim() || null;
+  if (!token || !merchantId) return { ...base, cloverNotConfigured: true };
+
+  const recipeById = new Map(recipes.map((r) => [r.id, r]));
+  const recipeByItem = new Map<string, MenuItemRecipe>();
+  for (const m of mappings) {
+    const r = recipeById.get(m.costId);
+    if (!r) continue;
+    recipeByItem.set(m.itemKey, {
+      costId: r.id,
+      title: r.title,
+      portions: m.portions,
+      unitCost: r.unitCost,
+    });
+  }
+
+  let current: CloverItemSales[];
+  let previous: CloverItemSales[];
+  try {
+    await refreshCloverSalesIfStale(locationId);
+    if (!(await getCloverSalesCoverage(locationId))) {
+      return { ...base, cloverError: 'Clover sales have not been synced yet' };
+    }
+    [current, previous] = await Promise.all([
+      loadCloverItemSales(locationId, from, to),
+      loadCloverItemSales(locationId, prevFrom, prevTo),
+    ]);
+  } catch (err) {
+    return {
+      ...base,
+      cloverError: err instanceof Error ? err.message : 'Database error',
+    };
+  }
+
+  // Categories only label the table; a Clover error leaves everything uncategorized.
+  let categoryByItemId = new Map<string, string>();
+  try {
+    categoryByItemId = await fetchCloverItemCategoryNames(merchantId, token);
+  } catch {
+    // Non-fatal
+  }
+
+  const currentMargins = withMargins(current, recipeByItem);
+  const previousMargins = withMargins(previous, recipeByItem);
+  const classification = classifyMenuItems(currentMargins);
+  const previousClassification = classifyMenuItems(previousMargins);
+  const previousByKey = new Map(previousMargins.map((m) => [m.key, m]));
+  const salesByKey = new Map(current.map((s) => [s.itemKey, s]));
+
+  const categoryOf = (s: CloverItemSales) =>
+    (s.itemId && categoryByItemId.get(s.itemId)) || UNCATEGORIZED;
+  const categoryTotals = new Map<string, MenuCategorySummary>();
+  for (const m of currentMargins) {
+    const name = categoryOf(salesByKey.get(m.key)!);
+    const c = categoryTotals.get(name) ?? {
+      name,
+      items: 0,
+      quantity: 0,
+      revenue: 0,
+      revenueShare: 0,
+    };
+    c.items++;
+    c.quantity += m.quantity;
+    c.revenue += m.revenue;
+    categoryTotals.set(name, c);
+  }
+  const totalRevenue = currentMargins.reduce((sum, m) => sum + m.revenue, 0);
+  const totalQuantity = currentMargins.reduce((sum, m) => sum + m.quantity, 0);
+
+  const items: MenuEngineeringItem[] = currentMargins.map((m) => {
+    const sale = salesByKey.get(m.key)!;
+    const category = categoryOf(sale);
+    const categoryRevenue = categoryTotals.get(category)?.revenue ?? 0;
+    const prev = previousByKey.get(m.key);
+    return {
+      id: m.key,
+      itemId: sale.itemId,
+      name: sale.name,
+      category,
+      quantity: m.quantity,
+      revenue: m.revenue,
+      avgPrice: m.revenue / m.quantity,
+      categoryShare: categoryRevenue > 0 ? m.revenue / categoryRevenue : 0,
+      menuMix:
+        m.contributionMargin != null && classification.totalQuantity > 0
+          ? m.quantity / classification.totalQuantity
+          : null,
+      recipe: recipeByItem.get(m.key) ?? null,
+      itemCost: m.itemCost,
+      contributionMargin: m.contributionMargin,
+      totalContribution:
+        m.contributionMargin != null ? m.contributionMargin * m.quantity : null,
+      quadrant: classification.quadrants.get(m.key) ?? null,
+      previous: prev
+        ? {
+            quantity: prev.quantity,
+            revenue: prev.revenue,
+            quadrant: previousClassification.quadrants.get(m.key) ?? null,
+          }
+        : null,
+    };
+  });
+
+  return {
+    ...base,
+    totalRevenue,
+    totalQuantity,
+    popularityThreshold: classification.popularityThreshold,
+    marginThreshold: classification.marginThreshold,
+    items: items.sort((a, b) => b.revenue - a.revenue),
+    categories: [...categoryTotals.values()]
+      .map((c) => ({ ...c, revenueShare: totalRevenue > 0 ? c.revenue / totalRevenue : 0 }))
+      .sort((a, b) => b.revenue - a.revenue),
+  };
+}
@@ -0,0 +1,32 @@
+import type { QuickBooksApiContext } from '@/features/dashboard/budget';
+import { getOverviewData } from '../utils/get-overview-data';
+import type { OverviewLocationOption } from '../types';
+import OverviewRankingTables from './OverviewRankingTables';
+import OverviewSummaryCards from './OverviewSummaryCards';
+
+type Props = {
+  locations: OverviewLocationOption[];
+  yearMonth: string;
+  userId: string;
+  context: QuickBooksApiContext;
+};
+
+/** Loads QuickBooks data for every selected location; streamed in under the page's Suspense. */
+export default async function OverviewContent({ locations, yearMonth, userId, context }: Props) {
+  const data = await getOverviewData({ locations, yearMonth, userId, context });
+
+  if (data.rows.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-6 text-center text-muted-foreground">
+        None of the selected locations have started by this month.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <OverviewSummaryCards totals={data.totals} />
+      <OverviewRankingTables data={data} />
+    </div>
+  );
+}
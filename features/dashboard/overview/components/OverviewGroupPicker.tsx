@@ -0,0 +1,76 @@
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useNavigationProgress } from '@/components/providers/NavigationProgress';
+import type { OverviewLocationOption } from '../types';
+
+type OverviewGroupPickerProps = {
+  options: OverviewLocationOption[];
+  selectedIds: string[];
+};
+
+/** All locations, one QuickBooks company, or any hand-picked set; kept in `?locations=`. */
+export default function OverviewGroupPicker({ options, selectedIds }: OverviewGroupPickerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const navigationProgress = useNavigationProgress();
+
+  const selected = new Set(selectedIds);
+  const isAll = selected.size === options.length;
+  const realms = [...new Map(options.map((o) => [o.realmId, o.realmName])).entries()];
+
+  const go = (ids: string[]) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (ids.length === 0 || ids.length === options.length) params.delete('locations');
+    else params.set('locations', ids.join(','));
+    navigationProgress?.startNavigation();
+    router.push(params.size > 0 ? `${pathname}?${params.toString()}` : pathname);
+  };
+
+  const toggle = (id: string) => {
+    const next = selected.has(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id];
+    // Keep nav order and never leave the selection empty.
+    if (next.length > 0) go(options.filter((o) => next.includes(o.id)).map((o) => o.id));
+  };
+
+  const realmIds = (realmId: string) =>
+    options.filter((o) => o.realmId === realmId).map((o) => o.id);
+  const isRealmSelected = (realmId: string) => {
+    const ids = realmIds(realmId);
+    return ids.length === selected.size && ids.every((id) => selected.has(id));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <Button size="sm" variant={isAll ? 'default' : 'outline'} onClick={() => go([])}>
+        All
+      </Button>
+      {realms.length > 1 &&
+        realms.map(([realmId, realmName]) => (
+          <Button
+            key={realmId}
+            size="sm"
+            variant={!isAll && isRealmSelected(realmId) ? 'default' : 'outline'}
+            onClick={() => go(realmIds(realmId))}
+          >
+            {realmName}
+          </Button>
+        ))}
+      <span className="mx-1 h-5 w-px bg-border" aria-hidden />
+      {options.map((o) => (
+        <Button
+          key={o.id}
+          size="sm"
+          variant={selected.has(o.id) ? 'secondary' : 'ghost'}
+          className={selected.has(o.id) ? '' : 'text-muted-foreground'}
+          title={o.name}
+          onClick={() => toggle(o.id)}
+        >
+          {o.code}
+        </Button>
+      ))}
+    </div>
+  );
+}
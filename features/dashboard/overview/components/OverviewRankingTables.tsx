@@ -0,0 +1,297 @@
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { OverviewData, OverviewLocationRow } from '../types';
+import { formatPercent, ratioPercent } from './format';
+
+/** Sort by `key` (nulls last); ascending for spend ratios, descending for revenue pace. */
+function rank(
+  rows: OverviewLocationRow[],
+  key: (r: OverviewLocationRow) => number | null,
+  direction: 'asc' | 'desc',
+): OverviewLocationRow[] {
+  return [...rows].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (ka == null || kb == null) return ka == null ? (kb == null ? 0 : 1) : -1;
+    return direction === 'asc' ? ka - kb : kb - ka;
+  });
+}
+
+function LocationCell({ row, yearMonth }: { row: OverviewLocationRow; yearMonth: string }) {
+  return (
+    <TableCell className="px-3 py-2">
+      <Link
+        href={`/dashboard/location/${row.locationId}?yearMonth=${yearMonth}`}
+        className="font-medium hover:underline"
+        title={row.name}
+      >
+        {row.code}
+      </Link>
+      <span className="ml-2 text-xs text-muted-foreground">{row.realmName}</span>
+      {row.error && (
+        <div className="text-xs text-destructive" title={row.error}>
+          QuickBooks data incomplete
+        </div>
+      )}
+    </TableCell>
+  );
+}
+
+function RankingCard({
+  title,
+  subtitle,
+  children,
+}: {
+  title: string;
+  subtitle: string;
+  children: ReactNode;
+}) {
+  return (
+    <Card className="min-w-0 gap-2">
+      <CardHeader className="space-y-1 pb-0">
+        <CardTitle className="text-base font-bold">{title}</CardTitle>
+        <p className="text-xs text-muted-foreground">{subtitle}</p>
+      </CardHeader>
+      <CardContent className="overflow-x-auto pt-0">{children}</CardContent>
+    </Card>
+  );
+}
+
+const num = 'px-3 py-2 text-right tabular-nums';
+
+function LaborRanking({ data }: { data: OverviewData }) {
+  const rows = rank(data.rows, (r) => ratioPercent(r.labor, r.revenue), 'asc');
+  return (
+    <RankingCard
+      title="Labor % of revenue"
+      subtitle="Month to date, lowest first. Target is the location's labor target ÷ revenue."
+    >
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8 px-3">#</TableHead>
+            <TableHead className="px-3">Location</TableHead>
+            <TableHead className="px-3 text-right">Revenue</TableHead>
+            <TableHead className="px-3 text-right">Labor</TableHead>
+            <TableHead className="px-3 text-right">Labor %</TableHead>
+            <TableHead className="px-3 text-right">Target %</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((r, i) => {
+            const percent = ratioPercent(r.labor, r.revenue);
+            const target = ratioPercent(r.laborTarget, r.revenue);
+            return (
+              <TableRow key={r.locationId}>
+                <TableCell className="px-3 py-2 text-muted-foreground">{i + 1}</TableCell>
+                <LocationCell row={r} yearMonth={data.yearMonth} />
+                <TableCell className={num}>{formatCurrency(r.revenue)}</TableCell>
+                <TableCell className={num}>{formatCurrency(r.labor)}</TableCell>
+                <TableCell
+                  className={cn(
+                    num,
+                    'font-medium',
+                    percent != null && target != null && percent > target && 'text-red-600',
+                  )}
+                >
+                  {formatPercent(percent)}
+                </TableCell>
+                <TableCell className={cn(num, 'text-muted-foreground')}>
+                  {formatPercent(target)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell className="px-3 py-2" colSpan={2}>
+              Group
+            </TableCell>
+            <TableCell className={num}>{formatCurrency(data.totals.revenue)}</TableCell>
+            <TableCell className={num}>{formatCurrency(data.totals.labor)}</TableCell>
+            <TableCell className={cn(num, 'font-medium')}>
+              {formatPercent(ratioPercent(data.totals.labor, data.totals.revenue))}
+            </TableCell>
+            <TableCell className={cn(num, 'text-muted-foreground')}>
+              {formatPercent(ratioPercent(data.totals.laborTarget, data.totals.revenue))}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </RankingCard>
+  );
+}
+
+function CosRanking({ data }: { data: OverviewData }) {
+  const rows = rank(data.rows, (r) => ratioPercent(r.cos, r.revenue), 'asc');
+  const categoryTotal = (name: string) =>
+    data.rows.reduce(
+      (s, r) => s + (r.cosByCategory.find((c) => c.name === name)?.amount ?? 0),
+      0,
+    );
+  return (
+    <RankingCard
+      title="COS % by category"
+      subtitle="Month-to-date cost of sales ÷ revenue, lowest total first. Red cells are over the category's budget."
+    >
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8 px-3">#</TableHead>
+            <TableHead className="px-3">Location</TableHead>
+            {data.categories.map((name) => (
+              <TableHead key={name} className="px-3 text-right">
+                {name}
+              </TableHead>
+            ))}
+            <TableHead className="px-3 text-right">Total COS %</TableHead>
+            <TableHead className="px-3 text-right">Budget used</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((r, i) => {
+            const budgetUsed = ratioPercent(r.cos, r.cosBudget);
+            return (
+              <TableRow key={r.locationId}>
+                <TableCell className="px-3 py-2 text-muted-foreground">{i + 1}</TableCell>
+                <LocationCell row={r} yearMonth={data.yearMonth} />
+                {data.categories.map((name) => {
+                  const c = r.cosByCategory.find((x) => x.name === name);
+                  return (
+                    <TableCell
+                      key={name}
+                      className={cn(num, c && c.budget > 0 && c.amount > c.budget && 'text-red-600')}
+                      title={
+                        c
+                          ? `${formatCurrency(c.amount)}${c.budget > 0 ? ` of ${formatCurrency(c.budget)} budget` : ''}`
+                          : undefined
+                      }
+                    >
+                      {c ? formatPercent(ratioPercent(c.amount, r.revenue)) : '—'}
+                    </TableCell>
+                  );
+                })}
+                <TableCell className={cn(num, 'font-medium')}>
+                  {formatPercent(ratioPercent(r.cos, r.revenue))}
+                </TableCell>
+                <TableCell
+                  className={cn(num, budgetUsed != null && budgetUsed > 100 && 'text-red-600')}
+                >
+                  {formatPercent(budgetUsed)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell className="px-3 py-2" colSpan={2}>
+              Group
+            </TableCell>
+            {data.categories.map((name) => (
+              <TableCell key={name} className={num}>
+                {formatPercent(ratioPercent(categoryTotal(name), data.totals.revenue))}
+              </TableCell>
+            ))}
+            <TableCell className={cn(num, 'font-medium')}>
+              {formatPercent(ratioPercent(data.totals.cos, data.totals.revenue))}
+            </TableCell>
+            <TableCell className={num}>
+              {formatPercent(ratioPercent(data.totals.cos, data.totals.cosBudget))}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </RankingCard>
+  );
+}
+
+function GoalRanking({ data }: { data: OverviewData }) {
+  const rows = rank(data.rows, (r) => ratioPercent(r.ytdRevenue, r.goalToDate), 'desc');
+  return (
+    <RankingCard
+      title="Revenue vs annual goal"
+      subtitle="Year to date, best pace first. Pace is YTD revenue ÷ the goal due by the same date."
+    >
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8 px-3">#</TableHead>
+            <TableHead className="px-3">Location</TableHead>
+            <TableHead className="px-3 text-right">YTD revenue</TableHead>
+            <TableHead className="px-3 text-right">Annual goal</TableHead>
+            <TableHead className="px-3 text-right">% of goal</TableHead>
+            <TableHead className="px-3 text-right">Pace</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((r, i) => {
+            const pace = ratioPercent(r.ytdRevenue, r.goalToDate);
+            return (
+              <TableRow key={r.locationId}>
+                <TableCell className="px-3 py-2 text-muted-foreground">{i + 1}</TableCell>
+                <LocationCell row={r} yearMonth={data.yearMonth} />
+                <TableCell className={num}>{formatCurrency(r.ytdRevenue)}</TableCell>
+                <TableCell className={cn(num, 'text-muted-foreground')}>
+                  {r.annualGoal != null ? formatCurrency(r.annualGoal) : 'No goal'}
+                </TableCell>
+                <TableCell className={num}>
+                  {formatPercent(ratioPercent(r.ytdRevenue, r.annualGoal))}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    num,
+                    'font-medium',
+                    pace != null && (pace >= 100 ? 'text-emerald-700' : 'text-red-600'),
+                  )}
+                >
+                  {formatPercent(pace)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell className="px-3 py-2" colSpan={2}>
+              Group
+            </TableCell>
+            <TableCell className={num}>{formatCurrency(data.totals.ytdRevenue)}</TableCell>
+            <TableCell className={cn(num, 'text-muted-foreground')}>
+              {data.totals.annualGoal > 0 ? formatCurrency(data.totals.annualGoal) : '—'}
+            </TableCell>
+            <TableCell className={num}>
+              {formatPercent(ratioPercent(data.totals.ytdRevenueWithGoal, data.totals.annualGoal))}
+            </TableCell>
+            <TableCell className={cn(num, 'font-medium')}>
+              {formatPercent(ratioPercent(data.totals.ytdRevenueWithGoal, data.totals.goalToDate))}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </RankingCard>
+  );
+}
+
+/** Side-by-side rankings for the selected locations. */
+export default function OverviewRankingTables({ data }: { data: OverviewData }) {
+  return (
+    <div className="flex flex-col gap-4">
+      <LaborRanking data={data} />
+      <CosRanking data={data} />
+      <GoalRanking data={data} />
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { OverviewTotals } from '../types';
+import { formatPercent, ratioPercent } from './format';
+
+type SummaryCardProps = {
+  title: string;
+  value: number;
+  /** Part of `value` that `against` covers, when not all of it (e.g. YTD of goal locations only). */
+  comparedValue?: number;
+  /** Budget, target or goal the value is measured against. */
+  against: number;
+  againstLabel: string;
+  /** True when being over `against` is good (revenue), false for spend. */
+  higherIsBetter: boolean;
+  note?: string;
+};
+
+function SummaryCard({
+  title,
+  value,
+  comparedValue,
+  against,
+  againstLabel,
+  higherIsBetter,
+  note,
+}: SummaryCardProps) {
+  const percent = ratioPercent(comparedValue ?? value, against);
+  const good = percent == null ? null : higherIsBetter ? percent >= 100 : percent <= 100;
+  return (
+    <Card className="min-w-0 gap-1">
+      <CardHeader className="pb-0">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-0.5">
+        <div className="text-2xl font-extrabold tabular-nums">{formatCurrency(value)}</div>
+        <div className="text-xs text-muted-foreground tabular-nums">
+          {against > 0 ? (
+            <>
+              {formatCurrency(against)} {againstLabel}
+              <span
+                className={cn(
+                  'ml-2 font-medium',
+                  good ? 'text-emerald-700' : 'text-red-600',
+                )}
+              >
+                {formatPercent(percent)}
+              </span>
+            </>
+          ) : (
+            `No ${againstLabel}`
+          )}
+        </div>
+        {note && <div className="text-xs text-muted-foreground">{note}</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Group totals: month-to-date revenue, COS and labor against their targets, and YTD vs goal. */
+export default function OverviewSummaryCards({ totals }: { totals: OverviewTotals }) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <SummaryCard
+        title="Revenue (month to date)"
+        value={totals.revenue}
+        against={totals.revenueTarget}
+        againstLabel="month target"
+        higherIsBetter
+      />
+      <SummaryCard
+        title="Cost of sales"
+        value={totals.cos}
+        against={totals.cosBudget}
+        againstLabel="budget"
+        higherIsBetter={false}
+        note={`${formatPercent(ratioPercent(totals.cos, totals.revenue))} of revenue`}
+      />
+      <SummaryCard
+        title="Labor"
+        value={totals.labor}
+        against={totals.laborTarget}
+        againstLabel="target"
+        higherIsBetter={false}
+        note={`${formatPercent(ratioPercent(totals.labor, totals.revenue))} of revenue`}
+      />
+      <SummaryCard
+        title="Revenue (year to date)"
+        value={totals.ytdRevenue}
+        comparedValue={totals.ytdRevenueWithGoal}
+        against={totals.goalToDate}
+        againstLabel="goal to date"
+        higherIsBetter
+        note={
+          totals.annualGoal > 0
+            ? `${formatPercent(ratioPercent(totals.ytdRevenueWithGoal, totals.annualGoal))} of ${formatCurrency(totals.annualGoal)} annual goal`
+            : undefined
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/** value ÷ base × 100, or null when there is no base to compare against. */
+export function ratioPercent(value: number, base: number | null | undefined): number | null {
+  return base != null && base > 0 ? (value / base) * 100 : null;
+}
+
+export function formatPercent(percent: number | null): string {
+  return percent == null ? '—' : `${percent.toFixed(1)}%`;
+}
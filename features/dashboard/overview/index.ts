@@ -0,0 +1,8 @@
+export { getOverviewData, getOverviewLocationOptions } from './utils/get-overview-data';
+export type {
+  OverviewCategoryCos,
+  OverviewData,
+  OverviewLocationOption,
+  OverviewLocationRow,
+  OverviewTotals,
+} from './types';
@@ -0,0 +1,62 @@
+export type OverviewCategoryCos = {
+  /** Top-level COS account name; categories are matched by name across realms. */
+  name: string;
+  amount: number;
+  /** Share of the location's budget by reference COS (same split as the budget card). */
+  budget: number;
+};
+
+export type OverviewLocationRow = {
+  locationId: string;
+  code: string;
+  name: string;
+  realmName: string;
+  /** Month-to-date P&L income. */
+  revenue: number;
+  /** Sum of daily revenue targets for the month, when a Clover mix is configured. */
+  revenueTarget: number | null;
+  cos: number;
+  cosBudget: number;
+  cosByCategory: OverviewCategoryCos[];
+  labor: number;
+  laborTarget: number;
+  /** P&L income from Jan 1 through the end of the month (or today). */
+  ytdRevenue: number;
+  annualGoal: number | null;
+  /** Portion of the annual goal due by the same date (daily targets, else straight-line). */
+  goalToDate: number | null;
+  /** Set when QuickBooks could not be read for this location; amounts are then partial. */
+  error?: string | null;
+};
+
+export type OverviewTotals = {
+  revenue: number;
+  revenueTarget: number;
+  cos: number;
+  cosBudget: number;
+  labor: number;
+  laborTarget: number;
+  ytdRevenue: number;
+  /** YTD revenue of the locations that have an annual goal, to compare against `goalToDate`. */
+  ytdRevenueWithGoal: number;
+  annualGoal: number;
+  goalToDate: number;
+};
+
+export type OverviewData = {
+  yearMonth: string;
+  rows: OverviewLocationRow[];
+  totals: OverviewTotals;
+  /** Union of top-level COS category names, in first-seen order. */
+  categories: string[];
+};
+
+/** A location option for the group picker. */
+export type OverviewLocationOption = {
+  id: string;
+  code: string;
+  name: string;
+  realmId: string;
+  realmName: string;
+  startYearMonth: string | null;
+};
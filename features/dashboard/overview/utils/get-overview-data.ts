@@ -0,0 +1,252 @@
+/**
+ * Consolidated dashboard: revenue, COS, labor and budget for a group of locations (any realm),
+ * one row per location plus totals, for side-by-side benchmarking.
+ */
+
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import {
+  attachCurrentMonthCosToBudgets,
+  attachReferenceCosToBudgets,
+  getBudgetsByMonth,
+  referenceCurrentMonthRange,
+  referencePreviousMonthRange,
+  type BudgetDataType,
+  type QuickBooksApiContext,
+} from '@/features/dashboard/budget';
+import {
+  getLaborDashboardData,
+  getLaborTargetByLocationAndMonth,
+  resolveLaborTarget,
+} from '@/features/dashboard/labor';
+import {
+  getAnnualRevenuePeriodData,
+  getRevenuePeriodData,
+} from '@/features/dashboard/revenue';
+import { getRevenueTargetSnapshot } from '@/features/dashboard/revenue/utils/revenue-target-snapshot';
+import {
+  getTopLevelCategoriesForCharts,
+  getTopLevelCategoryRows,
+} from '@/features/report/utils/category';
+import { prisma } from '@/lib/core/prisma';
+import { AppError, GENERIC_ERROR_MESSAGE } from '@/lib/core/errors';
+import { getIncomeFromPnlReport } from '@/lib/quickbooks';
+import { fetchPnlReport } from '@/lib/quickbooks/client';
+import { isBeforeYearMonth } from '@/lib/utils';
+import type {
+  OverviewCategoryCos,
+  OverviewData,
+  OverviewLocationOption,
+  OverviewLocationRow,
+  OverviewTotals,
+} from '../types';
+
+/** Budget locations (showBudget) with their QuickBooks company, in nav order. */
+export async function getOverviewLocationOptions(): Promise<OverviewLocationOption[]> {
+  const locations = await prisma.location.findMany({
+    where: { showBudget: true },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      realmId: true,
+      startYearMonth: true,
+      realm: { select: { name: true } },
+    },
+  });
+  return locations.map((l) => ({
+    id: l.id,
+    code: l.code,
+    name: l.name,
+    realmId: l.realmId,
+    realmName: l.realm.name,
+    startYearMonth: l.startYearMonth,
+  }));
+}
+
+/** Share of the annual goal due by `endDate`: daily targets when configured, else straight-line. */
+function goalToDate(
+  annualGoal: number,
+  endDate: string,
+  dailyTargetsByDate: Record<string, number> | undefined,
+): number {
+  const year = endDate.slice(0, 4);
+  const days = eachDayOfInterval({ start: parseISO(`${year}-01-01`), end: parseISO(endDate) });
+  if (dailyTargetsByDate) {
+    return days.reduce(
+      (sum, d) => sum + (dailyTargetsByDate[format(d, 'yyyy-MM-dd')] ?? 0),
+      0,
+    );
+  }
+  const daysInYear = eachDayOfInterval({
+    start: parseISO(`${year}-01-01`),
+    end: parseISO(`${year}-12-31`),
+  }).length;
+  return (annualGoal * days.length) / daysInYear;
+}
+
+/** Month-to-date COS per top-level category, with each category's slice of the budget. */
+function cosCategories(budget: BudgetDataType | undefined): OverviewCategoryCos[] {
+  if (!budget) return [];
+  const refTop = getTopLevelCategoryRows(budget.referenceCosByCategory ?? []);
+  const refTopTotal = budget.referenceCosTotal || refTop.reduce((s, c) => s + c.amount, 0);
+  return getTopLevelCategoriesForCharts(
+    budget.currentCosByCategory,
+    budget.referenceCosByCategory,
+  ).map((row) => {
+    const refCos = refTop.find((r) => r.categoryId === row.categoryId)?.amount ?? 0;
+    return {
+      name: row.name,
+      amount: row.amount,
+      budget: refTopTotal > 0 ? (budget.totalAmount * refCos) / refTopTotal : 0,
+    };
+  });
+}
+
+async function loadRevenueAndLabor(
+  locationId: string,
+  yearMonth: string,
+  context: QuickBooksApiContext,
+) {
+  const [laborTargetRow, snapshot, goalRow] = await Promise.all([
+    getLaborTargetByLocationAndMonth(locationId, yearMonth),
+    getRevenueTargetSnapshot(locationId, yearMonth),
+    prisma.revenueAnnualGoal.findUnique({
+      where: {
+        locationId_calendarYear: {
+          locationId,
+          calendarYear: Number(yearMonth.slice(0, 4)),
+        },
+      },
+      select: { goalAmount: true },
+    }),
+  ]);
+  const laborTarget = laborTargetRow
+    ? { rate: laborTargetRow.rate, referencePeriodMonths: laborTargetRow.referencePeriodMonths }
+    : null;
+  const laborRef = referencePreviousMonthRange(
+    yearMonth,
+    resolveLaborTarget({ laborTarget }).displayPeriod,
+  );
+
+  const [monthly, annual, laborRefReport] = await Promise.all([
+    getRevenuePeriodData(locationId, yearMonth, context, { period: 'monthly', weekOffset: 0 }),
+    getAnnualRevenuePeriodData(locationId, yearMonth, context),
+    fetchPnlReport(
+      context.baseUrl,
+      context.cookie,
+      locationId,
+      laborRef.startDate,
+      laborRef.endDate,
+      'Accrual',
+    ),
+  ]);
+  const labor = await getLaborDashboardData(locationId, yearMonth, context, {
+    referenceIncomeTotal: getIncomeFromPnlReport(laborRefReport.report),
+    laborTarget: laborTargetRow,
+  });
+
+  const annualGoal = goalRow?.goalAmount != null ? Number(goalRow.goalAmount) : null;
+  const { endDate } = referenceCurrentMonthRange(yearMonth);
+  return {
+    revenue: monthly.totalRevenue,
+    revenueTarget: snapshot?.monthlyTarget ?? null,
+    labor: labor.totalLabor,
+    laborTarget: labor.targetLabor,
+    ytdRevenue: annual.totalRevenue,
+    annualGoal: annualGoal != null && annualGoal > 0 ? annualGoal : null,
+    goalToDate:
+      annualGoal != null && annualGoal > 0
+        ? goalToDate(annualGoal, endDate, snapshot?.dailyTargetsByDate)
+        : null,
+  };
+}
+
+function sumTotals(rows: OverviewLocationRow[]): OverviewTotals {
+  const sum = (pick: (r: OverviewLocationRow) => number | null) =>
+    rows.reduce((s, r) => s + (pick(r) ?? 0), 0);
+  return {
+    revenue: sum((r) => r.revenue),
+    revenueTarget: sum((r) => r.revenueTarget),
+    cos: sum((r) => r.cos),
+    cosBudget: sum((r) => r.cosBudget),
+    labor: sum((r) => r.labor),
+    laborTarget: sum((r) => r.laborTarget),
+    ytdRevenue: sum((r) => r.ytdRevenue),
+    ytdRevenueWithGoal: sum((r) => (r.annualGoal != null ? r.ytdRevenue : 0)),
+    annualGoal: sum((r) => r.annualGoal),
+    goalToDate: sum((r) => r.goalToDate),
+  };
+}
+
+/**
+ * Load every selected location for the month. Budgets must already exist (the page calls
+ * `ensureBudgetsForMonth` first); a location whose QuickBooks reads fail keeps its DB budget and
+ * reports the error instead of failing the whole page.
+ */
+export async function getOverviewData({
+  locations,
+  yearMonth,
+  userId,
+  context,
+}: {
+  locations: OverviewLocationOption[];
+  yearMonth: string;
+  userId: string;
+  context: QuickBooksApiContext;
+}): Promise<OverviewData> {
+  const inScope = locations.filter(
+    (l) => !l.startYearMonth || !isBeforeYearMonth(yearMonth, l.startYearMonth),
+  );
+  const ids = new Set(inScope.map((l) => l.id));
+
+  let budgets = (await getBudgetsByMonth(yearMonth)).filter((b) => ids.has(b.locationId));
+  const [withCurrent, withRef] = await Promise.all([
+    attachCurrentMonthCosToBudgets(budgets, yearMonth, context),
+    attachReferenceCosToBudgets(budgets, yearMonth, userId, context),
+  ]);
+  budgets = withCurrent.map((b, i) => ({ ...b, ...withRef[i] }));
+  const budgetByLocation = new Map(budgets.map((b) => [b.locationId, b]));
+
+  const results = await Promise.allSettled(
+    inScope.map((l) => loadRevenueAndLabor(l.id, yearMonth, context)),
+  );
+
+  const rows: OverviewLocationRow[] = inScope.map((loc, i) => {
+    const budget = budgetByLocation.get(loc.id);
+    const result = results[i];
+    const base = {
+      locationId: loc.id,
+      code: loc.code,
+      name: loc.name,
+      realmName: loc.realmName,
+      cos: budget?.currentCosTotal ?? 0,
+      cosBudget: budget && !budget.error ? budget.totalAmount : 0,
+      cosByCategory: cosCategories(budget),
+    };
+    if (result.status === 'fulfilled') {
+      return { ...base, ...result.value, error: budget?.error ?? null };
+    }
+    console.error(result.reason);
+    return {
+      ...base,
+      revenue: 0,
+      revenueTarget: null,
+      labor: 0,
+      laborTarget: 0,
+      ytdRevenue: 0,
+      annualGoal: null,
+      goalToDate: null,
+      error: result.reason instanceof AppError ? result.reason.message : GENERIC_ERROR_MESSAGE,
+    };
+  });
+
+  const categories: string[] = [];
+  for (const row of rows) {
+    for (const c of row.cosByCategory) {
+      if (!categories.includes(c.name)) categories.push(c.name);
+    }
+  }
+
+  return { yearMonth, rows, totals: sumTotals(rows), categories };
+}
@@ -10,20 +10,63 @@ import {
 import { cn, formatCurrency } from '@/lib/utils';
 import RevenueShareBarChart from '../chart/RevenueShareBarChart';
 import SetAnnualRevenueGoalDialog from '../SetAnnualRevenueGoalDialog';
-import type { RevenuePeriodData } from '../types';
+import type { RevenueGoalProjection, RevenuePeriodData } from '../types';
 
 type AnnualRevenueCardProps = {
   data: RevenuePeriodData;
   annualGoal?: number;
+  /** Clover forecast of the year-end total vs the goal (current year only). */
+  projection?: RevenueGoalProjection | null;
   locationId: string;
   appliesYearMonth: string;
   showUpdateTarget?: boolean;
   className?: string;
 };
 
+/** Year-end forecast vs the goal, and the daily run-rate the rest of the year needs. */
+function GoalProjection({ projection }: { projection: RevenueGoalProjection }) {
+  const gap = projection.projected - projection.goal;
+  const status =
+    projection.low >= projection.goal
+      ? { label: 'On track', className: 'text-emerald-700' }
+      : projection.high < projection.goal
+        ? { label: 'Off track', className: 'text-red-600' }
+        : gap >= 0
+          ? { label: 'Likely', className: 'text-emerald-700' }
+          : { label: 'At risk', className: 'text-amber-600' };
+
+  return (
+    <div className="mt-3 space-y-0.5 border-t pt-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">Projected year-end (Clover)</span>
+        <span className="tabular-nums">
+          <span className="font-semibold">{formatCurrency(projection.projected)}</span>
+          <span className={cn('ml-2 font-medium', status.className)}>{status.label}</span>
+        </span>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-muted-foreground">
+        <span>
+          80% range {formatCurrency(projection.low)} – {formatCurrency(projection.high)}
+        </span>
+        <span className="tabular-nums">
+          {gap >= 0 ? '+' : '−'}
+          {formatCurrency(Math.abs(gap))} vs goal
+        </span>
+      </div>
+      {gap < 0 && (
+        <p className="text-muted-foreground">
+          Needs {formatCurrency(projection.requiredDailyAvg)}/day for the rest of the year vs{' '}
+          {formatCurrency(projection.forecastDailyAvg)}/day forecast.
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function AnnualRevenueCard({
   data,
   annualGoal,
+  projection,
   locationId,
   appliesYearMonth,
   showUpdateTarget,
@@ -70,6 +113,7 @@ export default function AnnualRevenueCard({
           categories={data.categories}
           monthlyRevenueTarget={annualGoal}
         />
+        {projection && <GoalProjection projection={projection} />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { cn, formatCurrency } from '@/lib/utils';
+import RevenueForecastChart from '../chart/RevenueForecastChart';
+import type { RevenueForecastData } from '../types';
+
+const MONTH_OPTIONS = [1, 2, 3] as const;
+
+function monthLabel(yearMonth: string): string {
+  const [y, m] = yearMonth.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, 1)).toLocaleString('en-CA', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function lastDayOfMonth(yearMonth: string): string {
+  const [y, m] = yearMonth.split('-').map(Number);
+  return new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+}
+
+type RevenueForecastCardProps = {
+  data: RevenueForecastData;
+  className?: string;
+};
+
+/**
+ * Clover net-sales forecast for the rest of this month and the next 1–3 months: daily projection
+ * with an ~80% band, and month totals against the revenue targets.
+ */
+export default function RevenueForecastCard({ data, className }: RevenueForecastCardProps) {
+  const [months, setMonths] = useState<number>(Math.min(2, data.months));
+
+  const visibleMonths = data.monthTotals.slice(0, months + 1);
+  const lastVisible = visibleMonths.at(-1);
+  const horizonEnd = lastVisible ? lastDayOfMonth(lastVisible.yearMonth) : data.today;
+  const days = data.days.filter((d) => d.date <= horizonEnd);
+
+  return (
+    <Card className={cn('min-w-0 gap-2', className)}>
+      <CardHeader className="space-y-1 pb-2">
+        <div className="flex flex-col gap-0.5">
+          <CardTitle className="text-base font-bold">Revenue Forecast</CardTitle>
+          <p className="text-xs text-muted-foreground font-normal">
+            {'Clover net sales · weekday, holiday and seasonal pattern'}
+            {data.yoyGrowth != null &&
+              ` · ${data.yoyGrowth >= 1 ? '+' : ''}${((data.yoyGrowth - 1) * 100).toFixed(1)}% YoY`}
+          </p>
+        </div>
+        <CardAction className="flex gap-1">
+          {MONTH_OPTIONS.filter((n) => n <= data.months).map((n) => (
+            <Button
+              key={n}
+              size="sm"
+              variant={months === n ? 'default' : 'outline'}
+              onClick={() => setMonths(n)}
+            >
+              +{n} mo
+            </Button>
+          ))}
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-0">
+        {data.cloverNotConfigured ? (
+          <p className="text-sm text-muted-foreground">
+            Clover is not configured for this location.
+          </p>
+        ) : data.cloverError ? (
+          <p className="text-sm text-destructive">{data.cloverError}</p>
+        ) : (
+          <>
+            <RevenueForecastChart days={days} today={data.today} />
+            <div className="divide-y rounded-lg border text-sm">
+              <div className="flex items-center gap-3 px-3 py-1.5 text-xs text-muted-foreground">
+                <span className="flex-1">Month</span>
+                <span className="w-28 text-right">Projected</span>
+                <span className="w-40 text-right">80% range</span>
+                <span className="w-28 text-right">Target</span>
+              </div>
+              {visibleMonths.map((m) => {
+                const total = m.actual + m.forecast;
+                const gap = m.target != null && m.target > 0 ? total - m.target : null;
+                return (
+                  <div key={m.yearMonth} className="flex items-center gap-3 px-3 py-2">
+                    <span className="flex-1">
+                      {monthLabel(m.yearMonth)}
+                      {m.actual > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          {' '}
+                          · {formatCurrency(m.actual)} booked
+                        </span>
+                      )}
+                    </span>
+                    <span className="w-28 text-right font-medium tabular-nums">
+                      {formatCurrency(total)}
+                    </span>
+                    <span className="w-40 text-right text-xs text-muted-foreground tabular-nums">
+                      {formatCurrency(m.low)} – {formatCurrency(m.high)}
+                    </span>
+                    <span
+                      className={cn(
+                        'w-28 text-right tabular-nums',
+                        gap == null
+                          ? 'text-muted-foreground'
+                          : gap >= 0
+                            ? 'text-emerald-700'
+                            : 'text-red-600',
+                      )}
+                      title={gap != null ? `${gap >= 0 ? '+' : ''}${formatCurrency(gap)} vs target` : undefined}
+                    >
+                      {m.target != null && m.target > 0 ? formatCurrency(m.target) : '—'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            {data.holidayFactor !== 1 && (
+              <p className="text-xs text-muted-foreground">
+                Holidays have run at {(data.holidayFactor * 100).toFixed(0)}% of a normal day
+                of the same weekday.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
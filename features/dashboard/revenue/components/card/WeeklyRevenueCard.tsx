@@ -234,6 +234,7 @@ export default function WeeklyRevenueCard({
                       {/* Right: menu performance */}
                       {data.topMenuItems && data.topMenuItems.length > 0 && (
                         <MenuPerformanceSection
+                          locationId={locationId}
                           topMenuItems={data.topMenuItems}
                           bottomMenuItems={data.bottomMenuItems ?? []}
                           seasonalMenuItems={data.seasonalMenuItems}
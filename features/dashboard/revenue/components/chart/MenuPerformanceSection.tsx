@@ -1,12 +1,14 @@
 'use client';
 
 import { cn, formatCurrency } from '@/lib/utils';
+import Link from 'next/link';
 import { useState } from 'react';
 import type { CloverMenuItemStat } from '../types';
 
 type Tab = 'top' | 'bottom' | 'seasonal';
 
 type MenuPerformanceSectionProps = {
+  locationId: string;
   topMenuItems: CloverMenuItemStat[];
   bottomMenuItems: CloverMenuItemStat[];
   seasonalMenuItems: CloverMenuItemStat[] | undefined;
@@ -43,6 +45,7 @@ const TABS: { id: Tab; label: string }[] = [
 ];
 
 export default function MenuPerformanceSection({
+  locationId,
   topMenuItems,
   bottomMenuItems,
   seasonalMenuItems,
@@ -63,7 +66,15 @@ export default function MenuPerformanceSection({
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
-        <span className="text-sm font-semibold">Menu Performance</span>
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-semibold">Menu Performance</span>
+          <Link
+            href={`/dashboard/location/${locationId}/menu`}
+            className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+          >
+            Menu engineering →
+          </Link>
+        </div>
         <div className="flex gap-1 rounded-md border p-0.5">
           {visibleTabs.map((t) => (
             <button
@@ -0,0 +1,146 @@
+'use client';
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { formatCurrency } from '@/lib/utils';
+import { useMemo } from 'react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { RevenueForecastDay } from '../types';
+
+const chartConfig = {
+  actual: { label: 'Actual', color: 'var(--chart-1)' },
+  forecast: { label: 'Forecast', color: 'var(--chart-2)' },
+  band: { label: '80% range', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+type ForecastPoint = RevenueForecastDay & {
+  label: string;
+  band: [number, number] | null;
+};
+
+function shortDate(iso: string): string {
+  const [, m, d] = iso.split('-');
+  return `${Number(m)}/${Number(d)}`;
+}
+
+/** Recent daily actuals, then the forecast line inside its confidence band; holidays are dotted. */
+export default function RevenueForecastChart({
+  days,
+  today,
+  className,
+}: {
+  days: RevenueForecastDay[];
+  today: string;
+  className?: string;
+}) {
+  const data = useMemo<ForecastPoint[]>(
+    () =>
+      days.map((d) => ({
+        ...d,
+        label: shortDate(d.date),
+        band: d.low != null && d.high != null ? [d.low, d.high] : null,
+      })),
+    [days],
+  );
+
+  if (data.length === 0) return null;
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={className ?? 'aspect-[16/6] min-h-[220px] w-full max-w-none'}
+    >
+      <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" opacity={0.4} />
+        <XAxis
+          dataKey="label"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          width={52}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(v: number) => `$${(v / 1000).toFixed(v >= 10_000 ? 0 : 1)}k`}
+          tick={{ fontSize: 10 }}
+        />
+        <ReferenceLine x={shortDate(today)} stroke="var(--muted-foreground)" strokeDasharray="4 4" />
+        {data
+          .filter((d) => d.holiday && d.forecast != null)
+          .map((d) => (
+            <ReferenceLine key={d.date} x={d.label} stroke="var(--destructive)" strokeOpacity={0.4} />
+          ))}
+        <Area
+          dataKey="band"
+          type="monotone"
+          stroke="none"
+          fill="var(--color-band)"
+          fillOpacity={0.18}
+          connectNulls={false}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="actual"
+          type="monotone"
+          stroke="var(--color-actual)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls={false}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="forecast"
+          type="monotone"
+          stroke="var(--color-forecast)"
+          strokeWidth={2}
+          strokeDasharray="5 4"
+          dot={false}
+          connectNulls={false}
+          isAnimationActive={false}
+        />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const p = active ? (payload?.[0]?.payload as ForecastPoint | undefined) : undefined;
+            if (!p) return null;
+            return (
+              <div className="rounded-md border bg-background px-2.5 py-1.5 text-xs shadow-sm">
+                <div className="font-medium">
+                  {p.date}
+                  {p.holiday && <span className="text-destructive"> · {p.holiday}</span>}
+                </div>
+                {p.actual != null ? (
+                  <div className="tabular-nums">Actual {formatCurrency(p.actual)}</div>
+                ) : (
+                  <>
+                    <div className="tabular-nums">Forecast {formatCurrency(p.forecast ?? 0)}</div>
+                    <div className="text-muted-foreground tabular-nums">
+                      {formatCurrency(p.low ?? 0)} – {formatCurrency(p.high ?? 0)}
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          }}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
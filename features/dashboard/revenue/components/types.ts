@@ -70,3 +70,63 @@ export type RevenuePeriodData = {
   /** Per-day, per-hour revenue for heatmap (America/Vancouver) */
   dayHourlySales?: CloverDayHourlyStat[];
 };
+
+export type RevenueForecastDay = {
+  /** ISO date e.g. 2026-04-07 */
+  date: string;
+  /** Clover net sales (dollars) for past days; null for forecast days. */
+  actual: number | null;
+  /** Projected net sales (dollars); null for past days. */
+  forecast: number | null;
+  /** ~80% band around `forecast`. */
+  low: number | null;
+  high: number | null;
+  /** BC statutory holiday name(s), when any. */
+  holiday: string | null;
+};
+
+export type RevenueForecastMonth = {
+  /** YYYY-MM */
+  yearMonth: string;
+  /** Net sales already booked this month. */
+  actual: number;
+  /** Projected net sales for the rest of the month. */
+  forecast: number;
+  /** ~80% band for the whole month (actual + forecast). */
+  low: number;
+  high: number;
+  /** Monthly revenue target from the annual goal, when configured. */
+  target: number | null;
+};
+
+export type RevenueGoalProjection = {
+  year: number;
+  goal: number;
+  actualToDate: number;
+  /** Year-to-date actual + forecast through Dec 31. */
+  projected: number;
+  low: number;
+  high: number;
+  /** Forecast average per remaining day vs what the goal needs. */
+  forecastDailyAvg: number;
+  requiredDailyAvg: number;
+};
+
+export type RevenueForecastData = {
+  /** Report-timezone date the forecast was made on. */
+  today: string;
+  /** Calendar months after the current one covered by `days`. */
+  months: number;
+  /** Recent weeks vs the same weeks last year; null without a year of history. */
+  yoyGrowth: number | null;
+  /** Average holiday sales vs a normal day of the same weekday. */
+  holidayFactor: number;
+  /** Recent actuals followed by the daily forecast. */
+  days: RevenueForecastDay[];
+  /** Current month and each forecast month. */
+  monthTotals: RevenueForecastMonth[];
+  /** Null when no annual goal is set for the current year. */
+  goal: RevenueGoalProjection | null;
+  cloverNotConfigured?: boolean;
+  cloverError?: string;
+};
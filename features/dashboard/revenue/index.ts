@@ -1,4 +1,5 @@
 export { getRevenuePeriodData, getAnnualRevenuePeriodData } from './utils/get-revenue-data';
 export { getCloverWeeklyRevenueData } from './utils/get-clover-weekly-revenue';
+export { getRevenueForecast } from './utils/forecast-revenue';
 export { ensureRevenueTargetForMonth } from './utils/ensure-revenue-target-for-month';
 export type { GetRevenuePeriodOptions } from './utils/get-revenue-data';
@@ -0,0 +1,429 @@
+/**
+ * Daily Clover net-sales forecast for one location, read from the local sales warehouse.
+ *
+ * Each future day = last year's average day in the same calendar month × year-over-year growth
+ * (recent weeks vs the same weekdays 52 weeks earlier) × the weekday index of the recent weeks
+ * × a holiday factor learnt from past BC statutory holidays. Without a year of history the month
+ * level falls back to the recent daily average. Bands are ~80% intervals from recent residuals,
+ * widening with distance from today.
+ */
+
+import {
+  getCloverReportTimeZone,
+  zonedCalendarDay,
+  zonedWeekdaySun0ForIsoDate,
+} from '@/lib/clover/report-timezone';
+import {
+  getCloverSalesCoverage,
+  loadCloverDailyNetSalesCents,
+} from '@/lib/clover/sales-store';
+import { refreshCloverSalesIfStale } from '@/lib/clover/sales-sync';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd } from '@/lib/utils';
+import type {
+  RevenueForecastData,
+  RevenueForecastDay,
+  RevenueForecastMonth,
+  RevenueGoalProjection,
+} from '../components/types';
+import { getBcPublicHolidayDisplay, isBcPublicHoliday } from './revenue-target-holidays';
+import { getRevenueTargetSnapshot } from './revenue-target-snapshot';
+
+export const MAX_REVENUE_FORECAST_MONTHS = 3;
+
+/** Recent weeks that set the weekday shape and the current level. */
+const RECENT_DAYS = 56;
+/** Minimum synced days in the recent window before forecasting at all. */
+const MIN_RECENT_DAYS = 28;
+/** Minimum synced days of last year's month before it is used for seasonality. */
+const MIN_SEASON_DAYS = 14;
+/** Past-actuals context shown before the forecast on the chart. */
+const CONTEXT_DAYS = 28;
+/** Same-weekday neighbours (± days) a past holiday is compared with. */
+const HOLIDAY_NEIGHBOUR_DAYS = 28;
+/** Two-sided 80% normal quantile. */
+const Z_80 = 1.2816;
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/** Level uncertainty grows with the distance from the last actual day. */
+function horizonWidening(daysAhead: number): number {
+  return Math.sqrt(1 + daysAhead / 30);
+}
+
+function lastDayOfMonth(yearMonth: string): string {
+  const [y, m] = yearMonth.split('-').map(Number);
+  return new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+}
+
+function addMonthsYm(yearMonth: string, months: number): string {
+  const [y, m] = yearMonth.split('-').map(Number);
+  const d = new Date(Date.UTC(y, m - 1 + months, 1));
+  return d.toISOString().slice(0, 7);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+type ForecastModel = {
+  /** Recent weekday (Sun=0) mean ÷ recent daily mean, non-holiday days only. */
+  weekdayIndex: number[];
+  recentMeanCents: number;
+  yoyGrowth: number | null;
+  holidayFactor: number;
+  /** Relative daily residual σ. */
+  dailySigma: number;
+  /** Relative week-to-week level σ. */
+  levelSigma: number;
+  /** Average cents per day by `YYYY-MM` (non-holiday days), for months with enough history. */
+  monthAvgCents: Map<string, number>;
+};
+
+/**
+ * Fit the model on `valueOn` (cents for days in the synced window, else null), ending at
+ * `lastActual`. Returns null when the recent window has too few synced days.
+ */
+function fitForecastModel(
+  valueOn: (day: string) => number | null,
+  firstDay: string,
+  lastActual: string,
+  dowOf: (day: string) => number,
+  holidayOn: (day: string) => boolean,
+): ForecastModel | null {
+  const recentStart = addDaysYmd(lastActual, -(RECENT_DAYS - 1));
+  const byDow: number[][] = [[], [], [], [], [], [], []];
+  const recentNormal: number[] = [];
+  const weekTotals: number[] = [];
+  let weekSum = 0;
+  let weekDays = 0;
+  let recentTotal = 0;
+  let recentDays = 0;
+  for (let i = 0; i < RECENT_DAYS; i++) {
+    const day = addDaysYmd(recentStart, i);
+    const v = valueOn(day);
+    if (v != null) {
+      recentTotal += v;
+      recentDays++;
+      weekSum += v;
+      weekDays++;
+      if (!holidayOn(day)) {
+        byDow[dowOf(day)].push(v);
+        recentNormal.push(v);
+      }
+    }
+    if (i % 7 === 6) {
+      if (weekDays === 7) weekTotals.push(weekSum);
+      weekSum = 0;
+      weekDays = 0;
+    }
+  }
+  if (recentDays < MIN_RECENT_DAYS) return null;
+
+  const recentMeanCents = mean(recentNormal);
+  const weekdayMeans = byDow.map((list) => (list.length > 0 ? mean(list) : recentMeanCents));
+  const weekdayIndex = weekdayMeans.map((mu) =>
+    recentMeanCents > 0 ? mu / recentMeanCents : 1,
+  );
+
+  // Residuals of the weekday-mean fit on the recent window.
+  const residuals: number[] = [];
+  for (let i = 0; i < RECENT_DAYS; i++) {
+    const day = addDaysYmd(recentStart, i);
+    const v = valueOn(day);
+    const fit = weekdayMeans[dowOf(day)];
+    if (v == null || holidayOn(day) || fit <= 0) continue;
+    residuals.push(((v - fit) / fit) ** 2);
+  }
+  const dailySigma = Math.sqrt(mean(residuals));
+  const weekMean = mean(weekTotals);
+  const levelSigma =
+    weekTotals.length > 1 && weekMean > 0
+      ? Math.sqrt(mean(weekTotals.map((w) => ((w - weekMean) / weekMean) ** 2)))
+      : 0;
+
+  // YoY growth: the same weekdays 52 weeks earlier, only when that window is fully synced.
+  let yoyGrowth: number | null = null;
+  let lastYearTotal = 0;
+  let lastYearComplete = true;
+  for (let i = 0; i < RECENT_DAYS; i++) {
+    const v = valueOn(addDaysYmd(recentStart, i - 364));
+    if (v == null) {
+      lastYearComplete = false;
+      break;
+    }
+    lastYearTotal += v;
+  }
+  if (lastYearComplete && lastYearTotal > 0 && recentTotal > 0) {
+    yoyGrowth = clamp(recentTotal / lastYearTotal, 0.5, 2);
+  }
+
+  // Holiday factor: each past holiday vs the mean of its same-weekday neighbours.
+  const holidayRatios: number[] = [];
+  const monthDays = new Map<string, number[]>();
+  for (let day = firstDay; day <= lastActual; day = addDaysYmd(day, 1)) {
+    const v = valueOn(day);
+    if (v == null) continue;
+    if (!holidayOn(day)) {
+      const ym = day.slice(0, 7);
+      const list = monthDays.get(ym) ?? [];
+      list.push(v);
+      monthDays.set(ym, list);
+      continue;
+    }
+    const neighbours: number[] = [];
+    for (let k = 7; k <= HOLIDAY_NEIGHBOUR_DAYS; k += 7) {
+      for (const d of [addDaysYmd(day, -k), addDaysYmd(day, k)]) {
+        const n = valueOn(d);
+        if (n != null && !holidayOn(d)) neighbours.push(n);
+      }
+    }
+    const ref = mean(neighbours);
+    if (ref > 0) holidayRatios.push(v / ref);
+  }
+  const holidayFactor = holidayRatios.length > 0 ? clamp(mean(holidayRatios), 0.3, 3) : 1;
+
+  const monthAvgCents = new Map<string, number>();
+  for (const [ym, list] of monthDays) {
+    if (list.length >= MIN_SEASON_DAYS) monthAvgCents.set(ym, mean(list));
+  }
+
+  return {
+    weekdayIndex,
+    recentMeanCents,
+    yoyGrowth,
+    holidayFactor,
+    dailySigma,
+    levelSigma,
+    monthAvgCents,
+  };
+}
+
+/** Expected cents per day in `yearMonth` before the weekday / holiday adjustment. */
+function monthLevelCents(model: ForecastModel, yearMonth: string): number {
+  const lastYear = model.monthAvgCents.get(addMonthsYm(yearMonth, -12));
+  if (lastYear == null || model.yoyGrowth == null || model.recentMeanCents <= 0) {
+    return model.recentMeanCents;
+  }
+  const level = lastYear * model.yoyGrowth;
+  return clamp(level, model.recentMeanCents * 0.5, model.recentMeanCents * 2);
+}
+
+type DayForecast = { cents: number; sigma: number };
+
+function forecastDay(
+  model: ForecastModel,
+  day: string,
+  daysAhead: number,
+  dow: number,
+  holiday: boolean,
+): DayForecast {
+  const cents =
+    monthLevelCents(model, day.slice(0, 7)) *
+    model.weekdayIndex[dow] *
+    (holiday ? model.holidayFactor : 1);
+  const levelSigma = model.levelSigma * horizonWidening(daysAhead);
+  return { cents, sigma: Math.sqrt(model.dailySigma ** 2 + levelSigma ** 2) };
+}
+
+/**
+ * Relative σ of a sum of `n` forecast days: daily noise averages out, the level error does not.
+ */
+function sumSigma(model: ForecastModel, n: number, midDaysAhead: number): number {
+  if (n <= 0) return 0;
+  const levelSigma = model.levelSigma * horizonWidening(midDaysAhead);
+  return Math.sqrt(model.dailySigma ** 2 / n + levelSigma ** 2);
+}
+
+function band(cents: number, sigma: number): { low: number; high: number } {
+  return {
+    low: Math.max(0, (cents * (1 - Z_80 * sigma)) / 100),
+    high: (cents * (1 + Z_80 * sigma)) / 100,
+  };
+}
+
+/**
+ * Forecast from today (report timezone) through the end of the month `months` calendar months
+ * after the current one, plus month totals vs revenue targets and the year-end projection vs
+ * the annual goal.
+ */
+export async function getRevenueForecast(
+  locationId: string,
+  months: number = MAX_REVENUE_FORECAST_MONTHS,
+): Promise<RevenueForecastData> {
+  const tz = getCloverReportTimeZone();
+  const today = zonedCalendarDay(Date.now(), tz);
+  const horizonMonths = clamp(Math.floor(months), 1, MAX_REVENUE_FORECAST_MONTHS);
+  const year = Number(today.slice(0, 4));
+
+  const base: RevenueForecastData = {
+    today,
+    months: horizonMonths,
+    yoyGrowth: null,
+    holidayFactor: 1,
+    days: [],
+    monthTotals: [],
+    goal: null,
+  };
+
+  const location = await prisma.location.findUnique({
+    where: { id: locationId },
+    select: { cloverToken: true, cloverMerchantId: true },
+  });
+  if (!location?.cloverToken?.trim() || !location.cloverMerchantId?.trim()) {
+    return { ...base, cloverNotConfigured: true };
+  }
+
+  // Last year from January (seasonality) plus the window 52 weeks before the recent weeks.
+  const historyFrom = addDaysYmd(`${year - 1}-01-01`, -(RECENT_DAYS + 7));
+  let lastActual = addDaysYmd(today, -1);
+  let dayCents: Map<string, number>;
+  let firstDay: string;
+  try {
+    await refreshCloverSalesIfStale(locationId);
+    const coverage = await getCloverSalesCoverage(locationId);
+    if (!coverage) {
+      return { ...base, cloverError: 'Clover sales have not been synced yet' };
+    }
+    const syncedThrough = zonedCalendarDay(coverage.syncedThrough.getTime(), tz);
+    if (syncedThrough < lastActual) lastActual = syncedThrough;
+    const backfilledFrom = zonedCalendarDay(coverage.backfilledFrom.getTime(), tz);
+    firstDay = backfilledFrom > historyFrom ? backfilledFrom : historyFrom;
+    dayCents = await loadCloverDailyNetSalesCents(locationId, firstDay, lastActual);
+  } catch (err) {
+    return { ...base, cloverError: err instanceof Error ? err.message : 'Database error' };
+  }
+
+  const dowCache = new Map<string, number>();
+  const dowOf = (day: string) => {
+    let dow = dowCache.get(day);
+    if (dow == null) {
+      dow = zonedWeekdaySun0ForIsoDate(day, tz);
+      dowCache.set(day, dow);
+    }
+    return dow;
+  };
+  const holidayCache = new Map<string, boolean>();
+  const holidayOn = (day: string) => {
+    let h = holidayCache.get(day);
+    if (h == null) {
+      h = isBcPublicHoliday(day);
+      holidayCache.set(day, h);
+    }
+    return h;
+  };
+  const valueOn = (day: string) =>
+    day >= firstDay && day <= lastActual ? (dayCents.get(day) ?? 0) : null;
+
+  const model = fitForecastModel(valueOn, firstDay, lastActual, dowOf, holidayOn);
+  if (!model) {
+    return {
+      ...base,
+      cloverError: `Forecast needs at least ${MIN_RECENT_DAYS} days of synced Clover sales`,
+    };
+  }
+
+  const firstForecast = addDaysYmd(lastActual, 1);
+  const currentMonth = today.slice(0, 7);
+  const horizonEnd = lastDayOfMonth(addMonthsYm(currentMonth, horizonMonths));
+  const yearEnd = `${year}-12-31`;
+  const lastDay = horizonEnd > yearEnd ? horizonEnd : yearEnd;
+
+  const forecasts = new Map<string, DayForecast>();
+  for (let day = firstForecast; day <= lastDay; day = addDaysYmd(day, 1)) {
+    forecasts.set(
+      day,
+      forecastDay(model, day, daysBetween(lastActual, day), dowOf(day), holidayOn(day)),
+    );
+  }
+
+  const days: RevenueForecastDay[] = [];
+  const contextStart = addDaysYmd(lastActual, -(CONTEXT_DAYS - 1));
+  for (let day = contextStart; day <= horizonEnd; day = addDaysYmd(day, 1)) {
+    const f = forecasts.get(day);
+    const actual = valueOn(day);
+    days.push({
+      date: day,
+      actual: f ? null : (actual ?? 0) / 100,
+      forecast: f ? f.cents / 100 : null,
+      low: f ? band(f.cents, f.sigma).low : null,
+      high: f ? band(f.cents, f.sigma).high : null,
+      holiday: holidayOn(day) ? getBcPublicHolidayDisplay(day) : null,
+    });
+  }
+
+  /** Actual cents through `lastActual` plus the forecast sum with its band, for `from`..`to`. */
+  const sumRange = (from: string, to: string) => {
+    let actualCents = 0;
+    let forecastCents = 0;
+    let n = 0;
+    for (let day = from; day <= to; day = addDaysYmd(day, 1)) {
+      const f = forecasts.get(day);
+      if (f) {
+        forecastCents += f.cents;
+        n++;
+      } else {
+        actualCents += valueOn(day) ?? 0;
+      }
+    }
+    const first = from > firstForecast ? from : firstForecast;
+    const sigma = sumSigma(model, n, daysBetween(lastActual, first) + n / 2);
+    const { low, high } = band(forecastCents, sigma);
+    return { actual: actualCents / 100, forecast: forecastCents / 100, low, high };
+  };
+
+  const monthKeys = Array.from({ length: horizonMonths + 1 }, (_, i) =>
+    addMonthsYm(currentMonth, i),
+  );
+  const targets = await Promise.all(
+    monthKeys.map((ym) => getRevenueTargetSnapshot(locationId, ym).catch(() => null)),
+  );
+  const monthTotals: RevenueForecastMonth[] = monthKeys.map((ym, i) => {
+    const totals = sumRange(`${ym}-01`, lastDayOfMonth(ym));
+    return {
+      yearMonth: ym,
+      actual: totals.actual,
+      forecast: totals.forecast,
+      low: totals.actual + totals.low,
+      high: totals.actual + totals.high,
+      target: targets[i]?.monthlyTarget ?? null,
+    };
+  });
+
+  let goal: RevenueGoalProjection | null = null;
+  const goalRow = await prisma.revenueAnnualGoal.findUnique({
+    where: { locationId_calendarYear: { locationId, calendarYear: year } },
+    select: { goalAmount: true },
+  });
+  const goalAmount = goalRow ? Number(goalRow.goalAmount) : NaN;
+  if (Number.isFinite(goalAmount) && goalAmount > 0) {
+    const totals = sumRange(`${year}-01-01`, yearEnd);
+    const remainingDays = daysBetween(lastActual, yearEnd);
+    goal = {
+      year,
+      goal: goalAmount,
+      actualToDate: totals.actual,
+      projected: totals.actual + totals.forecast,
+      low: totals.actual + totals.low,
+      high: totals.actual + totals.high,
+      forecastDailyAvg: remainingDays > 0 ? totals.forecast / remainingDays : 0,
+      requiredDailyAvg:
+        remainingDays > 0 ? Math.max(0, goalAmount - totals.actual) / remainingDays : 0,
+    };
+  }
+
+  return {
+    ...base,
+    yoyGrowth: model.yoyGrowth,
+    holidayFactor: model.holidayFactor,
+    days,
+    monthTotals,
+    goal,
+  };
+}
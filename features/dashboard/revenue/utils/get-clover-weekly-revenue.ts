@@ -3,9 +3,15 @@ import {
   fetchCloverItemIdsByCategory,
   findSeasonalCategory,
 } from '@/lib/clover/fetch-categories';
-import { fetchCloverOrderItemsInRange } from '@/lib/clover/fetch-orders';
-import { fetchCloverPaymentsInRange } from '@/lib/clover/fetch-payments';
+import type { CloverLineItemResult } from '@/lib/clover/fetch-orders';
+import type { CloverApiPayment } from '@/lib/clover/fetch-payments';
 import { cloverPaymentNetSalesCents } from '@/lib/clover/payment-net-sales';
+import {
+  getCloverSalesCoverage,
+  loadCloverLineItems,
+  loadCloverPayments,
+} from '@/lib/clover/sales-store';
+import { refreshCloverSalesIfStale } from '@/lib/clover/sales-sync';
 import {
   getCloverReportTimeZone,
   zonedCalendarDay,
@@ -64,7 +70,7 @@ function emptyWeekBars(
 
 /** Build top/bottom 10 menu item stats from raw line items. */
 function buildMenuStats(
-  lineItems: Awaited<ReturnType<typeof fetchCloverOrderItemsInRange>>,
+  lineItems: CloverLineItemResult[],
   weekTotalRevenue: number,
   seasonalItemIds: Set<string>,
 ): {
@@ -128,7 +134,7 @@ function buildMenuStats(
 
 /** Build per-day-per-hour revenue data from payments. */
 function buildDayHourlySales(
-  payments: Awaited<ReturnType<typeof fetchCloverPaymentsInRange>>,
+  payments: CloverApiPayment[],
   weekStart: Date,
   weekEnd: Date,
   timeZone: string,
@@ -173,7 +179,8 @@ function buildDayHourlySales(
 }
 
 /**
- * Weekly Clover **net sales** from Payments + Orders APIs (not QuickBooks P&L).
+ * Weekly Clover **net sales** from the local Clover sales warehouse (not QuickBooks P&L); the
+ * current week's latest sales are pulled first when the last sync is stale.
  * Per payment: `amount − taxAmount − tipAmount` (Clover fields, cents), same as export script.
  */
 export async function getCloverWeeklyRevenueData(
@@ -215,31 +222,23 @@ export async function getCloverWeeklyRevenueData(
   const prevStartMs = prevRange.weekStart.getTime();
   const prevEndMs = prevRange.weekEnd.getTime() + 24 * 3600_000;
 
-  // Sequential Clover calls — parallel bursts were triggering 429 Too Many Requests.
-  let payments: Awaited<ReturnType<typeof fetchCloverPaymentsInRange>>;
-  let prevPayments: Awaited<ReturnType<typeof fetchCloverPaymentsInRange>>;
-  let orderItems: Awaited<ReturnType<typeof fetchCloverOrderItemsInRange>>;
+  let payments: CloverApiPayment[];
+  let prevPayments: CloverApiPayment[];
+  let orderItems: CloverLineItemResult[];
   let categories: Awaited<ReturnType<typeof fetchCloverCategories>>;
 
   try {
-    payments = await fetchCloverPaymentsInRange(
-      merchantId,
-      token,
-      startMs,
-      endMs,
-    );
-    prevPayments = await fetchCloverPaymentsInRange(
-      merchantId,
-      token,
-      prevStartMs,
-      prevEndMs,
-    );
-    orderItems = await fetchCloverOrderItemsInRange(
-      merchantId,
-      token,
-      startMs,
-      endMs,
-    );
+    await refreshCloverSalesIfStale(locationId);
+    if (!(await getCloverSalesCoverage(locationId))) {
+      return emptyWeekBars(weekStart, weekEnd, {
+        cloverError: 'Clover sales have not been synced yet',
+      });
+    }
+    [payments, prevPayments, orderItems] = await Promise.all([
+      loadCloverPayments(locationId, startMs, endMs),
+      loadCloverPayments(locationId, prevStartMs, prevEndMs),
+      loadCloverLineItems(locationId, startMs, endMs),
+    ]);
     categories = await fetchCloverCategories(merchantId, token);
   } catch (err) {
     return emptyWeekBars(weekStart, weekEnd, {
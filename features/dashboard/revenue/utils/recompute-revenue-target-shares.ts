@@ -5,9 +5,11 @@ import {
   zonedCalendarDay,
 } from '@/lib/clover/report-timezone';
 import { prisma } from '@/lib/core/prisma';
-import { cloverPaymentNetSalesCents } from '@/lib/clover/payment-net-sales';
+import {
+  getCloverSalesCoverage,
+  loadCloverDailyNetSalesCents,
+} from '@/lib/clover/sales-store';
 import { revenueBucketKeyForIsoDate } from './revenue-target-bucket-key';
-import { fetchCloverPaymentsChunked } from './revenue-target-fetch-payments-chunked';
 import type { RevenueTargetSharesPayload } from './revenue-target-types';
 
 const MIN_REF_MONTHS = 0;
@@ -15,7 +17,8 @@ const MAX_REF_MONTHS = 24;
 
 /**
  * Recompute Clover bucket totals from `referencePeriodMonths` full calendar months
- * immediately before `appliesYearMonth` (applies month excluded), Vancouver dates.
+ * immediately before `appliesYearMonth` (applies month excluded), Vancouver dates, read from the
+ * local Clover sales warehouse (throws until it has been synced through the window).
  * **`referencePeriodMonths === 0`**: no mix / no targets — stores empty buckets and does
  * not call Clover (works without merchant credentials).
  */
@@ -39,9 +42,9 @@ export async function recomputeRevenueTargetSharesForLocation(
     throw new Error('Invalid appliesYearMonth');
   }
 
-  let buckets: Record<string, number> = {};
-  let bucketDayCounts: Record<string, number> = {};
-  let bucketActiveDayCounts: Record<string, number> = {};
+  const buckets: Record<string, number> = {};
+  const bucketDayCounts: Record<string, number> = {};
+  const bucketActiveDayCounts: Record<string, number> = {};
   let totalCents = 0;
 
   if (n > 0) {
@@ -57,27 +60,19 @@ export async function recomputeRevenueTargetSharesForLocation(
 
     const windowEnd = endOfMonth(subMonths(appliesStart, 1));
     const windowStart = startOfMonth(subMonths(appliesStart, n));
-    const startMs = windowStart.getTime();
-    const endMs = windowEnd.getTime();
-
-    const payments = await fetchCloverPaymentsChunked(
-      merchantId,
-      token,
-      startMs,
-      endMs,
-    );
+    const coverage = await getCloverSalesCoverage(locationId);
+    if (!coverage || coverage.syncedThrough < windowEnd) {
+      throw new Error('Clover sales for this period have not been synced yet');
+    }
 
     const tz = getCloverReportTimeZone();
-    // Accumulate net sales per day so we can count days that actually had sales.
-    const dayTotals = new Map<string, number>();
-    for (const p of payments) {
-      if (p.createdTime == null || typeof p.amount !== 'number') continue;
-      const day = zonedCalendarDay(p.createdTime, tz);
+    const startIso = zonedCalendarDay(windowStart.getTime(), tz);
+    const endIso = zonedCalendarDay(windowEnd.getTime(), tz);
+    const dayTotals = await loadCloverDailyNetSalesCents(locationId, startIso, endIso);
+    for (const [day, cents] of dayTotals) {
       const key = revenueBucketKeyForIsoDate(day);
-      const cents = cloverPaymentNetSalesCents(p);
       buckets[key] = (buckets[key] ?? 0) + cents;
       totalCents += cents;
-      dayTotals.set(day, (dayTotals.get(day) ?? 0) + cents);
     }
 
     // Active days: only count days that had net sales > 0.
@@ -88,8 +83,6 @@ export async function recomputeRevenueTargetSharesForLocation(
       }
     }
 
-    const startIso = zonedCalendarDay(windowStart.getTime(), tz);
-    const endIso = zonedCalendarDay(windowEnd.getTime(), tz);
     for (let cur = parseISO(startIso); ; cur = addDays(cur, 1)) {
       const iso = format(cur, 'yyyy-MM-dd');
       if (iso > endIso) break;
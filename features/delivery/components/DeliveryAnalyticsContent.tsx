@@ -0,0 +1,281 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { type ColumnDef } from '@tanstack/react-table';
+import { ChartBarStacked } from '@/components/chart/BarStackedChart';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ChartConfig } from '@/components/ui/chart';
+import { DataTable } from '@/components/ui/data-table';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import type {
+  DeliveryAnalytics,
+  DeliveryPerformanceRow,
+  DeliveryTrendBucket,
+} from '../types/delivery-analytics';
+
+const stopsChartConfig = {
+  onTime: { label: 'On time', color: 'var(--chart-2)' },
+  late: { label: 'Late', color: 'var(--destructive)' },
+  noWindow: { label: 'No window', color: 'var(--chart-4)' },
+} satisfies ChartConfig;
+
+const tasksChartConfig = {
+  tasksCompleted: { label: 'Completed', color: 'var(--chart-2)' },
+  tasksDismissed: { label: 'Dismissed', color: 'var(--chart-5)' },
+} satisfies ChartConfig;
+
+const distanceChartConfig = {
+  distanceKm: { label: 'Km driven', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const CHART_CLASS = 'aspect-[16/7] min-h-[200px] w-full max-w-none';
+
+function formatMinutes(minutes: number | null): string {
+  return minutes == null ? '—' : `${Math.round(minutes)} min`;
+}
+
+function formatRate(rate: number | null): string {
+  return rate == null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function formatKm(km: number | null): string {
+  return km == null ? '—' : `${km.toFixed(1)} km`;
+}
+
+function performanceColumns(
+  nameHeader: string,
+  showDistance: boolean,
+): ColumnDef<DeliveryPerformanceRow>[] {
+  const columns: ColumnDef<DeliveryPerformanceRow>[] = [
+    { accessorKey: 'name', header: nameHeader },
+    {
+      accessorKey: 'visitedStops',
+      header: 'Stops',
+      cell: ({ row }) =>
+        `${row.original.visitedStops} / ${row.original.scheduledStops}`,
+    },
+    { accessorKey: 'activeDays', header: 'Days' },
+    {
+      accessorKey: 'stopsPerDay',
+      header: 'Stops / day',
+      cell: ({ row }) => row.original.stopsPerDay.toFixed(1),
+    },
+    {
+      accessorKey: 'avgDwellMinutes',
+      header: 'Avg dwell',
+      cell: ({ row }) => formatMinutes(row.original.avgDwellMinutes),
+    },
+    {
+      accessorKey: 'onTimeRate',
+      header: 'On time',
+      cell: ({ row }) =>
+        row.original.windowedStops > 0
+          ? `${formatRate(row.original.onTimeRate)} (${row.original.onTimeStops}/${row.original.windowedStops})`
+          : '—',
+    },
+    { accessorKey: 'tasksCompleted', header: 'Tasks done' },
+    { accessorKey: 'tasksDismissed', header: 'Dismissed' },
+  ];
+  if (showDistance) {
+    columns.push({
+      accessorKey: 'distanceKm',
+      header: 'Distance',
+      cell: ({ row }) => formatKm(row.original.distanceKm),
+    });
+  }
+  return columns;
+}
+
+const driverColumns = performanceColumns('Driver', true);
+const locationColumns = performanceColumns('Location', false);
+
+function StatCard({ title, value }: { title: string; value: string }) {
+  return (
+    <Card className="gap-2 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm font-normal text-muted-foreground">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 text-2xl font-semibold tabular-nums">
+        {value}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Historical delivery KPIs: range picker, totals, weekly/monthly trends, per-driver and
+ * per-location tables. The range lives in the URL so the server page re-queries.
+ */
+export function DeliveryAnalyticsContent({
+  analytics,
+}: {
+  analytics: DeliveryAnalytics;
+}) {
+  const router = useRouter();
+  const [from, setFrom] = useState(analytics.from);
+  const [to, setTo] = useState(analytics.to);
+  const [bucket, setBucket] = useState<DeliveryTrendBucket>('week');
+
+  const { totals } = analytics;
+  const trend = bucket === 'week' ? analytics.weekly : analytics.monthly;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-2xl font-semibold">Analytics</h1>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">From</p>
+            <YmdDateInput
+              className="h-9 w-[180px]"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">To</p>
+            <YmdDateInput
+              className="h-9 w-[180px]"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button
+            size="sm"
+            disabled={!from || !to || from > to}
+            onClick={() =>
+              router.push(
+                `/delivery/analytics?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
+              )
+            }
+          >
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-3 xl:grid-cols-6">
+        <StatCard title="Stops visited" value={String(totals.visitedStops)} />
+        <StatCard
+          title="Stops / driver-day"
+          value={
+            analytics.drivers.length > 0
+              ? (
+                  totals.visitedStops /
+                  Math.max(
+                    1,
+                    analytics.drivers.reduce((n, d) => n + d.activeDays, 0),
+                  )
+                ).toFixed(1)
+              : '—'
+          }
+        />
+        <StatCard
+          title="Avg dwell"
+          value={formatMinutes(totals.avgDwellMinutes)}
+        />
+        <StatCard title="On-time rate" value={formatRate(totals.onTimeRate)} />
+        <StatCard
+          title="Tasks done / dismissed"
+          value={`${totals.tasksCompleted} / ${totals.tasksDismissed}`}
+        />
+        <StatCard title="Distance" value={formatKm(totals.distanceKm)} />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-medium">Trends</h2>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={bucket === 'week' ? 'default' : 'outline'}
+              onClick={() => setBucket('week')}
+            >
+              Weekly
+            </Button>
+            <Button
+              size="sm"
+              variant={bucket === 'month' ? 'default' : 'outline'}
+              onClick={() => setBucket('month')}
+            >
+              Monthly
+            </Button>
+          </div>
+        </div>
+        {trend.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+            No deliveries in this range.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 xl:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Stops by arrival</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartBarStacked
+                  chartData={trend}
+                  chartConfig={stopsChartConfig}
+                  className={CHART_CLASS}
+                  showTooltipLabel
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Tasks</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartBarStacked
+                  chartData={trend}
+                  chartConfig={tasksChartConfig}
+                  className={CHART_CLASS}
+                  showTooltipLabel
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Distance driven</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartBarStacked
+                  chartData={trend}
+                  chartConfig={distanceChartConfig}
+                  className={CHART_CLASS}
+                  showTooltipLabel
+                />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="font-medium">Drivers</h2>
+        <DataTable<DeliveryPerformanceRow>
+          columns={driverColumns}
+          data={analytics.drivers}
+          isFetching={false}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="font-medium">Locations</h2>
+        <p className="text-muted-foreground text-xs">
+          On time = arrived by the stop&apos;s planned end, or the delivery
+          location&apos;s window end when the stop has none.
+        </p>
+        <DataTable<DeliveryPerformanceRow>
+          columns={locationColumns}
+          data={analytics.locations}
+          isFetching={false}
+        />
+      </div>
+    </div>
+  );
+}
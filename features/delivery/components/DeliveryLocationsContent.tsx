@@ -24,6 +24,7 @@ import { Pencil, Trash2 } from 'lucide-react';
 import type { DeliveryLocationRow, LocationOption } from '@/features/delivery/types/locations';
 import { useDeliveryLocations } from '@/features/delivery/hooks/useDeliveryLocations';
 import { useConfirmDialog } from '@/features/delivery/hooks/useConfirmDialog';
+import { formatDeliveryWindow } from '@/features/delivery/lib/route-optimizer';
 import { AddDeliveryLocationDialog } from './AddDeliveryLocationDialog';
 import { EditableCell } from './EditableCell';
 
@@ -107,6 +108,15 @@ export function DeliveryLocationsContent({
         </span>
       ),
     },
+    {
+      id: 'window',
+      header: 'Window',
+      cell: ({ row }) => (
+        <span className="text-muted-foreground text-sm tabular-nums">
+          {formatDeliveryWindow(row.original.windowStart, row.original.windowEnd)}
+        </span>
+      ),
+    },
     {
       id: 'locationLink',
       header: 'Linked location',
@@ -247,6 +257,28 @@ export function DeliveryLocationsContent({
                   />
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>Window from</Label>
+                  <Input
+                    type="time"
+                    value={editForm.windowStart ?? ''}
+                    onChange={(e) =>
+                      setEditForm((f) => ({ ...f, windowStart: e.target.value }))
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Window until</Label>
+                  <Input
+                    type="time"
+                    value={editForm.windowEnd ?? ''}
+                    onChange={(e) =>
+                      setEditForm((f) => ({ ...f, windowEnd: e.target.value }))
+                    }
+                  />
+                </div>
+              </div>
               {options.length > 0 && (
                 <div>
                   <Label>Link to main location</Label>
@@ -26,6 +26,12 @@ const DeliveryNav = () => {
       >
         Locations
       </Link>
+      <Link
+        href="/delivery/analytics"
+        className={linkClass('/delivery/analytics')}
+      >
+        Analytics
+      </Link>
     </nav>
   );
 };
@@ -4,12 +4,15 @@ import type { ReactNode } from 'react';
 import Link from 'next/link';
 import { format } from 'date-fns';
 import type { DriverRow } from '../types/delivery-schedule-types';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 
 export type DeliveryOverviewSchedulePanelProps = {
   selectedDriver: DriverRow | undefined;
   isToday: boolean;
   selectedDate: Date;
+  /** Pending stops projected past their planned window. */
+  lateCount?: number;
   children: ReactNode;
 };
 
@@ -20,21 +23,34 @@ export function DeliveryOverviewSchedulePanel({
   selectedDriver,
   isToday,
   selectedDate,
+  lateCount = 0,
   children,
 }: DeliveryOverviewSchedulePanelProps) {
   return (
     <div className="border rounded-lg flex flex-col min-h-0 w-full bg-card">
       <div className="p-4 border-b">
         <div className="flex justify-between gap-2">
-          <h2 className="font-medium">Driver schedule</h2>
+          <h2 className="font-medium flex items-center gap-2">
+            Driver schedule
+            {lateCount > 0 && <Badge variant="red">{lateCount} late</Badge>}
+          </h2>
           {selectedDriver && (
-            <Button variant="outline" size="sm">
-              <Link
-                href={`/delivery/drivers/${selectedDriver.id}/fixed-schedule`}
-              >
-                Fixed schedule
-              </Link>
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm">
+                <Link
+                  href={`/delivery/drivers/${selectedDriver.id}/replay?date=${format(selectedDate, 'yyyy-MM-dd')}`}
+                >
+                  Replay
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm">
+                <Link
+                  href={`/delivery/drivers/${selectedDriver.id}/fixed-schedule`}
+                >
+                  Fixed schedule
+                </Link>
+              </Button>
+            </div>
           )}
         </div>
         <p className="text-muted-foreground text-sm mt-1">
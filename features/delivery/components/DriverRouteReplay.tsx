@@ -0,0 +1,318 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Pause, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import DriverTrackingMap, { type TrackingPoint } from './DriverTrackingMap';
+import type { DriverRouteReplayData } from '../types/delivery-overview';
+import { formatDeliveryWindow } from '../lib/route-optimizer';
+
+const TICK_MS = 200;
+/** Replay seconds per real second. */
+const SPEEDS = [60, 300, 900] as const;
+
+type TimedPoint = { lat: number; lng: number; t: number };
+
+function toMs(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const t = new Date(iso).getTime();
+  return Number.isNaN(t) ? null : t;
+}
+
+/** Position at `t`, linearly interpolated between the surrounding fixes. */
+function positionAt(points: TimedPoint[], t: number): TimedPoint | null {
+  if (points.length === 0 || t < points[0].t) return null;
+  let i = 0;
+  while (i + 1 < points.length && points[i + 1].t <= t) i++;
+  const a = points[i];
+  const b = points[i + 1];
+  if (!b || b.t === a.t) return a;
+  const f = (t - a.t) / (b.t - a.t);
+  return { lat: a.lat + (b.lat - a.lat) * f, lng: a.lng + (b.lng - a.lng) * f, t };
+}
+
+/**
+ * Scrub / play back a driver's route for any past day: the travelled path up to the scrub time,
+ * the rest of the day faded, and stops marked once the driver reached them.
+ */
+export function DriverRouteReplay({
+  driverId,
+  dateStr,
+}: {
+  driverId: string;
+  dateStr: string;
+}) {
+  const router = useRouter();
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    data: DriverRouteReplayData | null;
+  } | null>(null);
+  const [scrub, setScrub] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<(typeof SPEEDS)[number]>(300);
+
+  const key = `${driverId}:${dateStr}`;
+  const data = loaded?.key === key ? loaded.data : null;
+  const loading = loaded?.key !== key;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(
+      `/api/delivery/driver/${encodeURIComponent(driverId)}/replay?date=${encodeURIComponent(dateStr)}`,
+    )
+      .then(async (res) => {
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json?.error ?? 'Failed to load route');
+        if (!cancelled) {
+          setLoaded({ key, data: json as DriverRouteReplayData });
+          setScrub(null);
+          setPlaying(false);
+        }
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        setLoaded({ key, data: null });
+        toast.error(e instanceof Error ? e.message : 'Failed to load route');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [driverId, dateStr, key]);
+
+  const points = useMemo<TimedPoint[]>(
+    () =>
+      (data?.path ?? []).flatMap((p) => {
+        const t = toMs(p.createdAt);
+        return t == null ? [] : [{ lat: p.lat, lng: p.lng, t }];
+      }),
+    [data],
+  );
+
+  const range = useMemo(() => {
+    const times = [
+      ...points.map((p) => p.t),
+      ...(data?.stops ?? []).flatMap((s) =>
+        [toMs(s.arrivedAt), toMs(s.departedAt)].filter(
+          (t): t is number => t != null,
+        ),
+      ),
+    ];
+    if (times.length === 0) return null;
+    return { start: Math.min(...times), end: Math.max(...times) };
+  }, [points, data]);
+
+  const t = scrub ?? range?.end ?? 0;
+
+  useEffect(() => {
+    if (!playing || !range) return;
+    const id = window.setInterval(() => {
+      setScrub((prev) => {
+        const next = (prev ?? range.start) + speed * TICK_MS;
+        if (next >= range.end) {
+          setPlaying(false);
+          return range.end;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => window.clearInterval(id);
+  }, [playing, range, speed]);
+
+  const travelled: TrackingPoint[] = useMemo(() => {
+    const upTo = points.filter((p) => p.t <= t);
+    const here = positionAt(points, t);
+    if (here && upTo[upTo.length - 1]?.t !== here.t) upTo.push(here);
+    return upTo.map((p) => ({ lat: p.lat, lng: p.lng }));
+  }, [points, t]);
+
+  const here = positionAt(points, t);
+  // Only show arrivals/departures that happened by the scrub time.
+  const stopsAtT = (data?.stops ?? []).map((s) => ({
+    ...s,
+    arrivedAt: (toMs(s.arrivedAt) ?? Infinity) <= t ? s.arrivedAt : null,
+    departedAt: (toMs(s.departedAt) ?? Infinity) <= t ? s.departedAt : null,
+  }));
+
+  const setDate = (next: string) => {
+    if (!next) return;
+    router.replace(
+      `/delivery/drivers/${encodeURIComponent(driverId)}/replay?date=${encodeURIComponent(next)}`,
+      { scroll: false },
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Route replay</h1>
+          <p className="text-muted-foreground text-sm">
+            {data?.driver.name ?? 'Driver'}
+            {data?.archived ? (
+              <Badge variant="gray" className="ml-2">
+                Simplified archive
+              </Badge>
+            ) : null}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Date</p>
+          <YmdDateInput
+            className="h-9 w-[180px]"
+            value={dateStr}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start">
+        <div className="lg:col-span-2 space-y-3">
+          <div className="h-[560px] rounded-lg overflow-hidden border bg-card">
+            {loading ? (
+              <div className="h-full flex items-center justify-center text-muted-foreground">
+                Loading…
+              </div>
+            ) : (
+              <DriverTrackingMap
+                key={key}
+                className="h-full"
+                currentLocation={
+                  here
+                    ? {
+                        lat: here.lat,
+                        lng: here.lng,
+                        updatedAt: new Date(here.t).toISOString(),
+                      }
+                    : null
+                }
+                currentLocationLabel={
+                  here ? `Driver at ${format(here.t, 'h:mm:ss a')}` : undefined
+                }
+                stops={stopsAtT}
+                path={travelled}
+                ghostPath={points}
+              />
+            )}
+          </div>
+
+          {range ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (!playing && t >= range.end) setScrub(range.start);
+                  setPlaying((p) => !p);
+                }}
+                aria-label={playing ? 'Pause' : 'Play'}
+              >
+                {playing ? (
+                  <Pause className="h-4 w-4" />
+                ) : (
+                  <Play className="h-4 w-4" />
+                )}
+              </Button>
+              <input
+                type="range"
+                className="flex-1 min-w-[200px] accent-primary"
+                min={range.start}
+                max={range.end}
+                step={1000}
+                value={t}
+                onChange={(e) => setScrub(Number(e.target.value))}
+                aria-label="Replay time"
+              />
+              <span className="text-sm tabular-nums w-24 text-right">
+                {format(t, 'h:mm:ss a')}
+              </span>
+              <Select
+                value={String(speed)}
+                onValueChange={(v) =>
+                  setSpeed(Number(v) as (typeof SPEEDS)[number])
+                }
+              >
+                <SelectTrigger className="h-8 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPEEDS.map((s) => (
+                    <SelectItem key={s} value={String(s)}>
+                      {s / 60}m/s
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : !loading ? (
+            <p className="text-muted-foreground text-sm">
+              No GPS track or stop activity for this day.
+            </p>
+          ) : null}
+        </div>
+
+        <div className="border rounded-lg bg-card">
+          <div className="p-4 border-b">
+            <h2 className="font-medium">Stops</h2>
+            <p className="text-muted-foreground text-xs mt-1">
+              Click an arrival to jump to it.
+            </p>
+          </div>
+          <ol className="divide-y">
+            {(data?.stops ?? []).map((s, i) => {
+              const arrivedMs = toMs(s.arrivedAt);
+              const planned =
+                s.plannedStart || s.plannedEnd
+                  ? formatDeliveryWindow(s.plannedStart, s.plannedEnd)
+                  : null;
+              return (
+                <li key={s.id} className="px-4 py-2 text-sm">
+                  <p className="font-medium">
+                    {i + 1}. {s.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground flex flex-wrap gap-x-3">
+                    {planned && <span>Planned {planned}</span>}
+                    {arrivedMs != null ? (
+                      <button
+                        type="button"
+                        className="text-primary hover:underline"
+                        onClick={() => {
+                          setPlaying(false);
+                          setScrub(arrivedMs);
+                        }}
+                      >
+                        Arrived {format(arrivedMs, 'h:mm a')}
+                      </button>
+                    ) : (
+                      <span>Not arrived</span>
+                    )}
+                    {s.departedAt && (
+                      <span>Departed {format(new Date(s.departedAt), 'h:mm a')}</span>
+                    )}
+                  </p>
+                </li>
+              );
+            })}
+            {!loading && (data?.stops.length ?? 0) === 0 && (
+              <li className="px-4 py-3 text-sm text-muted-foreground">
+                No stops scheduled.
+              </li>
+            )}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,11 @@ import { parseISO, isValid } from 'date-fns';
 import { useCallback, useState } from 'react';
 import { toast } from 'sonner';
 import { markHubLocalMutationCommitted } from '@/lib/delivery/hub-local-mutation';
-import type { DailySchedule, Stop } from '../types/delivery-schedule-types';
+import type {
+  DailySchedule,
+  Stop,
+  StopEta,
+} from '../types/delivery-schedule-types';
 import { SortableStopRow } from './SortableStopRow';
 
 function isStopCompleted(stop: Stop): boolean {
@@ -115,11 +119,13 @@ function buildRenderPairs(
 function OlderCompletedStopsGroup({
   elderly,
   schedule,
+  etaByStopId,
   onEditStop,
   onDeleteStop,
 }: {
   elderly: StopWithIndex[];
   schedule: DailySchedule;
+  etaByStopId?: Record<string, StopEta>;
   onEditStop: (schedule: DailySchedule, stopIndex: number) => void;
   onDeleteStop: (schedule: DailySchedule, stopIndex: number) => void;
 }) {
@@ -154,6 +160,7 @@ function OlderCompletedStopsGroup({
               onEditStop={onEditStop}
               onDeleteStop={onDeleteStop}
               defaultCollapsedWhenCompleted
+              eta={etaByStopId?.[stop.id]}
             />
           ))}
         </CollapsibleContent>
@@ -171,6 +178,7 @@ export function DriverScheduleCard({
   onAddStop,
   onReorderStops,
   onDeleteStop,
+  etaByStopId,
 }: {
   schedule: DailySchedule;
   dateStr: string;
@@ -180,6 +188,8 @@ export function DriverScheduleCard({
   onAddStop: (schedule: DailySchedule, atIndex?: number) => void;
   onReorderStops: (schedule: DailySchedule, newStops: Stop[]) => void;
   onDeleteStop: (schedule: DailySchedule, stopIndex: number) => void;
+  /** Live ETA per stop id; omitted where ETAs aren't shown. */
+  etaByStopId?: Record<string, StopEta>;
 }) {
   const [adding, setAdding] = useState(false);
   const stops = schedule.stops ?? [];
@@ -248,6 +258,7 @@ export function DriverScheduleCard({
                 <OlderCompletedStopsGroup
                   elderly={pair.elderly}
                   schedule={schedule}
+                  etaByStopId={etaByStopId}
                   onEditStop={onEditStop}
                   onDeleteStop={onDeleteStop}
                 />
@@ -264,6 +275,7 @@ export function DriverScheduleCard({
                       expandedLatestCompletedId === pair.stop.id
                     )
                   }
+                  eta={etaByStopId?.[pair.stop.id]}
                 />
               )}
             </div>
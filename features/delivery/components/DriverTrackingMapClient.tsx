@@ -11,6 +11,7 @@ import {
 } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { format, isValid, parseISO } from 'date-fns';
 
 /** Default map view when no GPS, stops, or path points exist (950 Seaborne Ave, Port Coquitlam, BC). */
 const DEFAULT_MAP_CENTER: [number, number] = [49.25616, -122.73944];
@@ -34,8 +35,17 @@ export type DriverTrackingMapClientProps = {
   className?: string;
   /** Increment (e.g. on button click) to pan/zoom the map to the driver's current position. */
   focusDriverLocationRequest?: number;
+  /** Full route drawn faded under `path` (route replay). */
+  ghostPath?: TrackingPoint[];
+  /** Popup text for the driver marker. */
+  currentLocationLabel?: string;
 };
 
+function formatStopTime(iso: string): string {
+  const d = parseISO(iso);
+  return isValid(d) ? format(d, 'h:mm a') : '';
+}
+
 function FlyToDriverLocationOnRequest({
   currentLocation,
   requestId,
@@ -89,6 +99,8 @@ export default function DriverTrackingMapClient({
   path,
   className,
   focusDriverLocationRequest = 0,
+  ghostPath,
+  currentLocationLabel = 'Current position (driver)',
 }: DriverTrackingMapClientProps) {
   const pointsWithCoords = useMemo(
     () =>
@@ -150,6 +162,14 @@ export default function DriverTrackingMapClient({
           currentLocation={currentLocation}
           requestId={focusDriverLocationRequest}
         />
+        {ghostPath && ghostPath.length > 1 && (
+          <Polyline
+            positions={ghostPath.map((p) => [p.lat, p.lng] as [number, number])}
+            color="#94a3b8"
+            weight={3}
+            opacity={0.5}
+          />
+        )}
         {pointsWithCoords.length > 1 && (
           <Polyline
             positions={pointsWithCoords.map(
@@ -174,10 +194,14 @@ export default function DriverTrackingMapClient({
                 <p className="text-sm text-gray-600">{stop.address}</p>
               )}
               {stop.arrivedAt && (
-                <p className="text-xs text-green-600">Arrived</p>
+                <p className="text-xs text-green-600">
+                  Arrived {formatStopTime(stop.arrivedAt)}
+                </p>
               )}
               {stop.departedAt && (
-                <p className="text-xs text-blue-600">Departed</p>
+                <p className="text-xs text-blue-600">
+                  Departed {formatStopTime(stop.departedAt)}
+                </p>
               )}
             </Popup>
           </Marker>
@@ -187,7 +211,7 @@ export default function DriverTrackingMapClient({
             position={[currentLocation.lat, currentLocation.lng]}
             icon={driverIcon}
           >
-            <Popup>Current position (driver)</Popup>
+            <Popup>{currentLocationLabel}</Popup>
           </Marker>
         )}
       </MapContainer>
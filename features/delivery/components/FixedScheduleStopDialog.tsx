@@ -20,6 +20,7 @@ import {
 import { Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import type { DeliveryLocationOption } from '../types/locations';
+import { PlannedWindowFields } from './PlannedWindowFields';
 
 export type FixedTemplateStop = {
   id: string;
@@ -28,6 +29,8 @@ export type FixedTemplateStop = {
   address: string | null;
   lat?: number | null;
   lng?: number | null;
+  plannedStart?: string | null;
+  plannedEnd?: string | null;
   tasks: { id?: string; title: string }[];
 };
 
@@ -37,9 +40,25 @@ type StopForm = {
   address: string;
   lat: string;
   lng: string;
+  plannedStart: string;
+  plannedEnd: string;
   tasks: { id?: string; title: string }[];
 };
 
+/** PUT template payload for a stop that is not being edited. */
+export function fixedTemplateStopPayload(s: FixedTemplateStop) {
+  return {
+    deliveryLocationId: s.deliveryLocationId || null,
+    name: s.name,
+    address: s.address ?? undefined,
+    lat: s.lat ?? undefined,
+    lng: s.lng ?? undefined,
+    plannedStart: s.plannedStart ?? null,
+    plannedEnd: s.plannedEnd ?? null,
+    tasks: (s.tasks ?? []).map((t) => ({ title: t.title })),
+  };
+}
+
 export function FixedScheduleStopDialog({
   open,
   driverId,
@@ -68,6 +87,8 @@ export function FixedScheduleStopDialog({
     address: '',
     lat: '',
     lng: '',
+    plannedStart: '',
+    plannedEnd: '',
     tasks: [],
   });
   const [saving, setSaving] = useState(false);
@@ -81,6 +102,8 @@ export function FixedScheduleStopDialog({
         address: existingStop.address ?? '',
         lat: existingStop.lat != null ? String(existingStop.lat) : '',
         lng: existingStop.lng != null ? String(existingStop.lng) : '',
+        plannedStart: existingStop.plannedStart ?? '',
+        plannedEnd: existingStop.plannedEnd ?? '',
         tasks: (existingStop.tasks ?? []).map((t) => ({
           id: t.id,
           title: t.title ?? '',
@@ -93,6 +116,8 @@ export function FixedScheduleStopDialog({
         address: '',
         lat: '',
         lng: '',
+        plannedStart: '',
+        plannedEnd: '',
         tasks: [],
       });
     }
@@ -186,61 +211,25 @@ export function FixedScheduleStopDialog({
       address: address ?? undefined,
       lat,
       lng,
+      plannedStart: form.plannedStart || null,
+      plannedEnd: form.plannedEnd || null,
       tasks: validTasks.map((t) => ({ title: t.title.trim() })),
     };
 
     const payloadStops = isAdd
       ? insertIndex != null && insertIndex >= 0 && insertIndex <= stops.length
         ? [
-            ...stops.slice(0, insertIndex).map((s) => ({
-              deliveryLocationId: s.deliveryLocationId || null,
-              name: s.name,
-              address: s.address ?? undefined,
-              lat: s.lat ?? undefined,
-              lng: s.lng ?? undefined,
-              tasks: (s.tasks ?? []).map((t) => ({ title: t.title })),
-            })),
+            ...stops.slice(0, insertIndex).map(fixedTemplateStopPayload),
             newStopPayload,
-            ...stops.slice(insertIndex).map((s) => ({
-              deliveryLocationId: s.deliveryLocationId || null,
-              name: s.name,
-              address: s.address ?? undefined,
-              lat: s.lat ?? undefined,
-              lng: s.lng ?? undefined,
-              tasks: (s.tasks ?? []).map((t) => ({ title: t.title })),
-            })),
+            ...stops.slice(insertIndex).map(fixedTemplateStopPayload),
           ]
         : [
-            ...stops.map((s) => ({
-              deliveryLocationId: s.deliveryLocationId || null,
-              name: s.name,
-              address: s.address ?? undefined,
-              lat: s.lat ?? undefined,
-              lng: s.lng ?? undefined,
-              tasks: (s.tasks ?? []).map((t) => ({ title: t.title })),
-            })),
+            ...stops.map(fixedTemplateStopPayload),
             newStopPayload,
           ]
-      : stops.map((s, i) => {
-          if (i !== stopIndex) {
-            return {
-              deliveryLocationId: s.deliveryLocationId || null,
-              name: s.name,
-              address: s.address ?? undefined,
-              lat: s.lat ?? undefined,
-              lng: s.lng ?? undefined,
-              tasks: (s.tasks ?? []).map((t) => ({ title: t.title })),
-            };
-          }
-          return {
-            deliveryLocationId: form.deliveryLocationId || null,
-            name,
-            address: address ?? undefined,
-            lat,
-            lng,
-            tasks: validTasks.map((t) => ({ title: t.title.trim() })),
-          };
-        });
+      : stops.map((s, i) =>
+          i === stopIndex ? newStopPayload : fixedTemplateStopPayload(s),
+        );
 
     setSaving(true);
     try {
@@ -368,6 +357,11 @@ export function FixedScheduleStopDialog({
               Using name, address, and coordinates from the selected location.
             </p>
           )}
+          <PlannedWindowFields
+            start={form.plannedStart}
+            end={form.plannedEnd}
+            onChange={updateForm}
+          />
           <div>
             <div className="flex items-center justify-between mb-1">
               <Label className="text-xs">Tasks</Label>
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { DeliveryLocationOption } from '../types/locations';
+import {
+  formatDeliveryWindow,
+  formatMinuteOfDay,
+  optimizeRoute,
+  parseWindowTime,
+} from '../lib/route-optimizer';
+
+/** Minimal stop shape shared by the daily schedule editor and fixed templates. */
+export type OptimizableStop = {
+  id: string;
+  name: string;
+  deliveryLocationId: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  /** Driver already arrived — stays in place with everything before it. */
+  locked?: boolean;
+};
+
+const DEFAULT_START_TIME = '08:00';
+
+type Props<S extends OptimizableStop> = {
+  stops: S[];
+  onOpenChange: (open: boolean) => void;
+  onApply: (ordered: S[]) => void;
+};
+
+/**
+ * Preview + apply a distance-optimized stop order. Coordinates come from the stop, or its delivery
+ * location when the stop has none; windows come from the delivery location.
+ */
+export function OptimizeRouteDialog<S extends OptimizableStop>({
+  stops,
+  onOpenChange,
+  onApply,
+}: Props<S>) {
+  const [locations, setLocations] = useState<DeliveryLocationOption[] | null>(
+    null,
+  );
+  const [pinFirst, setPinFirst] = useState(true);
+  const [pinLast, setPinLast] = useState(false);
+  const [startTime, setStartTime] = useState(DEFAULT_START_TIME);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/delivery/location')
+      .then(async (res) => {
+        const data = await res.json().catch(() => []);
+        if (!res.ok) throw new Error('Failed to load delivery locations');
+        if (!cancelled) setLocations(data as DeliveryLocationOption[]);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) {
+          setLocations([]);
+          toast.error(
+            e instanceof Error ? e.message : 'Failed to load delivery locations',
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const result = useMemo(() => {
+    if (!locations) return null;
+    const byId = new Map(locations.map((l) => [l.id, l]));
+    const input = stops.map((s) => {
+      const loc = s.deliveryLocationId ? byId.get(s.deliveryLocationId) : null;
+      return {
+        id: s.id,
+        stop: s,
+        lat: s.lat ?? loc?.lat ?? null,
+        lng: s.lng ?? loc?.lng ?? null,
+        windowStart: parseWindowTime(loc?.windowStart),
+        windowEnd: parseWindowTime(loc?.windowEnd),
+        windowLabel: loc
+          ? formatDeliveryWindow(loc.windowStart, loc.windowEnd)
+          : '—',
+        locked: s.locked,
+      };
+    });
+    return optimizeRoute(input, {
+      pinFirst,
+      pinLast,
+      startMinute: parseWindowTime(startTime) ?? 8 * 60,
+    });
+  }, [locations, stops, pinFirst, pinLast, startTime]);
+
+  const late = new Set(result?.lateIds ?? []);
+  const unlocated = new Set(result?.unlocatedIds ?? []);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Optimize route</DialogTitle>
+          <DialogDescription>
+            Reorders stops by straight-line distance between saved coordinates,
+            keeping delivery windows where possible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 items-end gap-3">
+          <div className="flex items-center gap-2">
+            <Switch id="pin-first" checked={pinFirst} onCheckedChange={setPinFirst} />
+            <Label htmlFor="pin-first" className="text-xs">
+              Pin first stop
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="pin-last" checked={pinLast} onCheckedChange={setPinLast} />
+            <Label htmlFor="pin-last" className="text-xs">
+              Pin last stop
+            </Label>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="route-start" className="text-xs">
+              Start time
+            </Label>
+            <Input
+              id="route-start"
+              type="time"
+              className="h-8"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {!result ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Distance:{' '}
+              <span className="tabular-nums">{result.beforeKm.toFixed(1)} km</span>
+              {' → '}
+              <span className="font-medium tabular-nums">
+                {result.afterKm.toFixed(1)} km
+              </span>
+              {!result.changed ? (
+                <span className="text-muted-foreground">
+                  {' '}
+                  (current order is already best)
+                </span>
+              ) : null}
+            </p>
+            <ol className="divide-y rounded-md border">
+              {result.stops.map((s, i) => (
+                <li
+                  key={s.id}
+                  className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm"
+                >
+                  <span className="min-w-0 truncate">
+                    {i + 1}. {s.stop.name || 'Unnamed stop'}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-1.5 text-xs text-muted-foreground">
+                    {s.windowLabel !== '—' ? <span>{s.windowLabel}</span> : null}
+                    {unlocated.has(s.id) ? (
+                      <Badge variant="outline">No coordinates</Badge>
+                    ) : (
+                      <span className="tabular-nums">
+                        ~{formatMinuteOfDay(result.etaMinutes[s.id])}
+                      </span>
+                    )}
+                    {late.has(s.id) ? <Badge variant="red">Late</Badge> : null}
+                  </span>
+                </li>
+              ))}
+            </ol>
+            {result.unlocatedIds.length > 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Stops without coordinates keep their current position.
+              </p>
+            ) : null}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!result?.changed}
+            onClick={() => {
+              if (!result) return;
+              onApply(result.stops.map((s) => s.stop));
+              onOpenChange(false);
+            }}
+          >
+            Apply order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+/** Planned arrival window inputs (local "HH:MM"; empty = open) for stop dialogs. */
+export function PlannedWindowFields({
+  start,
+  end,
+  onChange,
+}: {
+  start: string;
+  end: string;
+  onChange: (patch: { plannedStart?: string; plannedEnd?: string }) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label className="text-xs">Planned arrival from</Label>
+        <Input
+          type="time"
+          value={start}
+          onChange={(e) => onChange({ plannedStart: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label className="text-xs">Planned arrival by</Label>
+        <Input
+          type="time"
+          value={end}
+          onChange={(e) => onChange({ plannedEnd: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
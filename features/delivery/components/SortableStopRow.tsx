@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { format, parseISO, isValid } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   Collapsible,
@@ -20,7 +21,13 @@ import {
   Pencil,
   Trash2,
 } from 'lucide-react';
-import type { DailySchedule, Stop, Task } from '../types/delivery-schedule-types';
+import type {
+  DailySchedule,
+  Stop,
+  StopEta,
+  Task,
+} from '../types/delivery-schedule-types';
+import { formatDeliveryWindow } from '../lib/route-optimizer';
 
 function formatTime(iso: string | null | undefined): string {
   if (!iso) return '';
@@ -41,6 +48,7 @@ export function SortableStopRow({
   onEditStop,
   onDeleteStop,
   defaultCollapsedWhenCompleted = true,
+  eta,
 }: {
   stop: Stop;
   idx: number;
@@ -49,6 +57,8 @@ export function SortableStopRow({
   onDeleteStop: (schedule: DailySchedule, stopIndex: number) => void;
   /** When true, completed stops (departed + all tasks done) start collapsed. */
   defaultCollapsedWhenCompleted?: boolean;
+  /** Live ETA / lateness from the eta endpoint (overview only). */
+  eta?: StopEta;
 }) {
   const completed = isStopCompleted(stop);
   const hasArrived = stop.arrivedAt != null;
@@ -70,6 +80,7 @@ export function SortableStopRow({
   };
 
   const taskCount = stop.tasks?.length ?? 0;
+  const hasPlannedWindow = stop.plannedStart != null || stop.plannedEnd != null;
   const showCollapseChevron = completed;
   const summaryLine = (chevronAsTrigger: boolean) => (
     <div className="flex items-start gap-2">
@@ -92,6 +103,13 @@ export function SortableStopRow({
           </p>
         )}
         <p className="text-xs text-muted-foreground mt-1 flex flex-wrap items-center gap-x-3 gap-y-0.5">
+          {hasPlannedWindow && (
+            <span>
+              Planned {formatDeliveryWindow(stop.plannedStart, stop.plannedEnd)}
+            </span>
+          )}
+          {!hasArrived && eta?.etaAt && <span>ETA {formatTime(eta.etaAt)}</span>}
+          {eta?.late && <Badge variant="red">Late +{eta.lateMinutes}m</Badge>}
           {stop.arrivedAt && (
             <span className="flex items-center gap-0.5">
               <Clock className="h-3 w-3" /> Arrived {formatTime(stop.arrivedAt)}
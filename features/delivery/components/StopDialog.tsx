@@ -26,6 +26,7 @@ import type {
   Task,
 } from '../types/delivery-schedule-types';
 import type { DeliveryLocationOption } from '../types/locations';
+import { PlannedWindowFields } from './PlannedWindowFields';
 
 type StopForm = {
   deliveryLocationId: string | null;
@@ -33,6 +34,8 @@ type StopForm = {
   address: string;
   lat: string;
   lng: string;
+  plannedStart: string;
+  plannedEnd: string;
   tasks: { id?: string; title: string }[];
 };
 
@@ -65,6 +68,8 @@ export function StopDialog({
     address: '',
     lat: '',
     lng: '',
+    plannedStart: '',
+    plannedEnd: '',
     tasks: [],
   });
   const [saving, setSaving] = useState(false);
@@ -80,6 +85,8 @@ export function StopDialog({
           existingStop.lat != null ? String(existingStop.lat) : '',
         lng:
           existingStop.lng != null ? String(existingStop.lng) : '',
+        plannedStart: existingStop.plannedStart ?? '',
+        plannedEnd: existingStop.plannedEnd ?? '',
         tasks: (existingStop.tasks ?? []).map((t) => ({
           id: t.id,
           title: t.title ?? '',
@@ -92,6 +99,8 @@ export function StopDialog({
         address: '',
         lat: '',
         lng: '',
+        plannedStart: '',
+        plannedEnd: '',
         tasks: [],
       });
     }
@@ -186,12 +195,16 @@ export function StopDialog({
 
     const validTasks = form.tasks.filter((t) => t.title.trim());
     const stops = schedule.stops ?? [];
+    const plannedStart = form.plannedStart || null;
+    const plannedEnd = form.plannedEnd || null;
     const newStopPayload = {
       deliveryLocationId: form.deliveryLocationId || null,
       name,
       address: address ?? undefined,
       lat,
       lng,
+      plannedStart,
+      plannedEnd,
       tasks: validTasks.map((t) => ({ id: t.id, title: t.title.trim() })),
     };
     const existingPayload = stops.map((s) => ({
@@ -235,6 +248,8 @@ export function StopDialog({
             address: address ?? undefined,
             lat,
             lng,
+            plannedStart,
+            plannedEnd,
             tasks: validTasks.map((t) => ({
               id: t.id,
               title: t.title.trim(),
@@ -251,6 +266,8 @@ export function StopDialog({
               address: address ?? null,
               lat: lat ?? null,
               lng: lng ?? null,
+              plannedStart,
+              plannedEnd,
               deliveryLocationId: form.deliveryLocationId ?? null,
               tasks: validTasks.map((t, ti) => ({
                 id: (s.tasks?.[ti] as Task | undefined)?.id ?? `t-${ti}`,
@@ -385,6 +402,11 @@ export function StopDialog({
               Using name, address, and coordinates from the selected location.
             </p>
           )}
+          <PlannedWindowFields
+            start={form.plannedStart}
+            end={form.plannedEnd}
+            onChange={updateForm}
+          />
           <div>
             <div className="flex items-center justify-between mb-1">
               <Label className="text-xs">Tasks</Label>
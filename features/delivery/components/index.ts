@@ -14,10 +14,16 @@ export { DeliveryDatePicker } from './DeliveryDatePicker';
 export type { DeliveryDatePickerProps } from './DeliveryDatePicker';
 export { DriverNoScheduleCard } from './DriverNoScheduleCard';
 export { DriverScheduleCard } from './DriverScheduleCard';
-export { FixedScheduleStopDialog } from './FixedScheduleStopDialog';
+export {
+  FixedScheduleStopDialog,
+  fixedTemplateStopPayload,
+} from './FixedScheduleStopDialog';
 export type { FixedTemplateStop } from './FixedScheduleStopDialog';
 export { FixedScheduleStopRow } from './FixedScheduleStopRow';
 export { MapPlaceholder, mapPlaceholderTitle } from './MapPlaceholder';
+export { OptimizeRouteDialog } from './OptimizeRouteDialog';
+export type { OptimizableStop } from './OptimizeRouteDialog';
 export type { MapPlaceholderProps } from './MapPlaceholder';
+export { PlannedWindowFields } from './PlannedWindowFields';
 export { SortableStopRow } from './SortableStopRow';
 export { StopDialog } from './StopDialog';
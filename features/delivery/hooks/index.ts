@@ -6,5 +6,6 @@ export { useDeliveryDatePicker } from './useDeliveryDatePicker';
 export { useDeliveryLocations } from './useDeliveryLocations';
 export { useDeliverySchedules } from './useDeliverySchedules';
 export type { UseDeliverySchedulesResult } from './useDeliverySchedules';
+export { useDeliveryStopEtas } from './useDeliveryStopEtas';
 export { useFixedScheduleStopDialog } from './useFixedScheduleStopDialog';
 export { useStopDialog } from './useStopDialog';
@@ -13,6 +13,8 @@ import {
 
 /** Poll often enough that driver activity updates are picked up within a few seconds. */
 const POLL_MS = 5_000;
+/** Delay before reopening an SSE stream the browser gave up on. */
+const SSE_RETRY_MS = 3_000;
 
 function stableJson(text: string): string {
   try {
@@ -25,7 +27,8 @@ function stableJson(text: string): string {
 /**
  * Live updates: SSE + polling. Toast + desktop notification only when a stop **arrives** or
  * **departs** (not task-only changes). SSE `driver_status` from driver, or poll detects activity
- * fingerprint change while not suppressed after a hub edit. Tracking-only and location SSE stay silent.
+ * fingerprint change while not suppressed after a hub edit. Tracking-only and location SSE stay silent;
+ * `stop_late` warns once per stop that is projected past its planned window.
  */
 export function useDeliveryHubRealtime(
   driverId: string | null,
@@ -92,14 +95,35 @@ export function useDeliveryHubRealtime(
 
   useEffect(() => {
     if (!driverId) return;
-    const es = new EventSource(
-      `/api/delivery/realtime/stream?driverId=${encodeURIComponent(driverId)}`,
-    );
-    es.onmessage = (e) => {
+    let es: EventSource | null = null;
+    let disposed = false;
+    let retryTimer: number | null = null;
+    let lastEventId = '';
+    let connectedOnce = false;
+    /** Replays overlap what was already handled (the server looks back a few ids). */
+    const handledIds = new Set<string>();
+
+    const onMessage = (e: MessageEvent<string>) => {
+      if (e.lastEventId) lastEventId = e.lastEventId;
       if (!e.data) return;
       try {
         const data = JSON.parse(e.data) as DeliveryRealtimeEvent;
-        if (data.type === 'connected') return;
+        // `connected` has no id of its own; `lastEventId` there is the previous event's.
+        if (data.type !== 'connected' && e.lastEventId) {
+          if (handledIds.has(e.lastEventId)) return;
+          handledIds.add(e.lastEventId);
+          if (handledIds.size > 500) {
+            handledIds.delete(handledIds.values().next().value!);
+          }
+        }
+        if (data.type === 'connected') {
+          // Missed events could not be replayed (or there was no id to replay from).
+          if (data.resync || (connectedOnce && !lastEventId)) {
+            silentRefreshRef.current();
+          }
+          connectedOnce = true;
+          return;
+        }
         if (data.type === 'ping_request') {
           silentRefreshRef.current();
           return;
@@ -109,6 +133,21 @@ export function useDeliveryHubRealtime(
           return;
         }
         if (data.date != null && data.date !== dateStr) return;
+        if (data.type === 'stop_late') {
+          const late = data.lateStops ?? [];
+          if (late.length > 0) {
+            toast.warning(
+              late.length === 1 ? 'Stop running late' : `${late.length} stops running late`,
+              {
+                description: late
+                  .map((s) => `${s.name} (+${s.lateMinutes}m)`)
+                  .join(', '),
+              },
+            );
+          }
+          silentRefreshRef.current();
+          return;
+        }
         if (data.origin === 'office') {
           silentRefreshRef.current();
           return;
@@ -122,8 +161,33 @@ export function useDeliveryHubRealtime(
         // ignore parse errors
       }
     };
+
+    const connect = () => {
+      const resume = lastEventId
+        ? `&lastEventId=${encodeURIComponent(lastEventId)}`
+        : '';
+      const source = new EventSource(
+        `/api/delivery/realtime/stream?driverId=${encodeURIComponent(driverId)}${resume}`,
+      );
+      source.onmessage = onMessage;
+      // The browser retries (sending Last-Event-ID) unless the stream is closed for good,
+      // e.g. a non-200 during a deploy — then reconnect by hand with the id in the query.
+      source.onerror = () => {
+        if (source.readyState !== EventSource.CLOSED || disposed) return;
+        if (retryTimer != null) return;
+        retryTimer = window.setTimeout(() => {
+          retryTimer = null;
+          if (!disposed) connect();
+        }, SSE_RETRY_MS);
+      };
+      es = source;
+    };
+
+    connect();
     return () => {
-      es.close();
+      disposed = true;
+      if (retryTimer != null) window.clearTimeout(retryTimer);
+      es?.close();
     };
   }, [driverId, dateStr]);
 
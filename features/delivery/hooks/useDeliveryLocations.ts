@@ -64,6 +64,8 @@ export function useDeliveryLocations({
       lat: row.lat ?? undefined,
       lng: row.lng ?? undefined,
       locationId: row.locationId ?? undefined,
+      windowStart: row.windowStart ?? '',
+      windowEnd: row.windowEnd ?? '',
     });
   }, []);
 
@@ -77,6 +79,10 @@ export function useDeliveryLocations({
       if (editForm.lng !== undefined) body.lng = editForm.lng ?? null;
       if (editForm.locationId !== undefined)
         body.locationId = editForm.locationId || null;
+      if (editForm.windowStart !== undefined)
+        body.windowStart = editForm.windowStart || null;
+      if (editForm.windowEnd !== undefined)
+        body.windowEnd = editForm.windowEnd || null;
       await patchDeliveryLocation(editId, body);
       setLocations((prev) =>
         prev.map((l) =>
@@ -86,6 +92,8 @@ export function useDeliveryLocations({
                 ...editForm,
                 address: editForm.address ?? null,
                 locationId: editForm.locationId ?? null,
+                windowStart: editForm.windowStart || null,
+                windowEnd: editForm.windowEnd || null,
               }
             : l,
         ),
@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { StopEta } from '../types/delivery-schedule-types';
+
+async function loadStopEtas(driverId: string, dateStr: string): Promise<StopEta[]> {
+  const res = await fetch(
+    `/api/delivery/driver/${driverId}/eta?date=${encodeURIComponent(dateStr)}`,
+  );
+  if (!res.ok) return [];
+  const data = (await res.json()) as { stops?: StopEta[] };
+  return data.stops ?? [];
+}
+
+/**
+ * Planned window + live ETA per stop for the selected driver/date. Kept out of the schedule and
+ * tracking payloads so the ETA clock ticking doesn't make the hub's polling think data changed.
+ */
+export function useDeliveryStopEtas(
+  selectedDriverId: string | null,
+  dateStr: string,
+) {
+  const key = selectedDriverId ? `${selectedDriverId}:${dateStr}` : null;
+  // Tagged with the driver/date they were fetched for so a switch never shows stale ETAs.
+  const [loaded, setLoaded] = useState<{ key: string; stops: StopEta[] } | null>(
+    null,
+  );
+
+  const fetchEtas = useCallback(async () => {
+    if (!selectedDriverId || !key) return;
+    try {
+      setLoaded({ key, stops: await loadStopEtas(selectedDriverId, dateStr) });
+    } catch {
+      // Keep the last ETAs; the next poll retries.
+    }
+  }, [selectedDriverId, dateStr, key]);
+
+  useEffect(() => {
+    if (!selectedDriverId || !key) return;
+    let cancelled = false;
+    const load = () =>
+      loadStopEtas(selectedDriverId, dateStr)
+        .then((stops) => {
+          if (!cancelled) setLoaded({ key, stops });
+        })
+        .catch(() => {});
+    void load();
+    const interval = setInterval(() => void load(), 60_000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selectedDriverId, dateStr, key]);
+
+  const etas = loaded && loaded.key === key ? loaded.stops : [];
+  const etaByStopId: Record<string, StopEta> = {};
+  let lateCount = 0;
+  for (const eta of etas) {
+    etaByStopId[eta.stopId] = eta;
+    if (eta.late && !eta.arrived) lateCount++;
+  }
+
+  return { etaByStopId, lateCount, fetchEtas };
+}
@@ -0,0 +1,303 @@
+/**
+ * Offline stop ordering for daily schedules and fixed templates. Uses straight-line (haversine)
+ * distance between stored coordinates — no routing service — and a rough drive-time estimate
+ * to honour per-location delivery windows.
+ */
+
+const EARTH_RADIUS_KM = 6371;
+/** Average city driving speed for ETA estimates (also used for live stop ETAs). */
+export const ROUTE_SPEED_KMH = 30;
+/** Time spent at each stop (unloading, paperwork). */
+export const ROUTE_SERVICE_MINUTES = 10;
+/** One minute past a window's end costs as much as this many km of driving. */
+const LATE_PENALTY_KM_PER_MINUTE = 2;
+/** Arriving before a window opens means waiting; a small cost so idle time is avoided when free. */
+const WAIT_PENALTY_KM_PER_MINUTE = 0.05;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+export type RouteOptimizerStop = {
+  id: string;
+  lat: number | null;
+  lng: number | null;
+  /** Window bounds in minutes after midnight; null = open. */
+  windowStart?: number | null;
+  windowEnd?: number | null;
+  /** Already visited (driver arrived). This stop and everything before it stay put. */
+  locked?: boolean;
+};
+
+export type RouteOptimizerOptions = {
+  /** Keep the current first stop first (e.g. the warehouse). */
+  pinFirst: boolean;
+  /** Keep the current last stop last (e.g. return to base). */
+  pinLast: boolean;
+  /** Arrival at the first stop, minutes after midnight. */
+  startMinute: number;
+  speedKmh?: number;
+  serviceMinutes?: number;
+};
+
+export type RouteOptimizerResult<T extends RouteOptimizerStop> = {
+  stops: T[];
+  beforeKm: number;
+  afterKm: number;
+  /** Estimated arrival per stop id, minutes after midnight. */
+  etaMinutes: Record<string, number>;
+  /** Stops estimated to arrive after their window closes, in the new order. */
+  lateIds: string[];
+  /** Stops without coordinates; each stays in its original position. */
+  unlocatedIds: string[];
+  changed: boolean;
+};
+
+type Located = { lat: number; lng: number };
+
+function isLocated<T extends RouteOptimizerStop>(s: T): s is T & Located {
+  return s.lat != null && s.lng != null;
+}
+
+export function haversineKm(a: Located, b: Located): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Total straight-line km between consecutive stops that have coordinates. */
+export function routeDistanceKm(stops: RouteOptimizerStop[]): number {
+  let km = 0;
+  let prev: Located | null = null;
+  for (const s of stops) {
+    if (!isLocated(s)) continue;
+    if (prev) km += haversineKm(prev, s);
+    prev = s;
+  }
+  return km;
+}
+
+/** "HH:MM" → minutes after midnight, or null. */
+export function parseWindowTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const m = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return minutes >= 0 && minutes < 24 * 60 ? minutes : null;
+}
+
+export function formatMinuteOfDay(minutes: number): string {
+  const m = Math.round(minutes);
+  const h = Math.floor(m / 60) % 24;
+  return `${String(h).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function formatDeliveryWindow(
+  start: string | null | undefined,
+  end: string | null | undefined,
+): string {
+  if (start && end) return `${start}–${end}`;
+  if (start) return `after ${start}`;
+  if (end) return `by ${end}`;
+  return '—';
+}
+
+type Simulation = {
+  cost: number;
+  km: number;
+  etaMinutes: Record<string, number>;
+  lateIds: string[];
+};
+
+function simulate(
+  stops: RouteOptimizerStop[],
+  opts: Required<RouteOptimizerOptions>,
+): Simulation {
+  const etaMinutes: Record<string, number> = {};
+  const lateIds: string[] = [];
+  let km = 0;
+  let lateMinutes = 0;
+  let waitMinutes = 0;
+  let clock = opts.startMinute;
+  let prev: Located | null = null;
+
+  stops.forEach((s, i) => {
+    if (i > 0) clock += opts.serviceMinutes;
+    if (isLocated(s)) {
+      if (prev) {
+        const leg = haversineKm(prev, s);
+        km += leg;
+        clock += (leg / opts.speedKmh) * 60;
+      }
+      prev = s;
+    }
+    etaMinutes[s.id] = clock;
+    if (s.windowEnd != null && clock > s.windowEnd) {
+      lateMinutes += clock - s.windowEnd;
+      lateIds.push(s.id);
+    }
+    if (s.windowStart != null && clock < s.windowStart) {
+      waitMinutes += s.windowStart - clock;
+      clock = s.windowStart;
+    }
+  });
+
+  return {
+    cost:
+      km +
+      lateMinutes * LATE_PENALTY_KM_PER_MINUTE +
+      waitMinutes * WAIT_PENALTY_KM_PER_MINUTE,
+    km,
+    etaMinutes,
+    lateIds,
+  };
+}
+
+/** Nearest-neighbour tour from `from` (or starting at the first stop when null). */
+function greedyOrder<T extends RouteOptimizerStop & Located>(
+  stops: T[],
+  from: Located | null,
+): T[] {
+  const remaining = [...stops];
+  const order: T[] = [];
+  let cur = from;
+  while (remaining.length > 0) {
+    let best = 0;
+    if (cur) {
+      let bestKm = Infinity;
+      remaining.forEach((s, i) => {
+        const d = haversineKm(cur!, s);
+        if (d < bestKm) {
+          bestKm = d;
+          best = i;
+        }
+      });
+    }
+    const [next] = remaining.splice(best, 1);
+    order.push(next);
+    cur = next;
+  }
+  return order;
+}
+
+function byDeadline<T extends RouteOptimizerStop>(stops: T[]): T[] {
+  return [...stops].sort(
+    (a, b) =>
+      (a.windowEnd ?? Infinity) - (b.windowEnd ?? Infinity) ||
+      (a.windowStart ?? 0) - (b.windowStart ?? 0),
+  );
+}
+
+/**
+ * Local search over the movable section: 2-opt segment reversals and single-stop moves, keeping
+ * any change that lowers the simulated cost of the whole route.
+ */
+function improve<T extends RouteOptimizerStop>(
+  middle: T[],
+  evaluate: (middle: T[]) => number,
+): { middle: T[]; cost: number } {
+  let best = middle;
+  let bestCost = evaluate(best);
+  const n = best.length;
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const reversed = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        const c = evaluate(reversed);
+        if (c < bestCost - 1e-9) {
+          best = reversed;
+          bestCost = c;
+          improved = true;
+        }
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const moved = [...best];
+        const [s] = moved.splice(i, 1);
+        moved.splice(j, 0, s);
+        const c = evaluate(moved);
+        if (c < bestCost - 1e-9) {
+          best = moved;
+          bestCost = c;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return { middle: best, cost: bestCost };
+}
+
+/**
+ * Reorder stops to shorten the route while respecting pins, visited stops and delivery windows.
+ * Never returns an order that scores worse than the current one.
+ */
+export function optimizeRoute<T extends RouteOptimizerStop>(
+  stops: T[],
+  options: RouteOptimizerOptions,
+): RouteOptimizerResult<T> {
+  const opts: Required<RouteOptimizerOptions> = {
+    speedKmh: ROUTE_SPEED_KMH,
+    serviceMinutes: ROUTE_SERVICE_MINUTES,
+    ...options,
+  };
+
+  let lastLocked = -1;
+  stops.forEach((s, i) => {
+    if (s.locked) lastLocked = i;
+  });
+  let headLen = lastLocked + 1;
+  if (options.pinFirst && headLen === 0 && stops.length > 0) headLen = 1;
+  const tailLen = options.pinLast && stops.length - headLen >= 2 ? 1 : 0;
+
+  const head = stops.slice(0, headLen);
+  const tail = stops.slice(stops.length - tailLen);
+  const movable = stops.slice(headLen, stops.length - tailLen);
+  const located = movable.filter(isLocated);
+  const unlocated = movable.filter((s) => s.lat == null || s.lng == null);
+
+  // Located stops fill the located slots in `middle` order; unlocated stops keep their slots, so
+  // `assemble(located)` is exactly the current order.
+  const assemble = (middle: T[]): T[] => {
+    let next = 0;
+    return [
+      ...head,
+      ...movable.map((s) => (isLocated(s) ? middle[next++] : s)),
+      ...tail,
+    ];
+  };
+  const evaluate = (middle: T[]) => simulate(assemble(middle), opts).cost;
+
+  const anchor = [...head].reverse().find(isLocated) ?? null;
+  const candidates = [
+    located,
+    greedyOrder(located, anchor),
+    greedyOrder(byDeadline(located), null),
+  ];
+
+  let best = { middle: located, cost: evaluate(located) };
+  for (const start of candidates) {
+    const result = improve(start, evaluate);
+    if (result.cost < best.cost - 1e-9) best = result;
+  }
+
+  const ordered = assemble(best.middle);
+  const sim = simulate(ordered, opts);
+  return {
+    stops: ordered,
+    beforeKm: routeDistanceKm(stops),
+    afterKm: sim.km,
+    etaMinutes: sim.etaMinutes,
+    lateIds: sim.lateIds,
+    unlocatedIds: unlocated.map((s) => s.id),
+    changed: ordered.some((s, i) => s.id !== stops[i].id),
+  };
+}
@@ -0,0 +1,51 @@
+/** Per-driver or per-location performance over the selected range. */
+export type DeliveryPerformanceRow = {
+  id: string;
+  name: string;
+  /** Scheduled stops in the range. */
+  scheduledStops: number;
+  /** Stops the driver arrived at. */
+  visitedStops: number;
+  /** Days with at least one visited stop. */
+  activeDays: number;
+  stopsPerDay: number;
+  /** Average `departedAt - arrivedAt` in minutes; null when no stop has both. */
+  avgDwellMinutes: number | null;
+  /** Visited stops that had a planned window (stop or delivery location). */
+  windowedStops: number;
+  onTimeStops: number;
+  /** `onTimeStops / windowedStops`; null when no visited stop had a window. */
+  onTimeRate: number | null;
+  tasksCompleted: number;
+  tasksDismissed: number;
+  /** Tasks neither completed nor dismissed. */
+  tasksOpen: number;
+  /** GPS-reconstructed km; drivers only. */
+  distanceKm: number | null;
+};
+
+export type DeliveryTrendBucket = 'week' | 'month';
+
+export type DeliveryTrendPoint = {
+  /** Bucket start, `YYYY-MM-DD` (Monday for weeks, 1st for months). */
+  key: string;
+  label: string;
+  onTime: number;
+  late: number;
+  /** Visited stops without a planned window. */
+  noWindow: number;
+  tasksCompleted: number;
+  tasksDismissed: number;
+  distanceKm: number;
+  avgDwellMinutes: number | null;
+};
+
+export type DeliveryAnalytics = {
+  from: string;
+  to: string;
+  totals: DeliveryPerformanceRow;
+  drivers: DeliveryPerformanceRow[];
+  locations: DeliveryPerformanceRow[];
+  weekly: DeliveryTrendPoint[];
+  monthly: DeliveryTrendPoint[];
+};
@@ -8,3 +8,16 @@ export type DeliveryOverviewTrackingData = {
   stops: TrackingStop[];
   path: { lat: number; lng: number; createdAt: string }[];
 };
+
+/** Response shape from GET /api/delivery/driver/[id]/replay */
+export type DriverRouteReplayData = {
+  driver: { id: string; name: string | null };
+  date: string;
+  /** Raw pings for the day passed retention; `path` is the simplified archive. */
+  archived: boolean;
+  stops: (TrackingStop & {
+    plannedStart: string | null;
+    plannedEnd: string | null;
+  })[];
+  path: { lat: number; lng: number; createdAt: string }[];
+};
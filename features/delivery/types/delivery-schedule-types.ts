@@ -15,9 +15,25 @@ export type Stop = {
   deliveryLocationId?: string | null;
   arrivedAt: string | null;
   departedAt: string | null;
+  /** Planned arrival window, local "HH:MM". */
+  plannedStart?: string | null;
+  plannedEnd?: string | null;
   tasks: Task[];
 };
 
+/** Planned vs actual / live ETA for one stop (GET /api/delivery/driver/[id]/eta). */
+export type StopEta = {
+  stopId: string;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  arrived: boolean;
+  /** Actual arrival once arrived, otherwise the live estimate; null when it cannot be estimated. */
+  etaAt: string | null;
+  late: boolean;
+  /** Minutes past the planned end (actual or projected); 0 when on time. */
+  lateMinutes: number;
+};
+
 export type DailySchedule = {
   id: string;
   date: string;
@@ -6,6 +6,9 @@ export type DeliveryLocationRow = {
   lat: number | null;
   lng: number | null;
   locationId: string | null;
+  /** Local "HH:MM" delivery window bounds (either may be open). */
+  windowStart: string | null;
+  windowEnd: string | null;
   createdAt: string;
 };
 
@@ -23,4 +26,6 @@ export type DeliveryLocationOption = {
   address: string | null;
   lat: number | null;
   lng: number | null;
+  windowStart?: string | null;
+  windowEnd?: string | null;
 };
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { LineItemThumb } from '@/features/order/office/components/LineItemThumb';
+import type { DriverFulfillment } from '../types';
+import { driverLineLabel } from '../utils/driver-line-label';
+import { SignaturePad } from './SignaturePad';
+
+type Props = {
+  fulfillment: DriverFulfillment;
+  stopName: string;
+  onOpenChange: (open: boolean) => void;
+  onDelivered: () => void;
+};
+
+/** Proof of delivery: delivered quantities + recipient name and/or signature. */
+export function DriverDeliverDialog({
+  fulfillment,
+  stopName,
+  onOpenChange,
+  onDelivered,
+}: Props) {
+  const [qtyByLine, setQtyByLine] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      fulfillment.lineItems.map((li) => [li.id, String(li.quantity)]),
+    ),
+  );
+  const [recipientName, setRecipientName] = useState('');
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const lineItems = fulfillment.lineItems.map((li) => {
+    const n = Number(qtyByLine[li.id]);
+    return {
+      id: li.id,
+      deliveredQuantity: Number.isInteger(n) && n >= 0 ? n : 0,
+    };
+  });
+  const hasProof = recipientName.trim() !== '' || signatureImage != null;
+
+  const submit = async () => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        `/api/order/driver/fulfillments/${fulfillment.id}/deliver`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            lineItems,
+            recipientName: recipientName.trim() || null,
+            signatureImage,
+            notes: notes.trim() || null,
+          }),
+        },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Could not record delivery',
+        );
+      }
+      const warnings = (data as { shopifyWarnings?: string[] }).shopifyWarnings;
+      if (warnings?.length) {
+        toast.warning(`Delivered, but Shopify was not updated: ${warnings[0]}`);
+      } else {
+        toast.success('Delivery recorded.');
+      }
+      onDelivered();
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not record delivery');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Deliver {fulfillment.orderName ?? 'order'}
+          </DialogTitle>
+          <DialogDescription>{stopName}</DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y rounded-md border">
+          {fulfillment.lineItems.map((li) => (
+            <li key={li.id} className="flex items-center gap-3 px-3 py-2">
+              <LineItemThumb imageUrl={li.imageUrl} label={driverLineLabel(li)} />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm">{driverLineLabel(li)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Picked up {li.quantity}
+                </p>
+              </div>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={li.quantity}
+                step={1}
+                className="h-10 w-20 text-right tabular-nums"
+                value={qtyByLine[li.id] ?? ''}
+                onChange={(e) =>
+                  setQtyByLine((prev) => ({ ...prev, [li.id]: e.target.value }))
+                }
+                disabled={submitting}
+              />
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Received by</p>
+          <Input
+            className="h-10"
+            value={recipientName}
+            onChange={(e) => setRecipientName(e.target.value)}
+            placeholder="Recipient name"
+            disabled={submitting}
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Signature</p>
+          <SignaturePad onChange={setSignatureImage} disabled={submitting} />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Notes</p>
+          <Textarea
+            className="min-h-9 text-sm"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Optional — damaged, short, left at back door…"
+            disabled={submitting}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={submitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void submit()}
+            disabled={submitting || !hasProof}
+          >
+            {submitting && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Mark delivered
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatYmdWithWeekday } from '@/lib/datetime/format-ymd-weekday';
+import {
+  formatVancouverOrderedSidebar,
+  toVancouverYmd,
+} from '@/features/order/office/utils/vancouver-datetime';
+import type {
+  DriverFulfillment,
+  DriverFulfillmentStage,
+  DriverStop,
+} from '../types';
+import { driverLineLabel } from '../utils/driver-line-label';
+import { DriverDeliverDialog } from './DriverDeliverDialog';
+
+const STAGE_VARIANT: Record<
+  DriverFulfillmentStage,
+  'gray' | 'blue' | 'green' | 'red'
+> = {
+  picked_up: 'gray',
+  in_transit: 'blue',
+  delivered: 'green',
+  cancelled: 'red',
+};
+
+const STAGE_LABEL: Record<DriverFulfillmentStage, string> = {
+  picked_up: 'Picked up',
+  in_transit: 'In transit',
+  delivered: 'Delivered',
+  cancelled: 'Not delivered',
+};
+
+type DeliverTarget = { fulfillment: DriverFulfillment; stopName: string };
+
+function FulfillmentCard({
+  fulfillment,
+  busy,
+  onInTransit,
+  onDeliver,
+}: {
+  fulfillment: DriverFulfillment;
+  busy: boolean;
+  onInTransit: () => void;
+  onDeliver: () => void;
+}) {
+  const open =
+    fulfillment.stage === 'picked_up' || fulfillment.stage === 'in_transit';
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          {fulfillment.orderName ?? 'Order'}
+        </span>
+        <Badge variant={STAGE_VARIANT[fulfillment.stage]}>
+          {STAGE_LABEL[fulfillment.stage]}
+        </Badge>
+      </div>
+      <ul className="space-y-0.5 text-xs">
+        {fulfillment.lineItems.map((li) => (
+          <li key={li.id} className="flex justify-between gap-2">
+            <span className="truncate">{driverLineLabel(li)}</span>
+            <span className="shrink-0 tabular-nums text-muted-foreground">
+              {li.deliveredQuantity != null
+                ? `${li.deliveredQuantity} / ${li.quantity}`
+                : `× ${li.quantity}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {fulfillment.deliveredAt ? (
+        <p className="text-[11px] text-muted-foreground">
+          {formatVancouverOrderedSidebar(fulfillment.deliveredAt)}
+          {fulfillment.recipientName
+            ? ` · Received by ${fulfillment.recipientName}`
+            : ''}
+          {fulfillment.hasSignature ? ' · Signed' : ''}
+        </p>
+      ) : null}
+      {open ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="h-11"
+            disabled={busy || fulfillment.stage === 'in_transit'}
+            onClick={onInTransit}
+          >
+            In transit
+          </Button>
+          <Button
+            type="button"
+            className="h-11"
+            disabled={busy}
+            onClick={onDeliver}
+          >
+            Delivered…
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function DriverOrderClient({ driverName }: { driverName: string }) {
+  const [date] = useState(() => toVancouverYmd(new Date()));
+  const [stops, setStops] = useState<DriverStop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deliverTarget, setDeliverTarget] = useState<DeliverTarget | null>(
+    null,
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/order/driver/stops?date=${date}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Failed to load stops',
+        );
+      }
+      setStops((data as { stops: DriverStop[] }).stops);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load stops');
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const runAction = async (
+    busyKey: string,
+    url: string,
+    init: RequestInit,
+    fallbackError: string,
+  ) => {
+    setBusyId(busyKey);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((data as { error?: string }).error ?? fallbackError);
+      }
+      await load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : fallbackError);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pickUp = (stopId: string, shopifyOrderId: string) =>
+    runAction(
+      shopifyOrderId,
+      '/api/order/driver/fulfillments',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stopId, shopifyOrderId }),
+      },
+      'Could not mark picked up',
+    );
+
+  const markInTransit = (fulfillmentId: string) =>
+    runAction(
+      fulfillmentId,
+      `/api/order/driver/fulfillments/${fulfillmentId}/in-transit`,
+      { method: 'PATCH' },
+      'Could not mark in transit',
+    );
+
+  return (
+    <div className="mx-auto max-w-xl space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Today&apos;s deliveries</h1>
+        <p className="text-sm text-muted-foreground">
+          {driverName} · {formatYmdWithWeekday(date)}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+        </div>
+      ) : stops.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          No stops scheduled for today.
+        </div>
+      ) : (
+        stops.map((stop) => (
+          <section key={stop.id} className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h2 className="text-base font-semibold">
+                  {stop.sequence}. {stop.name}
+                </h2>
+                {stop.address ? (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <MapPin className="h-3 w-3 shrink-0" />
+                    <span className="truncate">{stop.address}</span>
+                  </p>
+                ) : null}
+                {stop.customerLabel ? (
+                  <p className="text-xs text-muted-foreground">
+                    {stop.customerLabel}
+                  </p>
+                ) : null}
+              </div>
+              {stop.departedAt ? (
+                <Badge variant="gray">Departed</Badge>
+              ) : stop.arrivedAt ? (
+                <Badge variant="blue">Arrived</Badge>
+              ) : null}
+            </div>
+
+            {stop.fulfillments.map((f) => (
+              <FulfillmentCard
+                key={f.id}
+                fulfillment={f}
+                busy={busyId === f.id}
+                onInTransit={() => void markInTransit(f.id)}
+                onDeliver={() =>
+                  setDeliverTarget({ fulfillment: f, stopName: stop.name })
+                }
+              />
+            ))}
+
+            {stop.openOrders.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">
+                  Ready for pickup
+                </p>
+                {stop.openOrders.map((o) => (
+                  <div
+                    key={o.id}
+                    className="flex items-center justify-between gap-3 rounded-md border border-dashed p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{o.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {o.lineItems
+                          .map((li) => `${li.quantity}× ${driverLineLabel(li)}`)
+                          .join(', ')}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="h-11 shrink-0"
+                      disabled={busyId === o.id}
+                      onClick={() => void pickUp(stop.id, o.id)}
+                    >
+                      {busyId === o.id && (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      )}
+                      Picked up
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : stop.fulfillments.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {stop.customerLabel
+                  ? 'No open orders for this stop.'
+                  : 'This stop is not linked to a store customer.'}
+              </p>
+            ) : null}
+          </section>
+        ))
+      )}
+
+      {deliverTarget ? (
+        <DriverDeliverDialog
+          fulfillment={deliverTarget.fulfillment}
+          stopName={deliverTarget.stopName}
+          onOpenChange={(open) => {
+            if (!open) setDeliverTarget(null);
+          }}
+          onDelivered={() => void load()}
+        />
+      ) : null}
+    </div>
+  );
+}
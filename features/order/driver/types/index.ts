@@ -0,0 +1,62 @@
+/** Driver-facing step of a delivery, derived from `Fulfillment` timestamps. */
+export type DriverFulfillmentStage =
+  | 'picked_up'
+  | 'in_transit'
+  | 'delivered'
+  | 'cancelled';
+
+export type DriverFulfillmentLine = {
+  id: string;
+  title: string | null;
+  variantTitle: string | null;
+  sku: string | null;
+  imageUrl: string | null;
+  /** Quantity loaded at pickup. */
+  quantity: number;
+  /** Quantity handed over; null until delivered. */
+  deliveredQuantity: number | null;
+};
+
+/** One `Fulfillment` the driver is carrying (or delivered) for a stop. */
+export type DriverFulfillment = {
+  id: string;
+  stage: DriverFulfillmentStage;
+  orderName: string | null;
+  /** ISO */
+  pickedUpAt: string | null;
+  /** ISO */
+  inTransitAt: string | null;
+  /** ISO */
+  deliveredAt: string | null;
+  recipientName: string | null;
+  hasSignature: boolean;
+  lineItems: DriverFulfillmentLine[];
+};
+
+/** Open Shopify order for the stop's customer that has not been picked up yet. */
+export type DriverOpenOrder = {
+  id: string;
+  name: string;
+  lineItems: {
+    id: string;
+    title: string | null;
+    variantTitle: string | null;
+    quantity: number;
+    imageUrl: string | null;
+  }[];
+};
+
+export type DriverStop = {
+  id: string;
+  sequence: number;
+  name: string;
+  address: string | null;
+  /** ISO */
+  arrivedAt: string | null;
+  /** ISO */
+  departedAt: string | null;
+  /** Shopify customer orders are delivered to (location → preset → customer). */
+  customerLabel: string | null;
+  fulfillments: DriverFulfillment[];
+  openOrders: DriverOpenOrder[];
+};
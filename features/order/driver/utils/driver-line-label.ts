@@ -0,0 +1,9 @@
+/** "Title — Variant", falling back to SKU, for driver line rows. */
+export function driverLineLabel(li: {
+  title: string | null;
+  variantTitle: string | null;
+  sku?: string | null;
+}): string {
+  const title = [li.title, li.variantTitle].filter(Boolean).join(' — ');
+  return title || li.sku || 'Item';
+}
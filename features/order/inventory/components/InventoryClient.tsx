@@ -0,0 +1,337 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Gauge, History, Loader2, Pencil, ShoppingCart } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import type { InventoryStockRow } from '../types';
+import { stockRowLabel } from '../utils/stock-row-label';
+import { InventoryCountDialog } from './InventoryCountDialog';
+import { InventoryHistoryDialog } from './InventoryHistoryDialog';
+import {
+  InventoryParLevelDialog,
+  type InventorySupplierOption,
+} from './InventoryParLevelDialog';
+
+export type InventoryLocationOption = { id: string; code: string; name: string };
+
+type RowDialog = { kind: 'count' | 'history' | 'par'; row: InventoryStockRow };
+
+/** On hand + on order at or below the reorder point: the next auto PO run will draft it. */
+function isBelowReorderPoint(r: InventoryStockRow): boolean {
+  return r.par != null && r.onHand + r.onOrder <= r.par.reorderPoint;
+}
+
+export function InventoryClient({
+  locations,
+  suppliers,
+}: {
+  locations: InventoryLocationOption[];
+  suppliers: InventorySupplierOption[];
+}) {
+  const [locationId, setLocationId] = useState(locations[0]?.id ?? '');
+  const [rows, setRows] = useState<InventoryStockRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [shortfallOnly, setShortfallOnly] = useState(false);
+  const [dialog, setDialog] = useState<RowDialog | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!locationId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/order/inventory?locationId=${encodeURIComponent(locationId)}`,
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Failed to load stock',
+        );
+      }
+      setRows((data as { rows: InventoryStockRow[] }).rows);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load stock');
+    } finally {
+      setLoading(false);
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return rows.filter((r) => {
+      if (shortfallOnly && r.shortfall <= 0) return false;
+      if (!q) return true;
+      return [r.productTitle, r.variantTitle, r.sku]
+        .filter(Boolean)
+        .some((s) => s!.toLowerCase().includes(q));
+    });
+  }, [rows, query, shortfallOnly]);
+
+  const shortfallCount = rows.filter((r) => r.shortfall > 0).length;
+
+  const generateAutoPos = async () => {
+    setGenerating(true);
+    try {
+      const res = await fetch('/api/order/inventory/par-levels/generate', {
+        method: 'POST',
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Could not draft auto POs',
+        );
+      }
+      const { created, skippedLocations } = data as {
+        created: { poNumber: string; supplierCompany: string }[];
+        skippedLocations: string[];
+      };
+      if (created.length === 0) {
+        toast.info('Nothing is at its reorder point.');
+      } else {
+        toast.success(
+          `Drafted ${created.length} auto PO${created.length === 1 ? '' : 's'} for approval in the Inbox: ${created
+            .map((c) => `#${c.poNumber} ${c.supplierCompany}`)
+            .join(', ')}`,
+        );
+      }
+      if (skippedLocations.length > 0) {
+        toast.warning(
+          `Skipped ${skippedLocations.join(', ')} — set a delivery location preset first.`,
+        );
+      }
+      void load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not draft auto POs');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (locations.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+        No locations yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Location</p>
+          <Select value={locationId} onValueChange={setLocationId}>
+            <SelectTrigger className="h-9 w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map((l) => (
+                <SelectItem key={l.id} value={l.id}>
+                  {l.code} — {l.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Search</p>
+          <Input
+            className="h-9 w-[240px]"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Product, variant or SKU"
+          />
+        </div>
+        <Button
+          type="button"
+          variant={shortfallOnly ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setShortfallOnly((v) => !v)}
+        >
+          Shortfalls only ({shortfallCount})
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => void generateAutoPos()}
+          disabled={generating}
+          title="Draft pending auto POs for par-level items at their reorder point (all locations)"
+        >
+          {generating ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <ShoppingCart className="h-3.5 w-3.5" />
+          )}
+          Draft auto POs
+        </Button>
+        {loading && (
+          <Loader2 className="mb-2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {!loading && visible.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          {rows.length === 0
+            ? 'No stock or open demand for this location yet.'
+            : 'No items match these filters.'}
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="w-[8rem]">SKU</TableHead>
+                <TableHead className="w-[6rem] text-right">On hand</TableHead>
+                <TableHead className="w-[6rem] text-right">On order</TableHead>
+                <TableHead className="w-[7rem] text-right">Open demand</TableHead>
+                <TableHead className="w-[6rem] text-right">Shortfall</TableHead>
+                <TableHead className="w-[7rem] text-right">Reorder / par</TableHead>
+                <TableHead className="w-[9rem]">Last counted</TableHead>
+                <TableHead className="w-[8rem] text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((r) => (
+                <TableRow key={r.variantGid}>
+                  <TableCell className="text-sm">{stockRowLabel(r)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {r.sku ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    <span className={r.onHand < 0 ? 'text-destructive' : ''}>
+                      {r.onHand}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {r.onOrder || '—'}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {r.openDemand || '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {r.shortfall > 0 ? (
+                      <Badge variant="red">{r.shortfall}</Badge>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className="text-right tabular-nums"
+                    title={r.par ? `Reorder from ${r.par.supplierCompany}` : undefined}
+                  >
+                    {r.par ? (
+                      <span
+                        className={
+                          isBelowReorderPoint(r)
+                            ? 'font-medium text-amber-700 dark:text-amber-400'
+                            : ''
+                        }
+                      >
+                        {r.par.reorderPoint} / {r.par.parLevel}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {r.lastCountedAt
+                      ? formatVancouverOrderedSidebar(r.lastCountedAt)
+                      : 'Never'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Adjust stock"
+                        onClick={() => setDialog({ kind: 'count', row: r })}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Par level"
+                        onClick={() => setDialog({ kind: 'par', row: r })}
+                      >
+                        <Gauge className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Stock history"
+                        onClick={() => setDialog({ kind: 'history', row: r })}
+                      >
+                        <History className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {dialog?.kind === 'count' ? (
+        <InventoryCountDialog
+          locationId={locationId}
+          row={dialog.row}
+          onOpenChange={(open) => {
+            if (!open) setDialog(null);
+          }}
+          onSaved={() => void load()}
+        />
+      ) : null}
+      {dialog?.kind === 'par' ? (
+        <InventoryParLevelDialog
+          locationId={locationId}
+          row={dialog.row}
+          suppliers={suppliers}
+          onOpenChange={(open) => {
+            if (!open) setDialog(null);
+          }}
+          onSaved={() => void load()}
+        />
+      ) : null}
+      {dialog?.kind === 'history' ? (
+        <InventoryHistoryDialog
+          locationId={locationId}
+          row={dialog.row}
+          onOpenChange={(open) => {
+            if (!open) setDialog(null);
+          }}
+        />
+      ) : null}
+    </div>
+  );
+}
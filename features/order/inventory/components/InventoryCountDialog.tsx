@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  INVENTORY_ADJUSTMENT_REASONS,
+  INVENTORY_REASON_LABELS,
+  type InventoryAdjustmentReason,
+  type InventoryStockRow,
+} from '../types';
+import { stockRowLabel } from '../utils/stock-row-label';
+
+type Props = {
+  locationId: string;
+  row: InventoryStockRow;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+};
+
+/** Manual count: enter what is on the shelf; the difference is booked with a reason. */
+export function InventoryCountDialog({
+  locationId,
+  row,
+  onOpenChange,
+  onSaved,
+}: Props) {
+  const [counted, setCounted] = useState(String(row.onHand));
+  const [reason, setReason] = useState<InventoryAdjustmentReason>('count');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const countedNum = Number(counted);
+  const valid = counted.trim() !== '' && Number.isInteger(countedNum) && countedNum >= 0;
+  const delta = valid ? countedNum - row.onHand : 0;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/order/inventory/adjustments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locationId,
+          variantGid: row.variantGid,
+          countedQuantity: countedNum,
+          reason,
+          note: note.trim() || null,
+          productTitle: row.productTitle,
+          variantTitle: row.variantTitle,
+          sku: row.sku,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Could not save count',
+        );
+      }
+      toast.success('Stock updated.');
+      onSaved();
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not save count');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust stock</DialogTitle>
+          <DialogDescription>{stockRowLabel(row)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Counted on hand</p>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              className="h-9 tabular-nums"
+              value={counted}
+              onChange={(e) => setCounted(e.target.value)}
+              disabled={saving}
+            />
+            <p className="text-[11px] text-muted-foreground">
+              Was {row.onHand}
+              {valid && delta !== 0
+                ? ` (${delta > 0 ? '+' : ''}${delta})`
+                : ''}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Reason</p>
+            <Select
+              value={reason}
+              onValueChange={(v) => setReason(v as InventoryAdjustmentReason)}
+              disabled={saving}
+            >
+              <SelectTrigger className="h-9 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVENTORY_ADJUSTMENT_REASONS.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {INVENTORY_REASON_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Note</p>
+          <Textarea
+            className="min-h-9 text-sm"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Optional"
+            disabled={saving}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void save()}
+            disabled={saving || !valid}
+          >
+            {saving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Save count
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import {
+  INVENTORY_REASON_LABELS,
+  type InventoryMovementRow,
+  type InventoryStockRow,
+} from '../types';
+import { stockRowLabel } from '../utils/stock-row-label';
+
+type Props = {
+  locationId: string;
+  row: InventoryStockRow;
+  onOpenChange: (open: boolean) => void;
+};
+
+function movementSource(m: InventoryMovementRow): string | null {
+  if (m.poNumber) return `PO #${m.poNumber}`;
+  if (m.orderName) return m.orderName;
+  return null;
+}
+
+/** Recent stock ledger for one variant at one location. */
+export function InventoryHistoryDialog({ locationId, row, onOpenChange }: Props) {
+  const [movements, setMovements] = useState<InventoryMovementRow[] | null>(
+    null,
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const sp = new URLSearchParams({ locationId, variantGid: row.variantGid });
+    fetch(`/api/order/inventory/movements?${sp}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(
+            (data as { error?: string }).error ?? 'Failed to load history',
+          );
+        }
+        if (!cancelled) {
+          setMovements(
+            (data as { movements: InventoryMovementRow[] }).movements,
+          );
+        }
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) {
+          setMovements([]);
+          toast.error(e instanceof Error ? e.message : 'Failed to load history');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [locationId, row.variantGid]);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Stock history</DialogTitle>
+          <DialogDescription>{stockRowLabel(row)}</DialogDescription>
+        </DialogHeader>
+        {movements == null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No stock movements yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {movements.map((m) => (
+              <li key={m.id} className="space-y-0.5 px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1.5 text-xs">
+                    <Badge variant="outline">
+                      {INVENTORY_REASON_LABELS[m.reason] ?? m.reason}
+                    </Badge>
+                    {movementSource(m) ? (
+                      <span className="text-muted-foreground">
+                        {movementSource(m)}
+                      </span>
+                    ) : null}
+                  </div>
+                  <span
+                    className={
+                      m.quantityDelta > 0
+                        ? 'text-sm font-medium tabular-nums text-green-600'
+                        : 'text-sm font-medium tabular-nums text-destructive'
+                    }
+                  >
+                    {m.quantityDelta > 0 ? '+' : ''}
+                    {m.quantityDelta}
+                  </span>
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  {formatVancouverOrderedSidebar(m.createdAt)}
+                  {m.userName ? ` · ${m.userName}` : ''}
+                </p>
+                {m.note ? (
+                  <p className="whitespace-pre-wrap text-[11px]">{m.note}</p>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { InventoryStockRow } from '../types';
+import { stockRowLabel } from '../utils/stock-row-label';
+
+export type InventorySupplierOption = { id: string; company: string };
+
+type Props = {
+  locationId: string;
+  row: InventoryStockRow;
+  suppliers: InventorySupplierOption[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+};
+
+function isCount(raw: string): boolean {
+  const n = Number(raw);
+  return raw.trim() !== '' && Number.isInteger(n) && n >= 0;
+}
+
+/** Staple par level: which supplier to reorder from, and when / how much. */
+export function InventoryParLevelDialog({
+  locationId,
+  row,
+  suppliers,
+  onOpenChange,
+  onSaved,
+}: Props) {
+  const [supplierId, setSupplierId] = useState(row.par?.supplierId ?? '');
+  const [parLevel, setParLevel] = useState(String(row.par?.parLevel ?? ''));
+  const [reorderPoint, setReorderPoint] = useState(
+    String(row.par?.reorderPoint ?? ''),
+  );
+  const [saving, setSaving] = useState(false);
+
+  const valid =
+    supplierId !== '' &&
+    isCount(parLevel) &&
+    isCount(reorderPoint) &&
+    Number(reorderPoint) < Number(parLevel);
+
+  const send = async (method: 'PUT' | 'DELETE') => {
+    setSaving(true);
+    try {
+      const res =
+        method === 'PUT'
+          ? await fetch('/api/order/inventory/par-levels', {
+              method,
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                locationId,
+                variantGid: row.variantGid,
+                supplierId,
+                parLevel: Number(parLevel),
+                reorderPoint: Number(reorderPoint),
+                productTitle: row.productTitle,
+                variantTitle: row.variantTitle,
+                sku: row.sku,
+              }),
+            })
+          : await fetch(
+              `/api/order/inventory/par-levels?locationId=${encodeURIComponent(locationId)}&variantGid=${encodeURIComponent(row.variantGid)}`,
+              { method },
+            );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Could not save par level',
+        );
+      }
+      toast.success(method === 'PUT' ? 'Par level saved.' : 'Par level removed.');
+      onSaved();
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not save par level');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Par level</DialogTitle>
+          <DialogDescription>{stockRowLabel(row)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Supplier</p>
+          <Select value={supplierId} onValueChange={setSupplierId} disabled={saving}>
+            <SelectTrigger className="h-9 w-full">
+              <SelectValue placeholder="Choose supplier" />
+            </SelectTrigger>
+            <SelectContent>
+              {suppliers.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.company}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Reorder at</p>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              className="h-9 tabular-nums"
+              value={reorderPoint}
+              onChange={(e) => setReorderPoint(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Top up to (par)</p>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              className="h-9 tabular-nums"
+              value={parLevel}
+              onChange={(e) => setParLevel(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          When on hand plus on order falls to the reorder point, a pending auto PO for this supplier
+          is drafted to bring it back to par. Drafts wait in the office Inbox for approval.
+        </p>
+
+        <DialogFooter>
+          {row.par ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="mr-auto text-destructive"
+              onClick={() => void send('DELETE')}
+              disabled={saving}
+            >
+              Remove
+            </Button>
+          ) : null}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void send('PUT')}
+            disabled={saving || !valid}
+          >
+            {saving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
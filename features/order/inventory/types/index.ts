@@ -0,0 +1,67 @@
+/** Reasons a user can pick for a manual stock count adjustment. */
+export const INVENTORY_ADJUSTMENT_REASONS = [
+  'count',
+  'damaged',
+  'expired',
+  'lost',
+  'found',
+  'other',
+] as const;
+
+export type InventoryAdjustmentReason =
+  (typeof INVENTORY_ADJUSTMENT_REASONS)[number];
+
+/** `inventory.inventory_movements.reason` */
+export type InventoryMovementReason =
+  | 'po_received'
+  | 'fulfillment_delivered'
+  | InventoryAdjustmentReason;
+
+export const INVENTORY_REASON_LABELS: Record<InventoryMovementReason, string> = {
+  po_received: 'PO received',
+  fulfillment_delivered: 'Delivered',
+  count: 'Count',
+  damaged: 'Damaged',
+  expired: 'Expired',
+  lost: 'Lost',
+  found: 'Found',
+  other: 'Other',
+};
+
+/** One variant row on the stock-on-hand view for a location. */
+export type InventoryStockRow = {
+  variantGid: string;
+  productTitle: string | null;
+  variantTitle: string | null;
+  sku: string | null;
+  onHand: number;
+  /** Unfulfilled quantity on open Shopify orders whose stock comes from this location. */
+  openDemand: number;
+  /** Ordered but not yet received on open POs. */
+  onOrder: number;
+  /** max(0, openDemand − onHand − onOrder) */
+  shortfall: number;
+  /** ISO */
+  lastCountedAt: string | null;
+  /** Staple par / reorder point at this location, when set. */
+  par: InventoryParLevelInfo | null;
+};
+
+export type InventoryParLevelInfo = {
+  supplierId: string;
+  supplierCompany: string;
+  parLevel: number;
+  reorderPoint: number;
+};
+
+export type InventoryMovementRow = {
+  id: string;
+  quantityDelta: number;
+  reason: InventoryMovementReason;
+  note: string | null;
+  userName: string | null;
+  poNumber: string | null;
+  orderName: string | null;
+  /** ISO */
+  createdAt: string;
+};
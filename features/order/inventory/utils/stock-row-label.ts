@@ -0,0 +1,9 @@
+import type { InventoryStockRow } from '../types';
+
+/** "Product — Variant", falling back to SKU / variant GID. */
+export function stockRowLabel(
+  row: Pick<InventoryStockRow, 'productTitle' | 'variantTitle' | 'sku' | 'variantGid'>,
+): string {
+  const title = [row.productTitle, row.variantTitle].filter(Boolean).join(' — ');
+  return title || row.sku || row.variantGid;
+}
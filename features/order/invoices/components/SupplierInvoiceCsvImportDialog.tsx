@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { InvoiceSupplierOption } from './SupplierInvoiceFormDialog';
+
+type Props = {
+  suppliers: InvoiceSupplierOption[];
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+};
+
+type ImportResult = {
+  created: { id: string; invoiceNumber: string }[];
+  skipped: { invoiceNumber: string; reason: string }[];
+};
+
+/** Upload one supplier's invoice CSV; rows are grouped by invoice number and linked by PO number. */
+export function SupplierInvoiceCsvImportDialog({ suppliers, onOpenChange, onImported }: Props) {
+  const [supplierId, setSupplierId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const upload = async () => {
+    if (!file) return;
+    setImporting(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('supplierId', supplierId);
+      const res = await fetch('/api/order/supplier-invoices/import-csv', {
+        method: 'POST',
+        body: form,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((data as { error?: string }).error ?? 'Import failed');
+      }
+      const body = data as ImportResult;
+      setResult(body);
+      if (body.created.length > 0) {
+        toast.success(
+          `Imported ${body.created.length} invoice${body.created.length === 1 ? '' : 's'}.`,
+        );
+        onImported();
+      }
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import invoices</DialogTitle>
+          <DialogDescription>
+            One row per invoice line with columns Invoice Number, Invoice Date, PO Number, SKU,
+            Description, Quantity and Unit Price. Optional: Due Date, Tax, Shipping, Total,
+            Currency.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Supplier</p>
+          <Select value={supplierId} onValueChange={setSupplierId} disabled={importing}>
+            <SelectTrigger className="h-9 w-full">
+              <SelectValue placeholder="Choose supplier" />
+            </SelectTrigger>
+            <SelectContent>
+              {suppliers.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.company}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">CSV file</p>
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="h-9"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setResult(null);
+            }}
+            disabled={importing}
+          />
+        </div>
+
+        {result ? (
+          <div className="space-y-1 text-xs">
+            <p>
+              {result.created.length} created
+              {result.skipped.length > 0 ? `, ${result.skipped.length} skipped` : ''}.
+            </p>
+            {result.skipped.length > 0 ? (
+              <ul className="max-h-32 list-disc space-y-0.5 overflow-y-auto pl-4 text-muted-foreground">
+                {result.skipped.map((s) => (
+                  <li key={s.invoiceNumber}>
+                    {s.invoiceNumber}: {s.reason}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={importing}
+          >
+            Close
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void upload()}
+            disabled={importing || !supplierId || !file}
+          >
+            {importing && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
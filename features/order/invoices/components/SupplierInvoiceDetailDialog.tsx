@@ -0,0 +1,356 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import { isIssueFlag } from '@/lib/order/supplier-invoice-match';
+import {
+  INVOICE_MATCH_FLAG_LABELS,
+  SUPPLIER_INVOICE_STATUS_LABELS,
+  type InvoiceMatchRow,
+  type SupplierInvoiceDetail,
+  type SupplierInvoiceStatus,
+} from '../types';
+import { formatInvoiceMoney } from '../utils/format-invoice-money';
+
+type Props = {
+  invoiceId: string;
+  onOpenChange: (open: boolean) => void;
+  /** Status changed or invoice deleted. */
+  onChanged: () => void;
+};
+
+function qtyCell(row: InvoiceMatchRow) {
+  const over = row.flags.includes('quantity');
+  return (
+    <span className={over ? 'font-medium text-destructive' : ''}>
+      {row.invoicedQty}
+      {row.invoicedQtyAllInvoices !== row.invoicedQty ? (
+        <span className="text-muted-foreground"> ({row.invoicedQtyAllInvoices} all)</span>
+      ) : null}
+    </span>
+  );
+}
+
+/** Three-way match for one invoice, with approve / dispute / reopen. */
+export function SupplierInvoiceDetailDialog({ invoiceId, onOpenChange, onChanged }: Props) {
+  const [invoice, setInvoice] = useState<SupplierInvoiceDetail | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [disputing, setDisputing] = useState(false);
+  const [disputeNote, setDisputeNote] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/order/supplier-invoices/${invoiceId}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((data as { error?: string }).error ?? 'Failed to load invoice');
+      }
+      setInvoice((data as { invoice: SupplierInvoiceDetail }).invoice);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load invoice');
+      onOpenChange(false);
+    }
+  }, [invoiceId, onOpenChange]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const setStatus = async (status: SupplierInvoiceStatus) => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/order/supplier-invoices/${invoiceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          disputeNote: status === 'disputed' ? disputeNote : undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((data as { error?: string }).error ?? 'Could not update invoice');
+      }
+      setInvoice((data as { invoice: SupplierInvoiceDetail }).invoice);
+      setDisputing(false);
+      toast.success(`Invoice ${SUPPLIER_INVOICE_STATUS_LABELS[status].toLowerCase()}.`);
+      onChanged();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not update invoice');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!window.confirm('Delete this invoice? Its POs go back to awaiting invoice.')) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/order/supplier-invoices/${invoiceId}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((data as { error?: string }).error ?? 'Could not delete invoice');
+      }
+      toast.success('Invoice deleted.');
+      onChanged();
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not delete invoice');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {invoice ? `Invoice ${invoice.invoiceNumber}` : 'Invoice'}
+          </DialogTitle>
+          <DialogDescription>
+            {invoice
+              ? `${invoice.supplierCompany} · ${invoice.invoiceDate}${invoice.dueDate ? ` · due ${invoice.dueDate}` : ''} · POs ${invoice.poNumbers.map((n) => `#${n}`).join(', ')}`
+              : 'Loading…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!invoice ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge
+                variant={
+                  invoice.status === 'approved'
+                    ? 'green'
+                    : invoice.status === 'disputed'
+                      ? 'red'
+                      : 'gray'
+                }
+              >
+                {SUPPLIER_INVOICE_STATUS_LABELS[invoice.status]}
+              </Badge>
+              {invoice.issueCount > 0 ? (
+                <Badge variant="amber">
+                  {invoice.issueCount} issue{invoice.issueCount === 1 ? '' : 's'}
+                </Badge>
+              ) : (
+                <span className="text-xs text-muted-foreground">Matches the POs</span>
+              )}
+              <span className="ml-auto text-xs text-muted-foreground">
+                {invoice.source === 'csv' ? 'Imported from CSV' : 'Entered'}
+                {invoice.createdByName ? ` by ${invoice.createdByName}` : ''}
+              </span>
+            </div>
+
+            {invoice.status === 'disputed' && invoice.disputeNote ? (
+              <p className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs">
+                <span className="font-medium">Disputed</span>
+                {invoice.disputedAt
+                  ? ` ${formatVancouverOrderedSidebar(invoice.disputedAt)}`
+                  : ''}
+                : {invoice.disputeNote}
+              </p>
+            ) : null}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[5rem]">PO</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="w-[5rem] text-right">Ordered</TableHead>
+                    <TableHead className="w-[5rem] text-right">Received</TableHead>
+                    <TableHead className="w-[7rem] text-right">Invoiced</TableHead>
+                    <TableHead className="w-[6rem] text-right">PO price</TableHead>
+                    <TableHead className="w-[7rem] text-right">Invoice price</TableHead>
+                    <TableHead className="w-[2rem]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoice.rows.map((row) => {
+                    const priceOff = row.flags.includes('price');
+                    return (
+                      <TableRow key={row.key}>
+                        <TableCell className="text-xs">
+                          {row.poNumber ? `#${row.poNumber}` : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.label}
+                          {row.sku ? (
+                            <span className="ml-1 text-xs text-muted-foreground">{row.sku}</span>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {row.orderedQty ?? '—'}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {row.receivedQty ?? '—'}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{qtyCell(row)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatInvoiceMoney(row.poUnitPrice, invoice.currency)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${priceOff ? 'font-medium text-destructive' : ''}`}
+                        >
+                          {formatInvoiceMoney(row.invoiceUnitPrice, invoice.currency)}
+                        </TableCell>
+                        <TableCell>
+                          {row.flags.length > 0 ? (
+                            <span
+                              title={row.flags
+                                .map((f) => INVOICE_MATCH_FLAG_LABELS[f])
+                                .join('; ')}
+                            >
+                              <AlertTriangle
+                                className={`h-3.5 w-3.5 ${row.flags.some(isIssueFlag) ? 'text-destructive' : 'text-muted-foreground'}`}
+                              />
+                            </span>
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm sm:grid-cols-4">
+              <span className="text-muted-foreground">Lines</span>
+              <span className="text-right tabular-nums">
+                {formatInvoiceMoney(invoice.linesTotal, invoice.currency)}
+              </span>
+              <span className="text-muted-foreground">Tax</span>
+              <span className="text-right tabular-nums">
+                {formatInvoiceMoney(invoice.tax, invoice.currency)}
+              </span>
+              <span className="text-muted-foreground">Shipping</span>
+              <span className="text-right tabular-nums">
+                {formatInvoiceMoney(invoice.shipping, invoice.currency)}
+              </span>
+              <span className="text-muted-foreground">Total</span>
+              <span
+                className={`text-right font-medium tabular-nums ${invoice.totalMismatch ? 'text-destructive' : ''}`}
+                title={
+                  invoice.totalMismatch
+                    ? 'Lines + tax + shipping do not add up to the invoice total'
+                    : undefined
+                }
+              >
+                {formatInvoiceMoney(invoice.total, invoice.currency)}
+              </span>
+            </div>
+            {invoice.notes ? (
+              <p className="text-xs text-muted-foreground whitespace-pre-wrap">{invoice.notes}</p>
+            ) : null}
+
+            {disputing ? (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">What was raised with the supplier</p>
+                <Textarea
+                  rows={2}
+                  value={disputeNote}
+                  onChange={(e) => setDisputeNote(e.target.value)}
+                  disabled={busy}
+                  placeholder="e.g. Billed 12 cases, 10 received — credit requested"
+                />
+              </div>
+            ) : null}
+          </>
+        )}
+
+        <DialogFooter>
+          {invoice ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="mr-auto text-destructive"
+              onClick={() => void remove()}
+              disabled={busy}
+            >
+              Delete
+            </Button>
+          ) : null}
+          {invoice && disputing ? (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDisputing(false)}
+                disabled={busy}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => void setStatus('disputed')}
+                disabled={busy || !disputeNote.trim()}
+              >
+                {busy && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                Dispute
+              </Button>
+            </>
+          ) : invoice ? (
+            <>
+              {invoice.status !== 'open' ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => void setStatus('open')}
+                  disabled={busy}
+                >
+                  Reopen
+                </Button>
+              ) : null}
+              {invoice.status !== 'disputed' ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setDisputeNote(invoice.disputeNote ?? '');
+                    setDisputing(true);
+                  }}
+                  disabled={busy}
+                >
+                  Dispute…
+                </Button>
+              ) : null}
+              {invoice.status !== 'approved' ? (
+                <Button type="button" onClick={() => void setStatus('approved')} disabled={busy}>
+                  {busy && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Approve
+                </Button>
+              ) : null}
+            </>
+          ) : null}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
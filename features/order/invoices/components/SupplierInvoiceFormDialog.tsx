@@ -0,0 +1,458 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import type { InvoiceablePurchaseOrder } from '../types';
+import { formatInvoiceMoney } from '../utils/format-invoice-money';
+
+export type InvoiceSupplierOption = { id: string; company: string };
+
+type Props = {
+  suppliers: InvoiceSupplierOption[];
+  initialSupplierId: string;
+  /** Preselected from the Awaiting invoice tab. */
+  initialPurchaseOrderId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (invoiceId: string) => void;
+};
+
+type DraftLine = {
+  key: string;
+  purchaseOrderId: string | null;
+  purchaseOrderLineItemId: string | null;
+  description: string;
+  sku: string;
+  quantity: string;
+  unitPrice: string;
+};
+
+function isNonNegative(raw: string): boolean {
+  const n = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(n) && n >= 0;
+}
+
+function optionalAmount(raw: string): number | null {
+  return raw.trim() === '' ? null : Number(raw);
+}
+
+/** Lines billed for a PO default to what was received (or ordered, if nothing was) at the PO price. */
+function linesFromPo(po: InvoiceablePurchaseOrder): DraftLine[] {
+  return po.lines.map((l) => ({
+    key: l.id,
+    purchaseOrderId: po.id,
+    purchaseOrderLineItemId: l.id,
+    description: l.label,
+    sku: l.sku ?? '',
+    quantity: String(l.quantityReceived > 0 ? l.quantityReceived : l.quantity),
+    unitPrice: l.itemPrice != null ? String(l.itemPrice) : '',
+  }));
+}
+
+/** Enter a supplier invoice: pick the POs it covers, then adjust lines to what was billed. */
+export function SupplierInvoiceFormDialog({
+  suppliers,
+  initialSupplierId,
+  initialPurchaseOrderId,
+  onOpenChange,
+  onCreated,
+}: Props) {
+  const [supplierId, setSupplierId] = useState(initialSupplierId);
+  const [purchaseOrders, setPurchaseOrders] = useState<InvoiceablePurchaseOrder[]>([]);
+  const [loadingPos, setLoadingPos] = useState(false);
+  const [selectedPoIds, setSelectedPoIds] = useState<string[]>([]);
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(() => toVancouverYmd(new Date()));
+  const [dueDate, setDueDate] = useState('');
+  const [tax, setTax] = useState('');
+  const [shipping, setShipping] = useState('');
+  const [total, setTotal] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!supplierId) return;
+    let cancelled = false;
+    const run = async () => {
+      setLoadingPos(true);
+      try {
+        const res = await fetch(
+          `/api/order/supplier-invoices/purchase-orders?supplierId=${encodeURIComponent(supplierId)}`,
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(
+            (data as { error?: string }).error ?? 'Failed to load purchase orders',
+          );
+        }
+        if (cancelled) return;
+        const pos = (data as { purchaseOrders: InvoiceablePurchaseOrder[] })
+          .purchaseOrders;
+        setPurchaseOrders(pos);
+        const preset = pos.find((p) => p.id === initialPurchaseOrderId);
+        setSelectedPoIds(preset ? [preset.id] : []);
+        setLines(preset ? linesFromPo(preset) : []);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : 'Failed to load purchase orders');
+      } finally {
+        if (!cancelled) setLoadingPos(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [supplierId, initialPurchaseOrderId]);
+
+  const togglePo = (po: InvoiceablePurchaseOrder) => {
+    if (selectedPoIds.includes(po.id)) {
+      setSelectedPoIds((ids) => ids.filter((id) => id !== po.id));
+      setLines((ls) => ls.filter((l) => l.purchaseOrderId !== po.id));
+    } else {
+      setSelectedPoIds((ids) => [...ids, po.id]);
+      setLines((ls) => [...ls, ...linesFromPo(po)]);
+    }
+  };
+
+  const updateLine = (key: string, patch: Partial<DraftLine>) => {
+    setLines((ls) => ls.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+  };
+
+  const linesTotal = useMemo(
+    () =>
+      lines.reduce(
+        (s, l) => s + (Number(l.quantity) || 0) * (Number(l.unitPrice) || 0),
+        0,
+      ),
+    [lines],
+  );
+  const computedTotal =
+    linesTotal + (optionalAmount(tax) ?? 0) + (optionalAmount(shipping) ?? 0);
+
+  const valid =
+    supplierId !== '' &&
+    invoiceNumber.trim() !== '' &&
+    invoiceDate !== '' &&
+    selectedPoIds.length > 0 &&
+    lines.length > 0 &&
+    lines.every(
+      (l) =>
+        Number.isInteger(Number(l.quantity)) &&
+        isNonNegative(l.quantity) &&
+        isNonNegative(l.unitPrice) &&
+        (l.purchaseOrderLineItemId || l.description.trim() || l.sku.trim()),
+    ) &&
+    [tax, shipping, total].every((v) => v.trim() === '' || isNonNegative(v));
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/order/supplier-invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supplierId,
+          invoiceNumber,
+          invoiceDate,
+          dueDate: dueDate || null,
+          currency: 'CAD',
+          tax: optionalAmount(tax),
+          shipping: optionalAmount(shipping),
+          total: optionalAmount(total),
+          notes: notes || null,
+          purchaseOrderIds: selectedPoIds,
+          lines: lines.map((l) => ({
+            purchaseOrderLineItemId: l.purchaseOrderLineItemId,
+            sku: l.sku || null,
+            description: l.description || null,
+            quantity: Number(l.quantity),
+            unitPrice: Number(l.unitPrice),
+          })),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((data as { error?: string }).error ?? 'Could not save invoice');
+      }
+      toast.success(`Invoice ${invoiceNumber.trim()} saved.`);
+      onCreated((data as { id: string }).id);
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not save invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New supplier invoice</DialogTitle>
+          <DialogDescription>
+            Lines start from what was received at the PO price — change them to match the invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <div className="col-span-2 space-y-1">
+            <p className="text-xs text-muted-foreground">Supplier</p>
+            <Select
+              value={supplierId}
+              onValueChange={(v) => {
+                setSupplierId(v);
+                setSelectedPoIds([]);
+                setLines([]);
+              }}
+              disabled={saving}
+            >
+              <SelectTrigger className="h-9 w-full">
+                <SelectValue placeholder="Choose supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.company}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 space-y-1">
+            <p className="text-xs text-muted-foreground">Invoice number</p>
+            <Input
+              className="h-9"
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <p className="text-xs text-muted-foreground">Invoice date</p>
+            <YmdDateInput
+              className="h-9"
+              value={invoiceDate}
+              onChange={(e) => setInvoiceDate(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <p className="text-xs text-muted-foreground">Due date (optional)</p>
+            <YmdDateInput
+              className="h-9"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        {supplierId ? (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Purchase orders on this invoice</p>
+            {loadingPos ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : purchaseOrders.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No purchase orders for this supplier.</p>
+            ) : (
+              <div className="flex max-h-32 flex-wrap gap-x-4 gap-y-1 overflow-y-auto rounded-md border p-2">
+                {purchaseOrders.map((po) => (
+                  <label key={po.id} className="flex items-center gap-1.5 text-xs">
+                    <input
+                      type="checkbox"
+                      className="size-3.5 rounded border border-input"
+                      checked={selectedPoIds.includes(po.id)}
+                      onChange={() => togglePo(po)}
+                      disabled={saving}
+                    />
+                    #{po.poNumber}
+                    <span className="text-muted-foreground">
+                      {po.dateCreated ?? ''}
+                      {po.invoiced ? ' · invoiced' : ''}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <div className="space-y-1">
+          <div className="grid grid-cols-[1fr_6rem_5rem_6rem_2rem] gap-2 text-xs text-muted-foreground">
+            <span>Item</span>
+            <span>SKU</span>
+            <span className="text-right">Qty</span>
+            <span className="text-right">Unit price</span>
+            <span />
+          </div>
+          {lines.map((l) => (
+            <div
+              key={l.key}
+              className="grid grid-cols-[1fr_6rem_5rem_6rem_2rem] items-center gap-2"
+            >
+              {l.purchaseOrderLineItemId ? (
+                <span className="truncate text-sm" title={l.description}>
+                  {l.description}
+                </span>
+              ) : (
+                <Input
+                  className="h-8"
+                  placeholder="Description"
+                  value={l.description}
+                  onChange={(e) => updateLine(l.key, { description: e.target.value })}
+                  disabled={saving}
+                />
+              )}
+              <Input
+                className="h-8 text-xs"
+                value={l.sku}
+                onChange={(e) => updateLine(l.key, { sku: e.target.value })}
+                disabled={saving || !!l.purchaseOrderLineItemId}
+              />
+              <Input
+                type="number"
+                min={0}
+                step={1}
+                className="h-8 text-right tabular-nums"
+                value={l.quantity}
+                onChange={(e) => updateLine(l.key, { quantity: e.target.value })}
+                disabled={saving}
+              />
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                className="h-8 text-right tabular-nums"
+                value={l.unitPrice}
+                onChange={(e) => updateLine(l.key, { unitPrice: e.target.value })}
+                disabled={saving}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                title="Remove line"
+                onClick={() => setLines((ls) => ls.filter((x) => x.key !== l.key))}
+                disabled={saving}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setLines((ls) => [
+                ...ls,
+                {
+                  key: `new-${Date.now()}`,
+                  purchaseOrderId: null,
+                  purchaseOrderLineItemId: null,
+                  description: '',
+                  sku: '',
+                  quantity: '1',
+                  unitPrice: '',
+                },
+              ])
+            }
+            disabled={saving}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add line
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Tax</p>
+            <Input
+              type="number"
+              min={0}
+              step={0.01}
+              className="h-9 tabular-nums"
+              value={tax}
+              onChange={(e) => setTax(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Shipping</p>
+            <Input
+              type="number"
+              min={0}
+              step={0.01}
+              className="h-9 tabular-nums"
+              value={shipping}
+              onChange={(e) => setShipping(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Invoice total</p>
+            <Input
+              type="number"
+              min={0}
+              step={0.01}
+              className="h-9 tabular-nums"
+              placeholder={computedTotal.toFixed(2)}
+              value={total}
+              onChange={(e) => setTotal(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Lines come to {formatInvoiceMoney(linesTotal, 'CAD')}. Leave the total blank to use lines
+          + tax + shipping; enter the printed total to have a mismatch flagged.
+        </p>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Notes (optional)</p>
+          <Textarea
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => void save()} disabled={saving || !valid}>
+            {saving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { FilePlus2, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import {
+  SUPPLIER_INVOICE_STATUS_LABELS,
+  type AwaitingInvoicePoRow,
+  type SupplierInvoiceListRow,
+  type SupplierInvoiceStatus,
+} from '../types';
+import { formatInvoiceMoney } from '../utils/format-invoice-money';
+import { SupplierInvoiceCsvImportDialog } from './SupplierInvoiceCsvImportDialog';
+import { SupplierInvoiceDetailDialog } from './SupplierInvoiceDetailDialog';
+import {
+  SupplierInvoiceFormDialog,
+  type InvoiceSupplierOption,
+} from './SupplierInvoiceFormDialog';
+
+type Tab = 'awaiting' | 'invoices' | 'disputed';
+
+type FormPrefill = { supplierId: string; purchaseOrderId: string } | null;
+
+const STATUS_BADGE: Record<SupplierInvoiceStatus, 'gray' | 'green' | 'red'> = {
+  open: 'gray',
+  approved: 'green',
+  disputed: 'red',
+};
+
+export function SupplierInvoicesClient({
+  suppliers,
+  initialInvoiceId,
+}: {
+  suppliers: InvoiceSupplierOption[];
+  initialInvoiceId: string | null;
+}) {
+  const [tab, setTab] = useState<Tab>(initialInvoiceId ? 'invoices' : 'awaiting');
+  const [invoices, setInvoices] = useState<SupplierInvoiceListRow[]>([]);
+  const [awaiting, setAwaiting] = useState<AwaitingInvoicePoRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formPrefill, setFormPrefill] = useState<FormPrefill | undefined>(undefined);
+  const [importOpen, setImportOpen] = useState(false);
+  const [detailId, setDetailId] = useState<string | null>(initialInvoiceId);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/order/supplier-invoices');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Failed to load invoices',
+        );
+      }
+      const body = data as {
+        invoices: SupplierInvoiceListRow[];
+        awaitingInvoice: AwaitingInvoicePoRow[];
+      };
+      setInvoices(body.invoices);
+      setAwaiting(body.awaitingInvoice);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const disputed = useMemo(
+    () => invoices.filter((i) => i.status === 'disputed'),
+    [invoices],
+  );
+  const invoiceRows = tab === 'disputed' ? disputed : invoices;
+
+  const tabButton = (value: Tab, label: string, count: number) => (
+    <Button
+      type="button"
+      variant={tab === value ? 'default' : 'outline'}
+      size="sm"
+      onClick={() => setTab(value)}
+    >
+      {label} ({count})
+    </Button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {tabButton('awaiting', 'Awaiting invoice', awaiting.length)}
+        {tabButton('invoices', 'Invoices', invoices.length)}
+        {tabButton('disputed', 'Disputed', disputed.length)}
+        {loading && (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setImportOpen(true)}
+          >
+            <Upload className="h-3.5 w-3.5" />
+            Import CSV
+          </Button>
+          <Button type="button" size="sm" onClick={() => setFormPrefill(null)}>
+            <FilePlus2 className="h-3.5 w-3.5" />
+            New invoice
+          </Button>
+        </div>
+      </div>
+
+      {tab === 'awaiting' ? (
+        !loading && awaiting.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+            Every received PO has an invoice.
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[7rem]">PO</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="w-[10rem]">Received</TableHead>
+                  <TableHead className="w-[8rem] text-right">PO total</TableHead>
+                  <TableHead className="w-[9rem] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {awaiting.map((po) => (
+                  <TableRow key={po.id}>
+                    <TableCell className="font-medium">#{po.poNumber}</TableCell>
+                    <TableCell className="text-sm">{po.supplierCompany}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {po.receivedAt
+                        ? formatVancouverOrderedSidebar(po.receivedAt)
+                        : 'Partially received'}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatInvoiceMoney(po.totalPrice, po.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="xs"
+                        disabled={!po.supplierId}
+                        onClick={() =>
+                          po.supplierId &&
+                          setFormPrefill({
+                            supplierId: po.supplierId,
+                            purchaseOrderId: po.id,
+                          })
+                        }
+                      >
+                        Enter invoice
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )
+      ) : !loading && invoiceRows.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          {tab === 'disputed' ? 'No disputed invoices.' : 'No invoices yet.'}
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[9rem]">Invoice</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="w-[7rem]">Date</TableHead>
+                <TableHead className="w-[7rem]">Due</TableHead>
+                <TableHead className="w-[9rem]">POs</TableHead>
+                <TableHead className="w-[8rem] text-right">Total</TableHead>
+                <TableHead className="w-[6rem]">Status</TableHead>
+                <TableHead className="w-[6rem] text-right">Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoiceRows.map((inv) => (
+                <TableRow
+                  key={inv.id}
+                  className="cursor-pointer"
+                  onClick={() => setDetailId(inv.id)}
+                >
+                  <TableCell className="font-medium">{inv.invoiceNumber}</TableCell>
+                  <TableCell className="text-sm">{inv.supplierCompany}</TableCell>
+                  <TableCell className="text-xs tabular-nums">{inv.invoiceDate}</TableCell>
+                  <TableCell className="text-xs tabular-nums text-muted-foreground">
+                    {inv.dueDate ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {inv.poNumbers.map((n) => `#${n}`).join(', ')}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatInvoiceMoney(inv.total, inv.currency)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGE[inv.status]}>
+                      {SUPPLIER_INVOICE_STATUS_LABELS[inv.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {inv.issueCount > 0 ? (
+                      <Badge variant="amber">{inv.issueCount}</Badge>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {formPrefill !== undefined ? (
+        <SupplierInvoiceFormDialog
+          suppliers={suppliers}
+          initialSupplierId={formPrefill?.supplierId ?? ''}
+          initialPurchaseOrderId={formPrefill?.purchaseOrderId ?? null}
+          onOpenChange={(open) => {
+            if (!open) setFormPrefill(undefined);
+          }}
+          onCreated={(id) => {
+            void load();
+            setTab('invoices');
+            setDetailId(id);
+          }}
+        />
+      ) : null}
+      {importOpen ? (
+        <SupplierInvoiceCsvImportDialog
+          suppliers={suppliers}
+          onOpenChange={setImportOpen}
+          onImported={() => {
+            void load();
+            setTab('invoices');
+          }}
+        />
+      ) : null}
+      {detailId ? (
+        <SupplierInvoiceDetailDialog
+          invoiceId={detailId}
+          onOpenChange={(open) => {
+            if (!open) setDetailId(null);
+          }}
+          onChanged={() => void load()}
+        />
+      ) : null}
+    </div>
+  );
+}
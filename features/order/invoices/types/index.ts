@@ -0,0 +1,123 @@
+/** `order.supplier_invoices.status` */
+export const SUPPLIER_INVOICE_STATUSES = ['open', 'approved', 'disputed'] as const;
+
+export type SupplierInvoiceStatus = (typeof SUPPLIER_INVOICE_STATUSES)[number];
+
+export const SUPPLIER_INVOICE_STATUS_LABELS: Record<SupplierInvoiceStatus, string> = {
+  open: 'Open',
+  approved: 'Approved',
+  disputed: 'Disputed',
+};
+
+/**
+ * Three-way match problems on one row. `not_invoiced` (received but not billed on this invoice) is
+ * informational — suppliers often bill in parts — and does not count as an issue.
+ */
+export type InvoiceMatchFlag = 'price' | 'quantity' | 'not_on_po' | 'not_invoiced';
+
+export const INVOICE_MATCH_FLAG_LABELS: Record<InvoiceMatchFlag, string> = {
+  price: 'Price differs from PO',
+  quantity: 'Billed quantity differs from received',
+  not_on_po: 'Not on a linked PO',
+  not_invoiced: 'Received, not billed here',
+};
+
+/** One PO line (or unmatched invoice line) compared across ordered, received and invoiced. */
+export type InvoiceMatchRow = {
+  key: string;
+  purchaseOrderLineItemId: string | null;
+  poNumber: string | null;
+  label: string;
+  sku: string | null;
+  orderedQty: number | null;
+  receivedQty: number | null;
+  /** Billed on this invoice. */
+  invoicedQty: number;
+  /** Billed on every invoice for this PO line (this one included). */
+  invoicedQtyAllInvoices: number;
+  poUnitPrice: number | null;
+  /** Null when this invoice does not bill the line; averaged if billed on several lines. */
+  invoiceUnitPrice: number | null;
+  flags: InvoiceMatchFlag[];
+};
+
+export type SupplierInvoiceListRow = {
+  id: string;
+  invoiceNumber: string;
+  supplierId: string;
+  supplierCompany: string;
+  /** `YYYY-MM-DD` */
+  invoiceDate: string;
+  /** `YYYY-MM-DD` */
+  dueDate: string | null;
+  currency: string;
+  total: number;
+  status: SupplierInvoiceStatus;
+  poNumbers: string[];
+  /** Rows with price / quantity / not-on-PO flags, plus one for a header total mismatch. */
+  issueCount: number;
+};
+
+export type SupplierInvoiceDetail = SupplierInvoiceListRow & {
+  subtotal: number | null;
+  tax: number | null;
+  shipping: number | null;
+  /** Sum of line quantity × unit price. */
+  linesTotal: number;
+  /** Lines + tax + shipping do not add up to `total`. */
+  totalMismatch: boolean;
+  notes: string | null;
+  disputeNote: string | null;
+  /** ISO */
+  disputedAt: string | null;
+  /** ISO */
+  approvedAt: string | null;
+  source: 'manual' | 'csv';
+  createdByName: string | null;
+  rows: InvoiceMatchRow[];
+};
+
+/** Received PO with no invoice linked yet. */
+export type AwaitingInvoicePoRow = {
+  id: string;
+  poNumber: string;
+  supplierId: string | null;
+  supplierCompany: string;
+  currency: string;
+  /** ISO — last receipt, or null when lines were received without `receivedAt`. */
+  receivedAt: string | null;
+  totalPrice: number | null;
+};
+
+/** Invoice state of one PO for the office PO panel. */
+export type PurchaseOrderInvoiceState =
+  | 'not_received'
+  | 'awaiting_invoice'
+  | 'invoiced'
+  | 'disputed';
+
+export type PurchaseOrderInvoiceSummary = {
+  state: PurchaseOrderInvoiceState;
+  invoices: Pick<
+    SupplierInvoiceListRow,
+    'id' | 'invoiceNumber' | 'status' | 'issueCount'
+  >[];
+};
+
+/** PO offered when entering an invoice, with lines to prefill invoice lines from. */
+export type InvoiceablePurchaseOrder = {
+  id: string;
+  poNumber: string;
+  /** `YYYY-MM-DD` */
+  dateCreated: string | null;
+  status: string;
+  invoiced: boolean;
+  lines: {
+    id: string;
+    label: string;
+    sku: string | null;
+    quantity: number;
+    quantityReceived: number;
+    itemPrice: number | null;
+  }[];
+};
@@ -0,0 +1,12 @@
+/** Invoice / PO amounts in the office Invoices page; `—` when missing. */
+export function formatInvoiceMoney(amount: number | null, currency: string): string {
+  if (amount == null) return '—';
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: currency || 'CAD',
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,405 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Minus, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { formatCurrency } from '@/lib/utils';
+import { formatYmdWithWeekday } from '@/lib/datetime/format-ymd-weekday';
+import { LineItemThumb } from '@/features/order/office/components/LineItemThumb';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import type {
+  LocationCatalogVariant,
+  LocationOrderRow,
+} from '../types';
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+type CartLine = LocationCatalogVariant & { quantity: number };
+
+type Props = {
+  locationLabel: string;
+  customerLabel: string;
+  addressLine: string;
+};
+
+function variantLabel(v: {
+  productTitle?: string | null;
+  title?: string | null;
+  variantTitle: string | null;
+}): string {
+  const base = v.productTitle ?? v.title ?? 'Item';
+  return v.variantTitle && v.variantTitle !== 'Default Title'
+    ? `${base} — ${v.variantTitle}`
+    : base;
+}
+
+/** `UNFULFILLED` → `Unfulfilled`, `PARTIALLY_FULFILLED` → `Partially fulfilled`. */
+function humanizeStatus(raw: string | null): string {
+  if (!raw) return 'Unknown';
+  const s = raw.toLowerCase().replace(/_/g, ' ');
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+function fulfillmentVariant(
+  raw: string | null,
+): 'green' | 'amber' | 'gray' | 'red' {
+  switch (raw) {
+    case 'FULFILLED':
+      return 'green';
+    case 'PARTIALLY_FULFILLED':
+    case 'IN_PROGRESS':
+    case 'SCHEDULED':
+      return 'amber';
+    case 'RESTOCKED':
+    case 'ON_HOLD':
+      return 'red';
+    default:
+      return 'gray';
+  }
+}
+
+export function LocationOrderClient({
+  locationLabel,
+  customerLabel,
+  addressLine,
+}: Props) {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [results, setResults] = useState<LocationCatalogVariant[]>([]);
+  const [endCursor, setEndCursor] = useState<string | null>(null);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [searching, setSearching] = useState(false);
+
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [orders, setOrders] = useState<LocationOrderRow[]>([]);
+  const [ordersLoading, setOrdersLoading] = useState(true);
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(t);
+  }, [query]);
+
+  const searchCatalog = useCallback(
+    async (q: string, after: string | null) => {
+      setSearching(true);
+      try {
+        const sp = new URLSearchParams();
+        if (q) sp.set('q', q);
+        if (after) sp.set('after', after);
+        const res = await fetch(`/api/order/location/catalog?${sp.toString()}`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(
+            (data as { error?: string }).error ?? 'Catalog search failed',
+          );
+        }
+        const page = data as {
+          rows: LocationCatalogVariant[];
+          endCursor: string | null;
+          hasNextPage: boolean;
+        };
+        setResults((prev) => (after ? [...prev, ...page.rows] : page.rows));
+        setEndCursor(page.endCursor);
+        setHasNextPage(page.hasNextPage);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : 'Catalog search failed');
+      } finally {
+        setSearching(false);
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    void searchCatalog(debouncedQuery, null);
+  }, [debouncedQuery, searchCatalog]);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      const res = await fetch('/api/order/location/orders');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Failed to load orders',
+        );
+      }
+      setOrders((data as { orders: LocationOrderRow[] }).orders);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load orders');
+    } finally {
+      setOrdersLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadOrders();
+  }, [loadOrders]);
+
+  const addToCart = (v: LocationCatalogVariant) => {
+    setCart((prev) => {
+      const existing = prev.find((l) => l.variantId === v.variantId);
+      if (existing) {
+        return prev.map((l) =>
+          l.variantId === v.variantId ? { ...l, quantity: l.quantity + 1 } : l,
+        );
+      }
+      return [...prev, { ...v, quantity: 1 }];
+    });
+  };
+
+  const setCartQty = (variantId: string, quantity: number) => {
+    setCart((prev) =>
+      prev.map((l) =>
+        l.variantId === variantId
+          ? { ...l, quantity: Math.max(1, Math.trunc(quantity) || 1) }
+          : l,
+      ),
+    );
+  };
+
+  const removeFromCart = (variantId: string) => {
+    setCart((prev) => prev.filter((l) => l.variantId !== variantId));
+  };
+
+  const submitOrder = async () => {
+    if (cart.length === 0) return;
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/order/location/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lineItems: cart.map((l) => ({
+            variantGid: l.variantId,
+            quantity: l.quantity,
+          })),
+          note: note.trim() || null,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Could not place order',
+        );
+      }
+      const name = (data as { name?: string | null }).name;
+      toast.success(name ? `Order ${name} placed.` : 'Order placed.');
+      setCart([]);
+      setNote('');
+      await loadOrders();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not place order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cartTotal = cart.reduce(
+    (sum, l) => sum + (l.price != null ? Number(l.price) * l.quantity : 0),
+    0,
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Order for {locationLabel}</h1>
+        <p className="text-sm text-muted-foreground">
+          Ordering as <span className="font-medium text-foreground">{customerLabel}</span>{' '}
+          · ships to {addressLine}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_360px]">
+        <section className="space-y-3">
+          <Input
+            placeholder="Search products…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <ul className="divide-y rounded-lg border">
+            {results.map((v) => (
+              <li key={v.variantId} className="flex items-center gap-3 px-3 py-2">
+                <LineItemThumb imageUrl={v.imageUrl} label={variantLabel(v)} size="md" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{variantLabel(v)}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[v.sku, v.vendor].filter(Boolean).join(' · ') || '—'}
+                  </p>
+                </div>
+                <span className="shrink-0 text-sm tabular-nums text-muted-foreground">
+                  {v.price != null ? formatCurrency(Number(v.price)) : ''}
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => addToCart(v)}
+                >
+                  <Plus className="size-3.5" /> Add
+                </Button>
+              </li>
+            ))}
+            {results.length === 0 && !searching ? (
+              <li className="px-3 py-6 text-center text-sm text-muted-foreground">
+                No products match.
+              </li>
+            ) : null}
+          </ul>
+          {(hasNextPage || searching) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs"
+              disabled={searching}
+              onClick={() => void searchCatalog(debouncedQuery, endCursor)}
+            >
+              {searching && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+              Load more
+            </Button>
+          )}
+        </section>
+
+        <section className="space-y-3 rounded-lg border p-4 h-fit">
+          <h2 className="text-sm font-semibold">
+            Order ({cart.length} item{cart.length === 1 ? '' : 's'})
+          </h2>
+          {cart.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add products from the catalog.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {cart.map((l) => (
+                <li key={l.variantId} className="flex items-center gap-2">
+                  <span className="min-w-0 flex-1 truncate text-sm">
+                    {variantLabel(l)}
+                  </span>
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    aria-label="Decrease"
+                    onClick={() => setCartQty(l.variantId, l.quantity - 1)}
+                  >
+                    <Minus className="size-3.5" />
+                  </Button>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-8 w-16 text-center tabular-nums"
+                    value={l.quantity}
+                    onChange={(e) =>
+                      setCartQty(l.variantId, Number(e.target.value))
+                    }
+                  />
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    aria-label="Increase"
+                    onClick={() => setCartQty(l.variantId, l.quantity + 1)}
+                  >
+                    <Plus className="size-3.5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    aria-label="Remove"
+                    className="text-destructive"
+                    onClick={() => removeFromCart(l.variantId)}
+                  >
+                    <Trash2 className="size-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Textarea
+            placeholder="Note for the office (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="text-sm"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              Est. {formatCurrency(cartTotal)}
+            </span>
+            <Button
+              type="button"
+              disabled={cart.length === 0 || submitting}
+              onClick={() => void submitOrder()}
+            >
+              {submitting && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Place order
+            </Button>
+          </div>
+        </section>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Recent orders</h2>
+        {ordersLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+            No orders in the last 60 days.
+          </div>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {orders.map((o) => (
+              <li key={o.id} className="space-y-1.5 px-4 py-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{o.name}</span>
+                  <Badge variant={fulfillmentVariant(o.displayFulfillmentStatus)}>
+                    {humanizeStatus(o.displayFulfillmentStatus)}
+                  </Badge>
+                  {o.orderedAt ? (
+                    <span className="text-xs text-muted-foreground">
+                      {formatVancouverOrderedSidebar(o.orderedAt)}
+                    </span>
+                  ) : null}
+                  {o.totalPrice != null ? (
+                    <span className="ml-auto text-sm tabular-nums">
+                      {formatCurrency(o.totalPrice)}
+                    </span>
+                  ) : null}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {o.lineItems
+                    .map((li) => `${li.quantity}× ${variantLabel(li)}`)
+                    .join(', ')}
+                </p>
+                {o.purchaseOrders.length > 0 ? (
+                  <ul className="flex flex-wrap gap-1.5">
+                    {o.purchaseOrders.map((po) => (
+                      <li key={po.id}>
+                        <Badge variant="outline" className="font-normal">
+                          PO #{po.poNumber}
+                          {po.supplierName ? ` · ${po.supplierName}` : ''} ·{' '}
+                          {humanizeStatus(po.status)}
+                          {po.expectedDate
+                            ? ` · expected ${formatYmdWithWeekday(po.expectedDate)}`
+                            : ''}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/** Catalog variant row as offered to store managers (active products only). */
+export type LocationCatalogVariant = {
+  variantId: string;
+  productTitle: string;
+  variantTitle: string | null;
+  sku: string | null;
+  vendor: string | null;
+  price: string | null;
+  imageUrl: string | null;
+};
+
+export type LocationOrderLinkedPo = {
+  id: string;
+  poNumber: string;
+  status: string;
+  /** YYYY-MM-DD */
+  expectedDate: string | null;
+  supplierName: string | null;
+};
+
+/** One Shopify order placed for the manager's location customer. */
+export type LocationOrderRow = {
+  id: string;
+  name: string;
+  /** ISO */
+  orderedAt: string | null;
+  displayFulfillmentStatus: string | null;
+  displayFinancialStatus: string | null;
+  totalPrice: number | null;
+  currencyCode: string | null;
+  lineItems: {
+    id: string;
+    title: string | null;
+    variantTitle: string | null;
+    quantity: number;
+  }[];
+  purchaseOrders: LocationOrderLinkedPo[];
+};
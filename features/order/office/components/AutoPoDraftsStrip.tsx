@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import type { OfficePendingOrderAlertItem } from '../utils/collect-office-pending-order-alerts';
+import { formatVancouverYmdChip } from '../utils/vancouver-datetime';
+
+type Props = {
+  /** Pending POs with `isAuto` (drafted from inventory par levels). */
+  items: OfficePendingOrderAlertItem[];
+  /** Row body: focus supplier + PO on the PO Pending tab to review lines. */
+  onNavigateToPo: (item: OfficePendingOrderAlertItem) => void;
+  /** Clear pending so the draft becomes a normal open PO. */
+  onApprove: (purchaseOrderId: string) => Promise<unknown>;
+};
+
+/**
+ * Auto PO drafts from par levels awaiting approval. Layout mirrors
+ * {@link OfficePendingOrdersAlertsStrip}; styling is sky.
+ */
+export function AutoPoDraftsStrip({ items, onNavigateToPo, onApprove }: Props) {
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  if (items.length === 0) return null;
+
+  async function approve(poId: string) {
+    setBusyIds((s) => new Set(s).add(poId));
+    try {
+      await onApprove(poId);
+    } finally {
+      setBusyIds((s) => {
+        const next = new Set(s);
+        next.delete(poId);
+        return next;
+      });
+    }
+  }
+
+  return (
+    <div className="flex-shrink-0 border-b border-border" role="region">
+      <div
+        className={cn(
+          'px-3 py-2 border-b border-sky-300/60',
+          'bg-sky-50 dark:bg-sky-950/35 dark:border-sky-800/60',
+        )}
+        aria-label="Auto PO drafts awaiting approval"
+      >
+        <div className="flex items-center gap-1.5 mb-1.5">
+          <Sparkles
+            className="size-3.5 shrink-0 text-sky-800 dark:text-sky-200"
+            aria-hidden
+          />
+          <p className="text-[11px] font-semibold text-sky-950 dark:text-sky-100">
+            Auto PO drafts ({items.length})
+          </p>
+        </div>
+        <ul className="flex flex-col gap-1.5 max-h-[min(40vh,220px)] overflow-y-auto pr-0.5">
+          {items.map((it) => {
+            const busy = busyIds.has(it.purchaseOrderId);
+            return (
+              <li key={it.purchaseOrderId}>
+                <div
+                  className={cn(
+                    'flex items-start justify-between gap-2 rounded-md px-2 py-1.5 cursor-pointer',
+                    'bg-background/85 dark:bg-background/40 border border-sky-200/80 dark:border-sky-800/50',
+                    'hover:bg-sky-100/80 dark:hover:bg-sky-900/30 transition-colors',
+                  )}
+                  onClick={() => onNavigateToPo(it)}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-[11px] font-medium text-sky-950 dark:text-sky-50 leading-snug break-words">
+                      {it.supplierCompany}
+                      <span className="text-sky-900/85 dark:text-sky-100/85 font-normal">
+                        {' '}
+                        · PO #{it.poNumber} · {it.lineCount} item
+                        {it.lineCount === 1 ? '' : 's'}
+                        {it.expectedDate
+                          ? ` · expected ${formatVancouverYmdChip(it.expectedDate)}`
+                          : ''}
+                      </span>
+                    </p>
+                    <p className="text-[10px] text-sky-900/75 dark:text-sky-200/80 mt-0.5 leading-snug">
+                      Drafted from par levels. Open to adjust quantities, or approve as is.
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-7 shrink-0 text-[10px] rounded-md px-2"
+                    disabled={busy}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void approve(it.purchaseOrderId);
+                    }}
+                  >
+                    {busy ? <Loader2 className="size-3.5 animate-spin" /> : 'Approve'}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,8 @@ export type DeliveryLocationPresetRow = {
   country: string;
   /** `Location`s that reference this preset (many may share one preset). */
   locations: { id: string; code: string; name: string }[];
+  /** Hub `ShopifyCustomer.id` used for store-manager orders from linked locations. */
+  shopifyCustomerId?: string | null;
 };
 
 type ApplyPayload = {
@@ -33,11 +33,18 @@ import type { DeliveryLocationPresetRow } from './DeliveryLocationPresetPicker';
 
 export type LocationOption = { id: string; code: string; name: string };
 
+export type PresetCustomerOption = { id: string; label: string };
+
 type Props = {
   locations: LocationOption[];
+  /** Hub Shopify customers a preset can order as (store-manager ordering). */
+  customers: PresetCustomerOption[];
   initialPresets: DeliveryLocationPresetRow[];
 };
 
+/** Sentinel for "no customer" so we never use empty string as SelectItem value. */
+const NO_CUSTOMER_VALUE = '__none__';
+
 const CA_PROVINCES = [
   'AB',
   'BC',
@@ -56,6 +63,7 @@ const CA_PROVINCES = [
 
 export function DeliveryLocationPresetsClient({
   locations,
+  customers,
   initialPresets,
 }: Props) {
   const [presets, setPresets] = useState(initialPresets);
@@ -71,6 +79,12 @@ export function DeliveryLocationPresetsClient({
   const [province, setProvince] = useState('BC');
   const [postalCode, setPostalCode] = useState('');
   const [country, setCountry] = useState('CA');
+  const [shopifyCustomerId, setShopifyCustomerId] = useState(NO_CUSTOMER_VALUE);
+
+  const customerLabelById = useMemo(
+    () => new Map(customers.map((c) => [c.id, c.label])),
+    [customers],
+  );
 
   const sorted = useMemo(
     () =>
@@ -101,6 +115,7 @@ export function DeliveryLocationPresetsClient({
     setProvince('BC');
     setPostalCode('');
     setCountry('CA');
+    setShopifyCustomerId(NO_CUSTOMER_VALUE);
     setDialogOpen(true);
   };
 
@@ -115,6 +130,7 @@ export function DeliveryLocationPresetsClient({
     setProvince(row.province);
     setPostalCode(row.postalCode);
     setCountry(row.country || 'CA');
+    setShopifyCustomerId(row.shopifyCustomerId ?? NO_CUSTOMER_VALUE);
     setDialogOpen(true);
   };
 
@@ -145,6 +161,8 @@ export function DeliveryLocationPresetsClient({
         province,
         postalCode: postalCode.trim(),
         country: country.trim() || 'CA',
+        shopifyCustomerId:
+          shopifyCustomerId === NO_CUSTOMER_VALUE ? null : shopifyCustomerId,
       };
       const res = editingId
         ? await fetch(`/api/order/delivery-location-presets/${editingId}`, {
@@ -224,7 +242,16 @@ export function DeliveryLocationPresetsClient({
                       ? row.locations.map((l) => l.code).join(', ')
                       : '—'}
                   </TableCell>
-                  <TableCell className="text-sm font-medium">{row.name}</TableCell>
+                  <TableCell className="text-sm font-medium">
+                    {row.name}
+                    {row.shopifyCustomerId ? (
+                      <div className="text-[11px] font-normal text-muted-foreground">
+                        Orders as{' '}
+                        {customerLabelById.get(row.shopifyCustomerId) ??
+                          'unknown customer'}
+                      </div>
+                    ) : null}
+                  </TableCell>
                   <TableCell className="text-xs text-muted-foreground">
                     {[row.address1, row.city, row.province, row.postalCode]
                       .filter(Boolean)
@@ -305,6 +332,26 @@ export function DeliveryLocationPresetsClient({
               <Label>Preset name</Label>
               <Input value={name} onChange={(e) => setName(e.target.value)} />
             </div>
+            <div className="space-y-1">
+              <Label>Store order customer</Label>
+              <Select value={shopifyCustomerId} onValueChange={setShopifyCustomerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CUSTOMER_VALUE}>—</SelectItem>
+                  {customers.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground">
+                Managers of linked locations place replenishment orders in Shopify as
+                this customer.
+              </p>
+            </div>
             <div className="space-y-1">
               <Label>Company (optional)</Label>
               <Input value={company} onChange={(e) => setCompany(e.target.value)} />
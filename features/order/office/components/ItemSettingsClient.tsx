@@ -21,6 +21,7 @@ import type {
 } from '@/lib/shopify/listProductsCatalog';
 import { cn } from '@/lib/utils/cn';
 import { LineItemThumb } from './LineItemThumb';
+import { VariantPriceHistoryDialog } from './VariantPriceHistoryDialog';
 import { Spinner } from '@/components/ui/spinner';
 import { RefreshCwIcon } from 'lucide-react';
 
@@ -100,6 +101,59 @@ export function ItemSettingsClient({ vendors, shopifyConfigured }: Props) {
   const [editingByVariant, setEditingByVariant] = useState<
     Record<string, boolean>
   >({});
+  const [priceHistoryFor, setPriceHistoryFor] = useState<{
+    variantId: string;
+    label: string;
+  } | null>(null);
+  const closePriceHistory = useCallback(() => setPriceHistoryFor(null), []);
+
+  /** % move from the variant's previous PO price that raises an Inbox alert. */
+  const [alertThreshold, setAlertThreshold] = useState('');
+  const [savedAlertThreshold, setSavedAlertThreshold] = useState('');
+  const [savingThreshold, setSavingThreshold] = useState(false);
+
+  useEffect(() => {
+    void (async () => {
+      try {
+        const res = await fetch('/api/order/purchase-price-alerts/settings');
+        const data = (await res.json().catch(() => ({}))) as {
+          thresholdPercent?: number;
+        };
+        if (res.ok && typeof data.thresholdPercent === 'number') {
+          setAlertThreshold(String(data.thresholdPercent));
+          setSavedAlertThreshold(String(data.thresholdPercent));
+        }
+      } catch {
+        // Threshold stays blank; saving still works.
+      }
+    })();
+  }, []);
+
+  const saveAlertThreshold = useCallback(async () => {
+    setSavingThreshold(true);
+    try {
+      const res = await fetch('/api/order/purchase-price-alerts/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ thresholdPercent: Number(alertThreshold) }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        thresholdPercent?: number;
+        error?: string;
+      };
+      if (!res.ok) {
+        toast.error(data.error ?? 'Save failed');
+        return;
+      }
+      setAlertThreshold(String(data.thresholdPercent));
+      setSavedAlertThreshold(String(data.thresholdPercent));
+      toast.success('Saved');
+    } catch {
+      toast.error('Network error');
+    } finally {
+      setSavingThreshold(false);
+    }
+  }, [alertThreshold]);
 
   const loadNotes = useCallback(async () => {
     try {
@@ -356,6 +410,36 @@ export function ItemSettingsClient({ vendors, shopifyConfigured }: Props) {
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-border/60 bg-muted/15 px-2 py-1.5 text-[11px]">
+        <Label htmlFor="office-price-alert-threshold" className="text-[11px] font-normal">
+          Alert when a PO line&apos;s price moves more than
+        </Label>
+        <Input
+          id="office-price-alert-threshold"
+          type="number"
+          min={0}
+          step="0.5"
+          className="h-7 w-20 text-[11px]"
+          value={alertThreshold}
+          onChange={(e) => setAlertThreshold(e.target.value)}
+        />
+        <span className="text-muted-foreground">% from the variant&apos;s previous PO</span>
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          className="h-7 text-[11px]"
+          disabled={
+            savingThreshold ||
+            !alertThreshold.trim() ||
+            alertThreshold === savedAlertThreshold
+          }
+          onClick={() => void saveAlertThreshold()}
+        >
+          {savingThreshold ? '…' : 'Save'}
+        </Button>
+      </div>
+
       <div className="border rounded-[10px] overflow-hidden bg-background">
         <Table className="text-[11px]">
           <TableHeader>
@@ -496,24 +580,37 @@ export function ItemSettingsClient({ vendors, shopifyConfigured }: Props) {
                           </Button>
                         </div>
                       ) : (
-                        <Button
-                          type="button"
-                          size="sm"
-                          variant="outline"
-                          className="h-8 text-[11px]"
-                          onClick={() => {
-                            setDrafts((prev) => ({
-                              ...prev,
-                              [r.variantId]: saved,
-                            }));
-                            setEditingByVariant((prev) => ({
-                              ...prev,
-                              [r.variantId]: true,
-                            }));
-                          }}
-                        >
-                          Edit
-                        </Button>
+                        <div className="flex flex-col items-end gap-1.5">
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-8 text-[11px]"
+                            onClick={() => {
+                              setDrafts((prev) => ({
+                                ...prev,
+                                [r.variantId]: saved,
+                              }));
+                              setEditingByVariant((prev) => ({
+                                ...prev,
+                                [r.variantId]: true,
+                              }));
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-[10px] text-muted-foreground"
+                            onClick={() =>
+                              setPriceHistoryFor({ variantId: r.variantId, label })
+                            }
+                          >
+                            Price history
+                          </Button>
+                        </div>
                       )}
                     </TableCell>
                   </TableRow>
@@ -537,6 +634,14 @@ export function ItemSettingsClient({ vendors, shopifyConfigured }: Props) {
           </Button>
         </div>
       )}
+
+      {priceHistoryFor ? (
+        <VariantPriceHistoryDialog
+          variantGid={priceHistoryFor.variantId}
+          label={priceHistoryFor.label}
+          onOpenChange={closePriceHistory}
+        />
+      ) : null}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import { Pencil, X } from 'lucide-react';
@@ -42,6 +43,11 @@ import {
 import { DeliveryLocationPresetPicker } from './DeliveryLocationPresetPicker';
 import { postSendPurchaseOrderEmail } from '../utils/post-send-po-email';
 import { Spinner } from '@/components/ui/spinner';
+import {
+  SUPPLIER_INVOICE_STATUS_LABELS,
+  type PurchaseOrderInvoiceSummary,
+} from '@/features/order/invoices/types';
+import type { PurchaseOrderQuickBooksBillStatus } from '@/features/order/quickbooks/types';
 
 const CA_PROVINCES = [
   { code: 'AB', name: 'Alberta' },
@@ -1252,6 +1258,18 @@ function WithPoMeta({
         </div>
       </Section>
 
+      {selectedPoBlockId &&
+        selectedPoBlockId !== '__drafts__' &&
+        selectedPoBlockId !== 'new' && (
+          <>
+            <PoInvoiceSection key={selectedPoBlockId} purchaseOrderId={selectedPoBlockId} />
+            <PoQuickBooksBillSection
+              key={`qb:${selectedPoBlockId}`}
+              purchaseOrderId={selectedPoBlockId}
+            />
+          </>
+        )}
+
       <div className="px-3 py-2.5 flex flex-col gap-1.5">
         {editing ? (
           <>
@@ -1545,6 +1563,187 @@ function WithPoMeta({
 
 // ─── Linked Order Row ─────────────────────────────────────────────────────────
 
+/** Supplier invoice state for the PO (awaiting / invoiced / disputed); matching lives on the Invoices page. */
+function PoInvoiceSection({ purchaseOrderId }: { purchaseOrderId: string }) {
+  const [summary, setSummary] = useState<PurchaseOrderInvoiceSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch(`/api/order/purchase-orders/${purchaseOrderId}/invoices`);
+        if (!res.ok) return;
+        const data = (await res.json()) as PurchaseOrderInvoiceSummary;
+        if (!cancelled) setSummary(data);
+      } catch {
+        /* ignore */
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [purchaseOrderId]);
+
+  if (!summary || summary.state === 'not_received') return null;
+
+  return (
+    <Section>
+      <MetaLabel>Invoice</MetaLabel>
+      {summary.state === 'awaiting_invoice' ? (
+        <>
+          <Badge variant="amber">Awaiting invoice</Badge>
+          <MetaSub>
+            Received — enter the supplier invoice on the{' '}
+            <Link href="/order/office/invoices" className="underline">
+              Invoices
+            </Link>{' '}
+            page.
+          </MetaSub>
+        </>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {summary.invoices.map((inv) => (
+            <Link
+              key={inv.id}
+              href={`/order/office/invoices?invoice=${inv.id}`}
+              className="flex items-center gap-1.5 text-[12px] hover:underline"
+            >
+              {inv.invoiceNumber}
+              <Badge
+                variant={
+                  inv.status === 'approved'
+                    ? 'green'
+                    : inv.status === 'disputed'
+                      ? 'red'
+                      : 'gray'
+                }
+              >
+                {SUPPLIER_INVOICE_STATUS_LABELS[inv.status]}
+              </Badge>
+              {inv.issueCount > 0 ? (
+                <MetaSub red>
+                  {inv.issueCount} issue{inv.issueCount === 1 ? '' : 's'}
+                </MetaSub>
+              ) : null}
+            </Link>
+          ))}
+        </div>
+      )}
+    </Section>
+  );
+}
+
+/** Push a fully received PO to QuickBooks as a bill; shows the bill id once pushed. */
+function PoQuickBooksBillSection({ purchaseOrderId }: { purchaseOrderId: string }) {
+  const [status, setStatus] = useState<PurchaseOrderQuickBooksBillStatus | null>(null);
+  const [locationId, setLocationId] = useState('');
+  const [pushing, setPushing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch(`/api/order/purchase-orders/${purchaseOrderId}/quickbooks-bill`);
+        if (!res.ok) return;
+        const data = (await res.json()) as PurchaseOrderQuickBooksBillStatus;
+        if (cancelled) return;
+        setStatus(data);
+        if (data.locations.length === 1) setLocationId(data.locations[0].locationId);
+      } catch {
+        /* ignore */
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [purchaseOrderId]);
+
+  if (!status || (!status.received && !status.qbBillId)) return null;
+
+  const push = async () => {
+    setPushing(true);
+    try {
+      const res = await fetch(`/api/order/purchase-orders/${purchaseOrderId}/quickbooks-bill`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId: locationId || null }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        error?: string;
+        qbBillId?: string;
+        realmName?: string;
+      };
+      if (!res.ok || !data.qbBillId) {
+        throw new Error(data.error ?? 'Could not push bill');
+      }
+      toast.success(`Bill ${data.qbBillId} created in ${data.realmName}.`);
+      setStatus({
+        ...status,
+        qbBillId: data.qbBillId,
+        realmName: data.realmName ?? null,
+        pushedAt: new Date().toISOString(),
+      });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not push bill');
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  return (
+    <Section>
+      <MetaLabel>QuickBooks</MetaLabel>
+      {status.qbBillId ? (
+        <>
+          <MetaValue>Bill {status.qbBillId}</MetaValue>
+          <MetaSub>
+            {status.realmName ?? 'QuickBooks'}
+            {status.pushedAt
+              ? ` · ${formatDistanceToNow(new Date(status.pushedAt), { addSuffix: true })}`
+              : ''}
+          </MetaSub>
+        </>
+      ) : (
+        <div className="flex flex-col gap-1.5">
+          {status.locations.length > 1 ? (
+            <select
+              className="h-7 rounded-[5px] border border-input bg-background px-1.5 text-[11px]"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              disabled={pushing}
+            >
+              <option value="">Bill under location…</option>
+              {status.locations.map((l) => (
+                <option key={l.locationId} value={l.locationId}>
+                  {l.code} — {l.realmName}
+                </option>
+              ))}
+            </select>
+          ) : status.locations.length === 0 ? (
+            <MetaSub red>Set a delivery location to choose the QuickBooks company.</MetaSub>
+          ) : null}
+          <Button
+            variant="outline"
+            size="xs"
+            className="w-full justify-center text-[11px] rounded-[5px]"
+            disabled={pushing || !locationId}
+            onClick={() => void push()}
+          >
+            {pushing ? 'Pushing…' : 'Push bill to QuickBooks'}
+          </Button>
+          <MetaSub>
+            Vendor and account mappings live on the{' '}
+            <Link href="/order/office/quickbooks" className="underline">
+              QuickBooks
+            </Link>{' '}
+            page.
+          </MetaSub>
+        </div>
+      )}
+    </Section>
+  );
+}
+
 function LinkedOrderRow({ order }: { order: LinkedShopifyOrder }) {
   const statusLabel = order.fulfillmentStatus
     ? formatShopifyOrderDisplayFulfillmentStatus(order.fulfillmentStatus)
@@ -520,6 +520,8 @@ export function OfficeDataSyncClient() {
           <p className="text-xs text-muted-foreground mt-0.5">
             Upload a Shopify Auto Purchase Orders CSV export. Existing POs
             (matched by legacy ID) will be updated; new ones will be created.
+            For history only — staple reorders are now drafted from par levels
+            on the Inventory page.
           </p>
         </div>
         <div className="flex items-center gap-3 flex-wrap">
@@ -14,6 +14,9 @@ const SETTINGS_PREFIXES = [
   `${OFFICE_BASE}/contact-settings`,
   `${OFFICE_BASE}/item-settings`,
   `${OFFICE_BASE}/delivery-location-presets`,
+  `${OFFICE_BASE}/inventory`,
+  `${OFFICE_BASE}/invoices`,
+  `${OFFICE_BASE}/quickbooks`,
   `${OFFICE_BASE}/settings`,
 ];
 
@@ -63,6 +66,9 @@ export function OfficeSettingsBar() {
   const isDeliveryPresets = pathname.startsWith(
     `${OFFICE_BASE}/delivery-location-presets`,
   );
+  const isInventory = pathname.startsWith(`${OFFICE_BASE}/inventory`);
+  const isInvoices = pathname.startsWith(`${OFFICE_BASE}/invoices`);
+  const isQuickBooks = pathname.startsWith(`${OFFICE_BASE}/quickbooks`);
   const isDataSync = pathname.startsWith(`${OFFICE_BASE}/settings`);
   const isSettingsPage = SETTINGS_PREFIXES.some((p) => pathname.startsWith(p));
 
@@ -244,6 +250,51 @@ export function OfficeSettingsBar() {
         >
           Delivery locations
         </Link>
+        <Link
+          href={`${OFFICE_BASE}/inventory`}
+          prefetch={false}
+          scroll={false}
+          className={cn(
+            buttonVariants({
+              variant: isInventory ? 'default' : 'outline',
+              size: 'xs',
+            }),
+            'text-[11px] rounded-[5px]',
+            !isInventory && 'text-muted-foreground',
+          )}
+        >
+          Inventory
+        </Link>
+        <Link
+          href={`${OFFICE_BASE}/invoices`}
+          prefetch={false}
+          scroll={false}
+          className={cn(
+            buttonVariants({
+              variant: isInvoices ? 'default' : 'outline',
+              size: 'xs',
+            }),
+            'text-[11px] rounded-[5px]',
+            !isInvoices && 'text-muted-foreground',
+          )}
+        >
+          Invoices
+        </Link>
+        <Link
+          href={`${OFFICE_BASE}/quickbooks`}
+          prefetch={false}
+          scroll={false}
+          className={cn(
+            buttonVariants({
+              variant: isQuickBooks ? 'default' : 'outline',
+              size: 'xs',
+            }),
+            'text-[11px] rounded-[5px]',
+            !isQuickBooks && 'text-muted-foreground',
+          )}
+        >
+          QuickBooks
+        </Link>
         <Link
           href={`${OFFICE_BASE}/settings`}
           prefetch={false}
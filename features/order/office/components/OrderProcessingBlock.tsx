@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatVancouverOrderedSidebar } from '../utils/vancouver-datetime';
 import { postSendPurchaseOrderEmail } from '../utils/post-send-po-email';
+import { SupplierResponsesPanel } from './SupplierResponsesPanel';
 import type { SupplierEntry, PoEmailDeliveryItem } from '../types';
 
 type Props = {
@@ -339,6 +340,13 @@ export function OrderProcessingBlock({
         ) : null}
       </div>
 
+      {selectedPoBlockId && selectedPoBlockId !== '__drafts__' ? (
+        <SupplierResponsesPanel
+          purchaseOrderId={selectedPoBlockId}
+          onApplied={onReplyReceivedChange}
+        />
+      ) : null}
+
       {internalNote ? (
         <div className="mb-2.5 rounded-md border bg-background px-3 py-2.5">
           <div className="text-[10px] font-medium text-muted-foreground uppercase tracking-wide mb-1">
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Loader2, TrendingDown, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import { formatInvoiceMoney } from '@/features/order/invoices/utils/format-invoice-money';
+import type { PurchasePriceAlertRow } from '../types/purchase-price';
+
+type Props = {
+  /** Open cost-change alerts from `listOpenPurchasePriceAlerts`. */
+  items: PurchasePriceAlertRow[];
+  onDismiss: (alertId: string) => Promise<unknown>;
+};
+
+function formatChangeRate(rate: number): string {
+  const pct = Math.round(rate * 1000) / 10;
+  return pct > 0 ? `+${pct}%` : `${pct}%`;
+}
+
+/**
+ * PO lines priced away from the variant's previous PO by more than the threshold in Item settings.
+ * Layout mirrors {@link AutoPoDraftsStrip}; styling is orange.
+ */
+export function PurchasePriceAlertsStrip({ items, onDismiss }: Props) {
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  if (items.length === 0) return null;
+
+  async function dismiss(id: string) {
+    setBusyIds((s) => new Set(s).add(id));
+    try {
+      await onDismiss(id);
+    } finally {
+      setBusyIds((s) => {
+        const next = new Set(s);
+        next.delete(id);
+        return next;
+      });
+    }
+  }
+
+  return (
+    <div className="flex-shrink-0 border-b border-border" role="region">
+      <div
+        className={cn(
+          'px-3 py-2 border-b border-orange-300/60',
+          'bg-orange-50 dark:bg-orange-950/35 dark:border-orange-800/60',
+        )}
+        aria-label="Purchase price changes"
+      >
+        <div className="flex items-center gap-1.5 mb-1.5">
+          <TrendingUp
+            className="size-3.5 shrink-0 text-orange-800 dark:text-orange-200"
+            aria-hidden
+          />
+          <p className="text-[11px] font-semibold text-orange-950 dark:text-orange-100">
+            Price changes ({items.length})
+          </p>
+        </div>
+        <ul className="flex flex-col gap-1.5 max-h-[min(40vh,220px)] overflow-y-auto pr-0.5">
+          {items.map((it) => {
+            const busy = busyIds.has(it.id);
+            const Icon = it.changeRate > 0 ? TrendingUp : TrendingDown;
+            return (
+              <li key={it.id}>
+                <div
+                  className={cn(
+                    'flex items-start justify-between gap-2 rounded-md px-2 py-1.5',
+                    'bg-background/85 dark:bg-background/40 border border-orange-200/80 dark:border-orange-800/50',
+                  )}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-[11px] font-medium text-orange-950 dark:text-orange-50 leading-snug break-words">
+                      {it.label}
+                      <span className="text-orange-900/85 dark:text-orange-100/85 font-normal">
+                        {it.sku ? ` · ${it.sku}` : ''} · PO #{it.poNumber}
+                        {it.supplierCompany ? ` · ${it.supplierCompany}` : ''}
+                      </span>
+                    </p>
+                    <p className="flex items-center gap-1 text-[10px] text-orange-900/85 dark:text-orange-200/85 mt-0.5 leading-snug tabular-nums">
+                      <Icon className="size-3 shrink-0" aria-hidden />
+                      {formatInvoiceMoney(it.previousPrice, it.currency)} (PO #
+                      {it.previousPoNumber}) → {formatInvoiceMoney(it.newPrice, it.currency)}{' '}
+                      <span className="font-semibold">{formatChangeRate(it.changeRate)}</span>
+                    </p>
+                    {it.recipes.length > 0 ? (
+                      <p className="text-[10px] text-orange-900/75 dark:text-orange-200/80 mt-0.5 leading-snug break-words">
+                        Re-cost:{' '}
+                        {it.recipes.map((r, i) => (
+                          <span key={`${r.costId}:${i}`}>
+                            {i > 0 ? ', ' : ''}
+                            <Link href={`/cost/edit/${r.costId}`} className="underline">
+                              {r.costTitle}
+                            </Link>
+                          </span>
+                        ))}
+                      </p>
+                    ) : null}
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 shrink-0 text-[10px] rounded-md px-2"
+                    disabled={busy}
+                    onClick={() => void dismiss(it.id)}
+                  >
+                    {busy ? <Loader2 className="size-3.5 animate-spin" /> : 'Dismiss'}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { SupplierResponseList } from '@/features/order/supplier/components/SupplierResponseList';
+import type { SupplierResponseItem } from '@/features/order/supplier/types';
+
+type Props = {
+  purchaseOrderId: string;
+  /** Called after accepting a proposal so the PO block reloads its expected date / lines. */
+  onApplied?: () => void;
+};
+
+type PanelData = {
+  responses: SupplierResponseItem[];
+  lines: { id: string; label: string; quantity: number }[];
+};
+
+/** Supplier portal replies for the selected PO, with accept / decline for pending proposals. */
+export function SupplierResponsesPanel({ purchaseOrderId, onApplied }: Props) {
+  const [data, setData] = useState<PanelData | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/order/purchase-orders/${purchaseOrderId}/supplier-responses`,
+      );
+      if (!res.ok) return;
+      setData((await res.json()) as PanelData);
+    } catch {
+      // Panel is supplementary — stay quiet on network errors.
+    }
+  }, [purchaseOrderId]);
+
+  useEffect(() => {
+    setData(null);
+    void load();
+  }, [load]);
+
+  const review = async (
+    responseId: string,
+    status: 'accepted' | 'declined',
+  ) => {
+    setReviewingId(responseId);
+    try {
+      const res = await fetch(
+        `/api/order/purchase-orders/${purchaseOrderId}/supplier-responses/${responseId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status }),
+        },
+      );
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(
+          (body as { error?: string }).error ?? 'Could not update response',
+        );
+        return;
+      }
+      toast.success(
+        status === 'accepted'
+          ? 'Supplier changes applied to the PO.'
+          : 'Supplier proposal declined.',
+      );
+      await load();
+      if (status === 'accepted') onApplied?.();
+    } catch {
+      toast.error('Network error');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (!data || data.responses.length === 0) return null;
+
+  return (
+    <div className="mb-2.5 space-y-1.5">
+      <div className="text-[10px] font-medium text-muted-foreground uppercase tracking-wide">
+        Supplier portal responses
+      </div>
+      <SupplierResponseList
+        responses={data.responses}
+        lines={data.lines}
+        renderActions={(r) => (
+          <div className="flex items-center gap-1.5">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-7 text-[10px]"
+              disabled={reviewingId != null}
+              onClick={() => void review(r.id, 'declined')}
+            >
+              Decline
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              className="h-7 text-[10px]"
+              disabled={reviewingId != null}
+              onClick={() => void review(r.id, 'accepted')}
+            >
+              {reviewingId === r.id ? 'Applying…' : 'Accept & apply'}
+            </Button>
+          </div>
+        )}
+      />
+    </div>
+  );
+}
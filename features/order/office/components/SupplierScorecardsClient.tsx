@@ -0,0 +1,421 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import { formatInvoiceMoney } from '@/features/order/invoices/utils/format-invoice-money';
+import { DEFAULT_REASON_OPTIONS } from './ReasonSelector';
+import { useReasonOptions } from '../hooks/useReasonOptions';
+import type {
+  SupplierScorecardDetail,
+  SupplierScorecardRow,
+  SupplierScorecards,
+} from '../types/supplier-scorecard';
+
+const RANK_BY = {
+  score: 'Score',
+  onTimeRate: 'On-time rate',
+  fillRate: 'Fill rate',
+  medianResponseHours: 'Response time',
+  issueRate: 'Refund / replacement rate',
+} as const;
+
+type RankBy = keyof typeof RANK_BY;
+
+/** Lower is better for these; unknown values always sort last. */
+const ASCENDING: RankBy[] = ['medianResponseHours', 'issueRate'];
+
+function formatRate(rate: number | null): string {
+  return rate == null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function formatHours(hours: number | null): string {
+  if (hours == null) return '—';
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} d`;
+}
+
+function formatChange(rate: number | null): string {
+  if (rate == null) return '—';
+  const pct = Math.round(rate * 1000) / 10;
+  return pct > 0 ? `+${pct}%` : `${pct}%`;
+}
+
+function scoreVariant(score: number | null) {
+  if (score == null) return 'gray' as const;
+  if (score >= 90) return 'green' as const;
+  if (score >= 75) return 'amber' as const;
+  return 'red' as const;
+}
+
+function rankRows(rows: SupplierScorecardRow[], by: RankBy): SupplierScorecardRow[] {
+  const dir = ASCENDING.includes(by) ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const av = a[by];
+    const bv = b[by];
+    if (av == null || bv == null) return av == null ? (bv == null ? 0 : 1) : -1;
+    return (av - bv) * dir || b.poCount - a.poCount;
+  });
+}
+
+function StatCard({ title, value, sub }: { title: string; value: string; sub?: string }) {
+  return (
+    <Card className="gap-2 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm font-normal text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4">
+        <p className="text-2xl font-semibold tabular-nums">{value}</p>
+        {sub ? <p className="text-xs text-muted-foreground">{sub}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SupplierScorecardView({
+  detail,
+  closeHref,
+}: {
+  detail: SupplierScorecardDetail;
+  closeHref: string;
+}) {
+  const { options } = useReasonOptions();
+  const reasonLabel = (value: string) =>
+    (options.length > 0 ? options : DEFAULT_REASON_OPTIONS).find((c) => c.value === value)
+      ?.label ?? value;
+  const { metrics } = detail;
+  const reasons = Object.entries(metrics.issueQtyByCategory).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <section className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="font-medium">{detail.company}</h2>
+        <Link
+          href={closeHref}
+          className={buttonVariants({ variant: 'ghost', size: 'icon-sm' })}
+          title="Close"
+        >
+          <X className="h-4 w-4" />
+        </Link>
+      </div>
+
+      {metrics.poCount === 0 ? (
+        <p className="text-sm text-muted-foreground">No purchase orders in this range.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3 xl:grid-cols-5">
+            <StatCard
+              title="Score"
+              value={metrics.score == null ? '—' : String(metrics.score)}
+              sub={`${metrics.poCount} PO${metrics.poCount === 1 ? '' : 's'}`}
+            />
+            <StatCard
+              title="On time"
+              value={formatRate(metrics.onTimeRate)}
+              sub={
+                metrics.datedDeliveries > 0
+                  ? `${metrics.onTimeDeliveries}/${metrics.datedDeliveries}${metrics.avgDaysLate != null ? ` · late by ${metrics.avgDaysLate.toFixed(1)} d avg` : ''}`
+                  : 'No dated deliveries'
+              }
+            />
+            <StatCard
+              title="Fill rate"
+              value={formatRate(metrics.fillRate)}
+              sub={
+                metrics.closedOrderedQty > 0
+                  ? `${metrics.closedReceivedQty}/${metrics.closedOrderedQty} units`
+                  : 'No closed POs'
+              }
+            />
+            <StatCard
+              title="Email response"
+              value={formatHours(metrics.medianResponseHours)}
+              sub={
+                metrics.emailsSent > 0
+                  ? `${metrics.emailsAnswered}/${metrics.emailsSent} answered · opened in ${formatHours(metrics.medianOpenHours)}`
+                  : 'No PO emails sent'
+              }
+            />
+            <StatCard
+              title="Refunds / replacements"
+              value={formatRate(metrics.issueRate)}
+              sub={`${metrics.issueQty}/${metrics.orderedQty} units`}
+            />
+          </div>
+
+          {reasons.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-muted-foreground">By reason</span>
+              {reasons.map(([category, qty]) => (
+                <Badge key={category} variant="gray">
+                  {reasonLabel(category)}: {qty} ({formatRate(qty / metrics.orderedQty)})
+                </Badge>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Unit price by SKU</h3>
+            {detail.skuPrices.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No priced SKUs on these POs.</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="w-[4rem] text-right">POs</TableHead>
+                      <TableHead className="w-[6rem] text-right">First</TableHead>
+                      <TableHead className="w-[6rem] text-right">Latest</TableHead>
+                      <TableHead className="w-[5rem] text-right">Change</TableHead>
+                      <TableHead>History</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.skuPrices.map((s) => (
+                      <TableRow key={s.sku}>
+                        <TableCell className="text-sm">
+                          {s.title}
+                          <span className="ml-1 text-xs text-muted-foreground">{s.sku}</span>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{s.poCount}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatInvoiceMoney(s.firstPrice, s.currency)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatInvoiceMoney(s.lastPrice, s.currency)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${(s.changeRate ?? 0) > 0 ? 'text-destructive' : ''}`}
+                        >
+                          {formatChange(s.changeRate)}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {s.changes
+                            .map(
+                              (c) =>
+                                `${c.orderedYmd} ${formatInvoiceMoney(c.unitPrice, s.currency)}`,
+                            )
+                            .join(' → ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Purchase orders</h3>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[6rem]">PO</TableHead>
+                    <TableHead>Ordered</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Response</TableHead>
+                    <TableHead className="text-right">Refund / repl.</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.purchaseOrders.map((po) => (
+                    <TableRow key={po.id}>
+                      <TableCell className="text-xs">#{po.poNumber}</TableCell>
+                      <TableCell className="text-xs tabular-nums">{po.orderedYmd}</TableCell>
+                      <TableCell className="text-xs tabular-nums">{po.expectedYmd ?? '—'}</TableCell>
+                      <TableCell className="text-xs tabular-nums">
+                        {po.receivedYmd ?? '—'}
+                        {po.daysLate != null && po.daysLate > 0 ? (
+                          <span className="ml-1 text-destructive">+{po.daysLate} d</span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right tabular-nums ${po.receivedQty < po.orderedQty && po.receivedYmd ? 'text-destructive' : ''}`}
+                      >
+                        {po.receivedQty}/{po.orderedQty}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatHours(po.responseHours)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {po.issueQty || '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Supplier ranking with a per-supplier scorecard below it. Range and selected supplier live in the
+ * URL so the server page re-queries.
+ */
+export function SupplierScorecardsClient({ scorecards }: { scorecards: SupplierScorecards }) {
+  const router = useRouter();
+  const [from, setFrom] = useState(scorecards.from);
+  const [to, setTo] = useState(scorecards.to);
+  const [rankBy, setRankBy] = useState<RankBy>('score');
+
+  const ranked = useMemo(() => rankRows(scorecards.rows, rankBy), [scorecards.rows, rankBy]);
+
+  const hrefFor = (supplierId: string | null) => {
+    const params = new URLSearchParams({ from: scorecards.from, to: scorecards.to });
+    if (supplierId) params.set('supplier', supplierId);
+    return `/order/office/supplier/scorecards?${params}`;
+  };
+
+  const applyRange = () => {
+    const params = new URLSearchParams({ from, to });
+    if (scorecards.detail) params.set('supplier', scorecards.detail.supplierId);
+    router.push(`/order/office/supplier/scorecards?${params}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Ordered from</p>
+          <YmdDateInput
+            className="h-9 w-[180px]"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">To</p>
+          <YmdDateInput
+            className="h-9 w-[180px]"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+        <Button size="sm" disabled={!from || !to || from > to} onClick={applyRange}>
+          Apply
+        </Button>
+        <div className="ml-auto space-y-1">
+          <p className="text-xs text-muted-foreground">Rank by</p>
+          <Select value={rankBy} onValueChange={(v) => setRankBy(v as RankBy)}>
+            <SelectTrigger className="h-9 w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANK_BY) as RankBy[]).map((k) => (
+                <SelectItem key={k} value={k}>
+                  {RANK_BY[k]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {scorecards.detail ? (
+        <SupplierScorecardView detail={scorecards.detail} closeHref={hrefFor(null)} />
+      ) : null}
+
+      {ranked.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          No purchase orders in this range.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[3rem]">#</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">POs</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">On time</TableHead>
+                  <TableHead className="text-right">Fill rate</TableHead>
+                  <TableHead className="text-right">Response</TableHead>
+                  <TableHead className="text-right">Refund / repl.</TableHead>
+                  <TableHead className="text-right">Last PO</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ranked.map((row, i) => (
+                  <TableRow
+                    key={row.id}
+                    className={row.id === scorecards.detail?.supplierId ? 'bg-muted/50' : undefined}
+                  >
+                    <TableCell className="text-xs text-muted-foreground tabular-nums">
+                      {i + 1}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <Link href={hrefFor(row.id)} className="hover:underline">
+                        {row.company}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{row.poCount}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={scoreVariant(row.score)}>{row.score ?? '—'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatRate(row.onTimeRate)}
+                      {row.datedDeliveries > 0 ? (
+                        <span className="ml-1 text-xs text-muted-foreground">
+                          ({row.onTimeDeliveries}/{row.datedDeliveries})
+                        </span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatRate(row.fillRate)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatHours(row.medianResponseHours)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatRate(row.issueRate)}
+                    </TableCell>
+                    <TableCell className="text-right text-xs tabular-nums">
+                      {row.lastOrderedYmd ?? '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            On time = received on or before the expected date. Fill rate = units received on
+            fulfilled or completed POs against units ordered. Response = median time from the PO
+            email to the supplier&apos;s reply or portal acknowledgement. Score averages on-time,
+            fill and (100% − refund/replacement rate).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatInvoiceMoney } from '@/features/order/invoices/utils/format-invoice-money';
+import type { VariantPurchasePriceHistory } from '../types/purchase-price';
+
+const chartConfig = {
+  poPrice: { label: 'PO price', color: 'var(--chart-1)' },
+  shopifyCost: { label: 'Shopify unit cost', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+type ChartPoint = { ymd: string; poPrice: number | null; shopifyCost: number | null };
+
+type Props = {
+  variantGid: string;
+  label: string;
+  onOpenChange: (open: boolean) => void;
+};
+
+function formatChange(current: number, previous: number | undefined): string | null {
+  if (previous == null || previous === 0 || current === previous) return null;
+  const pct = Math.round(((current - previous) / previous) * 1000) / 10;
+  return pct > 0 ? `+${pct}%` : `${pct}%`;
+}
+
+/** Purchase price history for one variant: PO prices vs Shopify unit cost, and recipes using it. */
+export function VariantPriceHistoryDialog({ variantGid, label, onOpenChange }: Props) {
+  const [history, setHistory] = useState<VariantPurchasePriceHistory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch(
+          `/api/order/purchase-price-history?variantGid=${encodeURIComponent(variantGid)}`,
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error((data as { error?: string }).error ?? 'Failed to load price history');
+        }
+        if (!cancelled) {
+          setHistory((data as { history: VariantPurchasePriceHistory }).history);
+        }
+      } catch (e) {
+        if (cancelled) return;
+        toast.error(e instanceof Error ? e.message : 'Failed to load price history');
+        onOpenChange(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [variantGid, onOpenChange]);
+
+  const currency = history?.purchases.at(-1)?.currency ?? 'CAD';
+
+  const chartData = useMemo<ChartPoint[]>(() => {
+    if (!history) return [];
+    const byYmd = new Map<string, ChartPoint>();
+    const at = (ymd: string) => {
+      const p = byYmd.get(ymd) ?? { ymd, poPrice: null, shopifyCost: null };
+      byYmd.set(ymd, p);
+      return p;
+    };
+    for (const p of history.purchases) at(p.orderedYmd).poPrice = p.unitPrice;
+    for (const c of history.shopifyCosts) at(c.ymd).shopifyCost = c.unitCost;
+    return [...byYmd.values()].sort((a, b) => a.ymd.localeCompare(b.ymd));
+  }, [history]);
+
+  const newestFirst = useMemo(() => [...(history?.purchases ?? [])].reverse(), [history]);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price history</DialogTitle>
+          <DialogDescription>{label}</DialogDescription>
+        </DialogHeader>
+
+        {!history ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-4">
+            {chartData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No priced PO lines or Shopify unit costs for this variant yet.
+              </p>
+            ) : (
+              <ChartContainer config={chartConfig} className="aspect-[16/6] min-h-[200px] w-full">
+                <ComposedChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" opacity={0.4} />
+                  <XAxis
+                    dataKey="ymd"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                    tick={{ fontSize: 10 }}
+                  />
+                  <YAxis
+                    width={52}
+                    tickLine={false}
+                    axisLine={false}
+                    tick={{ fontSize: 10 }}
+                    domain={['auto', 'auto']}
+                  />
+                  <Line
+                    dataKey="poPrice"
+                    type="stepAfter"
+                    stroke="var(--color-poPrice)"
+                    strokeWidth={2}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    dataKey="shopifyCost"
+                    type="stepAfter"
+                    stroke="var(--color-shopifyCost)"
+                    strokeWidth={2}
+                    strokeDasharray="5 4"
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                  <ChartTooltip
+                    cursor={false}
+                    content={({ active, payload }) => {
+                      const p = active ? (payload?.[0]?.payload as ChartPoint | undefined) : undefined;
+                      if (!p) return null;
+                      return (
+                        <div className="rounded-md border bg-background px-2.5 py-1.5 text-xs shadow-sm">
+                          <div className="font-medium">{p.ymd}</div>
+                          {p.poPrice != null ? (
+                            <div className="tabular-nums">
+                              PO {formatInvoiceMoney(p.poPrice, currency)}
+                            </div>
+                          ) : null}
+                          {p.shopifyCost != null ? (
+                            <div className="tabular-nums text-muted-foreground">
+                              Shopify {formatInvoiceMoney(p.shopifyCost, currency)}
+                            </div>
+                          ) : null}
+                        </div>
+                      );
+                    }}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                </ComposedChart>
+              </ChartContainer>
+            )}
+
+            <div className="space-y-1">
+              <h3 className="text-sm font-medium">Recipes using this item</h3>
+              {history.recipes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Not used as an ingredient.</p>
+              ) : (
+                <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                  {history.recipes.map((r) => (
+                    <li key={`${r.costId}:${r.amount}:${r.unit}`}>
+                      <Link href={`/cost/edit/${r.costId}`} className="hover:underline">
+                        {r.costTitle}
+                      </Link>
+                      <span className="text-muted-foreground">
+                        {' '}
+                        · {r.amount} {r.unit}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {newestFirst.length > 0 ? (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[7rem]">Ordered</TableHead>
+                      <TableHead className="w-[6rem]">PO</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="w-[4rem] text-right">Qty</TableHead>
+                      <TableHead className="w-[7rem] text-right">Unit price</TableHead>
+                      <TableHead className="w-[5rem] text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {newestFirst.map((p, i) => {
+                      const change = formatChange(p.unitPrice, newestFirst[i + 1]?.unitPrice);
+                      return (
+                        <TableRow key={`${p.purchaseOrderId}:${i}`}>
+                          <TableCell className="text-xs tabular-nums">{p.orderedYmd}</TableCell>
+                          <TableCell className="text-xs">#{p.poNumber}</TableCell>
+                          <TableCell className="text-sm">{p.supplierCompany ?? '—'}</TableCell>
+                          <TableCell className="text-right tabular-nums">{p.quantity}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatInvoiceMoney(p.unitPrice, p.currency)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right text-xs tabular-nums ${change?.startsWith('+') ? 'text-destructive' : 'text-muted-foreground'}`}
+                          >
+                            {change ?? ''}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : null}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
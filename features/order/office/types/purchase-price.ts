@@ -0,0 +1,53 @@
+/** One priced PO line for a variant. */
+export type PurchasePricePoint = {
+  purchaseOrderId: string;
+  poNumber: string;
+  supplierCompany: string | null;
+  /** PO order date, `YYYY-MM-DD`. */
+  orderedYmd: string;
+  unitPrice: number;
+  currency: string;
+  quantity: number;
+};
+
+/** Shopify variant unit cost as captured on synced order lines; one point per change. */
+export type ShopifyUnitCostPoint = {
+  /** Shopify order date, `YYYY-MM-DD`. */
+  ymd: string;
+  unitCost: number;
+};
+
+/** A `Cost` recipe with this variant as an ingredient. */
+export type VariantRecipeUse = {
+  costId: string;
+  costTitle: string;
+  amount: number;
+  unit: string;
+};
+
+export type VariantPurchasePriceHistory = {
+  variantGid: string;
+  /** Oldest first. */
+  purchases: PurchasePricePoint[];
+  /** Oldest first. */
+  shopifyCosts: ShopifyUnitCostPoint[];
+  recipes: VariantRecipeUse[];
+};
+
+export type PurchasePriceAlertRow = {
+  id: string;
+  purchaseOrderId: string;
+  poNumber: string;
+  supplierCompany: string | null;
+  variantGid: string;
+  label: string;
+  sku: string | null;
+  currency: string;
+  previousPoNumber: string;
+  previousPrice: number;
+  newPrice: number;
+  /** `(newPrice − previousPrice) / previousPrice`. */
+  changeRate: number;
+  createdAt: string;
+  recipes: VariantRecipeUse[];
+};
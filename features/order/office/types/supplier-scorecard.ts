@@ -0,0 +1,94 @@
+/** Supplier performance over POs ordered in the selected range (pending drafts excluded). */
+export type SupplierScorecardMetrics = {
+  poCount: number;
+  /** POs with both an expected date and a receive date. */
+  datedDeliveries: number;
+  /** Received on or before the expected date (Vancouver calendar day). */
+  onTimeDeliveries: number;
+  /** `onTimeDeliveries / datedDeliveries`; null when no PO can be judged. */
+  onTimeRate: number | null;
+  /** Average calendar days late over late deliveries only. */
+  avgDaysLate: number | null;
+  /** Ordered units on fulfilled / completed POs (the fill-rate base). */
+  closedOrderedQty: number;
+  /** Received units on those POs, capped per line at the ordered quantity. */
+  closedReceivedQty: number;
+  /** `closedReceivedQty / closedOrderedQty`; null when no PO is closed. */
+  fillRate: number | null;
+  emailsSent: number;
+  emailsOpened: number;
+  /** Sent POs the supplier replied to or acknowledged in the portal. */
+  emailsAnswered: number;
+  /** Median hours from PO email sent to first open. */
+  medianOpenHours: number | null;
+  /** Median hours from PO email sent to the first reply or portal acknowledgement. */
+  medianResponseHours: number | null;
+  /** Ordered units on every PO in the range (the issue-rate base). */
+  orderedQty: number;
+  /** Refund + replacement units recorded against these POs. */
+  issueQty: number;
+  /** `issueQty / orderedQty`; null when nothing was ordered. */
+  issueRate: number | null;
+  /** Refund + replacement units per `reasonCategory`. */
+  issueQtyByCategory: Record<string, number>;
+  /** 0–100: mean of on-time rate, fill rate and (1 − issue rate), over whichever are known. */
+  score: number | null;
+};
+
+export type SupplierScorecardRow = SupplierScorecardMetrics & {
+  id: string;
+  company: string;
+  /** Latest PO order date in the range, `YYYY-MM-DD`. */
+  lastOrderedYmd: string | null;
+};
+
+export type SupplierScorecardPriceChange = {
+  poNumber: string;
+  /** PO order date, `YYYY-MM-DD`. */
+  orderedYmd: string;
+  unitPrice: number;
+};
+
+/** PO unit price of one SKU across the supplier's POs, oldest first. */
+export type SupplierScorecardSkuPrices = {
+  sku: string;
+  title: string;
+  currency: string;
+  poCount: number;
+  firstPrice: number;
+  lastPrice: number;
+  /** `(lastPrice − firstPrice) / firstPrice`; null when the first price is 0. */
+  changeRate: number | null;
+  /** First price, then every PO where the price moved. */
+  changes: SupplierScorecardPriceChange[];
+};
+
+export type SupplierScorecardPoRow = {
+  id: string;
+  poNumber: string;
+  orderedYmd: string;
+  expectedYmd: string | null;
+  receivedYmd: string | null;
+  /** Positive = late, 0 or negative = on time; null when not judged. */
+  daysLate: number | null;
+  orderedQty: number;
+  receivedQty: number;
+  responseHours: number | null;
+  issueQty: number;
+};
+
+export type SupplierScorecardDetail = {
+  supplierId: string;
+  company: string;
+  metrics: SupplierScorecardMetrics;
+  skuPrices: SupplierScorecardSkuPrices[];
+  purchaseOrders: SupplierScorecardPoRow[];
+};
+
+export type SupplierScorecards = {
+  from: string;
+  to: string;
+  /** Ranked best score first; suppliers without POs in the range are left out. */
+  rows: SupplierScorecardRow[];
+  detail: SupplierScorecardDetail | null;
+};
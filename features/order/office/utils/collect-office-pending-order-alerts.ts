@@ -6,6 +6,11 @@ export type OfficePendingOrderAlertItem = {
   supplierKey: SupplierKey;
   supplierCompany: string;
   customerLabel: string;
+  /** Drafted from par levels — shown on the auto PO strip with one-click approve. */
+  isAuto: boolean;
+  lineCount: number;
+  /** `YYYY-MM-DD` */
+  expectedDate: string | null;
 };
 
 function customerLabelForSupplierKey(
@@ -19,7 +24,8 @@ function customerLabelForSupplierKey(
 
 /**
  * Hub POs with `status === 'pending'` (same rows as the PO Pending status tab).
- * Used by the amber office strip — not Shopify `office_pending_at` on drafts.
+ * Used by the amber office strip and the auto PO draft strip (`isAuto`) — not
+ * Shopify `office_pending_at` on drafts.
  */
 export function collectOfficePendingOrderAlerts(args: {
   viewDataMap: Record<SupplierKey, ViewData>;
@@ -49,6 +55,9 @@ export function collectOfficePendingOrderAlerts(args: {
         supplierKey: key,
         supplierCompany: entry.supplierCompany,
         customerLabel: customerLabelForSupplierKey(key, customerGroups),
+        isAuto: po.isAuto,
+        lineCount: po.lineItems.length,
+        expectedDate: po.panelMeta?.expectedDate ?? null,
       });
     }
   }
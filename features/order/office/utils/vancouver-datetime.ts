@@ -87,3 +87,45 @@ export function formatVancouverYmdChip(ymd: string): string {
   );
   return `${md} (${wd})`;
 }
+
+/** Vancouver's UTC offset (ms, DST-aware) at an instant. */
+function vancouverOffsetMs(at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: OFFICE_ORDERED_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const wall = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return wall - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/** Instant for Vancouver wall-clock `HH:MM` on civil date `YYYY-MM-DD` (null if malformed). */
+export function vancouverWallTimeToDate(ymd: string, hhmm: string): Date | null {
+  const d = /^(\d{4})-(\d{2})-(\d{2})$/.exec(ymd.trim());
+  const t = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!d || !t) return null;
+  const asUtc = Date.UTC(
+    Number(d[1]),
+    Number(d[2]) - 1,
+    Number(d[3]),
+    Number(t[1]),
+    Number(t[2]),
+  );
+  // Second pass settles times near a DST switch, where the first guess lands on the other side.
+  const guess = asUtc - vancouverOffsetMs(new Date(asUtc));
+  return new Date(asUtc - vancouverOffsetMs(new Date(guess)));
+}
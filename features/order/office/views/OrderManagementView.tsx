@@ -11,6 +11,8 @@ import { PostPoView } from '../components/PostPoView';
 import { MetaPanel } from '../components/MetaPanel';
 import { OrderProcessingBlock } from '../components/OrderProcessingBlock';
 import { PoEmailDeliveryAlertsStrip } from '../components/PoEmailDeliveryAlertsStrip';
+import { AutoPoDraftsStrip } from '../components/AutoPoDraftsStrip';
+import { PurchasePriceAlertsStrip } from '../components/PurchasePriceAlertsStrip';
 import { OfficePendingOrdersAlertsStrip } from '../components/OfficePendingOrdersAlertsStrip';
 import {
   collectPoEmailDeliveryAlerts,
@@ -63,6 +65,7 @@ import type {
 } from '../types';
 import type { CreatePoPayload, EditPoFields } from '../components/MetaPanel';
 import type { SeparatePoPayload } from '../types';
+import type { PurchasePriceAlertRow } from '../types/purchase-price';
 import {
   buildExpectedDateBuckets,
   expectedDateKeyFromPo,
@@ -210,6 +213,8 @@ export type OrderManagementViewProps = {
   tableViewPoRows: OfficeTableViewPoRow[];
   tableViewShopifyTotal: number;
   tableViewPoTotal: number;
+  /** Open cost-change alerts (PO price moved past the Item settings threshold). */
+  purchasePriceAlerts: PurchasePriceAlertRow[];
 };
 
 export function OrderManagementView({
@@ -226,6 +231,7 @@ export function OrderManagementView({
   tableViewPoRows,
   tableViewShopifyTotal,
   tableViewPoTotal,
+  purchasePriceAlerts,
 }: OrderManagementViewProps) {
   void _statusTabCounts;
   const [createShopifyOrderOpen, setCreateShopifyOrderOpen] = useState(false);
@@ -600,6 +606,28 @@ export function OrderManagementView({
     });
   }, []);
 
+  const handleDismissPurchasePriceAlert = useCallback(
+    async (alertId: string) => {
+      try {
+        const res = await fetch(
+          `/api/order/purchase-price-alerts/${alertId}/dismiss`,
+          { method: 'POST' },
+        );
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        if (!res.ok) {
+          toast.error(
+            typeof body?.error === 'string' ? body.error : 'Could not dismiss',
+          );
+          return;
+        }
+        router.refresh();
+      } catch {
+        toast.error('Network error');
+      }
+    },
+    [router],
+  );
+
   const handlePoEmailDeliveryWaivedChange = useCallback(
     async (poId: string, waived: boolean) => {
       try {
@@ -2622,7 +2650,7 @@ export function OrderManagementView({
     [patchedViewDataMap, states, customerGroups],
   );
 
-  const officePendingOrderAlertItems = useMemo(
+  const pendingPoAlertItems = useMemo(
     () =>
       collectOfficePendingOrderAlerts({
         viewDataMap: patchedViewDataMap,
@@ -2631,6 +2659,15 @@ export function OrderManagementView({
       }),
     [patchedViewDataMap, states, customerGroups],
   );
+  /** Auto PO drafts get their own strip with approve; the amber strip keeps manual holds. */
+  const officePendingOrderAlertItems = useMemo(
+    () => pendingPoAlertItems.filter((it) => !it.isAuto),
+    [pendingPoAlertItems],
+  );
+  const autoPoDraftItems = useMemo(
+    () => pendingPoAlertItems.filter((it) => it.isAuto),
+    [pendingPoAlertItems],
+  );
 
   const poPrintHeadline = useMemo(() => {
     const custKey = activeKey.split('::')[0] ?? '';
@@ -2862,6 +2899,15 @@ export function OrderManagementView({
           }}
           onEmailDeliveryWaivedChange={handlePoEmailDeliveryWaivedChange}
         />
+        <AutoPoDraftsStrip
+          items={autoPoDraftItems}
+          onNavigateToPo={handleOfficePendingOrderStripNavigate}
+          onApprove={(poId) => handleEditPo(poId, { status: 'unfulfilled' })}
+        />
+        <PurchasePriceAlertsStrip
+          items={purchasePriceAlerts}
+          onDismiss={handleDismissPurchasePriceAlert}
+        />
         <OfficePendingOrdersAlertsStrip
           items={officePendingOrderAlertItems}
           onNavigateToPendingPo={handleOfficePendingOrderStripNavigate}
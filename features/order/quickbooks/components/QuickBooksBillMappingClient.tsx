@@ -0,0 +1,374 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type {
+  QuickBooksItemMappingKind,
+  QuickBooksMappingData,
+  QuickBooksRealmOption,
+  QuickBooksRefOption,
+  QuickBooksVendorMappingRow,
+} from '../types';
+
+/** Select value for "not mapped". */
+const NONE = '__none';
+
+type Lookups = {
+  vendors: QuickBooksRefOption[];
+  accounts: QuickBooksRefOption[];
+  items: QuickBooksRefOption[];
+};
+
+async function send(url: string, method: 'PUT' | 'DELETE', body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    ...(body !== undefined
+      ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+      : {}),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error((data as { error?: string }).error ?? 'Could not save mapping');
+  }
+}
+
+function RefSelect({
+  value,
+  options,
+  placeholder,
+  onChange,
+  disabled,
+}: {
+  value: string | null;
+  options: QuickBooksRefOption[];
+  placeholder: string;
+  onChange: (ref: QuickBooksRefOption | null) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select
+      value={value ?? NONE}
+      onValueChange={(v) => onChange(v === NONE ? null : (options.find((o) => o.id === v) ?? null))}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-full text-xs">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{placeholder}</SelectItem>
+        {options.map((o) => (
+          <SelectItem key={o.id} value={o.id}>
+            {o.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** Supplier → vendor and SKU → item/account mappings for one QuickBooks company; each change saves. */
+export function QuickBooksBillMappingClient({ realms }: { realms: QuickBooksRealmOption[] }) {
+  const [realmId, setRealmId] = useState(realms[0]?.id ?? '');
+  const [mappings, setMappings] = useState<QuickBooksMappingData | null>(null);
+  const [lookups, setLookups] = useState<Lookups | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [newSku, setNewSku] = useState('');
+  const [newKind, setNewKind] = useState<QuickBooksItemMappingKind>('item');
+  const [newRef, setNewRef] = useState<QuickBooksRefOption | null>(null);
+
+  const load = useCallback(async () => {
+    if (!realmId) return;
+    setLoading(true);
+    setLookupError(null);
+    try {
+      const [mapRes, lookupRes] = await Promise.all([
+        fetch(`/api/order/quickbooks/mappings?realmId=${encodeURIComponent(realmId)}`),
+        fetch(`/api/order/quickbooks/lookups?realmId=${encodeURIComponent(realmId)}`),
+      ]);
+      const mapData = await mapRes.json().catch(() => ({}));
+      if (!mapRes.ok) {
+        throw new Error((mapData as { error?: string }).error ?? 'Failed to load mappings');
+      }
+      setMappings(mapData as QuickBooksMappingData);
+      const lookupData = await lookupRes.json().catch(() => ({}));
+      if (lookupRes.ok) {
+        setLookups(lookupData as Lookups);
+      } else {
+        setLookups(null);
+        setLookupError(
+          (lookupData as { error?: string }).error ?? 'Could not load QuickBooks lists',
+        );
+      }
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load mappings');
+    } finally {
+      setLoading(false);
+    }
+  }, [realmId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const visibleVendors = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const rows = mappings?.vendors ?? [];
+    return q ? rows.filter((r) => r.supplierCompany.toLowerCase().includes(q)) : rows;
+  }, [mappings, query]);
+
+  const run = async (key: string, fn: () => Promise<void>) => {
+    setBusyKey(key);
+    try {
+      await fn();
+      await load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not save mapping');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveVendor = (
+    row: QuickBooksVendorMappingRow,
+    vendor: QuickBooksRefOption | null,
+    account: QuickBooksRefOption | null,
+  ) =>
+    run(`vendor:${row.supplierId}`, () =>
+      vendor
+        ? send('/api/order/quickbooks/mappings/vendors', 'PUT', {
+            realmId,
+            supplierId: row.supplierId,
+            qbVendorId: vendor.id,
+            qbVendorName: vendor.name,
+            defaultAccountId: account?.id ?? null,
+            defaultAccountName: account?.name ?? null,
+          })
+        : send(
+            `/api/order/quickbooks/mappings/vendors?realmId=${encodeURIComponent(realmId)}&supplierId=${encodeURIComponent(row.supplierId)}`,
+            'DELETE',
+          ),
+    );
+
+  const addItem = () =>
+    run('item:new', async () => {
+      await send('/api/order/quickbooks/mappings/items', 'PUT', {
+        realmId,
+        sku: newSku,
+        kind: newKind,
+        qbRefId: newRef?.id,
+        qbRefName: newRef?.name,
+      });
+      setNewSku('');
+      setNewRef(null);
+    });
+
+  if (realms.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+        No QuickBooks companies connected yet.
+      </div>
+    );
+  }
+
+  const refOf = (id: string | null, name: string | null) =>
+    id ? { id, name: name ?? id } : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">QuickBooks company</p>
+          <Select value={realmId} onValueChange={setRealmId}>
+            <SelectTrigger className="h-9 w-[280px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {realms.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.name}
+                  {r.locationCodes.length > 0 ? ` (${r.locationCodes.join(', ')})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Search suppliers</p>
+          <Input
+            className="h-9 w-[240px]"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        {loading && <Loader2 className="mb-2 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {lookupError ? (
+        <p className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+          {lookupError}
+        </p>
+      ) : null}
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-medium">Suppliers → vendors</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="w-[18rem]">QuickBooks vendor</TableHead>
+                <TableHead className="w-[18rem]">Default expense account</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleVendors.map((row) => {
+                const vendor = refOf(row.qbVendorId, row.qbVendorName);
+                const account = refOf(row.defaultAccountId, row.defaultAccountName);
+                const busy = busyKey === `vendor:${row.supplierId}`;
+                return (
+                  <TableRow key={row.supplierId}>
+                    <TableCell className="text-sm">{row.supplierCompany}</TableCell>
+                    <TableCell>
+                      <RefSelect
+                        value={row.qbVendorId}
+                        options={lookups?.vendors ?? (vendor ? [vendor] : [])}
+                        placeholder="Not mapped"
+                        onChange={(v) => void saveVendor(row, v, v ? account : null)}
+                        disabled={busy || !lookups}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <RefSelect
+                        value={row.defaultAccountId}
+                        options={lookups?.accounts ?? (account ? [account] : [])}
+                        placeholder="None (map SKUs)"
+                        onChange={(a) => void saveVendor(row, vendor, a)}
+                        disabled={busy || !lookups || !vendor}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-medium">SKUs → items or accounts</h2>
+        <p className="text-xs text-muted-foreground">
+          Item mappings bill quantity × unit price against a QuickBooks item; account mappings post
+          the line amount to an expense account. Both override the vendor&apos;s default account.
+        </p>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[12rem]">SKU</TableHead>
+                <TableHead className="w-[8rem]">Posts to</TableHead>
+                <TableHead>QuickBooks item / account</TableHead>
+                <TableHead className="w-[5rem] text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(mappings?.items ?? []).map((m) => (
+                <TableRow key={m.sku}>
+                  <TableCell className="font-mono text-xs">{m.sku}</TableCell>
+                  <TableCell className="text-xs">{m.kind === 'item' ? 'Item' : 'Account'}</TableCell>
+                  <TableCell className="text-sm">{m.qbRefName ?? m.qbRefId}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      title="Remove mapping"
+                      disabled={busyKey === `item:${m.sku}`}
+                      onClick={() =>
+                        void run(`item:${m.sku}`, () =>
+                          send(
+                            `/api/order/quickbooks/mappings/items?realmId=${encodeURIComponent(realmId)}&sku=${encodeURIComponent(m.sku)}`,
+                            'DELETE',
+                          ),
+                        )
+                      }
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell>
+                  <Input
+                    className="h-8 font-mono text-xs"
+                    placeholder="SKU"
+                    value={newSku}
+                    onChange={(e) => setNewSku(e.target.value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={newKind}
+                    onValueChange={(v) => {
+                      setNewKind(v as QuickBooksItemMappingKind);
+                      setNewRef(null);
+                    }}
+                  >
+                    <SelectTrigger className="h-8 w-full text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="item">Item</SelectItem>
+                      <SelectItem value="account">Account</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <RefSelect
+                    value={newRef?.id ?? null}
+                    options={(newKind === 'item' ? lookups?.items : lookups?.accounts) ?? []}
+                    placeholder={newKind === 'item' ? 'Choose item' : 'Choose account'}
+                    onChange={setNewRef}
+                    disabled={!lookups}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => void addItem()}
+                    disabled={!newSku.trim() || !newRef || busyKey === 'item:new'}
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+    </div>
+  );
+}
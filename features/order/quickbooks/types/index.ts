@@ -0,0 +1,54 @@
+/** `order.quickbooks_item_mappings.kind` */
+export const QUICKBOOKS_ITEM_MAPPING_KINDS = ['item', 'account'] as const;
+
+export type QuickBooksItemMappingKind = (typeof QUICKBOOKS_ITEM_MAPPING_KINDS)[number];
+
+export type QuickBooksRefOption = { id: string; name: string };
+
+/** QuickBooks company (realm) the office can map and bill into. */
+export type QuickBooksRealmOption = {
+  id: string;
+  name: string;
+  locationCodes: string[];
+};
+
+export type QuickBooksVendorMappingRow = {
+  supplierId: string;
+  supplierCompany: string;
+  qbVendorId: string | null;
+  qbVendorName: string | null;
+  defaultAccountId: string | null;
+  defaultAccountName: string | null;
+};
+
+export type QuickBooksItemMappingRow = {
+  sku: string;
+  kind: QuickBooksItemMappingKind;
+  qbRefId: string;
+  qbRefName: string | null;
+};
+
+export type QuickBooksMappingData = {
+  vendors: QuickBooksVendorMappingRow[];
+  items: QuickBooksItemMappingRow[];
+};
+
+/** Location a PO bill can be posted under (its realm + class). */
+export type QuickBooksBillLocationOption = {
+  locationId: string;
+  code: string;
+  name: string;
+  realmName: string;
+};
+
+/** QuickBooks bill state for the office PO panel. */
+export type PurchaseOrderQuickBooksBillStatus = {
+  qbBillId: string | null;
+  /** ISO */
+  pushedAt: string | null;
+  realmName: string | null;
+  /** Every line received (`receivedAt` set) — bills are pushed only then. */
+  received: boolean;
+  /** From the PO's delivery preset; more than one means the office picks. */
+  locations: QuickBooksBillLocationOption[];
+};
@@ -0,0 +1,305 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { YmdDateInput } from '@/components/ui/ymd-date-input';
+import { formatCurrency } from '@/lib/utils';
+import { formatYmdWithWeekday } from '@/lib/datetime/format-ymd-weekday';
+import type {
+  SupplierPortalLineItem,
+  SupplierPortalPurchaseOrder,
+} from '../types';
+import { SupplierResponseList } from './SupplierResponseList';
+
+function lineLabel(li: SupplierPortalLineItem): string {
+  const title = [li.productTitle, li.variantTitle].filter(Boolean).join(' — ');
+  return title || li.sku || `Line ${li.sequence}`;
+}
+
+function PoStateBadge({ po }: { po: SupplierPortalPurchaseOrder }) {
+  if (po.responses.some((r) => r.status === 'pending')) {
+    return <Badge variant="amber">Change proposed</Badge>;
+  }
+  if (po.supplierAcknowledgedAt) {
+    return <Badge variant="green">Acknowledged</Badge>;
+  }
+  return <Badge variant="gray">Awaiting your response</Badge>;
+}
+
+function SupplierPoCard({
+  po,
+  onResponded,
+}: {
+  po: SupplierPortalPurchaseOrder;
+  onResponded: () => void;
+}) {
+  const [expectedDate, setExpectedDate] = useState(po.expectedDate ?? '');
+  const [qtyByLine, setQtyByLine] = useState<Record<string, string>>(() =>
+    Object.fromEntries(po.lineItems.map((li) => [li.id, String(li.quantity)])),
+  );
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const proposedLineQuantities = po.lineItems.flatMap((li) => {
+    const raw = qtyByLine[li.id]?.trim() ?? '';
+    const n = Number(raw);
+    if (raw === '' || !Number.isInteger(n) || n < 0 || n === li.quantity) {
+      return [];
+    }
+    return [{ lineItemId: li.id, quantity: n }];
+  });
+  const proposedExpectedDate =
+    expectedDate && expectedDate !== po.expectedDate ? expectedDate : null;
+  const hasChanges =
+    proposedLineQuantities.length > 0 || proposedExpectedDate != null;
+
+  const submit = async (acknowledged: boolean) => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        `/api/order/supplier-portal/purchase-orders/${po.id}/responses`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            acknowledged,
+            proposedExpectedDate,
+            proposedLineQuantities,
+            note: note.trim() || null,
+          }),
+        },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Could not send response',
+        );
+      }
+      setNote('');
+      toast.success(
+        hasChanges ? 'Proposal sent to the office.' : 'PO acknowledged.',
+      );
+      onResponded();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not send response');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-base font-semibold">PO #{po.poNumber}</h2>
+          <p className="text-xs text-muted-foreground">
+            {po.dateCreated
+              ? `Ordered ${formatYmdWithWeekday(po.dateCreated)}`
+              : 'Order date not set'}
+            {po.expectedDate
+              ? ` · Expected ${formatYmdWithWeekday(po.expectedDate)}`
+              : ''}
+          </p>
+        </div>
+        <PoStateBadge po={po} />
+      </div>
+
+      {po.comment?.trim() ? (
+        <p className="whitespace-pre-wrap rounded-md bg-muted/40 px-3 py-2 text-xs">
+          {po.comment}
+        </p>
+      ) : null}
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/30 text-xs text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Item</th>
+              <th className="px-3 py-2 text-left font-medium">SKU</th>
+              <th className="px-3 py-2 text-right font-medium">Price</th>
+              <th className="px-3 py-2 text-right font-medium">Ordered</th>
+              <th className="px-3 py-2 text-right font-medium">You can supply</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {po.lineItems.map((li) => (
+              <tr key={li.id}>
+                <td className="px-3 py-2">{lineLabel(li)}</td>
+                <td className="px-3 py-2 text-muted-foreground">
+                  {li.supplierRef || li.sku || '—'}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums">
+                  {li.itemPrice != null ? formatCurrency(li.itemPrice) : '—'}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums">
+                  {li.quantity}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <Input
+                    type="number"
+                    min={0}
+                    step={1}
+                    className="ml-auto h-8 w-20 text-right tabular-nums"
+                    value={qtyByLine[li.id] ?? ''}
+                    onChange={(e) =>
+                      setQtyByLine((prev) => ({
+                        ...prev,
+                        [li.id]: e.target.value,
+                      }))
+                    }
+                    disabled={submitting}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Delivery date</p>
+          <YmdDateInput
+            className="h-9 w-[200px]"
+            value={expectedDate}
+            onChange={(e) => setExpectedDate(e.target.value)}
+            disabled={submitting}
+          />
+        </div>
+        <div className="min-w-[240px] flex-1 space-y-1">
+          <p className="text-xs text-muted-foreground">Note to the office</p>
+          <Textarea
+            className="min-h-9 text-sm"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Optional"
+            disabled={submitting}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {hasChanges ? (
+          <span className="text-xs text-amber-700">
+            The office will review your changes before the PO is updated.
+          </span>
+        ) : null}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={submitting || (!hasChanges && !note.trim())}
+          onClick={() => void submit(false)}
+        >
+          {hasChanges ? 'Propose changes' : 'Send note'}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={submitting}
+          onClick={() => void submit(true)}
+        >
+          {submitting && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          {hasChanges ? 'Acknowledge with changes' : 'Acknowledge PO'}
+        </Button>
+      </div>
+
+      {po.responses.length > 0 ? (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium text-muted-foreground">
+            Your responses
+          </p>
+          <SupplierResponseList
+            responses={po.responses}
+            lines={po.lineItems.map((li) => ({
+              id: li.id,
+              label: lineLabel(li),
+              quantity: li.quantity,
+            }))}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function SupplierPortalClient({ supplierName }: { supplierName: string }) {
+  const [purchaseOrders, setPurchaseOrders] = useState<
+    SupplierPortalPurchaseOrder[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/order/supplier-portal/purchase-orders');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          (data as { error?: string }).error ?? 'Failed to load purchase orders',
+        );
+      }
+      setPurchaseOrders(
+        (data as { purchaseOrders: SupplierPortalPurchaseOrder[] })
+          .purchaseOrders,
+      );
+    } catch (e) {
+      toast.error(
+        e instanceof Error ? e.message : 'Failed to load purchase orders',
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const open = purchaseOrders.filter((po) => !po.supplierAcknowledgedAt);
+  const acknowledged = purchaseOrders.filter((po) => po.supplierAcknowledgedAt);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Purchase orders</h1>
+        <p className="text-sm text-muted-foreground">{supplierName}</p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+        </div>
+      ) : purchaseOrders.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          No purchase orders yet.
+        </div>
+      ) : (
+        <>
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">
+              Needs your response ({open.length})
+            </h2>
+            {open.map((po) => (
+              <SupplierPoCard key={po.id} po={po} onResponded={load} />
+            ))}
+          </section>
+          {acknowledged.length > 0 ? (
+            <section className="space-y-3">
+              <h2 className="text-sm font-medium text-muted-foreground">
+                Acknowledged ({acknowledged.length})
+              </h2>
+              {acknowledged.map((po) => (
+                <SupplierPoCard key={po.id} po={po} onResponded={load} />
+              ))}
+            </section>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
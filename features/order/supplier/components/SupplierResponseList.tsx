@@ -0,0 +1,103 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { formatYmdWithWeekday } from '@/lib/datetime/format-ymd-weekday';
+import { formatVancouverOrderedSidebar } from '@/features/order/office/utils/vancouver-datetime';
+import type {
+  SupplierResponseItem,
+  SupplierResponseStatus,
+} from '../types';
+
+const STATUS_VARIANT: Record<
+  SupplierResponseStatus,
+  'amber' | 'green' | 'red'
+> = {
+  pending: 'amber',
+  accepted: 'green',
+  declined: 'red',
+};
+
+const STATUS_LABEL: Record<SupplierResponseStatus, string> = {
+  pending: 'Awaiting office',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+type LineLabel = { id: string; label: string; quantity: number };
+
+type Props = {
+  responses: SupplierResponseItem[];
+  /** PO lines for naming proposed quantity changes. */
+  lines: LineLabel[];
+  /** Office review actions for pending proposals (omit in the supplier portal). */
+  renderActions?: (response: SupplierResponseItem) => React.ReactNode;
+};
+
+/** Supplier replies on one PO — acknowledgement, proposed date / quantities, review state. */
+export function SupplierResponseList({ responses, lines, renderActions }: Props) {
+  const lineById = new Map(lines.map((l) => [l.id, l]));
+  return (
+    <ul className="divide-y rounded-md border bg-background">
+      {responses.map((r) => {
+        const hasProposal =
+          r.proposedExpectedDate != null || r.proposedLineQuantities.length > 0;
+        return (
+          <li key={r.id} className="space-y-1.5 px-3 py-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+                {r.acknowledged ? <Badge variant="blue">Acknowledged</Badge> : null}
+                {hasProposal ? (
+                  <Badge variant={STATUS_VARIANT[r.status]}>
+                    {STATUS_LABEL[r.status]}
+                  </Badge>
+                ) : null}
+                <span className="text-muted-foreground">
+                  {r.userName ?? 'Supplier'} ·{' '}
+                  {formatVancouverOrderedSidebar(r.createdAt)}
+                </span>
+              </div>
+              {renderActions && r.status === 'pending'
+                ? renderActions(r)
+                : null}
+            </div>
+            {r.proposedExpectedDate ? (
+              <p className="text-[11px]">
+                <span className="text-muted-foreground">Expected date → </span>
+                <span className="font-medium">
+                  {formatYmdWithWeekday(r.proposedExpectedDate)}
+                </span>
+              </p>
+            ) : null}
+            {r.proposedLineQuantities.length > 0 ? (
+              <ul className="space-y-0.5 text-[11px]">
+                {r.proposedLineQuantities.map((q) => {
+                  const line = lineById.get(q.lineItemId);
+                  return (
+                    <li key={q.lineItemId}>
+                      <span className="text-muted-foreground">
+                        {line?.label ?? 'Removed line'}:
+                      </span>{' '}
+                      {line ? `${line.quantity} → ` : null}
+                      <span className="font-medium">{q.quantity}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : null}
+            {r.note ? (
+              <p className="whitespace-pre-wrap break-words text-[11px] text-foreground">
+                {r.note}
+              </p>
+            ) : null}
+            {r.reviewedAt && hasProposal ? (
+              <p className="text-[10px] text-muted-foreground">
+                {STATUS_LABEL[r.status]} by {r.reviewedByName ?? 'office'} ·{' '}
+                {formatVancouverOrderedSidebar(r.reviewedAt)}
+              </p>
+            ) : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
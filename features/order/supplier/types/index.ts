@@ -0,0 +1,55 @@
+/** pending | accepted | declined — `order.purchase_order_supplier_responses.status`. */
+export type SupplierResponseStatus = 'pending' | 'accepted' | 'declined';
+
+export type SupplierProposedLineQuantity = {
+  lineItemId: string;
+  quantity: number;
+};
+
+/** One supplier portal reply on a PO (portal + office review panel). */
+export type SupplierResponseItem = {
+  id: string;
+  acknowledged: boolean;
+  /** YYYY-MM-DD */
+  proposedExpectedDate: string | null;
+  proposedLineQuantities: SupplierProposedLineQuantity[];
+  note: string | null;
+  status: SupplierResponseStatus;
+  /** ISO */
+  createdAt: string;
+  /** ISO */
+  reviewedAt: string | null;
+  userName: string | null;
+  reviewedByName: string | null;
+};
+
+export type SupplierPortalLineItem = {
+  id: string;
+  sequence: number;
+  quantity: number;
+  quantityReceived: number;
+  sku: string | null;
+  productTitle: string | null;
+  variantTitle: string | null;
+  supplierRef: string | null;
+  itemPrice: number | null;
+};
+
+/** PO as shown to the supplier on `/order/supplier`. */
+export type SupplierPortalPurchaseOrder = {
+  id: string;
+  poNumber: string;
+  status: string;
+  currency: string;
+  /** YYYY-MM-DD */
+  dateCreated: string | null;
+  /** YYYY-MM-DD */
+  expectedDate: string | null;
+  /** ISO */
+  emailSentAt: string | null;
+  /** ISO */
+  supplierAcknowledgedAt: string | null;
+  comment: string | null;
+  lineItems: SupplierPortalLineItem[];
+  responses: SupplierResponseItem[];
+};
@@ -1,5 +1,6 @@
 import Link from 'next/link';
-import { FileText } from 'lucide-react';
+import { CalendarClock, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import type { RealmConnectionItem } from '@/lib/quickbooks/connections';
 
@@ -12,12 +13,18 @@ export function ReportLocationSelect({ connections }: ReportLocationSelectProps)
 
   return (
     <div className="container max-w-5xl mx-auto py-6 space-y-6">
-      <div>
-        <h1 className="text-2xl font-semibold">P&L Reports</h1>
-        <p className="text-muted-foreground text-sm mt-1">
-          Select a location to generate and view Profit & Loss reports. Reports
-          are stored in Notion.
-        </p>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">P&L Reports</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Select a location to generate and view Profit & Loss reports.
+          </p>
+        </div>
+        <Button asChild size="sm" variant="outline">
+          <Link href="/report/schedules">
+            <CalendarClock /> Scheduled reports
+          </Link>
+        </Button>
       </div>
 
       {connectionsWithTokens.length === 0 ? (
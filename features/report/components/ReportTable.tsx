@@ -68,7 +68,7 @@ export function ReportTable({
       header: 'Start Date',
       cell: ({ row }) => {
         // Parse date string directly to avoid timezone issues
-        // Notion returns dates in "YYYY-MM-DD" format
+        // Reports store dates in "YYYY-MM-DD" format
         const dateStr = row.original.startDate;
         if (!dateStr) return '-';
 
@@ -92,7 +92,7 @@ export function ReportTable({
       header: 'End Date',
       cell: ({ row }) => {
         // Parse date string directly to avoid timezone issues
-        // Notion returns dates in "YYYY-MM-DD" format
+        // Reports store dates in "YYYY-MM-DD" format
         const dateStr = row.original.endDate;
         if (!dateStr) return '-';
 
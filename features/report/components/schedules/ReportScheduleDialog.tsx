@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import type { ReportScheduleRow } from '../../types';
+
+export type ReportScheduleLocationOption = { id: string; code: string; name: string | null };
+
+const DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
+
+function initialForm(schedule?: ReportScheduleRow) {
+  return {
+    name: schedule?.name ?? '',
+    dayOfMonth: schedule?.dayOfMonth ?? 5,
+    monthsBack: schedule?.monthsBack ?? 1,
+    locationIds: schedule?.locationIds ?? [],
+    recipients: schedule?.recipients.join(', ') ?? '',
+    isActive: schedule?.isActive ?? true,
+  };
+}
+
+/** Create a schedule, or edit `schedule` when given. */
+export function ReportScheduleDialog({
+  schedule,
+  locations,
+  trigger,
+}: {
+  schedule?: ReportScheduleRow;
+  locations: ReportScheduleLocationOption[];
+  trigger: React.ReactNode;
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState(() => initialForm(schedule));
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setForm(initialForm(schedule));
+    setOpen(next);
+  };
+
+  const toggleLocation = (id: string) => {
+    setForm((f) => ({
+      ...f,
+      locationIds: f.locationIds.includes(id)
+        ? f.locationIds.filter((l) => l !== id)
+        : [...f.locationIds, id],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.locationIds.length === 0) {
+      toast.error('Select at least one location');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        schedule ? `/api/report/schedules/${encodeURIComponent(schedule.id)}` : '/api/report/schedules',
+        {
+          method: schedule ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form),
+        },
+      );
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? 'Failed to save schedule');
+      toast.success(schedule ? 'Schedule updated' : 'Schedule created');
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg" showCloseButton>
+        <DialogHeader>
+          <DialogTitle>{schedule ? 'Edit schedule' : 'New report schedule'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="report-schedule-name">Name</Label>
+            <Input
+              id="report-schedule-name"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              placeholder="e.g. Monthly owners pack"
+              required
+              autoComplete="off"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label>Send on day</Label>
+              <Select
+                value={String(form.dayOfMonth)}
+                onValueChange={(v) => setForm((f) => ({ ...f, dayOfMonth: Number(v) }))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS.map((d) => (
+                    <SelectItem key={d} value={String(d)}>
+                      {d} of each month
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Report covers</Label>
+              <Select
+                value={String(form.monthsBack)}
+                onValueChange={(v) => setForm((f) => ({ ...f, monthsBack: Number(v) }))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Previous month</SelectItem>
+                  <SelectItem value="2">Previous 2 months</SelectItem>
+                  <SelectItem value="3">Previous 3 months</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Locations</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {locations.map((l) => {
+                const selected = form.locationIds.includes(l.id);
+                return (
+                  <Button
+                    key={l.id}
+                    type="button"
+                    size="sm"
+                    variant={selected ? 'secondary' : 'ghost'}
+                    className={selected ? '' : 'text-muted-foreground'}
+                    title={l.name ?? undefined}
+                    onClick={() => toggleLocation(l.id)}
+                  >
+                    {l.code}
+                  </Button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">Each location is sent as its own email.</p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="report-schedule-recipients">Recipients</Label>
+            <Textarea
+              id="report-schedule-recipients"
+              value={form.recipients}
+              onChange={(e) => setForm((f) => ({ ...f, recipients: e.target.value }))}
+              placeholder="owner@example.com, accountant@example.com"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="report-schedule-active"
+              checked={form.isActive}
+              onCheckedChange={(checked) => setForm((f) => ({ ...f, isActive: checked }))}
+            />
+            <Label htmlFor="report-schedule-active">Active</Label>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={submitting}>
+              {schedule ? 'Save' : 'Create schedule'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
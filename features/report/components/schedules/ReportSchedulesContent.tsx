@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Pencil, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { ReportScheduleRow, ReportScheduleRunRow, ReportScheduleRunStatus } from '../../types';
+import { ReportScheduleDialog, type ReportScheduleLocationOption } from './ReportScheduleDialog';
+
+const STATUS_BADGE: Record<ReportScheduleRunStatus, { label: string; variant: 'green' | 'red' | 'gray' }> = {
+  success: { label: 'Sent', variant: 'green' },
+  failed: { label: 'Failed', variant: 'red' },
+  running: { label: 'Running', variant: 'gray' },
+};
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Matches the server's stale-run window: a run stuck in `running` this long can be retried. */
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+function canRetry(run: ReportScheduleRunRow): boolean {
+  if (run.status === 'failed') return true;
+  return run.status === 'running' && Date.now() - new Date(run.startedAt).getTime() > STALE_RUN_MS;
+}
+
+function periodText(run: Pick<ReportScheduleRunRow, 'startMonth' | 'endMonth'>): string {
+  return run.startMonth === run.endMonth ? run.endMonth : `${run.startMonth} – ${run.endMonth}`;
+}
+
+/** Report schedules (create / edit / delete) and the recent send history with retry for failures. */
+export function ReportSchedulesContent({
+  schedules,
+  runs,
+  locations,
+}: {
+  schedules: ReportScheduleRow[];
+  runs: ReportScheduleRunRow[];
+  locations: ReportScheduleLocationOption[];
+}) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const locationCode = new Map(locations.map((l) => [l.id, l.code]));
+
+  const request = async (id: string, url: string, method: string, success: string) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(url, { method });
+      const data = (await res.json().catch(() => ({}))) as { error?: string; status?: string };
+      if (!res.ok) throw new Error(data.error ?? 'Request failed');
+      if (data.status === 'failed') toast.error('The report failed again — see the run error');
+      else toast.success(success);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = (s: ReportScheduleRow) => {
+    if (!window.confirm(`Delete "${s.name}" and its send history?`)) return;
+    void request(s.id, `/api/report/schedules/${encodeURIComponent(s.id)}`, 'DELETE', 'Schedule deleted');
+  };
+
+  const retry = (run: ReportScheduleRunRow) => {
+    void request(
+      run.id,
+      `/api/report/schedules/runs/${encodeURIComponent(run.id)}/retry`,
+      'POST',
+      'Report sent',
+    );
+  };
+
+  return (
+    <div className="container max-w-5xl mx-auto py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Scheduled reports</h1>
+        <p className="text-muted-foreground text-sm mt-1">
+          Monthly P&L PDFs emailed automatically. Each schedule sends once per location and period;
+          failed sends stay below until retried.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-bold">Schedules</CardTitle>
+          <CardAction>
+            <ReportScheduleDialog
+              locations={locations}
+              trigger={
+                <Button size="sm">
+                  <Plus /> New schedule
+                </Button>
+              }
+            />
+          </CardAction>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No schedules yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Locations</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((s) => (
+                  <TableRow key={s.id}>
+                    <TableCell className="font-medium">
+                      {s.name}
+                      {!s.isActive && (
+                        <Badge variant="gray" className="ml-2">
+                          Paused
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      Day {s.dayOfMonth} ·{' '}
+                      {s.monthsBack === 1 ? 'previous month' : `previous ${s.monthsBack} months`}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {s.locationIds.map((id) => locationCode.get(id) ?? id).join(', ')}
+                    </TableCell>
+                    <TableCell className="max-w-[16rem] truncate text-sm" title={s.recipients.join(', ')}>
+                      {s.recipients.join(', ')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <ReportScheduleDialog
+                        schedule={s}
+                        locations={locations}
+                        trigger={
+                          <Button size="icon-sm" variant="ghost" aria-label={`Edit ${s.name}`}>
+                            <Pencil />
+                          </Button>
+                        }
+                      />
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        disabled={busyId === s.id}
+                        onClick={() => remove(s)}
+                        aria-label={`Delete ${s.name}`}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-bold">Recent sends</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been sent yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const badge = STATUS_BADGE[run.status] ?? STATUS_BADGE.running;
+                  return (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm tabular-nums">{formatDateTime(run.startedAt)}</TableCell>
+                      <TableCell className="text-sm">{run.scheduleName}</TableCell>
+                      <TableCell className="text-sm">{run.locationCode}</TableCell>
+                      <TableCell className="text-sm tabular-nums">{periodText(run)}</TableCell>
+                      <TableCell className="text-sm">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                        {run.attempts > 1 && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {run.attempts} attempts
+                          </span>
+                        )}
+                        {run.error && (
+                          <div className="max-w-[20rem] truncate text-xs text-destructive" title={run.error}>
+                            {run.error}
+                          </div>
+                        )}
+                        {run.status === 'success' && run.recipients.length > 0 && (
+                          <div
+                            className="max-w-[20rem] truncate text-xs text-muted-foreground"
+                            title={run.recipients.join(', ')}
+                          >
+                            To {run.recipients.join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canRetry(run) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyId === run.id}
+                            onClick={() => retry(run)}
+                          >
+                            <RotateCw /> Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
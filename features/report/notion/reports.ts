@@ -45,6 +45,11 @@ function formatNotionId(id: string): string {
   )}-${cleanId.slice(16, 20)}-${cleanId.slice(20, 32)}`;
 }
 
+/** True when NOTION_API_KEY and NOTION_DATABASE_ID are set; reports are then also copied to Notion. */
+export function isNotionConfigured(): boolean {
+  return !!(process.env.NOTION_API_KEY?.trim() && process.env.NOTION_DATABASE_ID?.trim());
+}
+
 /**
  * Get Notion client instance (singleton pattern for serverless environments)
  */
@@ -150,7 +155,8 @@ export interface NotionReport {
 }
 
 /**
- * Create a report in Notion database
+ * Create a report page in the Notion database (optional copy of a stored report).
+ * `pdfReportId` is the stored report id used for the page's PDF link.
  */
 export async function createReportInNotion(
   userId: string,
@@ -165,6 +171,7 @@ export async function createReportInNotion(
     profit?: number;
   },
   userName?: string,
+  pdfReportId?: string,
 ): Promise<NotionReport> {
   const notion = getNotionClient();
   const notionDatabaseId = getNotionDatabaseId();
@@ -281,7 +288,7 @@ export async function createReportInNotion(
       (process.env.VERCEL_URL
         ? `https://${process.env.VERCEL_URL}`
         : 'http://localhost:3000');
-    const pdfUrl = `${baseUrl}/api/report/${response.id}/pdf`;
+    const pdfUrl = `${baseUrl}/api/report/${pdfReportId ?? response.id}/pdf`;
 
     // Build PDF filename with location code and monthly indicator
     const locationPrefixForFile = locationCode ? `${locationCode.trim()}_` : '';
@@ -1,3 +1,9 @@
+export interface ReportTargetPercentages {
+  costOfSales?: number;
+  payroll?: number;
+  profit?: number;
+}
+
 export interface Report {
   id: string;
   locationCode: string;
@@ -9,6 +15,8 @@ export interface Report {
   notionUrl?: string;
   pdfUrl?: string;
   isMonthly?: boolean;
+  accountingMethod?: 'Accrual' | 'Cash';
+  targetPercentages?: ReportTargetPercentages;
 }
 
 export interface QBConnection {
@@ -24,3 +32,30 @@ export interface SelectedMonth {
   year: number;
   month: number; // 0-11
 }
+
+export type ReportScheduleRunStatus = 'running' | 'success' | 'failed';
+
+export interface ReportScheduleRow {
+  id: string;
+  name: string;
+  dayOfMonth: number;
+  monthsBack: number;
+  recipients: string[];
+  isActive: boolean;
+  locationIds: string[];
+}
+
+export interface ReportScheduleRunRow {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  locationCode: string;
+  startMonth: string;
+  endMonth: string;
+  status: ReportScheduleRunStatus;
+  error: string | null;
+  recipients: string[];
+  attempts: number;
+  startedAt: string;
+  finishedAt: string | null;
+}
@@ -40,6 +40,6 @@ export async function createReport(
     throw new Error(data.error || data.details || 'Generate failed');
   }
   const { toast } = await import('sonner');
-  toast.success('Report created and saved to Notion');
+  toast.success('Report created');
   options?.onSuccess?.();
 }
@@ -0,0 +1,190 @@
+/**
+ * P&L reports stored in `dashboard.pnl_reports`. Each row keeps the QuickBooks payload it was generated
+ * from, so listing, filtering and PDF rendering work without Notion (and without QuickBooks once the
+ * payload is stored). Rows imported from Notion are also found by their Notion page id, which keeps
+ * old `/api/report/<notion id>/pdf` links working.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { fetchProfitAndLossReportFromQb, withValidTokenForLocation } from '@/lib/quickbooks';
+import { normalizeNotionId } from '@/features/report/notion/reports';
+import type { ReportData } from '@/features/report/pdf/types';
+import type { Report, ReportTargetPercentages } from '@/features/report/types';
+import { getTargetPercentagesWithDefaults } from './targetPercentages';
+
+const reportSelect = {
+  id: true,
+  startDate: true,
+  endDate: true,
+  isMonthly: true,
+  accountingMethod: true,
+  targetPercentages: true,
+  createdByName: true,
+  notionUrl: true,
+  createdAt: true,
+  updatedAt: true,
+  location: { select: { code: true } },
+  createdBy: { select: { name: true, email: true } },
+} satisfies Prisma.PnlReportSelect;
+
+type ReportRow = Prisma.PnlReportGetPayload<{ select: typeof reportSelect }>;
+
+function toYmd(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** `YYYY-MM-DD` → the UTC midnight Prisma expects for `@db.Date`. */
+function fromYmd(ymd: string): Date {
+  return new Date(`${ymd}T00:00:00Z`);
+}
+
+function pdfUrlFor(id: string): string {
+  const baseUrl =
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
+  return `${baseUrl}/api/report/${id}/pdf`;
+}
+
+function toReport(row: ReportRow): Report {
+  return {
+    id: row.id,
+    locationCode: row.location.code,
+    startDate: toYmd(row.startDate),
+    endDate: toYmd(row.endDate),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    userName: row.createdBy?.name ?? row.createdBy?.email ?? row.createdByName ?? undefined,
+    notionUrl: row.notionUrl ?? undefined,
+    pdfUrl: pdfUrlFor(row.id),
+    isMonthly: row.isMonthly,
+    accountingMethod: row.accountingMethod === 'Cash' ? 'Cash' : 'Accrual',
+    targetPercentages: (row.targetPercentages ?? undefined) as ReportTargetPercentages | undefined,
+  };
+}
+
+export type SavePnlReportInput = {
+  locationId: string;
+  /** `YYYY-MM-DD` */
+  startDate: string;
+  /** `YYYY-MM-DD` */
+  endDate: string;
+  isMonthly: boolean;
+  accountingMethod: 'Accrual' | 'Cash';
+  /** QuickBooks ProfitAndLoss response; null only for imports that could not be re-fetched. */
+  report: unknown;
+  targetPercentages?: ReportTargetPercentages | null;
+  createdById?: string | null;
+  createdByName?: string | null;
+  createdAt?: Date;
+  notionPageId?: string | null;
+  notionUrl?: string | null;
+};
+
+/** Store a generated report. Targets are saved resolved (defaults filled) so the PDF never changes. */
+export async function savePnlReport(input: SavePnlReportInput): Promise<Report> {
+  const row = await prisma.pnlReport.create({
+    data: {
+      locationId: input.locationId,
+      startDate: fromYmd(input.startDate),
+      endDate: fromYmd(input.endDate),
+      isMonthly: input.isMonthly,
+      accountingMethod: input.accountingMethod,
+      report: input.report == null ? undefined : (input.report as Prisma.InputJsonValue),
+      targetPercentages: getTargetPercentagesWithDefaults(input.targetPercentages),
+      createdById: input.createdById ?? null,
+      createdByName: input.createdByName?.trim() || null,
+      notionPageId: normalizeNotionId(input.notionPageId ?? undefined) ?? null,
+      notionUrl: input.notionUrl ?? null,
+      ...(input.createdAt ? { createdAt: input.createdAt } : {}),
+    },
+    select: reportSelect,
+  });
+  return toReport(row);
+}
+
+/** Record the Notion copy of a report (page created after the report was saved). */
+export async function attachNotionPage(
+  id: string,
+  notion: { notionPageId: string; notionUrl: string | null },
+): Promise<void> {
+  await prisma.pnlReport.update({
+    where: { id },
+    data: {
+      notionPageId: normalizeNotionId(notion.notionPageId) ?? null,
+      notionUrl: notion.notionUrl,
+    },
+  });
+}
+
+export type PnlReportFilter = {
+  locationCode?: string;
+  /** Reports whose period ends on or after this `YYYY-MM-DD`. */
+  from?: string;
+  /** Reports whose period starts on or before this `YYYY-MM-DD`. */
+  to?: string;
+  isMonthly?: boolean;
+};
+
+/** Newest first. `from` / `to` match any report overlapping the range. */
+export async function getPnlReports(filter: PnlReportFilter = {}): Promise<Report[]> {
+  const rows = await prisma.pnlReport.findMany({
+    where: {
+      ...(filter.locationCode ? { location: { code: filter.locationCode.trim() } } : {}),
+      ...(filter.from ? { endDate: { gte: fromYmd(filter.from) } } : {}),
+      ...(filter.to ? { startDate: { lte: fromYmd(filter.to) } } : {}),
+      ...(filter.isMonthly !== undefined ? { isMonthly: filter.isMonthly } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    select: reportSelect,
+  });
+  return rows.map(toReport);
+}
+
+function whereIdOrNotionPage(id: string): Prisma.PnlReportWhereInput {
+  const notionPageId = normalizeNotionId(id);
+  return notionPageId ? { OR: [{ id }, { notionPageId }] } : { id };
+}
+
+export async function getPnlReportById(id: string): Promise<Report | null> {
+  const row = await prisma.pnlReport.findFirst({
+    where: whereIdOrNotionPage(id),
+    select: reportSelect,
+  });
+  return row ? toReport(row) : null;
+}
+
+/**
+ * Report plus the QuickBooks payload to render it. Imports without a stored payload fetch it once from
+ * QuickBooks and keep it, so the next render is offline.
+ */
+export async function getPnlReportForRender(
+  id: string,
+): Promise<{ report: Report; locationName: string; data: ReportData } | null> {
+  const row = await prisma.pnlReport.findFirst({
+    where: whereIdOrNotionPage(id),
+    select: { ...reportSelect, locationId: true, report: true, location: { select: { code: true, name: true } } },
+  });
+  if (!row) return null;
+
+  let data = row.report as ReportData | null;
+  if (!data) {
+    const report = toReport(row);
+    data = (await withValidTokenForLocation(row.locationId, (accessToken, realmId, classId) =>
+      fetchProfitAndLossReportFromQb(
+        realmId,
+        report.startDate,
+        report.endDate,
+        report.accountingMethod ?? 'Accrual',
+        accessToken,
+        classId,
+        row.isMonthly ? 'Month' : undefined,
+      ),
+    )) as ReportData;
+    await prisma.pnlReport.update({
+      where: { id: row.id },
+      data: { report: data as Prisma.InputJsonValue },
+    });
+  }
+  return { report: toReport(row), locationName: row.location.name, data };
+}
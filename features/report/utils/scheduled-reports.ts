@@ -0,0 +1,257 @@
+/**
+ * Scheduled P&L reports: on each schedule's day of month the daily cron renders the monthly PDF
+ * (previous `monthsBack` months) for every location on the schedule and emails it. Each location and
+ * period gets one `ReportScheduleRun`, so a period is never sent twice and failures stay visible
+ * until retried from /report/schedules.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { isSmtpConfigured } from '@/lib/core/mailer';
+import {
+  AppError,
+  isPrismaKnownRequestError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/core/errors';
+import { withValidTokenForLocation, fetchProfitAndLossReportFromQb } from '@/lib/quickbooks';
+import { sendScheduledReportEmail } from '@/lib/report/send-report-email';
+import { formatYearMonth, parseYearMonth, prevMonth } from '@/lib/utils';
+import { generatePDFFromReportData } from '@/features/report/pdf';
+import type { ReportData } from '@/features/report/pdf/types';
+import type {
+  ReportScheduleRow,
+  ReportScheduleRunRow,
+  ReportScheduleRunStatus,
+} from '@/features/report/types';
+
+/** A run still `running` after this long is treated as crashed and may be retried. */
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+const RECENT_RUNS_LIMIT = 100;
+
+/** The `monthsBack` months ending with the month before `today`, as `YYYY-MM`. */
+export function reportSchedulePeriod(
+  monthsBack: number,
+  today: Date = new Date(),
+): { startMonth: string; endMonth: string } {
+  const endMonth = prevMonth(today.getFullYear(), today.getMonth());
+  let startMonth = endMonth;
+  for (let i = 1; i < monthsBack; i++) {
+    const { year, month } = parseYearMonth(startMonth);
+    startMonth = prevMonth(year, month);
+  }
+  return { startMonth, endMonth };
+}
+
+function periodLabel(startMonth: string, endMonth: string): string {
+  return startMonth === endMonth ? endMonth : `${startMonth} to ${endMonth}`;
+}
+
+function lastDayOfMonth(yearMonth: string): string {
+  const { year, month } = parseYearMonth(yearMonth);
+  const day = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return `${formatYearMonth(year, month)}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Monthly-mode P&L PDF for one location, same QuickBooks request and renderer as the on-demand
+ * monthly report (accrual basis, default targets).
+ */
+export async function renderMonthlyPnlPdf(
+  location: { id: string; code: string; name: string | null },
+  startMonth: string,
+  endMonth: string,
+): Promise<{ filename: string; content: Buffer }> {
+  const startDate = `${startMonth}-01`;
+  const endDate = lastDayOfMonth(endMonth);
+  const reportData = await withValidTokenForLocation(location.id, (accessToken, realmId, classId) =>
+    fetchProfitAndLossReportFromQb(
+      realmId,
+      startDate,
+      endDate,
+      'Accrual',
+      accessToken,
+      classId,
+      'Month',
+    ),
+  );
+  const pdfBytes = generatePDFFromReportData(
+    reportData as ReportData,
+    startDate,
+    endDate,
+    location.name ?? null,
+  );
+  return {
+    filename: `${location.code}_Monthly_P&L_Report_${startDate}_${endDate}.pdf`,
+    content: Buffer.from(pdfBytes),
+  };
+}
+
+const runInclude = {
+  schedule: { select: { name: true, recipients: true } },
+  location: { select: { id: true, code: true, name: true } },
+} satisfies Prisma.ReportScheduleRunInclude;
+
+type RunWithContext = Prisma.ReportScheduleRunGetPayload<{ include: typeof runInclude }>;
+
+/** Render and send one run, then record the outcome. Never throws; returns the final status. */
+async function executeRun(run: RunWithContext): Promise<ReportScheduleRunStatus> {
+  const recipients = run.schedule.recipients;
+  try {
+    if (recipients.length === 0) throw new Error('The schedule has no recipients');
+    const pdf = await renderMonthlyPnlPdf(run.location, run.startMonth, run.endMonth);
+    await sendScheduledReportEmail({
+      to: recipients,
+      scheduleName: run.schedule.name,
+      locationLabel: run.location.name
+        ? `${run.location.code} — ${run.location.name}`
+        : run.location.code,
+      periodLabel: periodLabel(run.startMonth, run.endMonth),
+      pdf,
+    });
+    await prisma.reportScheduleRun.update({
+      where: { id: run.id },
+      data: { status: 'success', error: null, recipients, finishedAt: new Date() },
+    });
+    return 'success';
+  } catch (err) {
+    console.error(`[report schedules] Run ${run.id} failed:`, err);
+    await prisma.reportScheduleRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+        recipients,
+        finishedAt: new Date(),
+      },
+    });
+    return 'failed';
+  }
+}
+
+export type RunReportSchedulesResult = {
+  /** Set when nothing was sent (SMTP missing). */
+  skipped?: string;
+  schedules: number;
+  sent: number;
+  failed: number;
+};
+
+/**
+ * Start a run for every active schedule whose day has come this month and every location that has
+ * no run for the period yet. Schedules created or enabled after their day catch up the same month.
+ */
+export async function runDueReportSchedules(today: Date = new Date()): Promise<RunReportSchedulesResult> {
+  const result: RunReportSchedulesResult = { schedules: 0, sent: 0, failed: 0 };
+  if (!isSmtpConfigured()) return { ...result, skipped: 'SMTP is not configured' };
+
+  const schedules = await prisma.reportSchedule.findMany({
+    where: { isActive: true, dayOfMonth: { lte: today.getDate() } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, monthsBack: true, locations: { select: { locationId: true } } },
+  });
+
+  for (const schedule of schedules) {
+    result.schedules++;
+    const { startMonth, endMonth } = reportSchedulePeriod(schedule.monthsBack, today);
+    const existing = await prisma.reportScheduleRun.findMany({
+      where: { scheduleId: schedule.id, endMonth },
+      select: { locationId: true },
+    });
+    const done = new Set(existing.map((r) => r.locationId));
+
+    for (const { locationId } of schedule.locations) {
+      if (done.has(locationId)) continue;
+      let run: RunWithContext;
+      try {
+        run = await prisma.reportScheduleRun.create({
+          data: { scheduleId: schedule.id, locationId, startMonth, endMonth },
+          include: runInclude,
+        });
+      } catch (err) {
+        // Another invocation claimed this location and period first.
+        if (isPrismaKnownRequestError(err) && err.code === 'P2002') {
+          continue;
+        }
+        throw err;
+      }
+      const status = await executeRun(run);
+      if (status === 'success') result.sent++;
+      else result.failed++;
+    }
+  }
+  return result;
+}
+
+/** Re-send a failed (or crashed) run with the schedule's current recipients. */
+export async function retryReportScheduleRun(runId: string): Promise<ReportScheduleRunStatus> {
+  if (!isSmtpConfigured()) {
+    throw new AppError('SMTP is not configured', 'SMTP_NOT_CONFIGURED', undefined, 400);
+  }
+  const run = await prisma.reportScheduleRun.findUnique({ where: { id: runId } });
+  if (!run) throw new NotFoundError('Report run', runId);
+  const stale = run.startedAt.getTime() < Date.now() - STALE_RUN_MS;
+  if (run.status === 'success' || (run.status === 'running' && !stale)) {
+    throw new ValidationError(`This run is already ${run.status === 'success' ? 'sent' : 'in progress'}`);
+  }
+
+  const claimed = await prisma.reportScheduleRun.update({
+    where: { id: runId, status: run.status },
+    data: {
+      status: 'running',
+      error: null,
+      attempts: { increment: 1 },
+      startedAt: new Date(),
+      finishedAt: null,
+    },
+    include: runInclude,
+  });
+  return executeRun(claimed);
+}
+
+/** Schedules and their most recent runs for the /report/schedules page. */
+export async function getReportSchedulesData(): Promise<{
+  schedules: ReportScheduleRow[];
+  runs: ReportScheduleRunRow[];
+}> {
+  const [schedules, runs] = await Promise.all([
+    prisma.reportSchedule.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { locations: { select: { locationId: true } } },
+    }),
+    prisma.reportScheduleRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: RECENT_RUNS_LIMIT,
+      include: {
+        schedule: { select: { name: true } },
+        location: { select: { code: true } },
+      },
+    }),
+  ]);
+  return {
+    schedules: schedules.map((s) => ({
+      id: s.id,
+      name: s.name,
+      dayOfMonth: s.dayOfMonth,
+      monthsBack: s.monthsBack,
+      recipients: s.recipients,
+      isActive: s.isActive,
+      locationIds: s.locations.map((l) => l.locationId),
+    })),
+    runs: runs.map((r) => ({
+      id: r.id,
+      scheduleId: r.scheduleId,
+      scheduleName: r.schedule.name,
+      locationCode: r.location.code,
+      startMonth: r.startMonth,
+      endMonth: r.endMonth,
+      status: r.status as ReportScheduleRunStatus,
+      error: r.error,
+      recipients: r.recipients,
+      attempts: r.attempts,
+      startedAt: r.startedAt.toISOString(),
+      finishedAt: r.finishedAt?.toISOString() ?? null,
+    })),
+  };
+}
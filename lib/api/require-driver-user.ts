@@ -0,0 +1,48 @@
+import { auth, requireActiveSession } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+
+/**
+ * Active session + a `Driver` row for the signed-in user, for the driver
+ * proof-of-delivery APIs (`/api/order/driver/*`). Drivers are identified by
+ * `Driver.userId`, not by role.
+ */
+export async function requireDriverUser(): Promise<
+  | { ok: true; session: Session; driverId: string }
+  | { ok: false; response: NextResponse }
+> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 },
+      ),
+    };
+  }
+  if (!requireActiveSession(session)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Active session required' },
+        { status: 403 },
+      ),
+    };
+  }
+  const driver = await prisma.driver.findUnique({
+    where: { userId: session.user.id },
+    select: { id: true },
+  });
+  if (!driver) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Driver access required' },
+        { status: 403 },
+      ),
+    };
+  }
+  return { ok: true, session: session as Session, driverId: driver.id };
+}
@@ -0,0 +1,46 @@
+import { auth, getIsManager, requireActiveSession } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+
+/**
+ * Active session + `role = manager` with a `User.locationId` for the store
+ * ordering APIs (`/api/order/location/*`).
+ */
+export async function requireLocationManager(): Promise<
+  | { ok: true; session: Session; locationId: string }
+  | { ok: false; response: NextResponse }
+> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 },
+      ),
+    };
+  }
+  if (!requireActiveSession(session)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Active session required' },
+        { status: 403 },
+      ),
+    };
+  }
+  if (!getIsManager(session.user.role) || !session.user.locationId) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Location manager access required' },
+        { status: 403 },
+      ),
+    };
+  }
+  return {
+    ok: true,
+    session: session as Session,
+    locationId: session.user.locationId,
+  };
+}
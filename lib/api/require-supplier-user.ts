@@ -0,0 +1,57 @@
+import { auth, requireActiveSession } from '@/lib/auth';
+import { prisma } from '@/lib/core/prisma';
+import { NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+
+/**
+ * Active session + `role = supplier` + a linked `User.supplierId` for the
+ * supplier portal APIs (`/api/order/supplier-portal/*`). The supplier link is
+ * read from the DB (not the JWT) so office re-assignments apply immediately.
+ */
+export async function requireSupplierUser(): Promise<
+  | { ok: true; session: Session; supplierId: string }
+  | { ok: false; response: NextResponse }
+> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 },
+      ),
+    };
+  }
+  if (!requireActiveSession(session)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Active session required' },
+        { status: 403 },
+      ),
+    };
+  }
+  if (session.user.role !== 'supplier') {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Supplier access required' },
+        { status: 403 },
+      ),
+    };
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { supplierId: true },
+  });
+  if (!user?.supplierId) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'No supplier is linked to this account' },
+        { status: 403 },
+      ),
+    };
+  }
+  return { ok: true, session: session as Session, supplierId: user.supplierId };
+}
@@ -7,9 +7,13 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import {
   assertSupplierOrderChannel,
+  looseContactEmailsFromRaw,
   supplierOrderChannelTypeSchema,
 } from '@/lib/order/supplier-order-channel';
 import { parseSupplierDeliverySchedule } from '@/lib/order/supplier-delivery-schedule';
+import { INVENTORY_ADJUSTMENT_REASONS } from '@/features/order/inventory/types';
+import { SUPPLIER_INVOICE_STATUSES } from '@/features/order/invoices/types';
+import { QUICKBOOKS_ITEM_MAPPING_KINDS } from '@/features/order/quickbooks/types';
 
 const yearMonthSchema = z
   .string()
@@ -95,6 +99,103 @@ export const laborTargetPatchSchema = z.object({
   laborReferencePeriodMonths: z.number().int().min(0).max(24).optional(),
 });
 
+/** PUT /api/dashboard/labor/staffing/[locationId]/settings */
+export const laborStaffingSettingsPutSchema = z.object({
+  hourlyWage: z.number().positive().max(1000),
+});
+
+/** Shift bound, local "HH:MM"; "24:00" allowed as a closing time. */
+const laborShiftTimeSchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Use HH:MM');
+
+/** PUT /api/dashboard/labor/staffing/[locationId]/roster — replaces the whole weekly roster */
+export const laborRosterPutSchema = z.object({
+  shifts: z
+    .array(
+      z
+        .object({
+          dayOfWeek: z.number().int().min(0).max(6),
+          startTime: laborShiftTimeSchema,
+          endTime: laborShiftTimeSchema,
+          headcount: z.number().int().min(1).max(50),
+          label: z
+            .string()
+            .transform((s) => s.trim() || null)
+            .nullish(),
+        })
+        .refine((s) => s.endTime > s.startTime, {
+          message: 'Shift must end after it starts (no overnight shifts)',
+          path: ['endTime'],
+        }),
+    )
+    .max(500),
+});
+
+const laborCategoryNameSchema = z.string().trim().min(1, 'Name is required').max(60);
+
+/** POST /api/dashboard/labor/categories */
+export const laborCategoryPostSchema = z.object({
+  name: laborCategoryNameSchema,
+});
+
+/** PATCH /api/dashboard/labor/categories/[id] */
+export const laborCategoryPatchSchema = z.object({
+  name: laborCategoryNameSchema,
+});
+
+/** PUT /api/dashboard/labor/mapping/[realmId] — categoryId null drops the mapping (regex fallback) */
+export const laborAccountMappingPutSchema = z.object({
+  mappings: z
+    .array(
+      z.object({
+        accountName: z.string().min(1),
+        categoryId: z.string().min(1).nullable(),
+      }),
+    )
+    .min(1)
+    .max(500),
+});
+
+/** PUT /api/dashboard/menu/[locationId]/recipes — map a Clover item to a recipe (costId null unmaps) */
+export const cloverItemRecipePutSchema = z.object({
+  itemKey: z.string().min(1),
+  itemName: z.string().min(1),
+  costId: z.string().min(1).nullable(),
+  portions: z.number().positive().max(100).default(1),
+});
+
+/** Comma / newline separated addresses; invalid entries are dropped, at least one must remain. */
+const reportRecipientsSchema = z
+  .string()
+  .max(2000)
+  .transform((raw) => looseContactEmailsFromRaw(raw))
+  .refine((list) => list.length > 0, { message: 'Add at least one valid recipient email' });
+
+const reportScheduleFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  dayOfMonth: z.number().int().min(1).max(28, 'Day of month must be between 1 and 28'),
+  monthsBack: z.number().int().min(1).max(3, 'Reports cover 1 to 3 months'),
+  locationIds: z.array(z.string().min(1)).min(1, 'Select at least one location').max(100),
+  recipients: reportRecipientsSchema,
+  isActive: z.boolean(),
+};
+
+/** POST /api/report/schedules */
+export const reportSchedulePostSchema = z.object({
+  ...reportScheduleFields,
+  monthsBack: reportScheduleFields.monthsBack.default(1),
+  isActive: reportScheduleFields.isActive.default(true),
+});
+
+/** PATCH /api/report/schedules/[id] */
+export const reportSchedulePatchSchema = z
+  .object(reportScheduleFields)
+  .partial()
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: 'Provide at least one field to update',
+  });
+
 /** POST /api/dashboard/budget/bulk — bulk update budgets in a year-month range */
 export const budgetBulkPatchSchema = z
   .object({
@@ -117,6 +218,12 @@ export const budgetBulkPatchSchema = z
     path: ['toYearMonth'],
   });
 
+/** Alert thresholds in % of budget, e.g. [80, 100]; sorted and de-duplicated. */
+const budgetAlertThresholdsSchema = z
+  .array(z.number().int().min(1).max(500))
+  .max(5, 'Use at most 5 thresholds')
+  .transform((list) => [...new Set(list)].sort((a, b) => a - b));
+
 /** PATCH /api/dashboard/budget/settings */
 export const budgetSettingsPatchSchema = z
   .object({
@@ -131,12 +238,18 @@ export const budgetSettingsPatchSchema = z
       .min(0)
       .max(24, 'referencePeriodMonths must be between 1 and 24')
       .optional(),
+    alertsEnabled: z.boolean().optional(),
+    alertCosThresholds: budgetAlertThresholdsSchema.optional(),
+    alertLaborThresholds: budgetAlertThresholdsSchema.optional(),
+    alertRecipients: z
+      .string()
+      .max(2000)
+      .nullish()
+      .transform((s) => (s === undefined ? undefined : s?.trim() || null)),
   })
-  .refine(
-    (data) =>
-      data.budgetRate !== undefined || data.referencePeriodMonths !== undefined,
-    { message: 'Provide budgetRate and/or referencePeriodMonths' },
-  );
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: 'Provide at least one setting to update',
+  });
 
 /** PATCH /api/user/[id] */
 export const userPatchSchema = z.object({
@@ -145,11 +258,13 @@ export const userPatchSchema = z.object({
     .min(0)
     .transform((s) => s.trim())
     .optional(),
-  role: z.enum(['admin', 'office', 'manager', 'supply']).optional(),
+  role: z.enum(['admin', 'office', 'manager', 'supply', 'supplier']).optional(),
   status: z
     .enum(['pending_onboarding', 'pending_approval', 'active', 'rejected'])
     .optional(),
   locationId: z.string().nullable().optional(),
+  /** `order.suppliers.id` for supplier-portal users (`role = supplier`). */
+  supplierId: z.string().nullable().optional(),
 });
 
 /** POST /api/location */
@@ -205,6 +320,10 @@ export type BudgetPostBody = z.infer<typeof budgetPostSchema>;
 export type BudgetPatchBody = z.infer<typeof budgetPatchSchema>;
 export type BudgetBulkPatchBody = z.infer<typeof budgetBulkPatchSchema>;
 export type BudgetSettingsPatchBody = z.infer<typeof budgetSettingsPatchSchema>;
+export type LaborRosterPutBody = z.infer<typeof laborRosterPutSchema>;
+export type LaborAccountMappingPutBody = z.infer<typeof laborAccountMappingPutSchema>;
+export type ReportSchedulePostBody = z.infer<typeof reportSchedulePostSchema>;
+export type ReportSchedulePatchBody = z.infer<typeof reportSchedulePatchSchema>;
 export type UserPatchBody = z.infer<typeof userPatchSchema>;
 export type LocationPostBody = z.infer<typeof locationPostSchema>;
 export type LocationPatchBody = z.infer<typeof locationPatchSchema>;
@@ -212,6 +331,12 @@ export type LocationPatchBody = z.infer<typeof locationPatchSchema>;
 // ===============================
 // DELIVERY
 // ===============================
+/** Delivery window bound, local "HH:MM"; null clears it. */
+const deliveryWindowTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM')
+  .nullish();
+
 /** POST /api/delivery/location */
 export const deliveryLocationPostSchema = z.object({
   name: z
@@ -225,6 +350,8 @@ export const deliveryLocationPostSchema = z.object({
   lat: z.number().optional(),
   lng: z.number().optional(),
   locationId: z.string().nullish(),
+  windowStart: deliveryWindowTimeSchema,
+  windowEnd: deliveryWindowTimeSchema,
 });
 /** PATCH /api/delivery/location/[id] */
 export const deliveryLocationPatchSchema = z.object({
@@ -240,6 +367,8 @@ export const deliveryLocationPatchSchema = z.object({
   lat: z.number().optional(),
   lng: z.number().optional(),
   locationId: z.string().nullish(),
+  windowStart: deliveryWindowTimeSchema,
+  windowEnd: deliveryWindowTimeSchema,
 });
 
 /** POST /api/delivery/driver */
@@ -272,6 +401,8 @@ const fixedScheduleStopSchema = z.object({
   address: z.string().optional(),
   lat: z.number().optional(),
   lng: z.number().optional(),
+  plannedStart: deliveryWindowTimeSchema,
+  plannedEnd: deliveryWindowTimeSchema,
   tasks: z.array(z.object({ title: z.string().min(1) })).default([]),
 });
 export const deliveryFixedScheduleTemplatePutSchema = z.object({
@@ -291,6 +422,8 @@ export const deliveryDailySchedulePostSchema = z.object({
       address: z.string().optional(),
       lat: z.number().optional(),
       lng: z.number().optional(),
+      plannedStart: deliveryWindowTimeSchema,
+      plannedEnd: deliveryWindowTimeSchema,
       tasks: z.array(z.object({ title: z.string().min(1) })).default([]),
     }),
   ),
@@ -313,6 +446,9 @@ export const deliveryDailySchedulePatchSchema = z.object({
         address: z.string().optional(),
         lat: z.number().optional(),
         lng: z.number().optional(),
+        /** Omitted = keep the stop's current planned window. */
+        plannedStart: deliveryWindowTimeSchema,
+        plannedEnd: deliveryWindowTimeSchema,
         tasks: z.array(
           z.object({
             id: z.string().optional(),
@@ -748,6 +884,8 @@ export const deliveryLocationPresetCreateSchema = z.object({
   country: z.string().trim().optional().default('CA'),
   lat: z.number().finite().optional().nullable(),
   lng: z.number().finite().optional().nullable(),
+  /** Hub `ShopifyCustomer.id` store orders from linked locations are placed against. */
+  shopifyCustomerId: z.string().trim().min(1).optional().nullable(),
 });
 
 export const deliveryLocationPresetPatchSchema = z.object({
@@ -762,6 +900,7 @@ export const deliveryLocationPresetPatchSchema = z.object({
   country: z.string().trim().optional().nullable(),
   lat: z.number().finite().optional().nullable(),
   lng: z.number().finite().optional().nullable(),
+  shopifyCustomerId: z.string().trim().min(1).optional().nullable(),
 });
 
 export type DeliveryLocationPresetCreateBody = z.infer<
@@ -782,6 +921,8 @@ export const receiveLineItemsSchema = z.object({
       }),
     )
     .min(1),
+  /** Inventory location the goods arrived at; defaults from the PO's ship-to preset. */
+  locationId: z.string().min(1).optional(),
 });
 
 export type ReceiveLineItemsBody = z.infer<typeof receiveLineItemsSchema>;
@@ -825,6 +966,221 @@ export type ShopifyOrdersOfficePendingPostBody = z.infer<
   typeof shopifyOrdersOfficePendingPostSchema
 >;
 
+// ─── Location (store manager) ordering ──────────────────────────────────────
+
+/** POST /api/order/location/orders */
+export const locationOrderCreateSchema = z.object({
+  lineItems: z
+    .array(
+      z.object({
+        variantGid: z.string().trim().min(1),
+        quantity: z.number().int().min(1),
+      }),
+    )
+    .min(1, 'Add at least one item')
+    .max(100),
+  note: z.string().trim().max(2000).optional().nullable(),
+});
+
+export type LocationOrderCreateBody = z.infer<typeof locationOrderCreateSchema>;
+
+// ─── Supplier portal ─────────────────────────────────────────────────────────
+
+/** POST /api/order/supplier-portal/purchase-orders/[id]/responses */
+export const supplierPortalResponseCreateSchema = z
+  .object({
+    acknowledged: z.boolean().optional().default(false),
+    proposedExpectedDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+      .optional()
+      .nullable(),
+    proposedLineQuantities: z
+      .array(
+        z.object({
+          lineItemId: z.string().min(1),
+          quantity: z.number().int().min(0),
+        }),
+      )
+      .optional()
+      .default([]),
+    note: z.string().trim().max(4000).optional().nullable(),
+  })
+  .refine(
+    (d) =>
+      d.acknowledged ||
+      Boolean(d.proposedExpectedDate) ||
+      d.proposedLineQuantities.length > 0 ||
+      Boolean(d.note),
+    { message: 'Acknowledge the PO or propose a change' },
+  );
+
+/** PATCH /api/order/purchase-orders/[id]/supplier-responses/[responseId] */
+export const supplierResponseReviewSchema = z.object({
+  status: z.enum(['accepted', 'declined']),
+});
+
+export type SupplierPortalResponseCreateBody = z.infer<
+  typeof supplierPortalResponseCreateSchema
+>;
+export type SupplierResponseReviewBody = z.infer<
+  typeof supplierResponseReviewSchema
+>;
+
+// ─── Driver proof of delivery ────────────────────────────────────────────────
+
+/** POST /api/order/driver/fulfillments — picked up */
+export const driverPickupSchema = z.object({
+  stopId: z.string().min(1),
+  shopifyOrderId: z.string().min(1),
+});
+
+/** POST /api/order/driver/fulfillments/[id]/deliver */
+export const driverDeliverSchema = z
+  .object({
+    lineItems: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          deliveredQuantity: z.number().int().min(0),
+        }),
+      )
+      .min(1),
+    recipientName: z.string().trim().max(200).optional().nullable(),
+    /** PNG data URL from the signature pad (~500 KB cap). */
+    signatureImage: z
+      .string()
+      .regex(/^data:image\/png;base64,/, 'Signature must be a PNG data URL')
+      .max(700_000)
+      .optional()
+      .nullable(),
+    notes: z.string().trim().max(2000).optional().nullable(),
+  })
+  .refine((d) => Boolean(d.recipientName) || Boolean(d.signatureImage), {
+    message: 'Enter the recipient name or capture a signature',
+  });
+
+export type DriverPickupBody = z.infer<typeof driverPickupSchema>;
+export type DriverDeliverBody = z.infer<typeof driverDeliverSchema>;
+
+// ─── Inventory ───────────────────────────────────────────────────────────────
+
+/** POST /api/order/inventory/adjustments — set a counted quantity with a reason */
+export const inventoryAdjustmentSchema = z.object({
+  locationId: z.string().min(1),
+  variantGid: z.string().min(1),
+  countedQuantity: z.number().int().min(0),
+  reason: z.enum(INVENTORY_ADJUSTMENT_REASONS),
+  note: z.string().trim().max(2000).optional().nullable(),
+  productTitle: z.string().trim().max(500).optional().nullable(),
+  variantTitle: z.string().trim().max(500).optional().nullable(),
+  sku: z.string().trim().max(200).optional().nullable(),
+});
+
+export type InventoryAdjustmentBody = z.infer<typeof inventoryAdjustmentSchema>;
+
+/** PUT /api/order/inventory/par-levels — set (or replace) a variant's par level at a location */
+export const inventoryParLevelSchema = z
+  .object({
+    locationId: z.string().min(1),
+    variantGid: z.string().min(1),
+    supplierId: z.string().min(1, 'Supplier is required'),
+    parLevel: z.number().int().min(1, 'Par level must be at least 1'),
+    reorderPoint: z.number().int().min(0),
+    productTitle: z.string().trim().max(500).optional().nullable(),
+    variantTitle: z.string().trim().max(500).optional().nullable(),
+    sku: z.string().trim().max(200).optional().nullable(),
+  })
+  .refine((d) => d.reorderPoint < d.parLevel, {
+    message: 'Reorder point must be below the par level',
+    path: ['reorderPoint'],
+  });
+
+export type InventoryParLevelBody = z.infer<typeof inventoryParLevelSchema>;
+
+// ─── Supplier invoices ───────────────────────────────────────────────────────
+
+const supplierInvoiceLineSchema = z.object({
+  purchaseOrderLineItemId: z.string().min(1).optional().nullable(),
+  sku: z.string().trim().max(200).optional().nullable(),
+  description: z.string().trim().max(500).optional().nullable(),
+  quantity: z.number().int().min(0),
+  unitPrice: z.number().min(0),
+});
+
+/** POST /api/order/supplier-invoices — enter an invoice against one or more POs */
+export const supplierInvoiceCreateSchema = z.object({
+  supplierId: z.string().min(1, 'Supplier is required'),
+  invoiceNumber: z.string().trim().min(1, 'Invoice number is required').max(100),
+  invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+    .optional()
+    .nullable(),
+  currency: z.string().trim().length(3).default('CAD'),
+  subtotal: z.number().min(0).optional().nullable(),
+  tax: z.number().min(0).optional().nullable(),
+  shipping: z.number().min(0).optional().nullable(),
+  total: z.number().min(0).optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  purchaseOrderIds: z.array(z.string().min(1)).min(1, 'Link at least one PO'),
+  lines: z.array(supplierInvoiceLineSchema).min(1, 'Add at least one line'),
+});
+
+/** PATCH /api/order/supplier-invoices/[id] — approve, dispute or reopen */
+export const supplierInvoicePatchSchema = z
+  .object({
+    status: z.enum(SUPPLIER_INVOICE_STATUSES),
+    disputeNote: z.string().trim().max(2000).optional().nullable(),
+  })
+  .refine((d) => d.status !== 'disputed' || !!d.disputeNote, {
+    message: 'Describe the dispute',
+    path: ['disputeNote'],
+  });
+
+export type SupplierInvoiceCreateBody = z.infer<typeof supplierInvoiceCreateSchema>;
+export type SupplierInvoicePatchBody = z.infer<typeof supplierInvoicePatchSchema>;
+
+// ─── QuickBooks bills ────────────────────────────────────────────────────────
+
+/** PUT /api/order/quickbooks/mappings/vendors — supplier → QuickBooks vendor for one company */
+export const quickBooksVendorMappingSchema = z.object({
+  realmId: z.string().min(1),
+  supplierId: z.string().min(1),
+  qbVendorId: z.string().trim().min(1, 'Choose a QuickBooks vendor'),
+  qbVendorName: z.string().trim().max(500).optional().nullable(),
+  defaultAccountId: z.string().trim().min(1).optional().nullable(),
+  defaultAccountName: z.string().trim().max(500).optional().nullable(),
+});
+
+/** PUT /api/order/quickbooks/mappings/items — PO line SKU → QuickBooks item or expense account */
+export const quickBooksItemMappingSchema = z.object({
+  realmId: z.string().min(1),
+  sku: z.string().trim().min(1, 'SKU is required').max(200),
+  kind: z.enum(QUICKBOOKS_ITEM_MAPPING_KINDS),
+  qbRefId: z.string().trim().min(1, 'Choose a QuickBooks item or account'),
+  qbRefName: z.string().trim().max(500).optional().nullable(),
+});
+
+/** POST /api/order/purchase-orders/[id]/quickbooks-bill */
+export const quickBooksBillPushSchema = z.object({
+  locationId: z.string().min(1).optional().nullable(),
+});
+
+export type QuickBooksVendorMappingBody = z.infer<typeof quickBooksVendorMappingSchema>;
+export type QuickBooksItemMappingBody = z.infer<typeof quickBooksItemMappingSchema>;
+
+// ─── Purchase price alerts ───────────────────────────────────────────────────
+
+/** PUT /api/order/purchase-price-alerts/settings */
+export const purchasePriceAlertSettingsSchema = z.object({
+  thresholdPercent: z
+    .number()
+    .positive('Threshold must be above 0%')
+    .max(1000, 'Threshold must be 1000% or less'),
+});
+
 // ─── parseBody ────────────────────────────────────────────────────────────────
 
 /**
@@ -0,0 +1,64 @@
+import { prisma } from '@/lib/core/prisma';
+import { Prisma } from '@prisma/client';
+import {
+  AUDIT_ENTITY_TYPES,
+  type AuditEntityType,
+} from '@/features/audit/types';
+
+export { AUDIT_ENTITY_TYPES, type AuditEntityType };
+
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'approved'
+  | 'rejected';
+
+export type LogAuditInput = {
+  entityType: AuditEntityType;
+  entityId: string;
+  /** Human label shown in the Audit page (PO number, supplier company, …). */
+  entityLabel?: string | null;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+  /** `session.user.id` of the hub user who made the change. */
+  actorId: string | null | undefined;
+  /** Usually `auditRouteFromRequest(request)`. */
+  route?: string | null;
+};
+
+/** `PUT /api/order/purchase-orders/abc` — method + path, no query string. */
+export function auditRouteFromRequest(request: Request): string {
+  return `${request.method} ${new URL(request.url).pathname}`;
+}
+
+/**
+ * JSON-safe copy of a Prisma row (Decimal → string, Date → ISO). `undefined` / `null` → DB null.
+ */
+function toAuditJson(
+  value: unknown,
+): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (value === undefined || value === null) return Prisma.DbNull;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+export async function logAudit(input: LogAuditInput): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        entityType: input.entityType,
+        entityId: input.entityId,
+        entityLabel: input.entityLabel ?? null,
+        action: input.action,
+        before: toAuditJson(input.before),
+        after: toAuditJson(input.after),
+        actorId: input.actorId || null,
+        route: input.route ?? null,
+      },
+    });
+  } catch (e) {
+    // Non-fatal: don't fail the request on audit write errors
+    console.error('[audit] Failed to write audit log', e);
+  }
+}
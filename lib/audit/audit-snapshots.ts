@@ -0,0 +1,191 @@
+import { prisma } from '@/lib/core/prisma';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Field picks stored as `before` / `after` in `audit.audit_logs`. Kept small so the
+ * Audit page diff only shows what an office user can actually change.
+ */
+
+type BudgetLike = {
+  locationId: string;
+  yearMonth: string;
+  totalAmount: Prisma.Decimal | number;
+  budgetRateUsed: Prisma.Decimal | number | null;
+  referencePeriodMonthsUsed: number | null;
+  error?: string | null;
+};
+
+export function budgetAuditSnapshot(budget: BudgetLike | null | undefined) {
+  if (!budget) return null;
+  return {
+    locationId: budget.locationId,
+    yearMonth: budget.yearMonth,
+    totalAmount: Number(budget.totalAmount),
+    budgetRateUsed:
+      budget.budgetRateUsed != null ? Number(budget.budgetRateUsed) : null,
+    referencePeriodMonthsUsed: budget.referencePeriodMonthsUsed,
+    error: budget.error ?? null,
+  };
+}
+
+export async function findBudgetAuditSnapshot(
+  locationId: string,
+  yearMonth: string,
+) {
+  const budget = await prisma.budget.findUnique({
+    where: { locationId_yearMonth: { locationId, yearMonth } },
+  });
+  return budgetAuditSnapshot(budget);
+}
+
+export async function findSupplierAuditSnapshot(id: string) {
+  return prisma.supplier.findUnique({
+    where: { id },
+    select: {
+      company: true,
+      officePoSupplierCode: true,
+      shopifyVendorName: true,
+      groupId: true,
+      contactName: true,
+      contactEmails: true,
+      link: true,
+      isFavorite: true,
+      orderChannelType: true,
+      orderChannelPayload: true,
+      deliverySchedule: true,
+      vendorMappings: {
+        select: { vendorName: true, shopifyLocationGid: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
+
+export async function findPurchaseOrderAuditSnapshot(id: string) {
+  return prisma.purchaseOrder.findUnique({
+    where: { id },
+    select: {
+      poNumber: true,
+      status: true,
+      supplierId: true,
+      currency: true,
+      expectedDate: true,
+      comment: true,
+      completedAt: true,
+      receivedAt: true,
+      emailDeliveryWaivedAt: true,
+      shippingAddress: true,
+      billingAddress: true,
+      billingSameAsShipping: true,
+      deliveryLocationPresetId: true,
+      qbBillId: true,
+      lineItems: {
+        orderBy: { sequence: 'asc' },
+        select: {
+          id: true,
+          sku: true,
+          productTitle: true,
+          variantTitle: true,
+          quantity: true,
+          quantityReceived: true,
+          itemPrice: true,
+          note: true,
+        },
+      },
+    },
+  });
+}
+
+export async function findSupplierInvoiceAuditSnapshot(id: string) {
+  return prisma.supplierInvoice.findUnique({
+    where: { id },
+    select: {
+      supplierId: true,
+      invoiceNumber: true,
+      invoiceDate: true,
+      dueDate: true,
+      currency: true,
+      tax: true,
+      shipping: true,
+      total: true,
+      status: true,
+      disputeNote: true,
+      notes: true,
+      purchaseOrders: { select: { purchaseOrderId: true } },
+      lines: {
+        orderBy: { sequence: 'asc' },
+        select: {
+          purchaseOrderLineItemId: true,
+          sku: true,
+          description: true,
+          quantity: true,
+          unitPrice: true,
+        },
+      },
+    },
+  });
+}
+
+/** Daily schedules have no table of their own; snapshot the stops (+ tasks) for one driver/date. */
+export async function findDailyScheduleAuditSnapshot(
+  dateOnly: Date,
+  driverId: string,
+) {
+  const stops = await prisma.dailyScheduleStop.findMany({
+    where: { date: dateOnly, driverId },
+    orderBy: { sequence: 'asc' },
+    select: {
+      id: true,
+      sequence: true,
+      name: true,
+      address: true,
+      deliveryLocationId: true,
+      tasks: {
+        orderBy: { sequence: 'asc' },
+        select: { id: true, title: true, completedAt: true, isDismissed: true },
+      },
+    },
+  });
+  return stops.length > 0 ? { stops } : null;
+}
+
+/** Weekdays (0 = Sunday) a driver is on the fixed schedule; one audit entity per driver. */
+export async function findDriverFixedScheduleAuditSnapshot(driverId: string) {
+  const rows = await prisma.driverFixedSchedule.findMany({
+    where: { driverId },
+    orderBy: { dayOfWeek: 'asc' },
+    select: { dayOfWeek: true },
+  });
+  return rows.length > 0 ? { daysOfWeek: rows.map((r) => r.dayOfWeek) } : null;
+}
+
+export async function findDriverAuditLabel(driverId: string): Promise<string> {
+  const driver = await prisma.driver.findUnique({
+    where: { id: driverId },
+    select: { user: { select: { name: true, email: true } } },
+  });
+  return driver?.user.name ?? driver?.user.email ?? driverId;
+}
+
+export async function findUserAuditSnapshot(id: string) {
+  return prisma.user.findUnique({
+    where: { id },
+    select: {
+      name: true,
+      email: true,
+      role: true,
+      status: true,
+      locationId: true,
+      supplierId: true,
+      rejectReason: true,
+      permittedById: true,
+    },
+  });
+}
+
+export async function findDailyScheduleAuditLabel(
+  dateStr: string,
+  driverId: string,
+): Promise<string> {
+  return `${dateStr} · ${await findDriverAuditLabel(driverId)}`;
+}
@@ -1,4 +1,4 @@
-import { cloverFetch } from './clover-fetch';
+import { cloverFetch, sleepBetweenCloverPages } from './clover-fetch';
 import { getCloverApiBaseUrl } from './config';
 
 export type CloverCategory = {
@@ -57,3 +57,43 @@ export function findSeasonalCategory(
 ): CloverCategory | undefined {
   return categories.find((c) => SEASONAL_KEYWORDS.test(c.name));
 }
+
+type ItemsWithCategoriesResponse = {
+  elements?: { id?: string; categories?: { elements?: { name?: string }[] } }[];
+};
+
+const ITEMS_PAGE_LIMIT = 1000;
+const itemCategoryCache = new Map<string, { data: Map<string, string>; expiresAt: number }>();
+
+/**
+ * Item id → name of its first category, for every item in the merchant's inventory. Cached
+ * in-process for 1 hour like the category list; returns the stale map (or an empty one) on error.
+ */
+export async function fetchCloverItemCategoryNames(
+  merchantId: string,
+  token: string,
+): Promise<Map<string, string>> {
+  const cached = itemCategoryCache.get(merchantId);
+  if (cached && Date.now() < cached.expiresAt) return cached.data;
+
+  const base = getCloverApiBaseUrl();
+  const data = new Map<string, string>();
+  for (let offset = 0; ; offset += ITEMS_PAGE_LIMIT) {
+    if (offset > 0) await sleepBetweenCloverPages();
+    const qs = new URLSearchParams({
+      expand: 'categories',
+      limit: String(ITEMS_PAGE_LIMIT),
+      offset: String(offset),
+    });
+    const res = await cloverFetch(`${base}/v3/merchants/${merchantId}/items?${qs}`, token);
+    if (!res.ok) return cached?.data ?? new Map();
+    const elements = ((await res.json()) as ItemsWithCategoriesResponse).elements ?? [];
+    for (const item of elements) {
+      const category = item.categories?.elements?.find((c) => c.name)?.name;
+      if (item.id && category) data.set(item.id, category);
+    }
+    if (elements.length < ITEMS_PAGE_LIMIT) break;
+  }
+  itemCategoryCache.set(merchantId, { data, expiresAt: Date.now() + CATEGORY_CACHE_TTL_MS });
+  return data;
+}
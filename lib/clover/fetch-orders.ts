@@ -3,6 +3,7 @@ import { getCloverApiBaseUrl } from './config';
 
 export type CloverLineItemResult = {
   lineItemId: string;
+  orderId: string;
   itemId: string | null;
   name: string;
   /** Unit price in cents */
@@ -75,6 +76,7 @@ export async function fetchCloverOrderItemsInRange(
         if (qty <= 0) continue;
         out.push({
           lineItemId: li.id ?? '',
+          orderId: order.id ?? '',
           itemId: li.item?.id ?? null,
           name: (li.name ?? '').trim() || 'Unknown',
           priceCents: li.price ?? 0,
@@ -1,7 +1,7 @@
 import { cloverFetch, sleepBetweenCloverPages } from './clover-fetch';
 import { getCloverApiBaseUrl } from './config';
 
-type CloverApiPayment = {
+export type CloverApiPayment = {
   id?: string;
   amount?: number;
   /** Cents; subtract from `amount` for net sales (with `tipAmount`). */
@@ -14,6 +14,9 @@ type CloverApiPayment = {
     id?: string;
     label?: string;
   };
+  order?: {
+    id?: string;
+  };
 };
 
 type CloverPaymentsResponse = {
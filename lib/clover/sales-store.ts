@@ -0,0 +1,207 @@
+/**
+ * Reads from the local Clover sales warehouse (see `sales-sync.ts`). Shapes mirror the live
+ * fetchers so dashboard aggregation code is shared.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import type { CloverLineItemResult } from './fetch-orders';
+import type { CloverApiPayment } from './fetch-payments';
+import { getCloverReportTimeZone } from './report-timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CloverSalesCoverage = {
+  backfilledFrom: Date;
+  syncedThrough: Date;
+  lastSyncedAt: Date | null;
+};
+
+/** What the warehouse holds for a location, or null before its first sync. */
+export async function getCloverSalesCoverage(
+  locationId: string,
+): Promise<CloverSalesCoverage | null> {
+  return prisma.cloverSyncCursor.findUnique({
+    where: { locationId },
+    select: { backfilledFrom: true, syncedThrough: true, lastSyncedAt: true },
+  });
+}
+
+/** Stored SUCCESS payments with `createdTime` in [startMs, endMs]. */
+export async function loadCloverPayments(
+  locationId: string,
+  startMs: number,
+  endMs: number,
+): Promise<CloverApiPayment[]> {
+  const rows = await prisma.cloverPayment.findMany({
+    where: { locationId, paidAt: { gte: new Date(startMs), lte: new Date(endMs) } },
+    orderBy: { paidAt: 'asc' },
+    select: {
+      cloverId: true,
+      orderId: true,
+      paidAt: true,
+      amountCents: true,
+      taxCents: true,
+      tipCents: true,
+      tenderLabel: true,
+    },
+  });
+  return rows.map((r) => ({
+    id: r.cloverId,
+    amount: r.amountCents,
+    taxAmount: r.taxCents,
+    tipAmount: r.tipCents,
+    createdTime: r.paidAt.getTime(),
+    result: 'SUCCESS',
+    tender: r.tenderLabel ? { label: r.tenderLabel } : undefined,
+    order: r.orderId ? { id: r.orderId } : undefined,
+  }));
+}
+
+/** Stored order line items for orders created in [startMs, endMs]. */
+export async function loadCloverLineItems(
+  locationId: string,
+  startMs: number,
+  endMs: number,
+): Promise<CloverLineItemResult[]> {
+  const rows = await prisma.cloverLineItem.findMany({
+    where: { locationId, orderedAt: { gte: new Date(startMs), lte: new Date(endMs) } },
+    orderBy: { orderedAt: 'asc' },
+    select: {
+      cloverId: true,
+      orderId: true,
+      itemId: true,
+      name: true,
+      priceCents: true,
+      quantity: true,
+      orderedAt: true,
+    },
+  });
+  return rows.map((r) => ({
+    lineItemId: r.cloverId,
+    orderId: r.orderId,
+    itemId: r.itemId,
+    name: r.name,
+    priceCents: r.priceCents,
+    quantity: r.quantity,
+    orderedAtMs: r.orderedAt.getTime(),
+  }));
+}
+
+/**
+ * Net sales (cents) per Clover report-timezone calendar day, `fromYmd`..`toYmd` inclusive.
+ * Days without payments are absent.
+ */
+export async function loadCloverDailyNetSalesCents(
+  locationId: string,
+  fromYmd: string,
+  toYmd: string,
+): Promise<Map<string, number>> {
+  const tz = getCloverReportTimeZone();
+  // UTC bounds padded by a day either side so the index is used; the day filter is exact.
+  const lower = new Date(Date.parse(`${fromYmd}T00:00:00Z`) - DAY_MS);
+  const upper = new Date(Date.parse(`${toYmd}T00:00:00Z`) + 2 * DAY_MS);
+  const rows = await prisma.$queryRaw<{ day: string; cents: number }[]>(
+    Prisma.sql`
+      SELECT
+        ("paid_at" AT TIME ZONE ${tz})::date::text AS day,
+        SUM("net_cents")::float8 AS cents
+      FROM "dashboard"."clover_payments"
+      WHERE "location_id" = ${locationId}
+        AND "paid_at" >= ${lower} AND "paid_at" < ${upper}
+        AND ("paid_at" AT TIME ZONE ${tz})::date BETWEEN ${fromYmd}::date AND ${toYmd}::date
+      GROUP BY 1
+    `,
+  );
+  return new Map(rows.map((r) => [r.day, r.cents]));
+}
+
+export type CloverWeekdayHourSales = {
+  /** Mon=0 … Sun=6 */
+  dow: number;
+  hour: number;
+  cents: number;
+};
+
+/**
+ * Net sales (cents) per report-timezone weekday × hour over `fromYmd`..`toYmd` inclusive, plus
+ * how many days of each weekday had any sales (the divisor for an hourly average).
+ */
+export async function loadCloverWeekdayHourNetSales(
+  locationId: string,
+  fromYmd: string,
+  toYmd: string,
+): Promise<{ cells: CloverWeekdayHourSales[]; daysByDow: number[] }> {
+  const tz = getCloverReportTimeZone();
+  const lower = new Date(Date.parse(`${fromYmd}T00:00:00Z`) - DAY_MS);
+  const upper = new Date(Date.parse(`${toYmd}T00:00:00Z`) + 2 * DAY_MS);
+  const rows = await prisma.$queryRaw<
+    { day: string; dow: number; hour: number; cents: number }[]
+  >(
+    Prisma.sql`
+      WITH p AS (
+        SELECT "paid_at" AT TIME ZONE ${tz} AS local, "net_cents"
+        FROM "dashboard"."clover_payments"
+        WHERE "location_id" = ${locationId}
+          AND "paid_at" >= ${lower} AND "paid_at" < ${upper}
+      )
+      SELECT
+        local::date::text AS day,
+        (EXTRACT(ISODOW FROM local)::int - 1) AS dow,
+        EXTRACT(HOUR FROM local)::int AS hour,
+        SUM("net_cents")::float8 AS cents
+      FROM p
+      WHERE local::date BETWEEN ${fromYmd}::date AND ${toYmd}::date
+      GROUP BY 1, 2, 3
+    `,
+  );
+
+  const byCell = new Map<string, CloverWeekdayHourSales>();
+  const daysPerDow = Array.from({ length: 7 }, () => new Set<string>());
+  for (const r of rows) {
+    daysPerDow[r.dow].add(r.day);
+    const key = `${r.dow}:${r.hour}`;
+    const cell = byCell.get(key);
+    if (cell) cell.cents += r.cents;
+    else byCell.set(key, { dow: r.dow, hour: r.hour, cents: r.cents });
+  }
+  return { cells: [...byCell.values()], daysByDow: daysPerDow.map((d) => d.size) };
+}
+
+export type CloverItemSales = {
+  /** Clover item id, or `name:<name>` for custom line items without one. */
+  itemKey: string;
+  itemId: string | null;
+  name: string;
+  quantity: number;
+  revenueCents: number;
+};
+
+/**
+ * Units and line-item revenue (cents) per menu item for orders placed on report-timezone days
+ * `fromYmd`..`toYmd` inclusive.
+ */
+export async function loadCloverItemSales(
+  locationId: string,
+  fromYmd: string,
+  toYmd: string,
+): Promise<CloverItemSales[]> {
+  const tz = getCloverReportTimeZone();
+  const lower = new Date(Date.parse(`${fromYmd}T00:00:00Z`) - DAY_MS);
+  const upper = new Date(Date.parse(`${toYmd}T00:00:00Z`) + 2 * DAY_MS);
+  return prisma.$queryRaw<CloverItemSales[]>(
+    Prisma.sql`
+      SELECT
+        COALESCE("item_id", 'name:' || "name") AS "itemKey",
+        MAX("item_id") AS "itemId",
+        MAX("name") AS name,
+        SUM("quantity")::float8 AS quantity,
+        SUM("price_cents" * "quantity")::float8 AS "revenueCents"
+      FROM "dashboard"."clover_line_items"
+      WHERE "location_id" = ${locationId}
+        AND "ordered_at" >= ${lower} AND "ordered_at" < ${upper}
+        AND ("ordered_at" AT TIME ZONE ${tz})::date BETWEEN ${fromYmd}::date AND ${toYmd}::date
+      GROUP BY 1
+    `,
+  );
+}
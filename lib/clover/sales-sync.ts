@@ -0,0 +1,244 @@
+/**
+ * Incremental Clover ingestion into `CloverPayment` / `CloverLineItem`. Each location has a
+ * `CloverSyncCursor`; a sync replaces stored rows window by window from just before the cursor up
+ * to now, so re-runs are idempotent and payments voided after a sync drop out on the next one.
+ */
+
+import { startOfMonth, subMonths } from 'date-fns';
+import { prisma } from '@/lib/core/prisma';
+import { sleepBetweenCloverPages } from './clover-fetch';
+import { fetchCloverOrderItemsInRange } from './fetch-orders';
+import { fetchCloverPaymentsInRange } from './fetch-payments';
+import { cloverPaymentNetSalesCents } from './payment-net-sales';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** History loaded on first sync: the 24-month revenue reference period plus a little slack. */
+const BACKFILL_MONTHS = 26;
+/** Clover payment queries are safest under ~90 days per window; 30 keeps each transaction small. */
+const WINDOW_MS = 30 * DAY_MS;
+/** Re-read this much before the cursor on every sync (late voids, offline payments). */
+const OVERLAP_MS = 2 * DAY_MS;
+/** Windows per location per call; the initial backfill spreads over several cron runs. */
+const MAX_WINDOWS_PER_RUN = 8;
+/**
+ * No new window starts after this much of a cron run has passed. A window already under way
+ * (paged fetches plus rate-limit backoff) finishes inside the sync route's `maxDuration`.
+ */
+const SYNC_BUDGET_MS = 120_000;
+/** Dashboards pull new sales on read when the last sync is older than this. */
+export const CLOVER_SALES_FRESH_MS = 10 * 60 * 1000;
+
+export type CloverSyncResult = {
+  locationId: string;
+  windows: number;
+  payments: number;
+  lineItems: number;
+  syncedThrough: string | null;
+  /** Backfill not finished within this call; call again. */
+  hasMore: boolean;
+};
+
+/**
+ * Sync one location up to now. Throws when Clover is not configured or a Clover call fails
+ * (windows stored before the failure are kept and the error is recorded on the cursor).
+ */
+export async function syncCloverSalesForLocation(
+  locationId: string,
+  options?: { maxWindows?: number; now?: Date; deadline?: number },
+): Promise<CloverSyncResult> {
+  const now = options?.now ?? new Date();
+  const maxWindows = options?.maxWindows ?? MAX_WINDOWS_PER_RUN;
+
+  const location = await prisma.location.findUnique({
+    where: { id: locationId },
+    select: { cloverMerchantId: true, cloverToken: true },
+  });
+  const merchantId = location?.cloverMerchantId?.trim() || null;
+  const token = location?.cloverToken?.trim() || null;
+  if (!merchantId || !token) {
+    throw new Error('Clover is not configured for this location');
+  }
+
+  let cursor = await prisma.cloverSyncCursor.findUnique({ where: { locationId } });
+  if (cursor && cursor.merchantId !== merchantId) {
+    // Different merchant → the stored history belongs to someone else.
+    await prisma.$transaction([
+      prisma.cloverPayment.deleteMany({ where: { locationId } }),
+      prisma.cloverLineItem.deleteMany({ where: { locationId } }),
+      prisma.cloverSyncCursor.delete({ where: { locationId } }),
+    ]);
+    cursor = null;
+  }
+
+  const backfilledFrom =
+    cursor?.backfilledFrom ?? startOfMonth(subMonths(now, BACKFILL_MONTHS));
+  let fromMs = cursor
+    ? Math.max(backfilledFrom.getTime(), cursor.syncedThrough.getTime() - OVERLAP_MS)
+    : backfilledFrom.getTime();
+  const nowMs = now.getTime();
+
+  const result: CloverSyncResult = {
+    locationId,
+    windows: 0,
+    payments: 0,
+    lineItems: 0,
+    syncedThrough: cursor?.syncedThrough.toISOString() ?? null,
+    hasMore: false,
+  };
+
+  try {
+    while (fromMs <= nowMs && result.windows < maxWindows) {
+      if (options?.deadline != null && Date.now() >= options.deadline) break;
+      const toMs = Math.min(fromMs + WINDOW_MS - 1, nowMs);
+      if (result.windows > 0) await sleepBetweenCloverPages();
+      const payments = await fetchCloverPaymentsInRange(merchantId, token, fromMs, toMs);
+      const lineItems = await fetchCloverOrderItemsInRange(merchantId, token, fromMs, toMs);
+
+      const paymentRows = payments.flatMap((p) =>
+        p.id && p.createdTime != null && typeof p.amount === 'number'
+          ? [
+              {
+                locationId,
+                cloverId: p.id,
+                orderId: p.order?.id ?? null,
+                paidAt: new Date(p.createdTime),
+                amountCents: p.amount,
+                taxCents: p.taxAmount ?? 0,
+                tipCents: p.tipAmount ?? 0,
+                netCents: cloverPaymentNetSalesCents(p),
+                tenderLabel: p.tender?.label ?? null,
+              },
+            ]
+          : [],
+      );
+      const lineItemRows = lineItems.flatMap((li) =>
+        li.lineItemId && li.orderId
+          ? [
+              {
+                locationId,
+                cloverId: li.lineItemId,
+                orderId: li.orderId,
+                itemId: li.itemId,
+                name: li.name,
+                priceCents: li.priceCents,
+                quantity: li.quantity,
+                orderedAt: new Date(li.orderedAtMs),
+              },
+            ]
+          : [],
+      );
+
+      const from = new Date(fromMs);
+      const to = new Date(toMs);
+      await prisma.$transaction([
+        prisma.cloverPayment.deleteMany({
+          where: { locationId, paidAt: { gte: from, lte: to } },
+        }),
+        prisma.cloverPayment.createMany({ data: paymentRows, skipDuplicates: true }),
+        prisma.cloverLineItem.deleteMany({
+          where: { locationId, orderedAt: { gte: from, lte: to } },
+        }),
+        prisma.cloverLineItem.createMany({ data: lineItemRows, skipDuplicates: true }),
+        prisma.cloverSyncCursor.upsert({
+          where: { locationId },
+          create: { locationId, merchantId, backfilledFrom, syncedThrough: to },
+          update: { syncedThrough: to },
+        }),
+      ]);
+
+      result.windows++;
+      result.payments += paymentRows.length;
+      result.lineItems += lineItemRows.length;
+      result.syncedThrough = to.toISOString();
+      fromMs = toMs + 1;
+    }
+    result.hasMore = fromMs <= nowMs;
+
+    await prisma.cloverSyncCursor.updateMany({
+      where: { locationId },
+      data: { lastSyncedAt: now, lastError: null },
+    });
+    return result;
+  } catch (err) {
+    await prisma.cloverSyncCursor
+      .updateMany({
+        where: { locationId },
+        data: { lastError: err instanceof Error ? err.message : String(err) },
+      })
+      .catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Cron entry: sync every location with Clover credentials, one after another (rate limits),
+ * least recently synced first. Stops starting windows after {@link SYNC_BUDGET_MS}; `hasMore` means
+ * a location was left behind and the next run picks it up.
+ */
+export async function syncAllCloverSales(): Promise<{
+  results: CloverSyncResult[];
+  errors: { locationId: string; error: string }[];
+  hasMore: boolean;
+}> {
+  const locations = await prisma.location.findMany({
+    where: { cloverMerchantId: { not: null }, cloverToken: { not: null } },
+    select: { id: true },
+    orderBy: [
+      { cloverSyncCursor: { lastSyncedAt: { sort: 'asc', nulls: 'first' } } },
+      { createdAt: 'asc' },
+    ],
+  });
+  const results: CloverSyncResult[] = [];
+  const errors: { locationId: string; error: string }[] = [];
+  let hasMore = false;
+  const deadline = Date.now() + SYNC_BUDGET_MS;
+  for (const { id } of locations) {
+    if (Date.now() >= deadline) {
+      hasMore = true;
+      break;
+    }
+    try {
+      const result = await syncCloverSalesForLocation(id, { deadline });
+      results.push(result);
+      if (result.hasMore) hasMore = true;
+    } catch (err) {
+      errors.push({
+        locationId: id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return { results, errors, hasMore };
+}
+
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Pull the latest sales before a dashboard read when the stored data is caught up but older than
+ * {@link CLOVER_SALES_FRESH_MS}. Backfills are left to the cron. Never throws: on a Clover error the
+ * stored data is still served.
+ */
+export function refreshCloverSalesIfStale(locationId: string): Promise<void> {
+  const pending = inFlight.get(locationId);
+  if (pending) return pending;
+
+  const run = (async () => {
+    const cursor = await prisma.cloverSyncCursor.findUnique({
+      where: { locationId },
+      select: { syncedThrough: true, lastSyncedAt: true },
+    });
+    if (!cursor) return;
+    const nowMs = Date.now();
+    if (nowMs - (cursor.lastSyncedAt?.getTime() ?? 0) < CLOVER_SALES_FRESH_MS) return;
+    if (nowMs - cursor.syncedThrough.getTime() > WINDOW_MS) return;
+    await syncCloverSalesForLocation(locationId, { maxWindows: 1 });
+  })()
+    .catch((err) => {
+      console.error(`[clover sales] refresh for ${locationId} failed:`, err);
+    })
+    .finally(() => {
+      inFlight.delete(locationId);
+    });
+  inFlight.set(locationId, run);
+  return run;
+}
@@ -96,6 +96,17 @@ export class GraphQLError extends AppError {
   }
 }
 
+/**
+ * The client is generated into `node_modules/.prisma`, where `@prisma/client-runtime-utils` (not
+ * hoisted by pnpm) does not resolve, so the error class types as `any` and `instanceof` cannot
+ * narrow to it. This guard gives callers `err.code` without a cast.
+ */
+export function isPrismaKnownRequestError(
+  err: unknown,
+): err is Prisma.PrismaClientKnownRequestError {
+  return err instanceof Prisma.PrismaClientKnownRequestError;
+}
+
 function prismaKnownRequestUserMessage(
   e: Prisma.PrismaClientKnownRequestError,
 ): string {
@@ -0,0 +1,44 @@
+import nodemailer from 'nodemailer';
+
+function createTransport() {
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST!,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: {
+      user: process.env.SMTP_USER!,
+      pass: process.env.SMTP_PASS!,
+    },
+  });
+}
+
+let _transport: ReturnType<typeof nodemailer.createTransport> | null = null;
+
+/** Shared SMTP transport (`SMTP_HOST` / `SMTP_PORT` / `SMTP_SECURE` / `SMTP_USER` / `SMTP_PASS`). */
+export function getMailTransport() {
+  if (!_transport) _transport = createTransport();
+  return _transport;
+}
+
+/** True when SMTP_HOST, SMTP_USER, and SMTP_PASS are all set (send may still fail if wrong). */
+export function isSmtpConfigured(): boolean {
+  return !!(
+    process.env.SMTP_HOST?.trim() &&
+    process.env.SMTP_USER?.trim() &&
+    process.env.SMTP_PASS
+  );
+}
+
+/** Plain text → minimal HTML paragraphs (escaped; blank lines become `<br>`). */
+export function plainToHtml(plain: string): string {
+  return plain
+    .split('\n')
+    .map((line) => {
+      const escaped = line
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+      return escaped === '' ? '<br>' : `<p style="margin:0 0 4px 0">${escaped}</p>`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,68 @@
+import { getMailTransport, plainToHtml } from '@/lib/core/mailer';
+import { formatCurrency } from '@/lib/utils';
+import { resolvePoEmailFromAddress } from '@/lib/order/po-email-settings';
+
+export type BudgetAlertEmailLine = {
+  label: string;
+  actual: number;
+  budget: number;
+  /** actual ÷ budget × 100 */
+  percent: number;
+  /** Highest threshold crossed. */
+  threshold: number;
+  /** False when the crossing was already reported earlier this month. */
+  isNew: boolean;
+};
+
+function dashboardUrl(locationId: string): string | null {
+  const base = (process.env.NEXT_PUBLIC_APP_URL ?? '').trim().replace(/\/$/, '');
+  if (!base) return null;
+  return `${base}/dashboard/location/${encodeURIComponent(locationId)}`;
+}
+
+type BudgetAlertDigest = {
+  locationId: string;
+  locationLabel: string;
+  yearMonth: string;
+  lines: BudgetAlertEmailLine[];
+};
+
+function digestSummary(args: BudgetAlertDigest): string {
+  const rows = args.lines.map(
+    (l) =>
+      `${l.isNew ? '• NEW ' : '• '}${l.label}: ${formatCurrency(l.actual)} of ${formatCurrency(l.budget)} ` +
+      `(${l.percent.toFixed(0)}%, over the ${l.threshold}% alert)`,
+  );
+  return [
+    `Month-to-date spend for ${args.locationLabel} (${args.yearMonth}) has passed these budget alerts:`,
+    '',
+    ...rows,
+    '',
+    'Amounts are from the QuickBooks P&L saved for the dashboard and may lag recent entries.',
+  ].join('\n');
+}
+
+/** One digest per location: To the location's managers, Cc the office recipients. */
+export async function sendBudgetAlertEmail(
+  args: BudgetAlertDigest & { to: string[]; cc: string[] },
+): Promise<void> {
+  if (args.to.length === 0 || args.lines.length === 0) return;
+  const summary = digestSummary(args);
+  const url = dashboardUrl(args.locationId);
+  const newCount = args.lines.filter((l) => l.isNew).length;
+  const htmlBody = [
+    `<div style="font-family:Arial,sans-serif;font-size:14px;color:#222">`,
+    plainToHtml(summary),
+    url ? `<p style="margin:12px 0 0 0"><a href="${url}">Open the dashboard</a></p>` : '',
+    `</div>`,
+  ].join('\n');
+
+  await getMailTransport().sendMail({
+    from: resolvePoEmailFromAddress(),
+    to: args.to,
+    ...(args.cc.length > 0 ? { cc: args.cc } : {}),
+    subject: `Budget alert: ${args.locationLabel} ${args.yearMonth} (${newCount} new)`,
+    text: url ? `${summary}\n\nOpen the dashboard: ${url}` : summary,
+    html: htmlBody,
+  });
+}
@@ -0,0 +1,315 @@
+/**
+ * Historical delivery performance from daily schedule stops/tasks and driver GPS tracks.
+ * Days are schedule dates (`YYYY-MM-DD`); GPS pings are bucketed by their Vancouver calendar day.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd } from '@/lib/utils';
+import type {
+  DeliveryAnalytics,
+  DeliveryPerformanceRow,
+  DeliveryTrendBucket,
+  DeliveryTrendPoint,
+} from '@/features/delivery/types/delivery-analytics';
+import {
+  OFFICE_ORDERED_TIME_ZONE,
+  vancouverWallTimeToDate,
+} from '@/features/order/office/utils/vancouver-datetime';
+import {
+  MAX_PLAUSIBLE_SPEED_KMH,
+  decodeTrack,
+  trackDistanceKm,
+} from './driver-track-archive';
+
+type AnalyticsStop = {
+  date: Date;
+  driverId: string;
+  driverName: string;
+  locationKey: string;
+  locationName: string;
+  arrivedAt: Date | null;
+  departedAt: Date | null;
+  windowEnd: string | null;
+  tasks: { completedAt: Date | null; isDismissed: boolean }[];
+};
+
+function ymdOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function bucketKey(ymd: string, bucket: DeliveryTrendBucket): string {
+  if (bucket === 'month') return ymd.slice(0, 7) + '-01';
+  const d = new Date(ymd + 'T00:00:00Z');
+  return addDaysYmd(ymd, -((d.getUTCDay() + 6) % 7));
+}
+
+function bucketLabel(key: string, bucket: DeliveryTrendBucket): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    ...(bucket === 'month' ? { year: 'numeric' } : { day: 'numeric' }),
+  }).format(new Date(key + 'T00:00:00Z'));
+}
+
+function isOnTime(stop: AnalyticsStop): boolean | null {
+  if (!stop.arrivedAt || !stop.windowEnd) return null;
+  const end = vancouverWallTimeToDate(ymdOf(stop.date), stop.windowEnd);
+  return end ? stop.arrivedAt <= end : null;
+}
+
+function dwellMinutes(stop: AnalyticsStop): number | null {
+  if (!stop.arrivedAt || !stop.departedAt) return null;
+  const ms = stop.departedAt.getTime() - stop.arrivedAt.getTime();
+  return ms >= 0 ? ms / 60_000 : null;
+}
+
+function summarize(
+  id: string,
+  name: string,
+  stops: AnalyticsStop[],
+  distanceKm: number | null,
+): DeliveryPerformanceRow {
+  const days = new Set<string>();
+  let visitedStops = 0;
+  let dwellTotal = 0;
+  let dwellCount = 0;
+  let windowedStops = 0;
+  let onTimeStops = 0;
+  let tasksCompleted = 0;
+  let tasksDismissed = 0;
+  let tasksOpen = 0;
+
+  for (const s of stops) {
+    if (s.arrivedAt) {
+      visitedStops++;
+      days.add(ymdOf(s.date));
+    }
+    const dwell = dwellMinutes(s);
+    if (dwell != null) {
+      dwellTotal += dwell;
+      dwellCount++;
+    }
+    const onTime = isOnTime(s);
+    if (onTime != null) {
+      windowedStops++;
+      if (onTime) onTimeStops++;
+    }
+    for (const t of s.tasks) {
+      if (t.isDismissed) tasksDismissed++;
+      else if (t.completedAt) tasksCompleted++;
+      else tasksOpen++;
+    }
+  }
+
+  return {
+    id,
+    name,
+    scheduledStops: stops.length,
+    visitedStops,
+    activeDays: days.size,
+    stopsPerDay: days.size > 0 ? visitedStops / days.size : 0,
+    avgDwellMinutes: dwellCount > 0 ? dwellTotal / dwellCount : null,
+    windowedStops,
+    onTimeStops,
+    onTimeRate: windowedStops > 0 ? onTimeStops / windowedStops : null,
+    tasksCompleted,
+    tasksDismissed,
+    tasksOpen,
+    distanceKm,
+  };
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const list = map.get(key);
+    if (list) list.push(item);
+    else map.set(key, [item]);
+  }
+  return map;
+}
+
+function buildTrend(
+  stops: AnalyticsStop[],
+  kmByDay: Map<string, number>,
+  bucket: DeliveryTrendBucket,
+): DeliveryTrendPoint[] {
+  const points = new Map<string, DeliveryTrendPoint & { dwellTotal: number; dwellCount: number }>();
+  const pointFor = (ymd: string) => {
+    const key = bucketKey(ymd, bucket);
+    let p = points.get(key);
+    if (!p) {
+      p = {
+        key,
+        label: bucketLabel(key, bucket),
+        onTime: 0,
+        late: 0,
+        noWindow: 0,
+        tasksCompleted: 0,
+        tasksDismissed: 0,
+        distanceKm: 0,
+        avgDwellMinutes: null,
+        dwellTotal: 0,
+        dwellCount: 0,
+      };
+      points.set(key, p);
+    }
+    return p;
+  };
+
+  for (const s of stops) {
+    const p = pointFor(ymdOf(s.date));
+    if (s.arrivedAt) {
+      const onTime = isOnTime(s);
+      if (onTime == null) p.noWindow++;
+      else if (onTime) p.onTime++;
+      else p.late++;
+    }
+    const dwell = dwellMinutes(s);
+    if (dwell != null) {
+      p.dwellTotal += dwell;
+      p.dwellCount++;
+    }
+    for (const t of s.tasks) {
+      if (t.isDismissed) p.tasksDismissed++;
+      else if (t.completedAt) p.tasksCompleted++;
+    }
+  }
+  for (const [ymd, km] of kmByDay) pointFor(ymd).distanceKm += km;
+
+  return [...points.values()]
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(({ dwellTotal, dwellCount, ...p }) => ({
+      ...p,
+      distanceKm: Math.round(p.distanceKm * 10) / 10,
+      avgDwellMinutes: dwellCount > 0 ? dwellTotal / dwellCount : null,
+    }));
+}
+
+/**
+ * Straight-line km between consecutive pings, per driver and Vancouver day. Days whose raw pings
+ * were archived use the simplified polyline, which reads slightly short.
+ */
+async function loadDistanceByDriverDay(
+  from: string,
+  to: string,
+): Promise<{ driverId: string; day: string; km: number }[]> {
+  const start = vancouverWallTimeToDate(from, '00:00');
+  const end = vancouverWallTimeToDate(addDaysYmd(to, 1), '00:00');
+  if (!start || !end) return [];
+  const raw = await prisma.$queryRaw<{ driverId: string; day: string; km: number }[]>(
+    Prisma.sql`
+      WITH pings AS (
+        SELECT
+          "driver_id",
+          ("created_at" AT TIME ZONE ${OFFICE_ORDERED_TIME_ZONE})::date AS day,
+          "created_at",
+          "lat",
+          "lng"
+        FROM "delivery"."driver_location_updates"
+        WHERE "created_at" >= ${start} AND "created_at" < ${end}
+      ),
+      legs AS (
+        SELECT
+          "driver_id",
+          day,
+          EXTRACT(EPOCH FROM "created_at" - LAG("created_at") OVER w) AS secs,
+          2 * 6371 * ASIN(LEAST(1, SQRT(
+            POWER(SIN(RADIANS("lat" - LAG("lat") OVER w) / 2), 2) +
+            COS(RADIANS(LAG("lat") OVER w)) * COS(RADIANS("lat")) *
+            POWER(SIN(RADIANS("lng" - LAG("lng") OVER w) / 2), 2)
+          ))) AS km
+        FROM pings
+        WINDOW w AS (PARTITION BY "driver_id", day ORDER BY "created_at")
+      )
+      SELECT
+        "driver_id" AS "driverId",
+        day::text AS day,
+        COALESCE(SUM(km), 0)::float8 AS km
+      FROM legs
+      WHERE secs > 0 AND km / secs * 3600 <= ${MAX_PLAUSIBLE_SPEED_KMH}
+      GROUP BY "driver_id", day
+    `,
+  );
+  const archives = await prisma.driverTrackArchive.findMany({
+    where: { date: { gte: new Date(from + 'Z'), lte: new Date(to + 'Z') } },
+    select: { driverId: true, date: true, points: true },
+  });
+  return [
+    ...raw,
+    ...archives.map((a) => ({
+      driverId: a.driverId,
+      day: ymdOf(a.date),
+      km: trackDistanceKm(decodeTrack(a.points)),
+    })),
+  ];
+}
+
+/** Delivery KPIs for schedule dates `from`..`to` (inclusive, `YYYY-MM-DD`). */
+export async function getDeliveryAnalytics(
+  from: string,
+  to: string,
+): Promise<DeliveryAnalytics> {
+  const [rows, distances] = await Promise.all([
+    prisma.dailyScheduleStop.findMany({
+      where: {
+        date: { gte: new Date(from + 'Z'), lte: new Date(to + 'Z') },
+      },
+      select: {
+        date: true,
+        driverId: true,
+        deliveryLocationId: true,
+        name: true,
+        arrivedAt: true,
+        departedAt: true,
+        plannedEnd: true,
+        driver: { select: { user: { select: { name: true } } } },
+        deliveryLocation: { select: { name: true, windowEnd: true } },
+        tasks: { select: { completedAt: true, isDismissed: true } },
+      },
+    }),
+    loadDistanceByDriverDay(from, to),
+  ]);
+
+  const stops: AnalyticsStop[] = rows.map((r) => ({
+    date: r.date,
+    driverId: r.driverId,
+    driverName: r.driver.user?.name ?? r.driverId,
+    // Occasional stops (no delivery location) are grouped by their name.
+    locationKey: r.deliveryLocationId ?? `name:${r.name}`,
+    locationName: r.deliveryLocation?.name ?? r.name,
+    arrivedAt: r.arrivedAt,
+    departedAt: r.departedAt,
+    windowEnd: r.plannedEnd ?? r.deliveryLocation?.windowEnd ?? null,
+    tasks: r.tasks,
+  }));
+
+  const kmByDriver = new Map<string, number>();
+  const kmByDay = new Map<string, number>();
+  for (const d of distances) {
+    kmByDriver.set(d.driverId, (kmByDriver.get(d.driverId) ?? 0) + d.km);
+    kmByDay.set(d.day, (kmByDay.get(d.day) ?? 0) + d.km);
+  }
+  const totalKm = [...kmByDriver.values()].reduce((sum, km) => sum + km, 0);
+
+  const drivers = [...groupBy(stops, (s) => s.driverId)].map(([id, list]) =>
+    summarize(id, list[0].driverName, list, kmByDriver.get(id) ?? 0),
+  );
+  const locations = [...groupBy(stops, (s) => s.locationKey)].map(
+    ([id, list]) => summarize(id, list[0].locationName, list, null),
+  );
+  const byName = (a: DeliveryPerformanceRow, b: DeliveryPerformanceRow) =>
+    a.name.localeCompare(b.name);
+
+  return {
+    from,
+    to,
+    totals: summarize('all', 'All drivers', stops, totalKm),
+    drivers: drivers.sort(byName),
+    locations: locations.sort(byName),
+    weekly: buildTrend(stops, kmByDay, 'week'),
+    monthly: buildTrend(stops, kmByDay, 'month'),
+  };
+}
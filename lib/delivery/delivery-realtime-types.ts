@@ -4,10 +4,15 @@ export type DeliveryRealtimeEvent = {
     | 'driver_status'
     | 'schedule'
     | 'location'
-    | 'ping_request';
+    | 'ping_request'
+    | 'stop_late';
   driverId: string;
   /** YYYY-MM-DD (UTC) for schedule / status / location day scope */
   date?: string;
   /** Who triggered the change (driver app vs hub). */
   origin?: 'driver' | 'office';
+  /** On `connected`: missed events could not be replayed, so refetch everything. */
+  resync?: boolean;
+  /** On `stop_late`: stops that just became projected late. */
+  lateStops?: { stopId: string; name: string; lateMinutes: number }[];
 };
@@ -0,0 +1,218 @@
+/**
+ * GPS track retention: raw `DriverLocationUpdate` pings older than the retention period are
+ * simplified (Douglas–Peucker) into one `DriverTrackArchive` polyline per driver and Vancouver day,
+ * then deleted. Replay and analytics read archived days through the helpers here.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd } from '@/lib/utils';
+import { haversineKm } from '@/features/delivery/lib/route-optimizer';
+import {
+  OFFICE_ORDERED_TIME_ZONE,
+  toVancouverYmd,
+  vancouverWallTimeToDate,
+} from '@/features/order/office/utils/vancouver-datetime';
+
+/** Raw pings are kept this long (days) before being archived. */
+export const RAW_TRACK_RETENTION_DAYS = 30;
+/** Max deviation (m) of a dropped point from the simplified line. */
+const SIMPLIFY_TOLERANCE_M = 10;
+/** Driver-days archived per run, so one cron call stays well inside its time limit. */
+const MAX_DAYS_PER_RUN = 200;
+/** GPS legs implying more than this are glitches (e.g. a cell-tower fix), not driving. */
+export const MAX_PLAUSIBLE_SPEED_KMH = 160;
+
+export type TrackPoint = { lat: number; lng: number; createdAt: Date };
+
+/** Stored form in `DriverTrackArchive.points`. */
+type ArchivedPoint = [lat: number, lng: number, epochSeconds: number];
+
+export function encodeTrack(points: TrackPoint[]): ArchivedPoint[] {
+  return points.map((p) => [p.lat, p.lng, Math.round(p.createdAt.getTime() / 1000)]);
+}
+
+export function decodeTrack(json: Prisma.JsonValue): TrackPoint[] {
+  if (!Array.isArray(json)) return [];
+  const out: TrackPoint[] = [];
+  for (const row of json) {
+    if (!Array.isArray(row) || row.length < 3) continue;
+    const [lat, lng, t] = row;
+    if (typeof lat !== 'number' || typeof lng !== 'number' || typeof t !== 'number') continue;
+    out.push({ lat, lng, createdAt: new Date(t * 1000) });
+  }
+  return out;
+}
+
+/**
+ * Douglas–Peucker on a local equirectangular projection (metres), which is accurate enough at
+ * city scale. Endpoints are always kept; timestamps travel with the kept points.
+ */
+export function simplifyTrack(
+  points: TrackPoint[],
+  toleranceM = SIMPLIFY_TOLERANCE_M,
+): TrackPoint[] {
+  if (points.length <= 2) return points;
+  const lat0 = (points[0].lat * Math.PI) / 180;
+  const xy = points.map((p) => ({
+    x: p.lng * 111_320 * Math.cos(lat0),
+    y: p.lat * 110_540,
+  }));
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const a = xy[first];
+    const b = xy[last];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    let maxDist = -1;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const p = xy[i];
+      let dist: number;
+      if (lenSq === 0) {
+        dist = Math.hypot(p.x - a.x, p.y - a.y);
+      } else {
+        const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+        dist = Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+      }
+      if (dist > maxDist) {
+        maxDist = dist;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > toleranceM) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/** Straight-line km along a track, skipping implausible jumps. */
+export function trackDistanceKm(points: TrackPoint[]): number {
+  let km = 0;
+  for (let i = 1; i < points.length; i++) {
+    const leg = haversineKm(points[i - 1], points[i]);
+    const hours = (points[i].createdAt.getTime() - points[i - 1].createdAt.getTime()) / 3_600_000;
+    if (hours > 0 && leg / hours <= MAX_PLAUSIBLE_SPEED_KMH) km += leg;
+  }
+  return km;
+}
+
+function vancouverDayBounds(ymd: string): { start: Date; end: Date } | null {
+  const start = vancouverWallTimeToDate(ymd, '00:00');
+  const end = vancouverWallTimeToDate(addDaysYmd(ymd, 1), '00:00');
+  return start && end ? { start, end } : null;
+}
+
+/** Full GPS track (raw pings and/or archived polyline) for a driver's Vancouver day. */
+export async function loadDriverDayTrack(
+  driverId: string,
+  ymd: string,
+): Promise<{ points: TrackPoint[]; archived: boolean }> {
+  const bounds = vancouverDayBounds(ymd);
+  if (!bounds) return { points: [], archived: false };
+  const [raw, archive] = await Promise.all([
+    prisma.driverLocationUpdate.findMany({
+      where: { driverId, createdAt: { gte: bounds.start, lt: bounds.end } },
+      orderBy: { createdAt: 'asc' },
+      select: { lat: true, lng: true, createdAt: true },
+    }),
+    prisma.driverTrackArchive.findUnique({
+      where: { driverId_date: { driverId, date: new Date(ymd + 'Z') } },
+      select: { points: true },
+    }),
+  ]);
+  if (!archive) return { points: raw, archived: false };
+  const points = [...decodeTrack(archive.points), ...raw].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  return { points, archived: true };
+}
+
+export type ArchiveDriverTracksResult = {
+  archivedDays: number;
+  deletedPings: number;
+  keptPoints: number;
+  /** More days were eligible than one run handles; call again. */
+  hasMore: boolean;
+};
+
+/** Archive + delete raw pings for every driver-day older than the retention period. */
+export async function archiveOldDriverTracks(
+  now = new Date(),
+): Promise<ArchiveDriverTracksResult> {
+  const cutoffYmd = addDaysYmd(toVancouverYmd(now), -RAW_TRACK_RETENTION_DAYS);
+  const cutoff = vancouverWallTimeToDate(cutoffYmd, '00:00');
+  const result: ArchiveDriverTracksResult = {
+    archivedDays: 0,
+    deletedPings: 0,
+    keptPoints: 0,
+    hasMore: false,
+  };
+  if (!cutoff) return result;
+
+  const days = await prisma.$queryRaw<{ driverId: string; day: string }[]>(
+    Prisma.sql`
+      SELECT DISTINCT
+        "driver_id" AS "driverId",
+        ("created_at" AT TIME ZONE ${OFFICE_ORDERED_TIME_ZONE})::date::text AS day
+      FROM "delivery"."driver_location_updates"
+      WHERE "created_at" < ${cutoff}
+      ORDER BY day, "driverId"
+      LIMIT ${MAX_DAYS_PER_RUN + 1}
+    `,
+  );
+  result.hasMore = days.length > MAX_DAYS_PER_RUN;
+
+  for (const { driverId, day } of days.slice(0, MAX_DAYS_PER_RUN)) {
+    const bounds = vancouverDayBounds(day);
+    if (!bounds) continue;
+    const date = new Date(day + 'Z');
+    const [raw, existing] = await Promise.all([
+      prisma.driverLocationUpdate.findMany({
+        where: { driverId, createdAt: { gte: bounds.start, lt: bounds.end } },
+        orderBy: { createdAt: 'asc' },
+        select: { lat: true, lng: true, createdAt: true },
+      }),
+      prisma.driverTrackArchive.findUnique({
+        where: { driverId_date: { driverId, date } },
+        select: { points: true, rawPointCount: true },
+      }),
+    ]);
+    if (raw.length === 0) continue;
+
+    // Late pings for an already archived day are merged into its polyline.
+    const merged = existing
+      ? [...decodeTrack(existing.points), ...raw].sort(
+          (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+        )
+      : raw;
+    const simplified = encodeTrack(simplifyTrack(merged));
+    const rawPointCount = (existing?.rawPointCount ?? 0) + raw.length;
+
+    const [, deleted] = await prisma.$transaction([
+      prisma.driverTrackArchive.upsert({
+        where: { driverId_date: { driverId, date } },
+        create: { driverId, date, points: simplified, rawPointCount },
+        update: { points: simplified, rawPointCount },
+      }),
+      prisma.driverLocationUpdate.deleteMany({
+        where: {
+          driverId,
+          createdAt: { gte: bounds.start, lte: raw[raw.length - 1].createdAt },
+        },
+      }),
+    ]);
+    result.archivedDays++;
+    result.deletedPings += deleted.count;
+    result.keptPoints += simplified.length;
+  }
+  return result;
+}
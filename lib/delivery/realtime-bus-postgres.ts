@@ -0,0 +1,220 @@
+/**
+ * Delivery realtime over Postgres `LISTEN/NOTIFY` for multi-instance deploys.
+ *
+ * publish: one statement inserts into `delivery.realtime_events` and `pg_notify`s the row,
+ * so every instance (including this one) hears it after commit.
+ * subscribe: a dedicated `pg` connection (session-mode URL, not the transaction pooler) LISTENs
+ * and fans out to this process's SSE streams.
+ * When that connection drops it reconnects with backoff and replays rows it missed, and
+ * `replaySince` lets an SSE client that reconnects catch up from its `Last-Event-ID`.
+ *
+ * Ids are handed out at insert but NOTIFY arrives in commit order, so a lower id can show up
+ * after a higher one. Dedupe is by id set, and replays look back `REPLAY_ID_LOOKBACK` ids
+ * before the anchor instead of starting strictly after it.
+ */
+
+import { Client } from 'pg';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import type { DeliveryRealtimeEvent } from './delivery-realtime-types';
+import type {
+  DeliveryRealtimeBackend,
+  DeliveryRealtimeBus,
+  DeliveryRealtimeListener,
+  DeliveryRealtimeReplay,
+} from './realtime-bus';
+
+const CHANNEL = 'delivery_realtime';
+/** Events older than this are pruned and can no longer be replayed. */
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const PRUNE_EVERY_MS = 10 * 60 * 1000;
+const REPLAY_LIMIT = 500;
+/** How far below the newest seen id a replay starts, to catch rows that committed late. */
+const REPLAY_ID_LOOKBACK = BigInt(100);
+/** Recently dispatched ids kept for dedupe (oldest evicted first). */
+const SEEN_IDS_MAX = 2_000;
+const RECONNECT_MIN_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+type NotifyMessage = {
+  id: string;
+  driverId: string;
+  payload: DeliveryRealtimeEvent;
+};
+
+export class PostgresDeliveryRealtimeBus implements DeliveryRealtimeBackend {
+  private client: Client | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectDelayMs = RECONNECT_MIN_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Highest event id dispatched locally; replay after a reconnect looks back from here. */
+  private maxSeenId: bigint | null = null;
+  private seenIds = new Set<string>();
+  private lastPruneAt = 0;
+
+  constructor(
+    /** Session-mode or direct Postgres URL for the `LISTEN` client. */
+    private readonly connectionString: string,
+    /** Local fan-out to this process's subscribers. */
+    private readonly local: DeliveryRealtimeBus,
+  ) {}
+
+  subscribe(driverId: string, fn: DeliveryRealtimeListener): () => void {
+    void this.ensureListening();
+    return this.local.subscribe(driverId, fn);
+  }
+
+  publish(driverId: string, payload: DeliveryRealtimeEvent): void {
+    const json = JSON.stringify(payload);
+    void prisma
+      .$queryRaw(
+        Prisma.sql`
+          WITH ins AS (
+            INSERT INTO "delivery"."realtime_events" ("driver_id", "payload")
+            VALUES (${driverId}, ${json}::jsonb)
+            RETURNING "id"
+          )
+          SELECT pg_notify(
+            ${CHANNEL},
+            json_build_object('id', ins."id"::text, 'driverId', ${driverId}::text, 'payload', ${json}::jsonb)::text
+          )
+          FROM ins
+        `,
+      )
+      .catch((err: unknown) => {
+        console.error('[delivery realtime] publish failed:', err);
+      });
+    this.maybePrune();
+  }
+
+  async replaySince(
+    driverId: string,
+    lastEventId: string,
+  ): Promise<DeliveryRealtimeReplay> {
+    let last: bigint;
+    try {
+      last = BigInt(lastEventId);
+    } catch {
+      return { events: [], complete: false };
+    }
+    const [anchor, rows] = await Promise.all([
+      // The client's last event must still be in the log, or older events were pruned.
+      prisma.deliveryRealtimeEventLog.findUnique({
+        where: { id: last },
+        select: { id: true },
+      }),
+      prisma.deliveryRealtimeEventLog.findMany({
+        where: {
+          driverId,
+          id: { gt: last - REPLAY_ID_LOOKBACK, not: last },
+        },
+        orderBy: { id: 'asc' },
+        take: REPLAY_LIMIT,
+        select: { id: true, payload: true },
+      }),
+    ]);
+    return {
+      events: rows.map((r) => ({
+        id: r.id.toString(),
+        payload: r.payload as unknown as DeliveryRealtimeEvent,
+      })),
+      complete: anchor != null && rows.length < REPLAY_LIMIT,
+    };
+  }
+
+  private ensureListening(): Promise<void> {
+    if (this.client) return Promise.resolve();
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connect(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString });
+    client.on('notification', (msg) => {
+      if (msg.channel !== CHANNEL || !msg.payload) return;
+      try {
+        this.handleMessage(JSON.parse(msg.payload) as NotifyMessage);
+      } catch (err) {
+        console.error('[delivery realtime] bad notification:', err);
+      }
+    });
+    client.on('error', (err) => {
+      console.error('[delivery realtime] listener error:', err);
+      this.dropClient(client);
+    });
+    client.on('end', () => this.dropClient(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (err) {
+      console.error('[delivery realtime] listener connect failed:', err);
+      this.dropClient(client);
+      return;
+    }
+    this.client = client;
+    this.reconnectDelayMs = RECONNECT_MIN_MS;
+    await this.replayMissed();
+  }
+
+  private handleMessage(msg: NotifyMessage): void {
+    if (this.seenIds.has(msg.id)) return;
+    this.seenIds.add(msg.id);
+    if (this.seenIds.size > SEEN_IDS_MAX) {
+      this.seenIds.delete(this.seenIds.values().next().value!);
+    }
+    const id = BigInt(msg.id);
+    if (this.maxSeenId == null || id > this.maxSeenId) this.maxSeenId = id;
+    this.local.dispatch(msg.driverId, msg.payload, msg.id);
+  }
+
+  /** Events published while the listener was down (all drivers, oldest first). */
+  private async replayMissed(): Promise<void> {
+    if (this.maxSeenId == null || !this.local.hasSubscribers()) return;
+    try {
+      const rows = await prisma.deliveryRealtimeEventLog.findMany({
+        where: { id: { gt: this.maxSeenId - REPLAY_ID_LOOKBACK } },
+        orderBy: { id: 'asc' },
+        take: REPLAY_LIMIT,
+        select: { id: true, driverId: true, payload: true },
+      });
+      for (const r of rows) {
+        this.handleMessage({
+          id: r.id.toString(),
+          driverId: r.driverId,
+          payload: r.payload as unknown as DeliveryRealtimeEvent,
+        });
+      }
+    } catch (err) {
+      console.error('[delivery realtime] replay after reconnect failed:', err);
+    }
+  }
+
+  private dropClient(client: Client): void {
+    if (this.client === client) this.client = null;
+    client.removeAllListeners('notification');
+    void client.end().catch(() => {});
+    if (this.reconnectTimer) return;
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(delay * 2, RECONNECT_MAX_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.ensureListening();
+    }, delay);
+  }
+
+  private maybePrune(): void {
+    const now = Date.now();
+    if (now - this.lastPruneAt < PRUNE_EVERY_MS) return;
+    this.lastPruneAt = now;
+    void prisma.deliveryRealtimeEventLog
+      .deleteMany({ where: { createdAt: { lt: new Date(now - RETENTION_MS) } } })
+      .catch((err: unknown) => {
+        console.error('[delivery realtime] prune failed:', err);
+      });
+  }
+}
@@ -1,20 +1,56 @@
 /**
- * In-process pub/sub for delivery realtime (SSE). Single Node process only;
- * for multiple instances use Redis pub/sub or a managed realtime service.
+ * Pub/sub for delivery realtime (SSE). Two backends, picked by `DELIVERY_REALTIME_BUS`:
+ *
+ * - `memory` (default): in-process only. Fine for a single Node instance.
+ * - `postgres`: `LISTEN/NOTIFY` on the app database plus an event log, so every instance
+ *   sees every event and reconnecting streams can backfill from a `Last-Event-ID`.
+ *
+ * LISTEN needs a session connection: `DELIVERY_REALTIME_DATABASE_URL`, else `DIRECT_URL`, else
+ * `DATABASE_URL` when it is not the transaction pooler (`:6543` / `pgbouncer=true`), which hands
+ * the connection back after `LISTEN` so notifications never arrive.
  */
 
 import type { DeliveryRealtimeEvent } from './delivery-realtime-types';
+import { PostgresDeliveryRealtimeBus } from './realtime-bus-postgres';
 
-export class DeliveryRealtimeBus {
-  private listeners = new Map<
+export type DeliveryRealtimeListener = (
+  payload: DeliveryRealtimeEvent,
+  /** SSE event id; pass back as `Last-Event-ID` to replay what was missed. */
+  eventId?: string,
+) => void;
+
+export type DeliveryRealtimeReplay = {
+  events: { id: string; payload: DeliveryRealtimeEvent }[];
+  /** False when events after `lastEventId` were dropped — the client should refetch. */
+  complete: boolean;
+};
+
+export interface DeliveryRealtimeBackend {
+  subscribe(driverId: string, fn: DeliveryRealtimeListener): () => void;
+  publish(driverId: string, payload: DeliveryRealtimeEvent): void;
+  /**
+   * Events for `driverId` published after `lastEventId` (oldest first). May repeat a few events
+   * the client already has; clients dedupe by id.
+   */
+  replaySince(
+    driverId: string,
+    lastEventId: string,
+  ): Promise<DeliveryRealtimeReplay>;
+}
+
+/** Recent events kept per driver for in-memory replay. */
+const MEMORY_REPLAY_SIZE = 100;
+
+/** Per-process fan-out to local SSE subscribers. Also the `memory` backend. */
+export class DeliveryRealtimeBus implements DeliveryRealtimeBackend {
+  private listeners = new Map<string, Set<DeliveryRealtimeListener>>();
+  private recent = new Map<
     string,
-    Set<(payload: DeliveryRealtimeEvent) => void>
+    { id: number; payload: DeliveryRealtimeEvent }[]
   >();
+  private nextId = 1;
 
-  subscribe(
-    driverId: string,
-    fn: (payload: DeliveryRealtimeEvent) => void,
-  ): () => void {
+  subscribe(driverId: string, fn: DeliveryRealtimeListener): () => void {
     if (!this.listeners.has(driverId)) {
       this.listeners.set(driverId, new Set());
     }
@@ -28,25 +64,96 @@ export class DeliveryRealtimeBus {
   }
 
   publish(driverId: string, payload: DeliveryRealtimeEvent): void {
+    const id = this.nextId++;
+    const buf = this.recent.get(driverId) ?? [];
+    buf.push({ id, payload });
+    if (buf.length > MEMORY_REPLAY_SIZE) buf.shift();
+    this.recent.set(driverId, buf);
+    this.dispatch(driverId, payload, String(id));
+  }
+
+  /** Deliver to local subscribers only (used by backends that own ids). */
+  dispatch(
+    driverId: string,
+    payload: DeliveryRealtimeEvent,
+    eventId?: string,
+  ): void {
     const set = this.listeners.get(driverId);
     if (!set) return;
     for (const fn of set) {
       try {
-        fn(payload);
+        fn(payload, eventId);
       } catch {
         // ignore subscriber errors
       }
     }
   }
+
+  hasSubscribers(): boolean {
+    return this.listeners.size > 0;
+  }
+
+  async replaySince(
+    driverId: string,
+    lastEventId: string,
+  ): Promise<DeliveryRealtimeReplay> {
+    const last = Number(lastEventId);
+    // Ids restart with the process; an id from before a restart cannot be replayed.
+    if (!Number.isInteger(last) || last >= this.nextId) {
+      return { events: [], complete: false };
+    }
+    const buf = this.recent.get(driverId) ?? [];
+    const events = buf
+      .filter((e) => e.id > last)
+      .map((e) => ({ id: String(e.id), payload: e.payload }));
+    // A full buffer that starts after `last` may have dropped some (ids are shared
+    // across drivers, so this can over-report — a spare refetch is harmless).
+    const dropped = buf.length === MEMORY_REPLAY_SIZE && buf[0].id > last + 1;
+    return { events, complete: !dropped };
+  }
 }
 
 const g = globalThis as unknown as {
-  __deliveryRealtimeBus?: DeliveryRealtimeBus;
+  __deliveryRealtimeBus?: DeliveryRealtimeBackend;
 };
 
-export function getDeliveryRealtimeBus(): DeliveryRealtimeBus {
+function isTransactionPoolerUrl(url: string): boolean {
+  return /:6543\//.test(url) || /[?&]pgbouncer=true/.test(url);
+}
+
+/** Connection string the `LISTEN` client can hold a session on, or null. */
+function realtimeListenUrl(): string | null {
+  const candidates = [
+    process.env.DELIVERY_REALTIME_DATABASE_URL,
+    process.env.DIRECT_URL,
+    process.env.DATABASE_URL,
+  ];
+  for (const url of candidates) {
+    const trimmed = url?.trim();
+    if (trimmed && !isTransactionPoolerUrl(trimmed)) return trimmed;
+  }
+  return null;
+}
+
+function createDeliveryRealtimeBus(): DeliveryRealtimeBackend {
+  const kind = (process.env.DELIVERY_REALTIME_BUS ?? 'memory').toLowerCase();
+  if (kind === 'postgres') {
+    const listenUrl = realtimeListenUrl();
+    if (listenUrl) {
+      return new PostgresDeliveryRealtimeBus(listenUrl, new DeliveryRealtimeBus());
+    }
+    console.error(
+      '[delivery realtime] DELIVERY_REALTIME_BUS=postgres needs a session-mode or direct URL ' +
+        '(DELIVERY_REALTIME_DATABASE_URL or DIRECT_URL); LISTEN does not work through the ' +
+        'transaction pooler. Falling back to the in-memory bus (this instance only).',
+    );
+  }
+  return new DeliveryRealtimeBus();
+}
+
+export function getDeliveryRealtimeBus(): DeliveryRealtimeBackend {
   if (!g.__deliveryRealtimeBus) {
-    g.__deliveryRealtimeBus = new DeliveryRealtimeBus();
+    g.__deliveryRealtimeBus = createDeliveryRealtimeBus();
   }
   return g.__deliveryRealtimeBus;
 }
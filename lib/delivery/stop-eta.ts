@@ -0,0 +1,205 @@
+/**
+ * Planned vs actual / live ETA for a driver's stops on one day.
+ *
+ * Live ETAs start from the latest GPS ping (or the stop the driver is at) and walk the remaining
+ * stops in sequence with straight-line distance and the route optimizer's speed / service-time
+ * assumptions. Planned windows are Vancouver wall-clock times on the schedule date.
+ */
+
+import { prisma } from '@/lib/core/prisma';
+import {
+  ROUTE_SERVICE_MINUTES,
+  ROUTE_SPEED_KMH,
+  haversineKm,
+} from '@/features/delivery/lib/route-optimizer';
+import type { StopEta } from '@/features/delivery/types/delivery-schedule-types';
+import { vancouverWallTimeToDate } from '@/features/order/office/utils/vancouver-datetime';
+import { emitDeliveryRealtimeEvent } from './emit-delivery-realtime';
+
+/** Pings older than this don't say where the truck is now. */
+const PING_MAX_AGE_MS = 20 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+/** Minimum gap between ping-triggered late checks for one driver. */
+const LATE_CHECK_INTERVAL_MS = MINUTE_MS;
+/** Last ping-triggered late check per driver (this server instance). */
+const lastLateCheckAt = new Map<string, number>();
+
+type EtaStopInput = {
+  id: string;
+  lat: number | null;
+  lng: number | null;
+  arrivedAt: Date | null;
+  departedAt: Date | null;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+};
+
+type Ping = { lat: number; lng: number; createdAt: Date };
+
+function lateMinutesAt(at: Date, end: Date | null): number {
+  if (!end || at <= end) return 0;
+  return Math.ceil((at.getTime() - end.getTime()) / MINUTE_MS);
+}
+
+export function computeStopEtas(
+  dateStr: string,
+  stops: EtaStopInput[],
+  lastPing: Ping | null,
+  now: Date,
+): StopEta[] {
+  const windowAt = (hhmm: string | null) =>
+    hhmm ? vancouverWallTimeToDate(dateStr, hhmm) : null;
+
+  let lastArrivedIdx = -1;
+  stops.forEach((s, i) => {
+    if (s.arrivedAt) lastArrivedIdx = i;
+  });
+  const lastArrived = lastArrivedIdx >= 0 ? stops[lastArrivedIdx] : null;
+
+  // Where the truck is and when it can leave for the next stop.
+  let pos: { lat: number; lng: number } | null = null;
+  let clock = now.getTime();
+  const pingIsFresh =
+    lastPing != null && now.getTime() - lastPing.createdAt.getTime() <= PING_MAX_AGE_MS;
+  if (
+    pingIsFresh &&
+    (!lastArrived?.arrivedAt || lastPing.createdAt >= lastArrived.arrivedAt)
+  ) {
+    pos = lastPing;
+  } else if (lastArrived?.lat != null && lastArrived.lng != null) {
+    pos = { lat: lastArrived.lat, lng: lastArrived.lng };
+  }
+  if (lastArrived?.arrivedAt && !lastArrived.departedAt) {
+    clock = Math.max(
+      clock,
+      lastArrived.arrivedAt.getTime() + ROUTE_SERVICE_MINUTES * MINUTE_MS,
+    );
+  }
+
+  return stops.map((s, i) => {
+    const end = windowAt(s.plannedEnd);
+    const base = {
+      stopId: s.id,
+      plannedStart: s.plannedStart,
+      plannedEnd: s.plannedEnd,
+    };
+    if (s.arrivedAt) {
+      const lateMinutes = lateMinutesAt(s.arrivedAt, end);
+      return {
+        ...base,
+        arrived: true,
+        etaAt: s.arrivedAt.toISOString(),
+        late: lateMinutes > 0,
+        lateMinutes,
+      };
+    }
+
+    let eta: Date | null = null;
+    // Stops before the last arrival were skipped; only project the ones still ahead.
+    if (i > lastArrivedIdx && pos) {
+      if (s.lat != null && s.lng != null) {
+        clock += (haversineKm(pos, { lat: s.lat, lng: s.lng }) / ROUTE_SPEED_KMH) * 60 * MINUTE_MS;
+        pos = { lat: s.lat, lng: s.lng };
+      }
+      eta = new Date(clock);
+      const start = windowAt(s.plannedStart);
+      clock = Math.max(clock, start?.getTime() ?? clock) + ROUTE_SERVICE_MINUTES * MINUTE_MS;
+    }
+    const lateMinutes = lateMinutesAt(eta && eta > now ? eta : now, end);
+    return {
+      ...base,
+      arrived: false,
+      etaAt: eta?.toISOString() ?? null,
+      late: lateMinutes > 0,
+      lateMinutes,
+    };
+  });
+}
+
+const etaStopSelect = {
+  id: true,
+  name: true,
+  lat: true,
+  lng: true,
+  arrivedAt: true,
+  departedAt: true,
+  plannedStart: true,
+  plannedEnd: true,
+  lateNotifiedAt: true,
+} as const;
+
+/** Stops (in sequence) with their ETA for a driver on `dateStr` (YYYY-MM-DD). */
+export async function loadDriverStopEtas(
+  driverId: string,
+  dateStr: string,
+  now = new Date(),
+) {
+  const [stops, lastPing] = await Promise.all([
+    prisma.dailyScheduleStop.findMany({
+      where: { date: new Date(dateStr + 'Z'), driverId },
+      orderBy: { sequence: 'asc' },
+      select: etaStopSelect,
+    }),
+    prisma.driverLocationUpdate.findFirst({
+      where: { driverId, createdAt: { gte: new Date(now.getTime() - PING_MAX_AGE_MS) } },
+      orderBy: { createdAt: 'desc' },
+      select: { lat: true, lng: true, createdAt: true },
+    }),
+  ]);
+  const etas = computeStopEtas(dateStr, stops, lastPing, now);
+  return stops.map((stop, i) => ({ stop, eta: etas[i] }));
+}
+
+/**
+ * Push a `stop_late` realtime event for stops that just became projected late (once per stop
+ * until the ETA is back inside the window, which clears `lateNotifiedAt`).
+ * Called after driver pings and arrivals; pings pass `throttle` so the check runs at most once a
+ * minute per driver. Errors are logged, never thrown.
+ */
+export async function pushNewlyLateStops(
+  driverId: string,
+  dateStr: string,
+  options: { throttle?: boolean } = {},
+): Promise<void> {
+  const now = Date.now();
+  if (options.throttle) {
+    const last = lastLateCheckAt.get(driverId);
+    if (last != null && now - last < LATE_CHECK_INTERVAL_MS) return;
+  }
+  lastLateCheckAt.set(driverId, now);
+  try {
+    const rows = await loadDriverStopEtas(driverId, dateStr);
+    const backOnTime = rows.filter(
+      (r) => !r.eta.late && !r.eta.arrived && r.stop.lateNotifiedAt,
+    );
+    if (backOnTime.length > 0) {
+      await prisma.dailyScheduleStop.updateMany({
+        where: { id: { in: backOnTime.map((r) => r.stop.id) } },
+        data: { lateNotifiedAt: null },
+      });
+    }
+    const newlyLate = rows.filter(
+      (r) => r.eta.late && !r.eta.arrived && !r.stop.lateNotifiedAt,
+    );
+    if (newlyLate.length === 0) return;
+    await prisma.dailyScheduleStop.updateMany({
+      where: { id: { in: newlyLate.map((r) => r.stop.id) } },
+      data: { lateNotifiedAt: new Date() },
+    });
+    emitDeliveryRealtimeEvent({
+      type: 'stop_late',
+      driverId,
+      date: dateStr,
+      origin: 'driver',
+      lateStops: newlyLate.map((r) => ({
+        stopId: r.stop.id,
+        name: r.stop.name,
+        lateMinutes: r.eta.lateMinutes,
+      })),
+    });
+  } catch (err) {
+    console.error('[delivery eta] late stop check failed:', err);
+  }
+}
@@ -0,0 +1,122 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import type { InventoryMovementReason } from '@/features/order/inventory/types';
+
+type DbClient = typeof prisma | Prisma.TransactionClient;
+
+export type StockMovementInput = {
+  locationId: string;
+  variantGid: string;
+  quantityDelta: number;
+  reason: InventoryMovementReason;
+  note?: string | null;
+  purchaseOrderLineItemId?: string | null;
+  fulfillmentLineItemId?: string | null;
+  userId?: string | null;
+  /** Refreshes the level's display labels when provided. */
+  labels?: {
+    productTitle?: string | null;
+    variantTitle?: string | null;
+    sku?: string | null;
+  };
+};
+
+/**
+ * Writes one ledger row per movement and bumps `InventoryLevel.onHand` by the
+ * same delta. Zero deltas are skipped. Run inside the caller's transaction so
+ * stock stays in step with the PO / fulfillment change that caused it.
+ */
+export async function applyStockMovements(
+  db: DbClient,
+  movements: StockMovementInput[],
+): Promise<void> {
+  for (const m of movements) {
+    if (m.quantityDelta === 0) continue;
+    const labels = {
+      ...(m.labels?.productTitle && { productTitle: m.labels.productTitle }),
+      ...(m.labels?.variantTitle && { variantTitle: m.labels.variantTitle }),
+      ...(m.labels?.sku && { sku: m.labels.sku }),
+    };
+    await db.inventoryLevel.upsert({
+      where: {
+        locationId_variantGid: {
+          locationId: m.locationId,
+          variantGid: m.variantGid,
+        },
+      },
+      create: {
+        locationId: m.locationId,
+        variantGid: m.variantGid,
+        onHand: m.quantityDelta,
+        ...labels,
+      },
+      update: { onHand: { increment: m.quantityDelta }, ...labels },
+    });
+    await db.inventoryMovement.create({
+      data: {
+        locationId: m.locationId,
+        variantGid: m.variantGid,
+        quantityDelta: m.quantityDelta,
+        reason: m.reason,
+        note: m.note ?? null,
+        purchaseOrderLineItemId: m.purchaseOrderLineItemId ?? null,
+        fulfillmentLineItemId: m.fulfillmentLineItemId ?? null,
+        userId: m.userId ?? null,
+      },
+    });
+  }
+}
+
+/** The one `Location` behind a ship-to preset; null when unset or shared by several. */
+export function singlePresetLocationId(
+  preset: { locations: { id: string }[] } | null | undefined,
+): string | null {
+  const locations = preset?.locations ?? [];
+  return locations.length === 1 ? locations[0].id : null;
+}
+
+/**
+ * Location a PO's goods land at: the single `Location` linked to the PO's
+ * ship-to preset. Null when the preset is unset or shared by several
+ * locations — the receiver must then name the location explicitly.
+ */
+export async function resolvePurchaseOrderStockLocationId(
+  db: DbClient,
+  purchaseOrderId: string,
+): Promise<string | null> {
+  const po = await db.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    select: {
+      deliveryLocationPreset: {
+        select: { locations: { select: { id: true }, take: 2 } },
+      },
+    },
+  });
+  return singlePresetLocationId(po?.deliveryLocationPreset);
+}
+
+/**
+ * Where each PO line's stock was received (latest `po_received` movement),
+ * so deliveries draw down the same location.
+ */
+export async function findReceivedStockLocations(
+  db: DbClient,
+  purchaseOrderLineItemIds: string[],
+): Promise<Map<string, string>> {
+  if (purchaseOrderLineItemIds.length === 0) return new Map();
+  const rows = await db.inventoryMovement.findMany({
+    where: {
+      reason: 'po_received',
+      purchaseOrderLineItemId: { in: purchaseOrderLineItemIds },
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { purchaseOrderLineItemId: true, locationId: true },
+  });
+  const out = new Map<string, string>();
+  for (const r of rows) {
+    if (r.purchaseOrderLineItemId) {
+      out.set(r.purchaseOrderLineItemId, r.locationId);
+    }
+  }
+  return out;
+}
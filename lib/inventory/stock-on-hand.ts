@@ -0,0 +1,242 @@
+import { prisma } from '@/lib/core/prisma';
+import type { InventoryStockRow } from '@/features/order/inventory/types';
+import {
+  findReceivedStockLocations,
+  singlePresetLocationId,
+} from './stock-movements';
+
+/** Shopify display fulfillment statuses counted as open demand. */
+const OPEN_DEMAND_ORDER_STATUSES = [
+  'UNFULFILLED',
+  'PARTIALLY_FULFILLED',
+  'IN_PROGRESS',
+  'SCHEDULED',
+  'ON_HOLD',
+];
+
+/** PO statuses whose unreceived quantity is still on its way. */
+export const OPEN_PO_STATUSES = ['pending', 'unfulfilled', 'partially_fulfilled'];
+
+/** Ship-to preset locations, enough to tell whether a preset resolves to one location. */
+const PRESET_LOCATIONS_SELECT = {
+  locations: { select: { id: true }, take: 2 },
+} as const;
+
+/**
+ * Stock on hand at one location next to open demand and open PO quantities,
+ * per variant. Variants with demand but no stock row are included so the
+ * office sees shortfalls before creating POs; so are variants with only a
+ * par level.
+ *
+ * Every quantity uses the same location model as receiving: a PO line's stock
+ * location is where it was received, else the single location of its PO's
+ * ship-to preset. On order counts open PO lines resolving here. Demand counts
+ * open order lines whose linked PO lines resolve here (partially fulfilled lines
+ * net of what those lines already received); unlinked lines fall back to the
+ * order customer's presets when they resolve to exactly one location.
+ */
+export async function loadLocationStock(
+  locationId: string,
+): Promise<InventoryStockRow[]> {
+  const poLineAtLocation = {
+    OR: [
+      { inventoryMovements: { some: { reason: 'po_received', locationId } } },
+      {
+        purchaseOrder: {
+          deliveryLocationPreset: { locations: { some: { id: locationId } } },
+        },
+      },
+    ],
+  };
+  const poLineLocationSelect = {
+    id: true,
+    purchaseOrder: {
+      select: { deliveryLocationPreset: { select: PRESET_LOCATIONS_SELECT } },
+    },
+  } as const;
+
+  const [levels, demandLines, onOrderLines, parLevels] = await Promise.all([
+    prisma.inventoryLevel.findMany({
+      where: { locationId },
+      select: {
+        variantGid: true,
+        productTitle: true,
+        variantTitle: true,
+        sku: true,
+        onHand: true,
+        lastCountedAt: true,
+      },
+    }),
+    prisma.shopifyOrderLineItem.findMany({
+      where: {
+        variantGid: { not: null },
+        quantity: { gt: 0 },
+        order: {
+          archivedAt: null,
+          displayFulfillmentStatus: { in: OPEN_DEMAND_ORDER_STATUSES },
+        },
+        OR: [
+          { purchaseOrderLineItems: { some: poLineAtLocation } },
+          {
+            order: {
+              customer: {
+                deliveryLocationPresets: {
+                  some: { locations: { some: { id: locationId } } },
+                },
+              },
+            },
+          },
+        ],
+      },
+      select: {
+        variantGid: true,
+        title: true,
+        variantTitle: true,
+        sku: true,
+        quantity: true,
+        purchaseOrderLineItems: {
+          select: { ...poLineLocationSelect, quantityReceived: true },
+        },
+        order: {
+          select: {
+            customer: {
+              select: {
+                deliveryLocationPresets: {
+                  select: { locations: { select: { id: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+    prisma.purchaseOrderLineItem.findMany({
+      where: {
+        shopifyVariantGid: { not: null },
+        purchaseOrder: {
+          archivedAt: null,
+          status: { in: OPEN_PO_STATUSES },
+        },
+        ...poLineAtLocation,
+      },
+      select: {
+        ...poLineLocationSelect,
+        shopifyVariantGid: true,
+        quantity: true,
+        quantityReceived: true,
+      },
+    }),
+    prisma.inventoryParLevel.findMany({
+      where: { locationId },
+      select: {
+        variantGid: true,
+        productTitle: true,
+        variantTitle: true,
+        sku: true,
+        parLevel: true,
+        reorderPoint: true,
+        supplier: { select: { id: true, company: true } },
+      },
+    }),
+  ]);
+
+  const receivedAt = await findReceivedStockLocations(prisma, [
+    ...new Set([
+      ...onOrderLines.map((l) => l.id),
+      ...demandLines.flatMap((li) => li.purchaseOrderLineItems.map((p) => p.id)),
+    ]),
+  ]);
+  const poLineLocationId = (line: {
+    id: string;
+    purchaseOrder: { deliveryLocationPreset: { locations: { id: string }[] } | null };
+  }): string | null =>
+    receivedAt.get(line.id) ??
+    singlePresetLocationId(line.purchaseOrder.deliveryLocationPreset);
+
+  const rows = new Map<string, InventoryStockRow>();
+  const rowFor = (
+    variantGid: string,
+    labels: Pick<InventoryStockRow, 'productTitle' | 'variantTitle' | 'sku'>,
+  ): InventoryStockRow => {
+    let row = rows.get(variantGid);
+    if (!row) {
+      row = {
+        variantGid,
+        ...labels,
+        onHand: 0,
+        openDemand: 0,
+        onOrder: 0,
+        shortfall: 0,
+        lastCountedAt: null,
+        par: null,
+      };
+      rows.set(variantGid, row);
+    }
+    return row;
+  };
+
+  for (const l of levels) {
+    const row = rowFor(l.variantGid, {
+      productTitle: l.productTitle,
+      variantTitle: l.variantTitle,
+      sku: l.sku,
+    });
+    row.onHand = l.onHand;
+    row.lastCountedAt = l.lastCountedAt?.toISOString() ?? null;
+  }
+
+  for (const li of demandLines) {
+    if (!li.variantGid) continue;
+    const customerLocationIds = new Set(
+      (li.order.customer?.deliveryLocationPresets ?? []).flatMap((p) =>
+        p.locations.map((l) => l.id),
+      ),
+    );
+    const demandLocationId =
+      li.purchaseOrderLineItems.map(poLineLocationId).find((id) => id != null) ??
+      (customerLocationIds.size === 1 ? [...customerLocationIds][0] : null);
+    if (demandLocationId !== locationId) continue;
+    const received = li.purchaseOrderLineItems.reduce(
+      (sum, p) => sum + p.quantityReceived,
+      0,
+    );
+    const open = Math.max(0, li.quantity - received);
+    if (open === 0) continue;
+    rowFor(li.variantGid, {
+      productTitle: li.title,
+      variantTitle: li.variantTitle,
+      sku: li.sku,
+    }).openDemand += open;
+  }
+
+  for (const p of parLevels) {
+    rowFor(p.variantGid, {
+      productTitle: p.productTitle,
+      variantTitle: p.variantTitle,
+      sku: p.sku,
+    }).par = {
+      supplierId: p.supplier.id,
+      supplierCompany: p.supplier.company,
+      parLevel: p.parLevel,
+      reorderPoint: p.reorderPoint,
+    };
+  }
+
+  for (const l of onOrderLines) {
+    if (!l.shopifyVariantGid || poLineLocationId(l) !== locationId) continue;
+    const row = rows.get(l.shopifyVariantGid);
+    if (!row) continue;
+    row.onOrder += Math.max(0, l.quantity - l.quantityReceived);
+  }
+
+  return [...rows.values()]
+    .map((r) => ({
+      ...r,
+      shortfall: Math.max(0, r.openDemand - r.onHand - r.onOrder),
+    }))
+    .sort(
+      (a, b) =>
+        b.shortfall - a.shortfall ||
+        (a.productTitle ?? '').localeCompare(b.productTitle ?? ''),
+    );
+}
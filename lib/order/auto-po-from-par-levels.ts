@@ -0,0 +1,266 @@
+/**
+ * Auto POs from inventory par levels (replaces re-importing Shopify "Auto PO" CSV exports).
+ *
+ * For each location, a variant whose stock position (on hand + on order) is at or below its reorder
+ * point is topped back up to par. Lines are grouped into one draft PO per supplier with `isAuto` and
+ * hub `status = pending`, so they wait on the PO Pending tab / Inbox strip until the office approves
+ * them (clears pending). Expected dates follow the supplier's delivery schedule.
+ *
+ * On order and ship-to come from the location's delivery preset, so locations without one are
+ * skipped. A supplier that still has an unapproved auto draft for the location is skipped too — the
+ * office approves or deletes the draft before the next one is proposed.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { logAudit } from '@/lib/audit/audit-log';
+import { findPurchaseOrderAuditSnapshot } from '@/lib/audit/audit-snapshots';
+import { OPEN_PO_STATUSES } from '@/lib/inventory/stock-on-hand';
+import { computeDefaultExpectedYmd } from '@/lib/order/supplier-delivery-default-date';
+import { parseSupplierDeliverySchedule } from '@/lib/order/supplier-delivery-schedule';
+import { loadVariantOfficeNotesMap } from '@/lib/order/shopify-variant-office-note';
+import { nextPurchaseOrderNumber } from '@/lib/order/next-po-number';
+import { deliveryLocationPresetToPoAddress } from '@/features/order/office/utils/delivery-location-preset-to-po-address';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+
+const parLevelInclude = {
+  location: {
+    select: {
+      id: true,
+      code: true,
+      deliveryLocationPreset: {
+        select: {
+          id: true,
+          address1: true,
+          address2: true,
+          city: true,
+          province: true,
+          postalCode: true,
+          country: true,
+        },
+      },
+    },
+  },
+  supplier: { select: { id: true, company: true, deliverySchedule: true } },
+} satisfies Prisma.InventoryParLevelInclude;
+
+type ParLevelRow = Prisma.InventoryParLevelGetPayload<{
+  include: typeof parLevelInclude;
+}>;
+
+type DraftLine = { par: ParLevelRow; quantity: number };
+
+export type AutoPoDraftSummary = {
+  purchaseOrderId: string;
+  poNumber: string;
+  supplierCompany: string;
+  locationCode: string;
+  lineCount: number;
+};
+
+export type GenerateAutoPurchaseOrdersResult = {
+  created: AutoPoDraftSummary[];
+  /** Location codes with par levels but no delivery preset. */
+  skippedLocations: string[];
+  /** Supplier × location pairs below reorder point that already had an open auto draft. */
+  skippedOpenDrafts: number;
+};
+
+/** Quantity to order so on hand + on order reaches par; 0 while above the reorder point. */
+function parReorderQuantity(
+  par: { parLevel: number; reorderPoint: number },
+  onHand: number,
+  onOrder: number,
+): number {
+  const position = onHand + onOrder;
+  if (position > par.reorderPoint) return 0;
+  return Math.max(0, par.parLevel - position);
+}
+
+/** Draft auto POs for every location and supplier whose par-level variants need reordering. */
+export async function generateAutoPurchaseOrders(
+  args: {
+    actorId?: string | null;
+    route?: string | null;
+    now?: Date;
+  } = {},
+): Promise<GenerateAutoPurchaseOrdersResult> {
+  const result: GenerateAutoPurchaseOrdersResult = {
+    created: [],
+    skippedLocations: [],
+    skippedOpenDrafts: 0,
+  };
+  const todayYmd = toVancouverYmd(args.now ?? new Date());
+
+  const parLevels = await prisma.inventoryParLevel.findMany({
+    include: parLevelInclude,
+    orderBy: [{ locationId: 'asc' }, { productTitle: 'asc' }],
+  });
+
+  const byLocation = new Map<string, ParLevelRow[]>();
+  for (const p of parLevels) {
+    const list = byLocation.get(p.locationId) ?? [];
+    list.push(p);
+    byLocation.set(p.locationId, list);
+  }
+
+  for (const [locationId, pars] of byLocation) {
+    const location = pars[0].location;
+    const preset = location.deliveryLocationPreset;
+    if (!preset) {
+      result.skippedLocations.push(location.code);
+      continue;
+    }
+
+    const variantGids = pars.map((p) => p.variantGid);
+    const [levels, onOrderGroups, openDrafts] = await Promise.all([
+      prisma.inventoryLevel.findMany({
+        where: { locationId, variantGid: { in: variantGids } },
+        select: { variantGid: true, onHand: true },
+      }),
+      prisma.purchaseOrderLineItem.groupBy({
+        by: ['shopifyVariantGid'],
+        where: {
+          shopifyVariantGid: { in: variantGids },
+          purchaseOrder: {
+            archivedAt: null,
+            status: { in: OPEN_PO_STATUSES },
+            deliveryLocationPresetId: preset.id,
+          },
+        },
+        _sum: { quantity: true, quantityReceived: true },
+      }),
+      prisma.purchaseOrder.findMany({
+        where: {
+          isAuto: true,
+          status: 'pending',
+          archivedAt: null,
+          deliveryLocationPresetId: preset.id,
+        },
+        select: { supplierId: true },
+      }),
+    ]);
+
+    const onHandByVariant = new Map(levels.map((l) => [l.variantGid, l.onHand]));
+    const onOrderByVariant = new Map(
+      onOrderGroups.map((g) => [
+        g.shopifyVariantGid,
+        Math.max(0, (g._sum.quantity ?? 0) - (g._sum.quantityReceived ?? 0)),
+      ]),
+    );
+    const suppliersWithDraft = new Set(openDrafts.map((d) => d.supplierId));
+
+    const linesBySupplier = new Map<string, DraftLine[]>();
+    for (const par of pars) {
+      const quantity = parReorderQuantity(
+        par,
+        onHandByVariant.get(par.variantGid) ?? 0,
+        onOrderByVariant.get(par.variantGid) ?? 0,
+      );
+      if (quantity === 0) continue;
+      const lines = linesBySupplier.get(par.supplierId) ?? [];
+      lines.push({ par, quantity });
+      linesBySupplier.set(par.supplierId, lines);
+    }
+
+    for (const [supplierId, lines] of linesBySupplier) {
+      if (suppliersWithDraft.has(supplierId)) {
+        result.skippedOpenDrafts++;
+        continue;
+      }
+      const supplier = lines[0].par.supplier;
+      const expectedYmd = computeDefaultExpectedYmd({
+        schedule: parseSupplierDeliverySchedule(supplier.deliverySchedule),
+        referenceYmd: todayYmd,
+        creationYmd: todayYmd,
+      });
+      const po = await createAutoDraft({
+        supplierId,
+        presetId: preset.id,
+        shippingAddress: deliveryLocationPresetToPoAddress(preset),
+        expectedYmd,
+        comment: `Auto PO from par levels — ${location.code}`,
+        lines,
+      });
+
+      await logAudit({
+        entityType: 'purchase_order',
+        entityId: po.id,
+        entityLabel: po.poNumber,
+        action: 'created',
+        after: await findPurchaseOrderAuditSnapshot(po.id),
+        actorId: args.actorId ?? null,
+        route: args.route ?? null,
+      });
+
+      result.created.push({
+        purchaseOrderId: po.id,
+        poNumber: po.poNumber,
+        supplierCompany: supplier.company,
+        locationCode: location.code,
+        lineCount: lines.length,
+      });
+    }
+  }
+
+  return result;
+}
+
+async function createAutoDraft(draft: {
+  supplierId: string;
+  presetId: string;
+  shippingAddress: ReturnType<typeof deliveryLocationPresetToPoAddress>;
+  expectedYmd: string;
+  comment: string;
+  lines: DraftLine[];
+}): Promise<{ id: string; poNumber: string }> {
+  const variantGids = draft.lines.map((l) => l.par.variantGid);
+  // Last price paid to this supplier per variant, so the draft is priced like the previous order.
+  const lastPrices = await prisma.purchaseOrderLineItem.findMany({
+    where: {
+      shopifyVariantGid: { in: variantGids },
+      itemPrice: { not: null },
+      purchaseOrder: { supplierId: draft.supplierId },
+    },
+    orderBy: { purchaseOrder: { dateCreated: 'desc' } },
+    distinct: ['shopifyVariantGid'],
+    select: { shopifyVariantGid: true, itemPrice: true },
+  });
+  const priceByVariant = new Map(
+    lastPrices.map((p) => [p.shopifyVariantGid, p.itemPrice]),
+  );
+
+  return prisma.$transaction(async (tx) => {
+    const noteByVariant = await loadVariantOfficeNotesMap(tx, variantGids);
+    const created = await tx.purchaseOrder.create({
+      data: {
+        poNumber: await nextPurchaseOrderNumber(tx),
+        poType: 'stock',
+        currency: 'CAD',
+        isAuto: true,
+        status: 'pending',
+        dateCreated: new Date(),
+        expectedDate: new Date(draft.expectedYmd),
+        comment: draft.comment,
+        supplierId: draft.supplierId,
+        shippingAddress: draft.shippingAddress,
+        deliveryLocationPresetId: draft.presetId,
+      },
+      select: { id: true, poNumber: true },
+    });
+    await tx.purchaseOrderLineItem.createMany({
+      data: draft.lines.map(({ par, quantity }, idx) => ({
+        purchaseOrderId: created.id,
+        sequence: idx + 1,
+        quantity,
+        sku: par.sku,
+        variantTitle: par.variantTitle,
+        productTitle: par.productTitle,
+        itemPrice: priceByVariant.get(par.variantGid) ?? null,
+        shopifyVariantGid: par.variantGid,
+        note: noteByVariant.get(par.variantGid) ?? null,
+      })),
+    });
+    return created;
+  });
+}
@@ -0,0 +1,214 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { resolveCustomerDisplayName } from '@/lib/order/resolve-customer-display-name';
+import type {
+  DriverFulfillment,
+  DriverFulfillmentStage,
+  DriverOpenOrder,
+  DriverStop,
+} from '@/features/order/driver/types';
+
+/** Shopify display fulfillment statuses that still have goods to deliver. */
+export const DRIVER_OPEN_ORDER_STATUSES = [
+  'UNFULFILLED',
+  'PARTIALLY_FULFILLED',
+  'IN_PROGRESS',
+  'SCHEDULED',
+] as const;
+
+/** Fulfillment statuses that mean the goods are still on the truck. */
+export const DRIVER_ACTIVE_FULFILLMENT_STATUSES = ['PENDING', 'OPEN'] as const;
+
+export const driverFulfillmentSelect = {
+  id: true,
+  status: true,
+  pickedUpAt: true,
+  inTransitAt: true,
+  deliveredAt: true,
+  recipientName: true,
+  signatureImage: true,
+  shopifyOrder: { select: { name: true } },
+  lineItems: {
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      quantity: true,
+      deliveredQuantity: true,
+      shopifyOrderLineItem: {
+        select: {
+          title: true,
+          variantTitle: true,
+          sku: true,
+          imageUrl: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.FulfillmentSelect;
+
+type DriverFulfillmentRecord = Prisma.FulfillmentGetPayload<{
+  select: typeof driverFulfillmentSelect;
+}>;
+
+function fulfillmentStage(f: DriverFulfillmentRecord): DriverFulfillmentStage {
+  if (f.status === 'CANCELLED' || f.status === 'FAILURE') return 'cancelled';
+  if (f.deliveredAt) return 'delivered';
+  if (f.inTransitAt) return 'in_transit';
+  return 'picked_up';
+}
+
+export function mapDriverFulfillment(
+  f: DriverFulfillmentRecord,
+): DriverFulfillment {
+  return {
+    id: f.id,
+    stage: fulfillmentStage(f),
+    orderName: f.shopifyOrder?.name ?? null,
+    pickedUpAt: f.pickedUpAt?.toISOString() ?? null,
+    inTransitAt: f.inTransitAt?.toISOString() ?? null,
+    deliveredAt: f.deliveredAt?.toISOString() ?? null,
+    recipientName: f.recipientName,
+    hasSignature: Boolean(f.signatureImage),
+    lineItems: f.lineItems.map((li) => ({
+      id: li.id,
+      title: li.shopifyOrderLineItem?.title ?? null,
+      variantTitle: li.shopifyOrderLineItem?.variantTitle ?? null,
+      sku: li.shopifyOrderLineItem?.sku ?? null,
+      imageUrl: li.shopifyOrderLineItem?.imageUrl ?? null,
+      quantity: li.quantity,
+      deliveredQuantity: li.deliveredQuantity,
+    })),
+  };
+}
+
+/**
+ * Shopify orders a driver can pick up for a customer: not archived, still
+ * (partly) unfulfilled, and not already on a truck.
+ */
+export function driverOpenOrderWhere(
+  customerIds: string[],
+): Prisma.ShopifyOrderWhereInput {
+  return {
+    customerId: { in: customerIds },
+    archivedAt: null,
+    displayFulfillmentStatus: { in: [...DRIVER_OPEN_ORDER_STATUSES] },
+    fulfillments: {
+      none: { status: { in: [...DRIVER_ACTIVE_FULFILLMENT_STATUSES] } },
+    },
+  };
+}
+
+/**
+ * The driver's stops for one schedule day with the fulfillments picked up for
+ * each stop and the customer's open orders that can still be picked up.
+ * Stops resolve their customer via `DeliveryLocation.locationId` → `Location`
+ * → `DeliveryLocationPreset.shopifyCustomer` (same link as `/order/location`).
+ */
+export async function loadDriverStops(
+  driverId: string,
+  date: Date,
+): Promise<DriverStop[]> {
+  const stops = await prisma.dailyScheduleStop.findMany({
+    where: { date, driverId },
+    orderBy: { sequence: 'asc' },
+    select: {
+      id: true,
+      sequence: true,
+      name: true,
+      address: true,
+      arrivedAt: true,
+      departedAt: true,
+      deliveryLocation: { select: { locationId: true } },
+      fulfillments: {
+        orderBy: { createdAt: 'asc' },
+        select: driverFulfillmentSelect,
+      },
+    },
+  });
+
+  const locationIds = [
+    ...new Set(
+      stops.flatMap((s) =>
+        s.deliveryLocation?.locationId ? [s.deliveryLocation.locationId] : [],
+      ),
+    ),
+  ];
+  const locations =
+    locationIds.length > 0
+      ? await prisma.location.findMany({
+          where: { id: { in: locationIds } },
+          select: {
+            id: true,
+            deliveryLocationPreset: {
+              select: {
+                shopifyCustomer: {
+                  select: {
+                    id: true,
+                    displayName: true,
+                    displayNameOverride: true,
+                    company: true,
+                    email: true,
+                  },
+                },
+              },
+            },
+          },
+        })
+      : [];
+  const customerByLocationId = new Map(
+    locations.flatMap((l) => {
+      const customer = l.deliveryLocationPreset?.shopifyCustomer;
+      return customer ? [[l.id, customer] as const] : [];
+    }),
+  );
+
+  const customerIds = [
+    ...new Set([...customerByLocationId.values()].map((c) => c.id)),
+  ];
+  const openOrders =
+    customerIds.length > 0
+      ? await prisma.shopifyOrder.findMany({
+          where: driverOpenOrderWhere(customerIds),
+          orderBy: [{ processedAt: 'asc' }, { orderNumber: 'asc' }],
+          select: {
+            id: true,
+            name: true,
+            customerId: true,
+            lineItems: {
+              where: { quantity: { gt: 0 } },
+              select: {
+                id: true,
+                title: true,
+                variantTitle: true,
+                quantity: true,
+                imageUrl: true,
+              },
+            },
+          },
+        })
+      : [];
+  const openOrdersByCustomerId = new Map<string, DriverOpenOrder[]>();
+  for (const o of openOrders) {
+    if (!o.customerId || o.lineItems.length === 0) continue;
+    const list = openOrdersByCustomerId.get(o.customerId) ?? [];
+    list.push({ id: o.id, name: o.name, lineItems: o.lineItems });
+    openOrdersByCustomerId.set(o.customerId, list);
+  }
+
+  return stops.map((s) => {
+    const customer = s.deliveryLocation?.locationId
+      ? customerByLocationId.get(s.deliveryLocation.locationId)
+      : undefined;
+    return {
+      id: s.id,
+      sequence: s.sequence,
+      name: s.name,
+      address: s.address,
+      arrivedAt: s.arrivedAt?.toISOString() ?? null,
+      departedAt: s.departedAt?.toISOString() ?? null,
+      customerLabel: customer ? resolveCustomerDisplayName(customer) : null,
+      fulfillments: s.fulfillments.map(mapDriverFulfillment),
+      openOrders: customer ? (openOrdersByCustomerId.get(customer.id) ?? []) : [],
+    };
+  });
+}
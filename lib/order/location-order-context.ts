@@ -0,0 +1,98 @@
+import { prisma } from '@/lib/core/prisma';
+import { resolveCustomerDisplayName } from '@/lib/order/resolve-customer-display-name';
+import type { CreateShopifyOrderMailingInput } from '@/lib/shopify/createShopifyOrder';
+
+export type LocationOrderContext =
+  | {
+      ok: true;
+      location: { id: string; code: string; name: string };
+      preset: { id: string; name: string; addressLine: string };
+      customer: { id: string; shopifyGid: string; label: string };
+      shippingAddress: CreateShopifyOrderMailingInput;
+    }
+  | { ok: false; error: string };
+
+/**
+ * Resolves who a store manager orders as: location → `DeliveryLocationPreset`
+ * (ship-to) → preset's `ShopifyCustomer`. Missing links are reported so the
+ * page can tell the manager to ask the office.
+ */
+export async function resolveLocationOrderContext(
+  locationId: string,
+): Promise<LocationOrderContext> {
+  const location = await prisma.location.findUnique({
+    where: { id: locationId },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      deliveryLocationPreset: {
+        select: {
+          id: true,
+          name: true,
+          company: true,
+          address1: true,
+          address2: true,
+          city: true,
+          province: true,
+          postalCode: true,
+          country: true,
+          shopifyCustomer: {
+            select: {
+              id: true,
+              shopifyGid: true,
+              displayName: true,
+              displayNameOverride: true,
+              company: true,
+              email: true,
+              phone: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!location) return { ok: false, error: 'Location not found.' };
+
+  const preset = location.deliveryLocationPreset;
+  if (!preset) {
+    return {
+      ok: false,
+      error: `${location.code} has no delivery location preset yet.`,
+    };
+  }
+  const customer = preset.shopifyCustomer;
+  if (!customer) {
+    return {
+      ok: false,
+      error: `Delivery preset “${preset.name}” is not linked to a Shopify customer yet.`,
+    };
+  }
+
+  return {
+    ok: true,
+    location: { id: location.id, code: location.code, name: location.name },
+    preset: {
+      id: preset.id,
+      name: preset.name,
+      addressLine: [preset.address1, preset.city, preset.province, preset.postalCode]
+        .filter(Boolean)
+        .join(', '),
+    },
+    customer: {
+      id: customer.id,
+      shopifyGid: customer.shopifyGid,
+      label: resolveCustomerDisplayName(customer),
+    },
+    shippingAddress: {
+      address1: preset.address1,
+      address2: preset.address2 ?? undefined,
+      city: preset.city,
+      zip: preset.postalCode,
+      countryCode: preset.country || 'CA',
+      provinceCode: preset.province,
+      company: preset.company ?? customer.company ?? undefined,
+      phone: customer.phone ?? undefined,
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Next numeric PO number (`AUTO` on create): highest existing number + 1. Call inside the create
+ * transaction; the unique `po_number` index rejects a concurrent duplicate.
+ */
+export async function nextPurchaseOrderNumber(
+  tx: Prisma.TransactionClient,
+): Promise<string> {
+  const latest = await tx.purchaseOrder.findFirst({
+    orderBy: { poNumber: 'desc' },
+    select: { poNumber: true },
+  });
+  const lastNum = latest?.poNumber
+    ? parseInt(latest.poNumber.replace(/\D/g, ''), 10) || 0
+    : 0;
+  return String(lastNum + 1);
+}
@@ -1,3 +1,4 @@
+import { isSmtpConfigured } from '@/lib/core/mailer';
 import type { PoEmailOutboundSettings } from './po-email-settings';
 import {
   resolvePoEmailFromAddress,
@@ -21,11 +22,7 @@ export function buildPoEmailTransportMeta(
 ): PoEmailTransportMeta {
   const smtpUserEmail = (process.env.SMTP_USER ?? '').trim();
   return {
-    smtpAuthConfigured: !!(
-      process.env.SMTP_HOST?.trim() &&
-      smtpUserEmail &&
-      process.env.SMTP_PASS
-    ),
+    smtpAuthConfigured: isSmtpConfigured(),
     smtpUserEmail,
     effectiveFromEmail: resolvePoEmailFromAddress(),
     publicContactEmail: resolvePoEmailPublicContactAddress(),
@@ -1,6 +1,9 @@
 /**
  * Shared Shopify Auto PO CSV → DB import (used by POST /api/order/purchase-orders/import-csv).
  * Supports AbortSignal + progress callbacks for streaming UI.
+ *
+ * Kept for backfilling Shopify app history; new auto POs are drafted from inventory par levels
+ * (`auto-po-from-par-levels.ts`).
  */
 
 import { parse } from 'csv-parse/sync';
@@ -0,0 +1,166 @@
+/**
+ * Cost-change alerts: a PO line whose unit price differs from the variant's previous PO price (the
+ * latest earlier non-pending PO in the same currency) by more than the configured percentage. Checked when a PO is created
+ * or its lines are resynced from Shopify; listed on the office Inbox until dismissed.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { NotFoundError } from '@/lib/core/errors';
+import { mergeProductAndVariantTitle } from '@/features/order/office/types/purchase-order';
+import type { PurchasePriceAlertRow } from '@/features/order/office/types/purchase-price';
+import { loadVariantRecipeUses } from './purchase-price-history';
+
+const PURCHASE_PRICE_ALERT_SETTINGS_ID = 'default';
+export const DEFAULT_PRICE_ALERT_THRESHOLD_PERCENT = 10;
+
+export async function getPurchasePriceAlertThreshold(): Promise<number> {
+  const row = await prisma.purchasePriceAlertSettings.findUnique({
+    where: { id: PURCHASE_PRICE_ALERT_SETTINGS_ID },
+  });
+  return row ? Number(row.thresholdPercent) : DEFAULT_PRICE_ALERT_THRESHOLD_PERCENT;
+}
+
+export async function savePurchasePriceAlertThreshold(thresholdPercent: number): Promise<number> {
+  const row = await prisma.purchasePriceAlertSettings.upsert({
+    where: { id: PURCHASE_PRICE_ALERT_SETTINGS_ID },
+    create: { id: PURCHASE_PRICE_ALERT_SETTINGS_ID, thresholdPercent },
+    update: { thresholdPercent },
+  });
+  return Number(row.thresholdPercent);
+}
+
+/**
+ * Raise, refresh or clear the alert for every priced variant line on the PO. A dismissed alert
+ * stays dismissed unless the price changes again.
+ */
+export async function syncPurchasePriceAlerts(purchaseOrderId: string): Promise<void> {
+  const po = await prisma.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    select: {
+      id: true,
+      createdAt: true,
+      currency: true,
+      lineItems: {
+        where: { shopifyVariantGid: { not: null }, itemPrice: { not: null } },
+        select: {
+          id: true,
+          shopifyVariantGid: true,
+          itemPrice: true,
+          purchasePriceAlert: { select: { newPrice: true } },
+        },
+      },
+    },
+  });
+  if (!po || po.lineItems.length === 0) return;
+
+  const variantGids = [...new Set(po.lineItems.map((l) => l.shopifyVariantGid!))];
+  const [threshold, previousLines] = await Promise.all([
+    getPurchasePriceAlertThreshold(),
+    prisma.purchaseOrderLineItem.findMany({
+      where: {
+        shopifyVariantGid: { in: variantGids },
+        itemPrice: { not: null },
+        purchaseOrder: {
+          id: { not: po.id },
+          status: { not: 'pending' },
+          currency: po.currency,
+          createdAt: { lt: po.createdAt },
+        },
+      },
+      orderBy: { purchaseOrder: { createdAt: 'desc' } },
+      distinct: ['shopifyVariantGid'],
+      select: {
+        shopifyVariantGid: true,
+        itemPrice: true,
+        purchaseOrder: { select: { poNumber: true } },
+      },
+    }),
+  ]);
+  const previousByVariant = new Map(previousLines.map((l) => [l.shopifyVariantGid!, l]));
+
+  const clearIds: string[] = [];
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  for (const line of po.lineItems) {
+    const previous = previousByVariant.get(line.shopifyVariantGid!);
+    const prevPrice = previous ? Number(previous.itemPrice) : 0;
+    const newPrice = Number(line.itemPrice);
+    const moved =
+      previous != null &&
+      prevPrice > 0 &&
+      (Math.abs(newPrice - prevPrice) / prevPrice) * 100 > threshold;
+    if (!moved) {
+      if (line.purchasePriceAlert) clearIds.push(line.id);
+      continue;
+    }
+    const data = {
+      variantGid: line.shopifyVariantGid!,
+      previousPoNumber: previous.purchaseOrder.poNumber,
+      previousPrice: previous.itemPrice!,
+      newPrice: line.itemPrice!,
+    };
+    const priceChanged =
+      line.purchasePriceAlert != null && !line.purchasePriceAlert.newPrice.equals(line.itemPrice!);
+    writes.push(
+      prisma.purchasePriceAlert.upsert({
+        where: { purchaseOrderLineItemId: line.id },
+        create: { ...data, purchaseOrderLineItemId: line.id, purchaseOrderId: po.id },
+        update: priceChanged ? { ...data, createdAt: new Date(), dismissedAt: null } : data,
+      }),
+    );
+  }
+  if (clearIds.length > 0) {
+    writes.push(
+      prisma.purchasePriceAlert.deleteMany({ where: { purchaseOrderLineItemId: { in: clearIds } } }),
+    );
+  }
+  if (writes.length > 0) await prisma.$transaction(writes);
+}
+
+/** Undismissed alerts on live POs, newest first, with the recipes that use each variant. */
+export async function listOpenPurchasePriceAlerts(): Promise<PurchasePriceAlertRow[]> {
+  const rows = await prisma.purchasePriceAlert.findMany({
+    where: { dismissedAt: null, purchaseOrder: { archivedAt: null } },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      purchaseOrder: {
+        select: { poNumber: true, currency: true, supplier: { select: { company: true } } },
+      },
+      purchaseOrderLineItem: { select: { sku: true, productTitle: true, variantTitle: true } },
+    },
+  });
+  const recipesByVariant = await loadVariantRecipeUses([...new Set(rows.map((r) => r.variantGid))]);
+
+  return rows.map((r) => {
+    const line = r.purchaseOrderLineItem;
+    const previousPrice = Number(r.previousPrice);
+    const newPrice = Number(r.newPrice);
+    return {
+      id: r.id,
+      purchaseOrderId: r.purchaseOrderId,
+      poNumber: r.purchaseOrder.poNumber,
+      supplierCompany: r.purchaseOrder.supplier?.company ?? null,
+      variantGid: r.variantGid,
+      label: line.productTitle
+        ? mergeProductAndVariantTitle(line.productTitle, line.variantTitle)
+        : (line.sku ?? 'PO line'),
+      sku: line.sku,
+      currency: r.purchaseOrder.currency,
+      previousPoNumber: r.previousPoNumber,
+      previousPrice,
+      newPrice,
+      changeRate: (newPrice - previousPrice) / previousPrice,
+      createdAt: r.createdAt.toISOString(),
+      recipes: recipesByVariant.get(r.variantGid) ?? [],
+    };
+  });
+}
+
+export async function dismissPurchasePriceAlert(id: string): Promise<void> {
+  const existing = await prisma.purchasePriceAlert.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!existing) throw new NotFoundError('Price alert', id);
+  await prisma.purchasePriceAlert.update({ where: { id }, data: { dismissedAt: new Date() } });
+}
@@ -0,0 +1,111 @@
+/**
+ * Per-variant purchase price history, built from priced PO lines (pending drafts left out) next to the
+ * Shopify unit cost captured on synced order lines, plus the `Cost` recipes that use the variant as
+ * an ingredient so they can be re-costed when the price moves.
+ */
+
+import { prisma } from '@/lib/core/prisma';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import type {
+  ShopifyUnitCostPoint,
+  VariantPurchasePriceHistory,
+  VariantRecipeUse,
+} from '@/features/order/office/types/purchase-price';
+
+const HISTORY_MAX_PURCHASES = 200;
+const HISTORY_MAX_SHOPIFY_LINES = 500;
+
+/** Recipes per variant GID. Ingredients of type `cost` point at sub-recipes, not variants. */
+export async function loadVariantRecipeUses(
+  variantGids: string[],
+): Promise<Map<string, VariantRecipeUse[]>> {
+  const out = new Map<string, VariantRecipeUse[]>();
+  if (variantGids.length === 0) return out;
+  const rows = await prisma.ingredient.findMany({
+    where: { variantId: { in: variantGids }, type: { not: 'cost' } },
+    select: {
+      variantId: true,
+      amount: true,
+      unit: true,
+      Cost: { select: { id: true, title: true } },
+    },
+    orderBy: { Cost: { title: 'asc' } },
+  });
+  for (const r of rows) {
+    const list = out.get(r.variantId) ?? [];
+    list.push({ costId: r.Cost.id, costTitle: r.Cost.title, amount: r.amount, unit: r.unit });
+    out.set(r.variantId, list);
+  }
+  return out;
+}
+
+export async function getVariantPurchasePriceHistory(
+  variantGid: string,
+): Promise<VariantPurchasePriceHistory> {
+  const [lines, shopifyLines, recipes] = await Promise.all([
+    prisma.purchaseOrderLineItem.findMany({
+      where: {
+        shopifyVariantGid: variantGid,
+        itemPrice: { not: null },
+        purchaseOrder: { status: { not: 'pending' } },
+      },
+      orderBy: { purchaseOrder: { createdAt: 'desc' } },
+      take: HISTORY_MAX_PURCHASES,
+      select: {
+        quantity: true,
+        itemPrice: true,
+        purchaseOrder: {
+          select: {
+            id: true,
+            poNumber: true,
+            currency: true,
+            dateCreated: true,
+            createdAt: true,
+            supplier: { select: { company: true } },
+          },
+        },
+      },
+    }),
+    prisma.shopifyOrderLineItem.findMany({
+      where: { variantGid, unitCost: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_MAX_SHOPIFY_LINES,
+      select: {
+        unitCost: true,
+        createdAt: true,
+        order: { select: { shopifyCreatedAt: true } },
+      },
+    }),
+    loadVariantRecipeUses([variantGid]),
+  ]);
+
+  const purchases = lines
+    .map((l) => {
+      const po = l.purchaseOrder;
+      return {
+        purchaseOrderId: po.id,
+        poNumber: po.poNumber,
+        supplierCompany: po.supplier?.company ?? null,
+        orderedYmd: po.dateCreated
+          ? po.dateCreated.toISOString().slice(0, 10)
+          : toVancouverYmd(po.createdAt),
+        unitPrice: Number(l.itemPrice),
+        currency: po.currency,
+        quantity: l.quantity,
+      };
+    })
+    .reverse();
+
+  const shopifyCosts: ShopifyUnitCostPoint[] = [];
+  const byDate = shopifyLines
+    .map((l) => ({
+      ymd: toVancouverYmd(l.order.shopifyCreatedAt ?? l.createdAt),
+      unitCost: Number(l.unitCost),
+    }))
+    .sort((a, b) => a.ymd.localeCompare(b.ymd));
+  for (const p of byDate) {
+    if (shopifyCosts.at(-1)?.unitCost !== p.unitCost) shopifyCosts.push(p);
+  }
+
+  return { variantGid, purchases, shopifyCosts, recipes: recipes.get(variantGid) ?? [] };
+}
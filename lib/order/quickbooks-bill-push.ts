@@ -0,0 +1,297 @@
+/**
+ * Push a received PO into QuickBooks as a Bill (replaces retyping bills by hand).
+ *
+ * The bill goes to the QuickBooks company of the location the PO ships to (via its delivery preset;
+ * the office picks when the preset is shared), tagged with that location's class. The supplier must
+ * be mapped to a QuickBooks Vendor for the company; each received line posts to its SKU's mapped Item
+ * or Account, falling back to the vendor's default expense account. Lines bill received quantity at
+ * the PO price. The linked supplier invoice (if exactly one) supplies the bill number and dates, and
+ * a disputed invoice blocks the push until resolved.
+ *
+ * A push first claims the PO (`qbBillPushStartedAt`) so concurrent pushes cannot both create a bill.
+ * A Bill already in QuickBooks with the same vendor and number is reused only when it is this PO's —
+ * same total and date, or its note names the PO (e.g. a push whose DB write then failed); any other
+ * bill with that number is a conflict the office resolves in QuickBooks.
+ */
+
+import { prisma } from '@/lib/core/prisma';
+import { AppError, NotFoundError, ValidationError } from '@/lib/core/errors';
+import {
+  createQuickBooksBill,
+  findQuickBooksBillsByDocNumber,
+  withValidTokenForLocation,
+  type QuickBooksBillInput,
+  type QuickBooksBillLine,
+} from '@/lib/quickbooks';
+import { mergeProductAndVariantTitle } from '@/features/order/office/types/purchase-order';
+import { toVancouverYmd } from '@/features/order/office/utils/vancouver-datetime';
+import type {
+  PurchaseOrderQuickBooksBillStatus,
+  QuickBooksBillLocationOption,
+} from '@/features/order/quickbooks/types';
+
+/** A claim older than this is from a push that died mid-way and may be taken over. */
+const PUSH_CLAIM_STALE_MS = 2 * 60_000;
+
+const locationSelect = {
+  id: true,
+  code: true,
+  name: true,
+  realmId: true,
+  realm: { select: { name: true } },
+} as const;
+
+async function loadPoForBill(purchaseOrderId: string) {
+  const po = await prisma.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    select: {
+      id: true,
+      poNumber: true,
+      receivedAt: true,
+      supplierId: true,
+      supplier: { select: { company: true } },
+      qbBillId: true,
+      qbBillPushedAt: true,
+      qbBillRealm: { select: { name: true } },
+      deliveryLocationPreset: {
+        select: { locations: { select: locationSelect, orderBy: { code: 'asc' } } },
+      },
+      lineItems: {
+        orderBy: { sequence: 'asc' },
+        select: {
+          sku: true,
+          productTitle: true,
+          variantTitle: true,
+          quantityReceived: true,
+          itemPrice: true,
+        },
+      },
+      invoiceLinks: {
+        select: {
+          invoice: {
+            select: { invoiceNumber: true, invoiceDate: true, dueDate: true, status: true },
+          },
+        },
+      },
+    },
+  });
+  if (!po) throw new NotFoundError('Purchase order', purchaseOrderId);
+  return po;
+}
+
+function toLocationOption(l: {
+  id: string;
+  code: string;
+  name: string;
+  realm: { name: string };
+}): QuickBooksBillLocationOption {
+  return { locationId: l.id, code: l.code, name: l.name, realmName: l.realm.name };
+}
+
+export async function getPurchaseOrderBillStatus(
+  purchaseOrderId: string,
+): Promise<PurchaseOrderQuickBooksBillStatus> {
+  const po = await loadPoForBill(purchaseOrderId);
+  return {
+    qbBillId: po.qbBillId,
+    pushedAt: po.qbBillPushedAt?.toISOString() ?? null,
+    realmName: po.qbBillRealm?.name ?? null,
+    received: po.receivedAt != null,
+    locations: (po.deliveryLocationPreset?.locations ?? []).map(toLocationOption),
+  };
+}
+
+/** Create the QuickBooks Bill for a received PO and store its id on the PO. */
+export async function pushPurchaseOrderBill(args: {
+  purchaseOrderId: string;
+  /** Required when the PO's delivery preset serves more than one location. */
+  locationId?: string | null;
+}): Promise<{ qbBillId: string; realmName: string }> {
+  const po = await loadPoForBill(args.purchaseOrderId);
+  if (po.qbBillId) {
+    throw new AppError(
+      `PO #${po.poNumber} is already in QuickBooks (bill ${po.qbBillId})`,
+      'QB_BILL_EXISTS',
+      undefined,
+      409,
+    );
+  }
+  if (!po.receivedAt) {
+    throw new ValidationError('Receive every line before pushing the bill');
+  }
+  if (!po.supplierId || !po.supplier) {
+    throw new ValidationError('PO has no supplier');
+  }
+
+  const invoices = po.invoiceLinks.map((l) => l.invoice);
+  if (invoices.some((i) => i.status === 'disputed')) {
+    throw new ValidationError('Resolve the disputed supplier invoice first');
+  }
+
+  const candidates = po.deliveryLocationPreset?.locations ?? [];
+  const location = args.locationId
+    ? candidates.find((l) => l.id === args.locationId)
+    : candidates.length === 1
+      ? candidates[0]
+      : undefined;
+  if (!location) {
+    throw new ValidationError(
+      args.locationId
+        ? "Location is not on this PO's delivery preset"
+        : 'Choose the location to bill under',
+    );
+  }
+
+  const [vendor, itemMappings] = await Promise.all([
+    prisma.quickBooksVendorMapping.findUnique({
+      where: {
+        realmId_supplierId: { realmId: location.realmId, supplierId: po.supplierId },
+      },
+    }),
+    prisma.quickBooksItemMapping.findMany({
+      where: {
+        realmId: location.realmId,
+        sku: { in: po.lineItems.map((l) => l.sku).filter((s): s is string => !!s) },
+      },
+    }),
+  ]);
+  if (!vendor) {
+    throw new ValidationError(
+      `Map ${po.supplier.company} to a QuickBooks vendor for ${location.realm.name} first`,
+    );
+  }
+  const itemBySku = new Map(itemMappings.map((m) => [m.sku, m]));
+
+  const lines: QuickBooksBillLine[] = [];
+  const unmapped: string[] = [];
+  const unpriced: string[] = [];
+  for (const l of po.lineItems) {
+    if (l.quantityReceived <= 0) continue;
+    const description = l.productTitle
+      ? mergeProductAndVariantTitle(l.productTitle, l.variantTitle)
+      : l.sku || 'PO line';
+    if (l.itemPrice == null) {
+      unpriced.push(description);
+      continue;
+    }
+    const unitPrice = Number(l.itemPrice);
+    const amount = Math.round(unitPrice * l.quantityReceived * 100) / 100;
+    const mapping = l.sku ? itemBySku.get(l.sku) : undefined;
+    if (mapping?.kind === 'item') {
+      lines.push({
+        kind: 'item',
+        itemId: mapping.qbRefId,
+        quantity: l.quantityReceived,
+        unitPrice,
+        amount,
+        description,
+      });
+    } else if (mapping || vendor.defaultAccountId) {
+      lines.push({
+        kind: 'account',
+        accountId: mapping?.qbRefId ?? vendor.defaultAccountId!,
+        amount,
+        description: `${description} × ${l.quantityReceived}`,
+      });
+    } else {
+      unmapped.push(l.sku || description);
+    }
+  }
+  if (unpriced.length > 0) {
+    throw new ValidationError(`Set a price on: ${unpriced.join(', ')}`);
+  }
+  if (unmapped.length > 0) {
+    throw new ValidationError(
+      `No QuickBooks item or account for ${unmapped.join(', ')} — map the SKUs or set a default account for the vendor`,
+    );
+  }
+  if (lines.length === 0) {
+    throw new ValidationError('Nothing received to bill');
+  }
+
+  const claimedAt = new Date();
+  const { count: claimed } = await prisma.purchaseOrder.updateMany({
+    where: {
+      id: po.id,
+      qbBillId: null,
+      OR: [
+        { qbBillPushStartedAt: null },
+        { qbBillPushStartedAt: { lt: new Date(claimedAt.getTime() - PUSH_CLAIM_STALE_MS) } },
+      ],
+    },
+    data: { qbBillPushStartedAt: claimedAt },
+  });
+  if (claimed === 0) {
+    throw new AppError(
+      `PO #${po.poNumber} is already being pushed to QuickBooks`,
+      'QB_BILL_PUSH_IN_PROGRESS',
+      undefined,
+      409,
+    );
+  }
+
+  const invoice = invoices.length === 1 ? invoices[0] : null;
+  const bill: QuickBooksBillInput = {
+    vendorId: vendor.qbVendorId,
+    docNumber: invoice?.invoiceNumber ?? `PO ${po.poNumber}`,
+    txnDate: invoice
+      ? invoice.invoiceDate.toISOString().slice(0, 10)
+      : toVancouverYmd(po.receivedAt!),
+    dueDate: invoice?.dueDate?.toISOString().slice(0, 10) ?? null,
+    privateNote: `PO #${po.poNumber} (${location.code})`,
+    lines,
+  };
+  const total = lines.reduce((sum, l) => sum + l.amount, 0);
+  try {
+    const { id: qbBillId } = await withValidTokenForLocation(
+      location.id,
+      async (accessToken, realmId, classId) => {
+        const existing = await findQuickBooksBillsByDocNumber(
+          realmId,
+          accessToken,
+          bill.vendorId,
+          bill.docNumber,
+        );
+        const ours = existing.find(
+          (b) =>
+            b.privateNote?.includes(`PO #${po.poNumber} (`) ||
+            (Math.abs(b.totalAmount - total) < 0.005 && b.txnDate === bill.txnDate),
+        );
+        if (ours) return ours;
+        if (existing.length > 0) {
+          throw new AppError(
+            `QuickBooks already has bill ${bill.docNumber} for this vendor with a different total or date — resolve it in QuickBooks first`,
+            'QB_BILL_DOC_NUMBER_TAKEN',
+            { qbBillIds: existing.map((b) => b.id) },
+            409,
+          );
+        }
+        return createQuickBooksBill(realmId, accessToken, { ...bill, classId });
+      },
+    );
+
+    await prisma.purchaseOrder.update({
+      where: { id: po.id },
+      data: {
+        qbBillId,
+        qbBillRealmId: location.realmId,
+        qbBillPushedAt: new Date(),
+        qbBillPushStartedAt: null,
+      },
+    });
+    return { qbBillId, realmName: location.realm.name };
+  } catch (err) {
+    await prisma.purchaseOrder
+      .updateMany({
+        where: { id: po.id, qbBillPushStartedAt: claimedAt },
+        data: { qbBillPushStartedAt: null },
+      })
+      .catch((releaseErr: unknown) => {
+        console.error(
+          `[quickbooks bill] failed to release push claim on PO ${po.id}:`,
+          releaseErr,
+        );
+      });
+    throw err;
+  }
+}
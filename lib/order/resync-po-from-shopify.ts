@@ -13,6 +13,7 @@ import {
 import { deletePurchaseOrderLineItemIfNoFinalizedFulfillments } from '@/lib/order/purchase-order-line-item-delete-if-safe';
 import { recomputePurchaseOrderStatusById } from '@/lib/order/purchase-order-status';
 import { loadVariantOfficeNotesMap } from '@/lib/order/shopify-variant-office-note';
+import { syncPurchasePriceAlerts } from '@/lib/order/purchase-price-alerts';
 
 export type ResyncPurchaseOrderFromShopifyOptions = {
   purchaseOrderId: string;
@@ -28,6 +29,13 @@ function toDecimal(
   return new Prisma.Decimal(n);
 }
 
+/** Lines are already written; a failed price alert check is logged, not surfaced. */
+function checkPriceAlerts(purchaseOrderId: string): Promise<void> {
+  return syncPurchasePriceAlerts(purchaseOrderId).catch((err) =>
+    console.error('[resync PO] price alert check failed:', err),
+  );
+}
+
 export async function resyncPurchaseOrderLineItemsFromShopify(
   options: ResyncPurchaseOrderFromShopifyOptions,
 ): Promise<void> {
@@ -123,6 +131,7 @@ export async function resyncPurchaseOrderLineItemsFromShopify(
       });
     }),
   );
+  await checkPriceAlerts(purchaseOrderId);
 
   if (
     !appendFromShopifyOrderId ||
@@ -214,6 +223,7 @@ export async function resyncPurchaseOrderLineItemsFromShopify(
   });
   if (appendRows.length > 0) {
     await prisma.purchaseOrderLineItem.createMany({ data: appendRows });
+    await checkPriceAlerts(purchaseOrderId);
   }
 
   await recomputePurchaseOrderStatusById(purchaseOrderId);
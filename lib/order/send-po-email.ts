@@ -1,4 +1,4 @@
-import nodemailer from 'nodemailer';
+import { getMailTransport, plainToHtml } from '@/lib/core/mailer';
 import type { PoPdfInput } from '@/features/order/office/utils/purchase-order-pdf';
 import { buildPoPdfBuffer } from '@/features/order/office/utils/purchase-order-pdf';
 import type { PoEmailOutboundSettings } from './po-email-settings';
@@ -13,43 +13,12 @@ import {
   normalizeSupplierContactEmails,
 } from './supplier-order-channel';
 
-function createTransport() {
-  return nodemailer.createTransport({
-    host: process.env.SMTP_HOST!,
-    port: Number(process.env.SMTP_PORT ?? 587),
-    secure: process.env.SMTP_SECURE === 'true',
-    auth: {
-      user: process.env.SMTP_USER!,
-      pass: process.env.SMTP_PASS!,
-    },
-  });
-}
-
-let _transport: ReturnType<typeof nodemailer.createTransport> | null = null;
-function getTransport() {
-  if (!_transport) _transport = createTransport();
-  return _transport;
-}
-
 function buildTrackingPixelUrl(token: string): string | null {
   const base = (process.env.NEXT_PUBLIC_APP_URL ?? '').trim().replace(/\/$/, '');
   if (!base) return null;
   return `${base}/api/order/track/email-open?t=${encodeURIComponent(token)}`;
 }
 
-function plainToHtml(plain: string): string {
-  return plain
-    .split('\n')
-    .map((line) => {
-      const escaped = line
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;');
-      return escaped === '' ? '<br>' : `<p style="margin:0 0 4px 0">${escaped}</p>`;
-    })
-    .join('\n');
-}
-
 /** Office copy: BCC so supplier To-recipients do not share one visible Cc thread. */
 function officeBccHeader(
   officeCcRaw: string | null | undefined,
@@ -120,7 +89,7 @@ export async function sendPoEmail(args: {
     `</div>`,
   ].join('\n');
 
-  const transporter = getTransport();
+  const transporter = getMailTransport();
   const toLower = new Set(to.map((c) => c.email.toLowerCase()));
   const dedicatedLower =
     args.dedicatedToRecipientsLower ?? toLower;
@@ -0,0 +1,142 @@
+/**
+ * Supplier invoice CSV → `order.supplier_invoices` (used by POST /api/order/supplier-invoices/import-csv).
+ *
+ * One row per invoice line; rows sharing an `Invoice Number` make one invoice. Headers are matched
+ * case-insensitively: Invoice Number, Invoice Date, Due Date, PO Number, SKU, Description, Quantity,
+ * Unit Price, Tax, Shipping, Total, Currency. Header values (dates, tax, shipping, total, currency)
+ * are read from the first row of each invoice. `PO Number` may differ per row when one invoice covers
+ * several POs. Invoices that already exist for the supplier are skipped, so re-importing is safe.
+ */
+
+import { parse } from 'csv-parse/sync';
+import { format, isValid, parse as parseDf } from 'date-fns';
+import { prisma } from '@/lib/core/prisma';
+import { AppError } from '@/lib/core/errors';
+import { createSupplierInvoice } from './supplier-invoices';
+
+type CsvRow = Record<string, string>;
+
+export type SupplierInvoiceCsvImportResult = {
+  created: { id: string; invoiceNumber: string }[];
+  skipped: { invoiceNumber: string; reason: string }[];
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'M/d/yyyy', 'd-MMM-yyyy', 'MMM d, yyyy', 'MMMM d, yyyy'];
+
+function cell(row: CsvRow, header: string): string | null {
+  const key = Object.keys(row).find(
+    (k) => k.trim().toLowerCase() === header.toLowerCase(),
+  );
+  const v = key ? row[key]?.trim() : '';
+  return v ? v : null;
+}
+
+function parseNumber(raw: string | null): number | null {
+  if (!raw) return null;
+  const n = Number.parseFloat(raw.replace(/[$,\s]/g, ''));
+  return Number.isNaN(n) ? null : n;
+}
+
+function parseYmd(raw: string | null): string | null {
+  if (!raw) return null;
+  for (const fmt of DATE_FORMATS) {
+    const d = parseDf(raw, fmt, new Date());
+    if (isValid(d)) return format(d, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+export function parseSupplierInvoiceCsvText(text: string): CsvRow[] {
+  return parse(text, {
+    columns: true,
+    skip_empty_lines: true,
+    relax_quotes: true,
+    relax_column_count: true,
+    bom: true,
+  }) as CsvRow[];
+}
+
+/** Create one invoice per `Invoice Number` in `rows` for `supplierId`. */
+export async function runSupplierInvoiceCsvImport(args: {
+  supplierId: string;
+  rows: CsvRow[];
+  createdById?: string | null;
+}): Promise<SupplierInvoiceCsvImportResult> {
+  const result: SupplierInvoiceCsvImportResult = { created: [], skipped: [] };
+
+  const byInvoice = new Map<string, CsvRow[]>();
+  for (const row of args.rows) {
+    const invoiceNumber = cell(row, 'Invoice Number');
+    if (!invoiceNumber) continue;
+    const list = byInvoice.get(invoiceNumber) ?? [];
+    list.push(row);
+    byInvoice.set(invoiceNumber, list);
+  }
+
+  const poNumbers = [
+    ...new Set(
+      args.rows.map((r) => cell(r, 'PO Number')).filter((n): n is string => !!n),
+    ),
+  ];
+  const pos = await prisma.purchaseOrder.findMany({
+    where: { supplierId: args.supplierId, poNumber: { in: poNumbers } },
+    select: { id: true, poNumber: true },
+  });
+  const poIdByNumber = new Map(pos.map((p) => [p.poNumber, p.id]));
+
+  for (const [invoiceNumber, rows] of byInvoice) {
+    const head = rows[0];
+    const invoiceDate = parseYmd(cell(head, 'Invoice Date'));
+    if (!invoiceDate) {
+      result.skipped.push({ invoiceNumber, reason: 'Missing or unreadable Invoice Date' });
+      continue;
+    }
+
+    const rowPoNumbers = [
+      ...new Set(rows.map((r) => cell(r, 'PO Number')).filter((n): n is string => !!n)),
+    ];
+    const unknownPo = rowPoNumbers.find((n) => !poIdByNumber.has(n));
+    if (rowPoNumbers.length === 0 || unknownPo) {
+      result.skipped.push({
+        invoiceNumber,
+        reason: unknownPo
+          ? `PO #${unknownPo} not found for this supplier`
+          : 'No PO Number',
+      });
+      continue;
+    }
+
+    const lines = rows.map((r) => ({
+      sku: cell(r, 'SKU'),
+      description: cell(r, 'Description'),
+      quantity: Math.round(parseNumber(cell(r, 'Quantity')) ?? 0),
+      unitPrice: parseNumber(cell(r, 'Unit Price')) ?? 0,
+    }));
+
+    try {
+      const created = await createSupplierInvoice({
+        supplierId: args.supplierId,
+        invoiceNumber,
+        invoiceDate,
+        dueDate: parseYmd(cell(head, 'Due Date')),
+        currency: cell(head, 'Currency')?.toUpperCase() ?? 'CAD',
+        tax: parseNumber(cell(head, 'Tax')),
+        shipping: parseNumber(cell(head, 'Shipping')),
+        total: parseNumber(cell(head, 'Total')),
+        purchaseOrderIds: rowPoNumbers.map((n) => poIdByNumber.get(n)!),
+        lines,
+        source: 'csv',
+        createdById: args.createdById ?? null,
+      });
+      result.created.push(created);
+    } catch (err) {
+      if (err instanceof AppError) {
+        result.skipped.push({ invoiceNumber, reason: err.message });
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  return result;
+}
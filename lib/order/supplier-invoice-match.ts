@@ -0,0 +1,176 @@
+import type {
+  InvoiceMatchFlag,
+  InvoiceMatchRow,
+} from '@/features/order/invoices/types';
+
+/** Unit prices within a cent are treated as equal. */
+const PRICE_TOLERANCE = 0.005;
+
+export type MatchPoLine = {
+  id: string;
+  poNumber: string;
+  label: string;
+  sku: string | null;
+  quantity: number;
+  quantityReceived: number;
+  itemPrice: number | null;
+};
+
+export type MatchInvoiceLine = {
+  id: string;
+  purchaseOrderLineItemId: string | null;
+  sku: string | null;
+  description: string | null;
+  quantity: number;
+  unitPrice: number;
+};
+
+function normalize(s: string | null | undefined): string {
+  return (s ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Link invoice lines without a PO line to one on the linked POs: same SKU first, then the same
+ * product label. PO lines already taken are preferred last so repeated SKUs spread over PO lines.
+ */
+export function autoMatchInvoiceLines<
+  L extends { purchaseOrderLineItemId?: string | null; sku?: string | null; description?: string | null },
+>(lines: L[], poLines: Pick<MatchPoLine, 'id' | 'label' | 'sku'>[]): L[] {
+  const taken = new Set(
+    lines.map((l) => l.purchaseOrderLineItemId).filter((id): id is string => !!id),
+  );
+  const pick = (candidates: Pick<MatchPoLine, 'id'>[]): string | null => {
+    const free = candidates.find((c) => !taken.has(c.id)) ?? candidates[0];
+    if (!free) return null;
+    taken.add(free.id);
+    return free.id;
+  };
+
+  return lines.map((line) => {
+    if (line.purchaseOrderLineItemId) return line;
+    const sku = normalize(line.sku);
+    const description = normalize(line.description);
+    const bySku = sku ? poLines.filter((p) => normalize(p.sku) === sku) : [];
+    const byLabel =
+      bySku.length === 0 && description
+        ? poLines.filter((p) => normalize(p.label) === description)
+        : [];
+    const id = pick(bySku.length > 0 ? bySku : byLabel);
+    return id ? { ...line, purchaseOrderLineItemId: id } : line;
+  });
+}
+
+export function isIssueFlag(flag: InvoiceMatchFlag): boolean {
+  return flag !== 'not_invoiced';
+}
+
+/**
+ * Three-way match for one invoice: every line of its linked POs, plus invoice lines that are not on
+ * any of them. Quantities are checked against what was received across all invoices for the PO line
+ * (so a second partial invoice is flagged only when the total overbills); prices against the PO.
+ */
+export function computeInvoiceMatch(args: {
+  poLines: MatchPoLine[];
+  invoiceLines: MatchInvoiceLine[];
+  /** Quantity billed per PO line across all invoices, this one included. */
+  invoicedQtyAllInvoicesByPoLine: ReadonlyMap<string, number>;
+}): InvoiceMatchRow[] {
+  const byPoLine = new Map<string, MatchInvoiceLine[]>();
+  const rows: InvoiceMatchRow[] = [];
+
+  for (const line of args.invoiceLines) {
+    if (line.purchaseOrderLineItemId) {
+      const list = byPoLine.get(line.purchaseOrderLineItemId) ?? [];
+      list.push(line);
+      byPoLine.set(line.purchaseOrderLineItemId, list);
+    }
+  }
+
+  for (const po of args.poLines) {
+    const billed = byPoLine.get(po.id) ?? [];
+    byPoLine.delete(po.id);
+    const invoicedQty = billed.reduce((s, l) => s + l.quantity, 0);
+    const billedValue = billed.reduce((s, l) => s + l.quantity * l.unitPrice, 0);
+    const invoiceUnitPrice =
+      billed.length === 0
+        ? null
+        : invoicedQty > 0
+          ? billedValue / invoicedQty
+          : billed[0].unitPrice;
+    const allInvoices =
+      args.invoicedQtyAllInvoicesByPoLine.get(po.id) ?? invoicedQty;
+
+    const flags: InvoiceMatchFlag[] = [];
+    if (
+      invoiceUnitPrice != null &&
+      po.itemPrice != null &&
+      Math.abs(invoiceUnitPrice - po.itemPrice) > PRICE_TOLERANCE
+    ) {
+      flags.push('price');
+    }
+    if (invoicedQty > 0 && allInvoices > po.quantityReceived) {
+      flags.push('quantity');
+    }
+    if (invoicedQty === 0 && po.quantityReceived > allInvoices) {
+      flags.push('not_invoiced');
+    }
+
+    rows.push({
+      key: po.id,
+      purchaseOrderLineItemId: po.id,
+      poNumber: po.poNumber,
+      label: po.label,
+      sku: po.sku,
+      orderedQty: po.quantity,
+      receivedQty: po.quantityReceived,
+      invoicedQty,
+      invoicedQtyAllInvoices: allInvoices,
+      poUnitPrice: po.itemPrice,
+      invoiceUnitPrice,
+      flags,
+    });
+  }
+
+  // Lines pointing at PO lines outside the linked POs, or at none.
+  for (const line of args.invoiceLines) {
+    if (line.purchaseOrderLineItemId && !byPoLine.has(line.purchaseOrderLineItemId)) {
+      continue;
+    }
+    rows.push({
+      key: line.id,
+      purchaseOrderLineItemId: null,
+      poNumber: null,
+      label: line.description?.trim() || line.sku || 'Invoice line',
+      sku: line.sku,
+      orderedQty: null,
+      receivedQty: null,
+      invoicedQty: line.quantity,
+      invoicedQtyAllInvoices: line.quantity,
+      poUnitPrice: null,
+      invoiceUnitPrice: line.unitPrice,
+      flags: ['not_on_po'],
+    });
+  }
+
+  return rows;
+}
+
+/** Rows with an issue flag, plus one when the header total does not add up. */
+export function countInvoiceIssues(
+  rows: InvoiceMatchRow[],
+  totalMismatch: boolean,
+): number {
+  const lineIssues = rows.filter((r) => r.flags.some(isIssueFlag)).length;
+  return lineIssues + (totalMismatch ? 1 : 0);
+}
+
+/** Lines + tax + shipping vs the billed total, to the cent. */
+export function invoiceTotalMismatch(args: {
+  linesTotal: number;
+  tax: number | null;
+  shipping: number | null;
+  total: number;
+}): boolean {
+  const computed = args.linesTotal + (args.tax ?? 0) + (args.shipping ?? 0);
+  return Math.abs(computed - args.total) > PRICE_TOLERANCE;
+}
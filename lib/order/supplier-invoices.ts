@@ -0,0 +1,474 @@
+/**
+ * Supplier invoices: what the supplier actually billed, linked to one or more POs and matched line by
+ * line against them (see `supplier-invoice-match.ts`). Entered by hand from the office Invoices page
+ * or imported from CSV (`supplier-invoice-csv-import.ts`).
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import {
+  AppError,
+  isPrismaKnownRequestError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/core/errors';
+import { mergeProductAndVariantTitle } from '@/features/order/office/types/purchase-order';
+import type {
+  AwaitingInvoicePoRow,
+  InvoiceablePurchaseOrder,
+  PurchaseOrderInvoiceSummary,
+  SupplierInvoiceDetail,
+  SupplierInvoiceListRow,
+  SupplierInvoiceStatus,
+} from '@/features/order/invoices/types';
+import {
+  autoMatchInvoiceLines,
+  computeInvoiceMatch,
+  countInvoiceIssues,
+  invoiceTotalMismatch,
+  type MatchPoLine,
+} from './supplier-invoice-match';
+
+const LIST_LIMIT = 200;
+
+function toNumber(d: Prisma.Decimal | null | undefined): number | null {
+  return d == null ? null : Number(d);
+}
+
+function toYmd(d: Date | null | undefined): string | null {
+  return d ? d.toISOString().slice(0, 10) : null;
+}
+
+/** `YYYY-MM-DD` → the UTC midnight Prisma expects for `@db.Date`. */
+function fromYmd(ymd: string): Date {
+  return new Date(`${ymd}T00:00:00Z`);
+}
+
+function poLineLabel(line: {
+  productTitle: string | null;
+  variantTitle: string | null;
+  sku: string | null;
+}): string {
+  return line.productTitle
+    ? mergeProductAndVariantTitle(line.productTitle, line.variantTitle)
+    : line.sku || '(untitled)';
+}
+
+// ─── Create ───────────────────────────────────────────────────────────────────
+
+export type SupplierInvoiceLineInput = {
+  purchaseOrderLineItemId?: string | null;
+  sku?: string | null;
+  description?: string | null;
+  quantity: number;
+  unitPrice: number;
+};
+
+export type CreateSupplierInvoiceInput = {
+  supplierId: string;
+  invoiceNumber: string;
+  /** `YYYY-MM-DD` */
+  invoiceDate: string;
+  /** `YYYY-MM-DD` */
+  dueDate?: string | null;
+  currency: string;
+  subtotal?: number | null;
+  tax?: number | null;
+  shipping?: number | null;
+  /** Defaults to lines + tax + shipping. */
+  total?: number | null;
+  notes?: string | null;
+  purchaseOrderIds: string[];
+  lines: SupplierInvoiceLineInput[];
+  source: 'manual' | 'csv';
+  createdById?: string | null;
+};
+
+/**
+ * Store an invoice linked to `purchaseOrderIds` (all from the same supplier). Lines without a PO line
+ * are matched by SKU / product label against the linked POs.
+ */
+export async function createSupplierInvoice(
+  input: CreateSupplierInvoiceInput,
+): Promise<{ id: string; invoiceNumber: string }> {
+  const poIds = [...new Set(input.purchaseOrderIds)];
+  const pos = await prisma.purchaseOrder.findMany({
+    where: { id: { in: poIds } },
+    select: {
+      id: true,
+      poNumber: true,
+      supplierId: true,
+      lineItems: {
+        orderBy: { sequence: 'asc' },
+        select: { id: true, productTitle: true, variantTitle: true, sku: true },
+      },
+    },
+  });
+  if (pos.length !== poIds.length) {
+    throw new ValidationError('One or more purchase orders were not found');
+  }
+  const otherSupplier = pos.find((p) => p.supplierId !== input.supplierId);
+  if (otherSupplier) {
+    throw new ValidationError(
+      `PO #${otherSupplier.poNumber} belongs to a different supplier`,
+    );
+  }
+
+  const poLines = pos.flatMap((p) =>
+    p.lineItems.map((l) => ({ id: l.id, sku: l.sku, label: poLineLabel(l) })),
+  );
+  const poLineIds = new Set(poLines.map((l) => l.id));
+  const foreign = input.lines.find(
+    (l) => l.purchaseOrderLineItemId && !poLineIds.has(l.purchaseOrderLineItemId),
+  );
+  if (foreign) {
+    throw new ValidationError('An invoice line points at a PO line outside the linked POs');
+  }
+  const lines = autoMatchInvoiceLines(input.lines, poLines);
+
+  const linesTotal = lines.reduce((s, l) => s + l.quantity * l.unitPrice, 0);
+  const total =
+    input.total ?? linesTotal + (input.tax ?? 0) + (input.shipping ?? 0);
+
+  try {
+    return await prisma.supplierInvoice.create({
+      data: {
+        supplierId: input.supplierId,
+        invoiceNumber: input.invoiceNumber.trim(),
+        invoiceDate: fromYmd(input.invoiceDate),
+        dueDate: input.dueDate ? fromYmd(input.dueDate) : null,
+        currency: input.currency,
+        subtotal: input.subtotal ?? null,
+        tax: input.tax ?? null,
+        shipping: input.shipping ?? null,
+        total: Math.round(total * 100) / 100,
+        notes: input.notes?.trim() || null,
+        source: input.source,
+        createdById: input.createdById ?? null,
+        purchaseOrders: {
+          create: poIds.map((purchaseOrderId) => ({ purchaseOrderId })),
+        },
+        lines: {
+          create: lines.map((l, idx) => ({
+            sequence: idx + 1,
+            purchaseOrderLineItemId: l.purchaseOrderLineItemId ?? null,
+            sku: l.sku?.trim() || null,
+            description: l.description?.trim() || null,
+            quantity: l.quantity,
+            unitPrice: l.unitPrice,
+          })),
+        },
+      },
+      select: { id: true, invoiceNumber: true },
+    });
+  } catch (err) {
+    if (isPrismaKnownRequestError(err) && err.code === 'P2002') {
+      throw new AppError(
+        `Invoice ${input.invoiceNumber} already exists for this supplier`,
+        'INVOICE_NUMBER_TAKEN',
+        undefined,
+        409,
+      );
+    }
+    throw err;
+  }
+}
+
+// ─── Read ─────────────────────────────────────────────────────────────────────
+
+const invoiceInclude = {
+  supplier: { select: { company: true } },
+  createdBy: { select: { name: true, email: true } },
+  lines: { orderBy: { sequence: 'asc' } },
+  purchaseOrders: {
+    include: {
+      purchaseOrder: {
+        select: {
+          poNumber: true,
+          lineItems: {
+            orderBy: { sequence: 'asc' },
+            select: {
+              id: true,
+              productTitle: true,
+              variantTitle: true,
+              sku: true,
+              quantity: true,
+              quantityReceived: true,
+              itemPrice: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.SupplierInvoiceInclude;
+
+type InvoiceWithRelations = Prisma.SupplierInvoiceGetPayload<{
+  include: typeof invoiceInclude;
+}>;
+
+/** Quantity billed per PO line across every invoice. */
+async function invoicedQtyByPoLine(
+  poLineIds: string[],
+): Promise<Map<string, number>> {
+  if (poLineIds.length === 0) return new Map();
+  const groups = await prisma.supplierInvoiceLine.groupBy({
+    by: ['purchaseOrderLineItemId'],
+    where: { purchaseOrderLineItemId: { in: poLineIds } },
+    _sum: { quantity: true },
+  });
+  return new Map(
+    groups
+      .filter((g) => g.purchaseOrderLineItemId)
+      .map((g) => [g.purchaseOrderLineItemId!, g._sum.quantity ?? 0]),
+  );
+}
+
+function poLinesOf(invoice: InvoiceWithRelations): MatchPoLine[] {
+  return invoice.purchaseOrders.flatMap(({ purchaseOrder: po }) =>
+    po.lineItems.map((l) => ({
+      id: l.id,
+      poNumber: po.poNumber,
+      label: poLineLabel(l),
+      sku: l.sku,
+      quantity: l.quantity,
+      quantityReceived: l.quantityReceived,
+      itemPrice: toNumber(l.itemPrice),
+    })),
+  );
+}
+
+function toDetail(
+  invoice: InvoiceWithRelations,
+  invoicedAll: ReadonlyMap<string, number>,
+): SupplierInvoiceDetail {
+  const invoiceLines = invoice.lines.map((l) => ({
+    id: l.id,
+    purchaseOrderLineItemId: l.purchaseOrderLineItemId,
+    sku: l.sku,
+    description: l.description,
+    quantity: l.quantity,
+    unitPrice: Number(l.unitPrice),
+  }));
+  const rows = computeInvoiceMatch({
+    poLines: poLinesOf(invoice),
+    invoiceLines,
+    invoicedQtyAllInvoicesByPoLine: invoicedAll,
+  });
+  const linesTotal = invoiceLines.reduce((s, l) => s + l.quantity * l.unitPrice, 0);
+  const total = Number(invoice.total);
+  const tax = toNumber(invoice.tax);
+  const shipping = toNumber(invoice.shipping);
+  const totalMismatch = invoiceTotalMismatch({ linesTotal, tax, shipping, total });
+
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    supplierId: invoice.supplierId,
+    supplierCompany: invoice.supplier.company,
+    invoiceDate: toYmd(invoice.invoiceDate)!,
+    dueDate: toYmd(invoice.dueDate),
+    currency: invoice.currency,
+    total,
+    status: invoice.status as SupplierInvoiceStatus,
+    poNumbers: invoice.purchaseOrders.map((p) => p.purchaseOrder.poNumber),
+    issueCount: countInvoiceIssues(rows, totalMismatch),
+    subtotal: toNumber(invoice.subtotal),
+    tax,
+    shipping,
+    linesTotal: Math.round(linesTotal * 100) / 100,
+    totalMismatch,
+    notes: invoice.notes,
+    disputeNote: invoice.disputeNote,
+    disputedAt: invoice.disputedAt?.toISOString() ?? null,
+    approvedAt: invoice.approvedAt?.toISOString() ?? null,
+    source: invoice.source === 'csv' ? 'csv' : 'manual',
+    createdByName: invoice.createdBy?.name ?? invoice.createdBy?.email ?? null,
+    rows,
+  };
+}
+
+async function loadDetails(
+  where: Prisma.SupplierInvoiceWhereInput,
+): Promise<SupplierInvoiceDetail[]> {
+  const invoices = await prisma.supplierInvoice.findMany({
+    where,
+    orderBy: [{ invoiceDate: 'desc' }, { createdAt: 'desc' }],
+    take: LIST_LIMIT,
+    include: invoiceInclude,
+  });
+  const invoicedAll = await invoicedQtyByPoLine(
+    invoices.flatMap((i) => poLinesOf(i).map((l) => l.id)),
+  );
+  return invoices.map((i) => toDetail(i, invoicedAll));
+}
+
+/** Newest first, with match issue counts. */
+export async function listSupplierInvoices(
+  filter: { status?: SupplierInvoiceStatus; supplierId?: string } = {},
+): Promise<SupplierInvoiceListRow[]> {
+  const details = await loadDetails({
+    ...(filter.status ? { status: filter.status } : {}),
+    ...(filter.supplierId ? { supplierId: filter.supplierId } : {}),
+  });
+  return details.map((d) => ({
+    id: d.id,
+    invoiceNumber: d.invoiceNumber,
+    supplierId: d.supplierId,
+    supplierCompany: d.supplierCompany,
+    invoiceDate: d.invoiceDate,
+    dueDate: d.dueDate,
+    currency: d.currency,
+    total: d.total,
+    status: d.status,
+    poNumbers: d.poNumbers,
+    issueCount: d.issueCount,
+  }));
+}
+
+export async function getSupplierInvoiceDetail(
+  id: string,
+): Promise<SupplierInvoiceDetail> {
+  const [detail] = await loadDetails({ id });
+  if (!detail) throw new NotFoundError('Supplier invoice', id);
+  return detail;
+}
+
+/** POs with received quantity and no invoice linked, oldest receipt first. */
+export async function listAwaitingInvoicePurchaseOrders(): Promise<AwaitingInvoicePoRow[]> {
+  const pos = await prisma.purchaseOrder.findMany({
+    where: {
+      legacyExternalId: null,
+      invoiceLinks: { none: {} },
+      lineItems: { some: { quantityReceived: { gt: 0 } } },
+    },
+    orderBy: [{ receivedAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    take: LIST_LIMIT,
+    select: {
+      id: true,
+      poNumber: true,
+      currency: true,
+      receivedAt: true,
+      totalPrice: true,
+      supplierId: true,
+      supplier: { select: { company: true } },
+    },
+  });
+  return pos.map((p) => ({
+    id: p.id,
+    poNumber: p.poNumber,
+    supplierId: p.supplierId,
+    supplierCompany: p.supplier?.company ?? '—',
+    currency: p.currency,
+    receivedAt: p.receivedAt?.toISOString() ?? null,
+    totalPrice: toNumber(p.totalPrice),
+  }));
+}
+
+/** Invoice state for the office PO panel. */
+export async function getPurchaseOrderInvoiceSummary(
+  purchaseOrderId: string,
+): Promise<PurchaseOrderInvoiceSummary> {
+  const po = await prisma.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    select: {
+      lineItems: { where: { quantityReceived: { gt: 0 } }, select: { id: true }, take: 1 },
+      invoiceLinks: { select: { invoiceId: true } },
+    },
+  });
+  if (!po) throw new NotFoundError('Purchase order', purchaseOrderId);
+
+  const invoices =
+    po.invoiceLinks.length > 0
+      ? await loadDetails({ id: { in: po.invoiceLinks.map((l) => l.invoiceId) } })
+      : [];
+  const state: PurchaseOrderInvoiceSummary['state'] = invoices.some(
+    (i) => i.status === 'disputed',
+  )
+    ? 'disputed'
+    : invoices.length > 0
+      ? 'invoiced'
+      : po.lineItems.length > 0
+        ? 'awaiting_invoice'
+        : 'not_received';
+
+  return {
+    state,
+    invoices: invoices.map((i) => ({
+      id: i.id,
+      invoiceNumber: i.invoiceNumber,
+      status: i.status,
+      issueCount: i.issueCount,
+    })),
+  };
+}
+
+/** A supplier's recent POs, for picking which ones an invoice covers. */
+export async function listInvoiceablePurchaseOrders(
+  supplierId: string,
+): Promise<InvoiceablePurchaseOrder[]> {
+  const pos = await prisma.purchaseOrder.findMany({
+    where: { supplierId, status: { not: 'pending' } },
+    orderBy: [{ dateCreated: 'desc' }, { createdAt: 'desc' }],
+    take: 50,
+    select: {
+      id: true,
+      poNumber: true,
+      dateCreated: true,
+      status: true,
+      _count: { select: { invoiceLinks: true } },
+      lineItems: {
+        orderBy: { sequence: 'asc' },
+        select: {
+          id: true,
+          productTitle: true,
+          variantTitle: true,
+          sku: true,
+          quantity: true,
+          quantityReceived: true,
+          itemPrice: true,
+        },
+      },
+    },
+  });
+  return pos.map((p) => ({
+    id: p.id,
+    poNumber: p.poNumber,
+    dateCreated: toYmd(p.dateCreated),
+    status: p.status,
+    invoiced: p._count.invoiceLinks > 0,
+    lines: p.lineItems.map((l) => ({
+      id: l.id,
+      label: poLineLabel(l),
+      sku: l.sku,
+      quantity: l.quantity,
+      quantityReceived: l.quantityReceived,
+      itemPrice: toNumber(l.itemPrice),
+    })),
+  }));
+}
+
+// ─── Workflow ─────────────────────────────────────────────────────────────────
+
+/**
+ * Move an invoice between open / approved / disputed. Disputing needs a note (what was raised with
+ * the supplier); the note is kept when the dispute is resolved.
+ */
+export async function setSupplierInvoiceStatus(
+  id: string,
+  status: SupplierInvoiceStatus,
+  disputeNote?: string | null,
+): Promise<void> {
+  const note = disputeNote?.trim() || null;
+  if (status === 'disputed' && !note) {
+    throw new ValidationError('Describe the dispute');
+  }
+  await prisma.supplierInvoice.update({
+    where: { id },
+    data: {
+      status,
+      ...(status === 'disputed' ? { disputeNote: note, disputedAt: new Date() } : {}),
+      approvedAt: status === 'approved' ? new Date() : null,
+    },
+  });
+}
@@ -0,0 +1,136 @@
+import type { Prisma } from '@prisma/client';
+import type {
+  SupplierPortalPurchaseOrder,
+  SupplierProposedLineQuantity,
+  SupplierResponseItem,
+  SupplierResponseStatus,
+} from '@/features/order/supplier/types';
+
+/** Shared select for `PurchaseOrderSupplierResponse` rows (portal + office review). */
+export const supplierResponseSelect = {
+  id: true,
+  acknowledged: true,
+  proposedExpectedDate: true,
+  proposedLineQuantities: true,
+  note: true,
+  status: true,
+  createdAt: true,
+  reviewedAt: true,
+  user: { select: { name: true, email: true } },
+  reviewedBy: { select: { name: true, email: true } },
+} satisfies Prisma.PurchaseOrderSupplierResponseSelect;
+
+type SupplierResponseRow = Prisma.PurchaseOrderSupplierResponseGetPayload<{
+  select: typeof supplierResponseSelect;
+}>;
+
+/** POs a supplier can see: their own, not archived, not still a hub-pending draft. */
+export function supplierPortalPurchaseOrderWhere(
+  supplierId: string,
+): Prisma.PurchaseOrderWhereInput {
+  return {
+    supplierId,
+    archivedAt: null,
+    status: { not: 'pending' },
+  };
+}
+
+export const supplierPortalPurchaseOrderSelect = {
+  id: true,
+  poNumber: true,
+  status: true,
+  currency: true,
+  dateCreated: true,
+  expectedDate: true,
+  emailSentAt: true,
+  supplierAcknowledgedAt: true,
+  comment: true,
+  lineItems: {
+    orderBy: { sequence: 'asc' },
+    select: {
+      id: true,
+      sequence: true,
+      quantity: true,
+      quantityReceived: true,
+      sku: true,
+      productTitle: true,
+      variantTitle: true,
+      supplierRef: true,
+      itemPrice: true,
+    },
+  },
+  supplierResponses: {
+    orderBy: { createdAt: 'desc' },
+    select: supplierResponseSelect,
+  },
+} satisfies Prisma.PurchaseOrderSelect;
+
+type SupplierPortalPurchaseOrderRow = Prisma.PurchaseOrderGetPayload<{
+  select: typeof supplierPortalPurchaseOrderSelect;
+}>;
+
+function toYmd(d: Date | null): string | null {
+  return d ? d.toISOString().slice(0, 10) : null;
+}
+
+/** Tolerant read of the `proposed_line_quantities` JSON column. */
+export function parseProposedLineQuantities(
+  value: unknown,
+): SupplierProposedLineQuantity[] {
+  if (!Array.isArray(value)) return [];
+  const out: SupplierProposedLineQuantity[] = [];
+  for (const v of value) {
+    if (!v || typeof v !== 'object') continue;
+    const { lineItemId, quantity } = v as Record<string, unknown>;
+    if (typeof lineItemId !== 'string' || typeof quantity !== 'number') continue;
+    out.push({ lineItemId, quantity });
+  }
+  return out;
+}
+
+export function mapSupplierResponse(
+  row: SupplierResponseRow,
+): SupplierResponseItem {
+  return {
+    id: row.id,
+    acknowledged: row.acknowledged,
+    proposedExpectedDate: toYmd(row.proposedExpectedDate),
+    proposedLineQuantities: parseProposedLineQuantities(
+      row.proposedLineQuantities,
+    ),
+    note: row.note,
+    status: row.status as SupplierResponseStatus,
+    createdAt: row.createdAt.toISOString(),
+    reviewedAt: row.reviewedAt?.toISOString() ?? null,
+    userName: row.user?.name ?? row.user?.email ?? null,
+    reviewedByName: row.reviewedBy?.name ?? row.reviewedBy?.email ?? null,
+  };
+}
+
+export function mapSupplierPortalPurchaseOrder(
+  po: SupplierPortalPurchaseOrderRow,
+): SupplierPortalPurchaseOrder {
+  return {
+    id: po.id,
+    poNumber: po.poNumber,
+    status: po.status,
+    currency: po.currency,
+    dateCreated: toYmd(po.dateCreated),
+    expectedDate: toYmd(po.expectedDate),
+    emailSentAt: po.emailSentAt?.toISOString() ?? null,
+    supplierAcknowledgedAt: po.supplierAcknowledgedAt?.toISOString() ?? null,
+    comment: po.comment,
+    lineItems: po.lineItems.map((li) => ({
+      id: li.id,
+      sequence: li.sequence,
+      quantity: li.quantity,
+      quantityReceived: li.quantityReceived,
+      sku: li.sku,
+      productTitle: li.productTitle,
+      variantTitle: li.variantTitle,
+      supplierRef: li.supplierRef,
+      itemPrice: li.itemPrice != null ? Number(li.itemPrice) : null,
+    })),
+    responses: po.supplierResponses.map(mapSupplierResponse),
+  };
+}
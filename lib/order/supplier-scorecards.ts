@@ -0,0 +1,314 @@
+/**
+ * Supplier scorecards from PO history: on-time delivery, fill rate, PO email response time,
+ * refund/replacement rate by reason and per-SKU price movement. POs are picked by order date
+ * (`dateCreated`, else the Vancouver day of `createdAt`); pending drafts are ignored.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/core/prisma';
+import { addDaysYmd } from '@/lib/utils';
+import { mergeProductAndVariantTitle } from '@/features/order/office/types/purchase-order';
+import {
+  toVancouverYmd,
+  vancouverWallTimeToDate,
+} from '@/features/order/office/utils/vancouver-datetime';
+import type {
+  SupplierScorecardDetail,
+  SupplierScorecardMetrics,
+  SupplierScorecardPoRow,
+  SupplierScorecardRow,
+  SupplierScorecards,
+  SupplierScorecardSkuPrices,
+} from '@/features/order/office/types/supplier-scorecard';
+
+const CLOSED_STATUSES = new Set(['fulfilled', 'completed']);
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+const scorecardPoSelect = {
+  id: true,
+  poNumber: true,
+  status: true,
+  currency: true,
+  supplierId: true,
+  dateCreated: true,
+  createdAt: true,
+  expectedDate: true,
+  receivedAt: true,
+  emailSentAt: true,
+  emailOpenedAt: true,
+  emailReplyReceivedAt: true,
+  supplierAcknowledgedAt: true,
+  lineItems: {
+    orderBy: { sequence: 'asc' },
+    select: {
+      quantity: true,
+      quantityReceived: true,
+      itemPrice: true,
+      sku: true,
+      productTitle: true,
+      variantTitle: true,
+    },
+  },
+  refundReplacementRecords: { select: { quantity: true, reasonCategory: true } },
+} satisfies Prisma.PurchaseOrderSelect;
+
+type ScorecardPo = Prisma.PurchaseOrderGetPayload<{ select: typeof scorecardPoSelect }>;
+
+function dateYmd(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function orderedYmd(po: ScorecardPo): string {
+  return po.dateCreated ? dateYmd(po.dateCreated) : toVancouverYmd(po.createdAt);
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Whole calendar days the PO arrived after its expected date. */
+function daysLate(po: ScorecardPo): number | null {
+  if (!po.expectedDate || !po.receivedAt) return null;
+  const received = new Date(toVancouverYmd(po.receivedAt) + 'T00:00:00Z');
+  return Math.round((received.getTime() - po.expectedDate.getTime()) / DAY_MS);
+}
+
+function hoursAfterSent(po: ScorecardPo, at: Date | null): number | null {
+  if (!po.emailSentAt || !at || at < po.emailSentAt) return null;
+  return (at.getTime() - po.emailSentAt.getTime()) / HOUR_MS;
+}
+
+/** First supplier reaction to the PO email: a reply or a portal acknowledgement. */
+function responseHours(po: ScorecardPo): number | null {
+  const hours = [
+    hoursAfterSent(po, po.emailReplyReceivedAt),
+    hoursAfterSent(po, po.supplierAcknowledgedAt),
+  ].filter((h): h is number => h != null);
+  return hours.length > 0 ? Math.min(...hours) : null;
+}
+
+function summarize(pos: ScorecardPo[]): SupplierScorecardMetrics {
+  let datedDeliveries = 0;
+  let onTimeDeliveries = 0;
+  let lateDaysTotal = 0;
+  let closedOrderedQty = 0;
+  let closedReceivedQty = 0;
+  let emailsSent = 0;
+  let emailsOpened = 0;
+  let orderedQty = 0;
+  let issueQty = 0;
+  const openHours: number[] = [];
+  const answerHours: number[] = [];
+  const issueQtyByCategory: Record<string, number> = {};
+
+  for (const po of pos) {
+    const late = daysLate(po);
+    if (late != null) {
+      datedDeliveries++;
+      if (late <= 0) onTimeDeliveries++;
+      else lateDaysTotal += late;
+    }
+
+    const closed = CLOSED_STATUSES.has(po.status);
+    for (const line of po.lineItems) {
+      orderedQty += line.quantity;
+      if (closed) {
+        closedOrderedQty += line.quantity;
+        closedReceivedQty += Math.min(line.quantityReceived, line.quantity);
+      }
+    }
+
+    if (po.emailSentAt) {
+      emailsSent++;
+      const opened = hoursAfterSent(po, po.emailOpenedAt);
+      if (opened != null) {
+        emailsOpened++;
+        openHours.push(opened);
+      }
+      const answered = responseHours(po);
+      if (answered != null) answerHours.push(answered);
+    }
+
+    for (const r of po.refundReplacementRecords) {
+      issueQty += r.quantity;
+      issueQtyByCategory[r.reasonCategory] =
+        (issueQtyByCategory[r.reasonCategory] ?? 0) + r.quantity;
+    }
+  }
+
+  const onTimeRate = ratio(onTimeDeliveries, datedDeliveries);
+  const fillRate = ratio(closedReceivedQty, closedOrderedQty);
+  const issueRate = ratio(issueQty, orderedQty);
+  const parts = [onTimeRate, fillRate, issueRate == null ? null : Math.max(0, 1 - issueRate)].filter(
+    (p): p is number => p != null,
+  );
+  const lateCount = datedDeliveries - onTimeDeliveries;
+
+  return {
+    poCount: pos.length,
+    datedDeliveries,
+    onTimeDeliveries,
+    onTimeRate,
+    avgDaysLate: lateCount > 0 ? lateDaysTotal / lateCount : null,
+    closedOrderedQty,
+    closedReceivedQty,
+    fillRate,
+    emailsSent,
+    emailsOpened,
+    emailsAnswered: answerHours.length,
+    medianOpenHours: median(openHours),
+    medianResponseHours: median(answerHours),
+    orderedQty,
+    issueQty,
+    issueRate,
+    issueQtyByCategory,
+    score:
+      parts.length > 0 ? Math.round((parts.reduce((s, p) => s + p, 0) / parts.length) * 100) : null,
+  };
+}
+
+/** Oldest PO first; one price per PO and SKU (the first priced line). */
+function skuPriceHistory(pos: ScorecardPo[]): SupplierScorecardSkuPrices[] {
+  const bySku = new Map<
+    string,
+    { title: string; currency: string; points: { poNumber: string; ymd: string; price: number }[] }
+  >();
+  const chronological = [...pos].sort((a, b) => orderedYmd(a).localeCompare(orderedYmd(b)));
+  for (const po of chronological) {
+    const seen = new Set<string>();
+    for (const line of po.lineItems) {
+      if (!line.sku || line.itemPrice == null || seen.has(line.sku)) continue;
+      seen.add(line.sku);
+      const entry = bySku.get(line.sku) ?? {
+        title: mergeProductAndVariantTitle(line.productTitle ?? line.sku, line.variantTitle),
+        currency: po.currency,
+        points: [],
+      };
+      entry.points.push({ poNumber: po.poNumber, ymd: orderedYmd(po), price: Number(line.itemPrice) });
+      bySku.set(line.sku, entry);
+    }
+  }
+
+  const out: SupplierScorecardSkuPrices[] = [];
+  for (const [sku, { title, currency, points }] of bySku) {
+    const changes = points
+      .filter((p, i) => i === 0 || p.price !== points[i - 1].price)
+      .map((p) => ({ poNumber: p.poNumber, orderedYmd: p.ymd, unitPrice: p.price }));
+    const firstPrice = points[0].price;
+    const lastPrice = points[points.length - 1].price;
+    out.push({
+      sku,
+      title,
+      currency,
+      poCount: points.length,
+      firstPrice,
+      lastPrice,
+      changeRate: firstPrice > 0 ? (lastPrice - firstPrice) / firstPrice : null,
+      changes,
+    });
+  }
+  // Biggest movers first, then SKUs bought most often.
+  return out.sort(
+    (a, b) =>
+      Math.abs(b.changeRate ?? 0) - Math.abs(a.changeRate ?? 0) ||
+      b.poCount - a.poCount ||
+      a.sku.localeCompare(b.sku),
+  );
+}
+
+function toPoRow(po: ScorecardPo): SupplierScorecardPoRow {
+  return {
+    id: po.id,
+    poNumber: po.poNumber,
+    orderedYmd: orderedYmd(po),
+    expectedYmd: po.expectedDate ? dateYmd(po.expectedDate) : null,
+    receivedYmd: po.receivedAt ? toVancouverYmd(po.receivedAt) : null,
+    daysLate: daysLate(po),
+    orderedQty: po.lineItems.reduce((s, l) => s + l.quantity, 0),
+    receivedQty: po.lineItems.reduce((s, l) => s + l.quantityReceived, 0),
+    responseHours: responseHours(po),
+    issueQty: po.refundReplacementRecords.reduce((s, r) => s + r.quantity, 0),
+  };
+}
+
+async function loadScorecardPos(from: string, to: string) {
+  const start = vancouverWallTimeToDate(from, '00:00')!;
+  const end = vancouverWallTimeToDate(addDaysYmd(to, 1), '00:00')!;
+  return prisma.purchaseOrder.findMany({
+    where: {
+      supplierId: { not: null },
+      status: { not: 'pending' },
+      OR: [
+        {
+          dateCreated: {
+            gte: new Date(from + 'T00:00:00Z'),
+            lte: new Date(to + 'T00:00:00Z'),
+          },
+        },
+        { dateCreated: null, createdAt: { gte: start, lt: end } },
+      ],
+    },
+    select: scorecardPoSelect,
+  });
+}
+
+/**
+ * Ranking for every supplier with POs ordered `from`..`to` (inclusive `YYYY-MM-DD`), plus the
+ * per-supplier view when `supplierId` is given.
+ */
+export async function getSupplierScorecards(
+  from: string,
+  to: string,
+  supplierId: string | null,
+): Promise<SupplierScorecards> {
+  const [pos, suppliers] = await Promise.all([
+    loadScorecardPos(from, to),
+    prisma.supplier.findMany({ select: { id: true, company: true } }),
+  ]);
+  const companyById = new Map(suppliers.map((s) => [s.id, s.company]));
+
+  const bySupplier = new Map<string, ScorecardPo[]>();
+  for (const po of pos) {
+    const list = bySupplier.get(po.supplierId!) ?? [];
+    list.push(po);
+    bySupplier.set(po.supplierId!, list);
+  }
+
+  const rows: SupplierScorecardRow[] = [...bySupplier].map(([id, list]) => ({
+    id,
+    company: companyById.get(id) ?? 'Unknown supplier',
+    lastOrderedYmd: list.map(orderedYmd).sort().at(-1) ?? null,
+    ...summarize(list),
+  }));
+  rows.sort(
+    (a, b) =>
+      (b.score ?? -1) - (a.score ?? -1) ||
+      b.poCount - a.poCount ||
+      a.company.localeCompare(b.company),
+  );
+
+  let detail: SupplierScorecardDetail | null = null;
+  const company = supplierId ? companyById.get(supplierId) : undefined;
+  if (supplierId && company) {
+    const list = bySupplier.get(supplierId) ?? [];
+    detail = {
+      supplierId,
+      company,
+      metrics: summarize(list),
+      skuPrices: skuPriceHistory(list),
+      purchaseOrders: list
+        .map(toPoRow)
+        .sort((a, b) => b.orderedYmd.localeCompare(a.orderedYmd) || b.poNumber.localeCompare(a.poNumber)),
+    };
+  }
+
+  return { from, to, rows, detail };
+}
@@ -0,0 +1,245 @@
+/**
+ * QuickBooks company API writes for supplier bills, plus the Vendor / Account / Item lists the office
+ * maps suppliers and SKUs to. `realmId` is the decrypted QuickBooks company id passed to
+ * `withValidTokenForLocation` callbacks.
+ */
+
+import { AppError } from '@/lib/core/errors';
+import { getQuickBooksReportBaseUrl } from './config';
+
+const QB_MINOR_VERSION = '75';
+const QB_REQUEST_TIMEOUT_MS = 20_000;
+const QB_QUERY_MAX_RESULTS = 1000;
+
+/** Account types offered for bill lines (expense side of the P&L). */
+const BILL_ACCOUNT_TYPES = new Set([
+  'Expense',
+  'Cost of Goods Sold',
+  'Other Expense',
+  'Other Current Asset',
+]);
+
+export type QuickBooksRef = { id: string; name: string };
+
+export type QuickBooksBillLine =
+  | {
+      kind: 'account';
+      accountId: string;
+      amount: number;
+      description: string;
+    }
+  | {
+      kind: 'item';
+      itemId: string;
+      quantity: number;
+      unitPrice: number;
+      amount: number;
+      description: string;
+    };
+
+export type QuickBooksBillInput = {
+  vendorId: string;
+  /** Supplier invoice number, or the PO number when no invoice is linked. */
+  docNumber: string;
+  /** `YYYY-MM-DD` */
+  txnDate: string;
+  /** `YYYY-MM-DD` */
+  dueDate?: string | null;
+  privateNote?: string | null;
+  classId?: string;
+  lines: QuickBooksBillLine[];
+};
+
+async function qbRequest<T>(
+  realmId: string,
+  accessToken: string,
+  path: string,
+  init: { method?: 'GET' | 'POST'; body?: unknown; label: string },
+): Promise<T> {
+  const base = getQuickBooksReportBaseUrl();
+  const sep = path.includes('?') ? '&' : '?';
+  const url = `${base}/v3/company/${realmId}/${path}${sep}minorversion=${QB_MINOR_VERSION}`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), QB_REQUEST_TIMEOUT_MS);
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: init.method ?? 'GET',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+        ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: controller.signal,
+    });
+  } catch (e) {
+    if (e instanceof Error && e.name === 'AbortError') {
+      throw new AppError(`QuickBooks ${init.label} request timed out.`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!res.ok) {
+    const err = await res.text();
+    throw new AppError(
+      `QuickBooks ${init.label} request failed: ${res.status} ${err}`,
+      'QB_REQUEST_FAILED',
+      { status: res.status },
+      res.status === 401 ? 401 : 502,
+    );
+  }
+  return (await res.json()) as T;
+}
+
+async function queryEntities<E>(
+  realmId: string,
+  accessToken: string,
+  entity: 'Vendor' | 'Account' | 'Item',
+  select: string,
+): Promise<E[]> {
+  const query = `select ${select} from ${entity} where Active = true MAXRESULTS ${QB_QUERY_MAX_RESULTS}`;
+  const data = await qbRequest<{ QueryResponse?: Record<string, E[] | undefined> }>(
+    realmId,
+    accessToken,
+    `query?query=${encodeURIComponent(query)}`,
+    { label: `${entity} query` },
+  );
+  return data.QueryResponse?.[entity] ?? [];
+}
+
+export async function listQuickBooksVendors(
+  realmId: string,
+  accessToken: string,
+): Promise<QuickBooksRef[]> {
+  const rows = await queryEntities<{ Id: string; DisplayName?: string }>(
+    realmId,
+    accessToken,
+    'Vendor',
+    'Id, DisplayName',
+  );
+  return rows
+    .map((r) => ({ id: r.Id, name: r.DisplayName ?? r.Id }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Expense-side accounts a bill line can post to. */
+export async function listQuickBooksBillAccounts(
+  realmId: string,
+  accessToken: string,
+): Promise<QuickBooksRef[]> {
+  const rows = await queryEntities<{
+    Id: string;
+    Name?: string;
+    FullyQualifiedName?: string;
+    AccountType?: string;
+  }>(realmId, accessToken, 'Account', 'Id, Name, FullyQualifiedName, AccountType');
+  return rows
+    .filter((r) => !r.AccountType || BILL_ACCOUNT_TYPES.has(r.AccountType))
+    .map((r) => ({ id: r.Id, name: r.FullyQualifiedName ?? r.Name ?? r.Id }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function listQuickBooksItems(
+  realmId: string,
+  accessToken: string,
+): Promise<QuickBooksRef[]> {
+  const rows = await queryEntities<{ Id: string; Name?: string; FullyQualifiedName?: string }>(
+    realmId,
+    accessToken,
+    'Item',
+    'Id, Name, FullyQualifiedName',
+  );
+  return rows
+    .map((r) => ({ id: r.Id, name: r.FullyQualifiedName ?? r.Name ?? r.Id }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** QuickBooks query string literal: backslash-escape quotes. */
+function qbQueryString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+export type QuickBooksExistingBill = {
+  id: string;
+  totalAmount: number;
+  /** `YYYY-MM-DD` */
+  txnDate: string;
+  privateNote: string | null;
+};
+
+/** Bills for the vendor with this DocNumber (as `createQuickBooksBill` stores it, truncated). */
+export async function findQuickBooksBillsByDocNumber(
+  realmId: string,
+  accessToken: string,
+  vendorId: string,
+  docNumber: string,
+): Promise<QuickBooksExistingBill[]> {
+  const query =
+    `select Id, TotalAmt, TxnDate, PrivateNote from Bill` +
+    ` where DocNumber = ${qbQueryString(docNumber.slice(0, 21))}` +
+    ` and VendorRef = ${qbQueryString(vendorId)}`;
+  const data = await qbRequest<{
+    QueryResponse?: {
+      Bill?: { Id: string; TotalAmt?: number; TxnDate?: string; PrivateNote?: string }[];
+    };
+  }>(realmId, accessToken, `query?query=${encodeURIComponent(query)}`, {
+    label: 'Bill query',
+  });
+  return (data.QueryResponse?.Bill ?? []).map((b) => ({
+    id: b.Id,
+    totalAmount: b.TotalAmt ?? 0,
+    txnDate: b.TxnDate ?? '',
+    privateNote: b.PrivateNote ?? null,
+  }));
+}
+
+/** POST /v3/company/{realmId}/bill — returns the new Bill id. */
+export async function createQuickBooksBill(
+  realmId: string,
+  accessToken: string,
+  bill: QuickBooksBillInput,
+): Promise<{ id: string }> {
+  const classRef = bill.classId ? { ClassRef: { value: bill.classId } } : {};
+  const body = {
+    VendorRef: { value: bill.vendorId },
+    DocNumber: bill.docNumber.slice(0, 21),
+    TxnDate: bill.txnDate,
+    ...(bill.dueDate ? { DueDate: bill.dueDate } : {}),
+    ...(bill.privateNote ? { PrivateNote: bill.privateNote.slice(0, 4000) } : {}),
+    Line: bill.lines.map((l) =>
+      l.kind === 'item'
+        ? {
+            DetailType: 'ItemBasedExpenseLineDetail',
+            Amount: l.amount,
+            Description: l.description,
+            ItemBasedExpenseLineDetail: {
+              ItemRef: { value: l.itemId },
+              Qty: l.quantity,
+              UnitPrice: l.unitPrice,
+              ...classRef,
+            },
+          }
+        : {
+            DetailType: 'AccountBasedExpenseLineDetail',
+            Amount: l.amount,
+            Description: l.description,
+            AccountBasedExpenseLineDetail: {
+              AccountRef: { value: l.accountId },
+              ...classRef,
+            },
+          },
+    ),
+  };
+  const data = await qbRequest<{ Bill?: { Id?: string } }>(realmId, accessToken, 'bill', {
+    method: 'POST',
+    body,
+    label: 'Bill create',
+  });
+  const id = data.Bill?.Id;
+  if (!id) throw new AppError('QuickBooks Bill create returned no id');
+  return { id };
+}
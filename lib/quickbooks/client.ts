@@ -14,6 +14,10 @@ export type PnlApiResponse = {
   endDate: string;
   accountingMethod: 'Accrual' | 'Cash';
   report: PnlReportData;
+  /** When the stored report was fetched from QuickBooks (ISO). */
+  fetchedAt: string;
+  /** Last background refresh failed (e.g. QB_REFRESH_EXPIRED); `report` is from `fetchedAt`. */
+  refreshError: string | null;
 };
 
 /**
@@ -1,7 +1,8 @@
 /**
  * QuickBooks environment, base URLs, redirect URI, scopes, and OAuth client config.
  * Env: QUICKBOOKS_CLIENT_ID, QUICKBOOKS_CLIENT_SECRET, QUICKBOOKS_ENVIRONMENT;
- * optional QUICKBOOKS_*_SANDBOX for sandbox; QUICKBOOKS_REDIRECT_URI or NEXT_PUBLIC_APP_URL.
+ * optional QUICKBOOKS_*_SANDBOX for sandbox; QUICKBOOKS_REDIRECT_URI or NEXT_PUBLIC_APP_URL;
+ * optional QUICKBOOKS_API_BASE_URL to point the company API at a local mock (`pnpm mock:quickbooks`).
  */
 
 import { AppError } from '@/lib/core/errors';
@@ -9,11 +10,12 @@ import OAuthClient from 'intuit-oauth';
 
 const QB_ENV = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
 const QB_BASE =
-  QB_ENV === 'production'
+  process.env.QUICKBOOKS_API_BASE_URL?.replace(/\/$/, '') ||
+  (QB_ENV === 'production'
     ? 'https://quickbooks.api.intuit.com'
-    : 'https://sandbox-quickbooks.api.intuit.com';
+    : 'https://sandbox-quickbooks.api.intuit.com');
 
-/** Base URL for QuickBooks company API (reports). */
+/** Base URL for QuickBooks company API (reports, bills, vendor / account / item queries). */
 export function getQuickBooksReportBaseUrl(): string {
   return QB_BASE;
 }
@@ -37,3 +37,16 @@ export {
 export type { QuickBooksCompanyInfoResponse } from './fetcher';
 export { fetchPnlReport } from './client';
 export type { PnlApiResponse } from './client';
+export {
+  listQuickBooksVendors,
+  listQuickBooksBillAccounts,
+  listQuickBooksItems,
+  createQuickBooksBill,
+  findQuickBooksBillsByDocNumber,
+} from './bills';
+export type {
+  QuickBooksRef,
+  QuickBooksBillLine,
+  QuickBooksBillInput,
+  QuickBooksExistingBill,
+} from './bills';
@@ -0,0 +1,341 @@
+/**
+ * Persisted QuickBooks P&L reports (`QuickBooksPnlSnapshot`), keyed by location, period and
+ * accounting method. `/api/quickbooks/pnl` serves the stored report and refreshes stale rows in the
+ * background, so dashboards load without waiting on QuickBooks and keep working through outages or
+ * an expired connection. The hourly refresh cron reconciles recent months.
+ */
+
+import { prisma } from '@/lib/core/prisma';
+import { AppError } from '@/lib/core/errors';
+import { QB_REFRESH_EXPIRED } from '@/constants/error';
+import { addDaysYmd, getCurrentYearMonth, parseYearMonth, prevMonth } from '@/lib/utils';
+import { referenceCurrentMonthRange } from '@/features/dashboard/budget/utils/date-ranges';
+import { withValidTokenForLocation } from './oauth';
+import { fetchProfitAndLossReportFromQb } from './fetcher';
+import type { PnlReportData } from './parser';
+
+type AccountingMethod = 'Accrual' | 'Cash';
+
+/** Snapshots younger than this are served without a background refresh. */
+export const PNL_SNAPSHOT_FRESH_MS = 10 * 60_000;
+/** Months (including the current one) the refresh cron keeps up to date. */
+const RECONCILE_MONTHS = 3;
+/** Upper bound on QuickBooks report calls per cron run. */
+const MAX_REFRESH_PER_RUN = 120;
+/**
+ * No new report call starts after this much of a run has passed. With one in-flight call (25s
+ * timeout) on top, a run stays inside the refresh route's `maxDuration`.
+ */
+const REFRESH_BUDGET_MS = 30_000;
+/** Dashboards flag saved data older than this (or whose refresh failed). */
+const STALE_AFTER_MS = 24 * 60 * 60_000;
+
+export type PnlSnapshot = {
+  report: PnlReportData;
+  fetchedAt: Date;
+  /** Set when the last refresh failed; the report is then older than QuickBooks. */
+  lastError: string | null;
+};
+
+function toDbDate(ymd: string): Date {
+  return new Date(ymd + 'T00:00:00Z');
+}
+
+function ymdOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+type PnlPeriod = {
+  locationId: string;
+  startDate: string;
+  endDate: string;
+  accountingMethod: AccountingMethod;
+};
+
+function periodKey(p: PnlPeriod): string {
+  return `${p.locationId}:${p.startDate}:${p.endDate}:${p.accountingMethod}`;
+}
+
+/** Stored in `lastError`: the code for an expired connection (drives the reconnect prompt), else the message. */
+function errorLabel(err: unknown): string {
+  if (err instanceof AppError && err.code === QB_REFRESH_EXPIRED) return err.code;
+  return err instanceof Error ? err.message : String(err);
+}
+
+export async function readPnlSnapshot(
+  locationId: string,
+  startDate: string,
+  endDate: string,
+  accountingMethod: AccountingMethod,
+): Promise<PnlSnapshot | null> {
+  const row = await prisma.quickBooksPnlSnapshot.findUnique({
+    where: {
+      locationId_startDate_endDate_accountingMethod: {
+        locationId,
+        startDate: toDbDate(startDate),
+        endDate: toDbDate(endDate),
+        accountingMethod,
+      },
+    },
+    select: { report: true, fetchedAt: true, lastError: true },
+  });
+  if (!row) return null;
+  return {
+    report: row.report as unknown as PnlReportData,
+    fetchedAt: row.fetchedAt,
+    lastError: row.lastError,
+  };
+}
+
+export function isPnlSnapshotFresh(
+  snapshot: Pick<PnlSnapshot, 'fetchedAt'>,
+  now = new Date(),
+): boolean {
+  return now.getTime() - snapshot.fetchedAt.getTime() < PNL_SNAPSHOT_FRESH_MS;
+}
+
+/** In-flight refreshes, so concurrent requests for one period share a single QuickBooks call. */
+const inFlight = new Map<string, Promise<PnlSnapshot>>();
+
+/**
+ * Fetch the report from QuickBooks and store it. On failure the existing row keeps its report and
+ * records the error, and the error is rethrown.
+ */
+export function refreshPnlSnapshot(
+  locationId: string,
+  startDate: string,
+  endDate: string,
+  accountingMethod: AccountingMethod,
+): Promise<PnlSnapshot> {
+  const key = periodKey({ locationId, startDate, endDate, accountingMethod });
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const where = {
+    locationId_startDate_endDate_accountingMethod: {
+      locationId,
+      startDate: toDbDate(startDate),
+      endDate: toDbDate(endDate),
+      accountingMethod,
+    },
+  };
+  const run = (async () => {
+    try {
+      const report = (await withValidTokenForLocation(
+        locationId,
+        (accessToken, realmId, classId) =>
+          fetchProfitAndLossReportFromQb(
+            realmId,
+            startDate,
+            endDate,
+            accountingMethod,
+            accessToken,
+            classId,
+          ),
+      )) as PnlReportData;
+      const fetchedAt = new Date();
+      const json = report as unknown as object;
+      await prisma.quickBooksPnlSnapshot.upsert({
+        where,
+        create: {
+          locationId,
+          startDate: toDbDate(startDate),
+          endDate: toDbDate(endDate),
+          accountingMethod,
+          report: json,
+          fetchedAt,
+        },
+        update: { report: json, fetchedAt, lastError: null },
+      });
+      return { report, fetchedAt, lastError: null };
+    } catch (err) {
+      await prisma.quickBooksPnlSnapshot
+        .updateMany({
+          where: where.locationId_startDate_endDate_accountingMethod,
+          data: { lastError: errorLabel(err) },
+        })
+        .catch((writeErr: unknown) => {
+          console.error('[quickbooks pnl] failed to record refresh error:', writeErr);
+        });
+      throw err;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+  inFlight.set(key, run);
+  return run;
+}
+
+/** The stored report, fetched from QuickBooks first when the period has never been stored. */
+export async function getOrFetchPnlSnapshot(
+  locationId: string,
+  startDate: string,
+  endDate: string,
+  accountingMethod: AccountingMethod = 'Accrual',
+): Promise<PnlSnapshot> {
+  const stored = await readPnlSnapshot(locationId, startDate, endDate, accountingMethod);
+  return stored ?? refreshPnlSnapshot(locationId, startDate, endDate, accountingMethod);
+}
+
+export type PnlDataAsOf = {
+  fetchedAt: Date;
+  lastError: string | null;
+  stale: boolean;
+};
+
+/**
+ * Oldest Accrual snapshot among periods ending in `yearMonth` (month-to-date, YTD, weeks, days),
+ * for a dashboard's "data as of" note. `lastError` is set when any of them failed to refresh.
+ */
+export async function getPnlDataAsOf(
+  locationId: string,
+  yearMonth: string,
+): Promise<PnlDataAsOf | null> {
+  const { endDate } = referenceCurrentMonthRange(yearMonth);
+  const rows = await prisma.quickBooksPnlSnapshot.findMany({
+    where: {
+      locationId,
+      accountingMethod: 'Accrual',
+      endDate: { gte: toDbDate(`${yearMonth}-01`), lte: toDbDate(endDate) },
+    },
+    orderBy: { fetchedAt: 'asc' },
+    select: { fetchedAt: true, lastError: true },
+  });
+  if (rows.length === 0) return null;
+  const fetchedAt = rows[0].fetchedAt;
+  const lastError = rows.find((r) => r.lastError != null)?.lastError ?? null;
+  return {
+    fetchedAt,
+    lastError,
+    stale: lastError != null || Date.now() - fetchedAt.getTime() > STALE_AFTER_MS,
+  };
+}
+
+function isMonthEnd(ymd: string): boolean {
+  return addDaysYmd(ymd, 1).endsWith('-01');
+}
+
+export type RefreshPnlSnapshotsResult = {
+  refreshed: number;
+  failed: number;
+  pruned: number;
+  errors: { locationId: string; error: string }[];
+  /** More stale periods than one run handles; call again. */
+  hasMore: boolean;
+};
+
+/**
+ * Reconcile the last few months: seed each location's month-to-date and previous full months, then
+ * refresh every stored period ending in that window (oldest fetch first, failed rows last). One run
+ * stops at its time budget; the hourly cron picks up the rest. Month/year-to-date rows
+ * that ended before today are superseded by today's range and pruned. A location whose QuickBooks
+ * connection has expired is skipped after its first failure.
+ */
+export async function refreshRecentPnlSnapshots(): Promise<RefreshPnlSnapshotsResult> {
+  const result: RefreshPnlSnapshotsResult = {
+    refreshed: 0,
+    failed: 0,
+    pruned: 0,
+    errors: [],
+    hasMore: false,
+  };
+
+  const yearMonths = [getCurrentYearMonth()];
+  while (yearMonths.length < RECONCILE_MONTHS) {
+    const { year, month } = parseYearMonth(yearMonths[yearMonths.length - 1]);
+    yearMonths.push(prevMonth(year, month));
+  }
+  const today = referenceCurrentMonthRange(yearMonths[0]).endDate;
+  const windowStart = `${yearMonths[yearMonths.length - 1]}-01`;
+
+  const [locations, stored] = await Promise.all([
+    prisma.location.findMany({ select: { id: true } }),
+    prisma.quickBooksPnlSnapshot.findMany({
+      where: { endDate: { gte: toDbDate(windowStart) } },
+      orderBy: { fetchedAt: 'asc' },
+      select: {
+        id: true,
+        locationId: true,
+        startDate: true,
+        endDate: true,
+        accountingMethod: true,
+        fetchedAt: true,
+        lastError: true,
+      },
+    }),
+  ]);
+  const now = new Date();
+
+  const superseded = stored.filter((s) => {
+    const start = ymdOf(s.startDate);
+    const end = ymdOf(s.endDate);
+    return end < today && !isMonthEnd(end) && addDaysYmd(start, 6) < end;
+  });
+  if (superseded.length > 0) {
+    const { count } = await prisma.quickBooksPnlSnapshot.deleteMany({
+      where: { id: { in: superseded.map((s) => s.id) } },
+    });
+    result.pruned = count;
+  }
+  const supersededIds = new Set(superseded.map((s) => s.id));
+
+  // Fresh rows are skipped so the next run (`hasMore`) moves on to the rest. Queue order: seeds
+  // never stored, then stored rows oldest fetch first, with rows whose last refresh failed after
+  // the healthy ones so one broken realm cannot starve the others.
+  const storedKeys = new Set<string>();
+  const healthy: PnlPeriod[] = [];
+  const failing: PnlPeriod[] = [];
+  for (const s of stored) {
+    if (supersededIds.has(s.id)) continue;
+    const period: PnlPeriod = {
+      locationId: s.locationId,
+      startDate: ymdOf(s.startDate),
+      endDate: ymdOf(s.endDate),
+      accountingMethod: s.accountingMethod === 'Cash' ? 'Cash' : 'Accrual',
+    };
+    storedKeys.add(periodKey(period));
+    if (isPnlSnapshotFresh(s, now)) continue;
+    (s.lastError ? failing : healthy).push(period);
+  }
+  const periods = new Map<string, PnlPeriod>();
+  const addPeriod = (period: PnlPeriod) => {
+    const key = periodKey(period);
+    if (!periods.has(key)) periods.set(key, period);
+  };
+  for (const { id } of locations) {
+    for (const ym of yearMonths) {
+      const seed: PnlPeriod = {
+        locationId: id,
+        ...referenceCurrentMonthRange(ym),
+        accountingMethod: 'Accrual',
+      };
+      if (!storedKeys.has(periodKey(seed))) addPeriod(seed);
+    }
+  }
+  healthy.forEach(addPeriod);
+  failing.forEach(addPeriod);
+
+  const queue = [...periods.values()].slice(0, MAX_REFRESH_PER_RUN);
+  result.hasMore = periods.size > queue.length;
+  const skippedLocations = new Set<string>();
+  const deadline = now.getTime() + REFRESH_BUDGET_MS;
+  for (const p of queue) {
+    if (skippedLocations.has(p.locationId)) continue;
+    if (Date.now() >= deadline) {
+      result.hasMore = true;
+      break;
+    }
+    try {
+      await refreshPnlSnapshot(p.locationId, p.startDate, p.endDate, p.accountingMethod);
+      result.refreshed++;
+    } catch (err) {
+      result.failed++;
+      const error = errorLabel(err);
+      result.errors.push({ locationId: p.locationId, error });
+      if (err instanceof AppError && err.code === QB_REFRESH_EXPIRED) {
+        skippedLocations.add(p.locationId);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,36 @@
+import { getMailTransport, plainToHtml } from '@/lib/core/mailer';
+import { resolvePoEmailFromAddress } from '@/lib/order/po-email-settings';
+
+type ScheduledReportEmail = {
+  to: string[];
+  scheduleName: string;
+  locationLabel: string;
+  /** Human period, e.g. `2026-08` or `2026-06 to 2026-08`. */
+  periodLabel: string;
+  pdf: { filename: string; content: Buffer };
+};
+
+/** One email per location with the monthly P&L PDF attached. */
+export async function sendScheduledReportEmail(args: ScheduledReportEmail): Promise<void> {
+  if (args.to.length === 0) return;
+  const summary = [
+    `Attached is the monthly P&L report for ${args.locationLabel} (${args.periodLabel}).`,
+    '',
+    `Sent by the "${args.scheduleName}" report schedule. Figures are from QuickBooks (accrual basis) at the time of sending.`,
+  ].join('\n');
+
+  await getMailTransport().sendMail({
+    from: resolvePoEmailFromAddress(),
+    to: args.to,
+    subject: `P&L report: ${args.locationLabel} ${args.periodLabel}`,
+    text: summary,
+    html: `<div style="font-family:Arial,sans-serif;font-size:14px;color:#222">\n${plainToHtml(summary)}\n</div>`,
+    attachments: [
+      {
+        filename: args.pdf.filename,
+        content: args.pdf.content,
+        contentType: 'application/pdf',
+      },
+    ],
+  });
+}
@@ -64,3 +64,10 @@ export function listYearMonthsInRange(
   }
   return out;
 }
+
+/** Shift a `YYYY-MM-DD` calendar date by whole days. */
+export function addDaysYmd(ymd: string, days: number): string {
+  const d = new Date(ymd + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
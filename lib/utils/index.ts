@@ -8,6 +8,7 @@ export {
   isValidYearMonth,
   isBeforeYearMonth,
   listYearMonthsInRange,
+  addDaysYmd,
 } from './date';
 export { formatCurrency } from './format';
 export { getInternalAppBaseUrl } from './app-url';
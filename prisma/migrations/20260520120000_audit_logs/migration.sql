@@ -0,0 +1,27 @@
+-- Audit trail for office-managed records (budgets, suppliers, POs, delivery schedules, user approvals).
+CREATE SCHEMA IF NOT EXISTS "audit";
+
+CREATE TABLE IF NOT EXISTS "audit"."audit_logs" (
+  "id"           TEXT        NOT NULL,
+  "entity_type"  TEXT        NOT NULL,
+  "entity_id"    TEXT        NOT NULL,
+  "entity_label" TEXT,
+  "action"       TEXT        NOT NULL,
+  "before"       JSONB,
+  "after"        JSONB,
+  "actor_id"     TEXT,
+  "route"        TEXT,
+  "created_at"   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "audit_logs_actor_id_fkey"
+    FOREIGN KEY ("actor_id")
+    REFERENCES "public"."users"("id")
+    ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "audit_logs_entity_type_entity_id_idx"
+  ON "audit"."audit_logs" ("entity_type", "entity_id");
+CREATE INDEX IF NOT EXISTS "audit_logs_actor_id_idx"
+  ON "audit"."audit_logs" ("actor_id");
+CREATE INDEX IF NOT EXISTS "audit_logs_created_at_idx"
+  ON "audit"."audit_logs" ("created_at");
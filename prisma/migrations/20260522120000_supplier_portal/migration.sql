@@ -0,0 +1,44 @@
+-- Supplier portal: link supplier-role users to a supplier, track PO acknowledgement and proposed changes.
+ALTER TABLE "public"."users" ADD COLUMN IF NOT EXISTS "supplier_id" TEXT;
+
+ALTER TABLE "public"."users"
+  ADD CONSTRAINT "users_supplier_id_fkey"
+  FOREIGN KEY ("supplier_id") REFERENCES "order"."suppliers" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "users_supplier_id_idx"
+  ON "public"."users" ("supplier_id");
+
+ALTER TABLE "order"."purchase_orders"
+  ADD COLUMN IF NOT EXISTS "supplier_acknowledged_at" TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS "order"."purchase_order_supplier_responses" (
+  "id"                       TEXT        NOT NULL,
+  "purchase_order_id"        TEXT        NOT NULL,
+  "user_id"                  TEXT,
+  "acknowledged"             BOOLEAN     NOT NULL DEFAULT false,
+  "proposed_expected_date"   DATE,
+  "proposed_line_quantities" JSONB,
+  "note"                     TEXT,
+  "status"                   TEXT        NOT NULL DEFAULT 'pending',
+  "reviewed_at"              TIMESTAMPTZ,
+  "reviewed_by_id"           TEXT,
+  "created_at"               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT "purchase_order_supplier_responses_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "purchase_order_supplier_responses_purchase_order_id_fkey"
+    FOREIGN KEY ("purchase_order_id")
+    REFERENCES "order"."purchase_orders"("id")
+    ON DELETE CASCADE,
+  CONSTRAINT "purchase_order_supplier_responses_user_id_fkey"
+    FOREIGN KEY ("user_id")
+    REFERENCES "public"."users"("id")
+    ON DELETE SET NULL,
+  CONSTRAINT "purchase_order_supplier_responses_reviewed_by_id_fkey"
+    FOREIGN KEY ("reviewed_by_id")
+    REFERENCES "public"."users"("id")
+    ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "purchase_order_supplier_responses_purchase_order_id_idx"
+  ON "order"."purchase_order_supplier_responses" ("purchase_order_id");
+CREATE INDEX IF NOT EXISTS "purchase_order_supplier_responses_status_idx"
+  ON "order"."purchase_order_supplier_responses" ("status");
@@ -0,0 +1,10 @@
+-- Store-manager ordering: Shopify customer used for orders placed from a preset's locations.
+ALTER TABLE "public"."delivery_location_presets"
+  ADD COLUMN IF NOT EXISTS "shopify_customer_id" TEXT;
+
+CREATE INDEX IF NOT EXISTS "delivery_location_presets_shopify_customer_id_idx"
+  ON "public"."delivery_location_presets" ("shopify_customer_id");
+
+ALTER TABLE "public"."delivery_location_presets"
+  ADD CONSTRAINT "delivery_location_presets_shopify_customer_id_fkey"
+  FOREIGN KEY ("shopify_customer_id") REFERENCES "order"."shopify_customers" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
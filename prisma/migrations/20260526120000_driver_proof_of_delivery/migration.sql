@@ -0,0 +1,16 @@
+-- Driver proof of delivery: stop link, pickup time, recipient / signature, delivered quantities.
+ALTER TABLE "order"."fulfillments"
+  ADD COLUMN IF NOT EXISTS "daily_schedule_stop_id" TEXT,
+  ADD COLUMN IF NOT EXISTS "picked_up_at" TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS "recipient_name" TEXT,
+  ADD COLUMN IF NOT EXISTS "signature_image" TEXT;
+
+CREATE INDEX IF NOT EXISTS "fulfillments_daily_schedule_stop_id_idx"
+  ON "order"."fulfillments" ("daily_schedule_stop_id");
+
+ALTER TABLE "order"."fulfillments"
+  ADD CONSTRAINT "fulfillments_daily_schedule_stop_id_fkey"
+  FOREIGN KEY ("daily_schedule_stop_id") REFERENCES "delivery"."daily_schedule_stops" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "order"."fulfillment_line_items"
+  ADD COLUMN IF NOT EXISTS "delivered_quantity" INTEGER;
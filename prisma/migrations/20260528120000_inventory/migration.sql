@@ -0,0 +1,62 @@
+-- Inventory: stock on hand per location + Shopify variant, and the movement ledger behind it.
+CREATE SCHEMA IF NOT EXISTS "inventory";
+
+CREATE TABLE IF NOT EXISTS "inventory"."inventory_levels" (
+  "id"              TEXT        NOT NULL,
+  "location_id"     TEXT        NOT NULL,
+  "variant_gid"     TEXT        NOT NULL,
+  "product_title"   TEXT,
+  "variant_title"   TEXT,
+  "sku"             TEXT,
+  "on_hand"         INTEGER     NOT NULL DEFAULT 0,
+  "last_counted_at" TIMESTAMPTZ,
+  "created_at"      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"      TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "inventory_levels_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "inventory_levels_location_id_fkey"
+    FOREIGN KEY ("location_id")
+    REFERENCES "public"."locations"("id")
+    ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "inventory_levels_location_id_variant_gid_key"
+  ON "inventory"."inventory_levels" ("location_id", "variant_gid");
+CREATE INDEX IF NOT EXISTS "inventory_levels_variant_gid_idx"
+  ON "inventory"."inventory_levels" ("variant_gid");
+
+CREATE TABLE IF NOT EXISTS "inventory"."inventory_movements" (
+  "id"                          TEXT        NOT NULL,
+  "location_id"                 TEXT        NOT NULL,
+  "variant_gid"                 TEXT        NOT NULL,
+  "quantity_delta"              INTEGER     NOT NULL,
+  "reason"                      TEXT        NOT NULL,
+  "note"                        TEXT,
+  "purchase_order_line_item_id" TEXT,
+  "fulfillment_line_item_id"    TEXT,
+  "user_id"                     TEXT,
+  "created_at"                  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT "inventory_movements_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "inventory_movements_location_id_fkey"
+    FOREIGN KEY ("location_id")
+    REFERENCES "public"."locations"("id")
+    ON DELETE CASCADE,
+  CONSTRAINT "inventory_movements_purchase_order_line_item_id_fkey"
+    FOREIGN KEY ("purchase_order_line_item_id")
+    REFERENCES "order"."purchase_order_line_items"("id")
+    ON DELETE SET NULL,
+  CONSTRAINT "inventory_movements_fulfillment_line_item_id_fkey"
+    FOREIGN KEY ("fulfillment_line_item_id")
+    REFERENCES "order"."fulfillment_line_items"("id")
+    ON DELETE SET NULL,
+  CONSTRAINT "inventory_movements_user_id_fkey"
+    FOREIGN KEY ("user_id")
+    REFERENCES "public"."users"("id")
+    ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "inventory_movements_location_id_variant_gid_created_at_idx"
+  ON "inventory"."inventory_movements" ("location_id", "variant_gid", "created_at");
+CREATE INDEX IF NOT EXISTS "inventory_movements_purchase_order_line_item_id_idx"
+  ON "inventory"."inventory_movements" ("purchase_order_line_item_id");
+CREATE INDEX IF NOT EXISTS "inventory_movements_fulfillment_line_item_id_idx"
+  ON "inventory"."inventory_movements" ("fulfillment_line_item_id");
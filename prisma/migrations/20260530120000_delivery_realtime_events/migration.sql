@@ -0,0 +1,13 @@
+-- Delivery realtime over Postgres LISTEN/NOTIFY: event log for SSE Last-Event-ID backfill.
+CREATE TABLE IF NOT EXISTS "delivery"."realtime_events" (
+  "id"         BIGSERIAL   NOT NULL,
+  "driver_id"  TEXT        NOT NULL,
+  "payload"    JSONB       NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT "realtime_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "realtime_events_driver_id_id_idx"
+  ON "delivery"."realtime_events" ("driver_id", "id");
+CREATE INDEX IF NOT EXISTS "realtime_events_created_at_idx"
+  ON "delivery"."realtime_events" ("created_at");
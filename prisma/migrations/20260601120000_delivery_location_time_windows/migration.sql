@@ -0,0 +1,3 @@
+-- Optional delivery time windows per delivery location (local "HH:MM"), used by route optimization
+ALTER TABLE "delivery"."delivery_locations" ADD COLUMN IF NOT EXISTS "window_start" TEXT;
+ALTER TABLE "delivery"."delivery_locations" ADD COLUMN IF NOT EXISTS "window_end" TEXT;
@@ -0,0 +1,7 @@
+-- Planned arrival windows on template and daily stops, plus the late-warning marker
+ALTER TABLE "delivery"."fixed_schedule_stops" ADD COLUMN IF NOT EXISTS "planned_start" TEXT;
+ALTER TABLE "delivery"."fixed_schedule_stops" ADD COLUMN IF NOT EXISTS "planned_end" TEXT;
+
+ALTER TABLE "delivery"."daily_schedule_stops" ADD COLUMN IF NOT EXISTS "planned_start" TEXT;
+ALTER TABLE "delivery"."daily_schedule_stops" ADD COLUMN IF NOT EXISTS "planned_end" TEXT;
+ALTER TABLE "delivery"."daily_schedule_stops" ADD COLUMN IF NOT EXISTS "late_notified_at" TIMESTAMPTZ;
@@ -0,0 +1,18 @@
+-- Simplified per-day GPS tracks that replace raw driver_location_updates after the retention period.
+CREATE TABLE IF NOT EXISTS "delivery"."driver_track_archives" (
+  "id"              TEXT        NOT NULL,
+  "driver_id"       TEXT        NOT NULL,
+  "date"            DATE        NOT NULL,
+  "points"          JSONB       NOT NULL,
+  "raw_point_count" INTEGER     NOT NULL,
+  "created_at"      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"      TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "driver_track_archives_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "driver_track_archives_driver_id_date_key"
+  ON "delivery"."driver_track_archives" ("driver_id", "date");
+
+ALTER TABLE "delivery"."driver_track_archives"
+  ADD CONSTRAINT "driver_track_archives_driver_id_fkey"
+  FOREIGN KEY ("driver_id") REFERENCES "delivery"."drivers" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- Persisted QuickBooks P&L reports so dashboards don't wait on (or fail with) QuickBooks.
+CREATE TABLE IF NOT EXISTS "dashboard"."quickbooks_pnl_snapshots" (
+  "id"                TEXT        NOT NULL,
+  "location_id"       TEXT        NOT NULL,
+  "start_date"        DATE        NOT NULL,
+  "end_date"          DATE        NOT NULL,
+  "accounting_method" TEXT        NOT NULL,
+  "report"            JSONB       NOT NULL,
+  "fetched_at"        TIMESTAMPTZ NOT NULL,
+  "last_error"        TEXT,
+  "updated_at"        TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "quickbooks_pnl_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "quickbooks_pnl_snapshots_period_key"
+  ON "dashboard"."quickbooks_pnl_snapshots" ("location_id", "start_date", "end_date", "accounting_method");
+
+CREATE INDEX IF NOT EXISTS "quickbooks_pnl_snapshots_end_date_idx"
+  ON "dashboard"."quickbooks_pnl_snapshots" ("end_date");
+
+ALTER TABLE "dashboard"."quickbooks_pnl_snapshots"
+  ADD CONSTRAINT "quickbooks_pnl_snapshots_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
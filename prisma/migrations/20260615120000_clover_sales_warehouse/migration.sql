@@ -0,0 +1,60 @@
+-- Local copy of Clover payments / order line items per location, with an incremental sync cursor.
+CREATE TABLE IF NOT EXISTS "dashboard"."clover_sync_cursors" (
+  "location_id"     TEXT        NOT NULL,
+  "merchant_id"     TEXT        NOT NULL,
+  "backfilled_from" TIMESTAMPTZ NOT NULL,
+  "synced_through"  TIMESTAMPTZ NOT NULL,
+  "last_synced_at"  TIMESTAMPTZ,
+  "last_error"      TEXT,
+  "updated_at"      TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "clover_sync_cursors_pkey" PRIMARY KEY ("location_id")
+);
+
+CREATE TABLE IF NOT EXISTS "dashboard"."clover_payments" (
+  "id"           TEXT        NOT NULL,
+  "location_id"  TEXT        NOT NULL,
+  "clover_id"    TEXT        NOT NULL,
+  "order_id"     TEXT,
+  "paid_at"      TIMESTAMPTZ NOT NULL,
+  "amount_cents" INTEGER     NOT NULL,
+  "tax_cents"    INTEGER     NOT NULL,
+  "tip_cents"    INTEGER     NOT NULL,
+  "net_cents"    INTEGER     NOT NULL,
+  "tender_label" TEXT,
+  CONSTRAINT "clover_payments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clover_payments_location_id_clover_id_key"
+  ON "dashboard"."clover_payments" ("location_id", "clover_id");
+CREATE INDEX IF NOT EXISTS "clover_payments_location_id_paid_at_idx"
+  ON "dashboard"."clover_payments" ("location_id", "paid_at");
+
+CREATE TABLE IF NOT EXISTS "dashboard"."clover_line_items" (
+  "id"          TEXT             NOT NULL,
+  "location_id" TEXT             NOT NULL,
+  "clover_id"   TEXT             NOT NULL,
+  "order_id"    TEXT             NOT NULL,
+  "item_id"     TEXT,
+  "name"        TEXT             NOT NULL,
+  "price_cents" INTEGER          NOT NULL,
+  "quantity"    DOUBLE PRECISION NOT NULL,
+  "ordered_at"  TIMESTAMPTZ      NOT NULL,
+  CONSTRAINT "clover_line_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clover_line_items_location_id_clover_id_key"
+  ON "dashboard"."clover_line_items" ("location_id", "clover_id");
+CREATE INDEX IF NOT EXISTS "clover_line_items_location_id_ordered_at_idx"
+  ON "dashboard"."clover_line_items" ("location_id", "ordered_at");
+
+ALTER TABLE "dashboard"."clover_sync_cursors"
+  ADD CONSTRAINT "clover_sync_cursors_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "dashboard"."clover_payments"
+  ADD CONSTRAINT "clover_payments_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "dashboard"."clover_line_items"
+  ADD CONSTRAINT "clover_line_items_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
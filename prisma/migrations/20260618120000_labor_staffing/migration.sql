@@ -0,0 +1,30 @@
+-- Labor dashboard staffing: hourly wage setting and a recurring weekly shift roster per location.
+CREATE TABLE IF NOT EXISTS "dashboard"."labor_staffing_settings" (
+  "location_id" TEXT          NOT NULL,
+  "hourly_wage" DECIMAL(8, 2) NOT NULL,
+  "updated_at"  TIMESTAMPTZ   NOT NULL,
+  CONSTRAINT "labor_staffing_settings_pkey" PRIMARY KEY ("location_id")
+);
+
+CREATE TABLE IF NOT EXISTS "dashboard"."labor_shifts" (
+  "id"          TEXT        NOT NULL,
+  "location_id" TEXT        NOT NULL,
+  "day_of_week" INTEGER     NOT NULL,
+  "start_time"  TEXT        NOT NULL,
+  "end_time"    TEXT        NOT NULL,
+  "headcount"   INTEGER     NOT NULL DEFAULT 1,
+  "label"       TEXT,
+  "created_at"  TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "labor_shifts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "labor_shifts_location_id_day_of_week_idx"
+  ON "dashboard"."labor_shifts" ("location_id", "day_of_week");
+
+ALTER TABLE "dashboard"."labor_staffing_settings"
+  ADD CONSTRAINT "labor_staffing_settings_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "dashboard"."labor_shifts"
+  ADD CONSTRAINT "labor_shifts_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
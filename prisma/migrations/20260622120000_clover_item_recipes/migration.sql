@@ -0,0 +1,22 @@
+-- Clover menu item → Cost recipe mapping per location (menu engineering margins).
+CREATE TABLE IF NOT EXISTS "dashboard"."clover_item_recipes" (
+  "id"          TEXT             NOT NULL,
+  "location_id" TEXT             NOT NULL,
+  "item_key"    TEXT             NOT NULL,
+  "item_name"   TEXT             NOT NULL,
+  "cost_id"     TEXT             NOT NULL,
+  "portions"    DOUBLE PRECISION NOT NULL DEFAULT 1,
+  "updated_at"  TIMESTAMPTZ      NOT NULL,
+  CONSTRAINT "clover_item_recipes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "clover_item_recipes_location_id_item_key_key"
+  ON "dashboard"."clover_item_recipes" ("location_id", "item_key");
+
+ALTER TABLE "dashboard"."clover_item_recipes"
+  ADD CONSTRAINT "clover_item_recipes_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "dashboard"."clover_item_recipes"
+  ADD CONSTRAINT "clover_item_recipes_cost_id_fkey"
+  FOREIGN KEY ("cost_id") REFERENCES "cost"."costs" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- Budget vs actual variance alerts: thresholds on the budget settings row and a log of sent crossings.
+ALTER TABLE "dashboard"."budget_settings"
+  ADD COLUMN IF NOT EXISTS "alerts_enabled"         BOOLEAN   NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS "alert_cos_thresholds"   INTEGER[] NOT NULL DEFAULT ARRAY[80, 100]::INTEGER[],
+  ADD COLUMN IF NOT EXISTS "alert_labor_thresholds" INTEGER[] NOT NULL DEFAULT ARRAY[100]::INTEGER[],
+  ADD COLUMN IF NOT EXISTS "alert_recipients"       TEXT;
+
+CREATE TABLE IF NOT EXISTS "dashboard"."budget_alert_events" (
+  "id"          TEXT           NOT NULL,
+  "location_id" TEXT           NOT NULL,
+  "year_month"  TEXT           NOT NULL,
+  "subject"     TEXT           NOT NULL,
+  "threshold"   INTEGER        NOT NULL,
+  "actual"      DECIMAL(14, 2) NOT NULL,
+  "budget"      DECIMAL(14, 2) NOT NULL,
+  "sent_at"     TIMESTAMPTZ    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "budget_alert_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "budget_alert_events_location_id_year_month_subject_threshold_key"
+  ON "dashboard"."budget_alert_events" ("location_id", "year_month", "subject", "threshold");
+
+ALTER TABLE "dashboard"."budget_alert_events"
+  ADD CONSTRAINT "budget_alert_events_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
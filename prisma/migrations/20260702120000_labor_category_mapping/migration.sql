@@ -0,0 +1,38 @@
+-- Editable labor buckets and per-realm QuickBooks account → bucket mapping.
+CREATE TABLE IF NOT EXISTS "dashboard"."labor_categories" (
+  "id"          TEXT        NOT NULL,
+  "name"        TEXT        NOT NULL,
+  "sort_order"  INTEGER     NOT NULL DEFAULT 0,
+  "is_built_in" BOOLEAN     NOT NULL DEFAULT false,
+  "created_at"  TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "labor_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- Built-ins keep the ids the dashboard has always used (LABOR_CATEGORY_DEF).
+INSERT INTO "dashboard"."labor_categories" ("id", "name", "sort_order", "is_built_in") VALUES
+  ('management-fee',  'Management Fee',  0, true),
+  ('health-benefits', 'Health Benefits', 1, true),
+  ('tax',             'Tax',             2, true),
+  ('wage',            'Wage',            3, true),
+  ('others',          'Others',          4, true)
+ON CONFLICT ("id") DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS "dashboard"."labor_account_mappings" (
+  "id"           TEXT        NOT NULL,
+  "realm_id"     TEXT        NOT NULL,
+  "account_name" TEXT        NOT NULL,
+  "category_id"  TEXT        NOT NULL,
+  "updated_at"   TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "labor_account_mappings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "labor_account_mappings_realm_id_account_name_key"
+  ON "dashboard"."labor_account_mappings" ("realm_id", "account_name");
+
+ALTER TABLE "dashboard"."labor_account_mappings"
+  ADD CONSTRAINT "labor_account_mappings_realm_id_fkey"
+  FOREIGN KEY ("realm_id") REFERENCES "public"."realms" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "dashboard"."labor_account_mappings"
+  ADD CONSTRAINT "labor_account_mappings_category_id_fkey"
+  FOREIGN KEY ("category_id") REFERENCES "dashboard"."labor_categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
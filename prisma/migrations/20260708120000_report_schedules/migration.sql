@@ -0,0 +1,52 @@
+-- Scheduled monthly P&L reports: schedules, their locations, and one run row per location and period.
+CREATE TABLE IF NOT EXISTS "dashboard"."report_schedules" (
+  "id"           TEXT        NOT NULL,
+  "name"         TEXT        NOT NULL,
+  "day_of_month" INTEGER     NOT NULL,
+  "months_back"  INTEGER     NOT NULL DEFAULT 1,
+  "recipients"   TEXT[]      NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "is_active"    BOOLEAN     NOT NULL DEFAULT true,
+  "created_at"   TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"   TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "report_schedules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "dashboard"."report_schedule_locations" (
+  "schedule_id" TEXT NOT NULL,
+  "location_id" TEXT NOT NULL,
+  CONSTRAINT "report_schedule_locations_pkey" PRIMARY KEY ("schedule_id", "location_id")
+);
+
+CREATE TABLE IF NOT EXISTS "dashboard"."report_schedule_runs" (
+  "id"          TEXT        NOT NULL,
+  "schedule_id" TEXT        NOT NULL,
+  "location_id" TEXT        NOT NULL,
+  "start_month" TEXT        NOT NULL,
+  "end_month"   TEXT        NOT NULL,
+  "status"      TEXT        NOT NULL DEFAULT 'running',
+  "error"       TEXT,
+  "recipients"  TEXT[]      NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "attempts"    INTEGER     NOT NULL DEFAULT 1,
+  "started_at"  TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "finished_at" TIMESTAMPTZ,
+  CONSTRAINT "report_schedule_runs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "report_schedule_runs_schedule_id_location_id_end_month_key"
+  ON "dashboard"."report_schedule_runs" ("schedule_id", "location_id", "end_month");
+CREATE INDEX IF NOT EXISTS "report_schedule_runs_status_idx"
+  ON "dashboard"."report_schedule_runs" ("status");
+
+ALTER TABLE "dashboard"."report_schedule_locations"
+  ADD CONSTRAINT "report_schedule_locations_schedule_id_fkey"
+  FOREIGN KEY ("schedule_id") REFERENCES "dashboard"."report_schedules" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "dashboard"."report_schedule_locations"
+  ADD CONSTRAINT "report_schedule_locations_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "dashboard"."report_schedule_runs"
+  ADD CONSTRAINT "report_schedule_runs_schedule_id_fkey"
+  FOREIGN KEY ("schedule_id") REFERENCES "dashboard"."report_schedules" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "dashboard"."report_schedule_runs"
+  ADD CONSTRAINT "report_schedule_runs_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- Native P&L report store (previously Notion only). Existing Notion reports are imported with
+-- `pnpm migrate:reports` (scripts/migrate-reports-from-notion.ts).
+CREATE TABLE IF NOT EXISTS "dashboard"."pnl_reports" (
+  "id"                 TEXT        NOT NULL,
+  "location_id"        TEXT        NOT NULL,
+  "start_date"         DATE        NOT NULL,
+  "end_date"           DATE        NOT NULL,
+  "is_monthly"         BOOLEAN     NOT NULL DEFAULT false,
+  "accounting_method"  TEXT        NOT NULL DEFAULT 'Accrual',
+  "report"             JSONB,
+  "target_percentages" JSONB       NOT NULL,
+  "created_by_id"      TEXT,
+  "created_by_name"    TEXT,
+  "notion_page_id"     TEXT,
+  "notion_url"         TEXT,
+  "created_at"         TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"         TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "pnl_reports_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "pnl_reports_notion_page_id_key"
+  ON "dashboard"."pnl_reports" ("notion_page_id");
+CREATE INDEX IF NOT EXISTS "pnl_reports_location_id_start_date_idx"
+  ON "dashboard"."pnl_reports" ("location_id", "start_date");
+
+ALTER TABLE "dashboard"."pnl_reports"
+  ADD CONSTRAINT "pnl_reports_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "dashboard"."pnl_reports"
+  ADD CONSTRAINT "pnl_reports_created_by_id_fkey"
+  FOREIGN KEY ("created_by_id") REFERENCES "public"."users" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
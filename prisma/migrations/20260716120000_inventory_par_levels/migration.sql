@@ -0,0 +1,27 @@
+-- Per-location, per-variant par and reorder points; the par-level job drafts auto POs from these.
+CREATE TABLE IF NOT EXISTS "inventory"."inventory_par_levels" (
+  "id"            TEXT        NOT NULL,
+  "location_id"   TEXT        NOT NULL,
+  "variant_gid"   TEXT        NOT NULL,
+  "supplier_id"   TEXT        NOT NULL,
+  "product_title" TEXT,
+  "variant_title" TEXT,
+  "sku"           TEXT,
+  "par_level"     INTEGER     NOT NULL,
+  "reorder_point" INTEGER     NOT NULL,
+  "created_at"    TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"    TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "inventory_par_levels_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "inventory_par_levels_location_id_variant_gid_key"
+  ON "inventory"."inventory_par_levels" ("location_id", "variant_gid");
+CREATE INDEX IF NOT EXISTS "inventory_par_levels_supplier_id_idx"
+  ON "inventory"."inventory_par_levels" ("supplier_id");
+
+ALTER TABLE "inventory"."inventory_par_levels"
+  ADD CONSTRAINT "inventory_par_levels_location_id_fkey"
+  FOREIGN KEY ("location_id") REFERENCES "public"."locations" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "inventory"."inventory_par_levels"
+  ADD CONSTRAINT "inventory_par_levels_supplier_id_fkey"
+  FOREIGN KEY ("supplier_id") REFERENCES "order"."suppliers" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
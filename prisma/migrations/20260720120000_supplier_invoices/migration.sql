@@ -0,0 +1,75 @@
+-- Supplier invoices linked to POs for three-way matching (ordered vs received vs invoiced).
+CREATE TABLE IF NOT EXISTS "order"."supplier_invoices" (
+  "id"             TEXT          NOT NULL,
+  "supplier_id"    TEXT          NOT NULL,
+  "invoice_number" TEXT          NOT NULL,
+  "invoice_date"   DATE          NOT NULL,
+  "due_date"       DATE,
+  "currency"       TEXT          NOT NULL DEFAULT 'CAD',
+  "subtotal"       DECIMAL(14,2),
+  "tax"            DECIMAL(14,2),
+  "shipping"       DECIMAL(14,2),
+  "total"          DECIMAL(14,2) NOT NULL,
+  "status"         TEXT          NOT NULL DEFAULT 'open',
+  "dispute_note"   TEXT,
+  "disputed_at"    TIMESTAMPTZ,
+  "approved_at"    TIMESTAMPTZ,
+  "source"         TEXT          NOT NULL DEFAULT 'manual',
+  "notes"          TEXT,
+  "created_by_id"  TEXT,
+  "created_at"     TIMESTAMPTZ   NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"     TIMESTAMPTZ   NOT NULL,
+  CONSTRAINT "supplier_invoices_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "supplier_invoices_supplier_id_invoice_number_key"
+  ON "order"."supplier_invoices" ("supplier_id", "invoice_number");
+CREATE INDEX IF NOT EXISTS "supplier_invoices_status_idx"
+  ON "order"."supplier_invoices" ("status");
+
+ALTER TABLE "order"."supplier_invoices"
+  ADD CONSTRAINT "supplier_invoices_supplier_id_fkey"
+  FOREIGN KEY ("supplier_id") REFERENCES "order"."suppliers" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "order"."supplier_invoices"
+  ADD CONSTRAINT "supplier_invoices_created_by_id_fkey"
+  FOREIGN KEY ("created_by_id") REFERENCES "public"."users" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "order"."supplier_invoice_purchase_orders" (
+  "invoice_id"        TEXT NOT NULL,
+  "purchase_order_id" TEXT NOT NULL,
+  CONSTRAINT "supplier_invoice_purchase_orders_pkey" PRIMARY KEY ("invoice_id", "purchase_order_id")
+);
+
+CREATE INDEX IF NOT EXISTS "supplier_invoice_purchase_orders_purchase_order_id_idx"
+  ON "order"."supplier_invoice_purchase_orders" ("purchase_order_id");
+
+ALTER TABLE "order"."supplier_invoice_purchase_orders"
+  ADD CONSTRAINT "supplier_invoice_purchase_orders_invoice_id_fkey"
+  FOREIGN KEY ("invoice_id") REFERENCES "order"."supplier_invoices" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "order"."supplier_invoice_purchase_orders"
+  ADD CONSTRAINT "supplier_invoice_purchase_orders_purchase_order_id_fkey"
+  FOREIGN KEY ("purchase_order_id") REFERENCES "order"."purchase_orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "order"."supplier_invoice_lines" (
+  "id"                          TEXT          NOT NULL,
+  "invoice_id"                  TEXT          NOT NULL,
+  "sequence"                    INTEGER       NOT NULL,
+  "purchase_order_line_item_id" TEXT,
+  "sku"                         TEXT,
+  "description"                 TEXT,
+  "quantity"                    INTEGER       NOT NULL,
+  "unit_price"                  DECIMAL(14,2) NOT NULL,
+  CONSTRAINT "supplier_invoice_lines_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "supplier_invoice_lines_invoice_id_sequence_key"
+  ON "order"."supplier_invoice_lines" ("invoice_id", "sequence");
+CREATE INDEX IF NOT EXISTS "supplier_invoice_lines_purchase_order_line_item_id_idx"
+  ON "order"."supplier_invoice_lines" ("purchase_order_line_item_id");
+
+ALTER TABLE "order"."supplier_invoice_lines"
+  ADD CONSTRAINT "supplier_invoice_lines_invoice_id_fkey"
+  FOREIGN KEY ("invoice_id") REFERENCES "order"."supplier_invoices" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "order"."supplier_invoice_lines"
+  ADD CONSTRAINT "supplier_invoice_lines_purchase_order_line_item_id_fkey"
+  FOREIGN KEY ("purchase_order_line_item_id") REFERENCES "order"."purchase_order_line_items" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
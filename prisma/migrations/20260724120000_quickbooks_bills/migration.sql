@@ -0,0 +1,48 @@
+-- QuickBooks bills pushed from received POs, with supplier → vendor and SKU → item/account mappings.
+ALTER TABLE "order"."purchase_orders" ADD COLUMN IF NOT EXISTS "qb_bill_id" TEXT;
+ALTER TABLE "order"."purchase_orders" ADD COLUMN IF NOT EXISTS "qb_bill_realm_id" TEXT;
+ALTER TABLE "order"."purchase_orders" ADD COLUMN IF NOT EXISTS "qb_bill_pushed_at" TIMESTAMPTZ;
+
+ALTER TABLE "order"."purchase_orders"
+  ADD CONSTRAINT "purchase_orders_qb_bill_realm_id_fkey"
+  FOREIGN KEY ("qb_bill_realm_id") REFERENCES "public"."realms" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "order"."quickbooks_vendor_mappings" (
+  "id"                   TEXT        NOT NULL,
+  "realm_id"             TEXT        NOT NULL,
+  "supplier_id"          TEXT        NOT NULL,
+  "qb_vendor_id"         TEXT        NOT NULL,
+  "qb_vendor_name"       TEXT,
+  "default_account_id"   TEXT,
+  "default_account_name" TEXT,
+  "updated_at"           TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "quickbooks_vendor_mappings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "quickbooks_vendor_mappings_realm_id_supplier_id_key"
+  ON "order"."quickbooks_vendor_mappings" ("realm_id", "supplier_id");
+
+ALTER TABLE "order"."quickbooks_vendor_mappings"
+  ADD CONSTRAINT "quickbooks_vendor_mappings_realm_id_fkey"
+  FOREIGN KEY ("realm_id") REFERENCES "public"."realms" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "order"."quickbooks_vendor_mappings"
+  ADD CONSTRAINT "quickbooks_vendor_mappings_supplier_id_fkey"
+  FOREIGN KEY ("supplier_id") REFERENCES "order"."suppliers" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "order"."quickbooks_item_mappings" (
+  "id"          TEXT        NOT NULL,
+  "realm_id"    TEXT        NOT NULL,
+  "sku"         TEXT        NOT NULL,
+  "kind"        TEXT        NOT NULL,
+  "qb_ref_id"   TEXT        NOT NULL,
+  "qb_ref_name" TEXT,
+  "updated_at"  TIMESTAMPTZ NOT NULL,
+  CONSTRAINT "quickbooks_item_mappings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "quickbooks_item_mappings_realm_id_sku_key"
+  ON "order"."quickbooks_item_mappings" ("realm_id", "sku");
+
+ALTER TABLE "order"."quickbooks_item_mappings"
+  ADD CONSTRAINT "quickbooks_item_mappings_realm_id_fkey"
+  FOREIGN KEY ("realm_id") REFERENCES "public"."realms" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- Purchase price history lookups by variant, and alerts when a PO line's price moves past a threshold.
+CREATE INDEX IF NOT EXISTS "purchase_order_line_items_shopify_variant_gid_idx"
+  ON "order"."purchase_order_line_items" ("shopify_variant_gid");
+
+CREATE TABLE IF NOT EXISTS "order"."purchase_price_alert_settings" (
+  "id"                TEXT          NOT NULL DEFAULT 'default',
+  "threshold_percent" DECIMAL(6, 2) NOT NULL DEFAULT 10,
+  "updated_at"        TIMESTAMPTZ   NOT NULL,
+  CONSTRAINT "purchase_price_alert_settings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "order"."purchase_price_alerts" (
+  "id"                          TEXT           NOT NULL,
+  "purchase_order_line_item_id" TEXT           NOT NULL,
+  "purchase_order_id"           TEXT           NOT NULL,
+  "variant_gid"                 TEXT           NOT NULL,
+  "previous_po_number"          TEXT           NOT NULL,
+  "previous_price"              DECIMAL(14, 2) NOT NULL,
+  "new_price"                   DECIMAL(14, 2) NOT NULL,
+  "created_at"                  TIMESTAMPTZ    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "dismissed_at"                TIMESTAMPTZ,
+  CONSTRAINT "purchase_price_alerts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "purchase_price_alerts_purchase_order_line_item_id_key"
+  ON "order"."purchase_price_alerts" ("purchase_order_line_item_id");
+CREATE INDEX IF NOT EXISTS "purchase_price_alerts_variant_gid_idx"
+  ON "order"."purchase_price_alerts" ("variant_gid");
+CREATE INDEX IF NOT EXISTS "purchase_price_alerts_purchase_order_id_idx"
+  ON "order"."purchase_price_alerts" ("purchase_order_id");
+
+ALTER TABLE "order"."purchase_price_alerts"
+  ADD CONSTRAINT "purchase_price_alerts_purchase_order_line_item_id_fkey"
+  FOREIGN KEY ("purchase_order_line_item_id") REFERENCES "order"."purchase_order_line_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "order"."purchase_price_alerts"
+  ADD CONSTRAINT "purchase_price_alerts_purchase_order_id_fkey"
+  FOREIGN KEY ("purchase_order_id") REFERENCES "order"."purchase_orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Marks a PO whose QuickBooks Bill push is in flight, so concurrent pushes cannot create duplicate bills.
+ALTER TABLE "order"."purchase_orders" ADD COLUMN IF NOT EXISTS "qb_bill_push_started_at" TIMESTAMPTZ;
@@ -103,7 +103,9 @@ export const proxy = auth((req) => {
 
 export const config = {
   matcher: [
-    // Exclude static assets, next-auth, and driver app API routes (Bearer token auth, no session).
-    '/((?!_next/static|_next/image|favicon.ico|api/auth|api/delivery/driver-auth|api/delivery/driver/schedule|api/delivery/driver/location|api/delivery/daily-schedule/stop|api/delivery/daily-schedule/task|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+    // Exclude static assets, next-auth, driver app API routes (Bearer token auth, no session) and the
+    // track retention / P&L refresh / Clover sync / budget alert / scheduled report / auto PO crons
+    // (Bearer CRON_SECRET).
+    '/((?!_next/static|_next/image|favicon.ico|api/auth|api/delivery/driver-auth|api/delivery/driver/schedule|api/delivery/driver/location|api/delivery/daily-schedule/stop|api/delivery/daily-schedule/task|api/delivery/tracking/retention|api/quickbooks/pnl/refresh|api/dashboard/clover/sync|api/dashboard/budget/alerts|api/report/schedules/cron|api/order/inventory/par-levels/cron|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
   ],
 };
@@ -0,0 +1,90 @@
+/**
+ * One-time import: P&L reports in the Notion database (NOTION_DATABASE_ID) → dashboard.pnl_reports.
+ *
+ * Keeps the Notion page id and URL on each row, so existing Notion PDF links keep resolving and a re-run
+ * skips pages already imported. The QuickBooks payload is fetched once per report so later PDFs render
+ * without QuickBooks; with --skip-fetch it is fetched on the first PDF view instead.
+ *
+ * Prerequisites: the 20260712120000_pnl_reports migration, NOTION_API_KEY, NOTION_DATABASE_ID.
+ *
+ * Usage:
+ *   pnpm migrate:reports [--skip-fetch]
+ */
+
+import 'dotenv/config';
+import { prisma } from '../lib/core/prisma';
+import { getReportsFromNotion, normalizeNotionId } from '../features/report/notion/reports';
+import { getPnlReportForRender, savePnlReport } from '../features/report/utils/report-store';
+
+const skipFetch = process.argv.includes('--skip-fetch');
+
+async function main() {
+  const pages = await getReportsFromNotion('');
+  console.log(`Found ${pages.length} report(s) in Notion.`);
+
+  const locations = await prisma.location.findMany({ select: { id: true, code: true } });
+  const locationIdByCode = new Map(locations.map((l) => [l.code, l.id]));
+  const imported = await prisma.pnlReport.findMany({
+    where: { notionPageId: { not: null } },
+    select: { notionPageId: true },
+  });
+  const importedPageIds = new Set(imported.map((r) => r.notionPageId));
+
+  let created = 0;
+  let skipped = 0;
+  let fetchFailed = 0;
+  for (const page of pages) {
+    const pageId = normalizeNotionId(page.id);
+    if (pageId && importedPageIds.has(pageId)) {
+      skipped++;
+      continue;
+    }
+    const locationId = locationIdByCode.get(page.locationCode.trim());
+    if (!locationId || !page.startDate || !page.endDate) {
+      console.warn(
+        `  ✗ ${page.id}: ${locationId ? 'missing start/end date' : `unknown location "${page.locationCode}"`}`,
+      );
+      skipped++;
+      continue;
+    }
+
+    const report = await savePnlReport({
+      locationId,
+      startDate: page.startDate.slice(0, 10),
+      endDate: page.endDate.slice(0, 10),
+      isMonthly: !!page.isMonthly,
+      accountingMethod: 'Accrual',
+      report: null,
+      targetPercentages: page.targetPercentages,
+      createdByName: page.userName,
+      createdAt: page.createdAt ? new Date(page.createdAt) : undefined,
+      notionPageId: page.id,
+      notionUrl: page.notionUrl,
+    });
+    created++;
+
+    if (!skipFetch) {
+      try {
+        await getPnlReportForRender(report.id);
+      } catch (err) {
+        fetchFailed++;
+        console.warn(`  ! ${page.locationCode} ${report.startDate}–${report.endDate}: ${(err as Error).message}`);
+      }
+    }
+    console.log(`  ✓ ${page.locationCode} ${report.startDate}–${report.endDate}`);
+  }
+
+  console.log(
+    `\nDone. Imported ${created}, skipped ${skipped}` +
+      (fetchFailed > 0 ? `, ${fetchFailed} without QuickBooks data (fetched on first PDF view).` : '.'),
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
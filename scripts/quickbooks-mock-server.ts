@@ -0,0 +1,79 @@
+/**
+ * Minimal local stand-in for the QuickBooks company API, for trying bill pushes without a sandbox
+ * company. Serves Vendor / Account / Item queries with a few fixed rows, accepts Bill creates (logged
+ * to stdout, ids count up from 1001) and answers company info. Any bearer token is accepted; the
+ * location still needs a realm with tokens so `withValidTokenForLocation` has something to send.
+ *
+ * Usage:
+ *   pnpm mock:quickbooks            # listens on :4010 (QB_MOCK_PORT to change)
+ *   QUICKBOOKS_API_BASE_URL=http://localhost:4010 pnpm dev
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+
+const PORT = Number(process.env.QB_MOCK_PORT ?? 4010);
+
+const ENTITIES: Record<string, Record<string, unknown>[]> = {
+  Vendor: [
+    { Id: '56', DisplayName: 'Fresh Produce Co' },
+    { Id: '57', DisplayName: 'Pacific Seafood Ltd' },
+    { Id: '58', DisplayName: 'Restaurant Supply Depot' },
+  ],
+  Account: [
+    { Id: '80', Name: 'Food Cost', FullyQualifiedName: 'Cost of Goods Sold:Food Cost', AccountType: 'Cost of Goods Sold' },
+    { Id: '81', Name: 'Beverage Cost', FullyQualifiedName: 'Cost of Goods Sold:Beverage Cost', AccountType: 'Cost of Goods Sold' },
+    { Id: '90', Name: 'Kitchen Supplies', FullyQualifiedName: 'Kitchen Supplies', AccountType: 'Expense' },
+    { Id: '33', Name: 'Accounts Payable', FullyQualifiedName: 'Accounts Payable', AccountType: 'Accounts Payable' },
+  ],
+  Item: [
+    { Id: '11', Name: 'Produce', FullyQualifiedName: 'Produce' },
+    { Id: '12', Name: 'Seafood', FullyQualifiedName: 'Seafood' },
+  ],
+};
+
+let nextBillId = 1001;
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/v3\/company\/([^/]+)\/(.+)$/);
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    return json(res, 401, { Fault: { Error: [{ Message: 'AuthenticationFailed' }] } });
+  }
+  if (!match) return json(res, 404, { error: 'Not found' });
+  const [, realmId, path] = match;
+
+  if (req.method === 'GET' && path === 'query') {
+    const query = url.searchParams.get('query') ?? '';
+    const entity = query.match(/from\s+(\w+)/i)?.[1] ?? '';
+    const rows = ENTITIES[entity] ?? [];
+    return json(res, 200, { QueryResponse: { [entity]: rows, maxResults: rows.length } });
+  }
+
+  if (req.method === 'POST' && path === 'bill') {
+    const bill = JSON.parse(await readBody(req)) as Record<string, unknown>;
+    const id = String(nextBillId++);
+    console.log(`[realm ${realmId}] Bill ${id}:`, JSON.stringify(bill, null, 2));
+    return json(res, 200, { Bill: { ...bill, Id: id, SyncToken: '0' } });
+  }
+
+  if (req.method === 'GET' && path.startsWith('companyinfo/')) {
+    return json(res, 200, { CompanyInfo: { Id: realmId, CompanyName: 'Mock Company' } });
+  }
+
+  return json(res, 404, { error: `No mock for ${req.method} ${path}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`QuickBooks mock listening on http://localhost:${PORT}`);
+});
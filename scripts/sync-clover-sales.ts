@@ -0,0 +1,49 @@
+/**
+ * Sync Clover payments and order line items into the local sales warehouse
+ * (dashboard.clover_payments / dashboard.clover_line_items) for every location with Clover
+ * credentials. Runs each location until its backfill is complete; safe to re-run.
+ *
+ * Usage:
+ *   pnpm sync:clover
+ *
+ * Requires DATABASE_URL.
+ */
+
+import 'dotenv/config';
+import { prisma } from '../lib/core/prisma';
+import { syncCloverSalesForLocation } from '../lib/clover/sales-sync';
+
+async function main() {
+  const locations = await prisma.location.findMany({
+    where: { cloverMerchantId: { not: null }, cloverToken: { not: null } },
+    select: { id: true, name: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  console.log(`Found ${locations.length} location(s) with Clover credentials.`);
+
+  for (const loc of locations) {
+    console.log(`\n[${loc.name}] syncing…`);
+    try {
+      for (;;) {
+        const r = await syncCloverSalesForLocation(loc.id);
+        console.log(
+          `  ${r.windows} window(s), ${r.payments} payments, ${r.lineItems} line items → through ${r.syncedThrough}`,
+        );
+        if (!r.hasMore) break;
+      }
+    } catch (err) {
+      console.error(`  ✗ Error: ${(err as Error).message}`);
+    }
+  }
+
+  console.log('\nDone.');
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });